@@ -1,2 +1,63 @@
-// update.ts
-export const placeholder = true;
\ No newline at end of file
+// Order Status Update API
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import {
+  requireStaffPermission,
+  resolveTabRequester,
+  StaffAccessError,
+  TabAccessError
+} from '@tabeza/shared';
+import {
+  getOrderBarId,
+  isOrderStatus,
+  transitionOrderStatus,
+  OrderTransitionError
+} from '@tabeza/shared/lib/services/order-lifecycle';
+
+/**
+ * POST /api/orders/update
+ * Body: { orderId, status, reason? }
+ * Staff send `Authorization: Bearer <access token>` and need a role that takes
+ * orders; customers send `X-Device-Id`.
+ * Illegal moves (e.g. served -> pending) are rejected with 409.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { orderId, status, reason } = await request.json();
+
+    if (!orderId || !isOrderStatus(status)) {
+      return NextResponse.json(
+        { error: 'orderId and a valid status are required' },
+        { status: 400 }
+      );
+    }
+
+    const requester = await resolveTabRequester(supabase, request.headers);
+    if (requester.type === 'staff') {
+      await requireStaffPermission(supabase, request.headers, await getOrderBarId(supabase, orderId), 'orders.take');
+    }
+
+    console.log('🔄 Order transition requested:', { orderId, status, by: requester.type });
+
+    const order = await transitionOrderStatus(supabase, orderId, status, requester, reason);
+
+    return NextResponse.json({
+      success: true,
+      order
+    });
+
+  } catch (error: any) {
+    if (error instanceof OrderTransitionError || error instanceof StaffAccessError || error instanceof TabAccessError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('❌ Order update API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
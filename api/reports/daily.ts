@@ -1,2 +1,51 @@
-// daily.ts
-export const placeholder = true;
\ No newline at end of file
+// Daily Z-Report API
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import {
+  generateDailyReport,
+  DailyReportError,
+  requireStaffPermission,
+  StaffAccessError,
+  TabAccessError
+} from '@tabeza/shared';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const barId = searchParams.get('barId');
+    const date = searchParams.get('date') || undefined;
+
+    if (!barId) {
+      return NextResponse.json(
+        { error: 'Bar ID is required' },
+        { status: 400 }
+      );
+    }
+
+    await requireStaffPermission(supabase, request.headers, barId, 'reports.view');
+
+    console.log('📊 Generating daily report:', { barId, date });
+
+    const report = await generateDailyReport(supabase, barId, date);
+
+    return NextResponse.json({
+      success: true,
+      report
+    });
+
+  } catch (error: any) {
+    console.error('❌ Daily report API error:', error);
+
+    if (error instanceof DailyReportError || error instanceof StaffAccessError || error instanceof TabAccessError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
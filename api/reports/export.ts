@@ -1,2 +1,55 @@
-// export.ts
-export const placeholder = true;
\ No newline at end of file
+// Report Export API
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import {
+  createReportExport,
+  parseExportRequest,
+  ReportExportError,
+  DailyReportError,
+  requireStaffPermission,
+  StaffAccessError,
+  TabAccessError
+} from '@tabeza/shared';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const exportRequest = parseExportRequest({
+      barId: searchParams.get('barId'),
+      entity: searchParams.get('entity'),
+      from: searchParams.get('from'),
+      to: searchParams.get('to'),
+      format: searchParams.get('format')
+    });
+
+    await requireStaffPermission(supabase, request.headers, exportRequest.barId, 'reports.view');
+
+    console.log('📤 Exporting report data:', exportRequest);
+
+    const file = await createReportExport(supabase, exportRequest);
+
+    // CSV bodies are streamed page by page; XLSX is sent as a single buffer
+    return new Response(file.body as BodyInit, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error: any) {
+    console.error('❌ Report export API error:', error);
+
+    if (error instanceof ReportExportError || error instanceof DailyReportError || error instanceof StaffAccessError || error instanceof TabAccessError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,2 +1,72 @@
-// [id].ts
-export const placeholder = true;
\ No newline at end of file
+// Tab Details API
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import {
+  getTabSnapshot,
+  parseTabDetailsUpdate,
+  resolveTabRequester,
+  updateTabDetails,
+  TabAccessError
+} from '@tabeza/shared/lib/services/tab-details';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/tabs/[id]
+ * Tab with orders, payments, messages and balance in one snapshot.
+ * Staff send `Authorization: Bearer <access token>`; customers send `X-Device-Id`.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const requester = await resolveTabRequester(supabase, request.headers);
+    const snapshot = await getTabSnapshot(supabase, id, requester);
+
+    return NextResponse.json({
+      success: true,
+      ...snapshot
+    });
+
+  } catch (error: any) {
+    return handleError(error);
+  }
+}
+
+/**
+ * PATCH /api/tabs/[id]
+ * Body: { displayName?, tableNumber?, notes? } — null clears a field.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const requester = await resolveTabRequester(supabase, request.headers);
+    const update = parseTabDetailsUpdate(await request.json().catch(() => null));
+
+    console.log('✏️ Updating tab details:', { tabId: id, fields: Object.keys(update) });
+
+    const snapshot = await updateTabDetails(supabase, id, requester, update);
+
+    return NextResponse.json({
+      success: true,
+      ...snapshot
+    });
+
+  } catch (error: any) {
+    return handleError(error);
+  }
+}
+
+function handleError(error: any) {
+  if (error instanceof TabAccessError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error('❌ Tab details API error:', error);
+  return NextResponse.json(
+    { error: 'Internal server error', details: error.message },
+    { status: 500 }
+  );
+}
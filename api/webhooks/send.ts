@@ -1,2 +1,38 @@
-// send.ts
-export const placeholder = true;
\ No newline at end of file
+// Webhook Worker API
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { WebhookDeliveryService } from '@tabeza/shared/lib/services/webhook-service';
+
+/**
+ * Fan out queued webhook events and deliver everything that is due.
+ * Intended to run on a schedule with CRON_SECRET; refused while it is unset.
+ */
+export async function POST(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return NextResponse.json({ error: 'Scheduler is not configured' }, { status: 503 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await new WebhookDeliveryService(supabase).run();
+
+    console.log('📡 Webhook run complete:', result);
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+
+  } catch (error: any) {
+    console.error('❌ Webhook send API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = POST;
@@ -0,0 +1,100 @@
+/**
+ * M-Pesa C2B Confirmation Handler
+ * Records Paybill/Till payments made outside an STK push and posts them to the
+ * matching open tab (account reference, then phone number, then amount).
+ * Unmatched payments stay in mpesa_c2b_transactions for staff to assign.
+ *
+ * Like STK callbacks, confirmations must come from an allow-listed Safaricom
+ * IP and carry the callback token when MPESA_CALLBACK_SECRET is set.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase';
+import {
+  C2BError,
+  parseC2BPayload,
+  recordC2BTransaction
+} from '@tabeza/shared/lib/services/mpesa-c2b';
+import {
+  getCallbackSourceIp,
+  isCallbackIpAllowed,
+  isCallbackIpCheckEnabled,
+  verifyCallbackUrl
+} from '@tabeza/shared/lib/services/mpesa-callback-inbox';
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+  let payload: unknown;
+
+  try {
+    // Reject anything that did not come from Safaricom before reading it
+    const sourceIp = getCallbackSourceIp(request.headers);
+    if (isCallbackIpCheckEnabled() && !isCallbackIpAllowed(sourceIp)) {
+      console.warn('⚠️ Rejected M-Pesa C2B confirmation from non-Safaricom address:', { sourceIp });
+      return NextResponse.json({
+        ResultCode: 1,
+        ResultDesc: 'Forbidden'
+      }, { status: 403 });
+    }
+
+    if (!verifyCallbackUrl(request.url)) {
+      console.warn('⚠️ Rejected M-Pesa C2B confirmation with missing or invalid token:', { sourceIp });
+      return NextResponse.json({
+        ResultCode: 1,
+        ResultDesc: 'Forbidden'
+      }, { status: 403 });
+    }
+
+    try {
+      payload = await request.json();
+    } catch (error) {
+      console.error('Invalid JSON in M-Pesa C2B confirmation:', error);
+      return NextResponse.json({
+        ResultCode: 1,
+        ResultDesc: 'Invalid JSON format'
+      }, { status: 400 });
+    }
+
+    const transaction = parseC2BPayload(payload);
+    const supabase = createServiceRoleClient();
+    const { row, duplicate } = await recordC2BTransaction(supabase, transaction, payload);
+
+    console.log('M-Pesa C2B confirmation processed:', {
+      transId: row.trans_id,
+      status: row.status,
+      matchedBy: row.matched_by,
+      tabId: row.tab_id,
+      duplicate,
+      processingTime: `${Date.now() - startTime}ms`
+    });
+
+    return NextResponse.json({
+      ResultCode: 0,
+      ResultDesc: 'Success'
+    });
+
+  } catch (error) {
+    console.error('M-Pesa C2B confirmation error:', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      statusCode: error instanceof C2BError ? error.statusCode : undefined,
+      payload,
+      processingTime: `${Date.now() - startTime}ms`
+    });
+
+    // The money has already moved; acknowledge so Safaricom doesn't retry forever
+    return NextResponse.json({
+      ResultCode: 0,
+      ResultDesc: 'Confirmation received but processing failed'
+    });
+  }
+}
+
+/**
+ * Handle GET requests for health checks or debugging
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json({
+    message: 'M-Pesa C2B confirmation endpoint is active',
+    timestamp: new Date().toISOString()
+  });
+}
@@ -0,0 +1,75 @@
+/**
+ * M-Pesa C2B Validation Handler
+ * Safaricom asks whether to accept a Paybill/Till payment before completing it.
+ * We accept anything well-formed: matching happens on confirmation, and payments
+ * that cannot be matched go to the staff queue rather than back to the customer.
+ * Requests from outside Safaricom's allow-listed IPs, or without the callback
+ * token when MPESA_CALLBACK_SECRET is set, are refused before any of that.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  C2B_ACCEPT,
+  C2B_REJECT_INVALID_AMOUNT,
+  C2BError,
+  parseC2BPayload
+} from '@tabeza/shared/lib/services/mpesa-c2b';
+import {
+  getCallbackSourceIp,
+  isCallbackIpAllowed,
+  isCallbackIpCheckEnabled,
+  verifyCallbackUrl
+} from '@tabeza/shared/lib/services/mpesa-callback-inbox';
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const sourceIp = getCallbackSourceIp(request.headers);
+  if (isCallbackIpCheckEnabled() && !isCallbackIpAllowed(sourceIp)) {
+    console.warn('⚠️ Rejected M-Pesa C2B validation from non-Safaricom address:', { sourceIp });
+    return NextResponse.json({
+      ResultCode: 1,
+      ResultDesc: 'Forbidden'
+    }, { status: 403 });
+  }
+
+  if (!verifyCallbackUrl(request.url)) {
+    console.warn('⚠️ Rejected M-Pesa C2B validation with missing or invalid token:', { sourceIp });
+    return NextResponse.json({
+      ResultCode: 1,
+      ResultDesc: 'Forbidden'
+    }, { status: 403 });
+  }
+
+  try {
+    const payload = await request.json();
+    const transaction = parseC2BPayload(payload);
+
+    console.log('M-Pesa C2B validation received:', {
+      transId: transaction.transId,
+      shortcode: transaction.shortcode,
+      billRefNumber: transaction.billRefNumber,
+      amount: transaction.amount
+    });
+
+    return NextResponse.json(C2B_ACCEPT);
+
+  } catch (error) {
+    if (error instanceof C2BError) {
+      console.error('Rejecting M-Pesa C2B payment:', error.message);
+      return NextResponse.json(C2B_REJECT_INVALID_AMOUNT);
+    }
+
+    // Don't block the customer's payment on our own errors
+    console.error('M-Pesa C2B validation error:', error);
+    return NextResponse.json(C2B_ACCEPT);
+  }
+}
+
+/**
+ * Handle GET requests for health checks or debugging
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json({
+    message: 'M-Pesa C2B validation endpoint is active',
+    timestamp: new Date().toISOString()
+  });
+}
@@ -2,411 +2,111 @@
  * Enhanced M-Pesa Callback Handler with Real-time Notifications
  * Processes M-Pesa payments and triggers real-time notifications and balance updates
  * Requirements: 3.1, 3.2, 3.3, 3.5, 6.1, 6.2, 4.1, 4.2
+ *
+ * Callbacks must come from an allow-listed Safaricom IP (and carry the
+ * callback token when MPESA_CALLBACK_SECRET is set). Each one is stored in the
+ * callback inbox first, so Safaricom retries are acknowledged without being
+ * applied twice and stored payloads can be replayed from the staff app.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-
-interface MpesaCallbackMetadataItem {
-  Name: string;
-  Value: string | number;
-}
-
-interface MpesaCallbackMetadata {
-  Item: MpesaCallbackMetadataItem[];
-}
-
-interface MpesaSTKCallback {
-  MerchantRequestID: string;
-  CheckoutRequestID: string;
-  ResultCode: number;
-  ResultDesc: string;
-  CallbackMetadata?: MpesaCallbackMetadata;
-}
-
-interface MpesaCallback {
-  Body: {
-    stkCallback: MpesaSTKCallback;
-  };
-}
-
-interface PaymentNotificationPayload {
-  paymentId: string;
-  tabId: string;
-  barId: string;
-  amount: number;
-  status: 'success' | 'failed';
-  method: 'mpesa';
-  timestamp: string;
-  mpesaReceiptNumber?: string;
-  transactionDate?: string;
-  phoneNumber?: string;
-  failureReason?: string;
-}
-
-interface TabAutoCloseNotificationPayload {
-  tabId: string;
-  barId: string;
-  paymentId: string;
-  previousStatus: 'overdue';
-  newStatus: 'closed';
-  finalBalance: number;
-  closedBy: 'system';
-  timestamp: string;
-}
-
-/**
- * Process payment and trigger balance updates with notifications
- * Requirements: 4.1, 4.2 - Real-time balance updates and auto-close detection
- */
-async function processPaymentBalanceUpdate(
-  supabase: any,
-  paymentId: string,
-  tabId: string,
-  paymentAmount: number,
-  paymentStatus: 'success' | 'failed'
-): Promise<void> {
-  try {
-    // Only process successful payments for balance updates
-    if (paymentStatus !== 'success') {
-      console.log('Skipping balance update for failed payment:', paymentId);
-      return;
-    }
-
-    // Log balance update for real-time subscriptions to pick up
-    console.log('Balance update triggered:', {
-      paymentId,
-      tabId,
-      amount: paymentAmount,
-      method: 'mpesa',
-      status: paymentStatus,
-      timestamp: new Date().toISOString()
-    });
-
-    // The existing tab_balances view and real-time subscriptions will handle
-    // the actual balance calculations and UI updates automatically
-
-  } catch (error) {
-    console.error('Error processing payment balance update:', {
-      paymentId,
-      tabId,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-}
-async function triggerPaymentNotifications(
-  supabase: any,
-  payload: PaymentNotificationPayload
-): Promise<void> {
-  try {
-    // Get tab and bar information for multi-tenant filtering
-    const { data: tabData, error: tabError } = await supabase
-      .from('tabs')
-      .select('bar_id, tab_number')
-      .eq('id', payload.tabId)
-      .single();
-
-    if (tabError || !tabData) {
-      console.error('Failed to get tab data for notifications:', {
-        tabId: payload.tabId,
-        error: tabError
-      });
-      return;
-    }
-
-    // Requirement 6.2: Trigger real-time notifications via Supabase channels
-    // The real-time subscriptions in staff and customer apps will automatically
-    // receive these updates through their existing tab_payments subscriptions
-    
-    console.log('Payment notification triggered:', {
-      paymentId: payload.paymentId,
-      tabId: payload.tabId,
-      barId: tabData.bar_id,
-      status: payload.status,
-      amount: payload.amount,
-      method: payload.method
-    });
-
-    // Additional logging for successful payments with M-Pesa details
-    if (payload.status === 'success' && payload.mpesaReceiptNumber) {
-      console.log('M-Pesa payment details:', {
-        mpesaReceiptNumber: payload.mpesaReceiptNumber,
-        transactionDate: payload.transactionDate,
-        phoneNumber: payload.phoneNumber,
-        paymentId: payload.paymentId
-      });
-    }
-
-  } catch (error) {
-    console.error('Error triggering payment notifications:', {
-      paymentId: payload.paymentId,
-      tabId: payload.tabId,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-}
-
-/**
- * Trigger real-time notifications for tab auto-closure events
- * Requirements: 6.1, 6.2 - Auto-close notifications for overdue tabs
- */
-async function triggerTabAutoCloseNotifications(
-  supabase: any,
-  payload: TabAutoCloseNotificationPayload
-): Promise<void> {
-  try {
-    // Get tab information for notifications
-    const { data: tabData, error: tabError } = await supabase
-      .from('tabs')
-      .select('tab_number')
-      .eq('id', payload.tabId)
-      .single();
-
-    if (tabError || !tabData) {
-      console.error('Failed to get tab data for auto-close notifications:', {
-        tabId: payload.tabId,
-        error: tabError
-      });
-      return;
-    }
-
-    console.log('Tab auto-close notification triggered:', {
-      tabId: payload.tabId,
-      barId: payload.barId,
-      tabNumber: tabData.tab_number,
-      paymentId: payload.paymentId,
-      finalBalance: payload.finalBalance,
-      timestamp: payload.timestamp
-    });
-
-  } catch (error) {
-    console.error('Error triggering tab auto-close notifications:', {
-      tabId: payload.tabId,
-      paymentId: payload.paymentId,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-}
+import { MpesaPaymentOutcomeError } from '@tabeza/shared/lib/services/mpesa-payment-outcome';
+import {
+  getCallbackSourceIp,
+  ingestMpesaCallback,
+  isCallbackIpAllowed,
+  isCallbackIpCheckEnabled,
+  MpesaCallbackError,
+  parseStkCallback,
+  verifyCallbackUrl
+} from '@tabeza/shared/lib/services/mpesa-callback-inbox';
 
 export async function POST(request: NextRequest): Promise<NextResponse> {
   const startTime = Date.now();
   
   try {
-    // Parse callback data
-    let callbackData: MpesaCallback;
-    try {
-      callbackData = await request.json();
-    } catch (error) {
-      console.error('Invalid JSON in M-Pesa callback:', error);
+    // Reject anything that did not come from Safaricom before reading it
+    const sourceIp = getCallbackSourceIp(request.headers);
+    if (isCallbackIpCheckEnabled() && !isCallbackIpAllowed(sourceIp)) {
+      console.warn('⚠️ Rejected M-Pesa callback from non-Safaricom address:', { sourceIp });
       return NextResponse.json({
         ResultCode: 1,
-        ResultDesc: 'Invalid JSON format'
-      }, { status: 400 });
+        ResultDesc: 'Forbidden'
+      }, { status: 403 });
     }
 
-    // Validate callback structure
-    if (!callbackData.Body?.stkCallback) {
-      console.error('Invalid callback structure - missing stkCallback');
+    if (!verifyCallbackUrl(request.url)) {
+      console.warn('⚠️ Rejected M-Pesa callback with missing or invalid token:', { sourceIp });
       return NextResponse.json({
         ResultCode: 1,
-        ResultDesc: 'Invalid callback structure'
-      }, { status: 400 });
+        ResultDesc: 'Forbidden'
+      }, { status: 403 });
     }
 
-    const { stkCallback } = callbackData.Body;
-    const { CheckoutRequestID, ResultCode, ResultDesc } = stkCallback;
-
-    // Validate required fields
-    if (!CheckoutRequestID) {
-      console.error('Missing CheckoutRequestID in callback');
+    // Parse callback data
+    let callbackData: unknown;
+    try {
+      callbackData = await request.json();
+    } catch (error) {
+      console.error('Invalid JSON in M-Pesa callback:', error);
       return NextResponse.json({
         ResultCode: 1,
-        ResultDesc: 'Missing CheckoutRequestID'
+        ResultDesc: 'Invalid JSON format'
       }, { status: 400 });
     }
 
-    if (ResultCode === undefined || ResultCode === null) {
-      console.error('Missing ResultCode in callback');
+    // Validate callback structure and required fields
+    let callback;
+    try {
+      callback = parseStkCallback(callbackData);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid callback';
+      console.error('Invalid M-Pesa callback:', message);
       return NextResponse.json({
         ResultCode: 1,
-        ResultDesc: 'Missing ResultCode'
+        ResultDesc: message
       }, { status: 400 });
     }
 
     console.log('M-Pesa callback received:', {
-      checkoutRequestId: CheckoutRequestID,
-      resultCode: ResultCode,
-      resultDesc: ResultDesc,
+      checkoutRequestId: callback.checkoutRequestId,
+      merchantRequestId: callback.merchantRequestId,
+      resultCode: callback.resultCode,
+      resultDesc: callback.resultDesc,
+      sourceIp,
       timestamp: new Date().toISOString()
     });
 
-    // Requirement 3.2 & 3.3: Determine payment status based on ResultCode
-    const paymentStatus = ResultCode === 0 ? 'success' : 'failed';
-
     // Create database client using secret key for server-side operations
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SECRET_KEY!
     );
 
-    // Requirement 3.1: Update corresponding tab_payments record
-    const { data: payment, error: findError } = await supabase
-      .from('tab_payments')
-      .select('id, tab_id, amount')
-      .eq('reference', CheckoutRequestID)
-      .eq('method', 'mpesa')
-      .single();
+    // Requirements 3.1-3.5, 4.1, 4.2, 6.1, 6.2: Store the callback, then update the
+    // payment, notify, update balances and auto-close settled overdue tabs once
+    let result;
+    try {
+      result = await ingestMpesaCallback(supabase, callbackData, { sourceIp });
+    } catch (error) {
+      if (!(error instanceof MpesaPaymentOutcomeError) &&
+        !(error instanceof MpesaCallbackError && error.statusCode >= 500)) {
+        throw error;
+      }
 
-    if (findError || !payment) {
-      console.error('Payment not found for CheckoutRequestID:', {
-        checkoutRequestId: CheckoutRequestID,
-        error: findError
+      console.error('Failed to process M-Pesa callback:', {
+        checkoutRequestId: callback.checkoutRequestId,
+        error: error.originalError || error.message
       });
-      
-      // Still return success to prevent M-Pesa retries for unknown payments
-      return NextResponse.json({
-        ResultCode: 0,
-        ResultDesc: 'Callback received but payment not found'
-      });
-    }
-
-    // Requirement 3.5: Store complete callback data in metadata field
-    const { error: updateError } = await supabase
-      .from('tab_payments')
-      .update({
-        status: paymentStatus,
-        metadata: callbackData,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', payment.id);
 
-    if (updateError) {
-      console.error('Failed to update payment record:', {
-        paymentId: payment.id,
-        checkoutRequestId: CheckoutRequestID,
-        error: updateError
-      });
-      
+      // Ask Safaricom to retry; the stored callback is picked up again
       return NextResponse.json({
         ResultCode: 1,
         ResultDesc: 'Failed to update payment record'
       }, { status: 500 });
     }
 
-    // Extract M-Pesa payment details for notifications
-    let mpesaReceiptNumber: string | undefined;
-    let transactionDate: string | undefined;
-    let phoneNumber: string | undefined;
-
-    if (paymentStatus === 'success' && stkCallback.CallbackMetadata?.Item) {
-      const metadata = stkCallback.CallbackMetadata.Item;
-      mpesaReceiptNumber = metadata.find(item => item.Name === 'MpesaReceiptNumber')?.Value?.toString();
-      transactionDate = metadata.find(item => item.Name === 'TransactionDate')?.Value?.toString();
-      phoneNumber = metadata.find(item => item.Name === 'PhoneNumber')?.Value?.toString();
-    }
-
-    // Requirement 6.1 & 6.2: Trigger real-time payment notifications and balance updates
-    const paymentNotificationPayload: PaymentNotificationPayload = {
-      paymentId: payment.id,
-      tabId: payment.tab_id,
-      barId: '', // Will be populated in triggerPaymentNotifications
-      amount: payment.amount,
-      status: paymentStatus,
-      method: 'mpesa',
-      timestamp: new Date().toISOString(),
-      mpesaReceiptNumber,
-      transactionDate,
-      phoneNumber,
-      failureReason: paymentStatus === 'failed' ? ResultDesc : undefined
-    };
-
-    // Trigger notifications (non-blocking)
-    triggerPaymentNotifications(supabase, paymentNotificationPayload).catch(error => {
-      console.error('Payment notification failed (non-blocking):', error);
-    });
-
-    // Requirement 4.1 & 4.2: Process balance updates with real-time notifications
-    processPaymentBalanceUpdate(
-      supabase,
-      payment.id,
-      payment.tab_id,
-      payment.amount,
-      paymentStatus
-    ).catch(error => {
-      console.error('Balance update failed (non-blocking):', error);
-    });
-
-    // Requirement 3.4: Auto-close overdue tabs with zero/negative balance after successful payment
-    if (paymentStatus === 'success') {
-      try {
-        // Check if tab is overdue and calculate balance
-        const { data: tabData, error: tabError } = await supabase
-          .from('tabs')
-          .select('id, status, bar_id')
-          .eq('id', payment.tab_id)
-          .single();
-
-        if (!tabError && tabData?.status === 'overdue') {
-          // Calculate tab balance
-          const { data: balanceData, error: balanceError } = await supabase
-            .from('tab_balances')
-            .select('balance')
-            .eq('tab_id', payment.tab_id)
-            .single();
-
-          if (!balanceError && balanceData && balanceData.balance <= 0) {
-            // Auto-close the overdue tab
-            const { error: closeError } = await supabase
-              .from('tabs')
-              .update({
-                status: 'closed',
-                closed_at: new Date().toISOString(),
-                closed_by: 'system'
-              })
-              .eq('id', payment.tab_id);
-
-            if (closeError) {
-              console.error('Failed to auto-close overdue tab:', {
-                tabId: payment.tab_id,
-                paymentId: payment.id,
-                error: closeError
-              });
-            } else {
-              console.log('Auto-closed overdue tab after successful payment:', {
-                tabId: payment.tab_id,
-                paymentId: payment.id,
-                balance: balanceData.balance
-              });
-
-              // Requirement 6.1 & 6.2: Trigger auto-close notifications
-              const autoCloseNotificationPayload: TabAutoCloseNotificationPayload = {
-                tabId: payment.tab_id,
-                barId: tabData.bar_id,
-                paymentId: payment.id,
-                previousStatus: 'overdue',
-                newStatus: 'closed',
-                finalBalance: balanceData.balance,
-                closedBy: 'system',
-                timestamp: new Date().toISOString()
-              };
-
-              // Trigger auto-close notifications (non-blocking)
-              triggerTabAutoCloseNotifications(supabase, autoCloseNotificationPayload).catch(error => {
-                console.error('Auto-close notification failed (non-blocking):', error);
-              });
-            }
-          }
-        }
-      } catch (autoCloseError) {
-        // Log error but don't fail the callback processing
-        console.error('Error during auto-close logic:', {
-          tabId: payment.tab_id,
-          paymentId: payment.id,
-          error: autoCloseError
-        });
-      }
-    }
-
     const processingTime = Date.now() - startTime;
 
     // Requirement 8.2: Ensure callback processing within 2 seconds
@@ -414,19 +114,28 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       console.warn(`Callback processing exceeded 2 second limit: ${processingTime}ms`);
     }
 
+    if (result.status === 'payment_not_found') {
+      console.error('Payment not found for CheckoutRequestID:', {
+        checkoutRequestId: callback.checkoutRequestId,
+        inboxId: result.inboxId
+      });
+    }
+
     console.log('M-Pesa callback processed successfully:', {
-      paymentId: payment.id,
-      tabId: payment.tab_id,
-      checkoutRequestId: CheckoutRequestID,
-      status: paymentStatus,
-      amount: payment.amount,
+      inboxId: result.inboxId,
+      paymentId: result.paymentId,
+      tabId: result.tabId,
+      checkoutRequestId: callback.checkoutRequestId,
+      status: callback.status,
+      inboxStatus: result.status,
+      duplicate: result.duplicate,
       processingTime: `${processingTime}ms`
     });
 
-    // Return success response to M-Pesa
+    // Return success response to M-Pesa (also for duplicates and unknown payments, so it stops retrying)
     return NextResponse.json({
       ResultCode: 0,
-      ResultDesc: 'Callback processed successfully'
+      ResultDesc: result.duplicate ? 'Duplicate callback ignored' : 'Callback processed successfully'
     });
 
   } catch (error) {
@@ -0,0 +1,66 @@
+/**
+ * Daraja Simulator for Development Testing
+ * Serves the Daraja endpoints (OAuth, STK push and query, C2B, Transaction
+ * Reversal, B2C) for bars on the 'simulator' M-Pesa environment, then posts
+ * the callbacks like Safaricom would. Only served when MPESA_SIMULATOR_ENABLED
+ * or MPESA_MOCK_MODE is set.
+ *
+ * MPESA_MOCK_DARAJA_SCENARIO sets the default scenario and
+ * MPESA_MOCK_DARAJA_DELAY_MS the wait of the 'delayed' one; staff can script
+ * a scenario per shortcode from the M-Pesa page.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isDarajaSimulatorEnabled } from '@tabeza/shared/lib/services/mpesa-config';
+import {
+  createMockDaraja,
+  isMockDarajaScenario,
+  scheduleMockDarajaCallbacks
+} from '@tabeza/shared/lib/services/mpesa-mock-daraja';
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+// Normal callbacks wait a moment, the way Daraja acknowledges before the result arrives
+const simulator = createMockDaraja({
+  scenario: isMockDarajaScenario(process.env.MPESA_MOCK_DARAJA_SCENARIO)
+    ? process.env.MPESA_MOCK_DARAJA_SCENARIO
+    : 'success',
+  callbackDelayMs: 3000,
+  delayedCallbackMs: Number(process.env.MPESA_MOCK_DARAJA_DELAY_MS) || undefined
+});
+
+async function handle(request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  if (!isDarajaSimulatorEnabled()) {
+    return NextResponse.json(
+      { error: 'The Daraja simulator is not enabled' },
+      { status: 403 }
+    );
+  }
+
+  const { path } = await params;
+  const body = request.method === 'POST' ? await request.json().catch(() => null) : null;
+
+  const response = simulator.handle(
+    request.method,
+    `/${path.join('/')}${request.nextUrl.search}`,
+    body
+  );
+
+  if (response.callbacks.length > 0) {
+    console.log('🧪 Daraja simulator: scheduling callbacks', response.callbacks.map(callback => ({
+      url: callback.url,
+      delayMs: callback.delayMs
+    })));
+    scheduleMockDarajaCallbacks(response.callbacks);
+  }
+
+  return NextResponse.json(response.body, { status: response.status });
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  return handle(request, context);
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  return handle(request, context);
+}
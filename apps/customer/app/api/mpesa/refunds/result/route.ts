@@ -0,0 +1,103 @@
+/**
+ * M-Pesa Refund Result Handler
+ * Daraja posts the outcome of Transaction Reversal and B2C refund requests
+ * here. A successful refund is posted to the tab as a negative payment.
+ *
+ * Like STK callbacks, results must come from an allow-listed Safaricom IP and
+ * carry the callback token when MPESA_CALLBACK_SECRET is set.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase';
+import {
+  applyMpesaRefundResult,
+  MpesaRefundError
+} from '@tabeza/shared/lib/services/mpesa-refunds';
+import {
+  getCallbackSourceIp,
+  isCallbackIpAllowed,
+  isCallbackIpCheckEnabled,
+  verifyCallbackUrl
+} from '@tabeza/shared/lib/services/mpesa-callback-inbox';
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+  let payload: any;
+
+  try {
+    // Reject anything that did not come from Safaricom before reading it
+    const sourceIp = getCallbackSourceIp(request.headers);
+    if (isCallbackIpCheckEnabled() && !isCallbackIpAllowed(sourceIp)) {
+      console.warn('⚠️ Rejected M-Pesa refund result from non-Safaricom address:', { sourceIp });
+      return NextResponse.json({
+        ResultCode: 1,
+        ResultDesc: 'Forbidden'
+      }, { status: 403 });
+    }
+
+    if (!verifyCallbackUrl(request.url)) {
+      console.warn('⚠️ Rejected M-Pesa refund result with missing or invalid token:', { sourceIp });
+      return NextResponse.json({
+        ResultCode: 1,
+        ResultDesc: 'Forbidden'
+      }, { status: 403 });
+    }
+
+    try {
+      payload = await request.json();
+    } catch (error) {
+      console.error('Invalid JSON in M-Pesa refund result:', error);
+      return NextResponse.json({
+        ResultCode: 1,
+        ResultDesc: 'Invalid JSON format'
+      }, { status: 400 });
+    }
+
+    const supabase = createServiceRoleClient();
+    const { refund, applied, reopened } = await applyMpesaRefundResult(supabase, payload);
+
+    if (!refund) {
+      console.warn('⚠️ M-Pesa refund result for unknown conversation:', {
+        conversationId: payload?.Result?.ConversationID,
+        originatorConversationId: payload?.Result?.OriginatorConversationID
+      });
+    }
+
+    console.log('M-Pesa refund result processed:', {
+      refundId: refund?.id,
+      status: refund?.status,
+      resultCode: payload?.Result?.ResultCode,
+      applied,
+      reopened,
+      processingTime: `${Date.now() - startTime}ms`
+    });
+
+    return NextResponse.json({
+      ResultCode: 0,
+      ResultDesc: 'Success'
+    });
+
+  } catch (error) {
+    console.error('M-Pesa refund result error:', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      statusCode: error instanceof MpesaRefundError ? error.statusCode : undefined,
+      payload,
+      processingTime: `${Date.now() - startTime}ms`
+    });
+
+    return NextResponse.json({
+      ResultCode: 1,
+      ResultDesc: 'Result received but processing failed'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Handle GET requests for health checks or debugging
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json({
+    message: 'M-Pesa refund result endpoint is active',
+    timestamp: new Date().toISOString()
+  });
+}
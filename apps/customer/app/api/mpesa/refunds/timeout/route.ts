@@ -0,0 +1,62 @@
+/**
+ * M-Pesa Refund Queue Timeout Handler
+ * Daraja posts here when a reversal or B2C refund request timed out in its
+ * queue. The refund is marked failed; a Result arriving later still settles it.
+ * Checked against the Safaricom IP allow-list and callback token first.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase';
+import { applyMpesaRefundTimeout } from '@tabeza/shared/lib/services/mpesa-refunds';
+import {
+  getCallbackSourceIp,
+  isCallbackIpAllowed,
+  isCallbackIpCheckEnabled,
+  verifyCallbackUrl
+} from '@tabeza/shared/lib/services/mpesa-callback-inbox';
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  let payload: any;
+
+  // Reject anything that did not come from Safaricom before reading it
+  const sourceIp = getCallbackSourceIp(request.headers);
+  if (isCallbackIpCheckEnabled() && !isCallbackIpAllowed(sourceIp)) {
+    console.warn('⚠️ Rejected M-Pesa refund timeout from non-Safaricom address:', { sourceIp });
+    return NextResponse.json({
+      ResultCode: 1,
+      ResultDesc: 'Forbidden'
+    }, { status: 403 });
+  }
+
+  if (!verifyCallbackUrl(request.url)) {
+    console.warn('⚠️ Rejected M-Pesa refund timeout with missing or invalid token:', { sourceIp });
+    return NextResponse.json({
+      ResultCode: 1,
+      ResultDesc: 'Forbidden'
+    }, { status: 403 });
+  }
+
+  try {
+    payload = await request.json();
+
+    const supabase = createServiceRoleClient();
+    const refund = await applyMpesaRefundTimeout(supabase, payload);
+
+    console.log('⏱️ M-Pesa refund timed out:', {
+      refundId: refund?.id,
+      status: refund?.status,
+      conversationId: payload?.Result?.ConversationID
+    });
+  } catch (error) {
+    console.error('M-Pesa refund timeout error:', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      payload
+    });
+  }
+
+  // Nothing for Safaricom to retry
+  return NextResponse.json({
+    ResultCode: 0,
+    ResultDesc: 'Success'
+  });
+}
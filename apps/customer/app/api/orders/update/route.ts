@@ -0,0 +1,48 @@
+/**
+ * Order Status Update API
+ * Customers approve or reject staff orders (and withdraw their own pending orders).
+ * The device is identified by the X-Device-Id header.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase';
+import { resolveTabRequester, TabAccessError } from '@tabeza/shared/lib/services/tab-details';
+import {
+  isOrderStatus,
+  transitionOrderStatus,
+  OrderTransitionError
+} from '@tabeza/shared/lib/services/order-lifecycle';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { orderId, status, reason } = await request.json();
+
+    if (!orderId || !isOrderStatus(status)) {
+      return NextResponse.json(
+        { error: 'orderId and a valid status are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceRoleClient();
+    const requester = await resolveTabRequester(supabase, request.headers);
+    const order = await transitionOrderStatus(supabase, orderId, status, requester, reason);
+
+    console.log('✅ Order status updated:', { orderId, status });
+    return NextResponse.json({ success: true, order });
+
+  } catch (error) {
+    if (error instanceof OrderTransitionError || error instanceof TabAccessError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('❌ Order update API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
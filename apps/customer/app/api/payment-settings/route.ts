@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase';
+import { BAR_CARD_COLUMNS, getGratuitySettings, isCardConfiguredForBar } from '@tabeza/shared';
 
 export async function GET(request: NextRequest) {
   try {
@@ -19,7 +20,7 @@ export async function GET(request: NextRequest) {
     // Get bar payment settings using service role key
     const { data: barData, error: barError } = await supabase
       .from('bars')
-      .select('id, name, mpesa_enabled')
+      .select(`id, name, mpesa_enabled, tips_enabled, service_charge_percent, ${BAR_CARD_COLUMNS}`)
       .eq('id', barId)
       .single();
 
@@ -42,6 +43,9 @@ export async function GET(request: NextRequest) {
     // The staff app should sync this field when M-Pesa is enabled/disabled
     const mpesaAvailable = barData.mpesa_enabled === true;
 
+    // Card needs a complete provider setup, not just the flag
+    const cardAvailable = isCardConfiguredForBar(barData);
+
     return NextResponse.json({
       success: true,
       barId: barData.id,
@@ -52,14 +56,17 @@ export async function GET(request: NextRequest) {
           environment: 'sandbox' // Default to sandbox for customer app
         },
         card: {
-          available: false, // Coming soon
-          reason: 'Coming soon'
+          available: cardAvailable,
+          provider: cardAvailable ? barData.card_provider : undefined,
+          environment: cardAvailable ? barData.card_environment : undefined,
+          reason: cardAvailable ? undefined : 'Not set up for this location'
         },
         airtel: {
           available: false, // Coming soon
           reason: 'Coming soon'
         }
-      }
+      },
+      gratuity: getGratuitySettings(barData)
     });
 
   } catch (error) {
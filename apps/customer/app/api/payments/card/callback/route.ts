@@ -0,0 +1,201 @@
+/**
+ * Card Payment Callback Handler
+ * Receives the hosted checkout result from the bar's card provider, updates
+ * tab_payments and triggers payment notifications.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import {
+  BAR_CARD_COLUMNS,
+  CardConfigurationError,
+  CardPaymentError,
+  PaymentNotificationService,
+  fileClosedTabReceipt,
+  getCardProvider,
+  loadCardConfigFromBar,
+  type BarCardData,
+  type CardCallbackResult
+} from '@tabeza/shared';
+
+/**
+ * Notify staff and the customer through PaymentNotificationService
+ */
+async function triggerPaymentNotifications(
+  payment: { id: string; tab_id: string; amount: number; tip_amount: number | null; service_charge_amount: number | null },
+  result: CardCallbackResult
+): Promise<void> {
+  const notificationService = new PaymentNotificationService({
+    supabaseUrl: process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    supabaseSecretKey: process.env.SUPABASE_SECRET_KEY!
+  });
+
+  const payload = await notificationService.createPaymentNotification({
+    paymentId: payment.id,
+    tabId: payment.tab_id,
+    amount: Number(payment.amount),
+    tipAmount: Number(payment.tip_amount) || 0,
+    serviceChargeAmount: Number(payment.service_charge_amount) || 0,
+    status: result.status,
+    method: 'card',
+    timestamp: new Date().toISOString(),
+    failureReason: result.failureReason,
+    reference: result.reference
+  });
+
+  const recipients = await notificationService.getNotificationRecipients(payload.barId, payload.tabId);
+  await notificationService.deliverNotification(payload, recipients, 'high');
+}
+
+/**
+ * Close an overdue tab once a card payment clears its balance
+ */
+async function autoCloseOverdueTab(supabase: any, tabId: string, paymentId: string): Promise<void> {
+  const { data: tabData } = await supabase
+    .from('tabs')
+    .select('id, status')
+    .eq('id', tabId)
+    .single();
+
+  if (tabData?.status !== 'overdue') return;
+
+  const { data: balanceData } = await supabase
+    .from('tab_balances')
+    .select('balance')
+    .eq('tab_id', tabId)
+    .single();
+
+  if (!balanceData || balanceData.balance > 0) return;
+
+  const { error: closeError } = await supabase
+    .from('tabs')
+    .update({
+      status: 'closed',
+      closed_at: new Date().toISOString(),
+      closed_by: 'system'
+    })
+    .eq('id', tabId);
+
+  if (closeError) {
+    console.error('Failed to auto-close overdue tab:', { tabId, paymentId, error: closeError });
+  } else {
+    console.log('Auto-closed overdue tab after card payment:', { tabId, paymentId });
+    // Number the receipt and file it with eTIMS when the bar has it on
+    await fileClosedTabReceipt(supabase, tabId).catch(error => {
+      console.error('Failed to file receipt for auto-closed tab:', { tabId, paymentId, error });
+    });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const rawBody = await request.text();
+
+    let provider;
+    let result: CardCallbackResult;
+    try {
+      provider = getCardProvider(new URL(request.url).searchParams.get('provider'));
+      result = provider.parseCallback(rawBody);
+    } catch (error) {
+      console.error('Invalid card callback:', error);
+      const status = error instanceof CardPaymentError ? error.statusCode : 400;
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid callback' },
+        { status }
+      );
+    }
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SECRET_KEY!
+    );
+
+    const { data: payment, error: findError } = await supabase
+      .from('tab_payments')
+      .select(`
+        id, tab_id, amount, tip_amount, service_charge_amount, status,
+        tabs!inner(
+          bar_id,
+          bars!inner(${BAR_CARD_COLUMNS})
+        )
+      `)
+      .eq('reference', result.reference)
+      .eq('method', 'card')
+      .single();
+
+    if (findError || !payment) {
+      console.error('Card payment not found for reference:', { reference: result.reference, error: findError });
+      // Acknowledge so the provider stops retrying unknown references
+      return NextResponse.json({ received: true, message: 'Payment not found' });
+    }
+
+    const tab = (Array.isArray(payment.tabs) ? payment.tabs[0] : payment.tabs) as any;
+    const bar = (Array.isArray(tab?.bars) ? tab.bars[0] : tab?.bars) as BarCardData;
+
+    let verified = false;
+    try {
+      verified = provider.verifyCallback(rawBody, request.headers, loadCardConfigFromBar(bar));
+    } catch (error) {
+      if (!(error instanceof CardConfigurationError)) throw error;
+      console.error('Card configuration error while verifying callback:', {
+        paymentId: payment.id,
+        error: error.message
+      });
+    }
+
+    if (!verified) {
+      console.error('Card callback signature check failed:', { paymentId: payment.id, reference: result.reference });
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    // Providers retry callbacks; only the first result counts
+    if (payment.status !== 'pending') {
+      console.log('Card callback already processed:', { paymentId: payment.id, status: payment.status });
+      return NextResponse.json({ received: true, status: payment.status });
+    }
+
+    const { error: updateError } = await supabase
+      .from('tab_payments')
+      .update({
+        status: result.status,
+        metadata: { card: { provider: provider.name, ...result } },
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', payment.id)
+      .eq('status', 'pending');
+
+    if (updateError) {
+      console.error('Failed to update card payment:', { paymentId: payment.id, error: updateError });
+      return NextResponse.json({ error: 'Failed to update payment record' }, { status: 500 });
+    }
+
+    console.log('💳 Card callback processed:', {
+      paymentId: payment.id,
+      tabId: payment.tab_id,
+      reference: result.reference,
+      status: result.status
+    });
+
+    // Notifications must not fail the callback
+    triggerPaymentNotifications(payment, result).catch(error => {
+      console.error('Payment notification failed (non-blocking):', error);
+    });
+
+    if (result.status === 'success') {
+      try {
+        await autoCloseOverdueTab(supabase, payment.tab_id, payment.id);
+      } catch (autoCloseError) {
+        console.error('Error during auto-close logic:', { tabId: payment.tab_id, error: autoCloseError });
+      }
+    }
+
+    return NextResponse.json({ received: true, status: result.status });
+
+  } catch (error) {
+    console.error('Card callback processing error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
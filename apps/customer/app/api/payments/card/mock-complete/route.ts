@@ -0,0 +1,91 @@
+/**
+ * Mock Card Checkout Completion
+ * Used by the mock hosted checkout page: signs a callback the way a real
+ * provider would and posts it to the card callback route, so the full
+ * callback path is exercised without a card processor.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase';
+import {
+  MOCK_SIGNATURE_HEADER,
+  MOCK_WEBHOOK_SECRET,
+  buildMockCardCallback,
+  getCardCallbackUrl,
+  isMockCardProviderEnabled,
+  signCardCallback
+} from '@tabeza/shared';
+
+interface MockCompleteRequest {
+  reference: string;
+  approved?: boolean; // Default: true
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  // Hidden entirely unless the server runs with the mock provider switched on
+  if (!isMockCardProviderEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const { reference, approved = true }: MockCompleteRequest = await request.json();
+
+    if (!reference) {
+      return NextResponse.json(
+        { error: 'reference is required' },
+        { status: 400 }
+      );
+    }
+
+    // Only payments started with the mock provider can be completed here
+    const supabase = createServiceRoleClient();
+    const { data: payment, error: findError } = await supabase
+      .from('tab_payments')
+      .select('id, metadata')
+      .eq('reference', reference)
+      .eq('method', 'card')
+      .single();
+
+    if (findError || !payment) {
+      return NextResponse.json(
+        { error: 'Payment not found for reference' },
+        { status: 404 }
+      );
+    }
+
+    if ((payment.metadata as any)?.card?.provider !== 'mock') {
+      return NextResponse.json(
+        { error: 'Mock checkout only available for mock provider payments' },
+        { status: 403 }
+      );
+    }
+
+    const body = buildMockCardCallback(reference, approved);
+    const callbackPath = new URL(getCardCallbackUrl('mock'));
+    const callbackUrl = new URL(`${callbackPath.pathname}${callbackPath.search}`, request.url);
+
+    const callbackResponse = await fetch(callbackUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [MOCK_SIGNATURE_HEADER]: signCardCallback(body, MOCK_WEBHOOK_SECRET)
+      },
+      body
+    });
+
+    const result = await callbackResponse.json();
+    console.log('🧪 Mock card checkout completed:', { reference, approved, result });
+
+    return NextResponse.json(
+      { success: callbackResponse.ok, ...result },
+      { status: callbackResponse.ok ? 200 : callbackResponse.status }
+    );
+
+  } catch (error) {
+    console.error('Mock card completion error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Card Payment Initiation API
+ * Creates a pending card payment and hands back the provider's hosted checkout URL.
+ * The provider reports the result to /api/payments/card/callback.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase';
+import {
+  BAR_CARD_COLUMNS,
+  CardConfigurationError,
+  buildPaymentCharge,
+  getCardProvider,
+  getGratuitySettings,
+  loadCardConfigFromBar,
+  parseTipSelection,
+  GratuityError,
+  type BarCardData,
+  type CardConfig,
+  type PaymentCharge,
+  type TipSelection
+} from '@tabeza/shared';
+
+interface CardPaymentRequest {
+  tabId: string;
+  amount: number;
+  /** Optional gratuity, charged on top of the amount applied to the balance */
+  tip?: TipSelection;
+}
+
+interface CardPaymentResponse {
+  success: boolean;
+  paymentId?: string;
+  reference?: string;
+  checkoutUrl?: string;
+  charge?: PaymentCharge;
+  error?: string;
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<CardPaymentResponse>> {
+  try {
+    let requestBody: CardPaymentRequest;
+    try {
+      requestBody = await request.json();
+    } catch (error) {
+      console.error('Invalid JSON in request body:', error);
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const { tabId, amount } = requestBody;
+
+    if (typeof tabId !== 'string' || tabId.trim().length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'tabId must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof amount !== 'number' || amount <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'amount must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    if (amount > 999999) {
+      return NextResponse.json(
+        { success: false, error: 'amount cannot exceed 999,999 KES' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceRoleClient();
+    const { data: tabWithBar, error: tabError } = await supabase
+      .from('tabs')
+      .select(`
+        id,
+        status,
+        bar_id,
+        tab_number,
+        bars!inner(
+          id,
+          ${BAR_CARD_COLUMNS},
+          tips_enabled,
+          service_charge_percent
+        )
+      `)
+      .eq('id', tabId)
+      .single();
+
+    if (tabError || !tabWithBar) {
+      console.error('Tab not found:', { tabId, error: tabError });
+      return NextResponse.json(
+        { success: false, error: 'Tab not found' },
+        { status: 404 }
+      );
+    }
+
+    if (tabWithBar.status !== 'open' && tabWithBar.status !== 'overdue') {
+      return NextResponse.json(
+        { success: false, error: 'Tab is not available for payments' },
+        { status: 400 }
+      );
+    }
+
+    const bar = (Array.isArray(tabWithBar.bars) ? tabWithBar.bars[0] : tabWithBar.bars) as any;
+
+    let charge: PaymentCharge;
+    try {
+      charge = buildPaymentCharge(amount, parseTipSelection(requestBody.tip), getGratuitySettings(bar));
+    } catch (error) {
+      if (error instanceof GratuityError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        );
+      }
+      throw error;
+    }
+
+    let cardConfig: CardConfig;
+    try {
+      cardConfig = loadCardConfigFromBar(bar as BarCardData);
+    } catch (error) {
+      console.error('Card configuration error for bar:', {
+        barId: tabWithBar.bar_id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof CardConfigurationError
+            ? 'Card payment not available for this location'
+            : 'Payment service temporarily unavailable'
+        },
+        { status: 503 }
+      );
+    }
+
+    const { data: payment, error: paymentError } = await supabase
+      .from('tab_payments')
+      .insert({
+        tab_id: tabId,
+        amount,
+        tip_amount: charge.tipAmount,
+        service_charge_amount: charge.serviceChargeAmount,
+        method: 'card',
+        status: 'pending'
+      })
+      .select()
+      .single();
+
+    if (paymentError || !payment) {
+      console.error('Failed to create payment record:', paymentError);
+      return NextResponse.json(
+        { success: false, error: 'Failed to create payment record' },
+        { status: 500 }
+      );
+    }
+
+    try {
+      const session = await getCardProvider(cardConfig.provider).createCheckoutSession({
+        paymentId: payment.id,
+        tabId,
+        amount: charge.total,
+        description: tabWithBar.tab_number ? `Tab ${tabWithBar.tab_number} Payment` : 'Tab Payment',
+        returnUrl: new URL('/payment/card/return', request.url).toString()
+      }, cardConfig);
+
+      const { error: updateError } = await supabase
+        .from('tab_payments')
+        .update({
+          reference: session.reference,
+          metadata: { card: { provider: cardConfig.provider, environment: cardConfig.environment } },
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', payment.id);
+
+      if (updateError) {
+        // Without the reference the callback cannot find this payment
+        throw updateError;
+      }
+
+      console.log('💳 Card checkout created:', {
+        paymentId: payment.id,
+        provider: cardConfig.provider,
+        reference: session.reference,
+        total: charge.total
+      });
+
+      return NextResponse.json({
+        success: true,
+        paymentId: payment.id,
+        reference: session.reference,
+        checkoutUrl: session.checkoutUrl,
+        charge
+      });
+
+    } catch (checkoutError) {
+      console.error('Card checkout failed:', checkoutError);
+
+      await supabase
+        .from('tab_payments')
+        .update({
+          status: 'failed',
+          metadata: {
+            error: checkoutError instanceof Error ? checkoutError.message : 'Card checkout failed',
+            timestamp: new Date().toISOString()
+          },
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', payment.id);
+
+      return NextResponse.json(
+        { success: false, error: 'Card payment could not be started. Please try again or pay at the bar.' },
+        { status: 502 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Card payment initiation error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Payment status for the return page, looked up by provider reference
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const reference = new URL(request.url).searchParams.get('reference');
+
+    if (!reference) {
+      return NextResponse.json(
+        { success: false, error: 'reference is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceRoleClient();
+    const { data: payment, error } = await supabase
+      .from('tab_payments')
+      .select('id, tab_id, amount, tip_amount, service_charge_amount, status')
+      .eq('reference', reference)
+      .eq('method', 'card')
+      .single();
+
+    if (error || !payment) {
+      return NextResponse.json(
+        { success: false, error: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, payment });
+
+  } catch (error) {
+    console.error('Card payment status error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
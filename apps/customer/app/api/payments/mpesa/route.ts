@@ -9,20 +9,36 @@ import { createServiceRoleClient } from '@/lib/supabase';
 import { 
   validateKenyanPhoneNumber,
   sendSTKPush,
-  loadMpesaConfigFromBar, 
+  routeMpesaPayment,
   MpesaConfigurationError,
-  type BarMpesaData 
+  buildPaymentCharge,
+  getGratuitySettings,
+  parseTipSelection,
+  GratuityError,
+  type BarMpesaData,
+  type PaymentCharge,
+  type TipSelection
 } from '@tabeza/shared';
+import { prepareSplitSharePayment, releaseSplitShare, TabSplitError } from '@tabeza/shared/lib/services/tab-split';
+import { prepareDepositPayment, TabCreditError } from '@tabeza/shared/lib/services/tab-credit';
+import { parseTabNotes } from '@tabeza/shared/lib/services/tab-details';
 
 interface MpesaPaymentRequest {
   tabId: string;
   phoneNumber: string;
   amount: number;
+  /** Pay one share of a split bill; the amount due comes from the share */
+  splitShareId?: string;
+  /** Optional gratuity, charged on top of the amount applied to the balance */
+  tip?: TipSelection;
+  /** Opening deposit for bars that require one; the amount due comes from the bar and tab */
+  deposit?: boolean;
 }
 
 interface MpesaPaymentResponse {
   success: boolean;
   checkoutRequestId?: string;
+  charge?: PaymentCharge;
   error?: string;
 }
 
@@ -42,13 +58,15 @@ export async function POST(request: NextRequest): Promise<NextResponse<MpesaPaym
       );
     }
 
-    const { tabId, phoneNumber, amount } = requestBody;
+    const { tabId, phoneNumber, splitShareId } = requestBody;
+    const isDeposit = requestBody.deposit === true;
+    let { amount } = requestBody;
 
     // Validate required fields
     const missingFields: string[] = [];
     if (!tabId) missingFields.push('tabId');
     if (!phoneNumber) missingFields.push('phoneNumber');
-    if (amount === undefined || amount === null) missingFields.push('amount');
+    if (!splitShareId && !isDeposit && (amount === undefined || amount === null)) missingFields.push('amount');
 
     if (missingFields.length > 0) {
       return NextResponse.json(
@@ -75,7 +93,14 @@ export async function POST(request: NextRequest): Promise<NextResponse<MpesaPaym
       );
     }
 
-    if (typeof amount !== 'number' || amount <= 0) {
+    if (splitShareId !== undefined && (typeof splitShareId !== 'string' || splitShareId.trim().length === 0)) {
+      return NextResponse.json(
+        { success: false, error: 'splitShareId must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    if (!splitShareId && !isDeposit && (typeof amount !== 'number' || amount <= 0)) {
       return NextResponse.json(
         { success: false, error: 'amount must be a positive number' },
         { status: 400 }
@@ -89,6 +114,13 @@ export async function POST(request: NextRequest): Promise<NextResponse<MpesaPaym
       );
     }
 
+    if (isDeposit && (splitShareId || requestBody.tip)) {
+      return NextResponse.json(
+        { success: false, error: 'A deposit cannot be split or include a tip' },
+        { status: 400 }
+      );
+    }
+
     // Requirement 2.4: Validate phone number format
     const phoneValidation = validateKenyanPhoneNumber(phoneNumber);
     if (!phoneValidation.isValid) {
@@ -111,6 +143,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<MpesaPaym
         id, 
         status, 
         bar_id,
+        notes,
         bars!inner(
           id,
           mpesa_enabled,
@@ -119,7 +152,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<MpesaPaym
           mpesa_consumer_key_encrypted,
           mpesa_consumer_secret_encrypted,
           mpesa_passkey_encrypted,
-          mpesa_callback_url
+          mpesa_callback_url,
+          tips_enabled,
+          service_charge_percent
         )
       `)
       .eq('id', tabId)
@@ -141,47 +176,92 @@ export async function POST(request: NextRequest): Promise<NextResponse<MpesaPaym
       );
     }
 
-    // Load M-Pesa configuration for this bar
-    const barData = tabWithBar.bars[0] as BarMpesaData;
-    let mpesaConfig;
-    
-    // Check if mock mode is enabled BEFORE trying to load real config
-    if (process.env.MPESA_MOCK_MODE === 'true') {
-      console.log('🧪 M-Pesa Mock Mode: Skipping real configuration loading');
-      // Create a mock config to satisfy the interface
-      mpesaConfig = {
-        environment: 'sandbox' as const,
-        businessShortcode: 'mock_shortcode',
-        consumerKey: 'mock_key',
-        consumerSecret: 'mock_secret',
-        passkey: 'mock_passkey',
-        callbackUrl: 'http://localhost:3002/api/mpesa/callback',
-        oauthUrl: 'mock_oauth_url',
-        stkPushUrl: 'mock_stk_url',
-        stkQueryUrl: 'mock_stk_query_url'
-      };
-    } else {
-      // Only load real config if not in mock mode
+    // Split bill: charge whatever is still owed on this share. The share is claimed
+    // here and handed back below if no payment row gets created for it.
+    let claimedShareId: string | null = null;
+    if (splitShareId) {
+      try {
+        const { amountDue } = await prepareSplitSharePayment(supabase, tabId, splitShareId, normalizedPhoneNumber);
+        amount = amountDue;
+        claimedShareId = splitShareId;
+      } catch (error) {
+        if (error instanceof TabSplitError) {
+          return NextResponse.json(
+            { success: false, error: error.message },
+            { status: error.statusCode }
+          );
+        }
+        throw error;
+      }
+    }
+
+    // Deposit: only when the bar asks for one, for whatever of it is still owed
+    if (isDeposit) {
       try {
-        mpesaConfig = loadMpesaConfigFromBar(barData);
+        const { amountDue } = await prepareDepositPayment(supabase, tabId);
+        amount = amountDue;
       } catch (error) {
-        console.error('M-Pesa configuration error for bar:', { 
-          barId: tabWithBar.bar_id, 
-          error: error instanceof Error ? error.message : 'Unknown error' 
-        });
-        
-        if (error instanceof MpesaConfigurationError) {
+        if (error instanceof TabCreditError) {
           return NextResponse.json(
-            { success: false, error: 'M-Pesa payment not available for this location' },
-            { status: 503 }
+            { success: false, error: error.message },
+            { status: error.statusCode }
           );
         }
-        
+        throw error;
+      }
+    }
+
+    // Load M-Pesa configuration for this bar
+    const barData = tabWithBar.bars[0] as BarMpesaData;
+
+    // Gratuity is charged on top of the balance portion and recorded separately.
+    // A deposit is a prepayment, not a sale, so it carries no service charge.
+    let charge: PaymentCharge;
+    try {
+      const gratuitySettings = getGratuitySettings(tabWithBar.bars[0]);
+      charge = buildPaymentCharge(
+        amount,
+        parseTipSelection(requestBody.tip),
+        isDeposit ? { ...gratuitySettings, serviceChargePercent: 0 } : gratuitySettings
+      );
+    } catch (error) {
+      if (error instanceof GratuityError) {
+        if (claimedShareId) await releaseSplitShare(supabase, claimedShareId);
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        );
+      }
+      throw error;
+    }
+    // Bars on the simulator environment (or all bars in MPESA_MOCK_MODE) get the Daraja simulator.
+    // Bars with several tills route by the customer's table and the time of day.
+    let mpesaConfig;
+    let mpesaTillId: string | null = null;
+    try {
+      const routed = await routeMpesaPayment(supabase, tabWithBar.bar_id, barData, {
+        tableNumber: parseTabNotes(tabWithBar.notes).table_number
+      });
+      mpesaConfig = routed.config;
+      mpesaTillId = routed.till?.id ?? null;
+    } catch (error) {
+      console.error('M-Pesa configuration error for bar:', { 
+        barId: tabWithBar.bar_id, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      if (claimedShareId) await releaseSplitShare(supabase, claimedShareId);
+      
+      if (error instanceof MpesaConfigurationError) {
         return NextResponse.json(
-          { success: false, error: 'Payment service temporarily unavailable' },
+          { success: false, error: 'M-Pesa payment not available for this location' },
           { status: 503 }
         );
       }
+      
+      return NextResponse.json(
+        { success: false, error: 'Payment service temporarily unavailable' },
+        { status: 503 }
+      );
     }
 
     // Requirement 1.1: Create pending payment record in tab_payments table
@@ -190,65 +270,36 @@ export async function POST(request: NextRequest): Promise<NextResponse<MpesaPaym
       .insert({
         tab_id: tabId,
         amount: amount,
+        tip_amount: charge.tipAmount,
+        service_charge_amount: charge.serviceChargeAmount,
         method: 'mpesa',
-        status: 'pending'
+        status: 'pending',
+        phone_number: normalizedPhoneNumber,
+        split_share_id: splitShareId || null,
+        mpesa_till_id: mpesaTillId,
+        is_deposit: isDeposit
       })
       .select()
       .single();
 
     if (paymentError || !payment) {
       console.error('Failed to create payment record:', paymentError);
+      if (claimedShareId) await releaseSplitShare(supabase, claimedShareId);
       return NextResponse.json(
         { success: false, error: 'Failed to create payment record' },
         { status: 500 }
       );
     }
 
-    console.log('Payment record created:', { paymentId: payment.id, tabId, amount });
+    console.log('Payment record created:', { paymentId: payment.id, tabId, amount, tipAmount: charge.tipAmount, splitShareId, isDeposit });
 
     try {
-      // Handle mock mode
-      if (process.env.MPESA_MOCK_MODE === 'true') {
-        console.log('🧪 M-Pesa Mock Mode: Simulating successful payment');
-        
-        // Generate mock checkout request ID
-        const mockCheckoutRequestId = `mock_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        
-        // Update payment record with mock checkout request ID
-        const { error: updateError } = await supabase
-          .from('tab_payments')
-          .update({ 
-            reference: mockCheckoutRequestId,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', payment.id);
-
-        if (updateError) {
-          console.error('Failed to update payment with mock checkout request ID:', updateError);
-        }
-
-        // Simulate successful STK push response
-        const responseTime = Date.now() - startTime;
-        console.log('🧪 Mock M-Pesa payment initiated successfully:', {
-          paymentId: payment.id,
-          checkoutRequestId: mockCheckoutRequestId,
-          responseTime: `${responseTime}ms`,
-          mockMode: true
-        });
-
-        return NextResponse.json({
-          success: true,
-          checkoutRequestId: mockCheckoutRequestId,
-          mockMode: true // Indicate this is a mock response
-        });
-      }
-
       // Requirement 2.1: Send STK Push request to Safaricom
       const stkResponse = await sendSTKPush({
         phoneNumber: normalizedPhoneNumber,
-        amount: Math.round(amount), // Ensure integer amount
+        amount: Math.round(charge.total), // Ensure integer amount
         accountReference: `TAB${tabId.slice(-8)}`, // Use last 8 chars of tab ID
-        transactionDesc: 'Tab Payment'
+        transactionDesc: isDeposit ? 'Tab Deposit' : splitShareId ? 'Split Tab Payment' : 'Tab Payment'
       }, mpesaConfig);
 
       // Requirement 2.2: Update payment record with checkout request ID
@@ -275,7 +326,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<MpesaPaym
       // Requirement 5.3: Return checkout request ID on success
       return NextResponse.json({
         success: true,
-        checkoutRequestId: stkResponse.CheckoutRequestID
+        checkoutRequestId: stkResponse.CheckoutRequestID,
+        charge
       });
 
     } catch (stkError) {
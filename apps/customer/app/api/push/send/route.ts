@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase';
+import { PUSH_TOPIC_DELIVERY, PushNotificationError, sendPushToDevices, type PushTopic } from '@tabeza/shared/lib/services/push-notifications';
 
 export async function POST(request: NextRequest) {
   try {
-    const { title, body, icon, badge, tag, data, deviceIds } = await request.json();
+    const { title, body, icon, badge, tag, data, topic, deviceIds } = await request.json();
 
     if (!title || !deviceIds || !deviceIds.length) {
       return NextResponse.json(
@@ -12,68 +13,39 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const supabase = createServiceRoleClient();
-
-    // Get subscriptions for the specified devices
-    const { data: subscriptions, error } = await supabase
-      .from('push_subscriptions')
-      .select('endpoint, p256dh, auth')
-      .in('device_id', deviceIds);
-
-    if (error) {
-      console.error('❌ Database error fetching subscriptions:', error);
+    if (topic && !(topic in PUSH_TOPIC_DELIVERY)) {
       return NextResponse.json(
-        { error: 'Failed to fetch subscriptions' },
-        { status: 500 }
+        { error: `Unknown topic: ${topic}` },
+        { status: 400 }
       );
     }
 
-    // Send push notifications to all specified devices
-    const results = await Promise.allSettled(
-      subscriptions.map(async (subscription) => {
-        try {
-          const response = await fetch('https://fcm.googleapis.com/fcm/send', {
-            method: 'POST',
-            headers: {
-              'Authorization': `key=${process.env.FIREBASE_SERVER_KEY}`,
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
-              to: subscription.endpoint,
-              notification: {
-                title: title,
-                body: body,
-                icon: icon,
-                badge: badge,
-                tag: tag,
-                data: data,
-                actions: data?.actions || []
-              }
-            })
-          });
-
-          if (!response.ok) {
-            console.error('❌ Failed to send push notification to:', subscription.endpoint);
-            return { success: false, error: 'Failed to send' };
-          }
+    const supabase = createServiceRoleClient();
 
-          const result = await response.json();
-          console.log('✅ Push notification sent to:', subscription.endpoint);
-          return { success: true, messageId: result.message_id };
-        } catch (error) {
-          console.error('❌ Error sending push notification to:', subscription.endpoint);
-          return { success: false, error: (error as Error).message };
-        }
-      })
-    );
+    // Send push notifications to all specified devices
+    let results;
+    try {
+      results = await sendPushToDevices(supabase, deviceIds, { title, body, icon, badge, tag, data, topic: topic as PushTopic | undefined });
+    } catch (error) {
+      if (error instanceof PushNotificationError) {
+        console.error('❌ Push delivery error:', error.message, error.originalError);
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.statusCode }
+        );
+      }
+      throw error;
+    }
 
-    const successful = results.filter(r => r.status === 'fulfilled' && r.value.success).length;
+    const successful = results.filter(r => r.success).length;
     const failed = results.length - successful;
+    const pruned = results.filter(r => r.pruned).length;
 
     return NextResponse.json({
       message: `Push notifications sent to ${successful} devices, ${failed} failed`,
       success: successful > 0,
       failed: failed,
+      pruned: pruned,
       results: results
     });
   } catch (error) {
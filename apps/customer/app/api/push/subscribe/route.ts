@@ -5,7 +5,11 @@ export async function POST(request: NextRequest) {
   try {
     const { deviceId, subscription } = await request.json();
 
-    if (!deviceId || !subscription) {
+    // Accept the browser's PushSubscription.toJSON() shape and the older flat one
+    const p256dh = subscription?.keys?.p256dh ?? subscription?.p256dh;
+    const auth = subscription?.keys?.auth ?? subscription?.auth;
+
+    if (!deviceId || !subscription?.endpoint || !p256dh || !auth) {
       return NextResponse.json(
         { error: 'Missing deviceId or subscription data' },
         { status: 400 }
@@ -20,8 +24,8 @@ export async function POST(request: NextRequest) {
       .upsert({
         device_id: deviceId,
         endpoint: subscription.endpoint,
-        p256dh: subscription.keys.p256dh,
-        auth: subscription.keys.auth,
+        p256dh,
+        auth,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       })
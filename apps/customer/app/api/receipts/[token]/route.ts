@@ -0,0 +1,50 @@
+/**
+ * Shared Receipt API
+ * GET returns the receipt a signed share link points to, as JSON or as a PDF
+ * with ?format=pdf. The token is the only credential and expires.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase';
+import {
+  buildReceiptPdf,
+  getReceiptFilename,
+  loadTabReceipt,
+  TabReceiptError,
+  verifyReceiptShareToken
+} from '@tabeza/shared/lib/services/tab-receipts';
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    const tabId = verifyReceiptShareToken(token);
+    const receipt = await loadTabReceipt(createServiceRoleClient(), tabId);
+
+    if (request.nextUrl.searchParams.get('format') === 'pdf') {
+      return new Response(buildReceiptPdf(receipt) as BodyInit, {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${getReceiptFilename(receipt)}"`,
+          'Cache-Control': 'no-store'
+        }
+      });
+    }
+
+    return NextResponse.json({ success: true, receipt });
+  } catch (error) {
+    if (error instanceof TabReceiptError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('❌ Shared receipt API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Tab Credit API
+ * GET returns the tab's deposit and credit limit position, so the customer can
+ * be asked to pay the deposit or top up before an order is refused. With
+ * ?orderTotal= it also says whether an order of that size would go through.
+ * Customers identify themselves with the X-Device-Id header.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase';
+import { resolveTabRequester, TabAccessError } from '@tabeza/shared/lib/services/tab-details';
+import { checkTabOrder, getTabCredit, TabCreditError } from '@tabeza/shared/lib/services/tab-credit';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function errorResponse(error: unknown) {
+  if (error instanceof TabCreditError || error instanceof TabAccessError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error('❌ Tab credit API error:', error);
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = createServiceRoleClient();
+    const requester = await resolveTabRequester(supabase, request.headers);
+    const credit = await getTabCredit(supabase, id, requester);
+    const orderTotal = parseFloat(request.nextUrl.searchParams.get('orderTotal') || '0') || 0;
+
+    return NextResponse.json({ success: true, credit, block: checkTabOrder(credit, orderTotal) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
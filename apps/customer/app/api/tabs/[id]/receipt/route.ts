@@ -0,0 +1,55 @@
+/**
+ * Tab Receipt API
+ * GET returns the tab's itemized receipt as JSON, or as a PDF with ?format=pdf.
+ * Customers identify themselves with the X-Device-Id header.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase';
+import { resolveTabRequester, TabAccessError } from '@tabeza/shared/lib/services/tab-details';
+import {
+  buildReceiptPdf,
+  getReceiptFilename,
+  getTabReceipt,
+  TabReceiptError
+} from '@tabeza/shared/lib/services/tab-receipts';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function errorResponse(error: unknown) {
+  if (error instanceof TabReceiptError || error instanceof TabAccessError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error('❌ Tab receipt API error:', error);
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = createServiceRoleClient();
+    const requester = await resolveTabRequester(supabase, request.headers);
+    const receipt = await getTabReceipt(supabase, id, requester);
+
+    if (request.nextUrl.searchParams.get('format') === 'pdf') {
+      return new Response(buildReceiptPdf(receipt) as BodyInit, {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${getReceiptFilename(receipt)}"`,
+          'Cache-Control': 'no-store'
+        }
+      });
+    }
+
+    return NextResponse.json({ success: true, receipt });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Receipt Share Link API
+ * POST signs an expiring link to the tab's receipt that works without the
+ * device ID. Body: { days?: number } (default 7, at most 30).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase';
+import { loadAuthorizedTab, resolveTabRequester, TabAccessError } from '@tabeza/shared/lib/services/tab-details';
+import {
+  createReceiptShareToken,
+  DEFAULT_RECEIPT_SHARE_DAYS,
+  TabReceiptError
+} from '@tabeza/shared/lib/services/tab-receipts';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function errorResponse(error: unknown) {
+  if (error instanceof TabReceiptError || error instanceof TabAccessError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error('❌ Receipt share API error:', error);
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const supabase = createServiceRoleClient();
+    const requester = await resolveTabRequester(supabase, request.headers);
+    await loadAuthorizedTab(supabase, id, requester);
+
+    const days = body?.days === undefined ? DEFAULT_RECEIPT_SHARE_DAYS : Number(body.days);
+    const { token, expiresAt } = createReceiptShareToken(id, days);
+    const url = new URL(`/receipts/shared/${token}`, request.nextUrl.origin).toString();
+
+    console.log('🔗 Receipt share link created for tab:', id, 'expires:', expiresAt);
+    return NextResponse.json({ success: true, url, expiresAt });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
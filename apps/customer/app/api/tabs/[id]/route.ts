@@ -0,0 +1,60 @@
+/**
+ * Tab Details API
+ * GET returns the tab snapshot; PATCH updates display name, table number and notes.
+ * Customers identify themselves with the X-Device-Id header.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase';
+import {
+  getTabSnapshot,
+  parseTabDetailsUpdate,
+  resolveTabRequester,
+  updateTabDetails,
+  TabAccessError
+} from '@tabeza/shared/lib/services/tab-details';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function errorResponse(error: unknown) {
+  if (error instanceof TabAccessError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error('❌ Tab details API error:', error);
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = createServiceRoleClient();
+    const requester = await resolveTabRequester(supabase, request.headers);
+    const snapshot = await getTabSnapshot(supabase, id, requester);
+
+    return NextResponse.json({ success: true, ...snapshot });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = createServiceRoleClient();
+    const requester = await resolveTabRequester(supabase, request.headers);
+    const update = parseTabDetailsUpdate(await request.json().catch(() => null));
+    const snapshot = await updateTabDetails(supabase, id, requester, update);
+
+    console.log('✅ Tab details updated:', { tabId: id, fields: Object.keys(update) });
+    return NextResponse.json({ success: true, ...snapshot });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Split Bill API
+ * GET returns the tab's split and per-share progress; POST starts split mode;
+ * DELETE cancels it. Customers identify themselves with the X-Device-Id header.
+ * Each share is paid through /api/payments/mpesa with `splitShareId`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase';
+import { resolveTabRequester, TabAccessError } from '@tabeza/shared/lib/services/tab-details';
+import {
+  cancelTabSplit,
+  createTabSplit,
+  getTabSplit,
+  TabSplitError
+} from '@tabeza/shared/lib/services/tab-split';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function errorResponse(error: unknown) {
+  if (error instanceof TabSplitError || error instanceof TabAccessError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error('❌ Split bill API error:', error);
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = createServiceRoleClient();
+    const requester = await resolveTabRequester(supabase, request.headers);
+    const split = await getTabSplit(supabase, id, requester);
+
+    return NextResponse.json({ success: true, split });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceRoleClient();
+    const requester = await resolveTabRequester(supabase, request.headers);
+    const split = await createTabSplit(supabase, id, requester, body);
+
+    console.log('✅ Split created:', { tabId: id, mode: split.mode, shares: split.shares.length });
+    return NextResponse.json({ success: true, split });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = createServiceRoleClient();
+    const requester = await resolveTabRequester(supabase, request.headers);
+    await cancelTabSplit(supabase, id, requester);
+
+    console.log('✅ Split cancelled:', { tabId: id });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
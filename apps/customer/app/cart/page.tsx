@@ -5,6 +5,8 @@ import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { ArrowLeft, Plus, Minus, CheckCircle } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import TabCreditPrompt, { fetchTabOrderBlock } from '@/components/TabCreditPrompt';
+import type { TabOrderBlock } from '@tabeza/shared/lib/services/tab-credit';
 
 export const dynamic = 'force-dynamic';
 
@@ -43,6 +45,7 @@ export default function CartPage() {
   const router = useRouter();
   const [cart, setCart] = useState<CartItem[]>([]);
   const [submitting, setSubmitting] = useState(false);
+  const [creditPrompt, setCreditPrompt] = useState<{ tabId: string; block: TabOrderBlock } | null>(null);
 
   // Define drink categories that support "not cold" preference
   const drinkCategories = ['Beer & Cider', 'Wine & Champagne', 'Spirits', 'Liqueurs & Specialty', 'Non-Alcoholic'];
@@ -116,6 +119,13 @@ export default function CartPage() {
       const currentTab: CurrentTab = JSON.parse(tabData);
       console.log('📋 Submitting order for tab:', currentTab.id);
 
+      // Deposit and tab limit: ask for a top-up rather than have the order refused
+      const block = await fetchTabOrderBlock(currentTab.id, cartTotal).catch(() => null);
+      if (block) {
+        setCreditPrompt({ tabId: currentTab.id, block });
+        return;
+      }
+
       const orderItems: OrderItem[] = cart.map((item, index) => {
         return {
           product_id: item.product_id || item.id || null,
@@ -144,6 +154,11 @@ export default function CartPage() {
 
       if (error) {
         console.error('❌ Order error:', error);
+        const refused = await fetchTabOrderBlock(currentTab.id, cartTotal).catch(() => null);
+        if (refused) {
+          setCreditPrompt({ tabId: currentTab.id, block: refused });
+          return;
+        }
         throw error;
       }
 
@@ -250,6 +265,16 @@ export default function CartPage() {
         )}
       </div>
 
+      {creditPrompt && (
+        <TabCreditPrompt
+          tabId={creditPrompt.tabId}
+          block={creditPrompt.block}
+          orderTotal={cartTotal}
+          onCleared={() => setCreditPrompt(null)}
+          onClose={() => setCreditPrompt(null)}
+        />
+      )}
+
       {/* Bottom Bar - Only show if cart has items */}
       {cart.length > 0 && (
         <div className="fixed bottom-0 left-0 right-0 bg-white shadow-lg p-4 border-t">
@@ -7,6 +7,7 @@ import { ShoppingCart, Plus, Search, X, CreditCard, Clock, CheckCircle, Minus, U
   Coffee, Utensils, Pizza, Sandwich, Cookie, IceCream, Apple, Beef, Fish, Wine, Beer, Sunrise, Sunset, Moon, Star, Heart, Flame, Zap, Droplets, Leaf, Wheat, Milk, Egg, ChefHat, Cake, Candy, Popcorn, IceCream2, Glasses, Martini, LayoutGrid } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { formatCurrency } from '@/lib/formatUtils';
+import { getDeviceId } from '@/lib/deviceId';
 import { useVibrate } from '@/hooks/useVibrate';
 import { useSound } from '@/hooks/useSound';
 import { telegramMessageQueries } from '@/lib/telegram-queries';
@@ -28,6 +29,8 @@ import PWAInstallPrompt from '../../components/PWAInstallPrompt';
 import PWAUpdateManager from '../../components/PWAUpdateManager';
 import PDFViewer from '../../../../components/PDFViewer'; 
 import MessagePanel from './MessagePanel';
+import TabCreditPrompt, { fetchTabOrderBlock } from '../../components/TabCreditPrompt';
+import type { TabOrderBlock } from '@tabeza/shared/lib/services/tab-credit';
 import { playCustomerNotification } from '@/lib/notifications'; // ADDED MISSING IMPORT
 
 // Temporary format function to bypass import issue
@@ -113,6 +116,7 @@ export default function MenuPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('All');
   const [submittingOrder, setSubmittingOrder] = useState(false);
+  const [creditPrompt, setCreditPrompt] = useState<{ block: TabOrderBlock; orderTotal: number } | null>(null);
   const [approvingOrder, setApprovingOrder] = useState<string | null>(null);
   const [paymentAmount, setPaymentAmount] = useState('');
   const [phoneNumber, setPhoneNumber] = useState('');
@@ -700,10 +704,10 @@ export default function MenuPage() {
           const updatedTab = payload.new as Tab;
           
           if (updatedTab.status === 'closed') {
-            console.log('🛑 Tab was closed, redirecting to home');
+            console.log('🛑 Tab was closed, showing receipt');
             sessionStorage.removeItem('currentTab');
             sessionStorage.removeItem('cart');
-            router.replace('/');
+            router.replace(`/receipts/${updatedTab.id}`);
             return;
           }
           
@@ -1102,7 +1106,7 @@ export default function MenuPage() {
       // FIXED: Use correct column names from database
       const { data, error } = await supabase
         .from('bars')
-        .select('mpesa_enabled')
+        .select('mpesa_enabled, card_enabled')
         .eq('id', barId)
         .single();
 
@@ -1119,18 +1123,18 @@ export default function MenuPage() {
         const paymentData = data as {
           mpesa_enabled?: boolean;
           payment_cash_enabled?: boolean;
-          payment_card_enabled?: boolean;
+          card_enabled?: boolean;
         };
         setPaymentSettings({
           mpesa_enabled: paymentData.mpesa_enabled ?? false,
-          card_enabled: paymentData.payment_card_enabled ?? false,
+          card_enabled: paymentData.card_enabled ?? false,
           cash_enabled: paymentData.payment_cash_enabled ?? true
         });
 
         // Set default payment method to first available one
         if (paymentData.mpesa_enabled) {
           setActivePaymentMethod('mpesa');
-        } else if (paymentData.payment_card_enabled) {
+        } else if (paymentData.card_enabled) {
           setActivePaymentMethod('cards');
         } else if (paymentData.payment_cash_enabled ?? true) {
           setActivePaymentMethod('cash');
@@ -1198,10 +1202,10 @@ export default function MenuPage() {
 
       // Check if tab is closed - redirect if so
       if (fullTab.status === 'closed') {
-        console.log('🛑 Tab is closed, redirecting to home');
+        console.log('🛑 Tab is closed, showing receipt');
         sessionStorage.removeItem('currentTab');
         sessionStorage.removeItem('cart');
-        router.replace('/');
+        router.replace(`/receipts/${fullTab.id}`);
         return;
       }
 
@@ -1475,49 +1479,32 @@ export default function MenuPage() {
     }
     
     try {
-      // Update tab notes with table number
-      let currentNotes = {};
-      if (tab.notes) {
-        try {
-          currentNotes = JSON.parse(tab.notes);
-          console.log('📝 Current notes:', currentNotes);
-        } catch (e) {
-          console.log('❌ Error parsing current notes:', e);
-        }
-      }
-      
-      const updatedNotes = {
-        ...currentNotes,
-        table_number: tableNumber
-      };
-      
-      console.log('📝 Updating notes to:', updatedNotes);
-      
-      if (!supabase) {
-        throw new Error('Supabase client not available');
-      }
-      
-      const { error } = await supabase
-        .from('tabs')
-        .update({ notes: JSON.stringify(updatedNotes) })
-        .eq('id', tab.id);
-      
-      if (error) {
-        console.error('❌ Error updating table number:', error);
+      const response = await fetch(`/api/tabs/${tab.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Device-Id': getDeviceId()
+        },
+        body: JSON.stringify({ tableNumber })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        console.error('❌ Error updating table number:', result.error);
         showToast({
           type: 'error',
           title: 'Error',
-          message: 'Failed to assign table number'
+          message: result.error || 'Failed to assign table number'
         });
         return;
       }
-      
+
       console.log('✅ Table number updated successfully');
       setSelectedTable(tableNumber);
       setShowTableModal(false);
       
       // Update local tab state
-      setTab(prev => prev ? { ...prev, notes: JSON.stringify(updatedNotes) } : null);
+      setTab(prev => prev ? { ...prev, notes: result.tab.notes } : null);
       
       // Show success message
       const tableText = tableNumber ? `Table ${tableNumber}` : 'No specific table';
@@ -1591,32 +1578,38 @@ export default function MenuPage() {
         message: 'Tab closed successfully. Thank you!'
       });
 
-      router.replace('/');
+      router.replace(`/receipts/${tab.id}`);
     } catch (error) {
       console.error('Error in handleCloseTab:', error);
       alert('An error occurred while closing the tab');
     }
   };
 
+  // Order status changes go through the server so illegal moves are rejected
+  const updateOrderStatus = async (orderId: string, status: 'confirmed' | 'cancelled', reason?: string) => {
+    const response = await fetch('/api/orders/update', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Device-Id': getDeviceId()
+      },
+      body: JSON.stringify({ orderId, status, reason })
+    });
+    const result = await response.json();
+    return response.ok ? { error: null } : { error: result.error || 'Failed to update order' };
+  };
+
   const handleApproveOrder = async (orderId: string) => {
-    if (!supabase) return;
-    
     setApprovingOrder(orderId);
     try {
-      const { error } = await supabase
-        .from('tab_orders')
-        .update({ 
-          status: 'confirmed', 
-          confirmed_at: new Date().toISOString() 
-        })
-        .eq('id', orderId);
+      const { error } = await updateOrderStatus(orderId, 'confirmed');
 
       if (error) {
         console.error('Error approving order:', error);
         showToast({
           type: 'error',
           title: 'Failed to Approve Order',
-          message: 'Please try again'
+          message: error
         });
         return;
       }
@@ -1668,21 +1661,11 @@ export default function MenuPage() {
       return;
     }
 
-    if (!supabase) return;
-    
     setApprovingOrder(rejectingOrderId);
     try {
-      const { error } = await supabase
-        .from('tab_orders')
-        .update({ 
-          status: 'cancelled', 
-          cancelled_at: new Date().toISOString(),
-          rejection_reason: selectedRejectionReason,
-          cancelled_by: 'customer'
-        })
-        .eq('id', rejectingOrderId);
-
-      if (error) throw error;
+      const { error } = await updateOrderStatus(rejectingOrderId, 'cancelled', selectedRejectionReason);
+
+      if (error) throw new Error(error);
     
       // Show success message
       showToast({
@@ -1793,6 +1776,13 @@ export default function MenuPage() {
       }));
       const cartTotal = cart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
       const orderSubmissionTime = new Date().toISOString();
+
+      // Deposit and tab limit: ask for a top-up rather than have the order refused
+      const block = await fetchTabOrderBlock(tab!.id, cartTotal).catch(() => null);
+      if (block) {
+        setCreditPrompt({ block, orderTotal: cartTotal });
+        return;
+      }
       
       // ✅ DO NOT SET order_number - let database trigger handle it
       const { error } = await supabase
@@ -1804,7 +1794,14 @@ export default function MenuPage() {
           status: 'pending',
           initiated_by: 'customer'
         });
-      if (error) throw error;
+      if (error) {
+        const refused = await fetchTabOrderBlock(tab!.id, cartTotal).catch(() => null);
+        if (refused) {
+          setCreditPrompt({ block: refused, orderTotal: cartTotal });
+          return;
+        }
+        throw error;
+      }
       sessionStorage.setItem('oldestPendingCustomerOrderTime', orderSubmissionTime);
       sessionStorage.removeItem('cart');
       setCart([]);
@@ -1991,6 +1988,49 @@ export default function MenuPage() {
       } finally {
         setIsProcessing(false);
       }
+    } else if (activePaymentMethod === 'cards') {
+      if (!tab?.id) {
+        showToast({
+          type: 'error',
+          title: 'Tab Not Ready',
+          message: 'Please wait for tab data to load before making payment'
+        });
+        return;
+      }
+
+      if (!paymentAmount || parseFloat(paymentAmount) <= 0) {
+        showToast({
+          type: 'error',
+          title: 'Amount Required',
+          message: 'Please enter a valid payment amount'
+        });
+        return;
+      }
+
+      setIsProcessing(true);
+      try {
+        const response = await fetch('/api/payments/card', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ tabId: tab.id, amount: parseFloat(paymentAmount) })
+        });
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || 'Card payment could not be started');
+        }
+
+        // Hand over to the provider's hosted checkout page
+        window.location.href = result.checkoutUrl;
+      } catch (error: any) {
+        console.error('Card payment error:', error);
+        showToast({
+          type: 'error',
+          title: 'Payment Failed',
+          message: error.message || 'Unable to start card payment. Please try again.'
+        });
+        setIsProcessing(false);
+      }
     } else if (activePaymentMethod === 'cash') {
       showToast({
         type: 'info',
@@ -2209,10 +2249,19 @@ export default function MenuPage() {
     <>
       <PWAInstallPrompt />
       <PWAUpdateManager />
+      {creditPrompt && tab?.id && (
+        <TabCreditPrompt
+          tabId={tab.id}
+          block={creditPrompt.block}
+          orderTotal={creditPrompt.orderTotal}
+          onCleared={() => setCreditPrompt(null)}
+          onClose={() => setCreditPrompt(null)}
+        />
+      )}
       {/* Mock Mode Indicator */}
       {process.env.NODE_ENV === 'development' && process.env.NEXT_PUBLIC_MPESA_MOCK_MODE === 'true' && (
         <div className="bg-yellow-400 text-yellow-900 px-4 py-2 text-center text-sm font-medium">
-          🧪 M-Pesa Mock Mode Active - Payments will be simulated
+          🧪 M-Pesa Mock Mode Active - Payments go to the Daraja simulator
         </div>
       )}
       <div className="min-h-screen bg-gray-50">
@@ -3184,17 +3233,10 @@ export default function MenuPage() {
                 )}
               </div>
               {activePaymentMethod === 'cards' && (
-                <div className="flex items-center justify-between mb-4">
-                  <div className="flex items-center gap-3">
-                    <div className="w-12 h-8 bg-gradient-to-r from-blue-600 to-blue-400 rounded flex items-center justify-center">
-                      <span className="text-white text-xs font-bold">VISA</span>
-                    </div>
-                    <div>
-                      <p className="text-sm text-gray-900">•••• 4242</p>
-                      <p className="text-xs text-gray-400">Expires 12/26</p>
-                    </div>
-                  </div>
-                  <button className="text-xs text-orange-500 font-medium">Change</button>
+                <div className="bg-blue-50 border border-blue-200 rounded-xl p-3 mb-4">
+                  <p className="text-sm text-blue-700">
+                    You will be taken to a secure card payment page to complete your payment.
+                  </p>
                 </div>
               )}
               <div className="border-t border-gray-100 pt-4">
@@ -3286,7 +3328,7 @@ export default function MenuPage() {
                     ) : activePaymentMethod === 'cash' ? (
                       'Confirm Cash Payment'
                     ) : (
-                      'Process Payment'
+                      'Pay with Card'
                     )}
                   </button>
                   <p className="text-xs text-gray-500 text-center mt-2">
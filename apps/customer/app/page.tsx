@@ -8,6 +8,7 @@ import { useToast } from '@/components/ui/Toast';
 import Logo from '@/components/Logo';
 import PWAUpdateManager from '@/components/PWAUpdateManager';
 import { getAllOpenTabs, hasOpenTabAtBar, validateDeviceIntegrity, storeActiveTab } from '@/lib/device-identity';
+import { getReceiptHistory } from '@/lib/receiptHistory';
 
 export default function LandingPage() {
   return (
@@ -35,9 +36,11 @@ function LandingContent() {
   const [showExistingTabsModal, setShowExistingTabsModal] = useState(false);
   const [existingTabs, setExistingTabs] = useState<any[]>([]);
   const [debugDeviceId, setDebugDeviceId] = useState('');
+  const [hasReceipts, setHasReceipts] = useState(false);
 
   useEffect(() => {
     initializeLanding();
+    setHasReceipts(getReceiptHistory().length > 0);
   }, []);
 
   const initializeLanding = async () => {
@@ -407,6 +410,15 @@ function LandingContent() {
         <p className="text-xs text-gray-400 text-center mt-3">
           🔒 No signup • 100% anonymous
         </p>
+
+        {hasReceipts && (
+          <button
+            onClick={() => router.push('/receipts')}
+            className="text-sm text-orange-600 font-medium text-center mt-3"
+          >
+            My receipts
+          </button>
+        )}
         
         {process.env.NODE_ENV === 'development' && (
           <p className="text-xs text-gray-400 text-center mt-2 font-mono">
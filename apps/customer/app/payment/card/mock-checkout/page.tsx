@@ -0,0 +1,88 @@
+'use client';
+
+import React, { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { CreditCard } from 'lucide-react';
+import { formatCurrency } from '@/lib/formatUtils';
+
+// Stand-in for a provider's hosted checkout page when a bar uses the mock card provider
+function MockCheckoutContent() {
+  const searchParams = useSearchParams();
+  const reference = searchParams.get('reference') || '';
+  const amount = parseFloat(searchParams.get('amount') || '0');
+  const returnUrl = searchParams.get('returnUrl') || '/payment/card/return';
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const complete = async (approved: boolean) => {
+    setSubmitting(true);
+    setError('');
+    try {
+      const response = await fetch('/api/payments/card/mock-complete', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reference, approved })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Mock checkout failed');
+      }
+
+      const next = new URL(returnUrl, window.location.origin);
+      next.searchParams.set('reference', reference);
+      window.location.href = next.toString();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Mock checkout failed');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 w-full max-w-sm space-y-5">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-blue-100 rounded-lg">
+            <CreditCard size={20} className="text-blue-600" />
+          </div>
+          <div>
+            <h1 className="font-bold text-gray-800">Mock Card Checkout</h1>
+            <p className="text-xs text-gray-500">Test provider — no card is charged</p>
+          </div>
+        </div>
+
+        <div className="bg-gray-50 rounded-lg p-4">
+          <p className="text-sm text-gray-600">Amount</p>
+          <p className="text-2xl font-bold text-gray-800">{formatCurrency(amount)}</p>
+          <p className="text-xs text-gray-400 mt-1 break-all">{reference}</p>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={() => complete(false)}
+            disabled={submitting || !reference}
+            className="py-3 rounded-lg font-semibold border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Decline
+          </button>
+          <button
+            onClick={() => complete(true)}
+            disabled={submitting || !reference}
+            className="py-3 rounded-lg font-semibold bg-blue-500 text-white hover:bg-blue-600 disabled:bg-gray-300"
+          >
+            {submitting ? 'Processing...' : 'Approve'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function MockCheckoutPage() {
+  return (
+    <Suspense fallback={null}>
+      <MockCheckoutContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import React, { Suspense, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/formatUtils';
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_POLLS = 30;
+
+// Where the card provider sends the customer back; waits for the callback to land
+function CardReturnContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const reference = searchParams.get('reference');
+  const [status, setStatus] = useState<'pending' | 'success' | 'failed' | 'unknown'>('pending');
+  const [amount, setAmount] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!reference) {
+      setStatus('unknown');
+      return;
+    }
+
+    let polls = 0;
+    let timer: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+
+    const check = async () => {
+      polls++;
+      try {
+        const response = await fetch(`/api/payments/card?reference=${encodeURIComponent(reference)}`);
+        const result = await response.json();
+        if (cancelled) return;
+
+        if (response.ok && result.payment) {
+          setAmount(Number(result.payment.amount));
+          if (result.payment.status !== 'pending') {
+            setStatus(result.payment.status === 'success' ? 'success' : 'failed');
+            return;
+          }
+        }
+      } catch (error) {
+        console.error('Error checking card payment:', error);
+      }
+
+      if (polls >= MAX_POLLS) {
+        setStatus('unknown');
+      } else {
+        timer = setTimeout(check, POLL_INTERVAL_MS);
+      }
+    };
+
+    check();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [reference]);
+
+  useEffect(() => {
+    if (status === 'success') {
+      const timer = setTimeout(() => router.push('/tab'), 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [status, router]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 w-full max-w-sm text-center space-y-4">
+        {status === 'pending' && (
+          <>
+            <Loader2 size={40} className="mx-auto text-blue-500 animate-spin" />
+            <p className="font-semibold text-gray-800">Confirming your card payment...</p>
+          </>
+        )}
+        {status === 'success' && (
+          <>
+            <CheckCircle size={40} className="mx-auto text-green-500" />
+            <p className="font-semibold text-gray-800">Payment Successful!</p>
+            {amount !== null && <p className="text-sm text-gray-600">{formatCurrency(amount)} paid towards your tab</p>}
+          </>
+        )}
+        {(status === 'failed' || status === 'unknown') && (
+          <>
+            <AlertCircle size={40} className="mx-auto text-red-500" />
+            <p className="font-semibold text-gray-800">
+              {status === 'failed' ? 'Card payment failed' : 'We could not confirm your payment yet'}
+            </p>
+            <p className="text-sm text-gray-600">
+              {status === 'failed'
+                ? 'Your card was not charged. Please try again or pay at the bar.'
+                : 'If your card was charged, it will appear on your tab shortly.'}
+            </p>
+          </>
+        )}
+        {status !== 'pending' && (
+          <button
+            onClick={() => router.push(status === 'failed' ? '/payment' : '/tab')}
+            className="w-full bg-orange-500 text-white py-3 rounded-lg font-semibold hover:bg-orange-600"
+          >
+            {status === 'failed' ? 'Back to Payment' : 'Back to Tab'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function CardReturnPage() {
+  return (
+    <Suspense fallback={null}>
+      <CardReturnContent />
+    </Suspense>
+  );
+}
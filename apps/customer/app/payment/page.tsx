@@ -4,11 +4,14 @@ import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { ArrowLeft } from 'lucide-react';
 import { formatCurrency } from '@/lib/formatUtils';
-import PaymentTabs from '@/components/PaymentTabs';
+import PaymentTabs, { type PaymentTab } from '@/components/PaymentTabs';
 import CashPaymentTab from '@/components/CashPaymentTab';
 import MpesaPaymentTab from '@/components/MpesaPaymentTab';
+import CardPaymentTab from '@/components/CardPaymentTab';
+import SplitBillPanel from '@/components/SplitBillPanel';
 import { useToast } from '@/components/ui/Toast';
 import { supabase } from '@/lib/supabase';
+import { buildPaymentCharge, type TipSelection } from '@tabeza/shared/lib/services/gratuity';
 
 export default function PaymentPage() {
   const router = useRouter();
@@ -20,7 +23,7 @@ export default function PaymentPage() {
   const { showToast } = useToast();
 
   // Tab-based state structure with enhanced isolation
-  const [activeTab, setActiveTab] = useState<'cash' | 'mpesa'>('cash');
+  const [activeTab, setActiveTab] = useState<PaymentTab>('cash');
   const [cashPaymentState, setCashPaymentState] = useState({
     amount: '',
     isProcessing: false,
@@ -33,6 +36,12 @@ export default function PaymentPage() {
     hasUserInput: false, // Track if user has made changes
     phoneValidation: null as any
   });
+  const [cardPaymentState, setCardPaymentState] = useState({
+    amount: '',
+    hasUserInput: false
+  });
+  // Gratuity chosen by the customer (charged on top of the amount paid towards the tab)
+  const [tip, setTip] = useState<TipSelection>({ type: 'none' });
 
   useEffect(() => {
     const ordersData = sessionStorage.getItem('orders');
@@ -108,6 +117,8 @@ export default function PaymentPage() {
       // Set default payment method based on availability
       if (data.paymentMethods?.mpesa?.available) {
         setActiveTab('mpesa');
+      } else if (data.paymentMethods?.card?.available) {
+        setActiveTab('card');
       } else {
         setActiveTab('cash');
       }
@@ -140,18 +151,21 @@ export default function PaymentPage() {
       ...prev, 
       amount: prev.hasUserInput ? prev.amount : balanceString 
     }));
+    setCardPaymentState(prev => ({
+      ...prev,
+      amount: prev.hasUserInput ? prev.amount : balanceString
+    }));
   }, [balance]);
 
   // Handle tab switching with comprehensive state isolation
-  const handleTabChange = (tab: 'cash' | 'mpesa') => {
+  const handleTabChange = (tab: PaymentTab) => {
     // Don't switch if already on the same tab
     if (tab === activeTab) return;
     
     setActiveTab(tab);
     
     // Clear inactive tab state completely when switching
-    if (tab === 'cash') {
-      // Switching to cash - clear M-Pesa state completely
+    if (tab !== 'mpesa') {
       setMpesaPaymentState({
         amount: balance.toString(),
         phoneNumber: '',
@@ -159,14 +173,20 @@ export default function PaymentPage() {
         hasUserInput: false,
         phoneValidation: null
       });
-    } else {
-      // Switching to M-Pesa - clear cash state completely
+    }
+    if (tab !== 'cash') {
       setCashPaymentState({
         amount: balance.toString(),
         isProcessing: false,
         hasUserInput: false
       });
     }
+    if (tab !== 'card') {
+      setCardPaymentState({
+        amount: balance.toString(),
+        hasUserInput: false
+      });
+    }
   };
 
   // Cash payment handlers with state preservation
@@ -180,12 +200,24 @@ export default function PaymentPage() {
 
   const handleCashPayment = () => {
     setCashPaymentState(prev => ({ ...prev, isProcessing: true }));
-    
+
+    const cashAmount = parseFloat(cashPaymentState.amount) || 0;
+    let cashTotal = cashAmount;
+    try {
+      cashTotal = paymentSettings?.gratuity
+        ? buildPaymentCharge(cashAmount, tip, paymentSettings.gratuity).total
+        : cashAmount;
+    } catch (error) {
+      // Invalid tip: the selector already shows why, ask for the plain amount
+    }
+
     // Show success message for cash payment
     showToast({
       type: 'success',
       title: 'Payment Confirmed',
-      message: `Please pay ${formatCurrency(parseFloat(cashPaymentState.amount))} at the bar. Staff will update your tab.`,
+      message: cashTotal > cashAmount
+        ? `Please pay ${formatCurrency(cashTotal)} at the bar (${formatCurrency(cashAmount)} towards your tab plus tip/service charge). Staff will update your tab.`
+        : `Please pay ${formatCurrency(cashAmount)} at the bar. Staff will update your tab.`,
       duration: 8000
     });
     
@@ -237,6 +269,12 @@ export default function PaymentPage() {
     setMpesaPaymentState(prev => ({ ...prev, showMpesaPayment: false }));
   };
 
+  const activeAmount = activeTab === 'cash'
+    ? cashPaymentState.amount
+    : activeTab === 'card'
+    ? cardPaymentState.amount
+    : mpesaPaymentState.amount;
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -268,6 +306,11 @@ export default function PaymentPage() {
             activeTab={activeTab}
             onTabChange={handleTabChange}
             mpesaAvailable={paymentSettings?.paymentMethods?.mpesa?.available || false}
+            cardAvailable={paymentSettings?.paymentMethods?.card?.available || false}
+            gratuity={paymentSettings?.gratuity}
+            paymentAmount={parseFloat(activeAmount) || 0}
+            tip={tip}
+            onTipChange={setTip}
           >
             {activeTab === 'cash' ? (
               <CashPaymentTab
@@ -277,6 +320,19 @@ export default function PaymentPage() {
                 onPayment={handleCashPayment}
                 isProcessing={cashPaymentState.isProcessing}
               />
+            ) : activeTab === 'card' ? (
+              <CardPaymentTab
+                tabId={currentTab?.id}
+                amount={cardPaymentState.amount}
+                onAmountChange={(amount) => setCardPaymentState({ amount, hasUserInput: true })}
+                balance={balance}
+                tip={tip}
+                onPaymentError={(error) => showToast({
+                  type: 'error',
+                  title: 'Payment Failed',
+                  message: error
+                })}
+              />
             ) : (
               <MpesaPaymentTab
                 amount={mpesaPaymentState.amount}
@@ -284,6 +340,7 @@ export default function PaymentPage() {
                 balance={balance}
                 onPaymentSuccess={handleMpesaPaymentSuccess}
                 onPaymentError={handleMpesaPaymentError}
+                tip={tip}
                 phoneNumber={mpesaPaymentState.phoneNumber}
                 onPhoneNumberChange={(phoneNumber) => 
                   setMpesaPaymentState(prev => ({ ...prev, phoneNumber, hasUserInput: true }))
@@ -296,6 +353,15 @@ export default function PaymentPage() {
             )}
           </PaymentTabs>
         )}
+
+        {currentTab && !loadingSettings && (
+          <SplitBillPanel
+            tabId={currentTab.id}
+            balance={balance}
+            orders={orders}
+            mpesaAvailable={paymentSettings?.paymentMethods?.mpesa?.available || false}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { ArrowLeft, Receipt } from 'lucide-react';
+import type { TabReceipt } from '@tabeza/shared/lib/services/tab-receipts';
+import TabReceiptView from '@/components/TabReceiptView';
+import { useToast } from '@/components/ui/Toast';
+import { getDeviceId } from '@/lib/deviceId';
+import { rememberReceipt } from '@/lib/receiptHistory';
+
+export default function TabReceiptPage() {
+  const router = useRouter();
+  const params = useParams();
+  const tabId = params.tabId as string;
+  const { showToast } = useToast();
+  const [receipt, setReceipt] = useState<TabReceipt | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [downloading, setDownloading] = useState(false);
+  const [sharing, setSharing] = useState(false);
+
+  const loadReceipt = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/tabs/${tabId}/receipt`, {
+        headers: { 'X-Device-Id': getDeviceId() }
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load receipt');
+
+      const loaded: TabReceipt = result.receipt;
+      setReceipt(loaded);
+      if (loaded.status === 'closed') {
+        rememberReceipt({
+          tabId: loaded.tabId,
+          barName: loaded.bar.name,
+          tabNumber: loaded.tabNumber,
+          receiptNumber: loaded.receiptNumber,
+          total: loaded.total,
+          closedAt: loaded.closedAt
+        });
+      }
+    } catch (err) {
+      console.error('❌ Error loading receipt:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load receipt');
+    } finally {
+      setLoading(false);
+    }
+  }, [tabId]);
+
+  useEffect(() => {
+    loadReceipt();
+  }, [loadReceipt]);
+
+  // The PDF needs the device header, so it is fetched and saved from a blob
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const response = await fetch(`/api/tabs/${tabId}/receipt?format=pdf`, {
+        headers: { 'X-Device-Id': getDeviceId() }
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Failed to download receipt');
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'receipt.pdf';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Download Failed',
+        message: err instanceof Error ? err.message : 'Please try again'
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!receipt) return;
+
+    setSharing(true);
+    try {
+      const response = await fetch(`/api/tabs/${tabId}/receipt/share`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Device-Id': getDeviceId()
+        },
+        body: JSON.stringify({})
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to create share link');
+
+      const expires = new Date(result.expiresAt).toLocaleDateString('en-GB', { timeZone: 'Africa/Nairobi' });
+      if (navigator.share) {
+        await navigator.share({ title: `${receipt.bar.name} receipt`, url: result.url }).catch(() => {});
+      } else {
+        await navigator.clipboard.writeText(result.url);
+        showToast({
+          type: 'success',
+          title: 'Link Copied',
+          message: `Anyone with the link can view this receipt until ${expires}`
+        });
+      }
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Share Failed',
+        message: err instanceof Error ? err.message : 'Please try again'
+      });
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-gradient-to-r from-orange-500 to-red-600 text-white p-4 flex items-center gap-3">
+        <button
+          onClick={() => router.push('/receipts')}
+          className="p-2 bg-white bg-opacity-20 rounded-lg hover:bg-opacity-30"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <h1 className="text-lg font-bold">Receipt</h1>
+      </div>
+
+      <div className="p-4 max-w-md mx-auto">
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500 mx-auto mb-4"></div>
+            <p className="text-gray-500">Loading receipt...</p>
+          </div>
+        ) : error || !receipt ? (
+          <div className="bg-white rounded-2xl p-8 text-center text-gray-500">
+            <Receipt size={48} className="mx-auto mb-4 opacity-30" />
+            <p className="text-sm mb-4">{error || 'Receipt not found'}</p>
+            <button onClick={() => router.push('/')} className="text-orange-600 font-medium">
+              Back to start
+            </button>
+          </div>
+        ) : (
+          <>
+            {receipt.status === 'closed' && (
+              <p className="text-center text-sm text-gray-600 mb-3">Your tab is closed. Thank you!</p>
+            )}
+            <TabReceiptView
+              receipt={receipt}
+              onDownload={handleDownload}
+              onShare={handleShare}
+              downloading={downloading}
+              sharing={sharing}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, ChevronRight, Receipt } from 'lucide-react';
+import { formatCurrency } from '@/lib/formatUtils';
+import { getReceiptHistory, type ReceiptHistoryEntry } from '@/lib/receiptHistory';
+
+export default function ReceiptsPage() {
+  const router = useRouter();
+  const [history, setHistory] = useState<ReceiptHistoryEntry[]>([]);
+
+  useEffect(() => {
+    setHistory(getReceiptHistory());
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-gradient-to-r from-orange-500 to-red-600 text-white p-4 flex items-center gap-3">
+        <button
+          onClick={() => router.push('/')}
+          className="p-2 bg-white bg-opacity-20 rounded-lg hover:bg-opacity-30"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <h1 className="text-lg font-bold">My Receipts</h1>
+      </div>
+
+      <div className="p-4 max-w-md mx-auto space-y-3">
+        {history.length === 0 ? (
+          <div className="bg-white rounded-2xl p-8 text-center text-gray-500">
+            <Receipt size={48} className="mx-auto mb-4 opacity-30" />
+            <h3 className="text-lg font-semibold mb-2">No Receipts Yet</h3>
+            <p className="text-sm">Receipts for tabs you close on this device appear here.</p>
+          </div>
+        ) : (
+          history.map(entry => (
+            <button
+              key={entry.tabId}
+              onClick={() => router.push(`/receipts/${entry.tabId}`)}
+              className="w-full bg-white rounded-xl shadow-sm p-4 flex items-center justify-between text-left hover:bg-gray-50"
+            >
+              <div>
+                <p className="font-semibold text-gray-800">{entry.barName}</p>
+                <p className="text-xs text-gray-500">
+                  {entry.receiptNumber ? `Receipt #${entry.receiptNumber}` : `Tab #${entry.tabNumber}`}
+                  {entry.closedAt && ` · ${new Date(entry.closedAt).toLocaleDateString('en-GB', { timeZone: 'Africa/Nairobi' })}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-gray-800">{formatCurrency(entry.total)}</span>
+                <ChevronRight size={18} className="text-gray-400" />
+              </div>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
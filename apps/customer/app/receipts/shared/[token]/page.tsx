@@ -0,0 +1,61 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Receipt } from 'lucide-react';
+import type { TabReceipt } from '@tabeza/shared/lib/services/tab-receipts';
+import TabReceiptView from '@/components/TabReceiptView';
+
+// Opened from a signed share link; the token in the URL is the only credential
+export default function SharedReceiptPage() {
+  const params = useParams();
+  const token = params.token as string;
+  const [receipt, setReceipt] = useState<TabReceipt | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadReceipt = async () => {
+      try {
+        const response = await fetch(`/api/receipts/${token}`);
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load receipt');
+        setReceipt(result.receipt);
+      } catch (err) {
+        console.error('❌ Error loading shared receipt:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load receipt');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReceipt();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-gradient-to-r from-orange-500 to-red-600 text-white p-4">
+        <h1 className="text-lg font-bold text-center">Receipt</h1>
+      </div>
+
+      <div className="p-4 max-w-md mx-auto">
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500 mx-auto mb-4"></div>
+            <p className="text-gray-500">Loading receipt...</p>
+          </div>
+        ) : error || !receipt ? (
+          <div className="bg-white rounded-2xl p-8 text-center text-gray-500">
+            <Receipt size={48} className="mx-auto mb-4 opacity-30" />
+            <p className="text-sm">{error || 'Receipt not found'}</p>
+          </div>
+        ) : (
+          <TabReceiptView
+            receipt={receipt}
+            onDownload={() => { window.location.href = `/api/receipts/${token}?format=pdf`; }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -17,6 +17,16 @@ import { TokensService, TOKENS_CONFIG } from '../../../../packages/shared/tokens
 import { TokenNotifications, useTokenNotifications } from '../../components/TokenNotifications';
 import QrScanner from 'qr-scanner';
 import { BarClosedSlideIn } from '../../components/BarClosedSlideIn';
+import TabCreditPrompt, { fetchTabOrderBlock } from '../../components/TabCreditPrompt';
+import type { TabOrderBlock } from '@tabeza/shared/lib/services/tab-credit';
+import {
+  BUSINESS_HOURS_COLUMNS,
+  addDays,
+  getBusinessHoursStatus,
+  getWeeklyHours,
+  toKenyaDate,
+  type WeeklyHoursEntry
+} from '@tabeza/shared';
 import { playCustomerNotification, requestVibrationPermission, isVibrationSupported } from '@/lib/notifications';
 import { requestSystemPermissions, checkPermissions } from '@/lib/permissions';
 
@@ -47,6 +57,8 @@ function ConsentContent() {
   const [soundEnabled, setSoundEnabled] = useState(true);
   const [vibrationEnabled, setVibrationEnabled] = useState(true);
   const [creating, setCreating] = useState(false);
+  // Bars that take a deposit hold new tabs here until it is paid
+  const [depositPrompt, setDepositPrompt] = useState<{ tabId: string; block: TabOrderBlock } | null>(null);
   
   // QR Scanner states
   const [isScannerMode, setIsScannerMode] = useState(false);
@@ -60,11 +72,12 @@ function ConsentContent() {
   const [barClosedInfo, setBarClosedInfo] = useState<{
     barName: string;
     nextOpenTime: string;
-    businessHours?: any;
+    nextOpenAt?: string | null;
+    closureLabel?: string | null;
+    weeklyHours?: WeeklyHoursEntry[];
   }>({
     barName: '',
-    nextOpenTime: '',
-    businessHours: undefined
+    nextOpenTime: ''
   });
 
   // IMPROVED QR CODE EXTRACTION
@@ -280,7 +293,7 @@ function ConsentContent() {
       
       const { data: bar, error: barError } = await (supabase as any)
         .from('bars')
-        .select('id, name, active, location, slug, business_hours_mode, business_hours_simple, business_hours_advanced, business_24_hours')
+        .select(`id, name, active, location, slug, ${BUSINESS_HOURS_COLUMNS}`)
         .eq('slug', slug)
         .maybeSingle();
 
@@ -369,112 +382,28 @@ function ConsentContent() {
           return; // Don't show consent form and don't call setLoading(false)
         } else {
           // Check business hours only for new customers
-          const isWithinBusinessHours = (barData: any) => {
-            try {
-              // Handle 24 hours mode
-              if (barData.business_24_hours === true) {
-                return true;
-              }
-              
-              // If no business hours configured, always open
-              if (!barData.business_hours_mode) {
-                return true;
-              }
-              
-              const now = new Date();
-              const currentHour = now.getHours();
-              const currentMinute = now.getMinutes();
-              const currentTotalMinutes = currentHour * 60 + currentMinute;
-              
-              // Get current day of week (0 = Sunday, 1 = Monday, etc.)
-              const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-              const currentDay = dayNames[now.getDay()];
-              
-              if (barData.business_hours_mode === 'simple') {
-                // Simple mode: same hours every day
-                if (!barData.business_hours_simple) {
-                  return true;
-                }
-                
-                // Parse open time (format: "HH:MM")
-                const [openHour, openMinute] = barData.business_hours_simple.openTime.split(':').map(Number);
-                const openTotalMinutes = openHour * 60 + openMinute;
-                
-                // Parse close time
-                const [closeHour, closeMinute] = barData.business_hours_simple.closeTime.split(':').map(Number);
-                const closeTotalMinutes = closeHour * 60 + closeMinute;
-                
-                // Handle overnight hours (e.g., 20:00 to 04:00)
-                if (barData.business_hours_simple.closeNextDay || closeTotalMinutes < openTotalMinutes) {
-                  // Venue is open overnight: current time >= open OR current time <= close
-                  return currentTotalMinutes >= openTotalMinutes || currentTotalMinutes <= closeTotalMinutes;
-                } else {
-                  // Normal hours: current time between open and close
-                  return currentTotalMinutes >= openTotalMinutes && currentTotalMinutes <= closeTotalMinutes;
-                }
-                
-              } else if (barData.business_hours_mode === 'advanced') {
-                // Advanced mode: different hours per day
-                if (!barData.business_hours_advanced || !barData.business_hours_advanced[currentDay]) {
-                  return true; // Default to open if no hours for this day
-                }
-                
-                const dayHours = barData.business_hours_advanced[currentDay];
-                if (!dayHours.open || !dayHours.close) {
-                  return true; // Default to open if missing open/close times
-                }
-                
-                // Parse open time
-                const [openHour, openMinute] = dayHours.open.split(':').map(Number);
-                const openTotalMinutes = openHour * 60 + openMinute;
-                
-                // Parse close time
-                const [closeHour, closeMinute] = dayHours.close.split(':').map(Number);
-                const closeTotalMinutes = closeHour * 60 + closeMinute;
-                
-                // Handle overnight hours
-                if (dayHours.closeNextDay || closeTotalMinutes < openTotalMinutes) {
-                  // Venue is open overnight: current time >= open OR current time <= close
-                  return currentTotalMinutes >= openTotalMinutes || currentTotalMinutes <= closeTotalMinutes;
-                } else {
-                  // Normal hours: current time between open and close
-                  return currentTotalMinutes >= openTotalMinutes && currentTotalMinutes <= closeTotalMinutes;
-                }
-              }
-            } catch (error) {
-              console.error('Error checking business hours:', error);
-              return true; // Default to open on error
-            }
-          };
-
-          const isOpen = isWithinBusinessHours(bar);
-          
-          if (!isOpen) {
-            // Calculate next opening time
-            let nextOpenTime = 'tomorrow';
-            if (bar.business_hours_simple) {
-              const [openHour, openMinute] = bar.business_hours_simple.openTime.split(':').map(Number);
-              const now = new Date();
-              const currentHour = now.getHours();
-              
-              // Check if opening time is later today or tomorrow
-              if (currentHour < openHour) {
-                // Opens later today
-                nextOpenTime = `today at ${bar.business_hours_simple.openTime} am`;
-              } else {
-                // Opens tomorrow
-                const tomorrow = new Date();
-                tomorrow.setDate(tomorrow.getDate() + 1);
-                tomorrow.setHours(openHour, openMinute, 0, 0);
-                nextOpenTime = `tomorrow at ${bar.business_hours_simple.openTime} am`;
-              }
+          const hoursStatus = getBusinessHoursStatus(bar);
+
+          if (!hoursStatus.isOpen) {
+            // Describe the next opening from the shared evaluator
+            let nextOpenTime = 'soon';
+            if (hoursStatus.next) {
+              const today = toKenyaDate(new Date());
+              const dayLabel = hoursStatus.next.date === today
+                ? 'today'
+                : hoursStatus.next.date === addDays(today, 1)
+                  ? 'tomorrow'
+                  : hoursStatus.next.start.toLocaleDateString('en-KE', { weekday: 'long', timeZone: 'Africa/Nairobi' });
+              nextOpenTime = `${dayLabel} at ${hoursStatus.next.openTime}`;
             }
 
             // Show bar closed page instead of consent form
             setBarClosedInfo({
               barName: bar.name || 'Bar',
               nextOpenTime,
-              businessHours: bar.business_hours_advanced || undefined
+              nextOpenAt: hoursStatus.next?.start.toISOString() || null,
+              closureLabel: hoursStatus.closure?.label || null,
+              weeklyHours: getWeeklyHours(bar)
             });
             setShowBarClosed(true);
             setLoading(false);
@@ -617,6 +546,18 @@ function ConsentContent() {
           message: `Welcome to ${barName}, ${finalDisplayName}!`
         });
       }
+
+      // Ask for the bar's deposit before the customer reaches the menu
+      try {
+        const block = await fetchTabOrderBlock(tab.id, 0);
+        if (block?.reason === 'deposit_required') {
+          setDepositPrompt({ tabId: tab.id, block });
+          return;
+        }
+      } catch (error) {
+        // Orders are still checked when placed, so carry on to the menu
+        console.warn('Deposit check failed:', error);
+      }
       
       setTimeout(() => {
         router.replace('/menu');
@@ -764,7 +705,9 @@ function ConsentContent() {
           }}
           barName={barClosedInfo.barName}
           nextOpenTime={barClosedInfo.nextOpenTime}
-          businessHours={barClosedInfo.businessHours}
+          nextOpenAt={barClosedInfo.nextOpenAt}
+          closureLabel={barClosedInfo.closureLabel}
+          weeklyHours={barClosedInfo.weeklyHours}
         />
       </div>
     );
@@ -773,6 +716,13 @@ function ConsentContent() {
   // Main consent form
   return (
     <>
+      {depositPrompt && (
+        <TabCreditPrompt
+          tabId={depositPrompt.tabId}
+          block={depositPrompt.block}
+          onCleared={() => router.replace('/menu')}
+        />
+      )}
       <div className="min-h-screen bg-gradient-to-br from-orange-500 to-red-600 flex items-center justify-center p-4 relative">
         {/* Back arrow button */}
         <button
@@ -2,19 +2,18 @@
 
 import React, { useEffect, useState } from 'react';
 import { X, Clock, Calendar, Store } from 'lucide-react';
+import { DAY_NAMES, toKenyaDate, type WeeklyHoursEntry } from '@tabeza/shared';
 
 interface BarClosedSlideInProps {
   isOpen: boolean;
   onClose: () => void;
   barName: string;
   nextOpenTime: string;
-  businessHours?: {
-    [key: string]: {
-      open: string;
-      close: string;
-      closeNextDay?: boolean;
-    };
-  };
+  /** ISO time of the next opening, from the shared business-hours evaluator */
+  nextOpenAt?: string | null;
+  /** Why the bar is closed today (e.g. a holiday closure label) */
+  closureLabel?: string | null;
+  weeklyHours?: WeeklyHoursEntry[];
 }
 
 export const BarClosedSlideIn: React.FC<BarClosedSlideInProps> = ({
@@ -22,7 +21,9 @@ export const BarClosedSlideIn: React.FC<BarClosedSlideInProps> = ({
   onClose,
   barName,
   nextOpenTime,
-  businessHours
+  nextOpenAt,
+  closureLabel,
+  weeklyHours
 }) => {
   const [isVisible, setIsVisible] = useState(false);
   const [countdown, setCountdown] = useState<{
@@ -50,93 +51,23 @@ export const BarClosedSlideIn: React.FC<BarClosedSlideInProps> = ({
 
   // Calculate countdown to next opening time
   useEffect(() => {
-    if (!isOpen) return;
+    if (!isOpen || !nextOpenAt) return;
+
+    const nextOpeningTime = new Date(nextOpenAt);
 
     const calculateCountdown = () => {
       const now = new Date();
-      const today = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
-      
-      // Try to get business hours for today
-      let nextOpeningTime: Date | null = null;
-      let isToday = true;
-      
-      if (businessHours) {
-        const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-        
-        // Check if bar opens later today
-        const todayHours = businessHours[dayNames[today]];
-        if (todayHours && todayHours.open) {
-          const [openHour, openMinute] = todayHours.open.split(':').map(Number);
-          const todayOpening = new Date();
-          todayOpening.setHours(openHour, openMinute, 0, 0);
-          
-          if (todayOpening > now) {
-            nextOpeningTime = todayOpening;
-            isToday = true;
-          }
-        }
-        
-        // If not opening today, find next opening day
-        if (!nextOpeningTime) {
-          for (let i = 1; i <= 7; i++) {
-            const nextDay = (today + i) % 7;
-            const nextDayHours = businessHours[dayNames[nextDay]];
-            
-            if (nextDayHours && nextDayHours.open) {
-              const [openHour, openMinute] = nextDayHours.open.split(':').map(Number);
-              const nextOpening = new Date();
-              nextOpening.setDate(now.getDate() + i);
-              nextOpening.setHours(openHour, openMinute, 0, 0);
-              
-              nextOpeningTime = nextOpening;
-              isToday = false;
-              break;
-            }
-          }
-        }
-      }
-      
-      // Fallback to simple parsing if no business hours
-      if (!nextOpeningTime && nextOpenTime.includes('at')) {
-        const timeMatch = nextOpenTime.match(/(\d{1,2}):(\d{2})\s*(am|pm)?/i);
-        if (timeMatch) {
-          let [_, hourStr, minuteStr, period] = timeMatch;
-          let hour = parseInt(hourStr);
-          const minute = parseInt(minuteStr);
-          
-          // Convert to 24-hour format
-          if (period?.toLowerCase() === 'pm' && hour < 12) hour += 12;
-          if (period?.toLowerCase() === 'am' && hour === 12) hour = 0;
-          
-          const targetDate = new Date();
-          targetDate.setHours(hour, minute, 0, 0);
-          
-          // If time has passed, assume tomorrow
-          if (targetDate <= now) {
-            targetDate.setDate(targetDate.getDate() + 1);
-            isToday = false;
-          }
-          
-          nextOpeningTime = targetDate;
-        }
-      }
-      
-      if (!nextOpeningTime) {
-        // Default fallback - assume 8 hours from now
-        nextOpeningTime = new Date(now.getTime() + 8 * 60 * 60 * 1000);
-        isToday = false;
-      }
-      
+      const isToday = toKenyaDate(nextOpeningTime) === toKenyaDate(now);
       const diff = nextOpeningTime.getTime() - now.getTime();
-      
+
       if (diff <= 0) {
         return { hours: 0, minutes: 0, seconds: 0, isToday: true };
       }
-      
+
       const hours = Math.floor(diff / (1000 * 60 * 60));
       const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
       const seconds = Math.floor((diff % (1000 * 60)) / 1000);
-      
+
       return { hours, minutes, seconds, isToday };
     };
 
@@ -149,7 +80,7 @@ export const BarClosedSlideIn: React.FC<BarClosedSlideInProps> = ({
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [isOpen, nextOpenTime, businessHours]);
+  }, [isOpen, nextOpenAt]);
 
   const handleClose = () => {
     setIsVisible(false);
@@ -175,34 +106,34 @@ export const BarClosedSlideIn: React.FC<BarClosedSlideInProps> = ({
   };
 
   const formatBusinessHours = () => {
-    if (!businessHours) return null;
+    if (!weeklyHours || weeklyHours.length === 0) return null;
+
+    const today = DAY_NAMES[new Date(`${toKenyaDate(new Date())}T00:00:00Z`).getUTCDay()];
 
-    const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    const today = new Date().getDay();
-    
     return (
       <div className="space-y-2">
         <h4 className="font-semibold text-gray-800 mb-3">Business Hours</h4>
         <div className="space-y-2">
-          {dayNames.map((day, index) => {
-            const dayKey = day.toLowerCase();
-            const hours = businessHours[dayKey];
-            
-            if (!hours || !hours.open || !hours.close) return null;
-            
-            const isToday = index === today;
-            
+          {weeklyHours.map(hours => {
+            const isToday = hours.day === today;
+
             return (
-              <div 
-                key={day} 
+              <div
+                key={hours.day}
                 className={`flex justify-between items-center py-1 px-2 rounded ${
                   isToday ? 'bg-orange-50 font-semibold text-orange-700' : 'text-gray-600'
                 }`}
               >
-                <span className="text-sm">{day}</span>
+                <span className="text-sm">{hours.label}</span>
                 <span className="text-sm">
-                  {hours.open} - {hours.close}
-                  {hours.closeNextDay && ' (next day)'}
+                  {hours.open ? (
+                    <>
+                      {hours.openTime} - {hours.closeTime}
+                      {hours.closesNextDay && ' (next day)'}
+                    </>
+                  ) : (
+                    'Closed'
+                  )}
                 </span>
               </div>
             );
@@ -253,27 +184,31 @@ export const BarClosedSlideIn: React.FC<BarClosedSlideInProps> = ({
             <h2 className="text-2xl font-bold text-gray-800 mb-2">{barName}</h2>
             <div className="inline-flex items-center gap-2 px-4 py-2 bg-red-50 rounded-full">
               <Clock size={16} className="text-red-600" />
-              <span className="text-red-600 font-semibold">Currently Closed</span>
+              <span className="text-red-600 font-semibold">
+                {closureLabel ? `Closed for ${closureLabel}` : 'Currently Closed'}
+              </span>
             </div>
           </div>
           
           {/* Countdown Timer */}
-          <div className="text-center mb-6">
-            <p className="text-gray-700 mb-3">
-              {countdown.isToday ? 'Opens later today' : 'Opens next time in'}:
-            </p>
-            <div className="bg-gradient-to-r from-orange-500 to-red-600 text-white rounded-2xl p-4 shadow-lg">
-              <div className="text-3xl font-bold mb-1">
-                {formatCountdown()}
-              </div>
-              <div className="text-sm opacity-90">
-                {countdown.isToday ? 'Later today' : nextOpenTime}
+          {nextOpenAt && (
+            <div className="text-center mb-6">
+              <p className="text-gray-700 mb-3">
+                {countdown.isToday ? 'Opens later today' : 'Opens next time in'}:
+              </p>
+              <div className="bg-gradient-to-r from-orange-500 to-red-600 text-white rounded-2xl p-4 shadow-lg">
+                <div className="text-3xl font-bold mb-1">
+                  {formatCountdown()}
+                </div>
+                <div className="text-sm opacity-90">
+                  {countdown.isToday ? 'Later today' : nextOpenTime}
+                </div>
               </div>
             </div>
-          </div>
+          )}
           
           {/* Business hours (if available) */}
-          {businessHours && (
+          {weeklyHours && weeklyHours.length > 0 && (
             <div className="bg-gray-50 rounded-xl p-4 mb-6">
               {formatBusinessHours()}
             </div>
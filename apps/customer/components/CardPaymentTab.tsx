@@ -0,0 +1,93 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CreditCard, Info } from 'lucide-react';
+import { formatCurrency } from '@/lib/formatUtils';
+import type { TipSelection } from '@tabeza/shared/lib/services/gratuity';
+
+interface CardPaymentTabProps {
+  tabId: string;
+  amount: string;
+  onAmountChange: (amount: string) => void;
+  balance: number;
+  tip?: TipSelection;
+  onPaymentError: (error: string) => void;
+}
+
+export default function CardPaymentTab({
+  tabId,
+  amount,
+  onAmountChange,
+  balance,
+  tip,
+  onPaymentError
+}: CardPaymentTabProps) {
+  const [isRedirecting, setIsRedirecting] = useState(false);
+  const isValidAmount = amount && parseFloat(amount) > 0 && parseFloat(amount) <= balance;
+
+  const handleCardPayment = async () => {
+    setIsRedirecting(true);
+    try {
+      const response = await fetch('/api/payments/card', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tabId, amount: parseFloat(amount), tip })
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Card payment could not be started');
+      }
+
+      // Hand over to the provider's hosted checkout page
+      window.location.href = result.checkoutUrl;
+    } catch (error) {
+      setIsRedirecting(false);
+      onPaymentError(error instanceof Error ? error.message : 'Card payment could not be started');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Amount Input Section */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-2">
+          Amount to Pay
+        </label>
+        <div className="relative">
+          <span className="absolute left-4 top-4 text-gray-500 font-semibold">KSh</span>
+          <input
+            type="number"
+            value={amount}
+            onChange={(e) => onAmountChange(e.target.value)}
+            disabled={isRedirecting}
+            className="w-full pl-16 pr-4 py-4 border-2 border-gray-200 rounded-xl font-bold text-lg focus:border-blue-500 focus:outline-none disabled:bg-gray-100 disabled:cursor-not-allowed"
+            placeholder="0"
+            min="1"
+            max={balance}
+          />
+        </div>
+      </div>
+
+      <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 flex items-start gap-3">
+        <Info size={18} className="text-blue-600 mt-0.5 flex-shrink-0" />
+        <p className="text-sm text-blue-800">
+          You will be taken to a secure card payment page. Your card details are never shared with the bar.
+        </p>
+      </div>
+
+      {amount && parseFloat(amount) > balance && (
+        <p className="text-sm text-red-600">Amount cannot be more than your balance of {formatCurrency(balance)}</p>
+      )}
+
+      <button
+        onClick={handleCardPayment}
+        disabled={!isValidAmount || isRedirecting}
+        className="w-full bg-blue-500 text-white py-4 rounded-xl font-semibold hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
+      >
+        <CreditCard size={20} />
+        {isRedirecting ? 'Opening secure checkout...' : 'Pay with Card'}
+      </button>
+    </div>
+  );
+}
@@ -10,7 +10,8 @@ import {
   getPhoneNumberGuidance,
   getNetworkProvider,
   sanitizePhoneNumber,
-  convertToInternationalFormat
+  convertToInternationalFormat,
+  type TipSelection
 } from '@tabeza/shared';
 import { validatePaymentContext, logPaymentDebugInfo } from '@/lib/payment-debug';
 import { useRealtimeSubscription } from '@tabeza/shared/hooks/useRealtimeSubscription';
@@ -20,6 +21,7 @@ interface MpesaPaymentProps {
   onPaymentSuccess: (receiptNumber: string) => void;
   onPaymentError: (error: string) => void;
   maxAmount?: number; // Optional maximum amount (outstanding balance)
+  tip?: TipSelection; // Optional gratuity charged on top of the amount
 }
 
 interface PaymentStatus {
@@ -38,7 +40,8 @@ export default function MpesaPayment({
   amount, 
   onPaymentSuccess, 
   onPaymentError,
-  maxAmount
+  maxAmount,
+  tip
 }: MpesaPaymentProps) {
   const [phoneNumber, setPhoneNumber] = useState('');
   const [previousPhoneNumber, setPreviousPhoneNumber] = useState('');
@@ -284,7 +287,8 @@ export default function MpesaPayment({
         body: JSON.stringify({
           tabId: identifierResult.tabId,
           phoneNumber: internationalPhone,
-          amount
+          amount,
+          tip
         }),
       });
 
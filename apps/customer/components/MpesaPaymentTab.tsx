@@ -8,7 +8,8 @@ import {
   validateKenyanPhoneNumber, 
   formatPhoneNumberInput, 
   getPhoneNumberGuidance,
-  getNetworkProvider
+  getNetworkProvider,
+  type TipSelection
 } from '@tabeza/shared';
 
 interface MpesaPaymentTabProps {
@@ -17,6 +18,8 @@ interface MpesaPaymentTabProps {
   balance: number;
   onPaymentSuccess: (receiptNumber: string) => void;
   onPaymentError: (error: string) => void;
+  /** Tip chosen in PaymentTabs, charged on top of the amount */
+  tip?: TipSelection;
   // Enhanced state management props
   phoneNumber?: string;
   onPhoneNumberChange?: (phoneNumber: string) => void;
@@ -30,6 +33,7 @@ export default function MpesaPaymentTab({
   balance, 
   onPaymentSuccess,
   onPaymentError,
+  tip,
   // Enhanced state management props with defaults
   phoneNumber: externalPhoneNumber,
   onPhoneNumberChange,
@@ -183,6 +187,7 @@ export default function MpesaPaymentTab({
         <MpesaPayment
           amount={parseFloat(amount) || balance}
           maxAmount={balance}
+          tip={tip}
           onPaymentSuccess={onPaymentSuccess}
           onPaymentError={(error) => {
             onPaymentError(error);
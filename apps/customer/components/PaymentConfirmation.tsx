@@ -26,6 +26,8 @@ export interface PaymentConfirmationProps {
   onDismiss?: () => void;
   onRetry?: () => void;
   onRefresh?: () => void;
+  /** Opens the tab's full itemized receipt */
+  onViewReceipt?: () => void;
   autoCloseDetected?: boolean;
   showProgressIndicator?: boolean;
   progressMessage?: string;
@@ -39,6 +41,7 @@ const PaymentConfirmation: React.FC<PaymentConfirmationProps> = ({
   onDismiss,
   onRetry,
   onRefresh,
+  onViewReceipt,
   autoCloseDetected = false,
   showProgressIndicator = false,
   progressMessage
@@ -401,6 +404,15 @@ const PaymentConfirmation: React.FC<PaymentConfirmationProps> = ({
           <div className="text-xs opacity-75">
             {formatTimestamp(payment.timestamp)}
           </div>
+
+          {type === 'success' && onViewReceipt && (
+            <button
+              onClick={onViewReceipt}
+              className="text-xs font-medium text-green-700 underline mt-2"
+            >
+              View full receipt
+            </button>
+          )}
         </div>
         
         {/* Enhanced Action Buttons Section */}
@@ -1,21 +1,148 @@
 'use client';
 
-import React from 'react';
-import { Phone, Banknote } from 'lucide-react';
+import React, { useState } from 'react';
+import { Phone, Banknote, CreditCard } from 'lucide-react';
+import { formatCurrency } from '@/lib/formatUtils';
+import {
+  buildPaymentCharge,
+  type GratuitySettings,
+  type TipSelection
+} from '@tabeza/shared/lib/services/gratuity';
+
+export type PaymentTab = 'cash' | 'mpesa' | 'card';
 
 interface PaymentTabsProps {
-  activeTab: 'cash' | 'mpesa';
-  onTabChange: (tab: 'cash' | 'mpesa') => void;
+  activeTab: PaymentTab;
+  onTabChange: (tab: PaymentTab) => void;
   mpesaAvailable: boolean;
+  cardAvailable?: boolean;
   children: React.ReactNode;
+  // Optional gratuity: shown when the bar accepts tips or adds a service charge
+  gratuity?: GratuitySettings;
+  paymentAmount?: number;
+  tip?: TipSelection;
+  onTipChange?: (tip: TipSelection) => void;
+}
+
+interface TipSelectorProps {
+  gratuity: GratuitySettings;
+  paymentAmount: number;
+  tip: TipSelection;
+  onTipChange: (tip: TipSelection) => void;
+}
+
+function TipSelector({ gratuity, paymentAmount, tip, onTipChange }: TipSelectorProps) {
+  const [customAmount, setCustomAmount] = useState(tip.type === 'custom' ? tip.amount.toString() : '');
+
+  let charge = null;
+  let tipError: string | null = null;
+  try {
+    charge = buildPaymentCharge(paymentAmount, tip, gratuity);
+  } catch (error) {
+    tipError = error instanceof Error ? error.message : 'Invalid tip';
+  }
+
+  const optionClass = (selected: boolean) =>
+    `py-2 rounded-lg text-sm font-semibold border transition-colors ${
+      selected
+        ? 'bg-orange-500 text-white border-orange-500'
+        : 'bg-white text-gray-700 border-gray-200 hover:border-orange-300'
+    }`;
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200 space-y-3">
+      {gratuity.tipsEnabled && (
+        <div>
+          <p className="text-sm font-semibold text-gray-700 mb-2">Add a tip?</p>
+          <div className="grid grid-cols-5 gap-2">
+            <button
+              type="button"
+              onClick={() => onTipChange({ type: 'none' })}
+              className={optionClass(tip.type === 'none')}
+            >
+              No tip
+            </button>
+            {gratuity.tipPresets.map(percent => (
+              <button
+                key={percent}
+                type="button"
+                onClick={() => onTipChange({ type: 'percent', percent })}
+                className={optionClass(tip.type === 'percent' && tip.percent === percent)}
+              >
+                {percent}%
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => onTipChange({ type: 'custom', amount: parseFloat(customAmount) || 0 })}
+              className={optionClass(tip.type === 'custom')}
+            >
+              Other
+            </button>
+          </div>
+
+          {tip.type === 'custom' && (
+            <input
+              type="number"
+              min="0"
+              step="1"
+              inputMode="numeric"
+              value={customAmount}
+              onChange={(e) => {
+                setCustomAmount(e.target.value);
+                onTipChange({ type: 'custom', amount: parseFloat(e.target.value) || 0 });
+              }}
+              placeholder="Tip amount (KSh)"
+              className="mt-2 w-full px-4 py-2 border border-gray-300 rounded-lg focus:border-orange-500 focus:outline-none"
+            />
+          )}
+
+          {tipError && <p className="mt-2 text-xs text-red-600">{tipError}</p>}
+        </div>
+      )}
+
+      {charge && (charge.tipAmount > 0 || charge.serviceChargeAmount > 0) && (
+        <div className="bg-gray-50 rounded-lg p-3 text-sm space-y-1">
+          <div className="flex justify-between text-gray-600">
+            <span>Towards your tab</span>
+            <span>{formatCurrency(charge.amount)}</span>
+          </div>
+          {charge.serviceChargeAmount > 0 && (
+            <div className="flex justify-between text-gray-600">
+              <span>Service charge ({gratuity.serviceChargePercent}%)</span>
+              <span>{formatCurrency(charge.serviceChargeAmount)}</span>
+            </div>
+          )}
+          {charge.tipAmount > 0 && (
+            <div className="flex justify-between text-gray-600">
+              <span>Tip</span>
+              <span>{formatCurrency(charge.tipAmount)}</span>
+            </div>
+          )}
+          <div className="flex justify-between font-bold text-gray-800 pt-1 border-t border-gray-200">
+            <span>Total to pay</span>
+            <span>{formatCurrency(charge.total)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
 }
 
-export default function PaymentTabs({ 
-  activeTab, 
-  onTabChange, 
-  mpesaAvailable, 
-  children 
+export default function PaymentTabs({
+  activeTab,
+  onTabChange,
+  mpesaAvailable,
+  cardAvailable = false,
+  children,
+  gratuity,
+  paymentAmount = 0,
+  tip = { type: 'none' },
+  onTipChange
 }: PaymentTabsProps) {
+  const showTipSelector = !!gratuity && !!onTipChange && paymentAmount > 0 &&
+    (gratuity.tipsEnabled || gratuity.serviceChargePercent > 0);
+
   return (
     <div className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
       {/* Tab Headers */}
@@ -47,12 +174,37 @@ export default function PaymentTabs({
             <span>M-Pesa Payment</span>
           </button>
         )}
+
+        {/* Card Payment Tab - Only show if available */}
+        {cardAvailable && (
+          <button
+            onClick={() => onTabChange('card')}
+            className={`flex-1 flex items-center justify-center gap-2 py-4 px-6 font-semibold transition-colors ${
+              activeTab === 'card'
+                ? 'bg-blue-50 text-blue-600 border-b-2 border-blue-500'
+                : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+            }`}
+          >
+            <CreditCard size={20} />
+            <span>Card Payment</span>
+          </button>
+        )}
       </div>
 
       {/* Tab Content */}
       <div className="p-6">
         {children}
+
+        {/* Tip / service charge */}
+        {showTipSelector && (
+          <TipSelector
+            gratuity={gratuity!}
+            paymentAmount={paymentAmount}
+            tip={tip}
+            onTipChange={onTipChange!}
+          />
+        )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
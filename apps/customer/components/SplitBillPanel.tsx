@@ -0,0 +1,367 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Users, Phone, CheckCircle, Clock, X, Plus, Minus } from 'lucide-react';
+import { formatCurrency } from '@/lib/formatUtils';
+import { getDeviceId } from '@/lib/deviceId';
+import { useToast } from '@/components/ui/Toast';
+import type { TabSplit, TabSplitShare, SplitMode } from '@tabeza/shared/lib/services/tab-split';
+
+interface SplitBillPanelProps {
+  tabId: string;
+  balance: number;
+  orders: any[];
+  mpesaAvailable: boolean;
+}
+
+// Share progress is written by the payment callback; poll while prompts are out
+const POLL_INTERVAL_MS = 5000;
+
+function orderLines(orders: any[]) {
+  return orders
+    .filter(order => order.status === 'confirmed' || order.status === 'served')
+    .flatMap(order => {
+      let items: any[] = [];
+      try {
+        items = typeof order.items === 'string' ? JSON.parse(order.items) : order.items || [];
+      } catch (e) {
+        items = [];
+      }
+      return items.map((item: any, itemIndex: number) => ({
+        key: `${order.id}:${itemIndex}`,
+        orderId: order.id,
+        itemIndex,
+        name: `${item.quantity}x ${item.name}`,
+        total: Number(item.total ?? item.price * item.quantity) || 0
+      }));
+    });
+}
+
+export default function SplitBillPanel({ tabId, balance, orders, mpesaAvailable }: SplitBillPanelProps) {
+  const { showToast } = useToast();
+  const [split, setSplit] = useState<TabSplit | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [setupOpen, setSetupOpen] = useState(false);
+  const [mode, setMode] = useState<SplitMode>('equal');
+  const [people, setPeople] = useState(2);
+  const [customAmounts, setCustomAmounts] = useState<string[]>(['', '']);
+  const [itemOwners, setItemOwners] = useState<Record<string, number>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [phones, setPhones] = useState<Record<string, string>>({});
+  const [sendingShare, setSendingShare] = useState<string | null>(null);
+
+  const lines = orderLines(orders);
+
+  const request = useCallback(async (method: 'GET' | 'POST' | 'DELETE', body?: any) => {
+    const response = await fetch(`/api/tabs/${tabId}/split`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Device-Id': getDeviceId()
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || 'Split request failed');
+    return result;
+  }, [tabId]);
+
+  const loadSplit = useCallback(async () => {
+    try {
+      const result = await request('GET');
+      setSplit(result.split);
+    } catch (error) {
+      console.error('Error loading split:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [request]);
+
+  useEffect(() => {
+    loadSplit();
+  }, [loadSplit]);
+
+  useEffect(() => {
+    if (split?.status !== 'active') return;
+    const interval = setInterval(loadSplit, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [split?.status, loadSplit]);
+
+  const changePeople = (count: number) => {
+    const next = Math.min(Math.max(count, 2), 20);
+    setPeople(next);
+    setCustomAmounts(prev => Array.from({ length: next }, (_, i) => prev[i] || ''));
+    setItemOwners(prev => Object.fromEntries(Object.entries(prev).filter(([, owner]) => owner < next)));
+  };
+
+  const buildRequest = () => {
+    const labels = Array.from({ length: people }, (_, i) => `Person ${i + 1}`);
+    if (mode === 'equal') {
+      return { mode, count: people, labels };
+    }
+    if (mode === 'custom') {
+      return {
+        mode,
+        shares: customAmounts.map((amount, i) => ({ label: labels[i], amount: parseFloat(amount) || 0 }))
+      };
+    }
+    return {
+      mode,
+      shares: labels.map((label, person) => ({
+        label,
+        items: lines
+          .filter(line => itemOwners[line.key] === person)
+          .map(line => ({ orderId: line.orderId, itemIndex: line.itemIndex }))
+      }))
+    };
+  };
+
+  const startSplit = async () => {
+    setSubmitting(true);
+    try {
+      const result = await request('POST', buildRequest());
+      setSplit(result.split);
+      setSetupOpen(false);
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: 'Could Not Split Bill',
+        message: error instanceof Error ? error.message : 'Please try again'
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const cancelSplit = async () => {
+    try {
+      await request('DELETE');
+      setSplit(null);
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: 'Could Not Cancel Split',
+        message: error instanceof Error ? error.message : 'Please try again'
+      });
+    }
+  };
+
+  const payShare = async (share: TabSplitShare) => {
+    const phoneNumber = phones[share.id] ?? share.phone_number ?? '';
+    if (!phoneNumber.trim()) {
+      showToast({ type: 'error', title: 'Phone Required', message: `Enter ${share.label}'s M-Pesa number` });
+      return;
+    }
+
+    setSendingShare(share.id);
+    try {
+      const response = await fetch('/api/payments/mpesa', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tabId, phoneNumber, splitShareId: share.id })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.error || 'Failed to send M-Pesa prompt');
+
+      showToast({
+        type: 'info',
+        title: 'Check Your Phone',
+        message: `M-Pesa prompt sent to ${share.label}`
+      });
+      await loadSplit();
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: 'Payment Failed',
+        message: error instanceof Error ? error.message : 'Please try again'
+      });
+    } finally {
+      setSendingShare(null);
+    }
+  };
+
+  if (loading || (!split && balance <= 0)) {
+    return null;
+  }
+
+  if (split) {
+    const progress = split.total_amount > 0 ? Math.round((split.paid_amount / split.total_amount) * 100) : 0;
+
+    return (
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Users size={20} className="text-orange-500" />
+            <h2 className="font-bold text-gray-800">Split Bill</h2>
+          </div>
+          {split.status === 'active' && (
+            <button onClick={cancelSplit} className="text-sm text-gray-500 hover:text-red-600">
+              Cancel split
+            </button>
+          )}
+        </div>
+
+        <div>
+          <div className="flex justify-between text-sm text-gray-600 mb-1">
+            <span>{formatCurrency(split.paid_amount)} paid</span>
+            <span>{formatCurrency(split.remaining_amount)} left</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-green-500 transition-all" style={{ width: `${progress}%` }} />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {split.shares.map(share => (
+            <div key={share.id} className="border border-gray-200 rounded-xl p-3">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-medium text-gray-800">{share.label}</span>
+                <div className="flex items-center gap-2">
+                  <span className="font-bold text-gray-800">{formatCurrency(share.amount)}</span>
+                  {share.status === 'paid' && <CheckCircle size={18} className="text-green-500" />}
+                  {share.status === 'pending' && <Clock size={18} className="text-yellow-500" />}
+                </div>
+              </div>
+
+              {share.status !== 'paid' && split.status === 'active' && mpesaAvailable && (
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <Phone size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                    <input
+                      type="tel"
+                      value={phones[share.id] ?? share.phone_number ?? ''}
+                      onChange={(e) => setPhones(prev => ({ ...prev, [share.id]: e.target.value }))}
+                      placeholder="0712 345 678"
+                      className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:border-green-500 focus:outline-none"
+                    />
+                  </div>
+                  <button
+                    onClick={() => payShare(share)}
+                    disabled={sendingShare === share.id}
+                    className="px-3 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 disabled:bg-gray-300"
+                  >
+                    {sendingShare === share.id ? 'Sending...' : share.status === 'pending' ? 'Resend' : 'Pay'}
+                  </button>
+                </div>
+              )}
+              {share.status === 'pending' && (
+                <p className="text-xs text-yellow-700 mt-2">Waiting for M-Pesa confirmation...</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {split.status === 'completed' && (
+          <p className="text-sm text-green-700 font-medium text-center">Everyone has paid. Thank you!</p>
+        )}
+      </div>
+    );
+  }
+
+  if (!setupOpen) {
+    return (
+      <button
+        onClick={() => setSetupOpen(true)}
+        className="w-full flex items-center justify-center gap-2 bg-white border border-gray-200 rounded-2xl py-4 font-semibold text-gray-700 hover:bg-gray-50 shadow-sm"
+      >
+        <Users size={20} />
+        Split the bill
+      </button>
+    );
+  }
+
+  const modes: Array<{ value: SplitMode; label: string }> = [
+    { value: 'equal', label: 'Equally' },
+    { value: 'items', label: 'By item' },
+    { value: 'custom', label: 'Custom' }
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-bold text-gray-800">Split {formatCurrency(balance)}</h2>
+        <button onClick={() => setSetupOpen(false)} className="p-1 hover:bg-gray-100 rounded-lg">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="flex bg-gray-100 rounded-lg p-1">
+        {modes.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setMode(option.value)}
+            className={`flex-1 py-2 rounded-md text-sm font-medium ${
+              mode === option.value ? 'bg-white shadow text-orange-600' : 'text-gray-600'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-600">People</span>
+        <div className="flex items-center gap-3">
+          <button onClick={() => changePeople(people - 1)} className="p-1 border rounded-lg"><Minus size={16} /></button>
+          <span className="font-bold w-6 text-center">{people}</span>
+          <button onClick={() => changePeople(people + 1)} className="p-1 border rounded-lg"><Plus size={16} /></button>
+        </div>
+      </div>
+
+      {mode === 'equal' && (
+        <p className="text-sm text-gray-600">
+          About {formatCurrency(balance / people)} each
+        </p>
+      )}
+
+      {mode === 'custom' && (
+        <div className="space-y-2">
+          {customAmounts.map((amount, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className="text-sm text-gray-600 w-20">Person {i + 1}</span>
+              <input
+                type="number"
+                value={amount}
+                onChange={(e) => setCustomAmounts(prev => prev.map((value, j) => (j === i ? e.target.value : value)))}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                placeholder="0"
+              />
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">
+            Entered {formatCurrency(customAmounts.reduce((sum, value) => sum + (parseFloat(value) || 0), 0))} of {formatCurrency(balance)}
+          </p>
+        </div>
+      )}
+
+      {mode === 'items' && (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {lines.map(line => (
+            <div key={line.key} className="flex items-center justify-between gap-2">
+              <span className="text-sm text-gray-700 flex-1">{line.name}</span>
+              <span className="text-sm text-gray-500">{formatCurrency(line.total)}</span>
+              <select
+                value={itemOwners[line.key] ?? ''}
+                onChange={(e) => setItemOwners(prev => ({ ...prev, [line.key]: Number(e.target.value) }))}
+                className="border border-gray-300 rounded-lg text-sm px-2 py-1"
+              >
+                <option value="" disabled>Who?</option>
+                {Array.from({ length: people }, (_, i) => (
+                  <option key={i} value={i}>Person {i + 1}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={startSplit}
+        disabled={submitting}
+        className="w-full bg-orange-500 text-white py-3 rounded-xl font-semibold hover:bg-orange-600 disabled:bg-gray-300"
+      >
+        {submitting ? 'Splitting...' : 'Split bill'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Wallet, Phone, Clock, X } from 'lucide-react';
+import { formatCurrency } from '@/lib/formatUtils';
+import { getDeviceId } from '@/lib/deviceId';
+import { useToast } from '@/components/ui/Toast';
+import type { TabOrderBlock } from '@tabeza/shared/lib/services/tab-credit';
+
+interface TabCreditPromptProps {
+  tabId: string;
+  block: TabOrderBlock;
+  /** The order waiting on the deposit or top-up; 0 when only the deposit is due */
+  orderTotal?: number;
+  onCleared: () => void;
+  onClose?: () => void;
+}
+
+// Deposits and top-ups land through the payment callback; poll while the prompt is out
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * Whether an order of this size would go through, or what has to be paid first
+ */
+export async function fetchTabOrderBlock(tabId: string, orderTotal: number): Promise<TabOrderBlock | null> {
+  const response = await fetch(`/api/tabs/${tabId}/credit?orderTotal=${orderTotal}`, {
+    headers: { 'X-Device-Id': getDeviceId() }
+  });
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || 'Failed to check tab limit');
+  return result.block;
+}
+
+export default function TabCreditPrompt({ tabId, block, orderTotal = 0, onCleared, onClose }: TabCreditPromptProps) {
+  const { showToast } = useToast();
+  const isDeposit = block.reason === 'deposit_required';
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [amount, setAmount] = useState(String(block.topUp));
+  const [sending, setSending] = useState(false);
+  const [waiting, setWaiting] = useState(false);
+  const clearedRef = useRef(false);
+
+  useEffect(() => {
+    if (!waiting) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const remaining = await fetchTabOrderBlock(tabId, orderTotal);
+        if (!remaining && !clearedRef.current) {
+          clearedRef.current = true;
+          setWaiting(false);
+          showToast({
+            type: 'success',
+            title: isDeposit ? 'Deposit Received' : 'Top-up Received',
+            message: isDeposit ? 'Your tab is ready for orders' : 'You can place your order now'
+          });
+          onCleared();
+        }
+      } catch (error) {
+        console.error('Error checking tab credit:', error);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [waiting, tabId, orderTotal, isDeposit, onCleared, showToast]);
+
+  const sendPrompt = async () => {
+    const payAmount = isDeposit ? block.topUp : parseFloat(amount);
+    if (!phoneNumber.trim()) {
+      showToast({ type: 'error', title: 'Phone Required', message: 'Enter your M-Pesa number' });
+      return;
+    }
+    if (!payAmount || payAmount < block.topUp) {
+      showToast({ type: 'error', title: 'Amount Too Low', message: `Pay at least ${formatCurrency(block.topUp)}` });
+      return;
+    }
+
+    setSending(true);
+    try {
+      const response = await fetch('/api/payments/mpesa', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tabId, phoneNumber, amount: payAmount, deposit: isDeposit })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.error || 'Failed to send M-Pesa prompt');
+
+      showToast({
+        type: 'info',
+        title: 'Check Your Phone',
+        message: 'Enter your M-Pesa PIN to complete the payment'
+      });
+      setWaiting(true);
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: 'Payment Failed',
+        message: error instanceof Error ? error.message : 'Please try again'
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4">
+        <div className="flex items-start justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-orange-100 rounded-lg">
+              <Wallet size={20} className="text-orange-600" />
+            </div>
+            <div>
+              <h2 className="font-bold text-gray-800">{isDeposit ? 'Deposit Required' : 'Top Up Your Tab'}</h2>
+              <p className="text-sm text-gray-600">{block.message}</p>
+            </div>
+          </div>
+          {onClose && !waiting && (
+            <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" aria-label="Close">
+              <X size={20} />
+            </button>
+          )}
+        </div>
+
+        {isDeposit ? (
+          <div className="bg-orange-50 border border-orange-200 rounded-xl p-4 text-center">
+            <p className="text-3xl font-bold text-orange-600">{formatCurrency(block.topUp)}</p>
+            <p className="text-xs text-gray-600 mt-1">Goes towards your bill. Anything unused is refunded when your tab closes.</p>
+          </div>
+        ) : (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+            <input
+              type="number"
+              inputMode="numeric"
+              min={block.topUp}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              disabled={sending || waiting}
+              className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-orange-500 focus:outline-none disabled:bg-gray-100"
+            />
+            <p className="text-xs text-gray-500 mt-1">At least {formatCurrency(block.topUp)}; it is held on your tab against this order</p>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">M-Pesa number</label>
+          <div className="relative">
+            <Phone size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="tel"
+              value={phoneNumber}
+              onChange={(e) => setPhoneNumber(e.target.value)}
+              placeholder="0712 345 678"
+              disabled={sending || waiting}
+              className="w-full pl-10 pr-4 py-3 border-2 border-gray-200 rounded-xl focus:border-orange-500 focus:outline-none disabled:bg-gray-100"
+            />
+          </div>
+        </div>
+
+        {waiting ? (
+          <div className="flex items-center justify-center gap-2 py-3 text-gray-600">
+            <Clock size={18} className="animate-pulse" />
+            <span className="text-sm font-medium">Waiting for M-Pesa confirmation...</span>
+          </div>
+        ) : (
+          <button
+            onClick={sendPrompt}
+            disabled={sending}
+            className="w-full bg-green-600 text-white py-3 rounded-xl font-semibold hover:bg-green-700 disabled:bg-gray-300"
+          >
+            {sending ? 'Sending...' : 'Pay with M-Pesa'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import React from 'react';
+import { Download, Share2 } from 'lucide-react';
+import type { TabReceipt } from '@tabeza/shared/lib/services/tab-receipts';
+import { formatCurrency } from '@/lib/formatUtils';
+
+interface TabReceiptViewProps {
+  receipt: TabReceipt;
+  onDownload: () => void;
+  onShare?: () => void;
+  downloading?: boolean;
+  sharing?: boolean;
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  mpesa: 'M-Pesa',
+  cash: 'Cash',
+  card: 'Card',
+  cards: 'Card'
+};
+
+const formatDateTime = (dateStr: string) =>
+  new Date(dateStr).toLocaleString('en-GB', { timeZone: 'Africa/Nairobi', dateStyle: 'medium', timeStyle: 'short' });
+
+const TabReceiptView: React.FC<TabReceiptViewProps> = ({ receipt, onDownload, onShare, downloading = false, sharing = false }) => {
+  const row = (label: React.ReactNode, amount: number, className = '') => (
+    <div className={`flex justify-between text-sm ${className}`}>
+      <span>{label}</span>
+      <span>{formatCurrency(amount, 2)}</span>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-5">
+      <div className="text-center mb-4">
+        <h2 className="text-xl font-bold text-gray-800">{receipt.bar.name}</h2>
+        {receipt.bar.location && <p className="text-sm text-gray-500">{receipt.bar.location}</p>}
+        {receipt.bar.phone && <p className="text-sm text-gray-500">Tel: {receipt.bar.phone}</p>}
+        {receipt.bar.kraPin && <p className="text-xs text-gray-500">PIN: {receipt.bar.kraPin}</p>}
+        <p className="mt-3 text-sm font-semibold text-gray-700">
+          {receipt.receiptNumber ? `Receipt #${receipt.receiptNumber}` : 'Provisional bill'}
+        </p>
+        <p className="text-xs text-gray-500">
+          Tab #{receipt.tabNumber}{receipt.displayName ? ` · ${receipt.displayName}` : ''}
+          {' · '}{formatDateTime(receipt.closedAt || receipt.issuedAt || receipt.openedAt)}
+        </p>
+      </div>
+
+      <div className="border-t border-dashed border-gray-300 py-3 space-y-2">
+        {receipt.items.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center">No items</p>
+        ) : (
+          receipt.items.map((item, index) => (
+            <div key={index} className="flex justify-between text-sm">
+              <span className="text-gray-700">
+                {item.quantity} × {item.name}
+                {item.quantity > 1 && (
+                  <span className="block text-xs text-gray-400">@ {formatCurrency(item.unitPrice, 2)}</span>
+                )}
+              </span>
+              <span className="text-gray-800">{formatCurrency(item.total, 2)}</span>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="border-t border-dashed border-gray-300 py-3 space-y-1">
+        {receipt.pricesIncludeTax ? (
+          <>
+            {row(<strong>Total</strong>, receipt.total, 'font-bold text-gray-800')}
+            {receipt.taxes.map(tax => (
+              <React.Fragment key={tax.taxType}>
+                {tax.rate > 0
+                  ? row(`Incl. ${tax.label}`, tax.tax, 'text-gray-500')
+                  : row(`${tax.label} sales`, tax.gross, 'text-gray-500')}
+              </React.Fragment>
+            ))}
+          </>
+        ) : (
+          <>
+            {row('Subtotal', receipt.subtotal, 'text-gray-700')}
+            {receipt.taxes.filter(tax => tax.rate > 0).map(tax => (
+              <React.Fragment key={tax.taxType}>{row(tax.label, tax.tax, 'text-gray-500')}</React.Fragment>
+            ))}
+            {row(<strong>Total</strong>, receipt.total, 'font-bold text-gray-800')}
+          </>
+        )}
+      </div>
+
+      <div className="border-t border-dashed border-gray-300 py-3 space-y-1 text-gray-700">
+        {receipt.payments.map(payment => (
+          <div key={payment.id}>
+            {row(payment.amount < 0 ? 'Refund' : METHOD_LABELS[payment.method] || payment.method, payment.amount)}
+            {payment.mpesaReceiptNumber && (
+              <p className="text-xs text-gray-400 font-mono">Ref {payment.mpesaReceiptNumber}</p>
+            )}
+          </div>
+        ))}
+        {receipt.tips > 0 && row('Tips', receipt.tips, 'text-gray-500')}
+        {receipt.serviceCharges > 0 && row('Service charge', receipt.serviceCharges, 'text-gray-500')}
+        {receipt.writeOffs.map((writeOff, index) => (
+          <React.Fragment key={index}>{row(writeOff.reason || 'Written off', writeOff.amount, 'text-gray-500')}</React.Fragment>
+        ))}
+        {row(<strong>Balance</strong>, receipt.balance, 'font-bold text-gray-800 pt-1')}
+      </div>
+
+      {receipt.etims?.status === 'submitted' && (
+        <div className="border-t border-dashed border-gray-300 py-3 text-center">
+          <p className="text-xs font-semibold text-gray-700">
+            {receipt.etims.test ? 'eTIMS test invoice (not filed with KRA)' : 'KRA eTIMS tax invoice'}
+          </p>
+          {receipt.etims.qrUrl && (
+            <a href={receipt.etims.qrUrl} target="_blank" rel="noopener noreferrer" className="inline-block my-2">
+              <img
+                src={`https://api.qrserver.com/v1/create-qr-code/?size=160x160&data=${encodeURIComponent(receipt.etims.qrUrl)}&qzone=1&format=png`}
+                alt="KRA eTIMS verification QR code"
+                width={120}
+                height={120}
+              />
+            </a>
+          )}
+          <div className="text-xs text-gray-500 font-mono break-all space-y-0.5">
+            <p>CU Invoice: {receipt.etims.controlUnitInvoiceNumber}</p>
+            <p>Internal: {receipt.etims.internalData}</p>
+            <p>Signature: {receipt.etims.receiptSignature}</p>
+          </div>
+        </div>
+      )}
+      {receipt.etims?.status === 'failed' && (
+        <p className="border-t border-dashed border-gray-300 py-3 text-center text-xs text-gray-500">
+          Tax invoice pending with KRA eTIMS
+        </p>
+      )}
+
+      <div className="flex gap-2 mt-4">
+        <button
+          onClick={onDownload}
+          disabled={downloading}
+          className="flex-1 py-3 bg-orange-500 text-white rounded-xl font-semibold hover:bg-orange-600 disabled:bg-gray-300 flex items-center justify-center gap-2"
+        >
+          <Download size={18} />
+          {downloading ? 'Preparing...' : 'Download PDF'}
+        </button>
+        {onShare && (
+          <button
+            onClick={onShare}
+            disabled={sharing}
+            className="flex-1 py-3 bg-gray-100 text-gray-700 rounded-xl font-semibold hover:bg-gray-200 disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            <Share2 size={18} />
+            {sharing ? 'Creating link...' : 'Share'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TabReceiptView;
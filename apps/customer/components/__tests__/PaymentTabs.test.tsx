@@ -81,6 +81,20 @@ describe('PaymentTabs Component', () => {
       expect(onTabChange).toHaveBeenCalledWith('mpesa');
     });
 
+    test('should only render the card tab when card payments are available', async () => {
+      const user = userEvent.setup();
+      const onTabChange = jest.fn();
+
+      const { rerender } = render(<PaymentTabs {...defaultProps} onTabChange={onTabChange} />);
+      expect(screen.queryByText('Card Payment')).not.toBeInTheDocument();
+
+      rerender(<PaymentTabs {...defaultProps} onTabChange={onTabChange} cardAvailable={true} />);
+      await user.click(screen.getByText('Card Payment'));
+
+      expect(screen.getByTestId('credit-card-icon')).toBeInTheDocument();
+      expect(onTabChange).toHaveBeenCalledWith('card');
+    });
+
     test('should render children content', () => {
       render(<PaymentTabs {...defaultProps} />);
       
@@ -278,4 +292,39 @@ describe('PaymentTabs Component', () => {
       expect(mpesaTab).toHaveAttribute('type', 'button');
     });
   });
-});
\ No newline at end of file
+
+  describe('Unit Tests - Tip Selection', () => {
+    const gratuity = { tipsEnabled: true, tipPresets: [5, 10, 15], serviceChargePercent: 0 };
+
+    test('should not show tip options without gratuity settings', () => {
+      render(<PaymentTabs {...defaultProps} paymentAmount={1000} />);
+
+      expect(screen.queryByText('Add a tip?')).not.toBeInTheDocument();
+    });
+
+    test('should offer percent presets and report the selection', () => {
+      const onTipChange = jest.fn();
+      render(<PaymentTabs {...defaultProps} gratuity={gratuity} paymentAmount={1000} onTipChange={onTipChange} />);
+
+      fireEvent.click(screen.getByText('10%'));
+
+      expect(onTipChange).toHaveBeenCalledWith({ type: 'percent', percent: 10 });
+    });
+
+    test('should show the tip and service charge on top of the tab amount', () => {
+      render(
+        <PaymentTabs
+          {...defaultProps}
+          gratuity={{ ...gratuity, serviceChargePercent: 5 }}
+          paymentAmount={1000}
+          tip={{ type: 'percent', percent: 10 }}
+          onTipChange={jest.fn()}
+        />
+      );
+
+      expect(screen.getByText('Service charge (5%)')).toBeInTheDocument();
+      expect(screen.getByText('Total to pay')).toBeInTheDocument();
+      expect(screen.getByText('KSh 1,150')).toBeInTheDocument();
+    });
+  });
+});
@@ -31,6 +31,7 @@ jest.mock('lucide-react', () => ({
   ArrowLeft: () => <div data-testid="arrow-left-icon" />,
   Loader2: () => <div data-testid="loader-icon" />,
   RefreshCw: () => <div data-testid="refresh-icon" />,
+  CreditCard: () => <div data-testid="credit-card-icon" />,
 }))
 
 // Mock sessionStorage
@@ -72,22 +72,8 @@ export const timeAgo = (dateStr: string): string => {
   return `${Math.floor(seconds / 3600)}h ago`;
 };
 
-// Format time to Kenya local time
-export const formatKenyaTime = (dateStr: string): string => {
-  const date = new Date(dateStr);
-  
-  // Convert to Kenya timezone (UTC+3)
-  const kenyaTime = new Date(date.getTime() + (3 * 60 * 60 * 1000));
-  
-  return kenyaTime.toLocaleString('en-US', {
-    month: 'short',
-    day: 'numeric',
-    hour: '2-digit',
-    minute: '2-digit',
-    hour12: false,
-    timeZone: 'Africa/Nairobi'
-  });
-};
+// Format time to Kenya local time (shared with the staff app and report exports)
+export { formatKenyaTime } from '@tabeza/shared/lib/services/kenya-time';
 
 // Format time ago with detailed format
 export const formatTimeAgoDetailed = (dateStr: string): string => {
@@ -1,5 +1,6 @@
 // Push Notification Manager for Tabeza Customer App
 import { getDeviceId } from './deviceId';
+import type { PushTopic } from '@tabeza/shared/lib/services/push-notifications';
 
 export interface PushNotificationData {
   title: string;
@@ -8,6 +9,8 @@ export interface PushNotificationData {
   badge?: string;
   tag?: string;
   data?: any;
+  // Sets how long the push service holds it and how urgently it is delivered
+  topic?: PushTopic;
   actions?: Array<{
     action: string;
     title: string;
@@ -29,6 +32,13 @@ export interface PushSubscriptionResult {
   error?: string;
 }
 
+// VAPID public keys are distributed base64url-encoded
+const urlBase64ToUint8Array = (value: string) => {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
 class PushNotificationManager {
   private subscription: PushSubscription | null = null;
   private isSupported = false;
@@ -85,9 +95,16 @@ class PushNotificationManager {
         return false;
       }
 
+      const vapidPublicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+      if (!vapidPublicKey) {
+        console.error('❌ NEXT_PUBLIC_VAPID_PUBLIC_KEY is not set');
+        return false;
+      }
+
       const nativeSubscription = await registration.pushManager.subscribe({
         userVisibleOnly: true,
-        applicationServerKey: process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+        // Safari only accepts the key as bytes, not as a base64url string
+        applicationServerKey: urlBase64ToUint8Array(vapidPublicKey)
       });
 
       if (!nativeSubscription) {
@@ -143,8 +160,7 @@ class PushNotificationManager {
           deviceId: this.deviceId,
           subscription: {
             endpoint: subscription.endpoint,
-            p256dh: subscription.keys.p256dh,
-            auth: subscription.keys.auth
+            keys: subscription.keys
           }
         })
       });
@@ -0,0 +1,50 @@
+/**
+ * Receipt history kept on this device, so customers can re-open receipts for
+ * tabs they closed here. Only tab IDs and display details are stored; the
+ * receipt itself is always loaded fresh from the API with the device ID.
+ */
+
+export interface ReceiptHistoryEntry {
+  tabId: string;
+  barName: string;
+  tabNumber: number;
+  receiptNumber: string | null;
+  total: number;
+  closedAt: string | null;
+  savedAt: string;
+}
+
+const STORAGE_KEY = 'tabeza_receipt_history';
+const MAX_ENTRIES = 50;
+
+export function getReceiptHistory(): ReceiptHistoryEntry[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Add or refresh a receipt, newest first
+ */
+export function rememberReceipt(entry: Omit<ReceiptHistoryEntry, 'savedAt'>): void {
+  if (typeof window === 'undefined') return;
+
+  const history = getReceiptHistory().filter(existing => existing.tabId !== entry.tabId);
+  history.unshift({ ...entry, savedAt: new Date().toISOString() });
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history.slice(0, MAX_ENTRIES)));
+  } catch (error) {
+    console.warn('⚠️ Could not save receipt history:', error);
+  }
+}
+
+export function forgetReceipt(tabId: string): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(getReceiptHistory().filter(entry => entry.tabId !== tabId)));
+}
@@ -0,0 +1,46 @@
+// Custom service worker code; next-pwa bundles this into the generated sw.js
+
+// Web Push: the payload is the JSON notification built by the shared push service
+self.addEventListener('push', (event) => {
+  let notification = { title: 'Tabeza' };
+  if (event.data) {
+    try {
+      notification = event.data.json();
+    } catch (error) {
+      notification = { title: 'Tabeza', body: event.data.text() };
+    }
+  }
+
+  const data = notification.data || {};
+
+  event.waitUntil(
+    self.registration.showNotification(notification.title || 'Tabeza', {
+      body: notification.body,
+      icon: notification.icon || '/logo.svg',
+      badge: notification.badge,
+      tag: notification.tag,
+      // A repeated tag replaces the old notification; buzz again so it is noticed
+      renotify: Boolean(notification.tag),
+      data,
+      actions: data.actions || []
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const data = event.notification.data || {};
+  const target = new URL(data.url || (data.tabId ? '/tab' : '/'), self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const open = clients.find((client) => client.url.startsWith(self.location.origin));
+      if (open) {
+        open.navigate(target);
+        return open.focus();
+      }
+      return self.clients.openWindow(target);
+    })
+  );
+});
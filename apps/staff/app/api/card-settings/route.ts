@@ -0,0 +1,180 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { encryptToBytea } from '@tabeza/shared/lib/services/mpesa-encryption'
+import {
+  CardConfigurationError,
+  getCardProvider,
+  isMockCardProviderEnabled,
+  listCardProviders
+} from '@tabeza/shared/lib/services/card-payments'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+// Placeholder shown for stored credentials; sending it back keeps the saved value
+const MASKED_VALUE = '••••••••••••••••'
+
+function errorResponse(err: unknown) {
+  console.error('[CARD SETTINGS] Error:', err)
+
+  if (err instanceof CardConfigurationError) {
+    return NextResponse.json({ error: err.message }, { status: 400 })
+  }
+
+  if (err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json()
+    console.log('[CARD SETTINGS] Received request:', { ...body, card_api_key: '[REDACTED]', card_webhook_secret: '[REDACTED]' })
+
+    const {
+      barId,
+      card_enabled,
+      card_provider,
+      card_environment,
+      card_merchant_id,
+      card_api_key,
+      card_webhook_secret
+    } = body
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.payments')
+
+    const environment = card_environment || 'sandbox'
+    if (environment !== 'sandbox' && environment !== 'production') {
+      return NextResponse.json({ error: 'Environment must be sandbox or production' }, { status: 400 })
+    }
+
+    const provider = getCardProvider(card_provider)
+    if (!provider.requiresCredentials && environment === 'production') {
+      return NextResponse.json({ error: `${provider.label} cannot be used in production` }, { status: 400 })
+    }
+    if (!provider.requiresCredentials && !isMockCardProviderEnabled()) {
+      return NextResponse.json({ error: `${provider.label} is not enabled on this server` }, { status: 400 })
+    }
+
+    const update: Record<string, unknown> = {
+      card_enabled: card_enabled || false,
+      // Legacy flag read by older clients
+      payment_card_enabled: card_enabled || false,
+      card_provider: provider.name,
+      card_environment: environment,
+      card_merchant_id: card_merchant_id || null,
+      updated_at: new Date().toISOString()
+    }
+
+    // Encrypt new credentials (PostgreSQL bytea format); masked values keep what is stored
+    if (card_api_key && card_api_key !== MASKED_VALUE) {
+      update.card_api_key_encrypted = encryptToBytea(card_api_key)
+    }
+    if (card_webhook_secret && card_webhook_secret !== MASKED_VALUE) {
+      update.card_webhook_secret_encrypted = encryptToBytea(card_webhook_secret)
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('bars')
+      .select('card_api_key_encrypted, card_webhook_secret_encrypted')
+      .eq('id', barId)
+      .single()
+
+    if (existingError) {
+      console.error('[CARD SETTINGS] Database error:', existingError)
+      return NextResponse.json({ error: 'Failed to save settings' }, { status: 500 })
+    }
+
+    const hasApiKey = !!(update.card_api_key_encrypted || existing?.card_api_key_encrypted)
+    const hasWebhookSecret = !!(update.card_webhook_secret_encrypted || existing?.card_webhook_secret_encrypted)
+    const setupCompleted = !provider.requiresCredentials || (!!card_merchant_id && hasApiKey && hasWebhookSecret)
+
+    if (card_enabled && !setupCompleted) {
+      return NextResponse.json(
+        { error: 'Merchant ID, API key and webhook secret are required for this provider' },
+        { status: 400 }
+      )
+    }
+
+    update.card_setup_completed = setupCompleted
+
+    const { error } = await supabase
+      .from('bars')
+      .update(update)
+      .eq('id', barId)
+
+    if (error) {
+      console.error('[CARD SETTINGS] Database error:', error)
+      return NextResponse.json({ error: 'Failed to save settings' }, { status: 500 })
+    }
+
+    console.log('[CARD SETTINGS] Successfully saved settings for bar:', barId, provider.name, environment)
+    return NextResponse.json({ success: true })
+
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export async function GET(req: Request) {
+  try {
+    const barId = new URL(req.url).searchParams.get('barId')
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.payments')
+
+    const { data, error } = await supabase
+      .from('bars')
+      .select(`
+        card_enabled,
+        card_provider,
+        card_environment,
+        card_merchant_id,
+        card_api_key_encrypted,
+        card_webhook_secret_encrypted,
+        card_setup_completed
+      `)
+      .eq('id', barId)
+      .single()
+
+    if (error) {
+      console.error('[CARD SETTINGS] Get error:', error)
+      return NextResponse.json({ error: 'Failed to fetch settings' }, { status: 500 })
+    }
+
+    // Don't return encrypted values to the frontend
+    const sanitizedData = {
+      card_enabled: data.card_enabled ?? false,
+      card_provider: data.card_provider || 'mock',
+      card_environment: data.card_environment || 'sandbox',
+      card_merchant_id: data.card_merchant_id || '',
+      card_setup_completed: data.card_setup_completed ?? false,
+      card_api_key: data.card_api_key_encrypted ? MASKED_VALUE : '',
+      card_webhook_secret: data.card_webhook_secret_encrypted ? MASKED_VALUE : ''
+    }
+
+    return NextResponse.json({ success: true, settings: sanitizedData, providers: listCardProviders() })
+
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -1,6 +1,7 @@
 // Debug endpoint to check user bar access
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
+import { normalizeStaffRole, ROLE_PERMISSIONS } from '@tabeza/shared/lib/services/staff-roles';
 
 export async function POST(request: NextRequest) {
   try {
@@ -36,13 +37,15 @@ export async function POST(request: NextRequest) {
     // Check specific bar access
     const { data: specificBar, error: specificBarError } = await supabase
       .from('user_bars')
-      .select('bar_id')
+      .select('bar_id, role')
       .eq('bar_id', barId)
       .eq('user_id', user.id)
-      .single();
+      .single() as { data: any, error: any };
 
     console.log('🎯 Specific bar access:', { specificBar, specificBarError });
 
+    const role = specificBar ? normalizeStaffRole(specificBar.role) : null;
+
     return NextResponse.json({
       success: true,
       user: {
@@ -52,6 +55,8 @@ export async function POST(request: NextRequest) {
       allUserBars: userBars,
       specificBarAccess: {
         hasAccess: !!specificBar,
+        role,
+        permissions: role ? ROLE_PERMISSIONS[role] : [],
         error: specificBarError?.message
       }
     });
@@ -0,0 +1,114 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+function errorResponse(err: unknown) {
+  console.error('[DEPOSIT SETTINGS] Error:', err)
+
+  if (err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+function parseAmount(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const amount = Number(value)
+  return Number.isFinite(amount) ? Math.round(amount * 100) / 100 : NaN
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json()
+    console.log('[DEPOSIT SETTINGS] Received request:', body)
+
+    const { barId, deposit_required } = body
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.payments')
+
+    const depositAmount = parseAmount(body.deposit_amount) ?? 0
+    if (Number.isNaN(depositAmount) || depositAmount < 0) {
+      return NextResponse.json({ error: 'Deposit must be a positive amount' }, { status: 400 })
+    }
+    if (deposit_required && depositAmount <= 0) {
+      return NextResponse.json({ error: 'Set the deposit amount to require a deposit' }, { status: 400 })
+    }
+
+    const defaultTabLimit = parseAmount(body.default_tab_limit)
+    if (defaultTabLimit !== null && (Number.isNaN(defaultTabLimit) || defaultTabLimit <= 0)) {
+      return NextResponse.json({ error: 'Tab limit must be a positive amount' }, { status: 400 })
+    }
+
+    const { error } = await supabase
+      .from('bars')
+      .update({
+        deposit_required: deposit_required || false,
+        deposit_amount: depositAmount,
+        default_tab_limit: defaultTabLimit,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', barId)
+
+    if (error) {
+      console.error('[DEPOSIT SETTINGS] Database error:', error)
+      return NextResponse.json({ error: 'Failed to save settings' }, { status: 500 })
+    }
+
+    console.log('[DEPOSIT SETTINGS] Successfully saved settings for bar:', barId)
+    return NextResponse.json({ success: true })
+
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export async function GET(req: Request) {
+  try {
+    const barId = new URL(req.url).searchParams.get('barId')
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.payments')
+
+    const { data, error } = await supabase
+      .from('bars')
+      .select('deposit_required, deposit_amount, default_tab_limit')
+      .eq('id', barId)
+      .single()
+
+    if (error) {
+      console.error('[DEPOSIT SETTINGS] Get error:', error)
+      return NextResponse.json({ error: 'Failed to fetch settings' }, { status: 500 })
+    }
+
+    const settings = {
+      deposit_required: data.deposit_required ?? false,
+      deposit_amount: Number(data.deposit_amount) || 0,
+      default_tab_limit: data.default_tab_limit === null ? null : Number(data.default_tab_limit)
+    }
+
+    return NextResponse.json({ success: true, settings })
+
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { denyWithoutPermission } from '@/lib/staffAccess';
 
 // Create Supabase client for server-side use
 const supabase = createClient(
@@ -23,6 +24,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Missing file or bar ID' }, { status: 400 });
     }
 
+    const denied = await denyWithoutPermission(request, barId, 'menu.edit');
+    if (denied) return denied;
+
     let mapping;
     try {
       mapping = JSON.parse(mappingStr || '{}');
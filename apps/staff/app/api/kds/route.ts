@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { OrderTransitionError } from '@tabeza/shared/lib/services/order-lifecycle'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import {
+  bumpKdsTicket,
+  isKdsStation,
+  KdsError,
+  loadKdsBoard,
+  recallKdsTicket
+} from '@tabeza/shared/lib/services/kitchen-display'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+function errorResponse(err: unknown) {
+  console.error('[KDS] Error:', err)
+
+  if (
+    err instanceof KdsError ||
+    err instanceof OrderTransitionError ||
+    err instanceof StaffAccessError ||
+    err instanceof TabAccessError
+  ) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// Tickets to prepare and recently bumped ones, for every station
+export async function GET(req: Request) {
+  try {
+    const barId = new URL(req.url).searchParams.get('barId')
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'orders.take')
+    const board = await loadKdsBoard(supabase, barId)
+
+    return NextResponse.json({ success: true, ...board })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Bump a station's ticket, or recall one bumped by mistake
+export async function POST(req: Request) {
+  try {
+    const { barId, orderId, station, action } = await req.json()
+
+    if (!barId || !orderId || !isKdsStation(station) || !['bump', 'recall'].includes(action)) {
+      return NextResponse.json({ error: 'barId, orderId, a station and an action are required' }, { status: 400 })
+    }
+
+    const membership = await requireStaffPermission(supabase, req.headers, barId, 'orders.take')
+
+    if (action === 'bump') {
+      const result = await bumpKdsTicket(supabase, barId, orderId, station, membership.userId)
+      console.log('[KDS] Bumped', station, 'for order', orderId, result.served ? '(served)' : '')
+      return NextResponse.json({ success: true, ...result })
+    }
+
+    await recallKdsTicket(supabase, barId, orderId, station, membership.userId)
+    console.log('[KDS] Recalled', station, 'for order', orderId)
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -1,18 +1,30 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { encryptToBytea } from '@tabeza/shared/lib/services/mpesa-encryption'
+import { isDarajaSimulatorEnabled } from '@tabeza/shared/lib/services/mpesa-config'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
 
 export const runtime = 'nodejs'
 
+const MASKED_VALUE = '••••••••••••••••'
+
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SECRET_KEY!
 )
 
+function accessErrorResponse(err: unknown) {
+  if (err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+  return null
+}
+
 export async function POST(req: Request) {
   try {
     const body = await req.json()
-    console.log('[MPESA SETTINGS] Received request:', { ...body, consumer_secret: '[REDACTED]' })
+    console.log('[MPESA SETTINGS] Received request:', { ...body, consumer_secret: '[REDACTED]', mpesa_security_credential: '[REDACTED]' })
 
     const {
       barId,
@@ -21,13 +33,22 @@ export async function POST(req: Request) {
       mpesa_business_shortcode,
       mpesa_consumer_key,
       mpesa_consumer_secret,
-      mpesa_passkey
+      mpesa_passkey,
+      mpesa_initiator_name,
+      mpesa_security_credential
     } = body
 
     if (!barId) {
       return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
     }
 
+    // Credentials move money, so only roles with settings.payments may change them
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.payments')
+
+    if (mpesa_environment === 'simulator' && !isDarajaSimulatorEnabled()) {
+      return NextResponse.json({ error: 'The M-Pesa simulator is not enabled on this server' }, { status: 400 })
+    }
+
     // For sandbox testing, use hardcoded values for passkey and shortcode
     const finalPasskey = mpesa_environment === 'sandbox' 
       ? 'bfb279f9aa9bdbcf158e97dd71a467cd2e0c893059b10f78e6b72ada1ed2c919'
@@ -35,13 +56,20 @@ export async function POST(req: Request) {
 
     const finalShortcode = mpesa_environment === 'sandbox'
       ? '174379'
-      : mpesa_business_shortcode
+      : mpesa_environment === 'simulator'
+        ? mpesa_business_shortcode || '174379'
+        : mpesa_business_shortcode
 
     // Encrypt the credentials before storing (PostgreSQL bytea format)
     const encryptedConsumerKey = mpesa_consumer_key ? encryptToBytea(mpesa_consumer_key) : null
     const encryptedConsumerSecret = mpesa_consumer_secret ? encryptToBytea(mpesa_consumer_secret) : null
     const encryptedPasskey = finalPasskey ? encryptToBytea(finalPasskey) : null
 
+    // Refund initiator credential is optional; the masked placeholder means "keep the saved one"
+    const securityCredentialUpdate = mpesa_security_credential && mpesa_security_credential !== MASKED_VALUE
+      ? { mpesa_security_credential_encrypted: encryptToBytea(mpesa_security_credential) }
+      : {}
+
     // Update the bars table with M-Pesa settings (no callback URL - it's global)
     const { data, error } = await supabase
       .from('bars')
@@ -52,6 +80,8 @@ export async function POST(req: Request) {
         mpesa_consumer_key_encrypted: encryptedConsumerKey,
         mpesa_consumer_secret_encrypted: encryptedConsumerSecret,
         mpesa_passkey_encrypted: encryptedPasskey,
+        mpesa_initiator_name: mpesa_initiator_name?.trim() || null,
+        ...securityCredentialUpdate,
         mpesa_setup_completed: true,
         updated_at: new Date().toISOString()
       })
@@ -68,6 +98,8 @@ export async function POST(req: Request) {
 
   } catch (err) {
     console.error('[MPESA SETTINGS] Error:', err)
+    const accessError = accessErrorResponse(err)
+    if (accessError) return accessError
     return NextResponse.json(
       { error: err instanceof Error ? err.message : 'Unknown error' },
       { status: 500 }
@@ -84,6 +116,8 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
     }
 
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.payments')
+
     const { data, error } = await supabase
       .from('bars')
       .select(`
@@ -93,6 +127,8 @@ export async function GET(req: Request) {
         mpesa_consumer_key_encrypted,
         mpesa_consumer_secret_encrypted,
         mpesa_passkey_encrypted,
+        mpesa_initiator_name,
+        mpesa_security_credential_encrypted,
         mpesa_setup_completed,
         mpesa_last_test_at,
         mpesa_test_status
@@ -116,13 +152,17 @@ export async function GET(req: Request) {
       // Return masked versions for display
       mpesa_consumer_key: data.mpesa_consumer_key_encrypted ? '••••••••••••••••' : '',
       mpesa_consumer_secret: data.mpesa_consumer_secret_encrypted ? '••••••••••••••••' : '',
-      mpesa_passkey: data.mpesa_passkey_encrypted ? '••••••••••••••••' : ''
+      mpesa_passkey: data.mpesa_passkey_encrypted ? '••••••••••••••••' : '',
+      mpesa_initiator_name: data.mpesa_initiator_name || '',
+      mpesa_security_credential: data.mpesa_security_credential_encrypted ? MASKED_VALUE : ''
     }
 
-    return NextResponse.json({ success: true, settings: sanitizedData })
+    return NextResponse.json({ success: true, settings: sanitizedData, simulatorAvailable: isDarajaSimulatorEnabled() })
 
   } catch (err) {
     console.error('[MPESA SETTINGS] Get error:', err)
+    const accessError = accessErrorResponse(err)
+    if (accessError) return accessError
     return NextResponse.json(
       { error: err instanceof Error ? err.message : 'Unknown error' },
       { status: 500 }
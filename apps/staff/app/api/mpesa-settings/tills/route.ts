@@ -0,0 +1,114 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { hasStaffPermission, requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import { isDarajaSimulatorEnabled } from '@tabeza/shared/lib/services/mpesa-config'
+import {
+  deleteMpesaTill,
+  listMpesaTills,
+  MpesaTillError,
+  parseMpesaTillInput,
+  saveMpesaTill,
+  toMpesaTillSummary
+} from '@tabeza/shared/lib/services/mpesa-tills'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+function errorResponse(err: unknown) {
+  console.error('[MPESA TILLS] Error:', err)
+
+  if (err instanceof MpesaTillError || err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// The bar's tills, with credentials reported as saved or not
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const barId = searchParams.get('barId')
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    const { role } = await requireStaffPermission(supabase, req.headers, barId)
+    const tills = await listMpesaTills(supabase, barId)
+
+    return NextResponse.json({
+      success: true,
+      tills: tills.map(toMpesaTillSummary),
+      canManage: hasStaffPermission(role, 'settings.payments'),
+      simulatorAvailable: isDarajaSimulatorEnabled()
+    })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}))
+
+    if (!body.barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, body.barId, 'settings.payments')
+    const till = await saveMpesaTill(supabase, body.barId, parseMpesaTillInput(body))
+
+    console.log('[MPESA TILLS] Created till', till.id, 'for bar', body.barId)
+    return NextResponse.json({ success: true, till: toMpesaTillSummary(till) })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export async function PATCH(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}))
+
+    if (!body.barId || !body.tillId) {
+      return NextResponse.json({ error: 'Bar ID and till ID are required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, body.barId, 'settings.payments')
+    const till = await saveMpesaTill(supabase, body.barId, parseMpesaTillInput(body), body.tillId)
+
+    console.log('[MPESA TILLS] Updated till', till.id, 'for bar', body.barId)
+    return NextResponse.json({ success: true, till: toMpesaTillSummary(till) })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const barId = searchParams.get('barId')
+    const tillId = searchParams.get('tillId')
+
+    if (!barId || !tillId) {
+      return NextResponse.json({ error: 'Bar ID and till ID are required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.payments')
+    await deleteMpesaTill(supabase, barId, tillId)
+
+    console.log('[MPESA TILLS] Deleted till', tillId, 'for bar', barId)
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
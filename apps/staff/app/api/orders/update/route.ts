@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { resolveTabRequester, TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import {
+  getOrderBarId,
+  isOrderStatus,
+  transitionOrderStatus,
+  OrderTransitionError
+} from '@tabeza/shared/lib/services/order-lifecycle'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+export async function POST(req: Request) {
+  try {
+    const { orderId, status, reason } = await req.json()
+
+    if (!orderId || !isOrderStatus(status)) {
+      return NextResponse.json({ error: 'orderId and a valid status are required' }, { status: 400 })
+    }
+
+    const requester = await resolveTabRequester(supabase, req.headers)
+    if (requester.type === 'staff') {
+      await requireStaffPermission(supabase, req.headers, await getOrderBarId(supabase, orderId), 'orders.take')
+    }
+    const order = await transitionOrderStatus(supabase, orderId, status, requester, reason)
+
+    console.log('[ORDER UPDATE] Order', orderId, '->', status)
+    return NextResponse.json({ success: true, order })
+  } catch (err) {
+    console.error('[ORDER UPDATE] Error:', err)
+
+    if (err instanceof OrderTransitionError || err instanceof StaffAccessError || err instanceof TabAccessError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode })
+    }
+
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { loadMpesaConfigFromBar, MpesaConfigurationError } from '@tabeza/shared/lib/services/mpesa-config'
+import { C2BError, getC2BUrls, registerC2BUrls } from '@tabeza/shared/lib/services/mpesa-c2b'
+import { applyTillToBarData, loadMpesaTill, MpesaTillError } from '@tabeza/shared/lib/services/mpesa-tills'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+// Tell Safaricom where to send Paybill/Till payments for the bar's shortcode (or one of its tills')
+export async function POST(req: Request) {
+  try {
+    const { barId, tillId } = await req.json()
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.payments')
+
+    const { data: bar, error } = await supabase
+      .from('bars')
+      .select(`
+        mpesa_enabled,
+        mpesa_environment,
+        mpesa_business_shortcode,
+        mpesa_consumer_key_encrypted,
+        mpesa_consumer_secret_encrypted,
+        mpesa_passkey_encrypted
+      `)
+      .eq('id', barId)
+      .single()
+
+    if (error || !bar) {
+      return NextResponse.json({ error: 'Bar not found' }, { status: 404 })
+    }
+
+    const till = tillId ? await loadMpesaTill(supabase, tillId) : null
+    if (tillId && (!till || till.bar_id !== barId)) {
+      return NextResponse.json({ error: 'Till not found' }, { status: 404 })
+    }
+
+    const config = loadMpesaConfigFromBar(applyTillToBarData({
+      mpesa_enabled: bar.mpesa_enabled || false,
+      mpesa_environment: bar.mpesa_environment || 'sandbox',
+      mpesa_business_shortcode: bar.mpesa_business_shortcode || '',
+      mpesa_consumer_key_encrypted: bar.mpesa_consumer_key_encrypted || '',
+      mpesa_consumer_secret_encrypted: bar.mpesa_consumer_secret_encrypted || '',
+      mpesa_passkey_encrypted: bar.mpesa_passkey_encrypted || ''
+    }, till))
+
+    const result = await registerC2BUrls(config)
+
+    console.log('[C2B REGISTER] Registered URLs for bar:', barId, config.businessShortcode)
+    return NextResponse.json({ success: true, urls: getC2BUrls(), result })
+  } catch (err) {
+    console.error('[C2B REGISTER] Error:', err)
+
+    if (err instanceof MpesaConfigurationError) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+    if (err instanceof C2BError || err instanceof MpesaTillError || err instanceof StaffAccessError || err instanceof TabAccessError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode })
+    }
+
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import {
+  assignC2BTransaction,
+  C2BError,
+  listUnmatchedC2BTransactions
+} from '@tabeza/shared/lib/services/mpesa-c2b'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+function errorResponse(err: unknown) {
+  console.error('[C2B QUEUE] Error:', err)
+
+  if (err instanceof C2BError || err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// Unmatched Paybill/Till payments plus the open tabs they can be assigned to
+export async function GET(req: Request) {
+  try {
+    const barId = new URL(req.url).searchParams.get('barId')
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    // The queue moves money onto tabs, so only staff who take payments may use it
+    await requireStaffPermission(supabase, req.headers, barId, 'payments.take')
+
+    const transactions = await listUnmatchedC2BTransactions(supabase, barId)
+
+    const { data: tabs, error } = await supabase
+      .from('tabs')
+      .select('id, tab_number, status, notes, opened_at')
+      .eq('bar_id', barId)
+      .in('status', ['open', 'overdue'])
+      .order('tab_number', { ascending: true })
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true, transactions, tabs: tabs || [] })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Assign an unmatched payment to a tab
+export async function POST(req: Request) {
+  try {
+    const { barId, transactionId, tabId } = await req.json()
+
+    if (!barId || !transactionId || !tabId) {
+      return NextResponse.json({ error: 'Bar ID, transaction ID and tab ID are required' }, { status: 400 })
+    }
+
+    const { userId } = await requireStaffPermission(supabase, req.headers, barId, 'payments.take')
+    const transaction = await assignC2BTransaction(supabase, barId, transactionId, tabId, userId)
+
+    console.log('[C2B QUEUE] Assigned', transaction.trans_id, 'to tab', tabId, 'by', userId)
+    return NextResponse.json({ success: true, transaction })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
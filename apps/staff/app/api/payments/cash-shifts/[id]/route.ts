@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { CashDrawerError, closeCashShift } from '@tabeza/shared/lib/services/cash-drawer'
+import { hasStaffPermission, requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function errorResponse(err: unknown) {
+  console.error('[CASH DRAWER] Error:', err)
+
+  if (err instanceof CashDrawerError || err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// Close a drawer with its counted denominations; owners and managers may close anyone's
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const { barId, denominations, notes } = await req.json()
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    const { userId, role } = await requireStaffPermission(supabase, req.headers, barId, 'payments.take')
+
+    const report = await closeCashShift(
+      supabase,
+      barId,
+      id,
+      userId,
+      { denominations, notes },
+      hasStaffPermission(role, 'payments.close_drawers')
+    )
+
+    console.log('[CASH DRAWER] Closed shift', id, 'by', userId, 'over/short', report.totals.overShort)
+    return NextResponse.json({ success: true, ...report })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
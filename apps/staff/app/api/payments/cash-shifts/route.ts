@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import {
+  CashDrawerError,
+  getCashShiftReport,
+  getOpenCashShift,
+  listCashShifts,
+  openCashShift
+} from '@tabeza/shared/lib/services/cash-drawer'
+import { hasStaffPermission, requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+function errorResponse(err: unknown) {
+  console.error('[CASH DRAWER] Error:', err)
+
+  if (err instanceof CashDrawerError || err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// The caller's open drawer with its running totals, and the bar's recent shifts
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const barId = searchParams.get('barId')
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    const { userId, role } = await requireStaffPermission(supabase, req.headers, barId, 'payments.take')
+    const openShift = await getOpenCashShift(supabase, barId, userId)
+    const [current, shifts] = await Promise.all([
+      openShift ? getCashShiftReport(supabase, openShift.id) : Promise.resolve(null),
+      listCashShifts(supabase, barId)
+    ])
+
+    return NextResponse.json({
+      success: true,
+      current,
+      shifts,
+      userId,
+      canCloseOthers: hasStaffPermission(role, 'payments.close_drawers')
+    })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Open a drawer for the caller with the float they start with
+export async function POST(req: Request) {
+  try {
+    const { barId, openingFloat, notes } = await req.json()
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    const { userId } = await requireStaffPermission(supabase, req.headers, barId, 'payments.take')
+    const shift = await openCashShift(supabase, barId, userId, Number(openingFloat), notes)
+
+    console.log('[CASH DRAWER] Opened shift', shift.id, 'with float', shift.opening_float, 'by', userId)
+    return NextResponse.json({ success: true, shift })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
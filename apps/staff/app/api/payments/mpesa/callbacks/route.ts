@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import {
+  listMpesaCallbackInbox,
+  MpesaCallbackError,
+  replayMpesaCallbacks
+} from '@tabeza/shared/lib/services/mpesa-callback-inbox'
+import { hasStaffPermission, requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+function errorResponse(err: unknown) {
+  console.error('[MPESA CALLBACKS] Error:', err)
+
+  if (err instanceof MpesaCallbackError || err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// Stored STK callbacks for the bar, optionally for one tab
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const barId = searchParams.get('barId')
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    const { role } = await requireStaffPermission(supabase, req.headers, barId, 'payments.take')
+    const callbacks = await listMpesaCallbackInbox(supabase, barId, {
+      tabId: searchParams.get('tabId') || undefined
+    })
+
+    return NextResponse.json({ success: true, callbacks, canReplay: hasStaffPermission(role, 'settings.payments') })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Replay one stored callback, or every callback for a tab
+export async function POST(req: Request) {
+  try {
+    const { barId, tabId, inboxId } = await req.json()
+
+    if (!barId || (!tabId && !inboxId)) {
+      return NextResponse.json({ error: 'Bar ID and a tab ID or callback ID are required' }, { status: 400 })
+    }
+
+    // Replays can change payment outcomes, so they need the M-Pesa settings permission
+    const { userId } = await requireStaffPermission(supabase, req.headers, barId, 'settings.payments')
+
+    const items = await replayMpesaCallbacks(supabase, barId, { tabId, inboxId }, userId)
+
+    console.log('[MPESA CALLBACKS] Replayed', items.length, 'callbacks for', tabId ? `tab ${tabId}` : `entry ${inboxId}`, 'by', userId, {
+      applied: items.filter(item => item.applied).length
+    })
+    return NextResponse.json({ success: true, items })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
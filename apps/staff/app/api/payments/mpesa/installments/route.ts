@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { PaymentPlanScheduler } from '@tabeza/shared/lib/services/payment-plans'
+import { denyWithoutCronSecret } from '@/lib/cronAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+// Payment plan scheduler: reminds customers of upcoming installments and sends
+// the STK push for those that are due. Called with CRON_SECRET; refused while it is unset.
+async function runScheduler(req: Request) {
+  const denied = denyWithoutCronSecret(req)
+  if (denied) return denied
+
+  try {
+    const result = await new PaymentPlanScheduler(supabase).run()
+
+    if (result.reminded + result.charged + result.failed + result.ended + result.errors > 0) {
+      console.log('[PAYMENT PLANS] Run complete:', result)
+    }
+    return NextResponse.json({ success: true, ...result })
+  } catch (err) {
+    console.error('[PAYMENT PLANS] Error:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(req: Request) {
+  return runScheduler(req)
+}
+
+export async function POST(req: Request) {
+  return runScheduler(req)
+}
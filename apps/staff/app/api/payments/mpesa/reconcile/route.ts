@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { MpesaReconciliationService } from '@tabeza/shared/lib/services/mpesa-reconciliation'
+import { denyWithoutCronSecret } from '@/lib/cronAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+// STK reconciler: queries Safaricom for M-Pesa payments stuck in pending.
+// Called by the scheduler with CRON_SECRET; refused while it is unset.
+async function runReconciler(req: Request) {
+  const denied = denyWithoutCronSecret(req)
+  if (denied) return denied
+
+  try {
+    const { items, ...result } = await new MpesaReconciliationService(supabase).run('cron')
+
+    if (result.checked > 0) {
+      console.log('[MPESA RECONCILE] Run complete:', result)
+    }
+    return NextResponse.json({ success: true, ...result })
+  } catch (err) {
+    console.error('[MPESA RECONCILE] Error:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(req: Request) {
+  return runReconciler(req)
+}
+
+export async function POST(req: Request) {
+  return runReconciler(req)
+}
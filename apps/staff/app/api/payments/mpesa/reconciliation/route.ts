@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import {
+  MpesaReconciliationError,
+  MpesaReconciliationService
+} from '@tabeza/shared/lib/services/mpesa-reconciliation'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+function errorResponse(err: unknown) {
+  console.error('[MPESA RECONCILIATION] Error:', err)
+
+  if (err instanceof MpesaReconciliationError || err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// Recent reconciler runs with what each one did to this bar's payments
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const barId = searchParams.get('barId')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '10', 10) || 10, 50)
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'payments.take')
+
+    const { data: runs, error } = await supabase
+      .from('mpesa_reconciliation_runs')
+      .select('id, trigger, status, min_age_minutes, error, started_at, finished_at')
+      .or(`bar_id.is.null,bar_id.eq.${barId}`)
+      .order('started_at', { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+
+    const runIds = (runs || []).map(run => run.id)
+    const { data: items, error: itemsError } = runIds.length > 0
+      ? await supabase
+        .from('mpesa_reconciliation_items')
+        .select('id, run_id, payment_id, checkout_request_id, outcome, result_code, message, created_at')
+        .eq('bar_id', barId)
+        .in('run_id', runIds)
+      : { data: [], error: null }
+
+    if (itemsError) throw itemsError
+
+    return NextResponse.json({
+      success: true,
+      runs: (runs || []).map(run => ({
+        ...run,
+        items: (items || []).filter(item => item.run_id === run.id)
+      }))
+    })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Run the reconciler now for one bar
+export async function POST(req: Request) {
+  try {
+    const { barId } = await req.json()
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'payments.take')
+
+    const result = await new MpesaReconciliationService(supabase).run('manual', { barId })
+
+    console.log('[MPESA RECONCILIATION] Manual run for bar:', barId, {
+      checked: result.checked,
+      succeeded: result.succeeded,
+      failed: result.failed
+    })
+    return NextResponse.json({ success: true, ...result })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
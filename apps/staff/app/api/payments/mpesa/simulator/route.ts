@@ -0,0 +1,145 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { loadMpesaConfigFromBar, MpesaConfigurationError } from '@tabeza/shared/lib/services/mpesa-config'
+import { C2BError, registerC2BUrls } from '@tabeza/shared/lib/services/mpesa-c2b'
+import {
+  getMockDarajaState,
+  MOCK_DARAJA_SCENARIOS,
+  MockDarajaError,
+  setMockDarajaScenario,
+  simulateMockC2BPayment
+} from '@tabeza/shared/lib/services/mpesa-mock-daraja'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+function errorResponse(err: unknown) {
+  console.error('[MPESA SIMULATOR] Error:', err)
+
+  if (err instanceof MpesaConfigurationError) {
+    return NextResponse.json({ error: err.message }, { status: 400 })
+  }
+  if (err instanceof MockDarajaError || err instanceof C2BError || err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+async function loadBarConfig(barId: string) {
+  const { data: bar, error } = await supabase
+    .from('bars')
+    .select(`
+      mpesa_enabled,
+      mpesa_environment,
+      mpesa_business_shortcode,
+      mpesa_consumer_key_encrypted,
+      mpesa_consumer_secret_encrypted,
+      mpesa_passkey_encrypted
+    `)
+    .eq('id', barId)
+    .single()
+
+  if (error || !bar) {
+    throw new TabAccessError('Bar not found', 404)
+  }
+
+  return loadMpesaConfigFromBar({
+    mpesa_enabled: bar.mpesa_enabled || false,
+    mpesa_environment: bar.mpesa_environment || 'sandbox',
+    mpesa_business_shortcode: bar.mpesa_business_shortcode || '',
+    mpesa_consumer_key_encrypted: bar.mpesa_consumer_key_encrypted || '',
+    mpesa_consumer_secret_encrypted: bar.mpesa_consumer_secret_encrypted || '',
+    mpesa_passkey_encrypted: bar.mpesa_passkey_encrypted || ''
+  })
+}
+
+// Simulator state for the bar's shortcode; active is false when the bar uses Safaricom
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const barId = searchParams.get('barId')
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.payments')
+
+    let config
+    try {
+      config = await loadBarConfig(barId)
+    } catch (err) {
+      if (err instanceof MpesaConfigurationError) {
+        return NextResponse.json({ success: true, active: false })
+      }
+      throw err
+    }
+
+    if (config.environment !== 'simulator') {
+      return NextResponse.json({ success: true, active: false })
+    }
+
+    const state = await getMockDarajaState(config)
+    return NextResponse.json({
+      success: true,
+      active: true,
+      shortCode: config.businessShortcode,
+      scenarios: MOCK_DARAJA_SCENARIOS,
+      scenario: state.scenarios[config.businessShortcode] || state.defaultScenario,
+      c2bRegistered: state.registeredShortCodes.includes(config.businessShortcode),
+      transactions: state.transactions
+    })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Script the next payments ({ action: 'scenario' }) or pay the shortcode directly ({ action: 'c2b' })
+export async function POST(req: Request) {
+  try {
+    const { barId, action, scenario, amount, phoneNumber, accountReference } = await req.json()
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.payments')
+    const config = await loadBarConfig(barId)
+
+    if (action === 'scenario') {
+      await setMockDarajaScenario(config, scenario)
+      console.log('[MPESA SIMULATOR] Scenario set:', barId, config.businessShortcode, scenario)
+      return NextResponse.json({ success: true, scenario })
+    }
+
+    if (action === 'c2b') {
+      const state = await getMockDarajaState(config)
+      if (!state.registeredShortCodes.includes(config.businessShortcode)) {
+        await registerC2BUrls(config)
+      }
+
+      const result = await simulateMockC2BPayment(config, {
+        amount: Number(amount),
+        phoneNumber: String(phoneNumber || '254708374149'),
+        accountReference
+      })
+      console.log('[MPESA SIMULATOR] C2B payment simulated:', barId, config.businessShortcode, amount)
+      return NextResponse.json({ success: true, result })
+    }
+
+    return NextResponse.json({ error: 'Unknown action' }, { status: 400 })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
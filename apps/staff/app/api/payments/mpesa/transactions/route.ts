@@ -0,0 +1,154 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { MAIN_TILL_NAME } from '@tabeza/shared/lib/services/mpesa-tills'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+const DATE_RANGE_DAYS: Record<string, number> = { '1d': 1, '7d': 7, '30d': 30, '90d': 90 }
+
+// Daraja result codes the monitor shows as their own status
+const RESULT_CODE_STATUS: Record<number, 'cancelled' | 'timeout'> = { 1032: 'cancelled', 1037: 'timeout' }
+
+// Pull the result out of whichever path resolved the payment:
+// the STK callback, the STK reconciler or a C2B confirmation
+function readResult(metadata: any) {
+  const callback = metadata?.Body?.stkCallback
+  if (callback) {
+    const items: { Name: string; Value: string | number }[] = callback.CallbackMetadata?.Item || []
+    const value = (name: string) => items.find(item => item.Name === name)?.Value?.toString()
+    return {
+      resultCode: Number(callback.ResultCode),
+      resultDesc: callback.ResultDesc as string,
+      mpesaReceiptNumber: value('MpesaReceiptNumber'),
+      transactionDate: value('TransactionDate')
+    }
+  }
+
+  const query = metadata?.reconciliation?.response
+  if (query) {
+    return { resultCode: Number(query.ResultCode), resultDesc: query.ResultDesc as string }
+  }
+
+  if (metadata?.c2b) {
+    return { resultCode: 0, mpesaReceiptNumber: metadata.c2b.transId as string }
+  }
+
+  return {}
+}
+
+// M-Pesa payments for the staff transaction monitor
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const barId = searchParams.get('barId')
+    const days = DATE_RANGE_DAYS[searchParams.get('dateRange') || '7d'] || 7
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    // Customers' phone numbers and receipts: staff who take payments only
+    await requireStaffPermission(supabase, req.headers, barId, 'payments.take')
+
+    const { data: bar, error: barError } = await supabase
+      .from('bars')
+      .select('mpesa_environment')
+      .eq('id', barId)
+      .single()
+
+    if (barError || !bar) {
+      return NextResponse.json({ error: 'Bar not found' }, { status: 404 })
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+    const { data, error } = await supabase
+      .from('tab_payments')
+      .select(`
+        id, tab_id, amount, status, reference, phone_number, metadata, created_at, updated_at, mpesa_till_id,
+        mpesa_till:bar_mpesa_tills(name, business_shortcode, environment),
+        tabs!inner(bar_id, owner_identifier)
+      `)
+      .eq('method', 'mpesa')
+      .eq('tabs.bar_id', barId)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(500)
+
+    if (error) throw error
+
+    const transactions = (data || []).map((payment: any) => {
+      const tab = Array.isArray(payment.tabs) ? payment.tabs[0] : payment.tabs
+      const till = Array.isArray(payment.mpesa_till) ? payment.mpesa_till[0] : payment.mpesa_till
+      const result = readResult(payment.metadata)
+      const status = payment.status === 'success'
+        ? 'completed'
+        : payment.status === 'failed'
+        ? RESULT_CODE_STATUS[result.resultCode ?? -1] || 'failed'
+        : 'pending'
+
+      return {
+        id: payment.id,
+        tabId: payment.tab_id,
+        customerId: tab?.owner_identifier || '',
+        phoneNumber: payment.phone_number || '',
+        amount: Number(payment.amount),
+        currency: 'KES',
+        status,
+        checkoutRequestId: payment.reference || undefined,
+        mpesaReceiptNumber: result.mpesaReceiptNumber,
+        transactionDate: result.transactionDate,
+        failureReason: status === 'completed' ? undefined : result.resultDesc,
+        resultCode: result.resultCode,
+        environment: till?.environment || bar.mpesa_environment || 'sandbox',
+        tillId: payment.mpesa_till_id || null,
+        tillName: till?.name || MAIN_TILL_NAME,
+        createdAt: payment.created_at,
+        updatedAt: payment.updated_at
+      }
+    })
+
+    const completed = transactions.filter(t => t.status === 'completed')
+    const pending = transactions.filter(t => t.status === 'pending').length
+
+    // Completed totals per till; payments on the bar's own shortcode share one row
+    const tillTotals = new Map<string, { tillId: string | null; name: string; count: number; amount: number }>()
+    completed.forEach(t => {
+      const key = t.tillId || 'main'
+      const total = tillTotals.get(key) || { tillId: t.tillId, name: t.tillName, count: 0, amount: 0 }
+      total.count += 1
+      total.amount += t.amount
+      tillTotals.set(key, total)
+    })
+
+    const stats = {
+      total: transactions.length,
+      completed: completed.length,
+      failed: transactions.length - completed.length - pending,
+      pending,
+      totalAmount: completed.reduce((sum, t) => sum + t.amount, 0),
+      successRate: transactions.length > 0 ? (completed.length / transactions.length) * 100 : 0,
+      byTill: Array.from(tillTotals.values()).sort((a, b) => b.amount - a.amount)
+    }
+
+    return NextResponse.json({ success: true, transactions, stats })
+  } catch (err) {
+    console.error('[MPESA TRANSACTIONS] Error:', err)
+
+    if (err instanceof StaffAccessError || err instanceof TabAccessError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode })
+    }
+
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import {
+  approveMpesaRefund,
+  MpesaRefundError,
+  rejectMpesaRefund
+} from '@tabeza/shared/lib/services/mpesa-refunds'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function errorResponse(err: unknown) {
+  console.error('[MPESA REFUNDS] Error:', err)
+
+  if (err instanceof MpesaRefundError || err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// Approve (send to M-Pesa) or reject a pending refund
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const { barId, action, note } = await req.json()
+
+    if (!barId || !['approve', 'reject'].includes(action)) {
+      return NextResponse.json({ error: "Bar ID and an action of 'approve' or 'reject' are required" }, { status: 400 })
+    }
+
+    const { userId } = await requireStaffPermission(supabase, req.headers, barId, 'refunds.approve')
+
+    const refund = action === 'approve'
+      ? await approveMpesaRefund(supabase, barId, id, userId)
+      : await rejectMpesaRefund(supabase, barId, id, userId, note)
+
+    console.log('[MPESA REFUNDS]', action === 'approve' ? 'Approved' : 'Rejected', 'refund', id, 'by', userId)
+    return NextResponse.json({ success: true, refund })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import {
+  listMpesaRefunds,
+  MpesaRefundError,
+  requestMpesaRefund,
+  type MpesaRefundStatus
+} from '@tabeza/shared/lib/services/mpesa-refunds'
+import { hasStaffPermission, requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+function errorResponse(err: unknown) {
+  console.error('[MPESA REFUNDS] Error:', err)
+
+  if (err instanceof MpesaRefundError || err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// Refunds for the bar (optionally one tab or one status) and whether the caller may approve them
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const barId = searchParams.get('barId')
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    // Refunds move money, so only staff who take payments may see or request them
+    const { role } = await requireStaffPermission(supabase, req.headers, barId, 'payments.take')
+    const refunds = await listMpesaRefunds(supabase, barId, {
+      status: (searchParams.get('status') as MpesaRefundStatus) || undefined,
+      tabId: searchParams.get('tabId') || undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      refunds,
+      canApprove: hasStaffPermission(role, 'refunds.approve')
+    })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Request a refund of an M-Pesa payment; it waits for an owner or manager to approve it
+export async function POST(req: Request) {
+  try {
+    const { barId, paymentId, amount, reason } = await req.json()
+
+    if (!barId || !paymentId) {
+      return NextResponse.json({ error: 'Bar ID and payment ID are required' }, { status: 400 })
+    }
+
+    const { userId } = await requireStaffPermission(supabase, req.headers, barId, 'payments.take')
+    const refund = await requestMpesaRefund(supabase, {
+      barId,
+      paymentId,
+      amount: Number(amount),
+      reason,
+      requestedBy: userId
+    })
+
+    console.log('[MPESA REFUNDS] Requested', refund.method, 'refund', refund.id, 'of', refund.amount, 'for payment', paymentId, 'by', userId)
+    return NextResponse.json({ success: true, refund })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { OrderTransitionError } from '@tabeza/shared/lib/services/order-lifecycle'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import { performStaffPushAction, StaffPushError } from '@tabeza/shared/lib/services/staff-push'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+function errorResponse(err: unknown) {
+  console.error('[STAFF PUSH ACTION] Error:', err)
+
+  if (
+    err instanceof StaffPushError ||
+    err instanceof StaffAccessError ||
+    err instanceof OrderTransitionError ||
+    err instanceof TabAccessError
+  ) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// Accept or Acknowledge tapped on a notification. The service worker has no
+// session to send, so the signed token in the notification is the credential.
+export async function POST(req: Request) {
+  try {
+    const { token } = await req.json().catch(() => ({}))
+
+    if (!token) {
+      return NextResponse.json({ error: 'Action token is required' }, { status: 400 })
+    }
+
+    const claims = await performStaffPushAction(supabase, token)
+
+    console.log('[STAFF PUSH ACTION]', claims.action, claims.targetId, 'by user', claims.userId)
+    return NextResponse.json({ success: true, action: claims.action, targetId: claims.targetId })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
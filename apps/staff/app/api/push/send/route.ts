@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { StaffPushDispatcher } from '@tabeza/shared/lib/services/staff-push'
+import { denyWithoutCronSecret } from '@/lib/cronAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+// Staff push worker: pushes queued orders, messages and payments to staff devices.
+// Called by the scheduler every minute with CRON_SECRET; refused while it is unset.
+async function runWorker(req: Request) {
+  const denied = denyWithoutCronSecret(req)
+  if (denied) return denied
+
+  try {
+    const result = await new StaffPushDispatcher(supabase).run()
+
+    if (result.eventsDispatched > 0) {
+      console.log('[STAFF PUSH SEND] Run complete:', result)
+    }
+    return NextResponse.json({ success: true, ...result })
+  } catch (err) {
+    console.error('[STAFF PUSH SEND] Error:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(req: Request) {
+  return runWorker(req)
+}
+
+export async function POST(req: Request) {
+  return runWorker(req)
+}
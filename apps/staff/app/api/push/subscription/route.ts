@@ -0,0 +1,114 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import {
+  getStaffPushPreferences,
+  removeStaffPushSubscription,
+  saveStaffPushSubscription,
+  StaffPushError,
+  updateStaffPushPreferences
+} from '@tabeza/shared/lib/services/staff-push'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+function errorResponse(err: unknown) {
+  console.error('[STAFF PUSH] Error:', err)
+
+  if (err instanceof StaffPushError || err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// The signed-in staff member's push preferences at a bar
+export async function GET(req: Request) {
+  try {
+    const barId = new URL(req.url).searchParams.get('barId')
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    const membership = await requireStaffPermission(supabase, req.headers, barId)
+    const preferences = await getStaffPushPreferences(supabase, membership.userId, barId)
+
+    return NextResponse.json({ success: true, preferences })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Register this device for the bar's alerts
+export async function POST(req: Request) {
+  try {
+    const { barId, subscription } = await req.json()
+
+    if (!barId || !subscription?.endpoint) {
+      return NextResponse.json({ error: 'Bar ID and subscription are required' }, { status: 400 })
+    }
+
+    const membership = await requireStaffPermission(supabase, req.headers, barId)
+    await saveStaffPushSubscription(
+      supabase,
+      membership,
+      {
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys?.p256dh,
+        auth: subscription.keys?.auth
+      },
+      req.headers.get('user-agent')
+    )
+
+    console.log('[STAFF PUSH] Device subscribed for user', membership.userId, 'at bar', barId)
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Choose which events are pushed
+export async function PATCH(req: Request) {
+  try {
+    const { barId, preferences } = await req.json()
+
+    if (!barId || !preferences || typeof preferences !== 'object') {
+      return NextResponse.json({ error: 'Bar ID and preferences are required' }, { status: 400 })
+    }
+
+    const membership = await requireStaffPermission(supabase, req.headers, barId)
+    const saved = await updateStaffPushPreferences(supabase, membership.userId, barId, preferences)
+
+    return NextResponse.json({ success: true, preferences: saved })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Stop pushing to this device
+export async function DELETE(req: Request) {
+  try {
+    const { barId, endpoint } = await req.json()
+
+    if (!barId || !endpoint) {
+      return NextResponse.json({ error: 'Bar ID and endpoint are required' }, { status: 400 })
+    }
+
+    const membership = await requireStaffPermission(supabase, req.headers, barId)
+    await removeStaffPushSubscription(supabase, membership.userId, endpoint)
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { generateDailyReport, DailyReportError } from '@tabeza/shared/lib/services/daily-report'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const barId = searchParams.get('barId')
+    const date = searchParams.get('date') || undefined
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'reports.view')
+
+    const report = await generateDailyReport(supabase, barId, date)
+
+    console.log('[DAILY REPORT] Generated report for bar:', barId, report.businessDate)
+    return NextResponse.json({ success: true, report })
+
+  } catch (err) {
+    console.error('[DAILY REPORT] Error:', err)
+
+    if (err instanceof DailyReportError || err instanceof StaffAccessError || err instanceof TabAccessError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode })
+    }
+
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { createReportExport, parseExportRequest, ReportExportError } from '@tabeza/shared/lib/services/report-export'
+import { DailyReportError } from '@tabeza/shared/lib/services/daily-report'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const request = parseExportRequest({
+      barId: searchParams.get('barId'),
+      entity: searchParams.get('entity'),
+      from: searchParams.get('from'),
+      to: searchParams.get('to'),
+      format: searchParams.get('format')
+    })
+
+    // Payments carry customers' phone numbers and M-Pesa receipts
+    await requireStaffPermission(supabase, req.headers, request.barId, 'reports.view')
+
+    const file = await createReportExport(supabase, request)
+
+    console.log('[REPORT EXPORT] Exporting', request.entity, 'for bar:', request.barId, `${request.from}..${request.to}`, request.format)
+
+    return new Response(file.body as BodyInit, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+
+  } catch (err) {
+    console.error('[REPORT EXPORT] Error:', err)
+
+    if (err instanceof ReportExportError || err instanceof DailyReportError || err instanceof StaffAccessError || err instanceof TabAccessError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode })
+    }
+
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import { acceptStaffInvite, getStaffInviteByToken, isInviteOpen } from '@tabeza/shared/lib/services/staff-invites'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+function errorResponse(err: unknown) {
+  console.error('[STAFF INVITES] Error:', err)
+
+  if (err instanceof StaffAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// What the link invites to, shown before signing in
+export async function GET(req: Request) {
+  try {
+    const token = new URL(req.url).searchParams.get('token')
+
+    if (!token) {
+      return NextResponse.json({ error: 'Invitation token is required' }, { status: 400 })
+    }
+
+    const invite = await getStaffInviteByToken(supabase, token)
+
+    return NextResponse.json({
+      success: true,
+      invite: {
+        email: invite.email,
+        role: invite.role,
+        barName: invite.bar_name,
+        expiresAt: invite.expires_at,
+        open: isInviteOpen(invite)
+      }
+    })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Accept the invitation as the signed-in user
+export async function POST(req: Request) {
+  try {
+    const { token } = await req.json().catch(() => ({}))
+    const accessToken = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+
+    if (!token) {
+      return NextResponse.json({ error: 'Invitation token is required' }, { status: 400 })
+    }
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Sign in to accept this invitation' }, { status: 401 })
+    }
+
+    const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+    if (error || !user) {
+      return NextResponse.json({ error: 'Your session has expired. Sign in again.' }, { status: 401 })
+    }
+
+    const membership = await acceptStaffInvite(supabase, token, user)
+
+    console.log('[STAFF INVITES] Accepted by', user.id, 'for bar', membership.barId, 'as', membership.role)
+    return NextResponse.json({ success: true, ...membership })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import { createStaffInvite, revokeStaffInvite } from '@tabeza/shared/lib/services/staff-invites'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+function errorResponse(err: unknown) {
+  console.error('[STAFF INVITES] Error:', err)
+
+  if (err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// Invite someone by email; the link is returned once for the owner to share
+export async function POST(req: Request) {
+  try {
+    const { barId, email, role } = await req.json().catch(() => ({}))
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    const owner = await requireStaffPermission(supabase, req.headers, barId, 'staff.manage')
+    const { invite, token } = await createStaffInvite(supabase, { barId, email, role, invitedBy: owner.userId })
+
+    console.log('[STAFF INVITES] Invited', invite.email, 'as', invite.role, 'to bar', barId)
+    return NextResponse.json({
+      success: true,
+      invite,
+      link: `${new URL(req.url).origin}/invite/${token}`
+    })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Withdraw an invitation that has not been accepted
+export async function DELETE(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const barId = searchParams.get('barId')
+    const inviteId = searchParams.get('inviteId')
+
+    if (!barId || !inviteId) {
+      return NextResponse.json({ error: 'Bar ID and invite ID are required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'staff.manage')
+    await revokeStaffInvite(supabase, barId, inviteId)
+
+    console.log('[STAFF INVITES] Revoked invite', inviteId, 'for bar', barId)
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import {
+  listStaffInvites,
+  listStaffMembers,
+  removeStaffMember,
+  updateStaffRole
+} from '@tabeza/shared/lib/services/staff-invites'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+function errorResponse(err: unknown) {
+  console.error('[STAFF] Error:', err)
+
+  if (err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// Everyone with access to the bar, and invitations not yet accepted
+export async function GET(req: Request) {
+  try {
+    const barId = new URL(req.url).searchParams.get('barId')
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    const { userId } = await requireStaffPermission(supabase, req.headers, barId, 'staff.manage')
+    const [members, invites] = await Promise.all([
+      listStaffMembers(supabase, barId),
+      listStaffInvites(supabase, barId)
+    ])
+
+    return NextResponse.json({ success: true, members, invites, currentUserId: userId })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Change a member's role
+export async function PATCH(req: Request) {
+  try {
+    const { barId, userId, role } = await req.json().catch(() => ({}))
+
+    if (!barId || !userId) {
+      return NextResponse.json({ error: 'Bar ID and user ID are required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'staff.manage')
+    const updated = await updateStaffRole(supabase, barId, userId, role)
+
+    console.log('[STAFF] Role changed:', barId, userId, updated)
+    return NextResponse.json({ success: true, role: updated })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Revoke a member's access to the bar
+export async function DELETE(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const barId = searchParams.get('barId')
+    const userId = searchParams.get('userId')
+
+    if (!barId || !userId) {
+      return NextResponse.json({ error: 'Bar ID and user ID are required' }, { status: 400 })
+    }
+
+    const owner = await requireStaffPermission(supabase, req.headers, barId, 'staff.manage')
+    await removeStaffMember(supabase, barId, userId, owner.userId)
+
+    console.log('[STAFF] Access revoked:', barId, userId)
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
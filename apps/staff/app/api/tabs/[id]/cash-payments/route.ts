@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { resolveTabRequester, TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { CashDrawerError, recordCashPayment } from '@tabeza/shared/lib/services/cash-drawer'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function errorResponse(err: unknown) {
+  console.error('[CASH PAYMENT] Error:', err)
+
+  if (err instanceof CashDrawerError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// Record cash taken on the tab, under the caller's open drawer when they have one
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const requester = await resolveTabRequester(supabase, req.headers)
+    const { amount } = await req.json()
+
+    const { payment, shift } = await recordCashPayment(supabase, id, requester, Number(amount))
+
+    console.log('[CASH PAYMENT] Recorded', payment.amount, 'on tab', id, shift ? `under shift ${shift.id}` : 'with no open shift')
+    return NextResponse.json({ success: true, payment, shiftId: shift?.id ?? null })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
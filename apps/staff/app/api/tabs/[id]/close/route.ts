@@ -0,0 +1,179 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import { settleClosedTabDeposit } from '@tabeza/shared/lib/services/tab-credit'
+import { fileClosedTabReceipt } from '@tabeza/shared/lib/services/tab-receipts'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+type CloseAction = 'close' | 'overdue' | 'write_off'
+
+const formatAmount = (amount: number) => `KSh ${new Intl.NumberFormat('en-US').format(amount)}`
+
+// The tab is closed either way: a filing error leaves the receipt to be retried when it is printed
+async function fileReceipt(tabId: string) {
+  try {
+    const receipt = await fileClosedTabReceipt(supabase, tabId)
+    return receipt.etims
+  } catch (err) {
+    console.error('[TAB CLOSE] Failed to file receipt:', tabId, err)
+    return null
+  }
+}
+
+// Applies the deposit or requests the refund of its unused part; on an error the
+// deposit is left unsettled for the Settle Deposit button
+async function settleDeposit(tabId: string, userId: string) {
+  try {
+    return await settleClosedTabDeposit(supabase, tabId, userId)
+  } catch (err) {
+    console.error('[TAB CLOSE] Failed to settle deposit:', tabId, err)
+    return null
+  }
+}
+
+function errorResponse(err: unknown) {
+  console.error('[TAB CLOSE] Error:', err)
+
+  if (err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+/**
+ * Close a tab, push its unpaid balance to overdue, or write an overdue tab off.
+ * A closed tab's deposit is settled, and its receipt numbered and filed with
+ * eTIMS when the bar has it on.
+ * Body: { action: 'close' | 'overdue' | 'write_off' }
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const { action } = await req.json().catch(() => ({})) as { action?: CloseAction }
+
+    if (action !== 'close' && action !== 'overdue' && action !== 'write_off') {
+      return NextResponse.json({ error: 'Action must be close, overdue or write_off' }, { status: 400 })
+    }
+
+    const { data: tab, error: tabError } = await supabase
+      .from('tabs')
+      .select('id, bar_id, status')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (tabError) throw tabError
+    if (!tab) {
+      return NextResponse.json({ error: 'Tab not found' }, { status: 404 })
+    }
+
+    const { userId } = await requireStaffPermission(supabase, req.headers, tab.bar_id, action === 'write_off' ? 'tabs.write_off' : 'tabs.close')
+
+    const { data: balanceRow, error: balanceError } = await supabase
+      .from('tab_balances')
+      .select('balance')
+      .eq('tab_id', id)
+      .maybeSingle()
+
+    if (balanceError) throw balanceError
+    const balance = Number(balanceRow?.balance) || 0
+
+    if (action === 'write_off') {
+      if (tab.status !== 'overdue') {
+        return NextResponse.json({ error: 'Only overdue tabs can be written off' }, { status: 409 })
+      }
+
+      // close_tab records the balance in tab_write_offs, where the Z-report picks it up
+      const { error: writeOffError } = await supabase.rpc('close_tab', {
+        p_tab_id: id,
+        p_write_off_amount: Math.max(balance, 0)
+      })
+
+      if (writeOffError) throw writeOffError
+
+      const { error } = await supabase
+        .from('tabs')
+        .update({
+          closed_by: 'staff',
+          overdue_reason: `Written off as bad debt: ${formatAmount(balance)}`
+        })
+        .eq('id', id)
+
+      if (error) throw error
+
+      console.log('[TAB CLOSE] Written off:', id, balance)
+      const deposit = await settleDeposit(id, userId)
+      const etims = await fileReceipt(id)
+      return NextResponse.json({ success: true, status: 'closed', balance, deposit, etims })
+    }
+
+    if (tab.status === 'closed') {
+      return NextResponse.json({ error: 'Tab is already closed' }, { status: 409 })
+    }
+
+    const { count: pendingOrders, error: pendingError } = await supabase
+      .from('tab_orders')
+      .select('id', { count: 'exact', head: true })
+      .eq('tab_id', id)
+      .eq('status', 'pending')
+
+    if (pendingError) throw pendingError
+    if (pendingOrders) {
+      return NextResponse.json({ error: 'Pending orders detected. Please resolve them first.' }, { status: 409 })
+    }
+
+    if (action === 'close' && balance > 0) {
+      return NextResponse.json({ error: `Tab still owes ${formatAmount(balance)}` }, { status: 409 })
+    }
+    if (action === 'overdue' && balance <= 0) {
+      return NextResponse.json({ error: 'Tab has no unpaid balance' }, { status: 409 })
+    }
+
+    // Overdue is not a write-off: the balance can still be paid, and is only
+    // recorded in tab_write_offs if staff write the tab off later
+    if (action === 'close') {
+      const { error: closeError } = await supabase.rpc('close_tab', {
+        p_tab_id: id,
+        p_write_off_amount: 0
+      })
+
+      if (closeError) throw closeError
+    } else {
+      const { error: overdueError } = await supabase
+        .from('tabs')
+        .update({
+          status: 'overdue',
+          moved_to_overdue_at: new Date().toISOString(),
+          overdue_reason: 'Unpaid balance pushed to bad debt',
+          closed_by: 'staff'
+        })
+        .eq('id', id)
+
+      if (overdueError) throw overdueError
+    }
+
+    console.log('[TAB CLOSE]', action === 'overdue' ? 'Pushed to overdue:' : 'Closed:', id, balance)
+    if (action === 'overdue') {
+      return NextResponse.json({ success: true, status: 'overdue', balance })
+    }
+
+    const deposit = await settleDeposit(id, userId)
+    const etims = await fileReceipt(id)
+    return NextResponse.json({ success: true, status: 'closed', balance, deposit, etims })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
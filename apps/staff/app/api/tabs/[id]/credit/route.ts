@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { resolveTabRequester, TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { MpesaRefundError } from '@tabeza/shared/lib/services/mpesa-refunds'
+import {
+  getTabCredit,
+  setTabCreditLimit,
+  settleTabDeposit,
+  TabCreditError
+} from '@tabeza/shared/lib/services/tab-credit'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function errorResponse(err: unknown) {
+  console.error('[TAB CREDIT] Error:', err)
+
+  if (err instanceof TabCreditError || err instanceof TabAccessError || err instanceof MpesaRefundError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// The tab's deposit, limit and projected balance
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const requester = await resolveTabRequester(supabase, req.headers)
+    const credit = await getTabCredit(supabase, id, requester)
+
+    return NextResponse.json({ success: true, credit })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Change this tab's limit; { creditLimit: null } lifts it
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const requester = await resolveTabRequester(supabase, req.headers)
+    const { creditLimit } = await req.json()
+
+    const limit = creditLimit === null || creditLimit === '' ? null : Number(creditLimit)
+    const credit = await setTabCreditLimit(supabase, id, requester, limit)
+
+    console.log('[TAB CREDIT] Limit updated:', id, limit)
+    return NextResponse.json({ success: true, credit })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Settle the deposit of a closed tab: applied, or the unused part put in for a refund
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const requester = await resolveTabRequester(supabase, req.headers)
+    const result = await settleTabDeposit(supabase, id, requester)
+
+    console.log('[TAB CREDIT] Deposit settled:', id, result.settlement, result.refundAmount)
+    return NextResponse.json({ success: true, ...result })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { resolveTabRequester, TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import {
+  cancelPaymentPlan,
+  chargePlanInstallment,
+  createPaymentPlan,
+  getTabPaymentPlan,
+  PaymentPlanError
+} from '@tabeza/shared/lib/services/payment-plans'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function errorResponse(err: unknown) {
+  console.error('[PAYMENT PLAN] Error:', err)
+
+  if (err instanceof PaymentPlanError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const requester = await resolveTabRequester(supabase, req.headers)
+    const plan = await getTabPaymentPlan(supabase, id, requester)
+
+    return NextResponse.json({ success: true, plan })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Agree an installment schedule for the tab's overdue balance
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const requester = await resolveTabRequester(supabase, req.headers)
+    const body = await req.json().catch(() => null)
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 })
+    }
+
+    const plan = await createPaymentPlan(supabase, id, requester, {
+      installmentCount: Number(body.installmentCount),
+      frequency: body.frequency,
+      firstDueDate: body.firstDueDate,
+      phoneNumber: body.phoneNumber,
+      notes: body.notes
+    })
+
+    console.log('[PAYMENT PLAN] Created', plan.frequency, 'plan for tab', id, 'with', plan.installments.length, 'installments of', plan.total_amount)
+    return NextResponse.json({ success: true, plan })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Send the M-Pesa prompt for one installment now (retry a missed one or take one early)
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const requester = await resolveTabRequester(supabase, req.headers)
+    const { installmentId, station } = await req.json().catch(() => ({}))
+
+    if (!installmentId) {
+      return NextResponse.json({ error: 'Installment ID is required' }, { status: 400 })
+    }
+
+    const result = await chargePlanInstallment(
+      supabase,
+      id,
+      installmentId,
+      requester,
+      typeof station === 'string' && station.trim() ? station : null
+    )
+
+    console.log('[PAYMENT PLAN] Charged installment', installmentId, 'on tab', id, result.checkoutRequestId)
+    return NextResponse.json({ success: true, ...result })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const requester = await resolveTabRequester(supabase, req.headers)
+    const { searchParams } = new URL(req.url)
+    await cancelPaymentPlan(supabase, id, requester, searchParams.get('reason') || undefined)
+
+    console.log('[PAYMENT PLAN] Cancelled plan for tab', id)
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
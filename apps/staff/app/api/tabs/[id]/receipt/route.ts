@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { resolveTabRequester, TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import {
+  buildReceiptPdf,
+  fileClosedTabReceipt,
+  getReceiptFilename,
+  getTabReceipt,
+  TabReceiptError
+} from '@tabeza/shared/lib/services/tab-receipts'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function errorResponse(err: unknown) {
+  console.error('[TAB RECEIPT] Error:', err)
+
+  if (err instanceof TabReceiptError || err instanceof TabAccessError || err instanceof StaffAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// The tab's receipt for reprinting: JSON, or an 80mm PDF with ?format=pdf
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const requester = await resolveTabRequester(supabase, req.headers)
+    const receipt = await getTabReceipt(supabase, id, requester)
+
+    if (new URL(req.url).searchParams.get('format') === 'pdf') {
+      return new Response(buildReceiptPdf(receipt) as BodyInit, {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `inline; filename="${getReceiptFilename(receipt)}"`,
+          'Cache-Control': 'no-store'
+        }
+      })
+    }
+
+    return NextResponse.json({ success: true, receipt })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// File a closed tab's receipt with eTIMS again after a failed submission
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+
+    const { data: tab, error: tabError } = await supabase
+      .from('tabs')
+      .select('id, bar_id, status')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (tabError) throw tabError
+    if (!tab) {
+      return NextResponse.json({ error: 'Tab not found' }, { status: 404 })
+    }
+    if (tab.status !== 'closed') {
+      return NextResponse.json({ error: 'Only a closed tab can be filed with eTIMS' }, { status: 409 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, tab.bar_id, 'tabs.close')
+
+    const receipt = await fileClosedTabReceipt(supabase, id)
+    return NextResponse.json({ success: true, receipt })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import {
+  getTabSnapshot,
+  parseTabDetailsUpdate,
+  resolveTabRequester,
+  updateTabDetails,
+  TabAccessError
+} from '@tabeza/shared/lib/services/tab-details'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function errorResponse(err: unknown) {
+  console.error('[TAB DETAILS] Error:', err)
+
+  if (err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const requester = await resolveTabRequester(supabase, req.headers)
+    const snapshot = await getTabSnapshot(supabase, id, requester)
+
+    return NextResponse.json({ success: true, ...snapshot })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const requester = await resolveTabRequester(supabase, req.headers)
+    const update = parseTabDetailsUpdate(await req.json().catch(() => null))
+    const snapshot = await updateTabDetails(supabase, id, requester, update)
+
+    console.log('[TAB DETAILS] Updated tab:', id, Object.keys(update))
+    return NextResponse.json({ success: true, ...snapshot })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { resolveTabRequester, TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import {
+  cancelTabSplit,
+  createTabSplit,
+  getTabSplit,
+  TabSplitError
+} from '@tabeza/shared/lib/services/tab-split'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function errorResponse(err: unknown) {
+  console.error('[TAB SPLIT] Error:', err)
+
+  if (err instanceof TabSplitError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const requester = await resolveTabRequester(supabase, req.headers)
+    const split = await getTabSplit(supabase, id, requester)
+
+    return NextResponse.json({ success: true, split })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const requester = await resolveTabRequester(supabase, req.headers)
+    const body = await req.json().catch(() => null)
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 })
+    }
+
+    const split = await createTabSplit(supabase, id, requester, body)
+
+    console.log('[TAB SPLIT] Created', split.mode, 'split for tab', id, 'with', split.shares.length, 'shares')
+    return NextResponse.json({ success: true, split })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const requester = await resolveTabRequester(supabase, req.headers)
+    await cancelTabSplit(supabase, id, requester)
+
+    console.log('[TAB SPLIT] Cancelled split for tab', id)
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
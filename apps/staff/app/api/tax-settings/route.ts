@@ -0,0 +1,134 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import {
+  EtimsError,
+  getEtimsAdapter,
+  KRA_PIN_PATTERN,
+  listEtimsAdapters
+} from '@tabeza/shared/lib/services/etims'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+function errorResponse(err: unknown) {
+  console.error('[TAX SETTINGS] Error:', err)
+
+  if (err instanceof EtimsError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  if (err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json()
+    console.log('[TAX SETTINGS] Received request:', body)
+
+    const {
+      barId,
+      prices_include_tax,
+      kra_pin,
+      etims_enabled,
+      etims_adapter,
+      etims_branch_id,
+      etims_device_serial
+    } = body
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.payments')
+
+    const pin = typeof kra_pin === 'string' ? kra_pin.trim().toUpperCase() : ''
+    if (pin && !KRA_PIN_PATTERN.test(pin)) {
+      return NextResponse.json({ error: 'KRA PIN must look like P051234567X' }, { status: 400 })
+    }
+    if (etims_enabled && !pin) {
+      return NextResponse.json({ error: 'A KRA PIN is required to issue eTIMS invoices' }, { status: 400 })
+    }
+
+    const branchId = typeof etims_branch_id === 'string' && etims_branch_id.trim() ? etims_branch_id.trim() : '00'
+    if (!/^\d{2}$/.test(branchId)) {
+      return NextResponse.json({ error: 'Branch ID must be two digits, e.g. 00' }, { status: 400 })
+    }
+
+    const adapter = getEtimsAdapter(etims_adapter || 'stub')
+
+    const { error } = await supabase
+      .from('bars')
+      .update({
+        prices_include_tax: prices_include_tax ?? true,
+        kra_pin: pin || null,
+        etims_enabled: etims_enabled || false,
+        etims_adapter: adapter.name,
+        etims_branch_id: branchId,
+        etims_device_serial: etims_device_serial?.trim() || null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', barId)
+
+    if (error) {
+      console.error('[TAX SETTINGS] Database error:', error)
+      return NextResponse.json({ error: 'Failed to save settings' }, { status: 500 })
+    }
+
+    console.log('[TAX SETTINGS] Successfully saved settings for bar:', barId, adapter.name)
+    return NextResponse.json({ success: true })
+
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export async function GET(req: Request) {
+  try {
+    const barId = new URL(req.url).searchParams.get('barId')
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.payments')
+
+    const { data, error } = await supabase
+      .from('bars')
+      .select('prices_include_tax, kra_pin, etims_enabled, etims_adapter, etims_branch_id, etims_device_serial')
+      .eq('id', barId)
+      .single()
+
+    if (error) {
+      console.error('[TAX SETTINGS] Get error:', error)
+      return NextResponse.json({ error: 'Failed to fetch settings' }, { status: 500 })
+    }
+
+    const settings = {
+      prices_include_tax: data.prices_include_tax ?? true,
+      kra_pin: data.kra_pin || '',
+      etims_enabled: data.etims_enabled ?? false,
+      etims_adapter: data.etims_adapter || 'stub',
+      etims_branch_id: data.etims_branch_id || '00',
+      etims_device_serial: data.etims_device_serial || ''
+    }
+
+    return NextResponse.json({ success: true, settings, adapters: listEtimsAdapters() })
+
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { denyWithoutPermission } from '@/lib/staffAccess';
 
 // Force dynamic to avoid caching issues
 export const dynamic = 'force-dynamic';
@@ -36,6 +37,9 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Missing file or barId' }, { status: 400 });
     }
 
+    const denied = await denyWithoutPermission(req, barId, 'menu.edit');
+    if (denied) return denied;
+
     if (file.size > 10 * 1024 * 1024) {
       console.error('❌ File too large');
       return NextResponse.json({ error: 'Image too large (max 10MB)' }, { status: 400 });
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { denyWithoutPermission } from '@/lib/staffAccess';
 
 // Force dynamic to avoid caching issues
 export const dynamic = 'force-dynamic';
@@ -46,6 +47,9 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Missing barId' }, { status: 400 });
     }
 
+    const denied = await denyWithoutPermission(req, barId, 'menu.edit');
+    if (denied) return denied;
+
     if (!files.length) {
       console.error('❌ No files provided');
       return NextResponse.json({ error: 'No files provided' }, { status: 400 });
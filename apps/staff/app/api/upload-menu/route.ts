@@ -1,6 +1,7 @@
 // apps/staff/app/api/upload-menu/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { denyWithoutPermission } from '@/lib/staffAccess';
 
 // Force dynamic to avoid caching issues
 export const dynamic = 'force-dynamic';
@@ -88,6 +89,9 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    const denied = await denyWithoutPermission(request, barId, 'menu.edit');
+    if (denied) return denied;
+
     // Validate file type - Images only
     const allowedTypes = [
       // 'application/pdf', // PDF support temporarily disabled
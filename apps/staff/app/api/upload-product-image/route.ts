@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import sharp from 'sharp';
 import { createClient } from '@supabase/supabase-js';
+import { denyWithoutPermission } from '@/lib/staffAccess';
 
 // Create Supabase client for server-side use
 const supabase = createClient(
@@ -15,6 +16,7 @@ export async function POST(request: NextRequest) {
     
     const formData = await request.formData();
     const file = formData.get('image') as File;
+    const barId = formData.get('barId') as string;
     
     console.log('File received:', file?.name, file?.size, file?.type);
     
@@ -22,6 +24,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No image provided' }, { status: 400 });
     }
 
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 });
+    }
+
+    const denied = await denyWithoutPermission(request, barId, 'menu.edit');
+    if (denied) return denied;
+
     // Upload to Supabase Storage
     return await uploadAndRespond(Buffer.from(await file.arrayBuffer()), { width: 800, height: 1000 });
 
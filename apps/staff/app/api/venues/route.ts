@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import { getVenueSummaries, StaffVenueError, switchStaffVenue } from '@tabeza/shared/lib/services/staff-venues'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+function errorResponse(err: unknown) {
+  console.error('[VENUES] Error:', err)
+
+  if (err instanceof StaffAccessError || err instanceof StaffVenueError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+async function getSignedInUser(req: Request) {
+  const accessToken = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+  if (!accessToken) {
+    throw new StaffAccessError('Staff sign-in required', 401)
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+  if (error || !user) {
+    throw new StaffAccessError('Your session has expired. Sign in again.', 401)
+  }
+  return user
+}
+
+// Open tabs, today's revenue and overdue totals for each of the user's bars
+export async function GET(req: Request) {
+  try {
+    const user = await getSignedInUser(req)
+    const venues = await getVenueSummaries(supabase, user.id)
+
+    return NextResponse.json({
+      success: true,
+      venues,
+      currentBarId: user.user_metadata?.bar_id || null
+    })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+// Switch the bar the session is scoped to
+export async function POST(req: Request) {
+  try {
+    const { barId } = await req.json().catch(() => ({}))
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    const user = await getSignedInUser(req)
+    const membership = await switchStaffVenue(supabase, user, barId)
+
+    console.log('[VENUES] User', user.id, 'switched to bar', barId, 'as', membership.role)
+    return NextResponse.json({ success: true, ...membership })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
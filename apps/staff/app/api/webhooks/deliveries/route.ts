@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { WebhookDeliveryService, WebhookError } from '@tabeza/shared/lib/services/webhook-service'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+// Recent delivery log for the settings page
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const barId = searchParams.get('barId')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '25', 10) || 25, 100)
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.bar')
+
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('id, endpoint_id, event_type, status, attempts, next_attempt_at, response_status, error, duration_ms, delivered_at, created_at')
+      .eq('bar_id', barId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true, deliveries: data || [] })
+  } catch (err) {
+    console.error('[WEBHOOK DELIVERIES] Error:', err)
+
+    if (err instanceof StaffAccessError || err instanceof TabAccessError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode })
+    }
+
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Queue a failed delivery to be sent again on the next worker run
+export async function POST(req: Request) {
+  try {
+    const { barId, deliveryId } = await req.json()
+
+    if (!barId || !deliveryId) {
+      return NextResponse.json({ error: 'Bar ID and delivery ID are required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.bar')
+
+    await new WebhookDeliveryService(supabase).redeliver(deliveryId, barId)
+
+    console.log('[WEBHOOK DELIVERIES] Queued redelivery:', deliveryId)
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('[WEBHOOK DELIVERIES] Error:', err)
+
+    if (err instanceof WebhookError || err instanceof StaffAccessError || err instanceof TabAccessError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode })
+    }
+
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,171 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import {
+  assertPublicWebhookUrl,
+  generateWebhookSecret,
+  validateWebhookEndpointInput,
+  WebhookError
+} from '@tabeza/shared/lib/services/webhook-service'
+import { requireStaffPermission, StaffAccessError } from '@tabeza/shared/lib/services/staff-roles'
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+const ENDPOINT_COLUMNS = 'id, bar_id, url, events, description, enabled, created_at, updated_at'
+
+function errorResponse(err: unknown) {
+  console.error('[WEBHOOK ENDPOINTS] Error:', err)
+
+  if (err instanceof WebhookError || err instanceof StaffAccessError || err instanceof TabAccessError) {
+    return NextResponse.json({ error: err.message }, { status: err.statusCode })
+  }
+
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : 'Unknown error' },
+    { status: 500 }
+  )
+}
+
+// List a bar's endpoints. Secrets are only returned once, when an endpoint is created.
+export async function GET(req: Request) {
+  try {
+    const barId = new URL(req.url).searchParams.get('barId')
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    // Endpoints receive every tab and payment event, so only owners and managers manage them
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.bar')
+
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .select(ENDPOINT_COLUMNS)
+      .eq('bar_id', barId)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true, endpoints: data || [] })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { barId, url, events, description } = await req.json()
+
+    if (!barId) {
+      return NextResponse.json({ error: 'Bar ID is required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.bar')
+
+    const input = validateWebhookEndpointInput({ url, events })
+    await assertPublicWebhookUrl(input.url)
+    const secret = generateWebhookSecret()
+
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .insert({
+        bar_id: barId,
+        url: input.url,
+        events: input.events,
+        description: description || null,
+        secret
+      })
+      .select(ENDPOINT_COLUMNS)
+      .single()
+
+    if (error) throw error
+
+    console.log('[WEBHOOK ENDPOINTS] Registered endpoint for bar:', barId, input.url, input.events)
+    return NextResponse.json({ success: true, endpoint: { ...data, secret } })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export async function PATCH(req: Request) {
+  try {
+    const { barId, endpointId, url, events, description, enabled } = await req.json()
+
+    if (!barId || !endpointId) {
+      return NextResponse.json({ error: 'Bar ID and endpoint ID are required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.bar')
+
+    const updates: Record<string, any> = {}
+    if (url !== undefined || events !== undefined) {
+      const { data: existing, error: existingError } = await supabase
+        .from('webhook_endpoints')
+        .select('url, events')
+        .eq('id', endpointId)
+        .eq('bar_id', barId)
+        .single()
+
+      if (existingError || !existing) {
+        return NextResponse.json({ error: 'Endpoint not found' }, { status: 404 })
+      }
+
+      const input = validateWebhookEndpointInput({
+        url: url ?? existing.url,
+        events: events ?? existing.events
+      })
+      await assertPublicWebhookUrl(input.url)
+      updates.url = input.url
+      updates.events = input.events
+    }
+    if (description !== undefined) updates.description = description || null
+    if (enabled !== undefined) updates.enabled = Boolean(enabled)
+
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .update(updates)
+      .eq('id', endpointId)
+      .eq('bar_id', barId)
+      .select(ENDPOINT_COLUMNS)
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true, endpoint: data })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const barId = searchParams.get('barId')
+    const endpointId = searchParams.get('endpointId')
+
+    if (!barId || !endpointId) {
+      return NextResponse.json({ error: 'Bar ID and endpoint ID are required' }, { status: 400 })
+    }
+
+    await requireStaffPermission(supabase, req.headers, barId, 'settings.bar')
+
+    const { error } = await supabase
+      .from('webhook_endpoints')
+      .delete()
+      .eq('id', endpointId)
+      .eq('bar_id', barId)
+
+    if (error) throw error
+
+    console.log('[WEBHOOK ENDPOINTS] Removed endpoint:', endpointId)
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
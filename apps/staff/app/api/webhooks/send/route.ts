@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { WebhookDeliveryService } from '@tabeza/shared/lib/services/webhook-service'
+import { denyWithoutCronSecret } from '@/lib/cronAuth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+)
+
+// Webhook worker: fans out queued events and delivers everything that is due.
+// Called by the scheduler with CRON_SECRET; refused while it is unset.
+async function runWorker(req: Request) {
+  const denied = denyWithoutCronSecret(req)
+  if (denied) return denied
+
+  try {
+    const result = await new WebhookDeliveryService(supabase).run()
+
+    if (result.eventsDispatched > 0 || result.deliveriesAttempted > 0) {
+      console.log('[WEBHOOK SEND] Run complete:', result)
+    }
+    return NextResponse.json({ success: true, ...result })
+  } catch (err) {
+    console.error('[WEBHOOK SEND] Error:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(req: Request) {
+  return runWorker(req)
+}
+
+export async function POST(req: Request) {
+  return runWorker(req)
+}
@@ -0,0 +1,247 @@
+// app/invite/[token]/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { Lock, AlertCircle, Users } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import Logo from '@/components/Logo';
+import { STAFF_ROLE_LABELS, type StaffRole } from '@tabeza/shared/lib/services/staff-roles';
+
+interface InviteDetails {
+  email: string;
+  role: StaffRole;
+  barName: string | null;
+  expiresAt: string;
+  open: boolean;
+}
+
+export default function StaffInvitePage() {
+  const router = useRouter();
+  const params = useParams();
+  const token = params.token as string;
+
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [signedInEmail, setSignedInEmail] = useState<string | null>(null);
+  const [mode, setMode] = useState<'signin' | 'signup'>('signin');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/staff/invites/accept?token=${encodeURIComponent(token)}`);
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'This invitation link is not valid');
+        setInvite(result.invite);
+
+        const { data: { session } } = await supabase.auth.getSession();
+        setSignedInEmail(session?.user.email?.toLowerCase() || null);
+      } catch (err: any) {
+        setError(err.message || 'This invitation link is not valid');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [token]);
+
+  const acceptInvite = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Sign in to accept this invitation');
+
+    const response = await fetch('/api/staff/invites/accept', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ token })
+    });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || 'Failed to accept invitation');
+
+    // Pick up the bar the accept step put on the login
+    await supabase.auth.refreshSession();
+    router.push('/');
+  };
+
+  const handleAccept = async () => {
+    setWorking(true);
+    setError('');
+    try {
+      await acceptInvite();
+    } catch (err: any) {
+      setError(err.message || 'Failed to accept invitation');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut();
+    setSignedInEmail(null);
+  };
+
+  const handleCredentials = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invite) return;
+    setWorking(true);
+    setError('');
+    setNotice('');
+
+    try {
+      if (mode === 'signin') {
+        const { error: signInError } = await supabase.auth.signInWithPassword({ email: invite.email, password });
+        if (signInError) throw signInError;
+      } else {
+        const { data, error: signUpError } = await supabase.auth.signUp({
+          email: invite.email,
+          password,
+          options: { emailRedirectTo: window.location.href }
+        });
+        if (signUpError) throw signUpError;
+        if (!data.session) {
+          setNotice(`We sent a confirmation email to ${invite.email}. Confirm it, then open this link again.`);
+          return;
+        }
+      }
+
+      await acceptInvite();
+    } catch (err: any) {
+      setError(err.message || 'Failed to sign in');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const roleLabel = invite ? STAFF_ROLE_LABELS[invite.role] : '';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 to-red-50">
+      <div className="bg-gradient-to-r from-orange-500 to-red-600 text-white py-10 px-4">
+        <div className="max-w-md mx-auto text-center">
+          <div className="flex items-center justify-center mb-4">
+            <Logo size="lg" variant="white" />
+          </div>
+          <h1 className="text-2xl font-bold">Staff Invitation</h1>
+        </div>
+      </div>
+
+      <div className="py-10 px-4">
+        <div className="max-w-md mx-auto bg-white rounded-2xl shadow-xl p-8">
+          {loading ? (
+            <div className="text-center py-6">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-orange-500 mx-auto mb-4"></div>
+              <p className="text-gray-500">Checking invitation...</p>
+            </div>
+          ) : !invite ? (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+              {error}
+            </div>
+          ) : (
+            <div className="space-y-5">
+              <div className="flex items-start gap-3">
+                <div className="p-2 bg-orange-100 rounded-lg">
+                  <Users size={20} className="text-orange-600" />
+                </div>
+                <div>
+                  <p className="font-semibold text-gray-800">
+                    Join {invite.barName || 'the bar'} as {roleLabel.toLowerCase()}
+                  </p>
+                  <p className="text-sm text-gray-500">Invitation for {invite.email}</p>
+                </div>
+              </div>
+
+              {!invite.open ? (
+                <p className="text-sm text-gray-600">
+                  This invitation has expired, was withdrawn or has already been used. Ask the owner for a new link.
+                </p>
+              ) : signedInEmail === invite.email ? (
+                <button
+                  onClick={handleAccept}
+                  disabled={working}
+                  className="w-full bg-gradient-to-r from-orange-500 to-red-600 text-white py-3 rounded-xl font-semibold hover:shadow-lg disabled:opacity-50"
+                >
+                  {working ? 'Joining...' : `Accept and join as ${roleLabel}`}
+                </button>
+              ) : signedInEmail ? (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-600">
+                    You are signed in as {signedInEmail}. Sign out to accept this invitation with {invite.email}.
+                  </p>
+                  <button
+                    onClick={handleSignOut}
+                    className="w-full bg-gray-200 text-gray-700 py-3 rounded-xl font-semibold hover:bg-gray-300"
+                  >
+                    Sign Out
+                  </button>
+                </div>
+              ) : (
+                <form onSubmit={handleCredentials} className="space-y-4">
+                  <div className="flex bg-gray-100 rounded-xl p-1 text-sm font-medium">
+                    <button
+                      type="button"
+                      onClick={() => setMode('signin')}
+                      className={`flex-1 py-2 rounded-lg ${mode === 'signin' ? 'bg-white shadow text-gray-800' : 'text-gray-500'}`}
+                    >
+                      I have an account
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setMode('signup')}
+                      className={`flex-1 py-2 rounded-lg ${mode === 'signup' ? 'bg-white shadow text-gray-800' : 'text-gray-500'}`}
+                    >
+                      Create account
+                    </button>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      {mode === 'signin' ? 'Password' : 'Choose a password'}
+                    </label>
+                    <div className="relative">
+                      <Lock size={20} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                      <input
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        className="w-full pl-10 pr-4 py-3 border-2 border-gray-200 rounded-xl focus:border-orange-500 focus:outline-none"
+                        minLength={mode === 'signup' ? 8 : undefined}
+                        autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  <button
+                    type="submit"
+                    disabled={working}
+                    className="w-full bg-gradient-to-r from-orange-500 to-red-600 text-white py-3 rounded-xl font-semibold hover:shadow-lg disabled:opacity-50"
+                  >
+                    {working ? 'Please wait...' : mode === 'signin' ? 'Sign In and Join' : 'Create Account and Join'}
+                  </button>
+                </form>
+              )}
+
+              {notice && (
+                <p className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">{notice}</p>
+              )}
+              {error && (
+                <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                  <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+                  {error}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
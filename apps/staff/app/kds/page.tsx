@@ -0,0 +1,403 @@
+// apps/staff/app/kds/page.tsx
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { ChefHat, Check, Maximize, Minimize, RotateCcw, X } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/lib/useAuth';
+import { useRealtimeSubscription } from '@tabeza/shared/hooks/useRealtimeSubscription';
+import { ConnectionStatusIndicator } from '@tabeza/shared/components/ConnectionStatus';
+import {
+  getTicketAgeSeconds,
+  getTicketUrgency,
+  KDS_STATION_LABELS,
+  KDS_STATIONS,
+  type KdsBoard,
+  type KdsStation,
+  type KdsTicket
+} from '@tabeza/shared/lib/services/kitchen-display';
+import TicketAgeClock from '@/components/TicketAgeClock';
+
+// The station a wall tablet shows, kept per device like the staff station
+const KDS_STATION_KEY = 'tabeza_kds_station';
+
+type StationFilter = KdsStation | 'all';
+
+const URGENCY_HEADER: Record<string, string> = {
+  fresh: 'bg-gray-700',
+  warning: 'bg-amber-700',
+  late: 'bg-red-700'
+};
+
+// Kitchen display APIs authorize staff with their Supabase access token
+const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+
+  return fetch(input, {
+    ...init,
+    headers: {
+      ...init.headers,
+      Authorization: `Bearer ${session.access_token}`
+    }
+  });
+};
+
+export default function KitchenDisplayPage() {
+  const router = useRouter();
+  const { bar, can, loading: authLoading } = useAuth();
+  const [board, setBoard] = useState<KdsBoard>({ active: [], bumped: [] });
+  const [station, setStation] = useState<StationFilter>('all');
+  const [now, setNow] = useState(() => new Date());
+  const [loading, setLoading] = useState(true);
+  const [pending, setPending] = useState<string | null>(null);
+  const [showRecall, setShowRecall] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [error, setError] = useState('');
+  const tabBars = useRef(new Map<string, Promise<string | null>>());
+
+  const barId: string | undefined = bar?.id;
+
+  useEffect(() => {
+    const saved = localStorage.getItem(KDS_STATION_KEY);
+    if (saved === 'all' || KDS_STATIONS.includes(saved as KdsStation)) {
+      setStation(saved as StationFilter);
+    }
+  }, []);
+
+  const chooseStation = (value: StationFilter) => {
+    setStation(value);
+    localStorage.setItem(KDS_STATION_KEY, value);
+  };
+
+  const loadBoard = useCallback(async () => {
+    if (!barId) return;
+    try {
+      const response = await authorizedFetch(`/api/kds?barId=${barId}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load tickets');
+
+      setBoard({ active: result.active || [], bumped: result.bumped || [] });
+      setError('');
+    } catch (err) {
+      console.error('Error loading kitchen display:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load tickets');
+    } finally {
+      setLoading(false);
+    }
+  }, [barId]);
+
+  useEffect(() => {
+    loadBoard();
+    // Realtime does the work; this only catches anything a dropped connection missed
+    const interval = setInterval(loadBoard, 60000);
+    return () => clearInterval(interval);
+  }, [loadBoard]);
+
+  // Ticket timers
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // A wall tablet must not dim or lock while tickets are up
+  useEffect(() => {
+    let wakeLock: any = null;
+
+    const requestWakeLock = async () => {
+      try {
+        if ('wakeLock' in navigator && document.visibilityState === 'visible') {
+          wakeLock = await (navigator as any).wakeLock.request('screen');
+        }
+      } catch (err) {
+        console.warn('Screen wake lock unavailable:', err);
+      }
+    };
+
+    requestWakeLock();
+    document.addEventListener('visibilitychange', requestWakeLock);
+    return () => {
+      document.removeEventListener('visibilitychange', requestWakeLock);
+      wakeLock?.release?.().catch(() => {});
+    };
+  }, []);
+
+  useEffect(() => {
+    const onChange = () => setIsFullscreen(Boolean(document.fullscreenElement));
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, []);
+
+  const toggleFullscreen = async () => {
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else {
+        await document.documentElement.requestFullscreen();
+      }
+    } catch (err) {
+      console.warn('Fullscreen not available:', err);
+    }
+  };
+
+  // tab_orders has no bar column, so realtime events are matched to this bar through their tab
+  const isThisBarsTab = useCallback((tabId: string | undefined) => {
+    if (!tabId || !barId) return Promise.resolve(false);
+    if (!tabBars.current.has(tabId)) {
+      tabBars.current.set(tabId, (async () => {
+        const { data } = await (supabase as any)
+          .from('tabs')
+          .select('bar_id')
+          .eq('id', tabId)
+          .maybeSingle() as { data: any, error: any };
+        return data?.bar_id ?? null;
+      })());
+    }
+    return tabBars.current.get(tabId)!.then(tabBarId => tabBarId === barId);
+  }, [barId]);
+
+  const realtimeConfigs = useMemo(() => barId ? [
+    {
+      channelName: `kds-${barId}`,
+      table: 'tab_orders',
+      event: '*' as const,
+      handler: async (payload: any) => {
+        const order = payload.new?.id ? payload.new : payload.old;
+        if (await isThisBarsTab(order?.tab_id)) loadBoard();
+      }
+    },
+    {
+      channelName: `kds-${barId}`,
+      table: 'tab_order_station_bumps',
+      filter: `bar_id=eq.${barId}`,
+      event: '*' as const,
+      handler: () => loadBoard()
+    }
+  ] : [], [barId, isThisBarsTab, loadBoard]);
+
+  const { connectionStatus, retryCount } = useRealtimeSubscription(realtimeConfigs, [barId], {
+    maxRetries: 10,
+    retryDelay: [1000, 2000, 5000, 10000, 30000, 60000]
+  });
+
+  const updateTicket = async (ticket: KdsTicket, action: 'bump' | 'recall') => {
+    setPending(ticket.id);
+    setError('');
+
+    // Move the ticket straight away; the reload confirms or restores it
+    setBoard(prev => action === 'bump'
+      ? {
+        active: prev.active.filter(t => t.id !== ticket.id),
+        bumped: [{ ...ticket, bumpedAt: new Date().toISOString() }, ...prev.bumped]
+      }
+      : {
+        active: [...prev.active, { ...ticket, bumpedAt: null }].sort((a, b) => a.startedAt.localeCompare(b.startedAt)),
+        bumped: prev.bumped.filter(t => t.id !== ticket.id)
+      });
+
+    try {
+      const response = await authorizedFetch('/api/kds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barId, orderId: ticket.orderId, station: ticket.station, action })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || `Failed to ${action} ticket`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} ticket`);
+    } finally {
+      setPending(null);
+      loadBoard();
+    }
+  };
+
+  const inStation = (ticket: KdsTicket) => station === 'all' || ticket.station === station;
+  const activeTickets = board.active.filter(inStation);
+  const bumpedTickets = board.bumped.filter(inStation);
+
+  if (authLoading || (loading && barId)) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <ChefHat size={48} className="text-orange-500 animate-pulse" />
+      </div>
+    );
+  }
+
+  if (!can('orders.take')) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex flex-col items-center justify-center gap-4 text-gray-300">
+        <p>Your role cannot take orders at this bar.</p>
+        <button onClick={() => router.push('/')} className="px-4 py-2 bg-orange-500 text-white rounded-lg">
+          Back to tabs
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col select-none">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 px-4 py-3 bg-gray-800 border-b border-gray-700">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => router.push('/')}
+            className="p-2 bg-gray-700 rounded-lg hover:bg-gray-600"
+            aria-label="Close kitchen display"
+          >
+            <X size={24} />
+          </button>
+          <div>
+            <h1 className="text-xl font-bold flex items-center gap-2">
+              <ChefHat size={22} className="text-orange-400" />
+              Kitchen Display
+            </h1>
+            <p className="text-xs text-gray-400">{bar?.name}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {(['all', ...KDS_STATIONS] as StationFilter[]).map(option => {
+            const count = board.active.filter(ticket => option === 'all' || ticket.station === option).length;
+            return (
+              <button
+                key={option}
+                onClick={() => chooseStation(option)}
+                className={`px-4 py-2 rounded-lg font-semibold text-lg ${
+                  station === option ? 'bg-orange-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {option === 'all' ? 'All' : KDS_STATION_LABELS[option]}
+                <span className="ml-2 text-sm opacity-80">{count}</span>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-2">
+          {connectionStatus !== 'connected' && (
+            <ConnectionStatusIndicator status={connectionStatus} retryCount={retryCount} className="text-xs" />
+          )}
+          <button
+            onClick={() => setShowRecall(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-700 rounded-lg hover:bg-gray-600 font-semibold"
+          >
+            <RotateCcw size={20} />
+            Recall
+            {bumpedTickets.length > 0 && <span className="text-sm text-gray-300">{bumpedTickets.length}</span>}
+          </button>
+          <button
+            onClick={toggleFullscreen}
+            className="p-2 bg-gray-700 rounded-lg hover:bg-gray-600"
+            aria-label={isFullscreen ? 'Exit full screen' : 'Full screen'}
+          >
+            {isFullscreen ? <Minimize size={24} /> : <Maximize size={24} />}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-4 mt-3 bg-red-900 border border-red-700 rounded-lg px-4 py-2 text-sm text-red-100">{error}</div>
+      )}
+
+      {/* Tickets */}
+      {activeTickets.length === 0 ? (
+        <div className="flex-1 flex flex-col items-center justify-center text-gray-500">
+          <Check size={64} className="mb-3" />
+          <p className="text-2xl font-semibold">All caught up</p>
+          <p className="text-sm mt-1">Confirmed orders appear here as they come in</p>
+        </div>
+      ) : (
+        <div className="flex-1 grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-4 p-4 content-start">
+          {activeTickets.map(ticket => {
+            const age = getTicketAgeSeconds(ticket, now);
+            const urgency = getTicketUrgency(age);
+            return (
+              <div key={ticket.id} className="bg-gray-800 rounded-xl overflow-hidden flex flex-col shadow-lg">
+                <div className={`${URGENCY_HEADER[urgency]} px-4 py-3 flex items-center justify-between gap-2`}>
+                  <div className="min-w-0">
+                    <p className="text-xl font-bold truncate">{ticket.tabLabel}</p>
+                    <p className="text-sm text-gray-200">
+                      {ticket.orderNumber !== null && `Order #${ticket.orderNumber}`}
+                      {station === 'all' && ` · ${KDS_STATION_LABELS[ticket.station]}`}
+                    </p>
+                  </div>
+                  <TicketAgeClock ageSeconds={age} urgency={urgency} />
+                </div>
+
+                <ul className="flex-1 px-4 py-3 space-y-2">
+                  {ticket.items.map((item, index) => (
+                    <li key={index}>
+                      <p className="text-2xl leading-tight">
+                        <span className="font-bold text-orange-300">{item.quantity}×</span> {item.name}
+                      </p>
+                      {item.notes.map(note => (
+                        <p key={note} className="text-sm font-semibold text-yellow-300 uppercase">{note}</p>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+
+                <button
+                  onClick={() => updateTicket(ticket, 'bump')}
+                  disabled={pending === ticket.id}
+                  className="m-3 py-4 bg-green-600 hover:bg-green-500 disabled:bg-gray-600 rounded-lg text-xl font-bold flex items-center justify-center gap-2"
+                >
+                  <Check size={24} />
+                  Bump
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Recall drawer */}
+      {showRecall && (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-end" onClick={() => setShowRecall(false)}>
+          <div className="w-full max-w-md bg-gray-800 h-full p-4 overflow-y-auto" onClick={e => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold">Recently bumped</h2>
+              <button onClick={() => setShowRecall(false)} className="p-2 bg-gray-700 rounded-lg hover:bg-gray-600">
+                <X size={20} />
+              </button>
+            </div>
+
+            {bumpedTickets.length === 0 ? (
+              <p className="text-gray-400 text-sm">Nothing bumped in the last half hour.</p>
+            ) : (
+              <div className="space-y-3">
+                {bumpedTickets.map(ticket => (
+                  <div key={ticket.id} className="bg-gray-700 rounded-lg p-3 flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-semibold truncate">
+                        {ticket.tabLabel}
+                        <span className="text-gray-400 font-normal"> · {KDS_STATION_LABELS[ticket.station]}</span>
+                      </p>
+                      <p className="text-sm text-gray-300 truncate">
+                        {ticket.items.map(item => `${item.quantity}× ${item.name}`).join(', ')}
+                      </p>
+                      {ticket.bumpedAt && (
+                        <p className="text-xs text-gray-400">
+                          Bumped {new Date(ticket.bumpedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        </p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => updateTicket(ticket, 'recall')}
+                      disabled={pending === ticket.id}
+                      className="px-3 py-2 bg-orange-500 hover:bg-orange-400 disabled:bg-gray-600 rounded-lg font-semibold flex items-center gap-1"
+                    >
+                      <RotateCcw size={16} />
+                      Recall
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
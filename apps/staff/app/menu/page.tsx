@@ -67,6 +67,15 @@ import {
 } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import InteractiveImageCropper from '@/components/InteractiveImageCropper';
+import { useStaffRole } from '@/lib/useStaffRole';
+import type { TaxClass } from '@tabeza/shared/lib/services/etims';
+
+// Tax classes for eTIMS invoices; catalog drinks carry excise in their price
+const TAX_CLASS_OPTIONS: Array<{ value: TaxClass; label: string }> = [
+  { value: 'vat_16', label: 'VAT 16%' },
+  { value: 'excise_inclusive', label: 'VAT 16% + excise' },
+  { value: 'exempt', label: 'VAT exempt' },
+];
 
 // Temporary format function to bypass import issue
 const tempFormatCurrency = (amount: number | string, decimals = 0): string => {
@@ -118,6 +127,7 @@ interface BarProduct {
   image_url: string | null;
   sku: string | null;
   sale_price: number;
+  tax_class?: TaxClass;
   active: boolean;
   created_at: string;
   updated_at?: string;
@@ -131,6 +141,7 @@ interface CustomProduct {
   category: string;
   image_url: string | null;
   sku: string;
+  tax_class?: TaxClass;
   active: boolean;
   created_at: string;
   updated_at?: string;
@@ -142,6 +153,7 @@ interface CustomProductEditForm {
   description?: string;
   image_url?: string;
   sale_price?: number;
+  tax_class?: TaxClass;
 }
 
 interface BarSettings {
@@ -170,6 +182,8 @@ export default function MenuManagementPage() {
   const [barId, setBarId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'menu' | 'catalog' | 'custom' | 'images'>('menu');
+  const { can } = useStaffRole(barId);
+  const canEditMenu = can('menu.edit');
 
   // Catalog data
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
@@ -195,6 +209,7 @@ export default function MenuManagementPage() {
     description: '',
     image_url: '',
     price: '', // For bar_products pricing only
+    tax_class: 'vat_16' as TaxClass,
   });
 
   // Editing states
@@ -419,13 +434,28 @@ export default function MenuManagementPage() {
     });
   };
 
+  // Upload APIs check the menu.edit permission from the staff access token
+  const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+
+    return fetch(input, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${session.access_token}`
+      }
+    });
+  };
+
   // Upload image to server
   const uploadImageToServer = async (file: File): Promise<string> => {
     try {
       const formData = new FormData();
       formData.append('image', file);
       formData.append('aspectRatio', '4:5');
-      const response = await fetch('/api/upload-product-image', {
+      formData.append('barId', barId || '');
+      const response = await authorizedFetch('/api/upload-product-image', {
         method: 'POST',
         body: formData,
       });
@@ -635,6 +665,7 @@ export default function MenuManagementPage() {
           image_url: product.image_url || null,
           sku: product.sku || null,
           sale_price: parseFloat(price),
+          tax_class: 'excise_inclusive',
           active: true,
         });
       if (error) {
@@ -711,6 +742,7 @@ export default function MenuManagementPage() {
           description: newCustomItem.description || null,
           image_url: newCustomItem.image_url || null,
           sku: sku,
+          tax_class: newCustomItem.tax_class,
           active: true,
         })
         .select()
@@ -731,6 +763,7 @@ export default function MenuManagementPage() {
             image_url: newCustomItem.image_url || null,
             sku: sku,
             sale_price: parseFloat(newCustomItem.price),
+            tax_class: newCustomItem.tax_class,
             active: true,
           });
         if (barProductError) throw barProductError;
@@ -739,7 +772,7 @@ export default function MenuManagementPage() {
         alert('✅ Custom product created! Add a price to publish to menu.');
       }
 
-      setNewCustomItem({ name: '', category: '', description: '', image_url: '', price: '' });
+      setNewCustomItem({ name: '', category: '', description: '', image_url: '', price: '', tax_class: 'vat_16' });
       setShowAddCustom(false);
       await Promise.all([loadCustomProducts(), loadBarMenu()]);
     } catch (error: any) {
@@ -757,6 +790,7 @@ export default function MenuManagementPage() {
           description: editForm.description,
           image_url: editForm.image_url,
           category: editForm.category,
+          tax_class: editForm.tax_class || 'vat_16',
           updated_at: new Date().toISOString(),
         })
         .eq('id', customProductId)
@@ -778,6 +812,7 @@ export default function MenuManagementPage() {
               image_url: editForm.image_url,
               category: editForm.category,
               sale_price: editForm.sale_price,
+              tax_class: editForm.tax_class || 'vat_16',
               updated_at: new Date().toISOString(),
             })
             .eq('id', barProduct.id);
@@ -797,6 +832,7 @@ export default function MenuManagementPage() {
                 category: editForm.category,
                 sku: customProduct.sku,
                 sale_price: editForm.sale_price,
+                tax_class: editForm.tax_class || 'vat_16',
                 active: true,
               });
           }
@@ -873,6 +909,7 @@ export default function MenuManagementPage() {
           image_url: customProduct.image_url,
           sku: customProduct.sku,
           sale_price: parseFloat(price),
+          tax_class: customProduct.tax_class || 'vat_16',
           active: true,
         });
       if (error) throw error;
@@ -938,7 +975,7 @@ export default function MenuManagementPage() {
       formData.append('file', csvFile);
       formData.append('barId', barId);
       formData.append('mapping', JSON.stringify(csvMapping));
-      const response = await fetch('/api/import-products-csv', {
+      const response = await authorizedFetch('/api/import-products-csv', {
         method: 'POST',
         body: formData,
       });
@@ -984,6 +1021,34 @@ export default function MenuManagementPage() {
     }
   };
 
+  const handleUpdateTaxClass = async (item: BarProduct, taxClass: TaxClass) => {
+    try {
+      const { error } = await (supabase as any)
+        .from('bar_products')
+        .update({
+          tax_class: taxClass,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', item.id)
+        .eq('bar_id', barId);
+      if (error) throw error;
+
+      // Keep the custom product in step so it republishes with the same class
+      if (item.custom_product_id) {
+        await (supabase as any)
+          .from('custom_products')
+          .update({ tax_class: taxClass, updated_at: new Date().toISOString() })
+          .eq('id', item.custom_product_id)
+          .eq('bar_id', barId);
+      }
+
+      setBarProducts(prev => prev.map(bp => bp.id === item.id ? { ...bp, tax_class: taxClass } : bp));
+    } catch (error: any) {
+      console.error('Error updating tax class:', error);
+      alert('Failed to update tax class: ' + error.message);
+    }
+  };
+
   const handleRemoveFromMenu = async (menuItemId: string) => {
     // Validate UUID
     if (!menuItemId || menuItemId.trim() === '') {
@@ -1150,7 +1215,7 @@ export default function MenuManagementPage() {
       menuFiles.forEach((f) => {
         formData.append('files', f);
       });
-      const response = await fetch('/api/upload-menu-slideshow', {
+      const response = await authorizedFetch('/api/upload-menu-slideshow', {
         method: 'POST',
         body: formData,
       });
@@ -1190,7 +1255,7 @@ export default function MenuManagementPage() {
       const formData = new FormData();
       formData.append('file', menuFile);
       formData.append('barId', barId);
-      const response = await fetch('/api/upload-menu', {
+      const response = await authorizedFetch('/api/upload-menu', {
         method: 'POST',
         body: formData,
       });
@@ -1489,39 +1554,45 @@ export default function MenuManagementPage() {
             <ShoppingCart size={18} />
             My Menu ({barProducts.length})
           </button>
-          <button
-            onClick={() => setActiveTab('catalog')}
-            className={`px-6 py-3 font-medium whitespace-nowrap flex items-center gap-2 ${
-              activeTab === 'catalog'
-                ? 'text-orange-600 border-b-2 border-orange-500'
-                : 'text-gray-600 hover:text-gray-900'
-            }`}
-          >
-            <Globe size={18} />
-            Global Catalog
-          </button>
-          <button
-            onClick={() => setActiveTab('custom')}
-            className={`px-6 py-3 font-medium whitespace-nowrap flex items-center gap-2 ${
-              activeTab === 'custom'
-                ? 'text-orange-600 border-b-2 border-orange-500'
-                : 'text-gray-600 hover:text-gray-900'
-            }`}
-          >
-            <Package size={18} />
-            Custom Products ({customProducts.length})
-          </button>
-          <button
-            onClick={() => setActiveTab('images')}
-            className={`px-6 py-3 font-medium whitespace-nowrap flex items-center gap-2 ${
-              activeTab === 'images'
-                ? 'text-orange-600 border-b-2 border-orange-500'
-                : 'text-gray-600 hover:text-gray-900'
-            }`}
-          >
-            <ImageIcon size={18} />
-            Promotions
-          </button>
+          {canEditMenu && (
+            <button
+              onClick={() => setActiveTab('catalog')}
+              className={`px-6 py-3 font-medium whitespace-nowrap flex items-center gap-2 ${
+                activeTab === 'catalog'
+                  ? 'text-orange-600 border-b-2 border-orange-500'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <Globe size={18} />
+              Global Catalog
+            </button>
+          )}
+          {canEditMenu && (
+            <button
+              onClick={() => setActiveTab('custom')}
+              className={`px-6 py-3 font-medium whitespace-nowrap flex items-center gap-2 ${
+                activeTab === 'custom'
+                  ? 'text-orange-600 border-b-2 border-orange-500'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <Package size={18} />
+              Custom Products ({customProducts.length})
+            </button>
+          )}
+          {canEditMenu && (
+            <button
+              onClick={() => setActiveTab('images')}
+              className={`px-6 py-3 font-medium whitespace-nowrap flex items-center gap-2 ${
+                activeTab === 'images'
+                  ? 'text-orange-600 border-b-2 border-orange-500'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <ImageIcon size={18} />
+              Promotions
+            </button>
+          )}
         </div>
       </div>
 
@@ -1533,7 +1604,9 @@ export default function MenuManagementPage() {
             <div className="flex items-center justify-between mb-4">
               <div>
                 <h2 className="text-xl font-bold text-gray-800">My Menu Items</h2>
-                <p className="text-sm text-gray-600">Products currently visible to customers</p>
+                <p className="text-sm text-gray-600">
+                  {canEditMenu ? 'Products currently visible to customers' : 'Only owners and managers can change the menu and prices'}
+                </p>
               </div>
               <div className="flex items-center gap-2">
                 {bulkEditMode && (
@@ -1560,12 +1633,14 @@ export default function MenuManagementPage() {
                     </button>
                   </div>
                 )}
-                <button
-                  onClick={() => setBulkEditMode(!bulkEditMode)}
-                  className="px-3 py-1 bg-gray-100 rounded text-sm"
-                >
-                  {bulkEditMode ? 'Cancel' : 'Bulk Edit'}
-                </button>
+                {canEditMenu && (
+                  <button
+                    onClick={() => setBulkEditMode(!bulkEditMode)}
+                    className="px-3 py-1 bg-gray-100 rounded text-sm"
+                  >
+                    {bulkEditMode ? 'Cancel' : 'Bulk Edit'}
+                  </button>
+                )}
                 <button
                   onClick={() => setViewMode(viewMode === 'grid' ? 'list' : 'grid')}
                   className="p-2 text-gray-500 hover:text-gray-700"
@@ -1584,20 +1659,22 @@ export default function MenuManagementPage() {
                 <ShoppingCart size={48} className="mx-auto mb-3 text-gray-300" />
                 <p className="text-gray-500 mb-2">Your menu is empty</p>
                 <p className="text-sm text-gray-400 mb-4">Add products from the catalog or create custom items</p>
-                <div className="flex gap-2 justify-center">
-                  <button
-                    onClick={() => setActiveTab('catalog')}
-                    className="px-4 py-2 bg-orange-500 text-white rounded-lg"
-                  >
-                    Browse Catalog
-                  </button>
-                  <button
-                    onClick={() => setActiveTab('custom')}
-                    className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg"
-                  >
-                    Create Custom
-                  </button>
-                </div>
+                {canEditMenu && (
+                  <div className="flex gap-2 justify-center">
+                    <button
+                      onClick={() => setActiveTab('catalog')}
+                      className="px-4 py-2 bg-orange-500 text-white rounded-lg"
+                    >
+                      Browse Catalog
+                    </button>
+                    <button
+                      onClick={() => setActiveTab('custom')}
+                      className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg"
+                    >
+                      Create Custom
+                    </button>
+                  </div>
+                )}
               </div>
             ) : (
               <div className={viewMode === 'grid' ? 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4' : 'space-y-3'}>
@@ -1698,24 +1775,37 @@ export default function MenuManagementPage() {
                               <p className="text-lg font-bold text-orange-600">
                                 {tempFormatCurrency(item.sale_price)}
                               </p>
-                              <div className="flex gap-1">
-                                <button
-                                  onClick={() => setEditingPrice(item.id)}
-                                  className="p-1 text-blue-500 hover:bg-blue-50 rounded"
-                                  title="Edit price"
-                                >
-                                  <Edit2 size={16} />
-                                </button>
-                                <button
-                                  onClick={() => handleRemoveFromMenu(item.id)}
-                                  className={`p-1 text-red-500 hover:bg-red-50 rounded ${!item.id ? 'opacity-50 cursor-not-allowed' : ''}`}
-                                  title="Remove from menu"
-                                  disabled={!item.id}
-                                >
-                                  <Trash2 size={16} />
-                                </button>
-                              </div>
+                              {canEditMenu && (
+                                <div className="flex gap-1">
+                                  <button
+                                    onClick={() => setEditingPrice(item.id)}
+                                    className="p-1 text-blue-500 hover:bg-blue-50 rounded"
+                                    title="Edit price"
+                                  >
+                                    <Edit2 size={16} />
+                                  </button>
+                                  <button
+                                    onClick={() => handleRemoveFromMenu(item.id)}
+                                    className={`p-1 text-red-500 hover:bg-red-50 rounded ${!item.id ? 'opacity-50 cursor-not-allowed' : ''}`}
+                                    title="Remove from menu"
+                                    disabled={!item.id}
+                                  >
+                                    <Trash2 size={16} />
+                                  </button>
+                                </div>
+                              )}
                             </div>
+                            <select
+                              value={item.tax_class || 'vat_16'}
+                              disabled={!canEditMenu}
+                              onChange={(e) => handleUpdateTaxClass(item, e.target.value as TaxClass)}
+                              className="mt-2 text-xs px-2 py-1 border border-gray-200 rounded bg-white text-gray-600"
+                              title="Tax class"
+                            >
+                              {TAX_CLASS_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
                           </div>
                         </div>
                       )}
@@ -2059,6 +2149,16 @@ export default function MenuManagementPage() {
                         placeholder="e.g., 850 (optional - add later to publish)"
                       />
                       <p className="text-xs text-gray-500 mt-1">Leave empty to create unpublished product</p>
+                      <label className="block text-sm font-medium text-gray-700 mb-1 mt-3">Tax class</label>
+                      <select
+                        value={newCustomItem.tax_class}
+                        onChange={(e) => setNewCustomItem({...newCustomItem, tax_class: e.target.value as TaxClass})}
+                        className="w-full px-3 py-2 border rounded-lg bg-white"
+                      >
+                        {TAX_CLASS_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
                     </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">Product Image</label>
@@ -2219,6 +2319,7 @@ export default function MenuManagementPage() {
                                 image_url: cp.image_url || '',
                                 // Get price from published product, not custom product
                                 sale_price: publishedProduct ? publishedProduct.sale_price : 0,
+                                tax_class: cp.tax_class || 'vat_16',
                               });
                               
                               setShowEditModal(true);
@@ -2696,6 +2797,18 @@ export default function MenuManagementPage() {
                     />
                     <p className="text-xs text-gray-500 mt-1">Leave empty to unpublish from menu</p>
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Tax class</label>
+                    <select
+                      value={editForm.tax_class || 'vat_16'}
+                      onChange={(e) => setEditForm({...editForm, tax_class: e.target.value as TaxClass})}
+                      className="w-full px-3 py-2 border rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {TAX_CLASS_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
                 
                 <div>
@@ -6,6 +6,7 @@ import { useRouter } from 'next/navigation';
 import { ArrowRight, AlertTriangle, Calendar, DollarSign, Search, Filter, Eye, Trash2, CheckCircle } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/lib/useAuth';
+import PaymentPlanModal, { type OverduePaymentPlan } from '@/components/PaymentPlanModal';
 
 // Temporary format functions
 const tempFormatCurrency = (amount: number | string, decimals = 0): string => {
@@ -28,12 +29,13 @@ const timeAgo = (dateStr: string) => {
 
 export default function OverdueTabsPage() {
   const router = useRouter();
-  const { bar } = useAuth();
+  const { bar, can } = useAuth();
   const [overdueTabs, setOverdueTabs] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedTab, setSelectedTab] = useState<any>(null);
   const [showDetails, setShowDetails] = useState(false);
+  const [planTab, setPlanTab] = useState<any>(null);
 
   useEffect(() => {
     if (bar) {
@@ -53,7 +55,8 @@ export default function OverdueTabsPage() {
         .select(`
           *,
           orders:tab_orders(*),
-          payments:tab_payments(*)
+          payments:tab_payments(*),
+          payment_plans:tab_payment_plans(*, installments:tab_payment_plan_installments(*))
         `)
         .eq('status', 'overdue')
         .eq('bar_id', bar.id) // Only show this bar's overdue tabs
@@ -83,6 +86,18 @@ export default function OverdueTabsPage() {
     return ordersTotal - paymentsTotal;
   };
 
+  const getActivePlan = (tab: any): OverduePaymentPlan | null =>
+    tab.payment_plans?.find((plan: any) => plan.status === 'active') || null;
+
+  const getMissedInstallments = (tab: any) =>
+    getActivePlan(tab)?.installments.filter(installment => installment.status === 'missed') || [];
+
+  // Number to prefill when agreeing a plan: the last one the customer paid with
+  const getLastPhoneNumber = (tab: any) =>
+    [...(tab.payments || [])]
+      .filter((payment: any) => payment.phone_number)
+      .sort((a: any, b: any) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0]?.phone_number;
+
   const getDisplayName = (tab: any) => {
     if (tab.notes) {
       try {
@@ -98,32 +113,37 @@ export default function OverdueTabsPage() {
     if (!confirm) return;
 
     try {
-      const { error } = await (supabase as any)
-        .from('tabs')
-        .update({ 
-          status: 'closed',
-          closed_at: new Date().toISOString(),
-          closed_by: 'staff',
-          overdue_reason: `Written off as bad debt: ${tempFormatCurrency(balance)}`
-        })
-        .eq('id', tabId);
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not signed in');
 
-      if (error) throw error;
+      const response = await fetch(`/api/tabs/${tabId}/close`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ action: 'write_off' })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to write off tab');
 
       alert('Tab written off successfully');
       loadOverdueTabs();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error writing off tab:', error);
-      alert('Failed to write off tab');
+      alert(error.message || 'Failed to write off tab');
     }
   };
 
+  // Tabs with a missed installment are escalated to the top
   const filteredTabs = overdueTabs.filter(tab => {
     const searchLower = searchTerm.toLowerCase();
     const displayName = getDisplayName(tab).toLowerCase();
     const tabNumber = tab.tab_number?.toString().toLowerCase() || '';
     return displayName.includes(searchLower) || tabNumber.includes(searchLower);
-  });
+  }).sort((a, b) => Number(getMissedInstallments(b).length > 0) - Number(getMissedInstallments(a).length > 0));
+
+  const escalatedCount = filteredTabs.filter(tab => getMissedInstallments(tab).length > 0).length;
 
   if (loading) {
     return (
@@ -158,6 +178,11 @@ export default function OverdueTabsPage() {
             <div>
               <p className="text-sm text-orange-100">Bad Debt Management</p>
               <p className="text-2xl font-bold">{filteredTabs.length} Overdue Tabs</p>
+              {escalatedCount > 0 && (
+                <p className="text-sm font-semibold text-white mt-1">
+                  ⚠️ {escalatedCount} with missed installments
+                </p>
+              )}
             </div>
             <div className="text-right">
               <p className="text-sm text-orange-100">Total Outstanding</p>
@@ -217,9 +242,15 @@ export default function OverdueTabsPage() {
               const balance = getTabBalance(tab);
               const displayName = getDisplayName(tab);
               const orderCount = tab.orders?.filter((order: any) => order.status === 'confirmed').length || 0;
+              const plan = getActivePlan(tab);
+              const missed = getMissedInstallments(tab);
+              const paidInstallments = plan?.installments.filter(installment => installment.status === 'paid').length || 0;
+              const nextInstallment = plan?.installments
+                .filter(installment => installment.status === 'scheduled' || installment.status === 'pending')
+                .sort((a, b) => a.position - b.position)[0];
               
               return (
-                <div key={tab.id} className="border-b border-gray-100 px-4 py-3 hover:bg-gray-50">
+                <div key={tab.id} className={`border-b border-gray-100 px-4 py-3 ${missed.length > 0 ? 'bg-red-50 hover:bg-red-100' : 'hover:bg-gray-50'}`}>
                   <div className="grid grid-cols-5 gap-4 items-center">
                     <div>
                       <p className="font-medium text-gray-800">{displayName}</p>
@@ -233,8 +264,18 @@ export default function OverdueTabsPage() {
                     </div>
                     <div>
                       <p className="font-bold text-red-600">{tempFormatCurrency(balance)}</p>
+                      {missed.length > 0 ? (
+                        <p className="text-xs font-semibold text-red-700">
+                          Missed installment{missed.length === 1 ? '' : 's'} {missed.map(installment => installment.position).join(', ')}
+                        </p>
+                      ) : plan ? (
+                        <p className="text-xs text-gray-500">
+                          Plan {paidInstallments}/{plan.installments.length} paid
+                          {nextInstallment && ` • next ${new Date(`${nextInstallment.due_date}T00:00:00`).toLocaleDateString()}`}
+                        </p>
+                      ) : null}
                     </div>
-                    <div className="flex gap-2">
+                    <div className="flex flex-wrap gap-2">
                       <button
                         onClick={() => {
                           setSelectedTab(tab);
@@ -245,11 +286,21 @@ export default function OverdueTabsPage() {
                         View
                       </button>
                       <button
-                        onClick={() => handleWriteOff(tab.id, balance)}
-                        className="px-3 py-1 bg-red-500 text-white rounded text-xs font-medium hover:bg-red-600"
+                        onClick={() => setPlanTab(tab)}
+                        className={`px-3 py-1 text-white rounded text-xs font-medium ${
+                          plan ? 'bg-orange-500 hover:bg-orange-600' : 'bg-green-500 hover:bg-green-600'
+                        }`}
                       >
-                        Write Off
+                        {plan ? 'Plan' : 'Set Up Plan'}
                       </button>
+                      {can('tabs.write_off') && (
+                        <button
+                          onClick={() => handleWriteOff(tab.id, balance)}
+                          className="px-3 py-1 bg-red-500 text-white rounded text-xs font-medium hover:bg-red-600"
+                        >
+                          Write Off
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -259,6 +310,23 @@ export default function OverdueTabsPage() {
         )}
       </div>
 
+      {/* Payment Plan Modal */}
+      {planTab && (
+        <PaymentPlanModal
+          tabId={planTab.id}
+          tabLabel={getDisplayName(planTab)}
+          balance={getTabBalance(planTab)}
+          plan={getActivePlan(planTab)}
+          defaultPhoneNumber={getLastPhoneNumber(planTab)}
+          formatCurrency={(amount) => tempFormatCurrency(amount)}
+          onClose={() => setPlanTab(null)}
+          onChanged={() => {
+            setPlanTab(null);
+            loadOverdueTabs();
+          }}
+        />
+      )}
+
       {/* Tab Details Modal */}
       {showDetails && selectedTab && (
         <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
@@ -355,15 +423,17 @@ export default function OverdueTabsPage() {
                 >
                   Close
                 </button>
-                <button
-                  onClick={() => {
-                    handleWriteOff(selectedTab.id, getTabBalance(selectedTab));
-                    setShowDetails(false);
-                  }}
-                  className="flex-1 bg-red-500 text-white py-3 rounded-xl font-semibold hover:bg-red-600"
-                >
-                  Write Off Debt
-                </button>
+                {can('tabs.write_off') && (
+                  <button
+                    onClick={() => {
+                      handleWriteOff(selectedTab.id, getTabBalance(selectedTab));
+                      setShowDetails(false);
+                    }}
+                    className="flex-1 bg-red-500 text-white py-3 rounded-xl font-semibold hover:bg-red-600"
+                  >
+                    Write Off Debt
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -2,11 +2,12 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { Users, DollarSign, Menu, X, Search, ArrowRight, AlertCircle, RefreshCw, LogOut, AlertTriangle, MessageCircle, BellRing } from 'lucide-react';
+import { Users, DollarSign, Menu, X, Search, ArrowRight, AlertCircle, RefreshCw, LogOut, AlertTriangle, MessageCircle, BellRing, Inbox, Smartphone, Undo2, Banknote, Building2, ChefHat } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/lib/useAuth';
 import { checkAndUpdateOverdueTabs } from '@/lib/businessHours';
 import { calculateResponseTimeFromTabs, formatResponseTime, type ResponseTimeResult } from '@tabeza/shared';
+import BarSwitcher from '@/components/BarSwitcher';
 import { PaymentNotificationContainer, usePaymentNotifications, type PaymentNotificationData } from '@/components/PaymentNotification';
 
 // Format functions for thousand separators
@@ -303,7 +304,7 @@ const HighVisibilityAlert = ({
 
 export default function TabsPage() {
   const router = useRouter();
-  const { user, bar, loading: authLoading, signOut } = useAuth();
+  const { user, bar, bars, can, loading: authLoading, switchBar, signOut } = useAuth();
   const mounted = useRef(true);
   
   const [tabs, setTabs] = useState<any[]>([]);
@@ -540,6 +541,25 @@ export default function TabsPage() {
     if (bar) {
       loadTabs();
       const interval = setInterval(loadTabs, 10000);
+
+      // Realtime rows carry a tab_id but no bar_id, and a user with several
+      // memberships receives every one of their bars' events. Look up each
+      // tab once and drop events that belong to another bar.
+      const tabBars = new Map<string, Promise<string | null>>();
+      const isThisBarsTab = (tabId: string | undefined) => {
+        if (!tabId) return Promise.resolve(false);
+        if (!tabBars.has(tabId)) {
+          tabBars.set(tabId, (async () => {
+            const { data } = await (supabase as any)
+              .from('tabs')
+              .select('bar_id')
+              .eq('id', tabId)
+              .maybeSingle() as { data: any, error: any };
+            return data?.bar_id ?? null;
+          })());
+        }
+        return tabBars.get(tabId)!.then(barId => barId === bar.id);
+      };
       
       // Add subscription for telegram message updates (tab-specific)
       const telegramSubscription = supabase
@@ -551,7 +571,9 @@ export default function TabsPage() {
             schema: 'public',
             table: 'tab_telegram_messages'
           },
-          (payload: any) => {
+          async (payload: any) => {
+            if (!(await isThisBarsTab(payload.new?.tab_id))) return;
+
             console.log('🔔 STAFF APP: Telegram update received:', {
               eventType: payload.eventType,
               new: payload.new,
@@ -589,7 +611,9 @@ export default function TabsPage() {
             schema: 'public',
             table: 'tab_telegram_messages'
           },
-          (payload: any) => {
+          async (payload: any) => {
+            if (!(await isThisBarsTab(payload.new?.tab_id))) return;
+
             console.log('🔔 Telegram acknowledgment update:', payload.eventType, payload.new);
             
             // When staff acknowledges a message, this could trigger customer notification
@@ -613,7 +637,9 @@ export default function TabsPage() {
             schema: 'public',
             table: 'tab_orders'
           },
-          (payload: any) => {
+          async (payload: any) => {
+            if (!(await isThisBarsTab(payload.new?.tab_id))) return;
+
             console.log('🛒 Customer order insert:', payload.eventType, payload.new);
             
             // Show high-visibility alert for new customer orders
@@ -643,7 +669,9 @@ export default function TabsPage() {
             schema: 'public',
             table: 'tab_orders'
           },
-          (payload: any) => {
+          async (payload: any) => {
+            if (!(await isThisBarsTab(payload.new?.tab_id))) return;
+
             console.log('🛒 Staff order insert:', payload.eventType, payload.new);
             
             // When staff creates/accepts an order, notify customer
@@ -709,6 +737,8 @@ export default function TabsPage() {
                 tabId: payload.new.tab_id,
                 tabNumber: (tabData as any).tab_number,
                 amount: parseFloat(payload.new.amount),
+                tipAmount: parseFloat(payload.new.tip_amount) || 0,
+                serviceChargeAmount: parseFloat(payload.new.service_charge_amount) || 0,
                 method: payload.new.method,
                 status: payload.new.status,
                 timestamp: payload.new.created_at || payload.new.updated_at,
@@ -768,6 +798,8 @@ export default function TabsPage() {
             filter: `initiated_by=eq.staff` // Only staff-initiated orders
           },
           async (payload: any) => {
+            if (!(await isThisBarsTab(payload.new?.tab_id))) return;
+
             console.log('🔄 Staff order update:', {
               eventType: payload.eventType,
               new: payload.new,
@@ -807,6 +839,8 @@ export default function TabsPage() {
             filter: `initiated_by=eq.customer` // Only customer-initiated orders
           },
           async (payload: any) => {
+            if (!(await isThisBarsTab(payload.new?.tab_id))) return;
+
             console.log('🔄 Customer order update:', {
               eventType: payload.eventType,
               new: payload.new,
@@ -998,7 +1032,7 @@ export default function TabsPage() {
         <div className="bg-gradient-to-r from-orange-600 to-orange-700 text-white p-6 pb-8">
           <div className="flex items-center justify-between mb-6">
             <div>
-              <h1 className="text-2xl font-bold">{bar?.name || 'Bar'}</h1>
+              <BarSwitcher bars={bars} currentBarId={bar?.id} currentName={bar?.name || 'Bar'} onSwitch={switchBar} />
               <p className="text-orange-200 text-sm">{user?.email}</p>
             </div>
             <div className="flex gap-2">
@@ -1082,10 +1116,44 @@ export default function TabsPage() {
                   <AlertTriangle size={20} />
                   Overdue Tabs
                 </button>
-                <button onClick={() => { router.push('/reports'); setShowMenu(false); }} className="flex items-center gap-3 w-full text-left py-2 font-medium hover:bg-orange-50 px-2 rounded">
-                  <DollarSign size={20} />
-                  Reports & Export
-                </button>
+                {can('orders.take') && (
+                  <button onClick={() => { router.push('/kds'); setShowMenu(false); }} className="flex items-center gap-3 w-full text-left py-2 font-medium hover:bg-orange-50 px-2 rounded">
+                    <ChefHat size={20} />
+                    Kitchen Display
+                  </button>
+                )}
+                {can('payments.take') && (
+                  <>
+                    <button onClick={() => { router.push('/payments/mpesa'); setShowMenu(false); }} className="flex items-center gap-3 w-full text-left py-2 font-medium hover:bg-orange-50 px-2 rounded">
+                      <Smartphone size={20} />
+                      M-Pesa Transactions
+                    </button>
+                    <button onClick={() => { router.push('/payments/unmatched'); setShowMenu(false); }} className="flex items-center gap-3 w-full text-left py-2 font-medium hover:bg-orange-50 px-2 rounded">
+                      <Inbox size={20} />
+                      Unmatched Payments
+                    </button>
+                    <button onClick={() => { router.push('/payments/refunds'); setShowMenu(false); }} className="flex items-center gap-3 w-full text-left py-2 font-medium hover:bg-orange-50 px-2 rounded">
+                      <Undo2 size={20} />
+                      Refunds
+                    </button>
+                    <button onClick={() => { router.push('/payments/cash-drawer'); setShowMenu(false); }} className="flex items-center gap-3 w-full text-left py-2 font-medium hover:bg-orange-50 px-2 rounded">
+                      <Banknote size={20} />
+                      Cash Drawer
+                    </button>
+                  </>
+                )}
+                {can('reports.view') && (
+                  <button onClick={() => { router.push('/reports'); setShowMenu(false); }} className="flex items-center gap-3 w-full text-left py-2 font-medium hover:bg-orange-50 px-2 rounded">
+                    <DollarSign size={20} />
+                    Reports & Export
+                  </button>
+                )}
+                {bars.length > 1 && (
+                  <button onClick={() => { router.push('/venues'); setShowMenu(false); }} className="flex items-center gap-3 w-full text-left py-2 font-medium hover:bg-orange-50 px-2 rounded">
+                    <Building2 size={20} />
+                    All Venues
+                  </button>
+                )}
                 <button onClick={() => { router.push('/menu'); setShowMenu(false); }} className="flex items-center gap-3 w-full text-left py-2 font-medium hover:bg-orange-50 px-2 rounded">
                   <Menu size={20} />
                   Menu Management
@@ -0,0 +1,404 @@
+// apps/staff/app/payments/cash-drawer/page.tsx
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowRight, Banknote, RefreshCw, Lock } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/lib/useAuth';
+
+interface CashShift {
+  id: string;
+  opened_by: string;
+  opening_float: number;
+  status: 'open' | 'closed';
+  opened_at: string;
+  closed_at: string | null;
+  counted_denominations: Record<string, number> | null;
+  notes: string | null;
+}
+
+interface CashShiftTotals {
+  openingFloat: number;
+  cashTotal: number;
+  cashCount: number;
+  mpesaTotal: number;
+  mpesaCount: number;
+  expectedCash: number;
+  countedCash: number | null;
+  overShort: number | null;
+}
+
+interface CashShiftReport {
+  shift: CashShift;
+  totals: CashShiftTotals;
+}
+
+// Mirrors KES_DENOMINATIONS in the shared cash drawer service
+const DENOMINATIONS = [1000, 500, 200, 100, 50, 20, 10, 5, 1];
+
+const formatCurrency = (amount: number | string): string => {
+  const number = typeof amount === 'string' ? parseFloat(amount) : amount;
+  if (isNaN(number)) return 'KSh 0';
+  return `KSh ${new Intl.NumberFormat('en-US').format(number)}`;
+};
+
+const formatOverShort = (amount: number | null) => {
+  if (amount === null) return '—';
+  if (amount === 0) return 'Balanced';
+  return amount > 0 ? `Over ${formatCurrency(amount)}` : `Short ${formatCurrency(-amount)}`;
+};
+
+const overShortClass = (amount: number | null) => {
+  if (amount === null || amount === 0) return 'text-green-600';
+  return amount > 0 ? 'text-blue-600' : 'text-red-600';
+};
+
+const formatTime = (dateStr: string) =>
+  new Date(dateStr).toLocaleString('en-GB', { timeZone: 'Africa/Nairobi', dateStyle: 'medium', timeStyle: 'short' });
+
+export default function CashDrawerPage() {
+  const router = useRouter();
+  const { bar } = useAuth();
+  const [current, setCurrent] = useState<CashShiftReport | null>(null);
+  const [shifts, setShifts] = useState<CashShiftReport[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [canCloseOthers, setCanCloseOthers] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [closingShift, setClosingShift] = useState<CashShiftReport | null>(null);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [closeNotes, setCloseNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [closedReport, setClosedReport] = useState<CashShiftReport | null>(null);
+
+  const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+
+    return fetch(input, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${session.access_token}`
+      }
+    });
+  };
+
+  const loadShifts = useCallback(async () => {
+    if (!bar) return;
+    setLoading(true);
+    setError('');
+    try {
+      const response = await authorizedFetch(`/api/payments/cash-shifts?barId=${bar.id}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load cash drawer');
+
+      setCurrent(result.current);
+      setShifts(result.shifts);
+      setUserId(result.userId);
+      setCanCloseOthers(result.canCloseOthers);
+    } catch (err) {
+      console.error('Error loading cash drawer:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load cash drawer');
+    } finally {
+      setLoading(false);
+    }
+  }, [bar]);
+
+  useEffect(() => {
+    loadShifts();
+  }, [loadShifts]);
+
+  const countedTotal = DENOMINATIONS.reduce(
+    (sum, denomination) => sum + denomination * (parseInt(counts[denomination] || '0', 10) || 0),
+    0
+  );
+
+  const handleOpenShift = async () => {
+    if (!bar) return;
+
+    setSubmitting(true);
+    try {
+      const response = await authorizedFetch('/api/payments/cash-shifts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barId: bar.id, openingFloat: parseFloat(openingFloat || '0') })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to open shift');
+
+      setOpeningFloat('');
+      setClosedReport(null);
+      loadShifts();
+    } catch (err) {
+      console.error('Error opening shift:', err);
+      alert(err instanceof Error ? err.message : 'Failed to open shift');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const startClosing = (report: CashShiftReport) => {
+    setClosingShift(report);
+    setCounts({});
+    setCloseNotes(report.shift.notes || '');
+  };
+
+  const handleCloseShift = async () => {
+    if (!bar || !closingShift) return;
+
+    const confirm = window.confirm(`Close this shift with ${formatCurrency(countedTotal)} counted in the drawer?`);
+    if (!confirm) return;
+
+    setSubmitting(true);
+    try {
+      const response = await authorizedFetch(`/api/payments/cash-shifts/${closingShift.shift.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barId: bar.id, denominations: counts, notes: closeNotes })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to close shift');
+
+      setClosedReport({ shift: result.shift, totals: result.totals });
+      setClosingShift(null);
+      loadShifts();
+    } catch (err) {
+      console.error('Error closing shift:', err);
+      alert(err instanceof Error ? err.message : 'Failed to close shift');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderTotals = (totals: CashShiftTotals) => (
+    <div className="grid grid-cols-2 gap-2 text-sm">
+      <span className="text-gray-500">Opening float</span>
+      <span className="text-right font-medium">{formatCurrency(totals.openingFloat)}</span>
+      <span className="text-gray-500">Cash recorded ({totals.cashCount})</span>
+      <span className="text-right font-medium">{formatCurrency(totals.cashTotal)}</span>
+      <span className="text-gray-500">Expected in drawer</span>
+      <span className="text-right font-bold">{formatCurrency(totals.expectedCash)}</span>
+      <span className="text-gray-500">M-Pesa at the bar ({totals.mpesaCount})</span>
+      <span className="text-right font-medium">{formatCurrency(totals.mpesaTotal)}</span>
+      {totals.countedCash !== null && (
+        <>
+          <span className="text-gray-500">Counted</span>
+          <span className="text-right font-medium">{formatCurrency(totals.countedCash)}</span>
+          <span className="text-gray-500">Over / short</span>
+          <span className={`text-right font-bold ${overShortClass(totals.overShort)}`}>{formatOverShort(totals.overShort)}</span>
+        </>
+      )}
+    </div>
+  );
+
+  const otherOpenShifts = shifts.filter(r => r.shift.status === 'open' && r.shift.opened_by !== userId);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex justify-center">
+      <div className="w-full lg:max-w-[80%] max-w-full">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-orange-500 to-red-500 text-white p-6">
+        <div className="flex items-center justify-between mb-4">
+          <button
+            onClick={() => router.push('/')}
+            className="p-2 bg-white bg-opacity-20 rounded-lg hover:bg-opacity-30"
+          >
+            <ArrowRight size={24} className="transform rotate-180" />
+          </button>
+          <h1 className="text-2xl font-bold">Cash Drawer</h1>
+          <button
+            onClick={loadShifts}
+            className="p-2 bg-white bg-opacity-20 rounded-lg hover:bg-opacity-30"
+          >
+            <RefreshCw size={24} />
+          </button>
+        </div>
+
+        <div className="bg-white bg-opacity-20 backdrop-blur-sm rounded-xl p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-orange-100">Your shift</p>
+              <p className="text-2xl font-bold">{current ? 'Open' : 'Closed'}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-sm text-orange-100">Expected in drawer</p>
+              <p className="text-2xl font-bold">{formatCurrency(current?.totals.expectedCash || 0)}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-3">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-700">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500 mx-auto mb-4"></div>
+            <p className="text-gray-500">Loading cash drawer...</p>
+          </div>
+        ) : (
+          <>
+            {closedReport && (
+              <div className="bg-white rounded-xl shadow-sm p-4 border-2 border-green-200">
+                <h3 className="font-semibold text-gray-800 mb-3">Shift closed</h3>
+                {renderTotals(closedReport.totals)}
+              </div>
+            )}
+
+            {closingShift ? (
+              <div className="bg-white rounded-xl shadow-sm p-4">
+                <h3 className="font-semibold text-gray-800 mb-1">Count the drawer</h3>
+                <p className="text-xs text-gray-500 mb-4">Opened {formatTime(closingShift.shift.opened_at)}</p>
+
+                <div className="grid grid-cols-3 gap-2 mb-4">
+                  {DENOMINATIONS.map(denomination => (
+                    <label key={denomination} className="text-sm">
+                      <span className="block text-gray-600 mb-1">KSh {denomination}</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        inputMode="numeric"
+                        value={counts[denomination] || ''}
+                        onChange={e => setCounts(prev => ({ ...prev, [denomination]: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:border-orange-500 focus:outline-none"
+                        placeholder="0"
+                      />
+                    </label>
+                  ))}
+                </div>
+
+                <textarea
+                  value={closeNotes}
+                  onChange={e => setCloseNotes(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:border-orange-500 focus:outline-none mb-4"
+                  placeholder="Notes (optional)"
+                  rows={2}
+                />
+
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="text-gray-500">Counted</span>
+                  <span className="font-bold">{formatCurrency(countedTotal)}</span>
+                </div>
+                <div className="flex items-center justify-between text-sm mb-4">
+                  <span className="text-gray-500">Expected so far</span>
+                  <span className="font-medium">{formatCurrency(closingShift.totals.expectedCash)}</span>
+                </div>
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setClosingShift(null)}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleCloseShift}
+                    disabled={submitting}
+                    className="ml-auto px-4 py-2 bg-orange-500 text-white rounded-lg text-sm font-medium hover:bg-orange-600 disabled:bg-gray-300 flex items-center gap-1"
+                  >
+                    <Lock size={16} />
+                    {submitting ? 'Closing...' : 'Close Shift'}
+                  </button>
+                </div>
+              </div>
+            ) : current ? (
+              <div className="bg-white rounded-xl shadow-sm p-4">
+                <div className="flex items-start justify-between mb-3">
+                  <h3 className="font-semibold text-gray-800">Your open shift</h3>
+                  <p className="text-xs text-gray-500">Opened {formatTime(current.shift.opened_at)}</p>
+                </div>
+                {renderTotals(current.totals)}
+                <button
+                  onClick={() => startClosing(current)}
+                  className="w-full mt-4 px-4 py-2 bg-orange-500 text-white rounded-lg text-sm font-medium hover:bg-orange-600"
+                >
+                  Count &amp; Close Shift
+                </button>
+              </div>
+            ) : (
+              <div className="bg-white rounded-xl shadow-sm p-4">
+                <h3 className="font-semibold text-gray-800 mb-1">Open a shift</h3>
+                <p className="text-sm text-gray-500 mb-3">
+                  Cash you receive on tabs is recorded against your open shift.
+                </p>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    inputMode="decimal"
+                    value={openingFloat}
+                    onChange={e => setOpeningFloat(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-200 rounded-lg focus:border-orange-500 focus:outline-none"
+                    placeholder="Opening float (KSh)"
+                  />
+                  <button
+                    onClick={handleOpenShift}
+                    disabled={submitting}
+                    className="px-4 py-2 bg-orange-500 text-white rounded-lg text-sm font-medium hover:bg-orange-600 disabled:bg-gray-300"
+                  >
+                    {submitting ? 'Opening...' : 'Open Shift'}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {canCloseOthers && otherOpenShifts.length > 0 && !closingShift && (
+              <div className="bg-white rounded-xl shadow-sm p-4">
+                <h3 className="font-semibold text-gray-800 mb-3">Other open drawers</h3>
+                {otherOpenShifts.map(report => (
+                  <div key={report.shift.id} className="flex items-center justify-between py-2 border-t border-gray-100 first:border-t-0">
+                    <div className="text-sm">
+                      <p className="font-medium">Opened {formatTime(report.shift.opened_at)}</p>
+                      <p className="text-xs text-gray-500">Expected {formatCurrency(report.totals.expectedCash)}</p>
+                    </div>
+                    <button
+                      onClick={() => startClosing(report)}
+                      className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200"
+                    >
+                      Count &amp; Close
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <h3 className="font-semibold text-gray-700 pt-2">Recent shifts</h3>
+            {shifts.filter(r => r.shift.status === 'closed').length === 0 ? (
+              <div className="bg-white rounded-xl p-8 text-center text-gray-500">
+                <Banknote size={48} className="mx-auto mb-4 opacity-30" />
+                <h3 className="text-lg font-semibold mb-2">No Closed Shifts</h3>
+                <p className="text-sm">Closed shifts and their over/short appear here.</p>
+              </div>
+            ) : (
+              shifts.filter(r => r.shift.status === 'closed').map(report => (
+                <div key={report.shift.id} className="bg-white rounded-xl shadow-sm p-4">
+                  <div className="flex items-start justify-between mb-2">
+                    <div>
+                      <p className="text-sm font-medium text-gray-800">
+                        {formatTime(report.shift.opened_at)} → {report.shift.closed_at ? formatTime(report.shift.closed_at) : ''}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Counted {formatCurrency(report.totals.countedCash || 0)} of {formatCurrency(report.totals.expectedCash)} expected
+                      </p>
+                    </div>
+                    <span className={`text-sm font-bold ${overShortClass(report.totals.overShort)}`}>
+                      {formatOverShort(report.totals.overShort)}
+                    </span>
+                  </div>
+                  {report.shift.notes && <p className="text-xs text-gray-500">{report.shift.notes}</p>}
+                </div>
+              ))
+            )}
+          </>
+        )}
+      </div>
+      </div>
+    </div>
+  );
+}
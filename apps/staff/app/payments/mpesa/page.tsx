@@ -0,0 +1,50 @@
+// apps/staff/app/payments/mpesa/page.tsx
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowRight } from 'lucide-react';
+import { useAuth } from '@/lib/useAuth';
+import TransactionMonitor from '@/components/mpesa/TransactionMonitor';
+import CallbackInbox from '@/components/mpesa/CallbackInbox';
+import SandboxTestingPanel from '@/components/mpesa/SandboxTestingPanel';
+
+export default function MpesaTransactionsPage() {
+  const router = useRouter();
+  const { bar } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex justify-center">
+      <div className="w-full lg:max-w-[80%] max-w-full">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-green-500 to-emerald-600 text-white p-6">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => router.push('/')}
+            className="p-2 bg-white bg-opacity-20 rounded-lg hover:bg-opacity-30"
+          >
+            <ArrowRight size={24} className="transform rotate-180" />
+          </button>
+          <h1 className="text-2xl font-bold">M-Pesa Transactions</h1>
+          <div className="w-10"></div>
+        </div>
+      </div>
+
+      <div className="p-4">
+        {bar ? (
+          <div className="space-y-6">
+            <SandboxTestingPanel barId={bar.id} />
+            <TransactionMonitor barId={bar.id} />
+            <CallbackInbox barId={bar.id} />
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500 mx-auto mb-4"></div>
+            <p className="text-gray-500">Loading...</p>
+          </div>
+        )}
+      </div>
+      </div>
+    </div>
+  );
+}
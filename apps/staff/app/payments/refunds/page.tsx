@@ -0,0 +1,256 @@
+// apps/staff/app/payments/refunds/page.tsx
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowRight, Undo2, RefreshCw, Check, X } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/lib/useAuth';
+
+type RefundStatus = 'pending_approval' | 'rejected' | 'processing' | 'completed' | 'failed';
+
+interface Refund {
+  id: string;
+  tab_id: string;
+  amount: number;
+  reason: string;
+  mpesa_receipt_number: string;
+  phone_number: string | null;
+  method: 'reversal' | 'b2c';
+  status: RefundStatus;
+  rejection_reason: string | null;
+  result_desc: string | null;
+  transaction_id: string | null;
+  created_at: string;
+}
+
+const STATUS_STYLES: Record<RefundStatus, { label: string; className: string }> = {
+  pending_approval: { label: 'Awaiting approval', className: 'bg-yellow-100 text-yellow-700' },
+  processing: { label: 'Processing', className: 'bg-blue-100 text-blue-700' },
+  completed: { label: 'Refunded', className: 'bg-green-100 text-green-700' },
+  rejected: { label: 'Rejected', className: 'bg-gray-100 text-gray-600' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' }
+};
+
+const formatCurrency = (amount: number | string): string => {
+  const number = typeof amount === 'string' ? parseFloat(amount) : amount;
+  if (isNaN(number)) return 'KSh 0';
+  return `KSh ${new Intl.NumberFormat('en-US').format(number)}`;
+};
+
+const timeAgo = (dateStr: string) => {
+  const date = new Date(dateStr);
+  const seconds = Math.floor((new Date().getTime() - date.getTime()) / 1000);
+  if (seconds < 60) return 'Just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+};
+
+export default function RefundsPage() {
+  const router = useRouter();
+  const { bar } = useAuth();
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [canApprove, setCanApprove] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [actingId, setActingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+
+    return fetch(input, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${session.access_token}`
+      }
+    });
+  };
+
+  const loadRefunds = useCallback(async () => {
+    if (!bar) return;
+    setLoading(true);
+    setError('');
+    try {
+      const response = await authorizedFetch(`/api/payments/refunds?barId=${bar.id}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load refunds');
+
+      setRefunds(result.refunds);
+      setCanApprove(result.canApprove);
+    } catch (err) {
+      console.error('Error loading refunds:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load refunds');
+    } finally {
+      setLoading(false);
+    }
+  }, [bar]);
+
+  useEffect(() => {
+    loadRefunds();
+  }, [loadRefunds]);
+
+  const handleDecision = async (refund: Refund, action: 'approve' | 'reject') => {
+    if (!bar) return;
+
+    let note: string | null = null;
+    if (action === 'approve') {
+      const confirm = window.confirm(
+        refund.method === 'reversal'
+          ? `Reverse M-Pesa payment ${refund.mpesa_receipt_number} (${formatCurrency(refund.amount)})?`
+          : `Send ${formatCurrency(refund.amount)} back to ${refund.phone_number}?`
+      );
+      if (!confirm) return;
+    } else {
+      note = window.prompt('Why is this refund being rejected? (optional)');
+      if (note === null) return;
+    }
+
+    setActingId(refund.id);
+    try {
+      const response = await authorizedFetch(`/api/payments/refunds/${refund.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barId: bar.id, action, note })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || `Failed to ${action} refund`);
+
+      setRefunds(prev => prev.map(r => (r.id === refund.id ? result.refund : r)));
+    } catch (err) {
+      console.error(`Error trying to ${action} refund:`, err);
+      alert(err instanceof Error ? err.message : `Failed to ${action} refund`);
+      loadRefunds();
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const waiting = refunds.filter(r => r.status === 'pending_approval');
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex justify-center">
+      <div className="w-full lg:max-w-[80%] max-w-full">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-green-500 to-emerald-600 text-white p-6">
+        <div className="flex items-center justify-between mb-4">
+          <button
+            onClick={() => router.push('/')}
+            className="p-2 bg-white bg-opacity-20 rounded-lg hover:bg-opacity-30"
+          >
+            <ArrowRight size={24} className="transform rotate-180" />
+          </button>
+          <h1 className="text-2xl font-bold">Refunds</h1>
+          <button
+            onClick={loadRefunds}
+            className="p-2 bg-white bg-opacity-20 rounded-lg hover:bg-opacity-30"
+          >
+            <RefreshCw size={24} />
+          </button>
+        </div>
+
+        <div className="bg-white bg-opacity-20 backdrop-blur-sm rounded-xl p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-green-100">Awaiting approval</p>
+              <p className="text-2xl font-bold">{waiting.length}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-sm text-green-100">Total</p>
+              <p className="text-2xl font-bold">
+                {formatCurrency(waiting.reduce((sum, r) => sum + Number(r.amount), 0))}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <div className="bg-white rounded-xl p-4 text-sm text-gray-600">
+          Refunds are requested from a tab&apos;s payment list.
+          {canApprove
+            ? ' Approving sends the refund to M-Pesa; the tab balance goes back up once M-Pesa confirms it.'
+            : ' Only an owner or manager can approve them.'}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-700">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500 mx-auto mb-4"></div>
+            <p className="text-gray-500">Loading refunds...</p>
+          </div>
+        ) : refunds.length === 0 ? (
+          <div className="bg-white rounded-xl p-8 text-center text-gray-500">
+            <Undo2 size={48} className="mx-auto mb-4 opacity-30" />
+            <h3 className="text-lg font-semibold mb-2">No Refunds</h3>
+            <p className="text-sm">Nothing has been refunded yet.</p>
+          </div>
+        ) : (
+          refunds.map(refund => (
+            <div key={refund.id} className="bg-white rounded-xl shadow-sm p-4">
+              <div className="flex items-start justify-between mb-2">
+                <div>
+                  <p className="text-xl font-bold text-gray-800">{formatCurrency(refund.amount)}</p>
+                  <p className="text-xs text-gray-500 font-mono">{refund.mpesa_receipt_number}</p>
+                </div>
+                <div className="text-right">
+                  <span className={`text-xs font-medium px-2 py-1 rounded-full ${STATUS_STYLES[refund.status].className}`}>
+                    {STATUS_STYLES[refund.status].label}
+                  </span>
+                  <p className="text-xs text-gray-500 mt-1">{timeAgo(refund.created_at)}</p>
+                </div>
+              </div>
+
+              <p className="text-sm text-gray-700 mb-1">{refund.reason}</p>
+              <p className="text-xs text-gray-500">
+                {refund.method === 'reversal' ? 'Full reversal' : `Partial refund to ${refund.phone_number || 'customer'}`}
+                {refund.transaction_id && ` · ${refund.transaction_id}`}
+              </p>
+              {refund.status === 'rejected' && refund.rejection_reason && (
+                <p className="text-xs text-gray-500 mt-1">Rejected: {refund.rejection_reason}</p>
+              )}
+              {refund.status === 'failed' && refund.result_desc && (
+                <p className="text-xs text-red-600 mt-1">{refund.result_desc}</p>
+              )}
+
+              <div className="flex gap-2 mt-3">
+                <button
+                  onClick={() => router.push(`/tabs/${refund.tab_id}`)}
+                  className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200"
+                >
+                  View Tab
+                </button>
+                {canApprove && refund.status === 'pending_approval' && (
+                  <>
+                    <button
+                      onClick={() => handleDecision(refund, 'reject')}
+                      disabled={actingId === refund.id}
+                      className="ml-auto px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50 flex items-center gap-1"
+                    >
+                      <X size={16} />
+                      Reject
+                    </button>
+                    <button
+                      onClick={() => handleDecision(refund, 'approve')}
+                      disabled={actingId === refund.id}
+                      className="px-4 py-2 bg-green-500 text-white rounded-lg text-sm font-medium hover:bg-green-600 disabled:bg-gray-300 flex items-center gap-1"
+                    >
+                      <Check size={16} />
+                      {actingId === refund.id ? 'Sending...' : 'Approve'}
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+      </div>
+    </div>
+  );
+}
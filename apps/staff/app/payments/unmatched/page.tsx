@@ -0,0 +1,262 @@
+// apps/staff/app/payments/unmatched/page.tsx
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowRight, Inbox, Phone, RefreshCw, Link2 } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/lib/useAuth';
+
+interface C2BTransaction {
+  id: string;
+  trans_id: string;
+  amount: number;
+  msisdn: string | null;
+  payer_name: string | null;
+  bill_ref_number: string | null;
+  trans_time: string | null;
+  created_at: string;
+}
+
+interface OpenTab {
+  id: string;
+  tab_number: number;
+  status: string;
+  notes: string | null;
+}
+
+const formatCurrency = (amount: number | string): string => {
+  const number = typeof amount === 'string' ? parseFloat(amount) : amount;
+  if (isNaN(number)) return 'KSh 0';
+  return `KSh ${new Intl.NumberFormat('en-US').format(number)}`;
+};
+
+const timeAgo = (dateStr: string) => {
+  const date = new Date(dateStr);
+  const seconds = Math.floor((new Date().getTime() - date.getTime()) / 1000);
+  if (seconds < 60) return 'Just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+};
+
+const getDisplayName = (tab: OpenTab) => {
+  if (tab.notes) {
+    try {
+      const notes = JSON.parse(tab.notes);
+      if (notes.display_name) return `${notes.display_name} (#${tab.tab_number})`;
+    } catch (e) {}
+  }
+  return `Tab ${tab.tab_number}`;
+};
+
+export default function UnmatchedPaymentsPage() {
+  const router = useRouter();
+  const { bar } = useAuth();
+  const [transactions, setTransactions] = useState<C2BTransaction[]>([]);
+  const [tabs, setTabs] = useState<OpenTab[]>([]);
+  const [selectedTabs, setSelectedTabs] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [assigningId, setAssigningId] = useState<string | null>(null);
+  const [registering, setRegistering] = useState(false);
+  const [error, setError] = useState('');
+
+  const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+
+    return fetch(input, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${session.access_token}`
+      }
+    });
+  };
+
+  const loadQueue = useCallback(async () => {
+    if (!bar) return;
+    setLoading(true);
+    setError('');
+    try {
+      const response = await authorizedFetch(`/api/payments/c2b?barId=${bar.id}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load unmatched payments');
+
+      setTransactions(result.transactions);
+      setTabs(result.tabs);
+    } catch (err) {
+      console.error('Error loading unmatched payments:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load unmatched payments');
+    } finally {
+      setLoading(false);
+    }
+  }, [bar]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleAssign = async (transaction: C2BTransaction) => {
+    const tabId = selectedTabs[transaction.id];
+    const tab = tabs.find(t => t.id === tabId);
+    if (!bar || !tab) return;
+
+    const confirm = window.confirm(`Add ${formatCurrency(transaction.amount)} (${transaction.trans_id}) to ${getDisplayName(tab)}?`);
+    if (!confirm) return;
+
+    setAssigningId(transaction.id);
+    try {
+      const response = await authorizedFetch('/api/payments/c2b', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barId: bar.id, transactionId: transaction.id, tabId })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to assign payment');
+
+      setTransactions(prev => prev.filter(t => t.id !== transaction.id));
+    } catch (err) {
+      console.error('Error assigning payment:', err);
+      alert(err instanceof Error ? err.message : 'Failed to assign payment');
+    } finally {
+      setAssigningId(null);
+    }
+  };
+
+  const handleRegisterUrls = async () => {
+    if (!bar) return;
+    setRegistering(true);
+    try {
+      const response = await authorizedFetch('/api/payments/c2b/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barId: bar.id })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to register URLs');
+
+      alert('✅ Paybill/Till payments will now be sent to Tabeza');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to register URLs');
+    } finally {
+      setRegistering(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex justify-center">
+      <div className="w-full lg:max-w-[80%] max-w-full">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-green-500 to-emerald-600 text-white p-6">
+        <div className="flex items-center justify-between mb-4">
+          <button
+            onClick={() => router.push('/')}
+            className="p-2 bg-white bg-opacity-20 rounded-lg hover:bg-opacity-30"
+          >
+            <ArrowRight size={24} className="transform rotate-180" />
+          </button>
+          <h1 className="text-2xl font-bold">Unmatched Payments</h1>
+          <button
+            onClick={loadQueue}
+            className="p-2 bg-white bg-opacity-20 rounded-lg hover:bg-opacity-30"
+          >
+            <RefreshCw size={24} />
+          </button>
+        </div>
+
+        <div className="bg-white bg-opacity-20 backdrop-blur-sm rounded-xl p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-green-100">Paybill / Till payments without a tab</p>
+              <p className="text-2xl font-bold">{transactions.length} Waiting</p>
+            </div>
+            <div className="text-right">
+              <p className="text-sm text-green-100">Total</p>
+              <p className="text-2xl font-bold">
+                {formatCurrency(transactions.reduce((sum, t) => sum + Number(t.amount), 0))}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <div className="bg-white rounded-xl p-4 flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-600">
+            Payments with the tab number as the account number are added to the tab automatically.
+            Anything we can&apos;t match shows up here.
+          </p>
+          <button
+            onClick={handleRegisterUrls}
+            disabled={registering}
+            className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 whitespace-nowrap disabled:opacity-50"
+          >
+            {registering ? 'Registering...' : 'Register Paybill URLs'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-700">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500 mx-auto mb-4"></div>
+            <p className="text-gray-500">Loading unmatched payments...</p>
+          </div>
+        ) : transactions.length === 0 ? (
+          <div className="bg-white rounded-xl p-8 text-center text-gray-500">
+            <Inbox size={48} className="mx-auto mb-4 opacity-30" />
+            <h3 className="text-lg font-semibold mb-2">All Caught Up</h3>
+            <p className="text-sm">Every Paybill/Till payment has been matched to a tab.</p>
+          </div>
+        ) : (
+          transactions.map(transaction => (
+            <div key={transaction.id} className="bg-white rounded-xl shadow-sm p-4">
+              <div className="flex items-start justify-between mb-3">
+                <div>
+                  <p className="text-xl font-bold text-gray-800">{formatCurrency(transaction.amount)}</p>
+                  <p className="text-xs text-gray-500 font-mono">{transaction.trans_id}</p>
+                </div>
+                <p className="text-xs text-gray-500">{timeAgo(transaction.trans_time || transaction.created_at)}</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-sm text-gray-600 mb-3">
+                <p className="flex items-center gap-1">
+                  <Phone size={14} />
+                  {transaction.payer_name || transaction.msisdn || 'Unknown payer'}
+                </p>
+                <p>Account: <span className="font-medium">{transaction.bill_ref_number || '—'}</span></p>
+              </div>
+
+              <div className="flex gap-2">
+                <select
+                  value={selectedTabs[transaction.id] || ''}
+                  onChange={(e) => setSelectedTabs({ ...selectedTabs, [transaction.id]: e.target.value })}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  <option value="">Select a tab...</option>
+                  {tabs.map(tab => (
+                    <option key={tab.id} value={tab.id}>
+                      {getDisplayName(tab)}{tab.status === 'overdue' ? ' — overdue' : ''}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleAssign(transaction)}
+                  disabled={!selectedTabs[transaction.id] || assigningId === transaction.id}
+                  className="px-4 py-2 bg-green-500 text-white rounded-lg text-sm font-medium hover:bg-green-600 disabled:bg-gray-300 flex items-center gap-1"
+                >
+                  <Link2 size={16} />
+                  {assigningId === transaction.id ? 'Assigning...' : 'Assign'}
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+      </div>
+    </div>
+  );
+}
@@ -3,21 +3,56 @@
 
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { ArrowRight, Printer, Download, Sheet, X } from 'lucide-react';
+import { ArrowRight, Printer, Download, Sheet } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import { formatCurrency } from '@/lib/formatUtils';
+import type { DailyReport } from '@tabeza/shared/lib/services/daily-report';
+import type { ExportEntity, ExportFormat } from '@tabeza/shared/lib/services/report-export';
+
+const formatKenyaDateTime = (dateStr: string): string =>
+  new Date(dateStr).toLocaleString('en-GB', { timeZone: 'Africa/Nairobi' });
+
+const EXPORT_ENTITY_OPTIONS: { value: ExportEntity; label: string }[] = [
+  { value: 'tabs', label: 'Tabs' },
+  { value: 'tab_orders', label: 'Orders' },
+  { value: 'tab_payments', label: 'Payments' },
+  { value: 'write_offs', label: 'Write-offs' }
+];
+
+const todayInKenya = (): string =>
+  new Date().toLocaleDateString('en-CA', { timeZone: 'Africa/Nairobi' });
 
 export default function ReportsPage() {
   const router = useRouter();
   const [tabs, setTabs] = useState<any[]>([]);
   const [barName, setBarName] = useState('');
+  const [barId, setBarId] = useState<string | null>(null);
+  const [reportDate, setReportDate] = useState('');
+  const [printing, setPrinting] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [showProModal, setShowProModal] = useState(false);
-  const [proFeature, setProFeature] = useState('');
+  const [exportEntity, setExportEntity] = useState<ExportEntity>('tab_payments');
+  const [exportFrom, setExportFrom] = useState(todayInKenya);
+  const [exportTo, setExportTo] = useState(todayInKenya);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
 
   useEffect(() => {
     loadData();
   }, []);
 
+  // Report APIs check reports.view against the signed-in staff member
+  const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+
+    return fetch(input, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${session.access_token}`
+      }
+    });
+  };
+
   const loadData = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -45,6 +80,8 @@ export default function ReportsPage() {
       
       if (barError) throw barError;
       
+      setBarId(userBarId);
+
       if (barData) {
         setBarName(barData.name);
       }
@@ -181,25 +218,44 @@ export default function ReportsPage() {
     return { totalTabs, totalOrders, totalPayments, totalOutstanding, averageServiceTime };
   };
 
-  const getDisplayName = (tab: any) => {
-    if (tab.notes) {
-      try {
-        const notes = JSON.parse(tab.notes);
-        return notes.display_name || `Tab ${tab.tab_number || 'Unknown'}`;
-      } catch (e) {
-        return `Tab ${tab.tab_number || 'Unknown'}`;
+  const stats = calculateStats();
+
+  const handlePrintDaily = async () => {
+    if (!barId) return;
+
+    setPrinting(true);
+    try {
+      const params = new URLSearchParams({ barId });
+      if (reportDate) params.set('date', reportDate);
+
+      const response = await authorizedFetch(`/api/reports/daily?${params.toString()}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to generate daily report');
       }
+
+      printDailyReport(result.report as DailyReport);
+    } catch (error) {
+      console.error('Error generating daily report:', error);
+      alert('Failed to generate daily report. Please try again.');
+    } finally {
+      setPrinting(false);
     }
-    return `Tab ${tab.tab_number || 'Unknown'}`;
   };
 
-  const stats = calculateStats();
+  const printDailyReport = (report: DailyReport) => {
+    const businessDate = new Date(`${report.businessDate}T00:00:00`);
+    const methodLabels: Record<keyof DailyReport['payments']['byMethod'], string> = {
+      mpesa: 'M-Pesa',
+      cash: 'Cash',
+      cards: 'Cards'
+    };
 
-  const handlePrintDaily = () => {
     const printContent = `
       <html>
         <head>
-          <title>Tabeza Report - ${new Date().toLocaleDateString()}</title>
+          <title>Tabeza Daily Report - ${report.businessDate}</title>
           <style>
             @page { size: A4 portrait; margin: 1.5cm; }
             body {
@@ -248,7 +304,7 @@ export default function ReportsPage() {
             }
             .summary-grid {
               display: grid;
-              grid-template-columns: repeat(5, 1fr);
+              grid-template-columns: repeat(4, 1fr);
               gap: 15px;
             }
             .summary-item {
@@ -310,68 +366,162 @@ export default function ReportsPage() {
         </head>
         <body>
           <div class="header">
-            <h1>${barName || 'Restaurant'}</h1>
-            <h2>Tabeza Report</h2>
-            <p>Date: ${new Date().toLocaleDateString('en-GB', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</p>
-            <p>Generated: ${new Date().toLocaleString('en-GB')}</p>
+            <h1>${report.barName || barName || 'Restaurant'}</h1>
+            <h2>Daily Z-Report</h2>
+            <p>Business Day: ${businessDate.toLocaleDateString('en-GB', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</p>
+            <p>Window: ${formatKenyaDateTime(report.window.start)} → ${formatKenyaDateTime(report.window.end)}</p>
+            <p>Generated: ${formatKenyaDateTime(report.generatedAt)}</p>
           </div>
 
           <div class="summary">
             <h3>Summary</h3>
             <div class="summary-grid">
               <div class="summary-item">
-                <span class="label">Total Tabs</span>
-                <span class="value">${stats.totalTabs}</span>
+                <span class="label">Tabs Opened</span>
+                <span class="value">${report.tabs.opened}</span>
+              </div>
+              <div class="summary-item">
+                <span class="label">Tabs Closed</span>
+                <span class="value">${report.tabs.closed}</span>
+              </div>
+              <div class="summary-item">
+                <span class="label">Moved to Overdue</span>
+                <span class="value">${report.tabs.overdue}</span>
               </div>
               <div class="summary-item">
-                <span class="label">Total Orders</span>
-                <span class="value">${stats.totalOrders}</span>
+                <span class="label">Orders</span>
+                <span class="value">${report.orders.count}</span>
               </div>
               <div class="summary-item">
-                <span class="label">Avg Service Time</span>
-                <span class="value">${stats.averageServiceTime > 0 ? `${stats.averageServiceTime.toFixed(1)} min` : 'No data'}</span>
+                <span class="label">Gross Orders</span>
+                <span class="value">${formatCurrency(report.orders.gross)}</span>
               </div>
               <div class="summary-item">
                 <span class="label">Total Payments</span>
-                <span class="value">KSh ${stats.totalPayments.toLocaleString()}</span>
+                <span class="value">${formatCurrency(report.payments.total)}</span>
               </div>
               <div class="summary-item">
-                <span class="label">Total Outstanding</span>
-                <span class="value outstanding">KSh ${stats.totalOutstanding.toLocaleString()}</span>
+                <span class="label">Write-offs</span>
+                <span class="value">${formatCurrency(report.writeOffs.amount)}</span>
+              </div>
+              <div class="summary-item">
+                <span class="label">Outstanding</span>
+                <span class="value outstanding">${formatCurrency(report.outstanding.amount)}</span>
               </div>
             </div>
           </div>
 
           <div class="details">
-            <h3>Details</h3>
+            <h3>Payments by Method</h3>
             <table>
               <thead>
                 <tr>
-                  <th class="text-center">Tab #</th>
-                  <th class="text-center">Orders</th>
-                  <th class="text-right">Payments</th>
-                  <th class="text-right">Outstanding</th>
+                  <th>Method</th>
+                  <th class="text-center">Count</th>
+                  <th class="text-right">Amount</th>
                 </tr>
               </thead>
               <tbody>
-                ${tabs.map((tab: any) => {
-                  const orderTotal = (tab.orders || [])
-                    .filter((o: any) => o.status !== 'cancelled')
-                    .reduce((sum: number, order: any) => sum + parseFloat(order.total), 0);
-                  const paymentTotal = (tab.payments || [])
-                    .filter((p: any) => p.status === 'success')
-                    .reduce((sum: number, payment: any) => sum + parseFloat(payment.amount), 0);
-                  const outstanding = orderTotal - paymentTotal;
-                  
-                  return `
+                ${(Object.keys(methodLabels) as Array<keyof typeof methodLabels>).map(method => `
+                  <tr>
+                    <td>${methodLabels[method]}</td>
+                    <td class="text-center">${report.payments.byMethod[method].count}</td>
+                    <td class="text-right">${formatCurrency(report.payments.byMethod[method].amount)}</td>
+                  </tr>
+                `).join('')}
+                <tr>
+                  <td><strong>Total towards tabs</strong></td>
+                  <td class="text-center"></td>
+                  <td class="text-right"><strong>${formatCurrency(report.payments.total)}</strong></td>
+                </tr>
+                <tr>
+                  <td>Service Charge</td>
+                  <td class="text-center">${report.payments.serviceCharges.count}</td>
+                  <td class="text-right">${formatCurrency(report.payments.serviceCharges.amount)}</td>
+                </tr>
+                <tr>
+                  <td>Tips</td>
+                  <td class="text-center">${report.payments.tips.count}</td>
+                  <td class="text-right">${formatCurrency(report.payments.tips.amount)}</td>
+                </tr>
+              </tbody>
+            </table>
+
+            ${(report.payments.byTill || []).length > 1 ? `
+              <h3>M-Pesa by Till</h3>
+              <table>
+                <thead>
+                  <tr>
+                    <th>Till</th>
+                    <th class="text-center">Count</th>
+                    <th class="text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${report.payments.byTill.map(till => `
+                    <tr>
+                      <td>${till.name}</td>
+                      <td class="text-center">${till.count}</td>
+                      <td class="text-right">${formatCurrency(till.amount)}</td>
+                    </tr>
+                  `).join('')}
+                </tbody>
+              </table>
+            ` : ''}
+
+            ${(report.cashShifts?.count || 0) > 0 ? `
+              <h3>Cash Drawer Shifts (${report.cashShifts.count})</h3>
+              <table>
+                <thead>
+                  <tr>
+                    <th>Shift</th>
+                    <th class="text-right">Float</th>
+                    <th class="text-right">Cash</th>
+                    <th class="text-right">M-Pesa</th>
+                    <th class="text-right">Expected</th>
+                    <th class="text-right">Counted</th>
+                    <th class="text-right">Over/Short</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${report.cashShifts.shifts.map(shift => `
                     <tr>
-                      <td class="text-center"><strong>${getDisplayName(tab)}</strong></td>
-                      <td class="text-center">${tab.orders?.length || 0}</td>
-                      <td class="text-right">KSh ${paymentTotal.toLocaleString()}</td>
-                      <td class="text-right"><strong>KSh ${outstanding.toLocaleString()}</strong></td>
+                      <td>${formatKenyaDateTime(shift.openedAt)} → ${formatKenyaDateTime(shift.closedAt)}</td>
+                      <td class="text-right">${formatCurrency(shift.openingFloat)}</td>
+                      <td class="text-right">${formatCurrency(shift.cashTotal)}</td>
+                      <td class="text-right">${formatCurrency(shift.mpesaTotal)}</td>
+                      <td class="text-right">${formatCurrency(shift.expected)}</td>
+                      <td class="text-right">${formatCurrency(shift.counted)}</td>
+                      <td class="text-right"><strong>${shift.overShort > 0 ? '+' : ''}${formatCurrency(shift.overShort)}</strong></td>
                     </tr>
-                  `;
-                }).join('')}
+                  `).join('')}
+                  <tr>
+                    <td colspan="4"><strong>Total</strong></td>
+                    <td class="text-right"><strong>${formatCurrency(report.cashShifts.expected)}</strong></td>
+                    <td class="text-right"><strong>${formatCurrency(report.cashShifts.counted)}</strong></td>
+                    <td class="text-right"><strong>${report.cashShifts.overShort > 0 ? '+' : ''}${formatCurrency(report.cashShifts.overShort)}</strong></td>
+                  </tr>
+                </tbody>
+              </table>
+            ` : ''}
+
+            <h3>Outstanding Balances (${report.outstanding.tabCount})</h3>
+            <table>
+              <thead>
+                <tr>
+                  <th class="text-center">Tab #</th>
+                  <th class="text-center">Status</th>
+                  <th class="text-right">Outstanding</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${report.outstanding.tabs.map(tab => `
+                  <tr>
+                    <td class="text-center"><strong>Tab ${tab.tabNumber}</strong></td>
+                    <td class="text-center">${tab.status}</td>
+                    <td class="text-right"><strong>${formatCurrency(tab.balance)}</strong></td>
+                  </tr>
+                `).join('')}
               </tbody>
             </table>
           </div>
@@ -390,9 +540,43 @@ export default function ReportsPage() {
     }
   };
 
-  const handleProFeature = (feature: string) => {
-    setProFeature(feature);
-    setShowProModal(true);
+  const handleExport = async (format: ExportFormat) => {
+    if (!barId) return;
+
+    setExporting(format);
+    try {
+      const params = new URLSearchParams({
+        barId,
+        entity: exportEntity,
+        from: exportFrom,
+        to: exportTo,
+        format
+      });
+
+      const response = await authorizedFetch(`/api/reports/export?${params.toString()}`);
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Failed to export data');
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `tabeza-export.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      alert(error instanceof Error ? error.message : 'Failed to export data. Please try again.');
+    } finally {
+      setExporting(null);
+    }
   };
 
   if (loading) {
@@ -422,56 +606,101 @@ export default function ReportsPage() {
 
         <div className="p-4 space-y-3">
           <div className="bg-white rounded-xl shadow-sm divide-y">
-            <button 
-              onClick={handlePrintDaily}
-              className="w-full p-4 flex items-center justify-between hover:bg-gray-50 transition"
-            >
-              <div className="flex items-center gap-3">
-                <div className="p-2 bg-blue-100 rounded-lg">
-                  <Printer size={20} className="text-blue-600" />
-                </div>
-                <div className="text-left">
-                  <p className="font-semibold text-gray-800">Print Daily Report</p>
-                  <p className="text-sm text-gray-500">Physical receipt for records</p>
+            <div className="p-4 flex items-center justify-between gap-3">
+              <button 
+                onClick={handlePrintDaily}
+                disabled={printing || !barId}
+                className="flex-1 flex items-center justify-between hover:bg-gray-50 transition disabled:opacity-50"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="p-2 bg-blue-100 rounded-lg">
+                    <Printer size={20} className="text-blue-600" />
+                  </div>
+                  <div className="text-left">
+                    <p className="font-semibold text-gray-800">
+                      {printing ? 'Generating Report...' : 'Print Daily Report'}
+                    </p>
+                    <p className="text-sm text-gray-500">Z-report for the business day (defaults to tonight)</p>
+                  </div>
                 </div>
+                <ArrowRight size={20} className="text-gray-400" />
+              </button>
+              <input
+                type="date"
+                value={reportDate}
+                onChange={(e) => setReportDate(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700"
+                aria-label="Business date"
+              />
+            </div>
+
+            <div className="p-4 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={exportEntity}
+                  onChange={(e) => setExportEntity(e.target.value as ExportEntity)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700"
+                  aria-label="Data to export"
+                >
+                  {EXPORT_ENTITY_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={exportFrom}
+                  onChange={(e) => setExportFrom(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700"
+                  aria-label="Export from business date"
+                />
+                <span className="text-sm text-gray-500">to</span>
+                <input
+                  type="date"
+                  value={exportTo}
+                  onChange={(e) => setExportTo(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700"
+                  aria-label="Export to business date"
+                />
               </div>
-              <ArrowRight size={20} className="text-gray-400" />
-            </button>
+              <p className="text-xs text-gray-500">Dates are business days in Kenya time. Amounts are in KES.</p>
+            </div>
 
             <button 
-              onClick={() => handleProFeature('CSV Export')}
-              className="w-full p-4 flex items-center justify-between hover:bg-gray-50 transition"
+              onClick={() => handleExport('csv')}
+              disabled={exporting !== null || !barId || !exportFrom || !exportTo}
+              className="w-full p-4 flex items-center justify-between hover:bg-gray-50 transition disabled:opacity-50"
             >
               <div className="flex items-center gap-3">
                 <div className="p-2 bg-green-100 rounded-lg">
                   <Download size={20} className="text-green-600" />
                 </div>
                 <div className="text-left">
-                  <p className="font-semibold text-gray-800">Download CSV</p>
+                  <p className="font-semibold text-gray-800">
+                    {exporting === 'csv' ? 'Exporting...' : 'Download CSV'}
+                  </p>
                   <p className="text-sm text-gray-500">Open in Excel or Google Sheets</p>
                 </div>
               </div>
-              <span className="text-xs bg-orange-100 text-orange-700 px-2 py-1 rounded-full font-medium">
-                Pro
-              </span>
+              <ArrowRight size={20} className="text-gray-400" />
             </button>
 
             <button 
-              onClick={() => handleProFeature('Google Sheets Sync')}
-              className="w-full p-4 flex items-center justify-between hover:bg-gray-50 transition"
+              onClick={() => handleExport('xlsx')}
+              disabled={exporting !== null || !barId || !exportFrom || !exportTo}
+              className="w-full p-4 flex items-center justify-between hover:bg-gray-50 transition disabled:opacity-50"
             >
               <div className="flex items-center gap-3">
                 <div className="p-2 bg-purple-100 rounded-lg">
                   <Sheet size={20} className="text-purple-600" />
                 </div>
                 <div className="text-left">
-                  <p className="font-semibold text-gray-800">Sync to Google Sheets</p>
-                  <p className="text-sm text-gray-500">Auto-update spreadsheet daily</p>
+                  <p className="font-semibold text-gray-800">
+                    {exporting === 'xlsx' ? 'Exporting...' : 'Download Excel (XLSX)'}
+                  </p>
+                  <p className="text-sm text-gray-500">Import into Google Sheets or open in Excel</p>
                 </div>
               </div>
-              <span className="text-xs bg-orange-100 text-orange-700 px-2 py-1 rounded-full font-medium">
-                Pro
-              </span>
+              <ArrowRight size={20} className="text-gray-400" />
             </button>
           </div>
 
@@ -504,74 +733,7 @@ export default function ReportsPage() {
               </div>
             </div>
           </div>
-
-          <div className="bg-blue-50 border border-blue-200 rounded-xl p-4">
-            <p className="text-sm text-gray-700">
-              <strong>📊 Pro Tip:</strong> Upgrade to Pro to unlock CSV exports and automatic Google Sheets sync for seamless accounting.
-            </p>
-          </div>
         </div>
-
-        {showProModal && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
-            <div className="bg-white rounded-2xl max-w-md w-full p-6 shadow-2xl">
-              <div className="flex items-center justify-between mb-4">
-                <div className="flex items-center gap-3">
-                  <div className="w-12 h-12 bg-gradient-to-br from-orange-500 to-red-600 rounded-full flex items-center justify-center">
-                    <span className="text-white text-xl font-bold">✨</span>
-                  </div>
-                  <div>
-                    <h3 className="text-xl font-bold text-gray-800">Upgrade to Pro</h3>
-                    <p className="text-sm text-gray-500">Unlock premium features</p>
-                  </div>
-                </div>
-                <button onClick={() => setShowProModal(false)} className="p-2 hover:bg-gray-100 rounded-lg">
-                  <X size={20} />
-                </button>
-              </div>
-
-              <div className="bg-orange-50 border border-orange-200 rounded-xl p-4 mb-4">
-                <p className="text-sm text-gray-700 mb-3">
-                  <strong>{proFeature}</strong> is a Pro feature that helps you:
-                </p>
-                <ul className="text-sm text-gray-600 space-y-2 ml-4">
-                  {proFeature === 'CSV Export' ? (
-                    <>
-                      <li>• Export all data to Excel-compatible format</li>
-                      <li>• Share reports with accountants instantly</li>
-                      <li>• Analyze trends with pivot tables</li>
-                    </>
-                  ) : (
-                    <>
-                      <li>• Automatically sync daily reports to Google Sheets</li>
-                      <li>• Real-time dashboard for managers</li>
-                      <li>• No manual data entry needed</li>
-                    </>
-                  )}
-                </ul>
-              </div>
-
-              <div className="space-y-3">
-                <button 
-                  onClick={() => setShowProModal(false)}
-                  className="w-full bg-gradient-to-r from-orange-500 to-red-600 text-white py-3 rounded-xl font-semibold hover:from-orange-600 hover:to-red-700 transition"
-                >
-                  Coming Soon
-                </button>
-                <button 
-                  onClick={() => setShowProModal(false)}
-                  className="w-full bg-gray-100 text-gray-700 py-3 rounded-xl font-medium hover:bg-gray-200 transition"
-                >
-                  Close
-                </button>
-              </div>
-
-              <p className="text-xs text-gray-500 text-center mt-4">
-                Join the waitlist • Be notified when Pro launches
-              </p>
-            </div>
-          </div>
-        )}
       </div>
     </div>
   );
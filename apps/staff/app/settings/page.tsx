@@ -5,6 +5,20 @@ import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { ArrowRight, Store, Bell, QrCode, Save, X, MessageSquare, Copy, Check, Edit2, Download, AlertCircle, CreditCard, Phone, DollarSign, Send, Clock, Calendar, Sun, Moon, BellRing, Grid3X3 } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import WebhookSettings from '@/components/WebhookSettings';
+import CardPaymentSettings from '@/components/CardPaymentSettings';
+import TaxSettings from '@/components/TaxSettings';
+import DepositSettings from '@/components/DepositSettings';
+import MpesaTillSettings from '@/components/mpesa/MpesaTillSettings';
+import StaffManagement from '@/components/StaffManagement';
+import StaffPushSettings from '@/components/StaffPushSettings';
+import { useStaffRole } from '@/lib/useStaffRole';
+import {
+  MAX_SERVICE_CHARGE_PERCENT,
+  validateBusinessHoursExceptions,
+  validateServiceChargePercent,
+  type BusinessHoursException
+} from '@tabeza/shared';
 
 export const dynamic = 'force-dynamic';
 
@@ -37,6 +51,7 @@ export default function SettingsPage() {
   const [loading, setLoading] = useState(true);
   const [copied, setCopied] = useState(false);
   const [isNewUser, setIsNewUser] = useState(false);
+  const { can } = useStaffRole(barInfo.id);
   
   const [notifications, setNotifications] = useState({
     newOrders: false,
@@ -47,7 +62,9 @@ export default function SettingsPage() {
   // Payment settings (excluding M-Pesa which has its own section)
   const [paymentSettings, setPaymentSettings] = useState({
     payment_card_enabled: false,
-    payment_cash_enabled: true
+    payment_cash_enabled: true,
+    tips_enabled: true,
+    service_charge_percent: 0
   });
   const [savingPaymentSettings, setSavingPaymentSettings] = useState(false);
   
@@ -83,19 +100,36 @@ export default function SettingsPage() {
   // M-Pesa Setup State
   const [mpesaSettings, setMpesaSettings] = useState({
     mpesa_enabled: false,
-    mpesa_environment: 'sandbox' as 'sandbox' | 'production',
+    mpesa_environment: 'sandbox' as 'sandbox' | 'production' | 'simulator',
     mpesa_business_shortcode: '',
     mpesa_consumer_key: '',
     mpesa_consumer_secret: '',
     mpesa_passkey: '',
+    mpesa_initiator_name: '',
+    mpesa_security_credential: '',
     mpesa_setup_completed: false,
     mpesa_last_test_at: null as string | null,
     mpesa_test_status: 'pending' as 'pending' | 'success' | 'failed'
   });
   const [savingMpesaSettings, setSavingMpesaSettings] = useState(false);
+  const [mpesaSimulatorAvailable, setMpesaSimulatorAvailable] = useState(false);
   const [testingMpesa, setTestingMpesa] = useState(false);
   const [showMpesaSetup, setShowMpesaSetup] = useState(false);
 
+  // Payment settings APIs check the caller's role from their access token
+  const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+
+    return fetch(input, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${session.access_token}`
+      }
+    });
+  };
+
   // Business Hours State
   const [businessHoursMode, setBusinessHoursMode] = useState<BusinessHoursMode>('simple');
   const [savingHours, setSavingHours] = useState(false);
@@ -113,6 +147,8 @@ export default function SettingsPage() {
     { day: 'saturday', label: 'Saturday', open: true, openTime: '10:00', closeTime: '02:00', openNextDay: true },
     { day: 'sunday', label: 'Sunday', open: true, openTime: '10:00', closeTime: '22:00', openNextDay: false },
   ]);
+  // Holiday closures and special hours for specific dates
+  const [hoursExceptions, setHoursExceptions] = useState<BusinessHoursException[]>([]);
 
   useEffect(() => {
     loadBarInfo();
@@ -192,8 +228,10 @@ export default function SettingsPage() {
       
       // Load payment settings (excluding M-Pesa which has its own section)
       setPaymentSettings({
-        payment_card_enabled: data.payment_card_enabled ?? false,
-        payment_cash_enabled: data.payment_cash_enabled ?? true
+        payment_card_enabled: data.card_enabled ?? data.payment_card_enabled ?? false,
+        payment_cash_enabled: data.payment_cash_enabled ?? true,
+        tips_enabled: data.tips_enabled ?? true,
+        service_charge_percent: Number(data.service_charge_percent ?? 0)
       });
       
       // Load notification settings
@@ -220,12 +258,13 @@ export default function SettingsPage() {
 
       // Load M-Pesa settings via API to get masked credentials
       try {
-        const mpesaResponse = await fetch(`/api/mpesa-settings?barId=${userBarId}`);
+        const mpesaResponse = await authorizedFetch(`/api/mpesa-settings?barId=${userBarId}`);
         if (mpesaResponse.ok) {
           const mpesaResult = await mpesaResponse.json();
           if (mpesaResult.success) {
             console.log('✅ M-Pesa settings loaded:', mpesaResult.settings);
             setMpesaSettings(mpesaResult.settings);
+            setMpesaSimulatorAvailable(!!mpesaResult.simulatorAvailable);
           } else {
             console.warn('⚠️ Failed to load M-Pesa settings:', mpesaResult.error);
             // Fallback to basic settings from bars table
@@ -236,6 +275,8 @@ export default function SettingsPage() {
               mpesa_consumer_key: '',
               mpesa_consumer_secret: '',
               mpesa_passkey: '',
+              mpesa_initiator_name: data.mpesa_initiator_name ?? '',
+              mpesa_security_credential: '',
               mpesa_setup_completed: data.mpesa_setup_completed ?? false,
               mpesa_last_test_at: data.mpesa_last_test_at ?? null,
               mpesa_test_status: data.mpesa_test_status ?? 'pending'
@@ -254,6 +295,8 @@ export default function SettingsPage() {
           mpesa_consumer_key: '',
           mpesa_consumer_secret: '',
           mpesa_passkey: '',
+          mpesa_initiator_name: data.mpesa_initiator_name ?? '',
+          mpesa_security_credential: '',
           mpesa_setup_completed: data.mpesa_setup_completed ?? false,
           mpesa_last_test_at: data.mpesa_last_test_at ?? null,
           mpesa_test_status: data.mpesa_test_status ?? 'pending'
@@ -272,6 +315,10 @@ export default function SettingsPage() {
       if (data.business_hours_advanced) {
         setAdvancedHours(data.business_hours_advanced);
       }
+
+      if (Array.isArray(data.business_hours_exceptions)) {
+        setHoursExceptions(data.business_hours_exceptions);
+      }
     } catch (error) {
       console.error('Error loading bar info:', error);
       alert('Failed to load bar information');
@@ -357,6 +404,12 @@ export default function SettingsPage() {
       return;
     }
 
+    const serviceChargeError = validateServiceChargePercent(paymentSettings.service_charge_percent);
+    if (serviceChargeError) {
+      alert(`❌ ${serviceChargeError}`);
+      return;
+    }
+
     setSavingPaymentSettings(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -373,7 +426,9 @@ export default function SettingsPage() {
         .from('bars')
         .update({
           payment_card_enabled: paymentSettings.payment_card_enabled,
-          payment_cash_enabled: paymentSettings.payment_cash_enabled
+          payment_cash_enabled: paymentSettings.payment_cash_enabled,
+          tips_enabled: paymentSettings.tips_enabled,
+          service_charge_percent: paymentSettings.service_charge_percent
         })
         .eq('id', userBarId);
 
@@ -458,13 +513,21 @@ export default function SettingsPage() {
         }
       }
 
+      const exceptionsError = validateBusinessHoursExceptions(hoursExceptions);
+      if (exceptionsError) {
+        alert(exceptionsError);
+        setSavingHours(false);
+        return;
+      }
+
       const { error } = await (supabase as any)
         .from('bars')
         .update({
           business_hours_mode: businessHoursMode,
           business_hours_simple: businessHoursMode === 'simple' ? simpleHours : null,
           business_hours_advanced: businessHoursMode === 'advanced' ? advancedHours : null,
-          business_24_hours: businessHoursMode === '24hours'
+          business_24_hours: businessHoursMode === '24hours',
+          business_hours_exceptions: [...hoursExceptions].sort((a, b) => a.date.localeCompare(b.date))
         })
         .eq('id', userBarId);
 
@@ -501,6 +564,29 @@ export default function SettingsPage() {
     setAdvancedHours(updatedHours);
   };
 
+  const handleAddHoursException = (type: BusinessHoursException['type']) => {
+    const today = new Date().toISOString().slice(0, 10);
+    setHoursExceptions([
+      ...hoursExceptions,
+      type === 'closed'
+        ? { date: today, type, label: '' }
+        : { date: today, type, label: '', openTime: '18:00', closeTime: '02:00', closeNextDay: true }
+    ]);
+  };
+
+  const handleHoursExceptionChange = (index: number, field: keyof BusinessHoursException, value: any) => {
+    const updatedExceptions = [...hoursExceptions];
+    updatedExceptions[index] = {
+      ...updatedExceptions[index],
+      [field]: value
+    };
+    setHoursExceptions(updatedExceptions);
+  };
+
+  const handleRemoveHoursException = (index: number) => {
+    setHoursExceptions(hoursExceptions.filter((_, i) => i !== index));
+  };
+
   const handleSaveAlertSettings = async () => {
     setSavingAlertSettings(true);
     try {
@@ -679,8 +765,8 @@ export default function SettingsPage() {
 
   const handleSaveMpesaSettings = async () => {
     // Validate M-Pesa credentials
-    if (mpesaSettings.mpesa_enabled) {
-      // Consumer Key and Secret are always required
+    if (mpesaSettings.mpesa_enabled && mpesaSettings.mpesa_environment !== 'simulator') {
+      // Consumer Key and Secret are always required (the simulator needs none)
       if (!mpesaSettings.mpesa_consumer_key || !mpesaSettings.mpesa_consumer_secret) {
         alert('❌ Consumer Key and Consumer Secret are required when M-Pesa is enabled.');
         return;
@@ -740,7 +826,7 @@ export default function SettingsPage() {
       });
 
       // Call API endpoint to save M-Pesa settings with server-side encryption
-      const response = await fetch('/api/mpesa-settings', {
+      const response = await authorizedFetch('/api/mpesa-settings', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -752,7 +838,9 @@ export default function SettingsPage() {
           mpesa_business_shortcode: settingsToSave.mpesa_business_shortcode,
           mpesa_consumer_key: settingsToSave.mpesa_consumer_key,
           mpesa_consumer_secret: settingsToSave.mpesa_consumer_secret,
-          mpesa_passkey: settingsToSave.mpesa_passkey
+          mpesa_passkey: settingsToSave.mpesa_passkey,
+          mpesa_initiator_name: settingsToSave.mpesa_initiator_name,
+          mpesa_security_credential: settingsToSave.mpesa_security_credential
         })
       });
 
@@ -1143,7 +1231,7 @@ export default function SettingsPage() {
                   </p>
                 </div>
               </div>
-              {!editMode && !isNewUser && (
+              {!editMode && !isNewUser && can('settings.bar') && (
                 <button
                   onClick={() => setEditMode(true)}
                   className="flex items-center gap-2 text-orange-600 hover:text-orange-700 font-medium"
@@ -1352,7 +1440,7 @@ export default function SettingsPage() {
           )}
 
           {/* Business Hours Section */}
-          {!isNewUser && (
+          {!isNewUser && can('settings.bar') && (
             <div className="bg-white rounded-xl shadow-sm p-4">
               <div className="flex items-center gap-3 mb-4">
                 <div className="p-2 bg-yellow-100 rounded-lg">
@@ -1536,6 +1624,126 @@ export default function SettingsPage() {
                 </div>
               )}
 
+              {/* Holiday closures and special hours */}
+              <div className="mt-6 border-t border-gray-200 pt-4">
+                <div className="flex items-center gap-2 mb-1">
+                  <Calendar size={16} className="text-gray-600" />
+                  <h4 className="font-semibold text-gray-800">Holidays & Special Hours</h4>
+                </div>
+                <p className="text-xs text-gray-500 mb-3">
+                  Override your regular hours for specific dates. Customers can't open new tabs while you're closed.
+                </p>
+
+                <div className="space-y-3">
+                  {hoursExceptions.map((exception, index) => (
+                    <div key={index} className="border border-gray-200 rounded-lg p-3">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className={`text-xs px-2 py-1 rounded ${
+                          exception.type === 'closed' ? 'text-red-600 bg-red-50' : 'text-blue-600 bg-blue-50'
+                        }`}>
+                          {exception.type === 'closed' ? 'Closed' : 'Special hours'}
+                        </span>
+                        <button
+                          onClick={() => handleRemoveHoursException(index)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Remove"
+                        >
+                          <X size={16} />
+                        </button>
+                      </div>
+
+                      <input
+                        type="text"
+                        value={exception.label || ''}
+                        onChange={(e) => handleHoursExceptionChange(index, 'label', e.target.value)}
+                        placeholder="Label (e.g. Christmas Day)"
+                        className="w-full px-3 py-2 mb-2 border border-gray-300 rounded-lg focus:border-orange-500 focus:outline-none text-sm"
+                      />
+
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">
+                            {exception.type === 'closed' ? 'From' : 'Date'}
+                          </label>
+                          <input
+                            type="date"
+                            value={exception.date}
+                            onChange={(e) => handleHoursExceptionChange(index, 'date', e.target.value)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:border-orange-500 focus:outline-none text-sm"
+                          />
+                        </div>
+                        {exception.type === 'closed' && (
+                          <div>
+                            <label className="block text-xs text-gray-500 mb-1">Until (optional)</label>
+                            <input
+                              type="date"
+                              value={exception.endDate || ''}
+                              min={exception.date}
+                              onChange={(e) => handleHoursExceptionChange(index, 'endDate', e.target.value || null)}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:border-orange-500 focus:outline-none text-sm"
+                            />
+                          </div>
+                        )}
+                      </div>
+
+                      {exception.type === 'special' && (
+                        <>
+                          <div className="grid grid-cols-2 gap-2 mt-2">
+                            <div>
+                              <label className="block text-xs text-gray-500 mb-1">Open</label>
+                              <input
+                                type="time"
+                                value={exception.openTime || ''}
+                                onChange={(e) => handleHoursExceptionChange(index, 'openTime', e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:border-orange-500 focus:outline-none text-sm"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs text-gray-500 mb-1">Close</label>
+                              <input
+                                type="time"
+                                value={exception.closeTime || ''}
+                                onChange={(e) => handleHoursExceptionChange(index, 'closeTime', e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:border-orange-500 focus:outline-none text-sm"
+                              />
+                            </div>
+                          </div>
+                          <div className="mt-2 flex items-center gap-2">
+                            <Moon size={14} className="text-gray-500" />
+                            <label className="flex items-center gap-1 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={!!exception.closeNextDay}
+                                onChange={(e) => handleHoursExceptionChange(index, 'closeNextDay', e.target.checked)}
+                                className="w-3 h-3 text-orange-500 rounded focus:ring-orange-500"
+                              />
+                              <span className="text-xs text-gray-600">
+                                Close next day (open past midnight)
+                              </span>
+                            </label>
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2 mt-3">
+                  <button
+                    onClick={() => handleAddHoursException('closed')}
+                    className="py-2 border border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:border-orange-500 hover:text-orange-600"
+                  >
+                    + Holiday closure
+                  </button>
+                  <button
+                    onClick={() => handleAddHoursException('special')}
+                    className="py-2 border border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:border-orange-500 hover:text-orange-600"
+                  >
+                    + Special hours
+                  </button>
+                </div>
+              </div>
+
               <button
                 onClick={handleSaveBusinessHours}
                 disabled={savingHours}
@@ -1548,7 +1756,7 @@ export default function SettingsPage() {
           )}
 
           {/* Table Setup Section */}
-          {!isNewUser && (
+          {!isNewUser && can('settings.bar') && (
             <div className="bg-white rounded-xl shadow-sm p-4">
               <div className="flex items-center gap-3 mb-4">
                 <div className="p-2 bg-teal-100 rounded-lg">
@@ -1665,7 +1873,7 @@ export default function SettingsPage() {
           )}
 
           {/* Payment Settings Section - FIXED */}
-          {!isNewUser && (
+          {!isNewUser && can('settings.payments') && (
             <div className="bg-white rounded-xl shadow-sm p-4">
               <div className="flex items-center gap-3 mb-4">
                 <div className="p-2 bg-purple-100 rounded-lg">
@@ -1694,19 +1902,19 @@ export default function SettingsPage() {
                   />
                 </label>
 
-                <label className="flex items-center justify-between p-3 bg-gray-100 rounded-lg opacity-60 cursor-not-allowed">
+                <label className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                   <div className="flex items-center gap-3">
-                    <CreditCard size={20} className="text-gray-400" />
+                    <CreditCard size={20} className="text-blue-600" />
                     <div>
-                      <span className="text-sm font-medium text-gray-500">Card Payments</span>
-                      <p className="text-xs text-gray-400">Credit/Debit cards (Coming Soon)</p>
+                      <span className="text-sm font-medium text-gray-700">Card Payments</span>
+                      <p className="text-xs text-gray-500">Credit/Debit cards (set up in Card Payments below)</p>
                     </div>
                   </div>
                   <input
                     type="checkbox"
-                    checked={false}
+                    checked={paymentSettings.payment_card_enabled}
                     disabled={true}
-                    className="w-5 h-5 text-gray-300 rounded focus:ring-gray-300 cursor-not-allowed"
+                    className="w-5 h-5 text-blue-500 rounded focus:ring-blue-500 cursor-not-allowed"
                   />
                 </label>
 
@@ -1730,6 +1938,44 @@ export default function SettingsPage() {
                 </label>
               </div>
 
+              {/* Gratuity */}
+              <div className="mt-4 space-y-3">
+                <label className="flex items-center justify-between p-3 bg-gray-50 rounded-lg cursor-pointer hover:bg-gray-100 transition">
+                  <div>
+                    <span className="text-sm font-medium text-gray-700">Accept Tips</span>
+                    <p className="text-xs text-gray-500">Customers can add a tip when paying</p>
+                  </div>
+                  <input
+                    type="checkbox"
+                    checked={paymentSettings.tips_enabled}
+                    onChange={(e) => setPaymentSettings({
+                      ...paymentSettings,
+                      tips_enabled: e.target.checked
+                    })}
+                    className="w-5 h-5 text-orange-500 rounded focus:ring-orange-500"
+                  />
+                </label>
+
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Service Charge (%)</label>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Added automatically to every payment. Set to 0 to turn off (max {MAX_SERVICE_CHARGE_PERCENT}%).
+                  </p>
+                  <input
+                    type="number"
+                    min="0"
+                    max={MAX_SERVICE_CHARGE_PERCENT}
+                    step="0.5"
+                    value={paymentSettings.service_charge_percent}
+                    onChange={(e) => setPaymentSettings({
+                      ...paymentSettings,
+                      service_charge_percent: parseFloat(e.target.value) || 0
+                    })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:border-orange-500 focus:outline-none text-sm"
+                  />
+                </div>
+              </div>
+
               <button
                 onClick={handleSavePaymentSettings}
                 disabled={savingPaymentSettings}
@@ -1742,7 +1988,7 @@ export default function SettingsPage() {
           )}
 
           {/* M-Pesa Setup Section */}
-          {!isNewUser && (
+          {!isNewUser && can('settings.payments') && (
             <div className="bg-white rounded-xl shadow-sm p-4">
               <div className="flex items-center justify-between mb-4">
                 <div className="flex items-center gap-3">
@@ -1832,7 +2078,7 @@ export default function SettingsPage() {
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Environment
                     </label>
-                    <div className="grid grid-cols-2 gap-2">
+                    <div className={`grid gap-2 ${mpesaSimulatorAvailable || mpesaSettings.mpesa_environment === 'simulator' ? 'grid-cols-3' : 'grid-cols-2'}`}>
                       <button
                         onClick={() => setMpesaSettings({...mpesaSettings, mpesa_environment: 'sandbox'})}
                         className={`p-3 rounded-lg text-center transition ${
@@ -1856,9 +2102,34 @@ export default function SettingsPage() {
                         <span className="text-sm font-medium">🚀 Production</span>
                         <p className="text-xs text-gray-500 mt-1">Live payments</p>
                       </button>
+
+                      {(mpesaSimulatorAvailable || mpesaSettings.mpesa_environment === 'simulator') && (
+                        <button
+                          onClick={() => setMpesaSettings({...mpesaSettings, mpesa_environment: 'simulator'})}
+                          className={`p-3 rounded-lg text-center transition ${
+                            mpesaSettings.mpesa_environment === 'simulator'
+                              ? 'bg-purple-100 border-2 border-purple-500 text-purple-700'
+                              : 'bg-gray-100 border border-gray-200 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          <span className="text-sm font-medium">🧪 Simulator</span>
+                          <p className="text-xs text-gray-500 mt-1">Local, no Safaricom</p>
+                        </button>
+                      )}
                     </div>
                   </div>
 
+                  {/* Simulator Information */}
+                  {mpesaSettings.mpesa_environment === 'simulator' && (
+                    <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
+                      <h4 className="font-medium text-purple-800 mb-2">🧪 Daraja Simulator</h4>
+                      <p className="text-sm text-purple-700">
+                        Payments, refunds and Paybill transfers go to the local Daraja simulator; no credentials are needed and no money moves.
+                        Choose how the next payments behave (cancelled, timeout, duplicate callback...) on the M-Pesa Transactions page.
+                      </p>
+                    </div>
+                  )}
+
                   {/* Sandbox Information */}
                   {mpesaSettings.mpesa_environment === 'sandbox' && (
                     <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
@@ -2018,6 +2289,40 @@ export default function SettingsPage() {
                         )}
                       </div>
                     )}
+
+                    {/* Refund initiator - optional, needed for M-Pesa refunds */}
+                    <div className="pt-3 border-t border-gray-100">
+                      <p className="text-sm font-medium text-gray-700 mb-1">Refunds (optional)</p>
+                      <p className="text-xs text-gray-500 mb-3">
+                        Reversals and B2C refunds are made by an API initiator on your shortcode.
+                        {mpesaSettings.mpesa_environment === 'sandbox' && ' Sandbox uses the testapi initiator if left empty.'}
+                      </p>
+                      <div className="space-y-3">
+                        <input
+                          type="text"
+                          value={mpesaSettings.mpesa_initiator_name}
+                          onChange={(e) => setMpesaSettings({...mpesaSettings, mpesa_initiator_name: e.target.value})}
+                          className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-green-500 focus:outline-none"
+                          placeholder="Initiator name"
+                        />
+                        <div>
+                          <input
+                            type={mpesaSettings.mpesa_security_credential === '••••••••••••••••' ? 'password' : 'text'}
+                            value={mpesaSettings.mpesa_security_credential}
+                            onChange={(e) => setMpesaSettings({...mpesaSettings, mpesa_security_credential: e.target.value})}
+                            className={`w-full px-4 py-3 border-2 rounded-lg focus:outline-none border-gray-200 focus:border-green-500 ${
+                              mpesaSettings.mpesa_security_credential === '••••••••••••••••'
+                                ? 'border-green-200 bg-green-50'
+                                : ''
+                            }`}
+                            placeholder="Security credential (encrypted initiator password)"
+                          />
+                          {mpesaSettings.mpesa_security_credential === '••••••••••••••••' && (
+                            <p className="text-xs text-green-600 mt-1">Credential is encrypted and stored securely</p>
+                          )}
+                        </div>
+                      </div>
+                    </div>
                   </div>
 
                   {/* Information Box */}
@@ -2095,8 +2400,36 @@ export default function SettingsPage() {
             </div>
           )}
 
+          {/* M-Pesa Tills Section */}
+          {!isNewUser && barInfo.id && (
+            <MpesaTillSettings barId={barInfo.id} />
+          )}
+
+          {/* Card Payments Section */}
+          {!isNewUser && barInfo.id && can('settings.payments') && (
+            <CardPaymentSettings
+              barId={barInfo.id}
+              onEnabledChange={(enabled) => setPaymentSettings(prev => ({ ...prev, payment_card_enabled: enabled }))}
+            />
+          )}
+
+          {/* Tax & eTIMS Section */}
+          {!isNewUser && barInfo.id && can('settings.payments') && (
+            <TaxSettings barId={barInfo.id} />
+          )}
+
+          {/* Deposits & Tab Limits Section */}
+          {!isNewUser && barInfo.id && can('settings.payments') && (
+            <DepositSettings barId={barInfo.id} />
+          )}
+
+          {/* Staff & Roles Section */}
+          {!isNewUser && barInfo.id && can('staff.manage') && (
+            <StaffManagement barId={barInfo.id} />
+          )}
+
           {/* Notifications Section */}
-          {!isNewUser && (
+          {!isNewUser && can('settings.bar') && (
             <div className="bg-white rounded-xl shadow-sm p-4">
               <div className="flex items-center gap-3 mb-4">
                 <div className="p-2 bg-green-100 rounded-lg">
@@ -2178,7 +2511,7 @@ export default function SettingsPage() {
           )}
 
           {/* Alert Settings Section */}
-          {!isNewUser && (
+          {!isNewUser && can('settings.bar') && (
             <div className="bg-white rounded-xl shadow-sm p-4">
               <div className="flex items-center gap-3 mb-4">
                 <div className="p-2 bg-red-100 rounded-lg">
@@ -2329,6 +2662,16 @@ export default function SettingsPage() {
             </div>
           )}
 
+          {/* Push Notifications Section - per staff member, so shown to every role */}
+          {!isNewUser && barInfo.id && (
+            <StaffPushSettings barId={barInfo.id} soundEnabled={alertSettings.soundEnabled} can={can} />
+          )}
+
+                    {/* Webhooks Section */}
+          {!isNewUser && barInfo.id && can('settings.bar') && (
+            <WebhookSettings barId={barInfo.id} />
+          )}
+
           {/* Feedback Section */}
           {!isNewUser && (
             <div className="bg-white rounded-xl shadow-sm p-4">
@@ -3,13 +3,17 @@
 
 import React, { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
-import { ArrowRight, Clock, CheckCircle, Phone, Wallet, Plus, RefreshCw, User, UserCog, ShoppingCart, Trash2, X, MessageCircle, Send, AlertTriangle } from 'lucide-react';
+import { ArrowRight, Clock, CheckCircle, Phone, Wallet, Plus, RefreshCw, User, UserCog, ShoppingCart, Trash2, X, MessageCircle, Send, AlertTriangle, Undo2, Printer } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/components/ui/Toast';
 import { timeAgo as kenyaTimeAgo } from '@/lib/formatUtils';
 import { checkTabOverdueStatus } from '@/lib/businessHours';
 import { useRealtimeSubscription } from '@tabeza/shared/hooks/useRealtimeSubscription';
 import { ConnectionStatusIndicator } from '@tabeza/shared/components/ConnectionStatus';
+import type { TabSplit } from '@tabeza/shared/lib/services/tab-split';
+import type { TabCredit } from '@tabeza/shared/lib/services/tab-credit';
+import { useStaffRole } from '@/lib/useStaffRole';
+import SplitBillProgress from '@/components/SplitBillProgress';
 
 // Temporary format functions
 const tempFormatCurrency = (amount: number | string, decimals = 0): string => {
@@ -126,10 +130,21 @@ export default function TabDetailPage() {
   
   // Telegram message state
   const [telegramMessages, setTelegramMessages] = useState<any[]>([]);
+  const [split, setSplit] = useState<TabSplit | null>(null);
+  const [credit, setCredit] = useState<TabCredit | null>(null);
+  const { can } = useStaffRole(tab?.bar_id);
+  const [limitInput, setLimitInput] = useState<string | null>(null);
+  const [settlingDeposit, setSettlingDeposit] = useState(false);
   const [messageInput, setMessageInput] = useState('');
   const [sendingMessage, setSendingMessage] = useState(false);
   const [showMessageModal, setShowMessageModal] = useState(false);
 
+  // Refund request state
+  const [refundPayment, setRefundPayment] = useState<any>(null);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundReason, setRefundReason] = useState('');
+  const [submittingRefund, setSubmittingRefund] = useState(false);
+
   // Cart state
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [submittingOrder, setSubmittingOrder] = useState(false);
@@ -201,6 +216,7 @@ export default function TabDetailPage() {
     loadTabData();
     loadCartFromSession();
     loadTelegramMessages();
+    loadSplit();
   }, [tabId]);
 
   // Expose addToCart to child windows
@@ -325,6 +341,23 @@ export default function TabDetailPage() {
         }
       }
     },
+    {
+      channelName: `tab-split-${tabId}`,
+      table: 'tab_split_shares',
+      filter: `tab_id=eq.${tabId}`,
+      event: '*' as const,
+      handler: async (payload: any) => {
+        if (payload.eventType === 'UPDATE' && payload.new?.status === 'paid' && payload.old?.status !== 'paid') {
+          showToast({
+            type: 'success',
+            title: 'Share Paid',
+            message: `${payload.new.label} paid ${tempFormatCurrency(payload.new.amount)}`
+          });
+        }
+
+        loadSplit();
+      }
+    },
     {
       channelName: `tab-status-${tabId}`,
       table: 'tabs',
@@ -363,47 +396,36 @@ export default function TabDetailPage() {
     }
   );
 
+  // Tab APIs authorize staff with their Supabase access token
+  const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+
+    return fetch(input, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${session.access_token}`
+      }
+    });
+  };
+
   const loadTabData = async () => {
     setLoading(true);
     
     try {
-      const { data: tabData, error: tabError } = await (supabase as any)
-        .from('tabs')
-        .select('*')
-        .eq('id', tabId)
-        .single() as { data: any, error: any };
-
-      if (tabError) throw tabError;
-
-      const { data: barData, error: barError } = await (supabase as any)
-        .from('bars')
-        .select('id, name, location')
-        .eq('id', tabData.bar_id)
-        .single() as { data: any, error: any };
-
-      if (barError) throw barError;
-
-      const { data: ordersResult, error: ordersError } = await (supabase as any)
-        .from('tab_orders')
-        .select('*')
-        .eq('tab_id', tabId)
-        .order('created_at', { ascending: false }) as { data: any, error: any };
-
-      if (ordersError) throw ordersError;
+      // One snapshot so orders, payments and balance agree with each other
+      const response = await authorizedFetch(`/api/tabs/${tabId}`);
+      const snapshot = await response.json();
 
-      const { data: paymentsResult, error: paymentsError } = await (supabase as any)
-        .from('tab_payments')
-        .select('*')
-        .eq('tab_id', tabId)
-        .order('created_at', { ascending: false }) as { data: any, error: any };
-
-      if (paymentsError) throw paymentsError;
+      if (!response.ok) throw new Error(snapshot.error || 'Failed to load tab');
 
+      const tabData = snapshot.tab;
       const fullTabData = {
         ...tabData,
-        bar: barData,
-        orders: ordersResult || [],
-        payments: paymentsResult || []
+        bar: snapshot.bar,
+        orders: snapshot.orders || [],
+        payments: snapshot.payments || []
       };
 
       setTab(fullTabData);
@@ -419,6 +441,7 @@ export default function TabDetailPage() {
       }
       setDisplayName(name);
       setTableNumber(table);
+      loadCredit();
 
       // Check if tab should be marked as overdue based on business hours
       await checkTabOverdueStatus(tabData.id);
@@ -568,6 +591,19 @@ export default function TabDetailPage() {
     }
   };
 
+  // Order status changes go through the server so illegal moves are rejected
+  const updateOrderStatus = async (orderId: string, status: 'confirmed' | 'served' | 'cancelled', reason?: string) => {
+    const response = await authorizedFetch('/api/orders/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ orderId, status, reason })
+    });
+    const result = await response.json();
+
+    if (!response.ok) throw new Error(result.error || 'Failed to update order');
+    return result.order;
+  };
+
   const handleMarkServed = async (orderId: string, initiatedBy: string) => {
     if (initiatedBy === 'staff') {
       showToast({
@@ -579,15 +615,7 @@ export default function TabDetailPage() {
     }
 
     try {
-      const { error } = await (supabase as any)
-        .from('tab_orders')
-        .update({ 
-          status: 'confirmed',
-          confirmed_at: new Date().toISOString()
-        })
-        .eq('id', orderId) as { data: any, error: any };
-
-      if (error) throw error;
+      await updateOrderStatus(orderId, 'confirmed');
 
       // Show success message
       showToast({
@@ -606,7 +634,7 @@ export default function TabDetailPage() {
       showToast({
         type: 'error',
         title: 'Failed to Mark Served',
-        message: 'Please try again'
+        message: error instanceof Error ? error.message : 'Please try again'
       });
     }
   };
@@ -622,15 +650,7 @@ export default function TabDetailPage() {
     }
 
     try {
-      const { error } = await (supabase as any)
-        .from('tab_orders')
-        .update({ 
-          status: 'cancelled',
-          cancelled_at: new Date().toISOString()
-        })
-        .eq('id', orderId) as { data: any, error: any };
-
-      if (error) throw error;
+      await updateOrderStatus(orderId, 'cancelled');
 
       loadTabData();
       
@@ -645,38 +665,39 @@ export default function TabDetailPage() {
       showToast({
         type: 'error',
         title: 'Failed to Cancel Order',
-        message: 'Please try again'
+        message: error instanceof Error ? error.message : 'Please try again'
       });
     }
   };
 
+  // Cash goes through the API so it lands in the staff member's open cash drawer shift
   const handleAddCashPayment = async () => {
     const amount = prompt('Enter cash amount:');
     if (!amount || isNaN(Number(amount))) return;
 
     try {
-      const { data: paymentData, error } = await (supabase as any)
-        .from('tab_payments')
-        .insert({
-          tab_id: tabId,
-          amount: parseFloat(amount),
-          method: 'cash',
-          status: 'success',
-          reference: `CASH_${Date.now()}`
-        })
-        .select()
-        .single() as { data: any, error: any };
-
-      if (error) throw error;
+      const response = await authorizedFetch(`/api/tabs/${tabId}/cash-payments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ amount: parseFloat(amount) })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to add payment');
 
       // Trigger immediate balance update for cash payment (Requirements 4.1, 4.3, 4.5)
-      if (paymentData) {
-        await triggerBalanceUpdateForTab(tabId, paymentData.id, parseFloat(amount), 'cash');
-      }
+      await triggerBalanceUpdateForTab(tabId, result.payment.id, parseFloat(amount), 'cash');
 
       // Auto-close is now handled by database trigger on tab_payments table
       // No need for application-level auto-close logic
 
+      if (!result.shiftId) {
+        showToast({
+          type: 'warning',
+          title: 'No Open Cash Drawer',
+          message: 'Payment recorded without a shift. Open one under Cash Drawer.'
+        });
+      }
+
       loadTabData();
       
     } catch (error) {
@@ -684,8 +705,86 @@ export default function TabDetailPage() {
       showToast({
         type: 'error',
         title: 'Failed to Add Payment',
-        message: 'Please try again'
+        message: error instanceof Error ? error.message : 'Please try again'
+      });
+    }
+  };
+
+  // The receipt PDF is fetched with the staff token, so open the tab first to avoid popup blockers
+  const handlePrintReceipt = async () => {
+    const printWindow = window.open('', '_blank');
+
+    try {
+      // A reprint retries the eTIMS filing if it failed when the tab was closed
+      if (tab?.status === 'closed') {
+        await authorizedFetch(`/api/tabs/${tabId}/receipt`, { method: 'POST' })
+          .catch(error => console.error('Error filing receipt:', error));
+      }
+
+      const response = await authorizedFetch(`/api/tabs/${tabId}/receipt?format=pdf`);
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Failed to load receipt');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      if (printWindow) {
+        printWindow.location.href = url;
+      } else {
+        window.open(url, '_blank');
+      }
+    } catch (error) {
+      printWindow?.close();
+      console.error('Error printing receipt:', error);
+      showToast({
+        type: 'error',
+        title: 'Receipt Not Printed',
+        message: error instanceof Error ? error.message : 'Please try again'
+      });
+    }
+  };
+
+  const openRefundModal = (payment: any) => {
+    const charged = Number(payment.amount) + (Number(payment.tip_amount) || 0) + (Number(payment.service_charge_amount) || 0);
+    setRefundPayment(payment);
+    setRefundAmount(String(charged));
+    setRefundReason('');
+  };
+
+  // Refunds are only requested here; an owner or manager approves them under Payments > Refunds
+  const handleRequestRefund = async () => {
+    if (!refundPayment || !tab) return;
+
+    setSubmittingRefund(true);
+    try {
+      const response = await authorizedFetch('/api/payments/refunds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          barId: tab.bar_id,
+          paymentId: refundPayment.id,
+          amount: parseFloat(refundAmount),
+          reason: refundReason
+        })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to request refund');
+
+      showToast({
+        type: 'success',
+        title: 'Refund Requested',
+        message: `${tempFormatCurrency(result.refund.amount)} is waiting for manager approval`
+      });
+      setRefundPayment(null);
+    } catch (error) {
+      console.error('Error requesting refund:', error);
+      showToast({
+        type: 'error',
+        title: 'Refund Not Requested',
+        message: error instanceof Error ? error.message : 'Please try again'
       });
+    } finally {
+      setSubmittingRefund(false);
     }
   };
 
@@ -764,33 +863,17 @@ export default function TabDetailPage() {
     setClosingTab(true);
 
     try {
-      if (balance > 0) {
-        // Push to overdue - use the close_tab function with write-off
-        const { data, error } = await (supabase as any).rpc('close_tab', {
-          p_tab_id: tabId,
-          p_write_off_amount: balance
-        });
-
-        if (error) {
-          console.error('Error pushing tab to overdue:', error);
-          throw error;
-        }
-
-        // Also update status to overdue instead of closed
-        const { error: updateError } = await (supabase as any)
-          .from('tabs')
-          .update({ 
-            status: 'overdue',
-            moved_to_overdue_at: new Date().toISOString(),
-            overdue_reason: 'Unpaid balance pushed to bad debt',
-            closed_by: 'staff'
-          })
-          .eq('id', tabId);
-
-        if (updateError) {
-          console.error('Error updating tab status to overdue:', updateError);
-        }
+      // The close route checks the tabs.close permission before closing
+      const closeAction = balance > 0 ? 'overdue' : 'close';
+      const response = await authorizedFetch(`/api/tabs/${tabId}/close`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: closeAction })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to close tab');
 
+      if (closeAction === 'overdue') {
         showToast({
           type: 'success',
           title: 'Tab Pushed to Overdue',
@@ -798,22 +881,29 @@ export default function TabDetailPage() {
         });
         
       } else {
-        // Close normally using the close_tab function
-        const { data, error } = await (supabase as any).rpc('close_tab', {
-          p_tab_id: tabId,
-          p_write_off_amount: 0
-        });
-
-        if (error) {
-          console.error('Error closing tab:', error);
-          throw error;
-        }
-
         showToast({
           type: 'success',
           title: 'Tab Closed',
           message: 'Successfully closed tab'
         });
+
+        if (result.etims?.status === 'failed') {
+          showToast({
+            type: 'warning',
+            title: 'eTIMS Invoice Pending',
+            message: `${result.etims.error || 'Submission failed'}. It will be retried when the receipt is reprinted.`
+          });
+        }
+        // The close route settles the deposit in the same request
+        if (result.deposit) {
+          showDepositSettlement(result.deposit);
+        } else if (credit && credit.depositPaid > 0) {
+          showToast({
+            type: 'warning',
+            title: 'Deposit Not Settled',
+            message: 'Open the closed tab to settle the deposit'
+          });
+        }
       }
       
       // Wait a moment for the update to process, then redirect
@@ -834,6 +924,101 @@ export default function TabDetailPage() {
     }
   };
 
+  const loadCredit = async () => {
+    try {
+      const response = await authorizedFetch(`/api/tabs/${tabId}/credit`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load tab limit');
+      setCredit(result.credit);
+    } catch (error) {
+      console.error('Error loading tab credit:', error);
+    }
+  };
+
+  const handleSaveLimit = async () => {
+    if (limitInput === null) return;
+
+    try {
+      const response = await authorizedFetch(`/api/tabs/${tabId}/credit`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ creditLimit: limitInput.trim() === '' ? null : parseFloat(limitInput) })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to update tab limit');
+
+      setCredit(result.credit);
+      setLimitInput(null);
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: 'Limit Not Saved',
+        message: error instanceof Error ? error.message : 'Please try again'
+      });
+    }
+  };
+
+  // Unused deposit goes in as a refund request for a manager to approve, like any other refund
+  const showDepositSettlement = (result: { settlement: string; refundAmount: number }) => {
+    showToast({
+      type: 'success',
+      title: result.settlement === 'applied' ? 'Deposit Applied' : 'Deposit Refund Requested',
+      message: result.settlement === 'applied'
+        ? 'The deposit was used up by the bill'
+        : `${tempFormatCurrency(result.refundAmount)} is waiting for manager approval`
+    });
+  };
+
+  // Only needed when settling failed as the tab was closed
+  const handleSettleDeposit = async () => {
+    setSettlingDeposit(true);
+    try {
+      const response = await authorizedFetch(`/api/tabs/${tabId}/credit`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to settle deposit');
+
+      showDepositSettlement(result);
+      await loadCredit();
+    } catch (error) {
+      console.error('Error settling deposit:', error);
+      showToast({
+        type: 'warning',
+        title: 'Deposit Not Settled',
+        message: error instanceof Error ? error.message : 'Please try again'
+      });
+    } finally {
+      setSettlingDeposit(false);
+    }
+  };
+
+  const loadSplit = async () => {
+    try {
+      const response = await authorizedFetch(`/api/tabs/${tabId}/split`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load split');
+      setSplit(result.split);
+    } catch (error) {
+      console.error('Error loading split:', error);
+    }
+  };
+
+  const handleCancelSplit = async () => {
+    if (!window.confirm('Cancel the split? Shares already paid stay on the tab.')) return;
+
+    try {
+      const response = await authorizedFetch(`/api/tabs/${tabId}/split`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to cancel split');
+      setSplit(null);
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: 'Failed to Cancel Split',
+        message: error instanceof Error ? error.message : 'Please try again'
+      });
+    }
+  };
+
   const loadTelegramMessages = async () => {
     if (!tabId) {
       console.log('❌ No tab ID for loading messages');
@@ -1575,6 +1760,86 @@ export default function TabDetailPage() {
             )}
           </div>
 
+          {/* Split Bill Progress */}
+          {split && (
+            <div className="mb-6">
+              <h2 className="text-lg font-bold text-gray-800 mb-3">Split Bill</h2>
+              <SplitBillProgress
+                split={split}
+                formatCurrency={(amount) => tempFormatCurrency(amount)}
+                onCancel={handleCancelSplit}
+              />
+            </div>
+          )}
+
+          {/* Deposit & Tab Limit */}
+          {credit && (credit.creditLimit !== null || credit.depositPaid > 0 || tab.status !== 'closed') && (
+            <div className="mb-6">
+              <h2 className="text-lg font-bold text-gray-800 mb-3">Deposit &amp; Limit</h2>
+              <div className="bg-white rounded-xl p-4 shadow-sm space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600">Tab limit</span>
+                  {limitInput === null ? (
+                    <button
+                      onClick={() => setLimitInput(credit.creditLimit === null ? '' : String(credit.creditLimit))}
+                      disabled={tab.status === 'closed'}
+                      className="font-semibold text-gray-800 hover:text-orange-600 disabled:hover:text-gray-800"
+                    >
+                      {credit.creditLimit === null ? 'No limit' : tempFormatCurrency(credit.creditLimit)}
+                    </button>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min="1"
+                        value={limitInput}
+                        onChange={(e) => setLimitInput(e.target.value)}
+                        placeholder="No limit"
+                        className="w-28 px-2 py-1 border border-gray-300 rounded-lg text-right text-sm"
+                      />
+                      <button onClick={handleSaveLimit} className="text-sm font-medium text-orange-600">Save</button>
+                      <button onClick={() => setLimitInput(null)} className="text-gray-400 hover:text-gray-600">
+                        <X size={16} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {credit.available !== null && tab.status !== 'closed' && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-600">Still available</span>
+                    <span className={`font-medium ${credit.available > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {tempFormatCurrency(credit.available)}
+                    </span>
+                  </div>
+                )}
+                {credit.depositRequired && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-600">Deposit</span>
+                    <span className={`font-medium ${credit.depositDue > 0 ? 'text-orange-600' : 'text-gray-800'}`}>
+                      {credit.depositDue > 0
+                        ? `${tempFormatCurrency(credit.depositDue)} due`
+                        : `${tempFormatCurrency(credit.depositPaid)} paid`}
+                    </span>
+                  </div>
+                )}
+                {credit.depositSettlement && (
+                  <p className="text-xs text-gray-500">
+                    {credit.depositSettlement === 'applied' ? 'Deposit applied to the bill' : 'Unused deposit sent for refund approval'}
+                  </p>
+                )}
+                {tab.status === 'closed' && credit.depositPaid > 0 && !credit.depositSettlement && (
+                  <button
+                    onClick={handleSettleDeposit}
+                    disabled={settlingDeposit}
+                    className="w-full py-2 rounded-lg text-sm font-medium bg-orange-50 text-orange-700 border border-orange-200 hover:bg-orange-100 disabled:opacity-50"
+                  >
+                    {settlingDeposit ? 'Settling...' : 'Settle Deposit'}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Payments Section */}
           <div className="mb-6">
             <div className="flex items-center justify-between mb-3">
@@ -1607,11 +1872,30 @@ export default function TabDetailPage() {
                         </div>
                       )}
                       <div>
-                        <p className="font-semibold text-gray-800 capitalize">{payment.method}</p>
+                        <p className="font-semibold text-gray-800 capitalize">
+                          {payment.refunded_payment_id
+                            ? `${payment.method} refund`
+                            : payment.is_deposit ? `${payment.method} deposit` : payment.method}
+                        </p>
                         <p className="text-sm text-gray-500">{timeAgo(payment.created_at, true)}</p>
                       </div>
                     </div>
-                    <p className="font-bold text-green-600">+ {tempFormatCurrency(payment.amount)}</p>
+                    <div className="text-right">
+                      {payment.refunded_payment_id ? (
+                        <p className="font-bold text-red-600">− {tempFormatCurrency(Math.abs(payment.amount))}</p>
+                      ) : (
+                        <p className="font-bold text-green-600">+ {tempFormatCurrency(payment.amount)}</p>
+                      )}
+                      {payment.method === 'mpesa' && payment.status === 'success' && !payment.refunded_payment_id && (
+                        <button
+                          onClick={() => openRefundModal(payment)}
+                          className="text-xs text-gray-500 hover:text-red-600 flex items-center gap-1 ml-auto mt-1"
+                        >
+                          <Undo2 size={12} />
+                          Refund
+                        </button>
+                      )}
+                    </div>
                   </div>
                 ))}
               </div>
@@ -1621,18 +1905,27 @@ export default function TabDetailPage() {
           {/* Action Buttons */}
           <div className="space-y-3 pb-6">
             <button
-              onClick={initiateCloseTab}
-              className={`w-full py-4 rounded-xl font-semibold ${
-                balance === 0 
-                  ? 'bg-green-500 text-white hover:bg-green-600' 
-                  : 'bg-orange-500 text-white hover:bg-orange-600'
-              } disabled:opacity-50 disabled:cursor-not-allowed`}
-              disabled={hasPendingStaffOrders() || hasPendingCustomerOrders()}
+              onClick={handlePrintReceipt}
+              className="w-full py-3 rounded-xl font-semibold bg-white text-gray-700 border border-gray-200 hover:bg-gray-50 flex items-center justify-center gap-2"
             >
-              {balance === 0 
-                ? 'Close Tab' 
-                : `Push to Overdue (${tempFormatCurrency(balance)})`}
+              <Printer size={18} />
+              {tab.status === 'closed' ? 'Reprint Receipt' : 'Print Bill'}
             </button>
+            {can('tabs.close') && (
+              <button
+                onClick={initiateCloseTab}
+                className={`w-full py-4 rounded-xl font-semibold ${
+                  balance === 0 
+                    ? 'bg-green-500 text-white hover:bg-green-600' 
+                    : 'bg-orange-500 text-white hover:bg-orange-600'
+                } disabled:opacity-50 disabled:cursor-not-allowed`}
+                disabled={hasPendingStaffOrders() || hasPendingCustomerOrders()}
+              >
+                {balance === 0 
+                  ? 'Close Tab' 
+                  : `Push to Overdue (${tempFormatCurrency(balance)})`}
+              </button>
+            )}
             
             {hasPendingStaffOrders() && (
               <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-3 text-center">
@@ -1661,6 +1954,70 @@ export default function TabDetailPage() {
         </div>
       </div>
 
+      {/* Refund Request Modal */}
+      {refundPayment && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl p-6 max-w-md w-full">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <Undo2 size={24} className="text-red-500" />
+                <h2 className="text-xl font-bold text-gray-900">Request Refund</h2>
+              </div>
+              <button
+                onClick={() => setRefundPayment(null)}
+                className="p-2 hover:bg-gray-100 rounded-lg"
+              >
+                <X size={24} className="text-gray-500" />
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-600 mb-4">
+              Refunding the full amount reverses the M-Pesa payment; a smaller amount is sent back to the
+              customer&apos;s phone. A manager must approve the refund before any money moves.
+            </p>
+
+            <div className="space-y-3 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amount (KSh)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={refundAmount}
+                  onChange={(e) => setRefundAmount(e.target.value)}
+                  className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-red-500 focus:outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <textarea
+                  value={refundReason}
+                  onChange={(e) => setRefundReason(e.target.value)}
+                  placeholder="e.g. Paid to the wrong tab, charged twice..."
+                  className="w-full h-24 p-3 border-2 border-gray-200 rounded-lg focus:border-red-500 focus:outline-none resize-none"
+                  maxLength={200}
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => setRefundPayment(null)}
+                className="flex-1 py-3 bg-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRequestRefund}
+                disabled={!refundReason.trim() || !(parseFloat(refundAmount) > 0) || submittingRefund}
+                className="flex-1 py-3 bg-red-500 text-white rounded-lg font-medium hover:bg-red-600 disabled:opacity-50"
+              >
+                {submittingRefund ? 'Requesting...' : 'Request Refund'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Close Tab Confirmation Modal */}
       <ConfirmationModal
         isOpen={showCloseConfirm}
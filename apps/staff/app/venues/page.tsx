@@ -0,0 +1,186 @@
+// apps/staff/app/venues/page.tsx
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowRight, Building2, RefreshCw, Users, DollarSign, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/lib/useAuth';
+import { formatCurrency } from '@/lib/formatUtils';
+import { STAFF_ROLE_LABELS } from '@tabeza/shared/lib/services/staff-roles';
+import type { VenueSummary } from '@tabeza/shared/lib/services/staff-venues';
+
+export default function VenuesPage() {
+  const router = useRouter();
+  const { switchBar } = useAuth();
+  const [venues, setVenues] = useState<VenueSummary[]>([]);
+  const [currentBarId, setCurrentBarId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [switchingTo, setSwitchingTo] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const loadVenues = useCallback(async () => {
+    setError('');
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not signed in');
+
+      const response = await fetch('/api/venues', {
+        headers: { Authorization: `Bearer ${session.access_token}` }
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load venues');
+
+      setVenues(result.venues || []);
+      setCurrentBarId(result.currentBarId || null);
+    } catch (err) {
+      console.error('Error loading venues:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load venues');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVenues();
+    const interval = setInterval(loadVenues, 60000);
+    return () => clearInterval(interval);
+  }, [loadVenues]);
+
+  const handleOpen = async (venue: VenueSummary) => {
+    if (venue.barId === currentBarId) {
+      router.push('/');
+      return;
+    }
+
+    setSwitchingTo(venue.barId);
+    try {
+      await switchBar(venue.barId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to switch bar');
+      setSwitchingTo(null);
+    }
+  };
+
+  const revenueVenues = venues.filter(venue => venue.todayRevenue !== null);
+  const totals = {
+    openTabs: venues.reduce((sum, venue) => sum + venue.openTabs, 0),
+    todayRevenue: revenueVenues.reduce((sum, venue) => sum + (venue.todayRevenue || 0), 0),
+    overdueBalance: venues.reduce((sum, venue) => sum + venue.overdueBalance, 0)
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex justify-center">
+      <div className="w-full lg:max-w-[80%] max-w-full">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-orange-500 to-red-500 text-white p-6">
+          <div className="flex items-center justify-between mb-4">
+            <button
+              onClick={() => router.push('/')}
+              className="p-2 bg-white bg-opacity-20 rounded-lg hover:bg-opacity-30"
+            >
+              <ArrowRight size={24} className="transform rotate-180" />
+            </button>
+            <h1 className="text-2xl font-bold">All Venues</h1>
+            <button
+              onClick={loadVenues}
+              className="p-2 bg-white bg-opacity-20 rounded-lg hover:bg-opacity-30"
+            >
+              <RefreshCw size={24} />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="bg-white bg-opacity-20 backdrop-blur-sm rounded-xl p-4">
+              <p className="text-sm text-orange-100">Open tabs</p>
+              <p className="text-2xl font-bold">{totals.openTabs}</p>
+            </div>
+            <div className="bg-white bg-opacity-20 backdrop-blur-sm rounded-xl p-4">
+              <p className="text-sm text-orange-100">Today&apos;s revenue</p>
+              <p className="text-2xl font-bold">{revenueVenues.length > 0 ? formatCurrency(totals.todayRevenue) : '—'}</p>
+            </div>
+            <div className="bg-white bg-opacity-20 backdrop-blur-sm rounded-xl p-4">
+              <p className="text-sm text-orange-100">Overdue</p>
+              <p className="text-2xl font-bold">{formatCurrency(totals.overdueBalance)}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-700">{error}</div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-12">
+              <RefreshCw size={32} className="mx-auto mb-3 text-orange-500 animate-spin" />
+              <p className="text-gray-500">Loading venues...</p>
+            </div>
+          ) : venues.length === 0 ? (
+            <div className="bg-white rounded-xl shadow-sm p-8 text-center text-gray-500">
+              You are not staff at any venue yet.
+            </div>
+          ) : (
+            venues.map(venue => (
+              <button
+                key={venue.barId}
+                onClick={() => handleOpen(venue)}
+                disabled={switchingTo !== null}
+                className={`w-full text-left bg-white rounded-xl shadow-sm p-4 hover:shadow-md transition disabled:opacity-60 ${
+                  venue.barId === currentBarId ? 'border-2 border-orange-400' : 'border-2 border-transparent'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-orange-100 rounded-lg">
+                      <Building2 size={20} className="text-orange-600" />
+                    </div>
+                    <div>
+                      <p className="font-bold text-gray-800">{venue.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {STAFF_ROLE_LABELS[venue.role]}
+                        {venue.barId === currentBarId && ' • current'}
+                      </p>
+                    </div>
+                  </div>
+                  <span className="flex items-center gap-1 text-sm text-orange-600 font-medium">
+                    {switchingTo === venue.barId ? 'Switching...' : 'Open'}
+                    <ArrowRight size={16} />
+                  </span>
+                </div>
+
+                <div className="grid grid-cols-3 gap-3 text-sm">
+                  <div className="flex items-center gap-2">
+                    <Users size={16} className="text-gray-400" />
+                    <div>
+                      <p className="text-gray-500">Open tabs</p>
+                      <p className="font-semibold text-gray-800">{venue.openTabs}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <DollarSign size={16} className="text-gray-400" />
+                    <div>
+                      <p className="text-gray-500">Today</p>
+                      <p className="font-semibold text-gray-800">
+                        {venue.todayRevenue === null ? '—' : formatCurrency(venue.todayRevenue)}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle size={16} className={venue.overdueTabs > 0 ? 'text-red-500' : 'text-gray-400'} />
+                    <div>
+                      <p className="text-gray-500">Overdue ({venue.overdueTabs})</p>
+                      <p className={`font-semibold ${venue.overdueBalance > 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                        {formatCurrency(venue.overdueBalance)}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import type { StaffVenue } from '@tabeza/shared/lib/services/staff-venues';
+
+interface BarSwitcherProps {
+  bars: StaffVenue[];
+  currentBarId: string | null | undefined;
+  currentName: string;
+  onSwitch: (barId: string) => Promise<void>;
+}
+
+export default function BarSwitcher({ bars, currentBarId, currentName, onSwitch }: BarSwitcherProps) {
+  const [switching, setSwitching] = useState(false);
+
+  // Nothing to switch between
+  if (bars.length < 2) {
+    return <h1 className="text-2xl font-bold">{currentName}</h1>;
+  }
+
+  const handleChange = async (barId: string) => {
+    if (barId === currentBarId) return;
+    setSwitching(true);
+    try {
+      await onSwitch(barId);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to switch bar');
+      setSwitching(false);
+    }
+  };
+
+  return (
+    <div className="relative inline-flex items-center">
+      <select
+        value={currentBarId || ''}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={switching}
+        aria-label="Switch bar"
+        className="appearance-none bg-transparent text-2xl font-bold pr-8 cursor-pointer focus:outline-none disabled:opacity-60"
+      >
+        {bars.map(bar => (
+          <option key={bar.barId} value={bar.barId} className="text-base text-gray-800">
+            {bar.name}
+          </option>
+        ))}
+      </select>
+      <ChevronDown size={20} className="absolute right-1 pointer-events-none text-orange-200" />
+      {switching && <span className="ml-2 text-sm text-orange-200">Switching...</span>}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { CreditCard, Save, Check, AlertCircle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+
+// The card settings API checks the caller's role, so requests carry their access token
+const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+
+  return fetch(input, {
+    ...init,
+    headers: {
+      ...init.headers,
+      Authorization: `Bearer ${session.access_token}`
+    }
+  });
+};
+
+interface CardPaymentSettingsProps {
+  barId: string;
+  /** Called after a save so the Payment Methods summary stays in sync */
+  onEnabledChange?: (enabled: boolean) => void;
+}
+
+interface CardProviderOption {
+  name: string;
+  label: string;
+  requiresCredentials: boolean;
+}
+
+interface CardSettingsState {
+  card_enabled: boolean;
+  card_provider: string;
+  card_environment: 'sandbox' | 'production';
+  card_merchant_id: string;
+  card_api_key: string;
+  card_webhook_secret: string;
+  card_setup_completed: boolean;
+}
+
+const MASKED_VALUE = '••••••••••••••••';
+
+export default function CardPaymentSettings({ barId, onEnabledChange }: CardPaymentSettingsProps) {
+  const [settings, setSettings] = useState<CardSettingsState>({
+    card_enabled: false,
+    card_provider: 'mock',
+    card_environment: 'sandbox',
+    card_merchant_id: '',
+    card_api_key: '',
+    card_webhook_secret: '',
+    card_setup_completed: false
+  });
+  const [providers, setProviders] = useState<CardProviderOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const response = await authorizedFetch(`/api/card-settings?barId=${barId}`);
+      const result = await response.json();
+      if (response.ok && result.success) {
+        setSettings(result.settings);
+        setProviders(result.providers || []);
+      }
+    } catch (err) {
+      console.error('Error loading card settings:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [barId]);
+
+  useEffect(() => {
+    if (barId) loadSettings();
+  }, [barId, loadSettings]);
+
+  const provider = providers.find(p => p.name === settings.card_provider);
+  const needsCredentials = provider?.requiresCredentials ?? true;
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await authorizedFetch('/api/card-settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barId, ...settings })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save card settings');
+      }
+
+      onEnabledChange?.(settings.card_enabled);
+      await loadSettings();
+      alert('✅ Card payment settings saved successfully!');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save card settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const credentialInput = (
+    field: 'card_api_key' | 'card_webhook_secret',
+    label: string,
+    placeholder: string
+  ) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        {label} <span className="text-red-500">*</span>
+        {settings[field] === MASKED_VALUE && (
+          <span className="ml-2 text-xs text-green-600 font-medium">✓ Saved</span>
+        )}
+      </label>
+      <input
+        type="password"
+        value={settings[field]}
+        onChange={(e) => setSettings({ ...settings, [field]: e.target.value })}
+        className={`w-full px-4 py-3 border-2 rounded-lg focus:outline-none focus:border-blue-500 ${
+          settings[field] === MASKED_VALUE ? 'border-green-200 bg-green-50' : 'border-gray-200'
+        }`}
+        placeholder={settings[field] === MASKED_VALUE ? 'Credential saved securely' : placeholder}
+      />
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-blue-100 rounded-lg">
+            <CreditCard size={20} className="text-blue-600" />
+          </div>
+          <div>
+            <h3 className="font-bold text-gray-800">Card Payments</h3>
+            <p className="text-sm text-gray-500">Let customers pay by card through a secure checkout page</p>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 cursor-pointer">
+          <span className="text-sm font-medium text-gray-700">Enable Cards</span>
+          <input
+            type="checkbox"
+            checked={settings.card_enabled}
+            onChange={(e) => setSettings({ ...settings, card_enabled: e.target.checked })}
+            className="w-5 h-5 text-blue-500 rounded focus:ring-blue-500"
+          />
+        </label>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading card settings...</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="p-3 bg-gray-50 rounded-lg flex items-center gap-2">
+            <div className={`w-3 h-3 rounded-full ${
+              !settings.card_enabled
+                ? 'bg-gray-400'
+                : settings.card_setup_completed
+                ? 'bg-green-500'
+                : 'bg-yellow-500'
+            }`}></div>
+            <span className="text-sm font-medium text-gray-700">
+              {!settings.card_enabled
+                ? 'Card Payments Disabled'
+                : settings.card_setup_completed
+                ? `Card Payments Active (${provider?.label ?? settings.card_provider}, ${settings.card_environment})`
+                : 'Setup Required'}
+            </span>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Provider</label>
+            <select
+              value={settings.card_provider}
+              onChange={(e) => setSettings({ ...settings, card_provider: e.target.value })}
+              className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none bg-white"
+            >
+              {providers.map(option => (
+                <option key={option.name} value={option.name}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Environment</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(['sandbox', 'production'] as const).map(environment => (
+                <button
+                  key={environment}
+                  type="button"
+                  onClick={() => setSettings({ ...settings, card_environment: environment })}
+                  disabled={environment === 'production' && !needsCredentials}
+                  className={`p-3 rounded-lg text-center text-sm font-medium transition disabled:opacity-50 disabled:cursor-not-allowed ${
+                    settings.card_environment === environment
+                      ? 'bg-blue-100 border-2 border-blue-500 text-blue-700'
+                      : 'bg-gray-100 border border-gray-200 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {environment === 'sandbox' ? '🏖️ Sandbox' : '🚀 Production'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {needsCredentials ? (
+            <div className="grid grid-cols-1 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Merchant ID <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={settings.card_merchant_id}
+                  onChange={(e) => setSettings({ ...settings, card_merchant_id: e.target.value })}
+                  className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+                  placeholder="From your card provider dashboard"
+                />
+              </div>
+              {credentialInput('card_api_key', 'API Key', 'Enter your provider API key')}
+              {credentialInput('card_webhook_secret', 'Webhook Secret', 'Used to verify payment callbacks')}
+              <p className="text-xs text-gray-500 flex items-center gap-1">
+                <Check size={12} className="text-green-500" />
+                Credentials are encrypted before they are stored
+              </p>
+            </div>
+          ) : (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 flex items-start gap-2">
+              <AlertCircle size={16} className="text-blue-600 mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-blue-800">
+                The mock provider shows a test checkout page where you approve or decline the payment. No card is charged.
+              </p>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="w-full bg-blue-500 text-white py-3 rounded-lg font-semibold hover:bg-blue-600 disabled:bg-gray-300 flex items-center justify-center gap-2"
+          >
+            <Save size={20} />
+            {saving ? 'Saving...' : 'Save Card Settings'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { ShieldCheck, Save } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+
+// Deposit settings APIs authorize staff with their Supabase access token
+const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+
+  return fetch(input, {
+    ...init,
+    headers: {
+      ...init.headers,
+      Authorization: `Bearer ${session.access_token}`
+    }
+  });
+};
+
+interface DepositSettingsProps {
+  barId: string;
+}
+
+interface DepositSettingsState {
+  deposit_required: boolean;
+  deposit_amount: string;
+  default_tab_limit: string;
+}
+
+export default function DepositSettings({ barId }: DepositSettingsProps) {
+  const [settings, setSettings] = useState<DepositSettingsState>({
+    deposit_required: false,
+    deposit_amount: '',
+    default_tab_limit: ''
+  });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const response = await authorizedFetch(`/api/deposit-settings?barId=${barId}`);
+      const result = await response.json();
+      if (response.ok && result.success) {
+        setSettings({
+          deposit_required: result.settings.deposit_required,
+          deposit_amount: result.settings.deposit_amount ? String(result.settings.deposit_amount) : '',
+          default_tab_limit: result.settings.default_tab_limit === null ? '' : String(result.settings.default_tab_limit)
+        });
+      }
+    } catch (err) {
+      console.error('Error loading deposit settings:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [barId]);
+
+  useEffect(() => {
+    if (barId) loadSettings();
+  }, [barId, loadSettings]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await authorizedFetch('/api/deposit-settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barId, ...settings })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save deposit settings');
+      }
+
+      await loadSettings();
+      alert('✅ Deposit settings saved successfully!');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save deposit settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-emerald-100 rounded-lg">
+            <ShieldCheck size={20} className="text-emerald-600" />
+          </div>
+          <div>
+            <h3 className="font-bold text-gray-800">Deposits &amp; Tab Limits</h3>
+            <p className="text-sm text-gray-500">Pre-authorise tabs before customers order</p>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 cursor-pointer">
+          <span className="text-sm font-medium text-gray-700">Require deposit</span>
+          <input
+            type="checkbox"
+            checked={settings.deposit_required}
+            onChange={(e) => setSettings({ ...settings, deposit_required: e.target.checked })}
+            className="w-5 h-5 text-emerald-500 rounded focus:ring-emerald-500"
+          />
+        </label>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading deposit settings...</p>
+      ) : (
+        <div className="space-y-4">
+          {settings.deposit_required && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Deposit amount (KSh) <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={settings.deposit_amount}
+                onChange={(e) => setSettings({ ...settings, deposit_amount: e.target.value })}
+                className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-emerald-500 focus:outline-none"
+                placeholder="1000"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Paid by M-Pesa when the tab opens. It counts towards the bill; staff settle any unused part at close.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Default tab limit (KSh)</label>
+            <input
+              type="number"
+              min="1"
+              value={settings.default_tab_limit}
+              onChange={(e) => setSettings({ ...settings, default_tab_limit: e.target.value })}
+              className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-emerald-500 focus:outline-none"
+              placeholder="No limit"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Customers are asked to top up before an order takes their balance past this. Staff can change it per tab.
+            </p>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="w-full bg-emerald-500 text-white py-3 rounded-lg font-semibold hover:bg-emerald-600 disabled:bg-gray-300 flex items-center justify-center gap-2"
+          >
+            <Save size={20} />
+            {saving ? 'Saving...' : 'Save Deposit Settings'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
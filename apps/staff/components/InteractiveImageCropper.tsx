@@ -2,8 +2,10 @@
 'use client';
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { ZoomIn, ZoomOut, Move, Maximize2, Minimize2, RotateCw, Upload, Check, X, Save, RefreshCw, AlertCircle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
 
 interface InteractiveImageCropperProps {
+  barId: string;
   isOpen: boolean;
   onClose: () => void;
   onImageReady: (file: File, imageUrl: string) => void;
@@ -18,6 +20,7 @@ interface SavedConfirmation {
 }
 
 export default function InteractiveImageCropper({
+  barId,
   isOpen,
   onClose,
   onImageReady,
@@ -625,9 +628,14 @@ export default function InteractiveImageCropper({
     const formData = new FormData();
     formData.append('image', file);
     formData.append('aspectRatio', '4:5');
+    formData.append('barId', barId);
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
     
     const response = await fetch('/api/upload-product-image', {
       method: 'POST',
+      headers: { Authorization: `Bearer ${session.access_token}` },
       body: formData
     });
     
@@ -9,6 +9,8 @@ export interface PaymentNotificationData {
   tabId: string;
   tabNumber: number;
   amount: number;
+  tipAmount?: number;
+  serviceChargeAmount?: number;
   method: 'mpesa' | 'cash' | 'card';
   status: 'success' | 'failed' | 'pending';
   timestamp: string;
@@ -176,6 +178,21 @@ export const PaymentNotification: React.FC<PaymentNotificationProps> = ({
               </div>
             )}
 
+            {/* Gratuity (paid on top of the tab amount) */}
+            {!!payment.serviceChargeAmount && payment.serviceChargeAmount > 0 && (
+              <div className="flex items-center justify-between text-xs opacity-75">
+                <span>Service charge</span>
+                <span>{formatCurrency(payment.serviceChargeAmount)}</span>
+              </div>
+            )}
+
+            {!!payment.tipAmount && payment.tipAmount > 0 && (
+              <div className="flex items-center justify-between text-xs font-medium">
+                <span>Tip</span>
+                <span>{formatCurrency(payment.tipAmount)}</span>
+              </div>
+            )}
+
             {/* Payment Reference */}
             {payment.mpesaReceiptNumber && (
               <div className="text-xs opacity-75">
@@ -0,0 +1,313 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CalendarClock, CheckCircle, Circle, Clock, AlertTriangle, XCircle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { getStaffStation } from '@/lib/staffStation';
+import type {
+  PaymentPlanFrequency,
+  PlanInstallment,
+  PlanInstallmentStatus
+} from '@tabeza/shared/lib/services/payment-plans';
+
+/** A plan as loaded by the overdue page (tab_payment_plans with its installments) */
+export interface OverduePaymentPlan {
+  id: string;
+  status: 'active' | 'completed' | 'cancelled';
+  frequency: PaymentPlanFrequency;
+  total_amount: number;
+  phone_number: string;
+  notes: string | null;
+  installments: PlanInstallment[];
+}
+
+interface PaymentPlanModalProps {
+  tabId: string;
+  tabLabel: string;
+  balance: number;
+  plan: OverduePaymentPlan | null;
+  defaultPhoneNumber?: string;
+  formatCurrency: (amount: number) => string;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const FREQUENCY_LABELS: Record<PaymentPlanFrequency, string> = {
+  weekly: 'Weekly',
+  fortnightly: 'Every 2 weeks',
+  monthly: 'Monthly'
+};
+
+const STATUS_LABELS: Record<PlanInstallmentStatus, string> = {
+  scheduled: 'Scheduled',
+  pending: 'Prompt sent',
+  paid: 'Paid',
+  missed: 'Missed',
+  cancelled: 'Cancelled'
+};
+
+const dateInDays = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+function StatusIcon({ status }: { status: PlanInstallmentStatus }) {
+  switch (status) {
+    case 'paid':
+      return <CheckCircle size={16} className="text-green-500" />;
+    case 'pending':
+      return <Clock size={16} className="text-yellow-500" />;
+    case 'missed':
+      return <AlertTriangle size={16} className="text-red-500" />;
+    case 'cancelled':
+      return <XCircle size={16} className="text-gray-300" />;
+    default:
+      return <Circle size={16} className="text-gray-300" />;
+  }
+}
+
+export default function PaymentPlanModal({
+  tabId,
+  tabLabel,
+  balance,
+  plan,
+  defaultPhoneNumber,
+  formatCurrency,
+  onClose,
+  onChanged
+}: PaymentPlanModalProps) {
+  const [form, setForm] = useState({
+    installmentCount: '3',
+    frequency: 'weekly' as PaymentPlanFrequency,
+    firstDueDate: dateInDays(7),
+    phoneNumber: defaultPhoneNumber || '',
+    notes: ''
+  });
+  const [saving, setSaving] = useState(false);
+
+  const activePlan = plan?.status === 'active' ? plan : null;
+  const installments = [...(activePlan?.installments || [])].sort((a, b) => a.position - b.position);
+  const paidAmount = installments.reduce((sum, installment) => sum + Math.min(Number(installment.paid_amount) || 0, Number(installment.amount)), 0);
+  const count = parseInt(form.installmentCount, 10) || 0;
+
+  const authorizedFetch = async (init: RequestInit = {}, query = '') => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+
+    const response = await fetch(`/api/tabs/${tabId}/payment-plan${query}`, {
+      ...init,
+      headers: {
+        ...init.headers,
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`
+      }
+    });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || 'Payment plan request failed');
+    return result;
+  };
+
+  const run = async (action: () => Promise<unknown>, message?: string) => {
+    setSaving(true);
+    try {
+      await action();
+      if (message) alert(message);
+      onChanged();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Payment plan request failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = () => run(() => authorizedFetch({
+    method: 'POST',
+    body: JSON.stringify({ ...form, installmentCount: count })
+  }), 'Payment plan agreed');
+
+  const handleCharge = (installment: PlanInstallment) => {
+    if (!window.confirm(`Send an M-Pesa prompt for ${formatCurrency(Number(installment.amount) - (Number(installment.paid_amount) || 0))} to ${activePlan?.phone_number} now?`)) return;
+    run(() => authorizedFetch({
+      method: 'PATCH',
+      body: JSON.stringify({ installmentId: installment.id, station: getStaffStation() || undefined })
+    }), 'M-Pesa prompt sent');
+  };
+
+  const handleCancel = () => {
+    if (!window.confirm('Cancel this payment plan? Installments already paid stay on the tab.')) return;
+    run(() => authorizedFetch({ method: 'DELETE' }), 'Payment plan cancelled');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl max-w-lg w-full max-h-[80vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <CalendarClock size={20} className="text-orange-500" />
+              <h2 className="text-xl font-bold text-gray-800">{tabLabel} - Payment Plan</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 bg-gray-100 rounded-lg hover:bg-gray-200"
+            >
+              ×
+            </button>
+          </div>
+
+          {activePlan ? (
+            <div className="space-y-4">
+              <div className="bg-gray-50 rounded-lg p-4 grid grid-cols-2 gap-2 text-sm">
+                <div>
+                  <span className="text-gray-500">Schedule:</span>
+                  <p className="font-medium">{FREQUENCY_LABELS[activePlan.frequency]}</p>
+                </div>
+                <div>
+                  <span className="text-gray-500">M-Pesa number:</span>
+                  <p className="font-medium">{activePlan.phone_number}</p>
+                </div>
+                <div>
+                  <span className="text-gray-500">Paid:</span>
+                  <p className="font-medium text-green-600">{formatCurrency(paidAmount)}</p>
+                </div>
+                <div>
+                  <span className="text-gray-500">Remaining:</span>
+                  <p className="font-medium text-red-600">{formatCurrency(Math.max(Number(activePlan.total_amount) - paidAmount, 0))}</p>
+                </div>
+                {activePlan.notes && (
+                  <p className="col-span-2 text-gray-600">{activePlan.notes}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                {installments.map(installment => (
+                  <div
+                    key={installment.id}
+                    className={`flex items-center justify-between rounded-lg p-3 text-sm ${
+                      installment.status === 'missed' ? 'bg-red-50 border border-red-200' : 'bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <StatusIcon status={installment.status} />
+                      <div>
+                        <p className="font-medium text-gray-800">
+                          {new Date(`${installment.due_date}T00:00:00`).toLocaleDateString()} • {formatCurrency(Number(installment.amount))}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {STATUS_LABELS[installment.status]}
+                          {installment.attempts > 0 && installment.status !== 'paid' && ` • ${installment.attempts} attempt${installment.attempts === 1 ? '' : 's'}`}
+                          {installment.status === 'missed' && installment.failure_reason && ` • ${installment.failure_reason}`}
+                        </p>
+                      </div>
+                    </div>
+                    {(installment.status === 'missed' || installment.status === 'scheduled') && (
+                      <button
+                        onClick={() => handleCharge(installment)}
+                        disabled={saving}
+                        className="px-3 py-1 bg-green-500 text-white rounded text-xs font-medium hover:bg-green-600 disabled:opacity-50"
+                      >
+                        {installment.status === 'missed' ? 'Retry now' : 'Charge now'}
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <button
+                onClick={handleCancel}
+                disabled={saving}
+                className="w-full bg-gray-200 text-gray-700 py-3 rounded-xl font-semibold hover:bg-gray-300 disabled:opacity-50"
+              >
+                Cancel Plan
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Split the outstanding {formatCurrency(balance)} into installments. The customer gets a reminder the
+                day before each due date and an M-Pesa prompt on it; the tab closes when the last one clears.
+              </p>
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="text-sm">
+                  <span className="text-gray-600">Installments</span>
+                  <input
+                    type="number"
+                    min={2}
+                    max={12}
+                    value={form.installmentCount}
+                    onChange={(e) => setForm({ ...form, installmentCount: e.target.value })}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                </label>
+                <label className="text-sm">
+                  <span className="text-gray-600">Frequency</span>
+                  <select
+                    value={form.frequency}
+                    onChange={(e) => setForm({ ...form, frequency: e.target.value as PaymentPlanFrequency })}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  >
+                    {(Object.keys(FREQUENCY_LABELS) as PaymentPlanFrequency[]).map(frequency => (
+                      <option key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm">
+                  <span className="text-gray-600">First due date</span>
+                  <input
+                    type="date"
+                    min={dateInDays(0)}
+                    value={form.firstDueDate}
+                    onChange={(e) => setForm({ ...form, firstDueDate: e.target.value })}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                </label>
+                <label className="text-sm">
+                  <span className="text-gray-600">M-Pesa number</span>
+                  <input
+                    type="tel"
+                    value={form.phoneNumber}
+                    onChange={(e) => setForm({ ...form, phoneNumber: e.target.value })}
+                    placeholder="07XX XXX XXX"
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                </label>
+              </div>
+
+              <textarea
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                placeholder="Notes (optional)"
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+
+              {count >= 2 && (
+                <p className="text-xs text-gray-500">
+                  About {formatCurrency(balance / count)} per installment
+                </p>
+              )}
+
+              <div className="flex gap-3">
+                <button
+                  onClick={onClose}
+                  className="flex-1 bg-gray-200 text-gray-700 py-3 rounded-xl font-semibold hover:bg-gray-300"
+                >
+                  Close
+                </button>
+                <button
+                  onClick={handleCreate}
+                  disabled={saving || count < 2 || !form.phoneNumber || !form.firstDueDate}
+                  className="flex-1 bg-orange-500 text-white py-3 rounded-xl font-semibold hover:bg-orange-600 disabled:opacity-50"
+                >
+                  Agree Plan
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import React from 'react';
+import { Users, CheckCircle, Clock, Circle } from 'lucide-react';
+import type { TabSplit } from '@tabeza/shared/lib/services/tab-split';
+
+interface SplitBillProgressProps {
+  split: TabSplit;
+  formatCurrency: (amount: number) => string;
+  onCancel?: () => void;
+}
+
+const MODE_LABELS: Record<TabSplit['mode'], string> = {
+  equal: 'Split equally',
+  items: 'Split by item',
+  custom: 'Custom amounts'
+};
+
+export default function SplitBillProgress({ split, formatCurrency, onCancel }: SplitBillProgressProps) {
+  const paidShares = split.shares.filter(share => share.status === 'paid').length;
+  const progress = split.total_amount > 0 ? Math.round((split.paid_amount / split.total_amount) * 100) : 0;
+
+  return (
+    <div className="bg-white rounded-xl p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Users size={18} className="text-orange-500" />
+          <span className="font-semibold text-gray-800">{MODE_LABELS[split.mode]}</span>
+          <span className="text-xs text-gray-500">{paidShares}/{split.shares.length} paid</span>
+        </div>
+        {split.status === 'active' && onCancel && (
+          <button onClick={onCancel} className="text-xs text-gray-500 hover:text-red-600">
+            Cancel split
+          </button>
+        )}
+      </div>
+
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden mb-3">
+        <div className="h-full bg-green-500 transition-all" style={{ width: `${progress}%` }} />
+      </div>
+
+      <div className="space-y-2">
+        {split.shares.map(share => (
+          <div key={share.id} className="flex items-center justify-between text-sm">
+            <div className="flex items-center gap-2">
+              {share.status === 'paid' ? (
+                <CheckCircle size={16} className="text-green-500" />
+              ) : share.status === 'pending' ? (
+                <Clock size={16} className="text-yellow-500" />
+              ) : (
+                <Circle size={16} className="text-gray-300" />
+              )}
+              <span className="text-gray-700">{share.label}</span>
+              {share.phone_number && (
+                <span className="text-xs text-gray-400">{share.phone_number}</span>
+              )}
+            </div>
+            <span className={share.status === 'paid' ? 'text-green-700 font-medium' : 'text-gray-800 font-medium'}>
+              {formatCurrency(share.amount)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {split.status === 'active' && (
+        <p className="text-xs text-gray-500 mt-3">
+          {formatCurrency(split.remaining_amount)} still to pay
+        </p>
+      )}
+    </div>
+  );
+}
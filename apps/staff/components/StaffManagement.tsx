@@ -0,0 +1,262 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Users, UserPlus, Trash2, Copy, Check, AlertCircle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import {
+  ROLE_PERMISSIONS,
+  STAFF_PERMISSION_LABELS,
+  STAFF_ROLE_LABELS,
+  STAFF_ROLES,
+  type StaffRole
+} from '@tabeza/shared/lib/services/staff-roles';
+import type { StaffInvite, StaffMember } from '@tabeza/shared/lib/services/staff-invites';
+
+interface StaffManagementProps {
+  barId: string;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-KE', { timeZone: 'Africa/Nairobi', day: 'numeric', month: 'short' });
+
+export default function StaffManagement({ barId }: StaffManagementProps) {
+  const [members, setMembers] = useState<StaffMember[]>([]);
+  const [invites, setInvites] = useState<StaffInvite[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<StaffRole>('waiter');
+  const [inviteLink, setInviteLink] = useState<{ url: string; expiresAt: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [inviting, setInviting] = useState(false);
+  const [error, setError] = useState('');
+
+  const authorizedFetch = useCallback(async (url: string, init: RequestInit = {}) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`
+      }
+    });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || 'Staff request failed');
+    return result;
+  }, []);
+
+  const loadStaff = useCallback(async () => {
+    try {
+      const result = await authorizedFetch(`/api/staff?barId=${barId}`);
+      setMembers(result.members || []);
+      setInvites(result.invites || []);
+      setCurrentUserId(result.currentUserId || null);
+    } catch (err) {
+      console.error('Error loading staff:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load staff');
+    } finally {
+      setLoading(false);
+    }
+  }, [barId, authorizedFetch]);
+
+  useEffect(() => {
+    if (barId) loadStaff();
+  }, [barId, loadStaff]);
+
+  const handleInvite = async () => {
+    setInviting(true);
+    setError('');
+    setInviteLink(null);
+    try {
+      const result = await authorizedFetch('/api/staff/invites', {
+        method: 'POST',
+        body: JSON.stringify({ barId, email: inviteEmail, role: inviteRole })
+      });
+      setInviteLink({ url: result.link, expiresAt: result.invite.expires_at });
+      setInviteEmail('');
+      await loadStaff();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create invitation');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!inviteLink) return;
+    await navigator.clipboard.writeText(inviteLink.url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleRevokeInvite = async (invite: StaffInvite) => {
+    if (!window.confirm(`Withdraw the invitation for ${invite.email}?`)) return;
+    try {
+      await authorizedFetch(`/api/staff/invites?barId=${barId}&inviteId=${invite.id}`, { method: 'DELETE' });
+      await loadStaff();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to withdraw invitation');
+    }
+  };
+
+  const handleRoleChange = async (member: StaffMember, role: StaffRole) => {
+    try {
+      await authorizedFetch('/api/staff', {
+        method: 'PATCH',
+        body: JSON.stringify({ barId, userId: member.userId, role })
+      });
+      await loadStaff();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to change role');
+    }
+  };
+
+  const handleRemove = async (member: StaffMember) => {
+    if (!window.confirm(`Remove ${member.email || 'this staff member'}? They will lose access to this bar immediately.`)) return;
+    try {
+      await authorizedFetch(`/api/staff?barId=${barId}&userId=${member.userId}`, { method: 'DELETE' });
+      await loadStaff();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to remove staff member');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-indigo-100 rounded-lg">
+          <Users size={20} className="text-indigo-600" />
+        </div>
+        <div>
+          <h3 className="font-bold text-gray-800">Staff &amp; Roles</h3>
+          <p className="text-sm text-gray-500">Invite staff and choose what each person can do</p>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading staff...</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {members.map(member => (
+              <div key={member.userId} className="flex items-center justify-between gap-3 p-3 border border-gray-200 rounded-lg">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800 truncate">
+                    {member.email || 'Unknown account'}
+                    {member.userId === currentUserId && <span className="ml-2 text-xs text-gray-500">you</span>}
+                  </p>
+                  {member.joinedAt && <p className="text-xs text-gray-500">Since {formatDate(member.joinedAt)}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={member.role}
+                    disabled={member.userId === currentUserId}
+                    onChange={(e) => handleRoleChange(member, e.target.value as StaffRole)}
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                  >
+                    {STAFF_ROLES.map(role => (
+                      <option key={role} value={role}>{STAFF_ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  {member.userId !== currentUserId && (
+                    <button
+                      onClick={() => handleRemove(member)}
+                      className="p-1 text-red-500 hover:bg-red-50 rounded"
+                      title="Remove access"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {invites.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">Pending invitations</p>
+              {invites.map(invite => (
+                <div key={invite.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div>
+                    <p className="text-sm text-gray-800">{invite.email}</p>
+                    <p className="text-xs text-gray-500">
+                      {STAFF_ROLE_LABELS[invite.role]} • expires {formatDate(invite.expires_at)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRevokeInvite(invite)}
+                    className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded"
+                  >
+                    Withdraw
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="p-4 border-2 border-indigo-100 rounded-lg space-y-3">
+            <div className="grid grid-cols-3 gap-3">
+              <label className="block text-sm col-span-2">
+                <span className="text-gray-600">Email</span>
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="name@example.com"
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </label>
+              <label className="block text-sm">
+                <span className="text-gray-600">Role</span>
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as StaffRole)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+                >
+                  {STAFF_ROLES.map(role => (
+                    <option key={role} value={role}>{STAFF_ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              {STAFF_ROLE_LABELS[inviteRole]}s can: {ROLE_PERMISSIONS[inviteRole].map(permission => STAFF_PERMISSION_LABELS[permission].toLowerCase()).join(', ')}
+            </p>
+
+            <button
+              onClick={handleInvite}
+              disabled={inviting || !inviteEmail.trim()}
+              className="w-full flex items-center justify-center gap-2 bg-indigo-500 text-white py-2 rounded-lg font-medium hover:bg-indigo-600 disabled:bg-gray-300"
+            >
+              <UserPlus size={18} />
+              {inviting ? 'Creating invitation...' : 'Create Invitation Link'}
+            </button>
+
+            {inviteLink && (
+              <div className="p-3 bg-indigo-50 rounded-lg">
+                <p className="text-sm text-indigo-800 mb-2">Send this link to the new staff member. It works once and expires on {formatDate(inviteLink.expiresAt)}.</p>
+                <div className="flex items-center gap-2">
+                  <input readOnly value={inviteLink.url} className="flex-1 px-2 py-1 text-xs font-mono bg-white border border-indigo-200 rounded" />
+                  <button onClick={handleCopyLink} className="p-2 text-indigo-600 hover:bg-indigo-100 rounded">
+                    {copied ? <Check size={16} /> : <Copy size={16} />}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
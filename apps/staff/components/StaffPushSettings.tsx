@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Smartphone } from 'lucide-react';
+import type { StaffPermission } from '@tabeza/shared/lib/services/staff-roles';
+import type { StaffPushPreferences } from '@tabeza/shared/lib/services/staff-push';
+import {
+  disableStaffPush,
+  enableStaffPush,
+  isStaffPushEnabled,
+  isStaffPushSupported,
+  loadStaffPushPreferences,
+  saveStaffPushPreferences
+} from '@/lib/staffPush';
+
+interface StaffPushSettingsProps {
+  barId: string;
+  // The bar's alert sound setting; pushes are silent when it is off
+  soundEnabled: boolean;
+  can: (permission: StaffPermission) => boolean;
+}
+
+const EVENT_OPTIONS: Array<{
+  key: keyof StaffPushPreferences;
+  label: string;
+  description: string;
+  permission: StaffPermission;
+}> = [
+  { key: 'orders', label: 'New orders', description: 'Accept straight from the notification', permission: 'orders.take' },
+  { key: 'messages', label: 'Customer messages', description: 'Acknowledge straight from the notification', permission: 'orders.take' },
+  { key: 'payments', label: 'Payments received', description: 'M-Pesa, card and cash payments', permission: 'payments.take' }
+];
+
+export default function StaffPushSettings({ barId, soundEnabled, can }: StaffPushSettingsProps) {
+  const [supported, setSupported] = useState(true);
+  const [enabled, setEnabled] = useState(false);
+  const [preferences, setPreferences] = useState<StaffPushPreferences | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadState = useCallback(async () => {
+    const isSupported = isStaffPushSupported();
+    setSupported(isSupported);
+    try {
+      if (isSupported) setEnabled(await isStaffPushEnabled());
+      setPreferences(await loadStaffPushPreferences(barId));
+    } catch (err) {
+      console.error('Error loading push settings:', err);
+    }
+  }, [barId]);
+
+  useEffect(() => {
+    if (barId) loadState();
+  }, [barId, loadState]);
+
+  const handleToggleDevice = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      if (enabled) {
+        await disableStaffPush(barId);
+        setEnabled(false);
+      } else {
+        await enableStaffPush(barId);
+        setEnabled(true);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update push notifications');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTogglePreference = async (key: keyof StaffPushPreferences, value: boolean) => {
+    if (!preferences) return;
+    const previous = preferences;
+    setPreferences({ ...preferences, [key]: value });
+    setError('');
+    try {
+      setPreferences(await saveStaffPushPreferences(barId, { [key]: value }));
+    } catch (err) {
+      setPreferences(previous);
+      setError(err instanceof Error ? err.message : 'Failed to save preferences');
+    }
+  };
+
+  const options = EVENT_OPTIONS.filter(option => can(option.permission));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-orange-100 rounded-lg">
+            <Smartphone size={20} className="text-orange-600" />
+          </div>
+          <div>
+            <h3 className="font-bold text-gray-800">Push Notifications</h3>
+            <p className="text-sm text-gray-500">Alerts on this device, even with the screen off</p>
+          </div>
+        </div>
+
+        {supported && (
+          <button
+            onClick={handleToggleDevice}
+            disabled={busy}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-60 ${
+              enabled ? 'bg-gray-100 text-gray-700 hover:bg-gray-200' : 'bg-orange-500 text-white hover:bg-orange-600'
+            }`}
+          >
+            {busy ? 'Please wait...' : enabled ? 'Turn off' : 'Turn on'}
+          </button>
+        )}
+      </div>
+
+      {!supported ? (
+        <p className="text-sm text-gray-500">
+          This browser cannot receive push notifications. Install the staff app to the home screen and open it from there.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {preferences && options.map(option => (
+            <label key={option.key} className="flex items-center justify-between gap-3 cursor-pointer">
+              <div>
+                <p className="text-sm font-medium text-gray-700">{option.label}</p>
+                <p className="text-xs text-gray-500">{option.description}</p>
+              </div>
+              <input
+                type="checkbox"
+                checked={preferences[option.key]}
+                onChange={(e) => handleTogglePreference(option.key, e.target.checked)}
+                className="w-5 h-5 text-orange-500 rounded focus:ring-orange-500"
+              />
+            </label>
+          ))}
+
+          <p className="text-xs text-gray-500">
+            {soundEnabled
+              ? 'Notifications sound and vibrate, following the bar\'s alert settings.'
+              : 'Alert sounds are off for this bar, so notifications arrive silently.'}
+            {' '}Preferences apply to every device you sign in on.
+          </p>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+    </div>
+  );
+}
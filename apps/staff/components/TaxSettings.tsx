@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Landmark, Save, AlertCircle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+
+// Tax settings APIs authorize staff with their Supabase access token
+const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+
+  return fetch(input, {
+    ...init,
+    headers: {
+      ...init.headers,
+      Authorization: `Bearer ${session.access_token}`
+    }
+  });
+};
+
+interface TaxSettingsProps {
+  barId: string;
+}
+
+interface EtimsAdapterOption {
+  name: string;
+  label: string;
+  testOnly: boolean;
+}
+
+interface TaxSettingsState {
+  prices_include_tax: boolean;
+  kra_pin: string;
+  etims_enabled: boolean;
+  etims_adapter: string;
+  etims_branch_id: string;
+  etims_device_serial: string;
+}
+
+export default function TaxSettings({ barId }: TaxSettingsProps) {
+  const [settings, setSettings] = useState<TaxSettingsState>({
+    prices_include_tax: true,
+    kra_pin: '',
+    etims_enabled: false,
+    etims_adapter: 'stub',
+    etims_branch_id: '00',
+    etims_device_serial: ''
+  });
+  const [adapters, setAdapters] = useState<EtimsAdapterOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const response = await authorizedFetch(`/api/tax-settings?barId=${barId}`);
+      const result = await response.json();
+      if (response.ok && result.success) {
+        setSettings(result.settings);
+        setAdapters(result.adapters || []);
+      }
+    } catch (err) {
+      console.error('Error loading tax settings:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [barId]);
+
+  useEffect(() => {
+    if (barId) loadSettings();
+  }, [barId, loadSettings]);
+
+  const adapter = adapters.find(option => option.name === settings.etims_adapter);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await authorizedFetch('/api/tax-settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barId, ...settings })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save tax settings');
+      }
+
+      await loadSettings();
+      alert('✅ Tax settings saved successfully!');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save tax settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-amber-100 rounded-lg">
+            <Landmark size={20} className="text-amber-600" />
+          </div>
+          <div>
+            <h3 className="font-bold text-gray-800">Tax &amp; eTIMS</h3>
+            <p className="text-sm text-gray-500">VAT on receipts and KRA eTIMS tax invoices</p>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 cursor-pointer">
+          <span className="text-sm font-medium text-gray-700">Enable eTIMS</span>
+          <input
+            type="checkbox"
+            checked={settings.etims_enabled}
+            onChange={(e) => setSettings({ ...settings, etims_enabled: e.target.checked })}
+            className="w-5 h-5 text-amber-500 rounded focus:ring-amber-500"
+          />
+        </label>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading tax settings...</p>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Menu prices</label>
+            <div className="grid grid-cols-2 gap-2">
+              {[true, false].map(inclusive => (
+                <button
+                  key={String(inclusive)}
+                  type="button"
+                  onClick={() => setSettings({ ...settings, prices_include_tax: inclusive })}
+                  className={`p-3 rounded-lg text-center text-sm font-medium transition ${
+                    settings.prices_include_tax === inclusive
+                      ? 'bg-amber-100 border-2 border-amber-500 text-amber-700'
+                      : 'bg-gray-100 border border-gray-200 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {inclusive ? 'Include VAT' : 'Exclude VAT'}
+                </button>
+              ))}
+            </div>
+            {!settings.prices_include_tax && (
+              <p className="text-xs text-gray-500 mt-1">VAT is added on top of menu prices on receipts and tax invoices</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              KRA PIN {settings.etims_enabled && <span className="text-red-500">*</span>}
+            </label>
+            <input
+              type="text"
+              value={settings.kra_pin}
+              onChange={(e) => setSettings({ ...settings, kra_pin: e.target.value.toUpperCase() })}
+              className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-amber-500 focus:outline-none font-mono"
+              placeholder="P051234567X"
+              maxLength={11}
+            />
+          </div>
+
+          {settings.etims_enabled && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Submission</label>
+                <select
+                  value={settings.etims_adapter}
+                  onChange={(e) => setSettings({ ...settings, etims_adapter: e.target.value })}
+                  className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-amber-500 focus:outline-none bg-white"
+                >
+                  {adapters.map(option => (
+                    <option key={option.name} value={option.name}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Branch ID</label>
+                  <input
+                    type="text"
+                    value={settings.etims_branch_id}
+                    onChange={(e) => setSettings({ ...settings, etims_branch_id: e.target.value })}
+                    className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-amber-500 focus:outline-none font-mono"
+                    placeholder="00"
+                    maxLength={2}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Device serial</label>
+                  <input
+                    type="text"
+                    value={settings.etims_device_serial}
+                    onChange={(e) => setSettings({ ...settings, etims_device_serial: e.target.value })}
+                    className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-amber-500 focus:outline-none font-mono"
+                    placeholder="From KRA"
+                  />
+                </div>
+              </div>
+
+              {adapter?.testOnly && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-start gap-2">
+                  <AlertCircle size={16} className="text-amber-600 mt-0.5 flex-shrink-0" />
+                  <p className="text-sm text-amber-800">
+                    The local stub signs receipts with test control data. Nothing is filed with KRA.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="w-full bg-amber-500 text-white py-3 rounded-lg font-semibold hover:bg-amber-600 disabled:bg-gray-300 flex items-center justify-center gap-2"
+          >
+            <Save size={20} />
+            {saving ? 'Saving...' : 'Save Tax Settings'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
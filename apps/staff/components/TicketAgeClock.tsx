@@ -0,0 +1,76 @@
+'use client';
+
+import React from 'react';
+import type { KdsTicketUrgency } from '@tabeza/shared/lib/services/kitchen-display';
+
+interface TicketAgeClockProps {
+  ageSeconds: number;
+  urgency: KdsTicketUrgency;
+  size?: number;
+}
+
+const URGENCY_COLORS: Record<KdsTicketUrgency, { face: string; hand: string; text: string }> = {
+  fresh: { face: 'border-green-400', hand: 'bg-green-400', text: 'text-green-300' },
+  warning: { face: 'border-amber-400', hand: 'bg-amber-400', text: 'text-amber-300' },
+  late: { face: 'border-red-500', hand: 'bg-red-500', text: 'text-red-400' }
+};
+
+export const formatTicketAge = (ageSeconds: number): string => {
+  const minutes = Math.floor(ageSeconds / 60);
+  const seconds = ageSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * How long a kitchen display ticket has been waiting: a small clock face in
+ * the style of LargeAnimatedClock whose hand sweeps once a minute, coloured
+ * by urgency, with the minutes and seconds beside it
+ */
+const TicketAgeClock: React.FC<TicketAgeClockProps> = ({ ageSeconds, urgency, size = 44 }) => {
+  const colors = URGENCY_COLORS[urgency];
+  const handLength = size / 2 - 8;
+
+  return (
+    <div className="flex items-center gap-2">
+      <div
+        className={`relative rounded-full border-4 ${colors.face} ${urgency === 'late' ? 'animate-pulse' : ''}`}
+        style={{ width: size, height: size }}
+      >
+        {/* Quarter-hour markers */}
+        {[0, 90, 180, 270].map(angle => (
+          <div
+            key={angle}
+            className="absolute w-0.5 h-1.5 bg-gray-400"
+            style={{
+              top: 1,
+              left: '50%',
+              transform: `translateX(-50%) rotate(${angle}deg)`,
+              transformOrigin: `center ${size / 2 - 5}px`
+            }}
+          />
+        ))}
+
+        {/* Second hand: 6 degrees a second */}
+        <div
+          className={`absolute w-0.5 rounded-full ${colors.hand}`}
+          style={{
+            height: handLength,
+            top: size / 2 - 4 - handLength,
+            left: '50%',
+            transform: `translateX(-50%) rotate(${(ageSeconds % 60) * 6}deg)`,
+            transformOrigin: 'center bottom',
+            transition: 'transform 0.3s linear'
+          }}
+        />
+
+        <div className="absolute w-1.5 h-1.5 bg-white rounded-full top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2" />
+      </div>
+
+      <span className={`font-mono text-2xl font-bold tabular-nums ${colors.text}`}>
+        {formatTicketAge(ageSeconds)}
+      </span>
+    </div>
+  );
+};
+
+export default TicketAgeClock;
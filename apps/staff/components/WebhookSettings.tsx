@@ -0,0 +1,372 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Webhook, Plus, Trash2, RefreshCw, Copy, Check, AlertCircle } from 'lucide-react';
+import type { WebhookEventType } from '@tabeza/shared/lib/services/webhook-service';
+import { timeAgo } from '@/lib/formatUtils';
+import { supabase } from '@/lib/supabase';
+
+// Webhook APIs authorize staff with their Supabase access token
+const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+
+  return fetch(input, {
+    ...init,
+    headers: {
+      ...init.headers,
+      Authorization: `Bearer ${session.access_token}`
+    }
+  });
+};
+
+interface WebhookSettingsProps {
+  barId: string;
+}
+
+interface EndpointRow {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  description: string | null;
+  enabled: boolean;
+  created_at: string;
+}
+
+interface DeliveryRow {
+  id: string;
+  endpoint_id: string;
+  event_type: WebhookEventType;
+  status: 'pending' | 'retrying' | 'sending' | 'delivered' | 'failed';
+  attempts: number;
+  next_attempt_at: string | null;
+  response_status: number | null;
+  error: string | null;
+  duration_ms: number | null;
+  created_at: string;
+}
+
+const EVENT_LABELS: Record<WebhookEventType, string> = {
+  'tab.opened': 'Tab opened',
+  'order.confirmed': 'Order confirmed',
+  'order.served': 'Order served',
+  'payment.success': 'Payment succeeded',
+  'payment.failed': 'Payment failed',
+  'tab.closed': 'Tab closed'
+};
+
+const STATUS_STYLES: Record<DeliveryRow['status'], string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  retrying: 'bg-yellow-100 text-yellow-800',
+  sending: 'bg-blue-100 text-blue-700',
+  delivered: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700'
+};
+
+export default function WebhookSettings({ barId }: WebhookSettingsProps) {
+  const [endpoints, setEndpoints] = useState<EndpointRow[]>([]);
+  const [deliveries, setDeliveries] = useState<DeliveryRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [form, setForm] = useState<{ url: string; description: string; events: WebhookEventType[] }>({
+    url: '',
+    description: '',
+    events: ['payment.success', 'tab.closed']
+  });
+
+  const loadWebhooks = useCallback(async () => {
+    try {
+      const [endpointsResponse, deliveriesResponse] = await Promise.all([
+        authorizedFetch(`/api/webhooks/endpoints?barId=${barId}`),
+        authorizedFetch(`/api/webhooks/deliveries?barId=${barId}`)
+      ]);
+      const endpointsResult = await endpointsResponse.json();
+      const deliveriesResult = await deliveriesResponse.json();
+
+      if (endpointsResponse.ok) setEndpoints(endpointsResult.endpoints || []);
+      if (deliveriesResponse.ok) setDeliveries(deliveriesResult.deliveries || []);
+    } catch (err) {
+      console.error('Error loading webhooks:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [barId]);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const toggleFormEvent = (event: WebhookEventType) => {
+    setForm(prev => ({
+      ...prev,
+      events: prev.events.includes(event)
+        ? prev.events.filter(e => e !== event)
+        : [...prev.events, event]
+    }));
+  };
+
+  const handleCreateEndpoint = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await authorizedFetch('/api/webhooks/endpoints', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barId, ...form })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to add endpoint');
+      }
+
+      setNewSecret(result.endpoint.secret);
+      setShowForm(false);
+      setForm({ url: '', description: '', events: ['payment.success', 'tab.closed'] });
+      await loadWebhooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add endpoint');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleEndpoint = async (endpoint: EndpointRow) => {
+    const response = await authorizedFetch('/api/webhooks/endpoints', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ barId, endpointId: endpoint.id, enabled: !endpoint.enabled })
+    });
+
+    if (response.ok) {
+      setEndpoints(prev => prev.map(e => e.id === endpoint.id ? { ...e, enabled: !e.enabled } : e));
+    } else {
+      alert('Failed to update endpoint. Please try again.');
+    }
+  };
+
+  const handleDeleteEndpoint = async (endpoint: EndpointRow) => {
+    if (!confirm(`Remove webhook endpoint ${endpoint.url}? Its delivery log will be deleted too.`)) return;
+
+    const response = await authorizedFetch(`/api/webhooks/endpoints?barId=${barId}&endpointId=${endpoint.id}`, {
+      method: 'DELETE'
+    });
+
+    if (response.ok) {
+      await loadWebhooks();
+    } else {
+      alert('Failed to remove endpoint. Please try again.');
+    }
+  };
+
+  const handleRedeliver = async (delivery: DeliveryRow) => {
+    const response = await authorizedFetch('/api/webhooks/deliveries', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ barId, deliveryId: delivery.id })
+    });
+
+    if (response.ok) {
+      await loadWebhooks();
+    } else {
+      alert('Failed to queue redelivery. Please try again.');
+    }
+  };
+
+  const handleCopySecret = () => {
+    if (!newSecret) return;
+    navigator.clipboard.writeText(newSecret);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const endpointUrl = (endpointId: string) =>
+    endpoints.find(e => e.id === endpointId)?.url || 'Removed endpoint';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-slate-100 rounded-lg">
+            <Webhook size={20} className="text-slate-600" />
+          </div>
+          <div>
+            <h3 className="font-bold text-gray-800">Webhooks</h3>
+            <p className="text-sm text-gray-500">Send tab, order and payment events to your POS or bookkeeping tools</p>
+          </div>
+        </div>
+        <button
+          onClick={loadWebhooks}
+          className="p-2 hover:bg-gray-100 rounded-lg"
+          aria-label="Refresh webhooks"
+        >
+          <RefreshCw size={18} className="text-gray-500" />
+        </button>
+      </div>
+
+      {newSecret && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4">
+          <p className="text-sm font-medium text-yellow-800 mb-2">
+            Signing secret — copy it now, it won't be shown again
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs bg-white border border-yellow-200 rounded px-2 py-1 break-all">{newSecret}</code>
+            <button onClick={handleCopySecret} className="p-2 hover:bg-yellow-100 rounded-lg" aria-label="Copy secret">
+              {copied ? <Check size={16} className="text-green-600" /> : <Copy size={16} className="text-yellow-700" />}
+            </button>
+          </div>
+          <p className="text-xs text-yellow-700 mt-2">
+            Verify the X-Tabeza-Signature header (t=timestamp,v1=HMAC-SHA256 of "timestamp.body") before trusting a request.
+          </p>
+          <button onClick={() => setNewSecret(null)} className="text-xs text-yellow-800 underline mt-2">
+            I've saved it
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading webhooks...</p>
+      ) : (
+        <div className="space-y-3">
+          {endpoints.length === 0 && !showForm && (
+            <p className="text-sm text-gray-500">No webhook endpoints yet.</p>
+          )}
+
+          {endpoints.map(endpoint => (
+            <div key={endpoint.id} className="p-3 bg-gray-50 rounded-lg">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-800 break-all">{endpoint.url}</p>
+                  {endpoint.description && (
+                    <p className="text-xs text-gray-500">{endpoint.description}</p>
+                  )}
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {endpoint.events.map(event => (
+                      <span key={event} className="text-xs bg-white border border-gray-200 text-gray-600 px-2 py-0.5 rounded-full">
+                        {event}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <input
+                    type="checkbox"
+                    checked={endpoint.enabled}
+                    onChange={() => handleToggleEndpoint(endpoint)}
+                    className="w-5 h-5 text-slate-600 rounded"
+                    aria-label="Endpoint enabled"
+                  />
+                  <button
+                    onClick={() => handleDeleteEndpoint(endpoint)}
+                    className="p-2 hover:bg-red-50 rounded-lg"
+                    aria-label="Remove endpoint"
+                  >
+                    <Trash2 size={16} className="text-red-500" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {showForm ? (
+            <div className="p-3 border border-gray-200 rounded-lg space-y-3">
+              <input
+                type="url"
+                value={form.url}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+                placeholder="https://pos.example.com/tabeza/webhook"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="Description (optional)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(EVENT_LABELS) as WebhookEventType[]).map(event => (
+                  <label key={event} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.events.includes(event)}
+                      onChange={() => toggleFormEvent(event)}
+                      className="w-4 h-4 rounded"
+                    />
+                    {EVENT_LABELS[event]}
+                  </label>
+                ))}
+              </div>
+              {error && (
+                <p className="text-sm text-red-600 flex items-center gap-1">
+                  <AlertCircle size={14} /> {error}
+                </p>
+              )}
+              <div className="flex gap-2">
+                <button
+                  onClick={handleCreateEndpoint}
+                  disabled={saving || !form.url || form.events.length === 0}
+                  className="flex-1 bg-slate-700 text-white py-2 rounded-lg text-sm font-semibold hover:bg-slate-800 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Add Endpoint'}
+                </button>
+                <button
+                  onClick={() => { setShowForm(false); setError(''); }}
+                  className="px-4 bg-gray-100 text-gray-700 py-2 rounded-lg text-sm hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setShowForm(true)}
+              className="w-full border border-dashed border-gray-300 text-gray-600 py-2 rounded-lg text-sm font-medium hover:bg-gray-50 flex items-center justify-center gap-2"
+            >
+              <Plus size={16} /> Add Endpoint
+            </button>
+          )}
+
+          {deliveries.length > 0 && (
+            <div className="pt-2">
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">Recent Deliveries</h4>
+              <div className="divide-y border border-gray-100 rounded-lg">
+                {deliveries.map(delivery => (
+                  <div key={delivery.id} className="p-2 flex items-center justify-between gap-3 text-sm">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${STATUS_STYLES[delivery.status]}`}>
+                          {delivery.status}
+                        </span>
+                        <span className="font-medium text-gray-800">{delivery.event_type}</span>
+                        {delivery.response_status && (
+                          <span className="text-xs text-gray-500">HTTP {delivery.response_status}</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500 truncate">
+                        {endpointUrl(delivery.endpoint_id)} · {timeAgo(delivery.created_at)} · {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                        {delivery.error ? ` · ${delivery.error}` : ''}
+                      </p>
+                    </div>
+                    {delivery.status === 'failed' && (
+                      <button
+                        onClick={() => handleRedeliver(delivery)}
+                        className="text-xs text-slate-700 border border-gray-300 px-2 py-1 rounded-lg hover:bg-gray-50 shrink-0"
+                      >
+                        Retry
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
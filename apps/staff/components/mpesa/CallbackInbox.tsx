@@ -0,0 +1,175 @@
+/**
+ * M-PESA Callback Inbox
+ * Shows the STK callbacks Safaricom sent for this bar (including retries that
+ * were ignored) and lets an owner or manager replay them after a fix
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, RotateCcw, Inbox } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+
+type CallbackStatus = 'received' | 'processed' | 'already_resolved' | 'payment_not_found' | 'failed';
+
+interface StoredCallback {
+  id: string;
+  checkout_request_id: string;
+  result_code: number;
+  status: CallbackStatus;
+  tab_id: string | null;
+  receive_count: number;
+  replay_count: number;
+  error: string | null;
+  created_at: string;
+}
+
+interface CallbackInboxProps {
+  barId: string;
+}
+
+const STATUS_LABELS: Record<CallbackStatus, string> = {
+  received: 'processing',
+  processed: 'applied',
+  already_resolved: 'already resolved',
+  payment_not_found: 'no payment',
+  failed: 'failed'
+};
+
+const getStatusColor = (status: CallbackStatus) => {
+  switch (status) {
+    case 'processed': return 'text-green-600 bg-green-100';
+    case 'failed': return 'text-red-600 bg-red-100';
+    case 'payment_not_found': return 'text-orange-600 bg-orange-100';
+    default: return 'text-gray-600 bg-gray-100';
+  }
+};
+
+export default function CallbackInbox({ barId }: CallbackInboxProps) {
+  const [callbacks, setCallbacks] = useState<StoredCallback[]>([]);
+  const [canReplay, setCanReplay] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+
+    return fetch(input, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${session.access_token}`
+      }
+    });
+  };
+
+  const loadCallbacks = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await authorizedFetch(`/api/payments/mpesa/callbacks?barId=${barId}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load callbacks');
+
+      setCallbacks(result.callbacks);
+      setCanReplay(result.canReplay);
+    } catch (err) {
+      console.error('Error loading callbacks:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [barId]);
+
+  useEffect(() => {
+    loadCallbacks();
+  }, [loadCallbacks]);
+
+  const replay = async (target: { inboxId?: string; tabId?: string }, key: string) => {
+    setReplaying(key);
+    try {
+      const response = await authorizedFetch('/api/payments/mpesa/callbacks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barId, ...target })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Replay failed');
+
+      const applied = result.items.filter((item: { applied: boolean }) => item.applied).length;
+      alert(`Replayed ${result.items.length} callback(s), ${applied} changed a payment`);
+      loadCallbacks();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Replay failed');
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg border">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="font-bold text-gray-800">Callback Inbox</h3>
+          <p className="text-sm text-gray-600">
+            Every callback from Safaricom is stored; repeats are ignored
+          </p>
+        </div>
+        <button
+          onClick={loadCallbacks}
+          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+        >
+          <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {!loading && callbacks.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">
+          <Inbox size={32} className="mx-auto mb-2 opacity-30" />
+          <p className="text-sm">No callbacks received yet</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {callbacks.map((callback) => (
+            <div key={callback.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg text-xs">
+              <div>
+                <p className="font-mono text-gray-700">{callback.checkout_request_id}</p>
+                <p className="text-gray-500 mt-1">
+                  {new Date(callback.created_at).toLocaleString()} • result {callback.result_code}
+                  {callback.receive_count > 1 && ` • received ${callback.receive_count}×`}
+                  {callback.replay_count > 0 && ` • replayed ${callback.replay_count}×`}
+                </p>
+                {callback.error && <p className="text-red-600 mt-1">{callback.error}</p>}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className={`px-2 py-1 rounded-full font-medium ${getStatusColor(callback.status)}`}>
+                  {STATUS_LABELS[callback.status]}
+                </span>
+                {canReplay && (
+                  <>
+                    <button
+                      onClick={() => replay({ inboxId: callback.id }, callback.id)}
+                      disabled={replaying !== null}
+                      title="Replay this callback"
+                      className="p-1 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-50"
+                    >
+                      <RotateCcw size={14} className={replaying === callback.id ? 'animate-spin' : ''} />
+                    </button>
+                    {callback.tab_id && (
+                      <button
+                        onClick={() => replay({ tabId: callback.tab_id! }, `tab-${callback.tab_id}`)}
+                        disabled={replaying !== null}
+                        className="px-2 py-1 text-gray-600 bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50"
+                      >
+                        {replaying === `tab-${callback.tab_id}` ? 'Replaying...' : 'Replay tab'}
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
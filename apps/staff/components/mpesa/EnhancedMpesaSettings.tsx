@@ -11,6 +11,21 @@ import CredentialValidation from './CredentialValidation';
 import EnvironmentSwitcher from './EnvironmentSwitcher';
 import ProductionReadinessChecklist from './ProductionReadinessChecklist';
 import TransactionMonitor from './TransactionMonitor';
+import { supabase } from '@/lib/supabase';
+
+// Credentials are only served to roles that may change payment settings
+const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+
+  return fetch(input, {
+    ...init,
+    headers: {
+      ...init.headers,
+      Authorization: `Bearer ${session.access_token}`
+    }
+  });
+};
 
 interface MpesaSettings {
   mpesa_enabled: boolean;
@@ -61,7 +76,7 @@ export default function EnhancedMpesaSettings({
 
   const loadSettings = async () => {
     try {
-      const response = await fetch(`/api/mpesa-settings?barId=${barId}`);
+      const response = await authorizedFetch(`/api/mpesa-settings?barId=${barId}`);
       const data = await response.json();
 
       if (response.ok && data.success) {
@@ -93,7 +108,7 @@ export default function EnhancedMpesaSettings({
     setSaving(true);
 
     try {
-      const response = await fetch('/api/mpesa-settings', {
+      const response = await authorizedFetch('/api/mpesa-settings', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
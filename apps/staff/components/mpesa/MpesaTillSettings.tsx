@@ -0,0 +1,323 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Store, Plus, Save, Trash2, AlertCircle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { getStaffStation, setStaffStation } from '@/lib/staffStation';
+import type { MpesaTillSummary } from '@tabeza/shared/lib/services/mpesa-tills';
+
+interface MpesaTillSettingsProps {
+  barId: string;
+}
+
+interface TillForm {
+  tillId: string | null;
+  name: string;
+  environment: 'sandbox' | 'production' | 'simulator';
+  businessShortcode: string;
+  consumerKey: string;
+  consumerSecret: string;
+  passkey: string;
+  isActive: boolean;
+  priority: string;
+  tableFrom: string;
+  tableTo: string;
+  stations: string;
+  activeFrom: string;
+  activeTo: string;
+}
+
+const MASKED_VALUE = '••••••••••••••••';
+
+const EMPTY_FORM: TillForm = {
+  tillId: null,
+  name: '',
+  environment: 'sandbox',
+  businessShortcode: '',
+  consumerKey: '',
+  consumerSecret: '',
+  passkey: '',
+  isActive: true,
+  priority: '100',
+  tableFrom: '',
+  tableTo: '',
+  stations: '',
+  activeFrom: '',
+  activeTo: ''
+};
+
+const toForm = (till: MpesaTillSummary): TillForm => ({
+  tillId: till.id,
+  name: till.name,
+  environment: till.environment,
+  businessShortcode: till.business_shortcode,
+  consumerKey: till.has_consumer_key ? MASKED_VALUE : '',
+  consumerSecret: till.has_consumer_secret ? MASKED_VALUE : '',
+  passkey: till.has_passkey ? MASKED_VALUE : '',
+  isActive: till.is_active,
+  priority: String(till.priority),
+  tableFrom: till.table_from?.toString() || '',
+  tableTo: till.table_to?.toString() || '',
+  stations: till.stations.join(', '),
+  activeFrom: till.active_from || '',
+  activeTo: till.active_to || ''
+});
+
+// One line per routing rule, e.g. "Tables 1-10 • Rooftop • 18:00-02:00"
+const describeRules = (till: MpesaTillSummary) => {
+  const rules: string[] = [];
+  if (till.table_from || till.table_to) {
+    rules.push(`Tables ${till.table_from ?? 1}-${till.table_to ?? '∞'}`);
+  }
+  if (till.stations.length > 0) rules.push(till.stations.join(', '));
+  if (till.active_from && till.active_to) rules.push(`${till.active_from}-${till.active_to}`);
+  return rules.length > 0 ? rules.join(' • ') : 'Catches every payment';
+};
+
+export default function MpesaTillSettings({ barId }: MpesaTillSettingsProps) {
+  const [tills, setTills] = useState<MpesaTillSummary[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [simulatorAvailable, setSimulatorAvailable] = useState(false);
+  const [form, setForm] = useState<TillForm | null>(null);
+  const [station, setStation] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const authorizedFetch = useCallback(async (url: string, init: RequestInit = {}) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`
+      }
+    });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || 'M-Pesa till request failed');
+    return result;
+  }, []);
+
+  const loadTills = useCallback(async () => {
+    try {
+      const result = await authorizedFetch(`/api/mpesa-settings/tills?barId=${barId}`);
+      setTills(result.tills || []);
+      setCanManage(!!result.canManage);
+      setSimulatorAvailable(!!result.simulatorAvailable);
+    } catch (err) {
+      console.error('Error loading M-Pesa tills:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [barId, authorizedFetch]);
+
+  useEffect(() => {
+    if (barId) loadTills();
+    setStation(getStaffStation());
+  }, [barId, loadTills]);
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    setError('');
+    try {
+      const { tillId, ...fields } = form;
+      await authorizedFetch('/api/mpesa-settings/tills', {
+        method: tillId ? 'PATCH' : 'POST',
+        body: JSON.stringify({ barId, tillId, ...fields })
+      });
+      setForm(null);
+      await loadTills();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save till');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (till: MpesaTillSummary) => {
+    if (!window.confirm(`Delete the "${till.name}" till?`)) return;
+    try {
+      await authorizedFetch(`/api/mpesa-settings/tills?barId=${barId}&tillId=${till.id}`, { method: 'DELETE' });
+      await loadTills();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete till');
+    }
+  };
+
+  const handleStationSave = () => {
+    setStaffStation(station);
+    alert(station.trim() ? `✅ This device is now at "${station.trim()}"` : '✅ Station cleared for this device');
+  };
+
+  const textInput = (field: keyof Omit<TillForm, 'tillId' | 'isActive' | 'environment'>, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => form && (
+    <label className="block text-sm">
+      <span className="text-gray-600">{label}</span>
+      <input
+        {...props}
+        value={form[field]}
+        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+      />
+    </label>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-green-100 rounded-lg">
+            <Store size={20} className="text-green-600" />
+          </div>
+          <div>
+            <h3 className="font-bold text-gray-800">M-Pesa Tills</h3>
+            <p className="text-sm text-gray-500">Split payments across shortcodes by table, station or time of day</p>
+          </div>
+        </div>
+        {canManage && !form && (
+          <button
+            onClick={() => setForm(EMPTY_FORM)}
+            className="flex items-center gap-1 px-3 py-2 bg-green-500 text-white rounded-lg text-sm font-medium hover:bg-green-600"
+          >
+            <Plus size={16} />
+            Add Till
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading tills...</p>
+      ) : (
+        <div className="space-y-3">
+          {tills.length === 0 && !form && (
+            <p className="text-sm text-gray-500">
+              No tills yet: every payment goes to the shortcode in the M-Pesa settings above.
+            </p>
+          )}
+
+          {tills.map(till => (
+            <div key={till.id} className={`flex items-center justify-between p-3 border rounded-lg ${till.is_active ? 'border-gray-200' : 'border-gray-100 opacity-60'}`}>
+              <div>
+                <p className="font-medium text-gray-800">
+                  {till.name}
+                  <span className="ml-2 font-mono text-xs text-gray-500">{till.business_shortcode}</span>
+                  <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs">{till.environment}</span>
+                  {!till.is_active && <span className="ml-2 text-xs text-gray-500">inactive</span>}
+                </p>
+                <p className="text-xs text-gray-500">Priority {till.priority} • {describeRules(till)}</p>
+              </div>
+              {canManage && (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setForm(toForm(till))}
+                    className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(till)}
+                    className="p-1 text-red-500 hover:bg-red-50 rounded"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {form && (
+            <div className="p-4 border-2 border-green-200 rounded-lg space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                {textInput('name', 'Name', { placeholder: 'e.g. Rooftop bar' })}
+                <label className="block text-sm">
+                  <span className="text-gray-600">Environment</span>
+                  <select
+                    value={form.environment}
+                    onChange={(e) => setForm({ ...form, environment: e.target.value as TillForm['environment'] })}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  >
+                    <option value="sandbox">Sandbox</option>
+                    <option value="production">Production</option>
+                    {(simulatorAvailable || form.environment === 'simulator') && <option value="simulator">Simulator</option>}
+                  </select>
+                </label>
+                {textInput('businessShortcode', 'Business shortcode', {
+                  placeholder: form.environment === 'production' ? 'Paybill or till number' : '174379'
+                })}
+                {textInput('priority', 'Priority (lower first)', { type: 'number', min: 0 })}
+                {form.environment !== 'simulator' && textInput('consumerKey', 'Consumer key', { type: 'password' })}
+                {form.environment !== 'simulator' && textInput('consumerSecret', 'Consumer secret', { type: 'password' })}
+                {form.environment === 'production' && textInput('passkey', 'Passkey', { type: 'password' })}
+              </div>
+
+              <p className="text-sm font-medium text-gray-700">Routing rules (leave blank to match any)</p>
+              <div className="grid grid-cols-2 gap-3">
+                {textInput('tableFrom', 'First table', { type: 'number', min: 1 })}
+                {textInput('tableTo', 'Last table', { type: 'number', min: 1 })}
+                {textInput('activeFrom', 'From (Kenya time)', { type: 'time' })}
+                {textInput('activeTo', 'Until', { type: 'time' })}
+              </div>
+              {textInput('stations', 'Staff stations (comma separated)', { placeholder: 'Rooftop, Main counter' })}
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                  className="w-4 h-4 text-green-500 rounded"
+                />
+                Active
+              </label>
+
+              {error && (
+                <div className="flex items-center gap-2 text-sm text-red-600">
+                  <AlertCircle size={16} />
+                  {error}
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => { setForm(null); setError(''); }}
+                  className="flex-1 bg-gray-200 text-gray-700 py-2 rounded-lg font-semibold hover:bg-gray-300"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving || !form.name.trim()}
+                  className="flex-1 bg-green-500 text-white py-2 rounded-lg font-semibold hover:bg-green-600 disabled:bg-gray-300 flex items-center justify-center gap-2"
+                >
+                  <Save size={16} />
+                  {saving ? 'Saving...' : 'Save Till'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="pt-3 border-t border-gray-100">
+            <label className="block text-sm font-medium text-gray-700 mb-1">This device&apos;s station</label>
+            <div className="flex gap-2">
+              <input
+                value={station}
+                onChange={(e) => setStation(e.target.value)}
+                placeholder="e.g. Rooftop"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <button
+                onClick={handleStationSave}
+                className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200"
+              >
+                Save
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">M-Pesa prompts sent from this device use the till for this station</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+/**
+ * M-PESA Simulator Testing Panel
+ * Drives the local Daraja simulator for bars on the 'simulator' environment:
+ * pick how the next payments behave, pay the shortcode directly (C2B) and
+ * watch what the simulator did. Renders nothing for bars on Safaricom.
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { FlaskConical, RefreshCw, Send } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+
+type SimulatorScenario =
+  | 'success'
+  | 'cancelled'
+  | 'insufficient_funds'
+  | 'timeout'
+  | 'delayed'
+  | 'duplicate'
+  | 'failed';
+
+interface SimulatorTransaction {
+  id: string;
+  type: 'stk' | 'c2b' | 'reversal' | 'b2c';
+  amount: number;
+  phoneNumber: string | null;
+  reference: string | null;
+  scenario: SimulatorScenario;
+  resultCode: number | string | null;
+  resultDesc: string | null;
+  createdAt: string;
+  callbackCount: number;
+}
+
+interface SimulatorState {
+  shortCode: string;
+  scenarios: SimulatorScenario[];
+  scenario: SimulatorScenario;
+  c2bRegistered: boolean;
+  transactions: SimulatorTransaction[];
+}
+
+interface SandboxTestingPanelProps {
+  barId: string;
+}
+
+const SCENARIO_LABELS: Record<SimulatorScenario, { label: string; description: string }> = {
+  success: { label: 'Success', description: 'Customer pays, callback arrives right away' },
+  cancelled: { label: 'User cancels', description: 'Customer dismisses the prompt (1032)' },
+  insufficient_funds: { label: 'Insufficient funds', description: 'Not enough balance (1)' },
+  timeout: { label: 'Timeout', description: 'No callback; the reconciler must query it (1037)' },
+  delayed: { label: 'Delayed callback', description: 'Customer pays, callback arrives late' },
+  duplicate: { label: 'Duplicate callback', description: 'Customer pays, callback is sent twice' },
+  failed: { label: 'Failed', description: 'Daraja rejects the payment (2001)' }
+};
+
+const TYPE_LABELS: Record<SimulatorTransaction['type'], string> = {
+  stk: 'STK push',
+  c2b: 'Paybill',
+  reversal: 'Reversal',
+  b2c: 'B2C'
+};
+
+export default function SandboxTestingPanel({ barId }: SandboxTestingPanelProps) {
+  const [state, setState] = useState<SimulatorState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [c2bForm, setC2bForm] = useState({ amount: '100', phoneNumber: '254708374149', accountReference: '' });
+
+  const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+
+    return fetch(input, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${session.access_token}`
+      }
+    });
+  };
+
+  const loadState = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await authorizedFetch(`/api/payments/mpesa/simulator?barId=${barId}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load simulator');
+
+      setState(result.active ? result : null);
+    } catch (err) {
+      console.error('Error loading simulator:', err);
+      setState(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [barId]);
+
+  useEffect(() => {
+    loadState();
+  }, [loadState]);
+
+  const post = async (body: Record<string, unknown>) => {
+    setSaving(true);
+    try {
+      const response = await authorizedFetch('/api/payments/mpesa/simulator', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barId, ...body })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Simulator request failed');
+
+      await loadState();
+      return true;
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Simulator request failed');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!state) return null;
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-purple-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <FlaskConical size={18} className="text-purple-600" />
+          <div>
+            <h3 className="font-bold text-gray-800">M-Pesa Simulator</h3>
+            <p className="text-sm text-gray-600">
+              Shortcode {state.shortCode} is on the local Daraja simulator; no money moves
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={loadState}
+          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+        >
+          <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      <div className="mb-4">
+        <p className="text-sm font-medium text-gray-700 mb-2">Next payments</p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {state.scenarios.map((scenario) => (
+            <button
+              key={scenario}
+              onClick={() => post({ action: 'scenario', scenario })}
+              disabled={saving}
+              title={SCENARIO_LABELS[scenario].description}
+              className={`p-2 rounded-lg text-left text-xs border-2 transition disabled:opacity-50 ${
+                state.scenario === scenario
+                  ? 'border-purple-500 bg-purple-50'
+                  : 'border-gray-200 hover:border-purple-300'
+              }`}
+            >
+              <span className="font-medium text-gray-800 block">{SCENARIO_LABELS[scenario].label}</span>
+              <span className="text-gray-500">{SCENARIO_LABELS[scenario].description}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-4 p-3 bg-gray-50 rounded-lg">
+        <p className="text-sm font-medium text-gray-700 mb-2">Simulate a Paybill payment</p>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <input
+            type="number"
+            min={1}
+            value={c2bForm.amount}
+            onChange={(e) => setC2bForm({ ...c2bForm, amount: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            placeholder="Amount"
+          />
+          <input
+            type="tel"
+            value={c2bForm.phoneNumber}
+            onChange={(e) => setC2bForm({ ...c2bForm, phoneNumber: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            placeholder="2547XXXXXXXX"
+          />
+          <input
+            type="text"
+            value={c2bForm.accountReference}
+            onChange={(e) => setC2bForm({ ...c2bForm, accountReference: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            placeholder="Account (e.g. tab number)"
+          />
+          <button
+            onClick={async () => {
+              if (await post({ action: 'c2b', ...c2bForm, amount: Number(c2bForm.amount) })) {
+                setC2bForm({ ...c2bForm, accountReference: '' });
+              }
+            }}
+            disabled={saving || !c2bForm.amount}
+            className="flex items-center justify-center gap-2 px-3 py-2 bg-purple-600 text-white rounded-lg text-sm hover:bg-purple-700 disabled:opacity-50"
+          >
+            <Send size={14} />
+            Pay
+          </button>
+        </div>
+        {!state.c2bRegistered && (
+          <p className="text-xs text-gray-500 mt-2">C2B URLs are registered with the simulator on the first payment</p>
+        )}
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Recent simulator activity</p>
+        {state.transactions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">Nothing yet — start a payment from a customer tab</p>
+        ) : (
+          <div className="space-y-2">
+            {state.transactions.map((transaction) => (
+              <div key={transaction.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg text-xs">
+                <div>
+                  <p className="font-medium text-gray-800">
+                    {TYPE_LABELS[transaction.type]} • KES {transaction.amount.toLocaleString()}
+                    {transaction.phoneNumber && ` • ${transaction.phoneNumber}`}
+                  </p>
+                  <p className="font-mono text-gray-500 mt-1">{transaction.id}</p>
+                  <p className="text-gray-500 mt-1">
+                    {new Date(transaction.createdAt).toLocaleString()} • {SCENARIO_LABELS[transaction.scenario].label}
+                    {` • ${transaction.callbackCount} callback${transaction.callbackCount === 1 ? '' : 's'}`}
+                  </p>
+                </div>
+                {transaction.resultCode !== null && (
+                  <span className={`px-2 py-1 rounded-full font-medium ${
+                    String(transaction.resultCode) === '0'
+                      ? 'text-green-600 bg-green-100'
+                      : 'text-red-600 bg-red-100'
+                  }`}>
+                    {transaction.resultCode}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 /**
  * M-PESA Transaction Monitoring Dashboard Component
- * Provides transaction history, filtering, and real-time monitoring
+ * Provides transaction history, filtering, real-time monitoring, totals per
+ * till and the STK reconciler's recent runs
  */
 
 'use client';
@@ -21,6 +22,7 @@ import {
   Eye,
   AlertTriangle
 } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
 import ErrorReporting from './ErrorReporting';
 
 interface Transaction {
@@ -37,6 +39,8 @@ interface Transaction {
   failureReason?: string;
   resultCode?: number;
   environment: 'sandbox' | 'production';
+  tillId: string | null;
+  tillName: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -48,6 +52,33 @@ interface TransactionStats {
   pending: number;
   totalAmount: number;
   successRate: number;
+  byTill: TillTotal[];
+}
+
+interface TillTotal {
+  tillId: string | null;
+  name: string;
+  count: number;
+  amount: number;
+}
+
+interface ReconciliationItem {
+  id: string;
+  payment_id: string;
+  checkout_request_id: string;
+  outcome: 'success' | 'failed' | 'pending' | 'resolved' | 'skipped' | 'error';
+  result_code: string | null;
+  message: string | null;
+}
+
+interface ReconciliationRun {
+  id: string;
+  trigger: 'cron' | 'manual';
+  status: 'running' | 'completed' | 'failed';
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+  items: ReconciliationItem[];
 }
 
 interface TransactionMonitorProps {
@@ -62,7 +93,8 @@ export default function TransactionMonitor({ barId }: TransactionMonitorProps) {
     failed: 0,
     pending: 0,
     totalAmount: 0,
-    successRate: 0
+    successRate: 0,
+    byTill: []
   });
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -73,14 +105,33 @@ export default function TransactionMonitor({ barId }: TransactionMonitorProps) {
   const [filters, setFilters] = useState({
     status: 'all',
     environment: 'all',
+    till: 'all',
     dateRange: '7d',
     search: ''
   });
 
   const [showFilters, setShowFilters] = useState(false);
 
+  // STK reconciler runs (payments recovered after a lost callback)
+  const [reconciliationRuns, setReconciliationRuns] = useState<ReconciliationRun[]>([]);
+  const [reconciling, setReconciling] = useState(false);
+
+  const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+
+    return fetch(input, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${session.access_token}`
+      }
+    });
+  };
+
   useEffect(() => {
     loadTransactions();
+    loadReconciliationRuns();
     
     // Set up auto-refresh every 30 seconds
     const interval = setInterval(() => {
@@ -98,7 +149,7 @@ export default function TransactionMonitor({ barId }: TransactionMonitorProps) {
         ...filters
       });
 
-      const response = await fetch(`/api/payments/mpesa/transactions?${queryParams}`);
+      const response = await authorizedFetch(`/api/payments/mpesa/transactions?${queryParams}`);
       const data = await response.json();
 
       if (response.ok && data.success) {
@@ -114,10 +165,47 @@ export default function TransactionMonitor({ barId }: TransactionMonitorProps) {
     }
   };
 
+  const loadReconciliationRuns = async () => {
+    try {
+      const response = await authorizedFetch(`/api/payments/mpesa/reconciliation?barId=${barId}`);
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setReconciliationRuns(data.runs || []);
+      } else {
+        console.error('Failed to load reconciliation runs:', data.error);
+      }
+    } catch (error) {
+      console.error('Error loading reconciliation runs:', error);
+    }
+  };
+
+  const runReconciliation = async () => {
+    setReconciling(true);
+    try {
+      const response = await authorizedFetch('/api/payments/mpesa/reconciliation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barId })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Reconciliation failed');
+      }
+
+      await Promise.all([loadTransactions(), loadReconciliationRuns()]);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Reconciliation failed');
+    } finally {
+      setReconciling(false);
+    }
+  };
+
   const refreshTransactions = async () => {
     setRefreshing(true);
     try {
-      await loadTransactions();
+      await Promise.all([loadTransactions(), loadReconciliationRuns()]);
     } finally {
       setRefreshing(false);
     }
@@ -170,9 +258,23 @@ export default function TransactionMonitor({ barId }: TransactionMonitorProps) {
     return new Date(dateString).toLocaleString();
   };
 
+  const getOutcomeColor = (outcome: ReconciliationItem['outcome']) => {
+    switch (outcome) {
+      case 'success':
+        return 'text-green-600 bg-green-50';
+      case 'failed':
+      case 'error':
+        return 'text-red-600 bg-red-50';
+      case 'pending':
+        return 'text-yellow-600 bg-yellow-50';
+      default:
+        return 'text-gray-600 bg-gray-50';
+    }
+  };
+
   const exportTransactions = () => {
     const csv = [
-      ['ID', 'Phone', 'Amount', 'Status', 'Receipt', 'Date', 'Environment'].join(','),
+      ['ID', 'Phone', 'Amount', 'Status', 'Receipt', 'Date', 'Environment', 'Till'].join(','),
       ...transactions.map(t => [
         t.id,
         t.phoneNumber,
@@ -180,7 +282,8 @@ export default function TransactionMonitor({ barId }: TransactionMonitorProps) {
         t.status,
         t.mpesaReceiptNumber || '',
         t.createdAt,
-        t.environment
+        t.environment,
+        `"${t.tillName.replace(/"/g, '""')}"`
       ].join(','))
     ].join('\n');
 
@@ -193,9 +296,15 @@ export default function TransactionMonitor({ barId }: TransactionMonitorProps) {
     URL.revokeObjectURL(url);
   };
 
+  // Tills seen in the loaded transactions, as [filter value, name]
+  const tillOptions = Array.from(
+    new Map(transactions.map(t => [t.tillId || 'main', t.tillName] as [string, string])).entries()
+  );
+
   const filteredTransactions = transactions.filter(transaction => {
     if (filters.status !== 'all' && transaction.status !== filters.status) return false;
     if (filters.environment !== 'all' && transaction.environment !== filters.environment) return false;
+    if (filters.till !== 'all' && (transaction.tillId || 'main') !== filters.till) return false;
     if (filters.search && !transaction.phoneNumber.includes(filters.search) && 
         !transaction.mpesaReceiptNumber?.includes(filters.search)) return false;
     return true;
@@ -238,6 +347,89 @@ export default function TransactionMonitor({ barId }: TransactionMonitorProps) {
         </div>
       </div>
 
+      {/* Totals per till (only worth showing once a bar has more than one) */}
+      {stats.byTill.length > 1 && (
+        <div className="bg-white p-4 rounded-lg border">
+          <h3 className="font-bold text-gray-800 mb-3">Completed by Till</h3>
+          <div className="space-y-2">
+            {stats.byTill.map((till) => (
+              <div key={till.tillId || 'main'} className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-700">{till.name}</span>
+                <span className="text-gray-600">
+                  {till.count} payment{till.count === 1 ? '' : 's'} • <span className="font-bold text-gray-800">{formatAmount(till.amount)}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* STK Reconciliation */}
+      <div className="bg-white p-4 rounded-lg border">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="font-bold text-gray-800">Payment Reconciliation</h3>
+            <p className="text-sm text-gray-600">
+              Payments stuck in pending are checked with Safaricom every few minutes
+            </p>
+          </div>
+          <button
+            onClick={runReconciliation}
+            disabled={reconciling}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300"
+          >
+            <RefreshCw size={16} className={reconciling ? 'animate-spin' : ''} />
+            {reconciling ? 'Checking...' : 'Check Now'}
+          </button>
+        </div>
+
+        {reconciliationRuns.length === 0 ? (
+          <p className="text-sm text-gray-500">No reconciliation runs yet</p>
+        ) : (
+          <div className="space-y-2">
+            {reconciliationRuns.map((run) => {
+              const applied = run.items.filter(item => item.outcome === 'success' || item.outcome === 'failed');
+              return (
+                <div key={run.id} className="p-3 border border-gray-200 rounded-lg">
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2">
+                      {run.status === 'completed' ? (
+                        <CheckCircle size={16} className="text-green-600" />
+                      ) : run.status === 'failed' ? (
+                        <XCircle size={16} className="text-red-600" />
+                      ) : (
+                        <Clock size={16} className="text-yellow-600" />
+                      )}
+                      <span className="font-medium">{formatDate(run.started_at)}</span>
+                      <span className="px-2 py-1 bg-gray-100 text-gray-600 rounded-full text-xs">
+                        {run.trigger === 'cron' ? 'scheduled' : 'manual'}
+                      </span>
+                    </div>
+                    <span className="text-gray-600">
+                      {run.items.length} checked • {applied.length} updated
+                    </span>
+                  </div>
+                  {run.error && (
+                    <div className="text-xs text-red-600 mt-1">Error: {run.error}</div>
+                  )}
+                  {run.items.filter(item => item.outcome !== 'skipped').map((item) => (
+                    <div key={item.id} className="flex items-center justify-between mt-2 text-xs">
+                      <span className="font-mono text-gray-600">{item.checkout_request_id}</span>
+                      <span className="flex items-center gap-2">
+                        <span className="text-gray-500">{item.message}</span>
+                        <span className={`px-2 py-1 rounded-full font-medium ${getOutcomeColor(item.outcome)}`}>
+                          {item.outcome}
+                        </span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
       {/* Controls */}
       <div className="bg-white p-4 rounded-lg border">
         <div className="flex items-center justify-between mb-4">
@@ -308,6 +500,22 @@ export default function TransactionMonitor({ barId }: TransactionMonitorProps) {
               </select>
             </div>
 
+            {tillOptions.length > 1 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Till</label>
+                <select
+                  value={filters.till}
+                  onChange={(e) => setFilters({ ...filters, till: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                >
+                  <option value="all">All Tills</option>
+                  {tillOptions.map(([value, name]) => (
+                    <option key={value} value={value}>{name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Date Range</label>
               <select
@@ -367,6 +575,11 @@ export default function TransactionMonitor({ barId }: TransactionMonitorProps) {
                       <span className="px-2 py-1 bg-gray-100 text-gray-600 rounded-full text-xs">
                         {transaction.environment}
                       </span>
+                      {transaction.tillId && (
+                        <span className="px-2 py-1 bg-green-50 text-green-700 rounded-full text-xs">
+                          {transaction.tillName}
+                        </span>
+                      )}
                     </div>
                     <div className="text-sm text-gray-600">
                       {formatAmount(transaction.amount)} • {formatDate(transaction.createdAt)}
@@ -471,6 +684,10 @@ export default function TransactionMonitor({ barId }: TransactionMonitorProps) {
                     <label className="block text-sm font-medium text-gray-700">Environment</label>
                     <p>{selectedTransaction.environment}</p>
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Till</label>
+                    <p>{selectedTransaction.tillName}</p>
+                  </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Created</label>
                     <p>{formatDate(selectedTransaction.createdAt)}</p>
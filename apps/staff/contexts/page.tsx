@@ -2,17 +2,26 @@
 
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { supabase } from '@/lib/supabase';
+import { switchBar } from '@/lib/venues';
+import {
+  hasStaffPermission,
+  normalizeStaffRole,
+  type StaffPermission,
+  type StaffRole
+} from '@tabeza/shared/lib/services/staff-roles';
 
 interface Bar {
   id: string;
   name: string;
-  role: string;
+  role: StaffRole;
 }
 
 interface BarContextType {
   currentBarId: string | null;
   userBars: Bar[];
   setCurrentBar: (barId: string) => Promise<void>;
+  // Whether the user's role at the current bar allows this
+  can: (permission: StaffPermission) => boolean;
   isLoading: boolean;
 }
 
@@ -69,14 +78,14 @@ export function BarProvider({ children }: { children: ReactNode }) {
             .eq('id', barId)
             .single() as { data: any, error: any };
 
-          const fallbackBar = {
+          const fallbackBar: Bar = {
             id: barId,
             name: barData?.name || 'Default Bar',
             role: 'owner'
           };
 
           setUserBars([fallbackBar]);
-          await setCurrentBar(barId);
+          setCurrentBarId(barId);
           setIsLoading(false);
           return;
         }
@@ -95,15 +104,17 @@ export function BarProvider({ children }: { children: ReactNode }) {
       const bars = data.map((ub: any) => ({
         id: ub.bar_id,
         name: ub.bars?.name || 'Unknown Bar',
-        role: ub.role
+        role: normalizeStaffRole(ub.role)
       }));
 
       console.log('Loaded bars:', bars);
       setUserBars(bars);
 
-      // Set first bar as current by default
-      if (bars.length > 0) {
-        await setCurrentBar(bars[0].id);
+      // The session's bar is current; fall back to the first if it is no longer a membership
+      const sessionBarId = user.user_metadata?.bar_id;
+      const current = bars.find((bar: Bar) => bar.id === sessionBarId) || bars[0];
+      if (current) {
+        setCurrentBarId(current.id);
       }
 
     } catch (error) {
@@ -114,37 +125,23 @@ export function BarProvider({ children }: { children: ReactNode }) {
   }
 
   async function setCurrentBar(barId: string) {
-    try {
-      console.log('Setting current bar to:', barId);
-
-      // Validate UUID format
-      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-      if (!uuidRegex.test(barId)) {
-        throw new Error(`Invalid bar ID format: ${barId}`);
-      }
-
-      console.log('Calling set_bar_context RPC...');
-      const { error } = await (supabase as any).rpc('set_bar_context', {
-        p_bar_id: barId
-      }) as { data: any, error: any };
-
-      if (error) {
-        console.error('RPC error:', error);
-        throw error;
-      }
-
-      setCurrentBarId(barId);
-      localStorage.setItem('currentBarId', barId);
-      console.log('Bar context set successfully to:', barId);
+    if (barId === currentBarId) return;
 
+    try {
+      console.log('Switching current bar to:', barId);
+      // Reloads the app once the session carries the new bar
+      await switchBar(barId);
     } catch (error) {
-      console.error('Failed to set bar context:', error);
+      console.error('Failed to switch bar:', error);
       throw error;
     }
   }
 
+  const currentRole = userBars.find(bar => bar.id === currentBarId)?.role;
+  const can = (permission: StaffPermission) => !!currentRole && hasStaffPermission(currentRole, permission);
+
   return (
-    <BarContext.Provider value={{ currentBarId, userBars, setCurrentBar, isLoading }}>
+    <BarContext.Provider value={{ currentBarId, userBars, setCurrentBar, can, isLoading }}>
       {children}
     </BarContext.Provider>
   );
@@ -1,17 +1,16 @@
 import { supabase } from './supabase';
+import {
+  BUSINESS_HOURS_COLUMNS,
+  getBusinessHoursStatus,
+  isBarOpenAt,
+  shouldTabBeOverdue,
+  type BarBusinessHours
+} from '@tabeza/shared';
 
-// Type definitions - updated to match actual database schema
-interface Bar {
+// Type definitions - matches the bars columns saved from settings
+interface Bar extends BarBusinessHours {
   id: string;
   name: string;
-  business_hours_mode: 'simple' | 'advanced' | '24hours' | null;
-  business_hours_simple: {
-    openTime: string;
-    closeTime: string;
-    closeNextDay: boolean;
-  } | null;
-  business_hours_advanced: any | null;
-  business_24_hours: boolean | null;
 }
 
 interface Tab {
@@ -19,151 +18,74 @@ interface Tab {
   status: string;
   bar_id: string;
   opened_at: string;
-  bar: Bar & {
-    business_hours_advanced?: {
-      [key: string]: {
-        open: string;
-        close: string;
-        closeNextDay?: boolean;
-      };
-    };
-  };
+  bar: Bar;
 }
 
-interface Order {
-  total: string;
-}
+// Business hours check - delegates to the shared evaluator (simple, advanced per-day, 24h, exceptions)
+export const isWithinBusinessHours = (bar: BarBusinessHours, at: Date = new Date()): boolean => {
+  return isBarOpenAt(bar, at);
+};
 
-interface Payment {
-  amount: string;
-}
+const getTabBalance = async (tabId: string): Promise<number> => {
+  const { data, error } = await (supabase as any)
+    .rpc('get_tab_balance', {
+      p_tab_id: tabId
+    });
 
-// Business hours check for TypeScript - updated to work with actual database schema
-export const isWithinBusinessHours = (bar: Bar): boolean => {
-  try {
-    // Handle 24 hours mode
-    if (bar.business_24_hours === true) {
-      return true;
-    }
-    
-    // If no business hours configured, always open
-    if (!bar.business_hours_mode) {
-      return true;
-    }
-    
-    // Handle 24hours mode
-    if (bar.business_hours_mode === '24hours') {
-      return true;
-    }
-    
-    const now = new Date();
-    const currentHour = now.getHours();
-    const currentMinute = now.getMinutes();
-    const currentTotalMinutes = currentHour * 60 + currentMinute;
-    
-    // Get current day of week (0 = Sunday, 1 = Monday, etc.)
-    const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-    const currentDay = dayNames[now.getDay()];
-    
-    if (bar.business_hours_mode === 'simple') {
-      // Simple mode: same hours every day
-      if (!bar.business_hours_simple) {
-        return true; // Default to always open if no hours configured
-      }
-      
-      // Parse open time (format: "HH:MM")
-      const [openHour, openMinute] = bar.business_hours_simple.openTime.split(':').map(Number);
-      const openTotalMinutes = openHour * 60 + openMinute;
-      
-      // Parse close time
-      const [closeHour, closeMinute] = bar.business_hours_simple.closeTime.split(':').map(Number);
-      const closeTotalMinutes = closeHour * 60 + closeMinute;
-      
-      // Handle overnight hours (e.g., 20:00 to 04:00)
-      if (bar.business_hours_simple.closeNextDay || closeTotalMinutes < openTotalMinutes) {
-        // Venue is open overnight: current time >= open OR current time <= close
-        return currentTotalMinutes >= openTotalMinutes || currentTotalMinutes <= closeTotalMinutes;
-      } else {
-        // Normal hours: current time between open and close
-        return currentTotalMinutes >= openTotalMinutes && currentTotalMinutes <= closeTotalMinutes;
-      }
-      
-    } else if (bar.business_hours_mode === 'advanced') {
-      // Advanced mode: different hours per day
-      if (!bar.business_hours_advanced || !bar.business_hours_advanced[currentDay]) {
-        return true; // Default to always open if no hours configured for this day
-      }
-      
-      const dayHours = bar.business_hours_advanced[currentDay];
-      if (!dayHours.open || !dayHours.close) {
-        return true; // Default to open if missing open/close times
-      }
-      
-      // Parse open time
-      const [openHour, openMinute] = dayHours.open.split(':').map(Number);
-      const openTotalMinutes = openHour * 60 + openMinute;
-      
-      // Parse close time
-      const [closeHour, closeMinute] = dayHours.close.split(':').map(Number);
-      const closeTotalMinutes = closeHour * 60 + closeMinute;
-      
-      // Handle overnight hours
-      if (dayHours.closeNextDay || closeTotalMinutes < openTotalMinutes) {
-        // Venue is open overnight: current time >= open OR current time <= close
-        return currentTotalMinutes >= openTotalMinutes || currentTotalMinutes <= closeTotalMinutes;
-      } else {
-        // Normal hours: current time between open and close
-        return currentTotalMinutes >= openTotalMinutes && currentTotalMinutes <= closeTotalMinutes;
-      }
-    }
-    
-    // Default to open for any other mode
-    return true;
-  } catch (error) {
-    console.error('Error checking business hours:', error);
-    return true; // Default to open on error
+  if (error) {
+    console.error('Error getting tab balance:', error);
+    throw error;
   }
+
+  return Number(data) || 0;
 };
 
-// Check if new tab can be created using unified SQL function
+const markTabOverdue = async (tabId: string): Promise<void> => {
+  const { error } = await (supabase as any)
+    .from('tabs')
+    .update({
+      status: 'overdue',
+      moved_to_overdue_at: new Date().toISOString()
+    })
+    .eq('id', tabId)
+    .eq('status', 'open');
+
+  if (error) throw error;
+};
+
+// Check if new tab can be created
 export const canCreateNewTab = async (barId: string): Promise<{
   canCreate: boolean;
   message: string;
   openTime?: string;
+  nextOpenAt?: string;
 }> => {
   try {
-    // Use the unified SQL function to check business hours
-    const { data, error } = await (supabase as any)
-      .rpc('is_within_business_hours_at_time', {
-        p_bar_id: barId,
-        p_check_time: new Date().toISOString()
-      });
-    
-    if (error) throw error;
-    
-    const isOpen = data === true;
-    
-    // Get bar name for message
-    const { data: bar } = await supabase
+    const { data: bar, error } = await supabase
       .from('bars')
-      .select('name, business_hours_simple')
+      .select(`id, name, ${BUSINESS_HOURS_COLUMNS}`)
       .eq('id', barId)
       .single() as { data: Bar | null, error: any };
-    
+
+    if (error) throw error;
+
     const barName = bar?.name || 'Bar';
-    
-    if (!isOpen) {
-      const openTime = bar?.business_hours_simple?.openTime || 'tomorrow';
+    const status = bar ? getBusinessHoursStatus(bar) : null;
+
+    if (status && !status.isOpen) {
       return {
         canCreate: false,
-        message: `${barName} is currently closed`,
-        openTime
+        message: status.closure?.label
+          ? `${barName} is closed for ${status.closure.label}`
+          : `${barName} is currently closed`,
+        openTime: status.next?.openTime || 'tomorrow',
+        nextOpenAt: status.next?.start.toISOString()
       };
     }
-    
+
     return {
       canCreate: true,
-      message: `${barName} is open` 
+      message: `${barName} is open`
     };
   } catch (error) {
     console.error('Error checking if can create tab:', error);
@@ -174,45 +96,48 @@ export const canCreateNewTab = async (barId: string): Promise<{
   }
 };
 
-// Check and update tab overdue status using unified SQL function
+// Check and update tab overdue status
 export const checkTabOverdueStatus = async (tabId: string): Promise<{
   isOverdue: boolean;
   balance: number;
   message: string;
 }> => {
   try {
-    // Use the unified SQL function to check if tab should be overdue
-    const { data: shouldBeOverdue, error: overdueError } = await (supabase as any)
-      .rpc('should_tab_be_overdue_unified', {
-        p_tab_id: tabId
-      });
-    
-    if (overdueError) {
-      console.error('Error checking overdue status:', overdueError);
-      throw overdueError;
+    const { data: tab, error } = await supabase
+      .from('tabs')
+      .select(`
+        id, status, bar_id, opened_at,
+        bar:bars(id, name, ${BUSINESS_HOURS_COLUMNS})
+      `)
+      .eq('id', tabId)
+      .single() as { data: Tab | null, error: any };
+
+    if (error) throw error;
+
+    if (!tab) {
+      return {
+        isOverdue: false,
+        balance: 0,
+        message: 'Tab not found'
+      };
     }
 
-    // Get current balance using the SQL function
-    const { data: balance, error: balanceError } = await (supabase as any)
-      .rpc('get_tab_balance', {
-        p_tab_id: tabId
-      });
-    
-    if (balanceError) {
-      console.error('Error getting tab balance:', balanceError);
-      throw balanceError;
+    const currentBalance = await getTabBalance(tabId);
+    const shouldBeOverdue = shouldTabBeOverdue(tab.bar, tab, currentBalance);
+
+    if (shouldBeOverdue) {
+      await markTabOverdue(tabId);
     }
 
-    const currentBalance = typeof balance === 'number' ? balance : 0;
-    const isOverdue = shouldBeOverdue === true;
+    const isOverdue = shouldBeOverdue || tab.status === 'overdue';
 
     return {
       isOverdue,
       balance: currentBalance,
-      message: isOverdue 
+      message: isOverdue
         ? `Tab is overdue - Outstanding balance after business hours`
-        : currentBalance > 0 
-          ? `Balance: KSh ${currentBalance.toFixed(2)}` 
+        : currentBalance > 0
+          ? `Balance: KSh ${currentBalance.toFixed(2)}`
           : 'Tab is settled'
     };
   } catch (error) {
@@ -228,18 +153,38 @@ export const checkTabOverdueStatus = async (tabId: string): Promise<{
 // Check and update multiple overdue tabs
 export const checkAndUpdateOverdueTabs = async (tabsData: any[]): Promise<void> => {
   try {
-    // Use the unified SQL function to update all overdue tabs at once
-    const { data: result, error } = await (supabase as any)
-      .rpc('update_overdue_tabs_unified');
-    
-    if (error) {
-      console.error('Error updating overdue tabs:', error);
-      throw error;
+    const openTabs = tabsData.filter(tab => tab.status === 'open');
+    if (openTabs.length === 0) return;
+
+    const barIds = Array.from(new Set(openTabs.map(tab => tab.bar_id)));
+    const { data: bars, error } = await supabase
+      .from('bars')
+      .select(`id, name, ${BUSINESS_HOURS_COLUMNS}`)
+      .in('id', barIds) as { data: Bar[] | null, error: any };
+
+    if (error) throw error;
+
+    const barsById = new Map((bars || []).map(bar => [bar.id, bar]));
+    const now = new Date();
+    let tabsMarkedOverdue = 0;
+
+    for (const tab of openTabs) {
+      const bar = barsById.get(tab.bar_id);
+      if (!bar) continue;
+
+      // Skip the balance lookup while the tab's opening period is still running
+      if (!shouldTabBeOverdue(bar, tab, Number.POSITIVE_INFINITY, now)) continue;
+
+      const balance = await getTabBalance(tab.id);
+      if (shouldTabBeOverdue(bar, tab, balance, now)) {
+        await markTabOverdue(tab.id);
+        tab.status = 'overdue';
+        tabsMarkedOverdue++;
+      }
     }
 
-    if (result && Array.isArray(result) && result.length > 0) {
-      const { tabs_marked_overdue, tabs_kept_open } = result[0];
-      console.log(`✅ Overdue update complete: ${tabs_marked_overdue} marked overdue, ${tabs_kept_open} kept open`);
+    if (tabsMarkedOverdue > 0) {
+      console.log(`✅ Overdue update complete: ${tabsMarkedOverdue} marked overdue, ${openTabs.length - tabsMarkedOverdue} kept open`);
     }
   } catch (error) {
     console.error('Error checking overdue tabs:', error);
@@ -0,0 +1,24 @@
+/**
+ * Bearer check for routes only the scheduler calls.
+ * Fails closed: while CRON_SECRET is unset nobody may call them.
+ * Returns the error response to send back, or null when the caller may go ahead.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+
+export const denyWithoutCronSecret = (req: Request): NextResponse | null => {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('[CRON] CRON_SECRET is not set; refusing scheduler call to', new URL(req.url).pathname);
+    return NextResponse.json({ error: 'Scheduler is not configured' }, { status: 503 });
+  }
+
+  const expected = Buffer.from(`Bearer ${cronSecret}`);
+  const given = Buffer.from(req.headers.get('authorization') || '');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return null;
+};
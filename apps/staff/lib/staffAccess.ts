@@ -0,0 +1,31 @@
+/**
+ * Permission check for API routes that do not otherwise use the service role.
+ * Returns the error response to send back, or null when the caller may go ahead.
+ */
+
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { TabAccessError } from '@tabeza/shared/lib/services/tab-details';
+import { requireStaffPermission, StaffAccessError, type StaffPermission } from '@tabeza/shared/lib/services/staff-roles';
+
+// Memberships are read with the service role; the caller is identified by their bearer token
+const accessClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SECRET_KEY!
+);
+
+export const denyWithoutPermission = async (
+  req: Request,
+  barId: string,
+  permission: StaffPermission
+): Promise<NextResponse | null> => {
+  try {
+    await requireStaffPermission(accessClient, req.headers, barId, permission);
+    return null;
+  } catch (err) {
+    if (err instanceof StaffAccessError || err instanceof TabAccessError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    throw err;
+  }
+};
@@ -0,0 +1,101 @@
+'use client';
+
+import { supabase } from './supabase';
+import type { StaffPushPreferences } from '@tabeza/shared/lib/services/staff-push';
+
+/**
+ * Push alerts for this staff device: new orders, messages and payments
+ * reach the tablet through the service worker even with the screen asleep.
+ */
+
+// VAPID public keys are distributed base64url-encoded
+const urlBase64ToUint8Array = (value: string) => {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+const callPushApi = async (method: string, body?: Record<string, any>, query = '') => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+
+  const response = await fetch(`/api/push/subscription${query}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || 'Push request failed');
+  return result;
+};
+
+export const isStaffPushSupported = (): boolean =>
+  typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+const getBrowserSubscription = async (): Promise<PushSubscription | null> => {
+  if (!isStaffPushSupported()) return null;
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+};
+
+export const isStaffPushEnabled = async (): Promise<boolean> =>
+  Notification.permission === 'granted' && (await getBrowserSubscription()) !== null;
+
+/**
+ * Ask for permission, subscribe this browser and register it for the bar
+ */
+export const enableStaffPush = async (barId: string): Promise<void> => {
+  if (!isStaffPushSupported()) {
+    throw new Error('This browser cannot receive push notifications');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site. Allow them in the browser settings.');
+  }
+
+  const vapidPublicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  if (!vapidPublicKey) throw new Error('Push notifications are not configured');
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription() ||
+    await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(vapidPublicKey)
+    });
+
+  await callPushApi('POST', { barId, subscription: subscription.toJSON() });
+};
+
+export const disableStaffPush = async (barId: string): Promise<void> => {
+  const subscription = await getBrowserSubscription();
+  if (!subscription) return;
+
+  await callPushApi('DELETE', { barId, endpoint: subscription.endpoint });
+  await subscription.unsubscribe();
+};
+
+/**
+ * Point an existing subscription at another bar; used when switching bars
+ */
+export const moveStaffPush = async (barId: string): Promise<void> => {
+  const subscription = await getBrowserSubscription();
+  if (!subscription) return;
+  await callPushApi('POST', { barId, subscription: subscription.toJSON() });
+};
+
+export const loadStaffPushPreferences = async (barId: string): Promise<StaffPushPreferences> => {
+  const result = await callPushApi('GET', undefined, `?barId=${encodeURIComponent(barId)}`);
+  return result.preferences;
+};
+
+export const saveStaffPushPreferences = async (
+  barId: string,
+  preferences: Partial<StaffPushPreferences>
+): Promise<StaffPushPreferences> => {
+  const result = await callPushApi('PATCH', { barId, preferences });
+  return result.preferences;
+};
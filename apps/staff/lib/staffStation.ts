@@ -0,0 +1,20 @@
+/**
+ * The station this staff device works at (e.g. "Rooftop"), kept per device.
+ * M-Pesa prompts sent from the device are routed to the till for that station.
+ */
+
+const STAFF_STATION_KEY = 'tabeza_staff_station';
+
+export const getStaffStation = (): string => {
+  if (typeof window === 'undefined') return '';
+  return localStorage.getItem(STAFF_STATION_KEY) || '';
+};
+
+export const setStaffStation = (station: string): void => {
+  const trimmed = station.trim();
+  if (trimmed) {
+    localStorage.setItem(STAFF_STATION_KEY, trimmed);
+  } else {
+    localStorage.removeItem(STAFF_STATION_KEY);
+  }
+};
@@ -3,11 +3,17 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { supabase } from './supabase';
+import { loadStaffRole } from './useStaffRole';
+import { loadStaffVenues, switchBar } from './venues';
+import { hasStaffPermission, type StaffPermission, type StaffRole } from '@tabeza/shared/lib/services/staff-roles';
+import type { StaffVenue } from '@tabeza/shared/lib/services/staff-venues';
 
 export function useAuth() {
   const router = useRouter();
   const [user, setUser] = useState<any>(null);
   const [bar, setBar] = useState<any>(null);
+  const [role, setRole] = useState<StaffRole | null>(null);
+  const [bars, setBars] = useState<StaffVenue[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -74,13 +80,20 @@ export function useAuth() {
       } catch (error) {
         console.error('❌ Exception loading bar data:', error);
       }
+
+      setRole(await loadStaffRole(user.id, barId));
     }
+
+    setBars(await loadStaffVenues(user.id));
   };
 
+  // Whether the user's role at the current bar allows this
+  const can = (permission: StaffPermission) => !!role && hasStaffPermission(role, permission);
+
   const signOut = async () => {
     await supabase.auth.signOut();
     router.push('/login');
   };
 
-  return { user, bar, loading, signOut };
+  return { user, bar, bars, role, can, loading, switchBar, signOut };
 }
\ No newline at end of file
@@ -0,0 +1,64 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from './supabase';
+import {
+  hasStaffPermission,
+  normalizeStaffRole,
+  type StaffPermission,
+  type StaffRole
+} from '@tabeza/shared/lib/services/staff-roles';
+
+/**
+ * The signed-in user's role at a bar, read from their user_bars membership.
+ * Screens use it to hide what the role cannot do; the API checks again.
+ */
+export const loadStaffRole = async (userId: string, barId: string): Promise<StaffRole | null> => {
+  const { data, error } = await (supabase as any)
+    .from('user_bars')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('bar_id', barId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Error loading staff role:', error);
+    return null;
+  }
+  return data ? normalizeStaffRole(data.role) : null;
+};
+
+export function useStaffRole(barId: string | null | undefined) {
+  const [role, setRole] = useState<StaffRole | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      if (!barId) {
+        setRole(null);
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      const { data: { session } } = await supabase.auth.getSession();
+      const loaded = session ? await loadStaffRole(session.user.id, barId) : null;
+      if (!cancelled) {
+        setRole(loaded);
+        setLoading(false);
+      }
+    };
+
+    load();
+    return () => { cancelled = true; };
+  }, [barId]);
+
+  const can = useCallback(
+    (permission: StaffPermission) => !!role && hasStaffPermission(role, permission),
+    [role]
+  );
+
+  return { role, can, loading };
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { supabase } from './supabase';
+import { moveStaffPush } from './staffPush';
+import { normalizeStaffRole } from '@tabeza/shared/lib/services/staff-roles';
+import type { StaffVenue } from '@tabeza/shared/lib/services/staff-venues';
+
+/**
+ * Every bar the signed-in user has a membership at, for the bar switcher
+ */
+export const loadStaffVenues = async (userId: string): Promise<StaffVenue[]> => {
+  const { data, error } = await (supabase as any)
+    .from('user_bars')
+    .select('bar_id, role, bars!inner(id, name)')
+    .eq('user_id', userId) as { data: any[] | null, error: any };
+
+  if (error) {
+    console.error('❌ Error loading venues:', error);
+    return [];
+  }
+
+  return (data || [])
+    .map(row => ({
+      barId: row.bar_id,
+      name: row.bars?.name || 'Unnamed bar',
+      role: normalizeStaffRole(row.role)
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Move the session to another bar, then reload so every page,
+ * query and realtime channel starts over scoped to it
+ */
+export const switchBar = async (barId: string): Promise<void> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+
+  const response = await fetch('/api/venues', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`
+    },
+    body: JSON.stringify({ barId })
+  });
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || 'Failed to switch bar');
+
+  // This device's push alerts follow it to the new bar
+  await moveStaffPush(barId).catch(err => console.error('❌ Error moving push alerts:', err));
+
+  await supabase.auth.refreshSession();
+  window.location.assign('/');
+};
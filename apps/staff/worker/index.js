@@ -0,0 +1,70 @@
+// Custom service worker code; next-pwa bundles this into the generated sw.js
+
+// Staff alerts pushed by the staff push worker (/api/push/send)
+self.addEventListener('push', (event) => {
+  let notification = { title: 'Tabeza Staff' };
+  if (event.data) {
+    try {
+      notification = event.data.json();
+    } catch (error) {
+      notification = { title: 'Tabeza Staff', body: event.data.text() };
+    }
+  }
+
+  const data = notification.data || {};
+
+  event.waitUntil(
+    self.registration.showNotification(notification.title || 'Tabeza Staff', {
+      body: notification.body,
+      icon: notification.icon || '/logo.svg',
+      badge: notification.badge,
+      tag: notification.tag,
+      renotify: Boolean(notification.tag),
+      // New orders and messages stay on screen until someone deals with them
+      requireInteraction: Boolean(data.requireInteraction),
+      silent: Boolean(data.silent),
+      vibrate: data.vibrate || [],
+      data,
+      actions: data.actions || []
+    })
+  );
+});
+
+function openApp(url) {
+  const target = new URL(url || '/', self.location.origin).href;
+  return self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+    const open = clients.find((client) => client.url.startsWith(self.location.origin));
+    if (open) {
+      open.navigate(target);
+      return open.focus();
+    }
+    return self.clients.openWindow(target);
+  });
+}
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const data = event.notification.data || {};
+
+  // Tapped the body: open the tab it is about
+  if (!event.action) {
+    event.waitUntil(openApp(data.url));
+    return;
+  }
+
+  // Accept / Acknowledge: act through the API; open the tab if that fails
+  event.waitUntil(
+    fetch('/api/push/action', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: data.actionToken, action: event.action })
+    })
+      .then((response) => {
+        if (!response.ok) throw new Error(`Action failed with ${response.status}`);
+      })
+      .catch((error) => {
+        console.error('Notification action failed:', error);
+        return openApp(data.url);
+      })
+  );
+});
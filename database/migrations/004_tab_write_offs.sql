@@ -0,0 +1,62 @@
+-- Record write-offs made through close_tab so the daily Z-report can total them
+CREATE TABLE IF NOT EXISTS tab_write_offs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tab_id UUID NOT NULL REFERENCES tabs(id) ON DELETE CASCADE,
+  bar_id UUID NOT NULL REFERENCES bars(id) ON DELETE CASCADE,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tab_write_offs_bar_created ON tab_write_offs(bar_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tab_write_offs_tab_id ON tab_write_offs(tab_id);
+
+ALTER TABLE tab_write_offs ENABLE ROW LEVEL SECURITY;
+
+-- Staff can read write-offs for bars they belong to
+DROP POLICY IF EXISTS "Staff can view bar write-offs" ON tab_write_offs;
+CREATE POLICY "Staff can view bar write-offs" ON tab_write_offs
+  FOR SELECT USING (
+    bar_id IN (SELECT bar_id FROM user_bars WHERE user_id = auth.uid())
+  );
+
+-- close_tab: close a tab, recording any written-off balance in tab_write_offs
+CREATE OR REPLACE FUNCTION close_tab(
+  p_tab_id UUID,
+  p_write_off_amount NUMERIC DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_tab tabs%ROWTYPE;
+  v_balance NUMERIC;
+BEGIN
+  SELECT * INTO v_tab FROM tabs WHERE id = p_tab_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tab not found: %', p_tab_id;
+  END IF;
+
+  IF v_tab.status = 'closed' THEN
+    RAISE EXCEPTION 'Tab % is already closed', v_tab.tab_number;
+  END IF;
+
+  SELECT COALESCE(balance, 0) INTO v_balance FROM tab_balances WHERE tab_id = p_tab_id;
+
+  IF COALESCE(p_write_off_amount, 0) > 0 THEN
+    INSERT INTO tab_write_offs (tab_id, bar_id, amount, reason)
+    VALUES (p_tab_id, v_tab.bar_id, p_write_off_amount, 'Written off on close');
+  END IF;
+
+  UPDATE tabs
+  SET status = 'closed',
+      closed_at = NOW()
+  WHERE id = p_tab_id;
+
+  RETURN jsonb_build_object(
+    'tab_id', p_tab_id,
+    'tab_number', v_tab.tab_number,
+    'balance', v_balance,
+    'write_off_amount', COALESCE(p_write_off_amount, 0)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,216 @@
+-- Outgoing webhooks: bars register endpoints, triggers queue events, the
+-- webhook worker (/api/webhooks/send) signs and delivers them with retries.
+
+-- Registered endpoints, one secret per endpoint for HMAC signing
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  bar_id UUID NOT NULL REFERENCES bars(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL DEFAULT '{}',
+  description TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT webhook_endpoints_events_check CHECK (
+    events <@ ARRAY['tab.opened', 'order.confirmed', 'order.served', 'payment.success', 'payment.failed', 'tab.closed']::TEXT[]
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_bar_id ON webhook_endpoints(bar_id);
+
+-- Outbox of events waiting to be fanned out to endpoints
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  bar_id UUID NOT NULL REFERENCES bars(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  dispatched_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_pending ON webhook_events(created_at) WHERE dispatched_at IS NULL;
+
+-- Delivery log: one row per event per endpoint
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES webhook_events(id) ON DELETE CASCADE,
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  bar_id UUID NOT NULL REFERENCES bars(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  duration_ms INTEGER,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT webhook_deliveries_status_check CHECK (
+    status = ANY (ARRAY['pending', 'retrying', 'sending', 'delivered', 'failed'])
+  ),
+  CONSTRAINT webhook_deliveries_event_endpoint_key UNIQUE (event_id, endpoint_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status IN ('pending', 'retrying', 'sending');
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_bar_created ON webhook_deliveries(bar_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_webhook_endpoints_updated_at ON webhook_endpoints;
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_webhook_deliveries_updated_at ON webhook_deliveries;
+CREATE TRIGGER update_webhook_deliveries_updated_at
+  BEFORE UPDATE ON webhook_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Staff can see their bar's endpoints and delivery log; writes go through the service role
+DROP POLICY IF EXISTS "Staff can view bar webhook endpoints" ON webhook_endpoints;
+CREATE POLICY "Staff can view bar webhook endpoints" ON webhook_endpoints
+  FOR SELECT USING (
+    bar_id IN (SELECT bar_id FROM user_bars WHERE user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Staff can view bar webhook deliveries" ON webhook_deliveries;
+CREATE POLICY "Staff can view bar webhook deliveries" ON webhook_deliveries
+  FOR SELECT USING (
+    bar_id IN (SELECT bar_id FROM user_bars WHERE user_id = auth.uid())
+  );
+
+-- Queue an event only when an enabled endpoint of the bar subscribes to it
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(
+  p_bar_id UUID,
+  p_event_type TEXT,
+  p_payload JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM webhook_endpoints
+    WHERE bar_id = p_bar_id
+      AND enabled = true
+      AND p_event_type = ANY (events)
+  ) THEN
+    INSERT INTO webhook_events (bar_id, event_type, payload)
+    VALUES (p_bar_id, p_event_type, p_payload);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- tab.opened / tab.closed
+CREATE OR REPLACE FUNCTION queue_tab_webhook_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_event_type TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_event_type := 'tab.opened';
+  ELSIF NEW.status = 'closed' AND OLD.status IS DISTINCT FROM 'closed' THEN
+    v_event_type := 'tab.closed';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  PERFORM enqueue_webhook_event(NEW.bar_id, v_event_type, jsonb_build_object(
+    'tab_id', NEW.id,
+    'tab_number', NEW.tab_number,
+    'status', NEW.status,
+    'opened_at', NEW.opened_at,
+    'closed_at', NEW.closed_at,
+    'closed_by', NEW.closed_by
+  ));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_tab_webhook_events ON tabs;
+CREATE TRIGGER queue_tab_webhook_events
+  AFTER INSERT OR UPDATE OF status ON tabs
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_tab_webhook_events();
+
+-- order.confirmed / order.served
+CREATE OR REPLACE FUNCTION queue_order_webhook_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_tab tabs%ROWTYPE;
+BEGIN
+  IF NEW.status NOT IN ('confirmed', 'served')
+     OR (TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_tab FROM tabs WHERE id = NEW.tab_id;
+
+  PERFORM enqueue_webhook_event(v_tab.bar_id, 'order.' || NEW.status, jsonb_build_object(
+    'order_id', NEW.id,
+    'order_number', NEW.order_number,
+    'tab_id', NEW.tab_id,
+    'tab_number', v_tab.tab_number,
+    'status', NEW.status,
+    'total', NEW.total,
+    'items', NEW.items,
+    'initiated_by', NEW.initiated_by,
+    'confirmed_at', NEW.confirmed_at
+  ));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_order_webhook_events ON tab_orders;
+CREATE TRIGGER queue_order_webhook_events
+  AFTER INSERT OR UPDATE OF status ON tab_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_order_webhook_events();
+
+-- payment.success / payment.failed
+CREATE OR REPLACE FUNCTION queue_payment_webhook_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_tab tabs%ROWTYPE;
+BEGIN
+  IF NEW.status NOT IN ('success', 'failed')
+     OR (TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_tab FROM tabs WHERE id = NEW.tab_id;
+
+  PERFORM enqueue_webhook_event(v_tab.bar_id, 'payment.' || NEW.status, jsonb_build_object(
+    'payment_id', NEW.id,
+    'tab_id', NEW.tab_id,
+    'tab_number', v_tab.tab_number,
+    'amount', NEW.amount,
+    'currency', 'KES',
+    'method', NEW.method,
+    'status', NEW.status,
+    'reference', NEW.reference,
+    'mpesa_receipt_number', COALESCE(
+      NEW.metadata->>'mpesa_receipt_number',
+      jsonb_path_query_first(
+        NEW.metadata,
+        '$.Body.stkCallback.CallbackMetadata.Item[*] ? (@.Name == "MpesaReceiptNumber").Value'
+      ) #>> '{}'
+    )
+  ));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_payment_webhook_events ON tab_payments;
+CREATE TRIGGER queue_payment_webhook_events
+  AFTER INSERT OR UPDATE OF status ON tab_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_payment_webhook_events();
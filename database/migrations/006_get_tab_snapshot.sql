@@ -0,0 +1,32 @@
+-- get_tab_snapshot: a tab with its bar, orders, payments, messages and balance,
+-- built in a single statement so every part reflects the same point in time.
+-- Authorization is enforced by the API (/api/tabs/[id]) before this is called.
+CREATE OR REPLACE FUNCTION get_tab_snapshot(p_tab_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'tab', to_jsonb(t) - 'owner_identifier' - 'device_identifier',
+    'bar', jsonb_build_object('id', b.id, 'name', b.name, 'location', b.location),
+    'orders', COALESCE((
+      SELECT jsonb_agg(to_jsonb(o) ORDER BY o.created_at DESC)
+      FROM tab_orders o
+      WHERE o.tab_id = t.id
+    ), '[]'::jsonb),
+    'payments', COALESCE((
+      SELECT jsonb_agg(to_jsonb(p) ORDER BY p.created_at DESC)
+      FROM tab_payments p
+      WHERE p.tab_id = t.id
+    ), '[]'::jsonb),
+    'messages', COALESCE((
+      SELECT jsonb_agg(to_jsonb(m) ORDER BY m.created_at DESC)
+      FROM tab_telegram_messages m
+      WHERE m.tab_id = t.id
+    ), '[]'::jsonb),
+    'balance', get_tab_balance(t.id),
+    'snapshot_at', NOW()
+  )
+  FROM tabs t
+  JOIN bars b ON b.id = t.bar_id
+  WHERE t.id = p_tab_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_tab_snapshot(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,122 @@
+-- Order lifecycle: an enforced transition table for tab_orders.status and an
+-- audit trail of who moved each order, when and why.
+--
+--   pending   -> confirmed | cancelled
+--   confirmed -> served | cancelled
+--   served, cancelled are final
+
+ALTER TABLE tab_orders ADD COLUMN IF NOT EXISTS served_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE tab_orders ADD COLUMN IF NOT EXISTS cancelled_by TEXT;
+ALTER TABLE tab_orders ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+
+CREATE TABLE IF NOT EXISTS tab_order_status_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES tab_orders(id) ON DELETE CASCADE,
+  tab_id UUID NOT NULL REFERENCES tabs(id) ON DELETE CASCADE,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  initiated_by TEXT NOT NULL CHECK (initiated_by IN ('customer', 'staff')),
+  -- Staff user ID or customer device ID
+  actor_id TEXT,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tab_order_status_events_order ON tab_order_status_events(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_tab_order_status_events_tab ON tab_order_status_events(tab_id, created_at DESC);
+
+ALTER TABLE tab_order_status_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view bar order events" ON tab_order_status_events;
+CREATE POLICY "Staff can view bar order events" ON tab_order_status_events
+  FOR SELECT USING (
+    tab_id IN (
+      SELECT t.id FROM tabs t
+      WHERE t.bar_id IN (SELECT bar_id FROM user_bars WHERE user_id = auth.uid())
+    )
+  );
+
+-- Listeners subscribe to this table for order status changes
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE tab_order_status_events;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+  WHEN undefined_object THEN NULL;
+END $$;
+
+CREATE OR REPLACE FUNCTION order_status_transition_allowed(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT (p_from, p_to) IN (
+    ('pending', 'confirmed'),
+    ('pending', 'cancelled'),
+    ('confirmed', 'served'),
+    ('confirmed', 'cancelled')
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Reject illegal moves however the update arrives
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status
+     AND NOT order_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Illegal order transition: % -> %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_order_status_transition ON tab_orders;
+CREATE TRIGGER enforce_order_status_transition
+  BEFORE UPDATE OF status ON tab_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_status_transition();
+
+-- transition_order_status: move an order and record the event in one transaction
+CREATE OR REPLACE FUNCTION transition_order_status(
+  p_order_id UUID,
+  p_to_status TEXT,
+  p_initiated_by TEXT,
+  p_actor_id TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_order tab_orders%ROWTYPE;
+  v_from_status TEXT;
+BEGIN
+  SELECT * INTO v_order FROM tab_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found: %', p_order_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT order_status_transition_allowed(v_order.status, p_to_status) THEN
+    RAISE EXCEPTION 'Illegal order transition: % -> %', v_order.status, p_to_status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_from_status := v_order.status;
+
+  UPDATE tab_orders
+  SET status = p_to_status,
+      confirmed_at = CASE WHEN p_to_status = 'confirmed' THEN NOW() ELSE confirmed_at END,
+      served_at = CASE WHEN p_to_status = 'served' THEN NOW() ELSE served_at END,
+      cancelled_at = CASE WHEN p_to_status = 'cancelled' THEN NOW() ELSE cancelled_at END,
+      cancelled_by = CASE WHEN p_to_status = 'cancelled' THEN p_initiated_by ELSE cancelled_by END,
+      rejection_reason = CASE WHEN p_to_status = 'cancelled' THEN p_reason ELSE rejection_reason END
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  INSERT INTO tab_order_status_events (order_id, tab_id, from_status, to_status, initiated_by, actor_id, reason)
+  VALUES (p_order_id, v_order.tab_id, v_from_status, p_to_status, p_initiated_by, p_actor_id, p_reason);
+
+  RETURN to_jsonb(v_order);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION transition_order_status(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
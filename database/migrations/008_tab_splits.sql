@@ -0,0 +1,131 @@
+-- Split bill: divide a tab's balance into shares, each paid by its own payer.
+-- A tab has at most one active split. Payments link to a share through
+-- tab_payments.split_share_id and a trigger keeps each share's progress current.
+
+CREATE TABLE IF NOT EXISTS tab_splits (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tab_id UUID NOT NULL REFERENCES tabs(id) ON DELETE CASCADE,
+  mode TEXT NOT NULL CHECK (mode IN ('equal', 'items', 'custom')),
+  total_amount NUMERIC(10, 2) NOT NULL CHECK (total_amount > 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'cancelled')),
+  created_by TEXT NOT NULL CHECK (created_by IN ('customer', 'staff')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tab_splits_one_active
+  ON tab_splits(tab_id) WHERE status = 'active';
+
+CREATE TABLE IF NOT EXISTS tab_split_shares (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  split_id UUID NOT NULL REFERENCES tab_splits(id) ON DELETE CASCADE,
+  tab_id UUID NOT NULL REFERENCES tabs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  label TEXT NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  paid_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  phone_number TEXT,
+  -- By-item splits: [{ "order_id": ..., "item_index": ... }]
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'unpaid' CHECK (status IN ('unpaid', 'pending', 'paid')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (split_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tab_split_shares_tab ON tab_split_shares(tab_id);
+
+ALTER TABLE tab_payments ADD COLUMN IF NOT EXISTS split_share_id UUID REFERENCES tab_split_shares(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_tab_payments_split_share ON tab_payments(split_share_id) WHERE split_share_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_tab_splits_updated_at ON tab_splits;
+CREATE TRIGGER update_tab_splits_updated_at
+  BEFORE UPDATE ON tab_splits
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_tab_split_shares_updated_at ON tab_split_shares;
+CREATE TRIGGER update_tab_split_shares_updated_at
+  BEFORE UPDATE ON tab_split_shares
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE tab_splits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tab_split_shares ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view bar splits" ON tab_splits;
+CREATE POLICY "Staff can view bar splits" ON tab_splits
+  FOR SELECT USING (
+    tab_id IN (
+      SELECT t.id FROM tabs t
+      WHERE t.bar_id IN (SELECT bar_id FROM user_bars WHERE user_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Staff can view bar split shares" ON tab_split_shares;
+CREATE POLICY "Staff can view bar split shares" ON tab_split_shares
+  FOR SELECT USING (
+    tab_id IN (
+      SELECT t.id FROM tabs t
+      WHERE t.bar_id IN (SELECT bar_id FROM user_bars WHERE user_id = auth.uid())
+    )
+  );
+
+-- Both the customer and staff views follow share progress in realtime
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE tab_split_shares;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+  WHEN undefined_object THEN NULL;
+END $$;
+
+-- Recompute a share's paid amount and status whenever one of its payments changes
+CREATE OR REPLACE FUNCTION sync_split_share_progress()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_share tab_split_shares%ROWTYPE;
+  v_paid NUMERIC;
+  v_has_pending BOOLEAN;
+BEGIN
+  IF NEW.split_share_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_share FROM tab_split_shares WHERE id = NEW.split_share_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE status = 'success'), 0),
+    COALESCE(BOOL_OR(status = 'pending'), false)
+  INTO v_paid, v_has_pending
+  FROM tab_payments
+  WHERE split_share_id = v_share.id;
+
+  UPDATE tab_split_shares
+  SET paid_amount = v_paid,
+      status = CASE
+        WHEN v_paid >= amount THEN 'paid'
+        WHEN v_has_pending THEN 'pending'
+        ELSE 'unpaid'
+      END
+  WHERE id = v_share.id;
+
+  -- Every share settled: the split is done
+  IF NOT EXISTS (
+    SELECT 1 FROM tab_split_shares WHERE split_id = v_share.split_id AND status <> 'paid'
+  ) THEN
+    UPDATE tab_splits SET status = 'completed' WHERE id = v_share.split_id AND status = 'active';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_split_share_progress ON tab_payments;
+CREATE TRIGGER sync_split_share_progress
+  AFTER INSERT OR UPDATE OF status ON tab_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_split_share_progress();
@@ -0,0 +1,14 @@
+-- Dated exceptions to a bar's regular business hours: holiday closures and
+-- special opening hours. Stored as a JSON array evaluated by the shared
+-- business-hours service, e.g.
+--   [{"date": "2026-12-25", "type": "closed", "label": "Christmas"},
+--    {"date": "2026-12-31", "type": "special", "openTime": "18:00", "closeTime": "04:00", "closeNextDay": true}]
+ALTER TABLE bars
+  ADD COLUMN IF NOT EXISTS business_hours_exceptions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE bars
+  DROP CONSTRAINT IF EXISTS bars_business_hours_exceptions_is_array;
+
+ALTER TABLE bars
+  ADD CONSTRAINT bars_business_hours_exceptions_is_array
+  CHECK (jsonb_typeof(business_hours_exceptions) = 'array');
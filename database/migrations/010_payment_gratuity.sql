@@ -0,0 +1,17 @@
+-- Tips and service charge on payments.
+-- tab_payments.amount stays the amount applied to the tab balance; gratuity is
+-- recorded alongside it so tab_balances and get_tab_balance never count a tip
+-- as an overpayment.
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS tips_enabled BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS service_charge_percent NUMERIC(5, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE bars DROP CONSTRAINT IF EXISTS bars_service_charge_percent_range;
+ALTER TABLE bars ADD CONSTRAINT bars_service_charge_percent_range
+  CHECK (service_charge_percent >= 0 AND service_charge_percent <= 20);
+
+ALTER TABLE tab_payments ADD COLUMN IF NOT EXISTS tip_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE tab_payments ADD COLUMN IF NOT EXISTS service_charge_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE tab_payments DROP CONSTRAINT IF EXISTS tab_payments_gratuity_non_negative;
+ALTER TABLE tab_payments ADD CONSTRAINT tab_payments_gratuity_non_negative
+  CHECK (tip_amount >= 0 AND service_charge_amount >= 0);
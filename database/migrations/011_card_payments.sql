@@ -0,0 +1,20 @@
+-- Card payments through a per-bar hosted-checkout provider.
+-- Credentials follow the M-Pesa storage contract: encrypted bytea, never
+-- returned to clients. The provider's checkout session id is stored in
+-- tab_payments.reference with method = 'card'.
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS card_enabled BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS card_provider TEXT;
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS card_environment TEXT NOT NULL DEFAULT 'sandbox';
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS card_merchant_id TEXT;
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS card_api_key_encrypted BYTEA;
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS card_webhook_secret_encrypted BYTEA;
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS card_setup_completed BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE bars DROP CONSTRAINT IF EXISTS bars_card_environment_check;
+ALTER TABLE bars ADD CONSTRAINT bars_card_environment_check
+  CHECK (card_environment IN ('sandbox', 'production'));
+
+-- Callbacks look payments up by provider reference
+CREATE INDEX IF NOT EXISTS idx_tab_payments_card_reference
+  ON tab_payments (reference)
+  WHERE method = 'card';
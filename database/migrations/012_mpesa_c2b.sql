@@ -0,0 +1,62 @@
+-- M-Pesa C2B (Paybill/Till) payments made from the phone menu rather than an
+-- STK push. Safaricom posts each confirmation to /api/mpesa/c2b/confirmation;
+-- matched payments are posted to the tab as a successful tab_payments row
+-- (reference = TransID), anything else waits in the staff queue.
+
+-- Phone number an STK push was sent to, used to match C2B payments
+ALTER TABLE tab_payments ADD COLUMN IF NOT EXISTS phone_number TEXT;
+
+CREATE TABLE IF NOT EXISTS mpesa_c2b_transactions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- NULL when the shortcode is shared by several bars and nothing matched
+  bar_id UUID REFERENCES bars(id) ON DELETE CASCADE,
+  trans_id TEXT NOT NULL UNIQUE,
+  trans_type TEXT,
+  trans_time TIMESTAMP WITH TIME ZONE,
+  amount NUMERIC(10, 2) NOT NULL,
+  business_shortcode TEXT NOT NULL,
+  bill_ref_number TEXT,
+  msisdn TEXT,
+  payer_name TEXT,
+  status TEXT NOT NULL DEFAULT 'unmatched',
+  tab_id UUID REFERENCES tabs(id) ON DELETE SET NULL,
+  tab_payment_id UUID REFERENCES tab_payments(id) ON DELETE SET NULL,
+  matched_by TEXT,
+  assigned_by UUID REFERENCES auth.users(id),
+  assigned_at TIMESTAMP WITH TIME ZONE,
+  raw_payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT mpesa_c2b_transactions_status_check
+    CHECK (status IN ('matched', 'unmatched', 'assigned', 'ignored')),
+  CONSTRAINT mpesa_c2b_transactions_matched_by_check
+    CHECK (matched_by IS NULL OR matched_by IN ('account_reference', 'phone', 'phone_amount', 'manual'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_mpesa_c2b_transactions_queue
+  ON mpesa_c2b_transactions (bar_id, created_at DESC)
+  WHERE status = 'unmatched';
+
+CREATE INDEX IF NOT EXISTS idx_mpesa_c2b_transactions_shortcode
+  ON mpesa_c2b_transactions (business_shortcode)
+  WHERE status = 'unmatched';
+
+-- Phone matching looks at recent STK attempts
+CREATE INDEX IF NOT EXISTS idx_tab_payments_mpesa_phone
+  ON tab_payments (phone_number, created_at)
+  WHERE method = 'mpesa' AND phone_number IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_mpesa_c2b_transactions_updated_at ON mpesa_c2b_transactions;
+CREATE TRIGGER update_mpesa_c2b_transactions_updated_at
+  BEFORE UPDATE ON mpesa_c2b_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE mpesa_c2b_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Staff can see their bar's C2B payments; matching and assignment go through the service role
+DROP POLICY IF EXISTS "Staff can view bar C2B transactions" ON mpesa_c2b_transactions;
+CREATE POLICY "Staff can view bar C2B transactions" ON mpesa_c2b_transactions
+  FOR SELECT USING (
+    bar_id IN (SELECT bar_id FROM user_bars WHERE user_id = auth.uid())
+  );
@@ -0,0 +1,60 @@
+-- STK status reconciliation: pending M-Pesa payments whose callback never
+-- arrived are looked up with the STK Push Query API. Each run, and each
+-- payment it checked, is kept as an audit trail for the staff transaction monitor.
+
+CREATE TABLE IF NOT EXISTS mpesa_reconciliation_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  trigger TEXT NOT NULL,
+  -- Set for manual runs limited to one bar; NULL for scheduled runs over all bars
+  bar_id UUID REFERENCES bars(id) ON DELETE CASCADE,
+  triggered_by UUID REFERENCES auth.users(id),
+  min_age_minutes INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running',
+  checked INTEGER NOT NULL DEFAULT 0,
+  succeeded INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  still_pending INTEGER NOT NULL DEFAULT 0,
+  errors INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT mpesa_reconciliation_runs_trigger_check CHECK (trigger IN ('cron', 'manual')),
+  CONSTRAINT mpesa_reconciliation_runs_status_check CHECK (status IN ('running', 'completed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_mpesa_reconciliation_runs_started_at
+  ON mpesa_reconciliation_runs (started_at DESC);
+
+CREATE TABLE IF NOT EXISTS mpesa_reconciliation_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_id UUID NOT NULL REFERENCES mpesa_reconciliation_runs(id) ON DELETE CASCADE,
+  bar_id UUID NOT NULL REFERENCES bars(id) ON DELETE CASCADE,
+  payment_id UUID NOT NULL REFERENCES tab_payments(id) ON DELETE CASCADE,
+  checkout_request_id TEXT NOT NULL,
+  outcome TEXT NOT NULL,
+  result_code TEXT,
+  message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT mpesa_reconciliation_items_outcome_check
+    CHECK (outcome IN ('success', 'failed', 'pending', 'resolved', 'skipped', 'error'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_mpesa_reconciliation_items_bar
+  ON mpesa_reconciliation_items (bar_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_mpesa_reconciliation_items_run
+  ON mpesa_reconciliation_items (run_id);
+
+-- The reconciler scans old pending M-Pesa payments
+CREATE INDEX IF NOT EXISTS idx_tab_payments_mpesa_pending
+  ON tab_payments (created_at)
+  WHERE method = 'mpesa' AND status = 'pending';
+
+ALTER TABLE mpesa_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mpesa_reconciliation_items ENABLE ROW LEVEL SECURITY;
+
+-- Staff can see what the reconciler did to their bar's payments; runs are written by the service role
+DROP POLICY IF EXISTS "Staff can view bar reconciliation items" ON mpesa_reconciliation_items;
+CREATE POLICY "Staff can view bar reconciliation items" ON mpesa_reconciliation_items
+  FOR SELECT USING (
+    bar_id IN (SELECT bar_id FROM user_bars WHERE user_id = auth.uid())
+  );
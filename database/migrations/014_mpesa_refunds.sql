@@ -0,0 +1,82 @@
+-- M-Pesa refunds. Staff request a refund against a payment's M-Pesa receipt
+-- with a reason; an owner or manager approves it and it is sent to Daraja as a
+-- Transaction Reversal (full amount) or a B2C payment (partial). A successful
+-- Result adds a negative tab_payments row linked to the original payment.
+
+-- Reversal and B2C requests are made by an API initiator on the bar's shortcode
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS mpesa_initiator_name TEXT;
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS mpesa_security_credential_encrypted BYTEA;
+
+-- Negative ledger entries point at the payment they refund
+ALTER TABLE tab_payments ADD COLUMN IF NOT EXISTS refunded_payment_id UUID REFERENCES tab_payments(id);
+
+-- Only refund rows may be negative (replaces the plain positive-amount check).
+-- NOT VALID: existing rows are left alone, new and updated rows are checked.
+ALTER TABLE tab_payments DROP CONSTRAINT IF EXISTS tab_payments_amount_check;
+ALTER TABLE tab_payments DROP CONSTRAINT IF EXISTS tab_payments_refund_amount_check;
+ALTER TABLE tab_payments ADD CONSTRAINT tab_payments_refund_amount_check
+  CHECK (
+    (refunded_payment_id IS NULL AND amount > 0) OR
+    (refunded_payment_id IS NOT NULL AND amount <= 0)
+  ) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_tab_payments_refunded_payment
+  ON tab_payments (refunded_payment_id)
+  WHERE refunded_payment_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS mpesa_refunds (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  bar_id UUID NOT NULL REFERENCES bars(id) ON DELETE CASCADE,
+  tab_id UUID NOT NULL REFERENCES tabs(id) ON DELETE CASCADE,
+  payment_id UUID NOT NULL REFERENCES tab_payments(id) ON DELETE CASCADE,
+  -- The negative tab_payments row, once M-Pesa confirms the refund
+  refund_payment_id UUID REFERENCES tab_payments(id) ON DELETE SET NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL,
+  mpesa_receipt_number TEXT NOT NULL,
+  phone_number TEXT,
+  method TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending_approval',
+  requested_by UUID NOT NULL REFERENCES auth.users(id),
+  approved_by UUID REFERENCES auth.users(id),
+  approved_at TIMESTAMP WITH TIME ZONE,
+  rejection_reason TEXT,
+  conversation_id TEXT,
+  originator_conversation_id TEXT,
+  result_code TEXT,
+  result_desc TEXT,
+  transaction_id TEXT,
+  result JSONB,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT mpesa_refunds_method_check CHECK (method IN ('reversal', 'b2c')),
+  CONSTRAINT mpesa_refunds_status_check
+    CHECK (status IN ('pending_approval', 'rejected', 'processing', 'completed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_mpesa_refunds_bar
+  ON mpesa_refunds (bar_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_mpesa_refunds_payment
+  ON mpesa_refunds (payment_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mpesa_refunds_conversation
+  ON mpesa_refunds (conversation_id)
+  WHERE conversation_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_mpesa_refunds_originator_conversation
+  ON mpesa_refunds (originator_conversation_id)
+  WHERE originator_conversation_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_mpesa_refunds_updated_at ON mpesa_refunds;
+CREATE TRIGGER update_mpesa_refunds_updated_at
+  BEFORE UPDATE ON mpesa_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE mpesa_refunds ENABLE ROW LEVEL SECURITY;
+
+-- Staff can see their bar's refunds; requests and approvals go through the service role
+DROP POLICY IF EXISTS "Staff can view bar refunds" ON mpesa_refunds;
+CREATE POLICY "Staff can view bar refunds" ON mpesa_refunds
+  FOR SELECT USING (
+    bar_id IN (SELECT bar_id FROM user_bars WHERE user_id = auth.uid())
+  );
@@ -0,0 +1,51 @@
+-- M-Pesa callback inbox. Every STK callback that passes the source checks is
+-- stored before it is applied, keyed on CheckoutRequestID + MerchantRequestID,
+-- so Safaricom retries are not applied twice and the raw payloads can be
+-- replayed against a tab from the staff app after a bug fix.
+
+CREATE TABLE IF NOT EXISTS mpesa_callback_inbox (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  checkout_request_id TEXT NOT NULL,
+  merchant_request_id TEXT NOT NULL DEFAULT '',
+  result_code INTEGER NOT NULL,
+  source_ip TEXT,
+  raw_payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'received',
+  -- Set once the callback has been matched to its payment
+  payment_id UUID REFERENCES tab_payments(id) ON DELETE SET NULL,
+  tab_id UUID REFERENCES tabs(id) ON DELETE SET NULL,
+  bar_id UUID REFERENCES bars(id) ON DELETE CASCADE,
+  receive_count INTEGER NOT NULL DEFAULT 1,
+  last_received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  replay_count INTEGER NOT NULL DEFAULT 0,
+  last_replayed_at TIMESTAMP WITH TIME ZONE,
+  last_replayed_by UUID REFERENCES auth.users(id),
+  error TEXT,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT mpesa_callback_inbox_request_unique UNIQUE (checkout_request_id, merchant_request_id),
+  CONSTRAINT mpesa_callback_inbox_status_check
+    CHECK (status IN ('received', 'processed', 'already_resolved', 'payment_not_found', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_mpesa_callback_inbox_bar
+  ON mpesa_callback_inbox (bar_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_mpesa_callback_inbox_tab
+  ON mpesa_callback_inbox (tab_id)
+  WHERE tab_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_mpesa_callback_inbox_updated_at ON mpesa_callback_inbox;
+CREATE TRIGGER update_mpesa_callback_inbox_updated_at
+  BEFORE UPDATE ON mpesa_callback_inbox
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE mpesa_callback_inbox ENABLE ROW LEVEL SECURITY;
+
+-- Staff can see their bar's callbacks; ingestion and replays go through the service role
+DROP POLICY IF EXISTS "Staff can view bar callbacks" ON mpesa_callback_inbox;
+CREATE POLICY "Staff can view bar callbacks" ON mpesa_callback_inbox
+  FOR SELECT USING (
+    bar_id IN (SELECT bar_id FROM user_bars WHERE user_id = auth.uid())
+  );
@@ -0,0 +1,162 @@
+-- Payment plans: staff agree an installment schedule for an overdue tab's
+-- balance. The scheduler (/api/payments/mpesa/installments) reminds the
+-- customer before each due date and sends the STK push on it. Payments link to
+-- an installment through tab_payments.plan_installment_id and a trigger keeps
+-- each installment's progress current. A tab has at most one active plan.
+
+CREATE TABLE IF NOT EXISTS tab_payment_plans (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tab_id UUID NOT NULL REFERENCES tabs(id) ON DELETE CASCADE,
+  bar_id UUID NOT NULL REFERENCES bars(id) ON DELETE CASCADE,
+  total_amount NUMERIC(10, 2) NOT NULL CHECK (total_amount > 0),
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'fortnightly', 'monthly')),
+  -- The customer's M-Pesa number; every installment is charged to it
+  phone_number TEXT NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'cancelled')),
+  created_by UUID REFERENCES auth.users(id),
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  cancel_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tab_payment_plans_one_active
+  ON tab_payment_plans(tab_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_tab_payment_plans_bar
+  ON tab_payment_plans(bar_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS tab_payment_plan_installments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  plan_id UUID NOT NULL REFERENCES tab_payment_plans(id) ON DELETE CASCADE,
+  tab_id UUID NOT NULL REFERENCES tabs(id) ON DELETE CASCADE,
+  bar_id UUID NOT NULL REFERENCES bars(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  paid_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  due_date DATE NOT NULL,
+  -- scheduled -> pending (STK push sent) -> paid, or missed when a push fails; missed ones are retried
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'pending', 'paid', 'missed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  reminder_sent_at TIMESTAMP WITH TIME ZONE,
+  failure_reason TEXT,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (plan_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tab_payment_plan_installments_tab
+  ON tab_payment_plan_installments(tab_id);
+-- The scheduler scans installments that are due to be charged
+CREATE INDEX IF NOT EXISTS idx_tab_payment_plan_installments_due
+  ON tab_payment_plan_installments(next_attempt_at)
+  WHERE status IN ('scheduled', 'missed');
+
+ALTER TABLE tab_payments ADD COLUMN IF NOT EXISTS plan_installment_id UUID
+  REFERENCES tab_payment_plan_installments(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_tab_payments_plan_installment
+  ON tab_payments(plan_installment_id) WHERE plan_installment_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_tab_payment_plans_updated_at ON tab_payment_plans;
+CREATE TRIGGER update_tab_payment_plans_updated_at
+  BEFORE UPDATE ON tab_payment_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_tab_payment_plan_installments_updated_at ON tab_payment_plan_installments;
+CREATE TRIGGER update_tab_payment_plan_installments_updated_at
+  BEFORE UPDATE ON tab_payment_plan_installments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE tab_payment_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tab_payment_plan_installments ENABLE ROW LEVEL SECURITY;
+
+-- Staff read plans for their bars; plans are written by the service role
+DROP POLICY IF EXISTS "Staff can view bar payment plans" ON tab_payment_plans;
+CREATE POLICY "Staff can view bar payment plans" ON tab_payment_plans
+  FOR SELECT USING (
+    bar_id IN (SELECT bar_id FROM user_bars WHERE user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Staff can view bar payment plan installments" ON tab_payment_plan_installments;
+CREATE POLICY "Staff can view bar payment plan installments" ON tab_payment_plan_installments
+  FOR SELECT USING (
+    bar_id IN (SELECT bar_id FROM user_bars WHERE user_id = auth.uid())
+  );
+
+-- The overdue page follows installment progress in realtime
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE tab_payment_plan_installments;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+  WHEN undefined_object THEN NULL;
+END $$;
+
+-- Recompute an installment's paid amount and status whenever one of its payments changes
+CREATE OR REPLACE FUNCTION sync_plan_installment_progress()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_installment tab_payment_plan_installments%ROWTYPE;
+  v_paid NUMERIC;
+  v_has_pending BOOLEAN;
+BEGIN
+  IF NEW.plan_installment_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_installment FROM tab_payment_plan_installments WHERE id = NEW.plan_installment_id FOR UPDATE;
+  IF NOT FOUND OR v_installment.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE status = 'success'), 0),
+    COALESCE(BOOL_OR(status = 'pending'), false)
+  INTO v_paid, v_has_pending
+  FROM tab_payments
+  WHERE plan_installment_id = v_installment.id;
+
+  UPDATE tab_payment_plan_installments
+  SET paid_amount = v_paid,
+      status = CASE
+        WHEN v_paid >= amount THEN 'paid'
+        WHEN v_has_pending THEN 'pending'
+        -- The push was declined, failed or timed out
+        WHEN status = 'pending' THEN 'missed'
+        ELSE status
+      END,
+      paid_at = CASE WHEN v_paid >= amount THEN COALESCE(paid_at, NOW()) ELSE paid_at END,
+      failure_reason = CASE
+        WHEN NEW.status = 'failed' AND v_paid < amount AND NOT v_has_pending
+          THEN COALESCE(
+            NEW.metadata #>> '{Body,stkCallback,ResultDesc}',
+            NEW.metadata #>> '{reconciliation,response,ResultDesc}',
+            NEW.metadata->>'error',
+            'M-Pesa payment failed'
+          )
+        ELSE failure_reason
+      END
+  WHERE id = v_installment.id;
+
+  -- Every installment paid: the plan is done
+  IF NOT EXISTS (
+    SELECT 1 FROM tab_payment_plan_installments
+    WHERE plan_id = v_installment.plan_id AND status <> 'paid'
+  ) THEN
+    UPDATE tab_payment_plans SET status = 'completed' WHERE id = v_installment.plan_id AND status = 'active';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_plan_installment_progress ON tab_payments;
+CREATE TRIGGER sync_plan_installment_progress
+  AFTER INSERT OR UPDATE OF status ON tab_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_plan_installment_progress();
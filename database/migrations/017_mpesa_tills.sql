@@ -0,0 +1,56 @@
+-- M-Pesa tills: a bar can hold several named M-Pesa configurations (a counter,
+-- a rooftop bar, a sister venue), each with its own shortcode and encrypted
+-- credentials. Routing rules on each till (table range, staff stations, time
+-- of day) decide which one an STK push goes through; a bar with no matching
+-- till keeps using the shortcode on the bars row. The till used is recorded on
+-- tab_payments.mpesa_till_id so status queries and refunds go back through it.
+
+CREATE TABLE IF NOT EXISTS bar_mpesa_tills (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  bar_id UUID NOT NULL REFERENCES bars(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  environment TEXT NOT NULL DEFAULT 'sandbox' CHECK (environment IN ('sandbox', 'production', 'simulator')),
+  business_shortcode TEXT NOT NULL,
+  -- Encrypted with encryptToBytea, same storage contract as the bars columns
+  consumer_key_encrypted BYTEA,
+  consumer_secret_encrypted BYTEA,
+  passkey_encrypted BYTEA,
+  -- Optional refund initiator; the bar's is used when not set
+  initiator_name TEXT,
+  security_credential_encrypted BYTEA,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Lower numbers are tried first when several tills match
+  priority INTEGER NOT NULL DEFAULT 100,
+  table_from INTEGER CHECK (table_from IS NULL OR table_from > 0),
+  table_to INTEGER CHECK (table_to IS NULL OR table_to > 0),
+  stations TEXT[] NOT NULL DEFAULT '{}',
+  -- Kenya wall-clock window; active_to before active_from runs past midnight
+  active_from TIME,
+  active_to TIME,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (bar_id, name),
+  CHECK (table_from IS NULL OR table_to IS NULL OR table_from <= table_to),
+  CHECK ((active_from IS NULL) = (active_to IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_bar_mpesa_tills_bar
+  ON bar_mpesa_tills(bar_id, priority) WHERE is_active;
+-- C2B confirmations are matched to bars by the shortcode that was paid
+CREATE INDEX IF NOT EXISTS idx_bar_mpesa_tills_shortcode
+  ON bar_mpesa_tills(business_shortcode);
+
+ALTER TABLE tab_payments ADD COLUMN IF NOT EXISTS mpesa_till_id UUID
+  REFERENCES bar_mpesa_tills(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_tab_payments_mpesa_till
+  ON tab_payments(mpesa_till_id) WHERE mpesa_till_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_bar_mpesa_tills_updated_at ON bar_mpesa_tills;
+CREATE TRIGGER update_bar_mpesa_tills_updated_at
+  BEFORE UPDATE ON bar_mpesa_tills
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Tills hold credentials: no client policies, only the service role reads them
+-- (staff manage tills through /api/mpesa-settings/tills)
+ALTER TABLE bar_mpesa_tills ENABLE ROW LEVEL SECURITY;
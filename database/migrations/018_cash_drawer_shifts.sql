@@ -0,0 +1,56 @@
+-- Cash drawer shifts: a staff member opens a shift with a float, cash payments
+-- they take are recorded under it (tab_payments.cash_shift_id), and at close
+-- they count the drawer by denomination. The close stores the recorded cash and
+-- M-Pesa totals for the shift and how far the count is over or short, so the
+-- daily report can list every shift without recomputing it.
+
+CREATE TABLE IF NOT EXISTS cash_drawer_shifts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  bar_id UUID NOT NULL REFERENCES bars(id) ON DELETE CASCADE,
+  opened_by UUID NOT NULL REFERENCES auth.users(id),
+  opening_float NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  closed_by UUID REFERENCES auth.users(id),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  -- Notes and coins counted at close, e.g. {"1000": 4, "50": 3}
+  counted_denominations JSONB,
+  counted_cash NUMERIC(10, 2),
+  -- Totals fixed at close: cash recorded under the shift and M-Pesa taken at the bar meanwhile
+  cash_total NUMERIC(10, 2),
+  cash_count INTEGER,
+  mpesa_total NUMERIC(10, 2),
+  mpesa_count INTEGER,
+  expected_cash NUMERIC(10, 2),
+  -- counted_cash - expected_cash: positive is over, negative is short
+  over_short NUMERIC(10, 2),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- A staff member holds at most one open drawer per bar
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_drawer_shifts_one_open
+  ON cash_drawer_shifts(bar_id, opened_by) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_cash_drawer_shifts_bar_opened
+  ON cash_drawer_shifts(bar_id, opened_at DESC);
+
+ALTER TABLE tab_payments ADD COLUMN IF NOT EXISTS cash_shift_id UUID
+  REFERENCES cash_drawer_shifts(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_tab_payments_cash_shift
+  ON tab_payments(cash_shift_id) WHERE cash_shift_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_cash_drawer_shifts_updated_at ON cash_drawer_shifts;
+CREATE TRIGGER update_cash_drawer_shifts_updated_at
+  BEFORE UPDATE ON cash_drawer_shifts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE cash_drawer_shifts ENABLE ROW LEVEL SECURITY;
+
+-- Staff read shifts for their bars; shifts are written by the service role
+DROP POLICY IF EXISTS "Staff can view bar cash shifts" ON cash_drawer_shifts;
+CREATE POLICY "Staff can view bar cash shifts" ON cash_drawer_shifts
+  FOR SELECT USING (
+    bar_id IN (SELECT bar_id FROM user_bars WHERE user_id = auth.uid())
+  );
@@ -0,0 +1,33 @@
+-- Tab receipts: the numbered receipt a closed tab is issued. The receipt body
+-- is always rebuilt from tab_orders, tab_payments and tab_write_offs; this row
+-- only fixes its number and issue time so reprints and shared links match.
+
+CREATE TABLE IF NOT EXISTS tab_receipts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tab_id UUID NOT NULL UNIQUE REFERENCES tabs(id) ON DELETE CASCADE,
+  bar_id UUID NOT NULL REFERENCES bars(id) ON DELETE CASCADE,
+  -- Sequential per bar
+  receipt_number INTEGER NOT NULL CHECK (receipt_number > 0),
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT tab_receipts_bar_number_unique UNIQUE (bar_id, receipt_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tab_receipts_bar_issued
+  ON tab_receipts(bar_id, issued_at DESC);
+
+DROP TRIGGER IF EXISTS update_tab_receipts_updated_at ON tab_receipts;
+CREATE TRIGGER update_tab_receipts_updated_at
+  BEFORE UPDATE ON tab_receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE tab_receipts ENABLE ROW LEVEL SECURITY;
+
+-- Staff read receipts for their bars; receipts are issued by the service role
+DROP POLICY IF EXISTS "Staff can view bar tab receipts" ON tab_receipts;
+CREATE POLICY "Staff can view bar tab receipts" ON tab_receipts
+  FOR SELECT USING (
+    bar_id IN (SELECT bar_id FROM user_bars WHERE user_id = auth.uid())
+  );
@@ -0,0 +1,44 @@
+-- KRA eTIMS tax invoices: per-product tax classes, the bar's pricing basis and
+-- eTIMS registration, and the control unit data returned for each receipt.
+
+-- vat_16: standard rated; exempt: no VAT; excise_inclusive: price already
+-- carries excise duty (beer, spirits) and VAT is charged on the whole price
+ALTER TABLE bar_products ADD COLUMN IF NOT EXISTS tax_class TEXT NOT NULL DEFAULT 'vat_16';
+ALTER TABLE bar_products DROP CONSTRAINT IF EXISTS bar_products_tax_class_check;
+ALTER TABLE bar_products ADD CONSTRAINT bar_products_tax_class_check
+  CHECK (tax_class IN ('vat_16', 'exempt', 'excise_inclusive'));
+
+-- Copied onto the bar_products row when a custom product is put on the menu
+ALTER TABLE custom_products ADD COLUMN IF NOT EXISTS tax_class TEXT NOT NULL DEFAULT 'vat_16';
+ALTER TABLE custom_products DROP CONSTRAINT IF EXISTS custom_products_tax_class_check;
+ALTER TABLE custom_products ADD CONSTRAINT custom_products_tax_class_check
+  CHECK (tax_class IN ('vat_16', 'exempt', 'excise_inclusive'));
+
+-- Whether menu prices already include tax (the usual case in Kenya)
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS prices_include_tax BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS kra_pin TEXT;
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS etims_enabled BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS etims_adapter TEXT NOT NULL DEFAULT 'stub';
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS etims_branch_id TEXT NOT NULL DEFAULT '00';
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS etims_device_serial TEXT;
+
+-- NULL until the receipt is filed; a close path claims a row by moving it from
+-- pending (or failed) to submitting, so each receipt is sent once at a time
+ALTER TABLE tab_receipts ADD COLUMN IF NOT EXISTS etims_status TEXT;
+ALTER TABLE tab_receipts DROP CONSTRAINT IF EXISTS tab_receipts_etims_status_check;
+ALTER TABLE tab_receipts ADD CONSTRAINT tab_receipts_etims_status_check
+  CHECK (etims_status IS NULL OR etims_status IN ('pending', 'submitting', 'submitted', 'failed'));
+ALTER TABLE tab_receipts ADD COLUMN IF NOT EXISTS etims_adapter TEXT;
+-- The sale as sent and the control unit's reply, kept for audit
+ALTER TABLE tab_receipts ADD COLUMN IF NOT EXISTS etims_invoice JSONB;
+ALTER TABLE tab_receipts ADD COLUMN IF NOT EXISTS etims_response JSONB;
+ALTER TABLE tab_receipts ADD COLUMN IF NOT EXISTS etims_cu_invoice_number TEXT;
+ALTER TABLE tab_receipts ADD COLUMN IF NOT EXISTS etims_receipt_signature TEXT;
+ALTER TABLE tab_receipts ADD COLUMN IF NOT EXISTS etims_internal_data TEXT;
+ALTER TABLE tab_receipts ADD COLUMN IF NOT EXISTS etims_qr_url TEXT;
+ALTER TABLE tab_receipts ADD COLUMN IF NOT EXISTS etims_submitted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE tab_receipts ADD COLUMN IF NOT EXISTS etims_error TEXT;
+
+-- Failed submissions waiting for a retry
+CREATE INDEX IF NOT EXISTS idx_tab_receipts_etims_failed
+  ON tab_receipts(bar_id) WHERE etims_status = 'failed';
@@ -0,0 +1,154 @@
+-- Tab deposits and credit limits. A bar can require an M-Pesa deposit before a
+-- new tab may order, and can cap how far any tab runs up. A deposit is an
+-- ordinary successful tab_payments row flagged is_deposit, so it counts as a
+-- prepayment against the balance; whatever is unused at close is refunded
+-- through mpesa_refunds.
+
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS deposit_required BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS deposit_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+-- Credit limit given to new tabs; NULL means unlimited
+ALTER TABLE bars ADD COLUMN IF NOT EXISTS default_tab_limit NUMERIC(10, 2);
+
+ALTER TABLE bars DROP CONSTRAINT IF EXISTS bars_deposit_settings_check;
+ALTER TABLE bars ADD CONSTRAINT bars_deposit_settings_check
+  CHECK (
+    deposit_amount >= 0 AND
+    (NOT deposit_required OR deposit_amount > 0) AND
+    (default_tab_limit IS NULL OR default_tab_limit > 0)
+  );
+
+-- Overdue tabs closed by a payment settle their deposit with nobody signed in
+ALTER TABLE mpesa_refunds ALTER COLUMN requested_by DROP NOT NULL;
+
+ALTER TABLE tabs ADD COLUMN IF NOT EXISTS credit_limit NUMERIC(10, 2);
+-- How the deposit was dealt with once the tab closed
+ALTER TABLE tabs ADD COLUMN IF NOT EXISTS deposit_settlement TEXT;
+ALTER TABLE tabs ADD COLUMN IF NOT EXISTS deposit_settled_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE tabs DROP CONSTRAINT IF EXISTS tabs_credit_limit_check;
+ALTER TABLE tabs ADD CONSTRAINT tabs_credit_limit_check
+  CHECK (credit_limit IS NULL OR credit_limit > 0);
+ALTER TABLE tabs DROP CONSTRAINT IF EXISTS tabs_deposit_settlement_check;
+ALTER TABLE tabs ADD CONSTRAINT tabs_deposit_settlement_check
+  CHECK (deposit_settlement IS NULL OR deposit_settlement IN ('applied', 'refund_requested'));
+
+ALTER TABLE tab_payments ADD COLUMN IF NOT EXISTS is_deposit BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_tab_payments_deposits
+  ON tab_payments(tab_id)
+  WHERE is_deposit;
+
+-- New tabs start with the bar's default limit, however they are opened
+CREATE OR REPLACE FUNCTION set_tab_default_credit_limit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.credit_limit IS NULL THEN
+    SELECT default_tab_limit INTO NEW.credit_limit FROM bars WHERE id = NEW.bar_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_tab_default_credit_limit ON tabs;
+CREATE TRIGGER set_tab_default_credit_limit
+  BEFORE INSERT ON tabs
+  FOR EACH ROW
+  EXECUTE FUNCTION set_tab_default_credit_limit();
+
+-- Customer orders wait for the deposit and may not take the projected balance
+-- (open orders less payments) past the tab's limit. Staff orders are left to
+-- staff. The error message is the reason code; DETAIL carries the amounts.
+CREATE OR REPLACE FUNCTION enforce_tab_credit()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_limit NUMERIC;
+  v_deposit_required BOOLEAN;
+  v_deposit_amount NUMERIC;
+  v_deposit_paid NUMERIC;
+  v_orders NUMERIC;
+  v_payments NUMERIC;
+  v_projected NUMERIC;
+BEGIN
+  IF COALESCE(NEW.initiated_by, 'customer') <> 'customer' OR NEW.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT t.credit_limit, b.deposit_required, b.deposit_amount
+    INTO v_limit, v_deposit_required, v_deposit_amount
+    FROM tabs t JOIN bars b ON b.id = t.bar_id
+   WHERE t.id = NEW.tab_id;
+
+  IF v_deposit_required THEN
+    SELECT COALESCE(SUM(amount), 0) INTO v_deposit_paid
+      FROM tab_payments
+     WHERE tab_id = NEW.tab_id AND is_deposit AND status = 'success';
+
+    IF v_deposit_paid < v_deposit_amount THEN
+      RAISE EXCEPTION 'TAB_DEPOSIT_REQUIRED'
+        USING DETAIL = json_build_object(
+          'deposit_amount', v_deposit_amount,
+          'deposit_paid', v_deposit_paid
+        )::text;
+    END IF;
+  END IF;
+
+  IF v_limit IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(total), 0) INTO v_orders
+    FROM tab_orders
+   WHERE tab_id = NEW.tab_id AND status IN ('pending', 'confirmed', 'served');
+  SELECT COALESCE(SUM(amount), 0) INTO v_payments
+    FROM tab_payments
+   WHERE tab_id = NEW.tab_id AND status = 'success';
+
+  v_projected := v_orders - v_payments + NEW.total;
+  IF v_projected > v_limit THEN
+    RAISE EXCEPTION 'TAB_LIMIT_EXCEEDED'
+      USING DETAIL = json_build_object(
+        'credit_limit', v_limit,
+        'projected_balance', v_projected
+      )::text;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enforce_tab_credit ON tab_orders;
+CREATE TRIGGER enforce_tab_credit
+  BEFORE INSERT ON tab_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_tab_credit();
+
+-- tab_balances gains the deposits and limit. Orders and payments are summed
+-- separately: joining both in one pass counted each order once per payment.
+-- Served orders are still owed, so they stay in the balance.
+CREATE OR REPLACE VIEW tab_balances AS
+SELECT
+  t.id AS tab_id,
+  t.bar_id,
+  t.tab_number,
+  t.status,
+  COALESCE(o.total_orders, 0::numeric) AS total_orders,
+  COALESCE(p.total_payments, 0::numeric) AS total_payments,
+  COALESCE(o.total_orders, 0::numeric) - COALESCE(p.total_payments, 0::numeric) AS balance,
+  COALESCE(p.total_deposits, 0::numeric) AS total_deposits,
+  t.credit_limit
+FROM tabs t
+LEFT JOIN (
+  SELECT tab_id, SUM(total) AS total_orders
+  FROM tab_orders
+  WHERE status IN ('confirmed', 'served')
+  GROUP BY tab_id
+) o ON o.tab_id = t.id
+LEFT JOIN (
+  SELECT
+    tab_id,
+    SUM(amount) AS total_payments,
+    SUM(amount) FILTER (WHERE is_deposit) AS total_deposits
+  FROM tab_payments
+  WHERE status = 'success'
+  GROUP BY tab_id
+) p ON p.tab_id = t.id;
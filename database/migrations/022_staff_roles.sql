@@ -0,0 +1,200 @@
+-- Staff roles. Each user_bars membership carries one role, and the role decides
+-- what that person may do at that bar (see packages/shared staff-roles.ts for
+-- the full permission list). The old catch-all 'staff' role becomes 'waiter'.
+-- Owners add staff by invitation and can revoke them again.
+
+ALTER TABLE user_bars DROP CONSTRAINT IF EXISTS user_bars_role_check;
+
+UPDATE user_bars SET role = 'waiter' WHERE role = 'staff';
+
+-- Before roles, the member who signed the bar up was stored without one and
+-- treated as its owner. Every bar keeps an owner: where none is recorded, its
+-- earliest member becomes the owner before anyone is demoted below.
+UPDATE user_bars ub SET role = 'owner'
+FROM (
+  SELECT DISTINCT ON (bar_id) bar_id, user_id
+  FROM user_bars
+  ORDER BY bar_id, created_at, user_id
+) earliest
+WHERE ub.bar_id = earliest.bar_id
+  AND ub.user_id = earliest.user_id
+  AND NOT EXISTS (
+    SELECT 1 FROM user_bars owners WHERE owners.bar_id = ub.bar_id AND owners.role = 'owner'
+  );
+
+-- Every membership has a role. One without a role (or with one nobody
+-- recognises) only gets the least-privileged role; an owner can promote it.
+UPDATE user_bars SET role = 'bartender'
+WHERE role IS NULL OR role NOT IN ('owner', 'manager', 'waiter', 'bartender', 'cashier');
+
+ALTER TABLE user_bars ALTER COLUMN role SET DEFAULT 'bartender';
+ALTER TABLE user_bars ALTER COLUMN role SET NOT NULL;
+ALTER TABLE user_bars ADD CONSTRAINT user_bars_role_check
+  CHECK (role IN ('owner', 'manager', 'waiter', 'bartender', 'cashier'));
+
+ALTER TABLE user_bars ADD COLUMN IF NOT EXISTS invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Create a bar for a new account and make that account its owner. The role is
+-- written explicitly: the column default is the least-privileged role.
+CREATE OR REPLACE FUNCTION signup_new_bar(
+  p_user_id UUID,
+  p_bar_name TEXT,
+  p_location TEXT,
+  p_phone TEXT,
+  p_email TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  v_bar_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'Unknown user';
+  END IF;
+
+  -- Signing up is for new accounts; existing staff join other bars by invitation
+  IF EXISTS (SELECT 1 FROM user_bars WHERE user_id = p_user_id) THEN
+    RAISE EXCEPTION 'This account already belongs to a bar';
+  END IF;
+
+  INSERT INTO bars (name, location, phone, email)
+  VALUES (p_bar_name, p_location, p_phone, p_email)
+  RETURNING id INTO v_bar_id;
+
+  INSERT INTO user_bars (user_id, bar_id, role)
+  VALUES (p_user_id, v_bar_id, 'owner');
+
+  RETURN v_bar_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Pending invitations; only a hash of the link token is kept
+CREATE TABLE IF NOT EXISTS staff_invites (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  bar_id UUID NOT NULL REFERENCES bars(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'manager', 'waiter', 'bartender', 'cashier')),
+  token_hash TEXT NOT NULL UNIQUE,
+  invited_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_invites_bar_created ON staff_invites(bar_id, created_at DESC);
+
+-- One live invitation per email and bar
+CREATE UNIQUE INDEX IF NOT EXISTS idx_staff_invites_pending_email
+  ON staff_invites(bar_id, lower(email))
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+ALTER TABLE staff_invites ENABLE ROW LEVEL SECURITY;
+
+-- Invites are created and accepted through the staff API with the service role
+DROP POLICY IF EXISTS "Staff can view bar invites" ON staff_invites;
+CREATE POLICY "Staff can view bar invites" ON staff_invites
+  FOR SELECT USING (
+    bar_id IN (SELECT bar_id FROM user_bars WHERE user_id = auth.uid())
+  );
+
+-- Whether the signed-in user holds one of these roles at the bar
+CREATE OR REPLACE FUNCTION has_bar_role(p_bar_id UUID, p_roles TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_bars
+    WHERE user_id = auth.uid() AND bar_id = p_bar_id AND role = ANY(p_roles)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The menu and prices are edited from the browser, so the menu.edit permission
+-- is also held here. Restrictive policies narrow whatever policies already
+-- allow; the service role bypasses them as before.
+DROP POLICY IF EXISTS "Only menu editors change bar products" ON bar_products;
+CREATE POLICY "Only menu editors change bar products" ON bar_products
+  AS RESTRICTIVE FOR UPDATE USING (has_bar_role(bar_id, ARRAY['owner', 'manager']));
+
+DROP POLICY IF EXISTS "Only menu editors add bar products" ON bar_products;
+CREATE POLICY "Only menu editors add bar products" ON bar_products
+  AS RESTRICTIVE FOR INSERT WITH CHECK (has_bar_role(bar_id, ARRAY['owner', 'manager']));
+
+DROP POLICY IF EXISTS "Only menu editors remove bar products" ON bar_products;
+CREATE POLICY "Only menu editors remove bar products" ON bar_products
+  AS RESTRICTIVE FOR DELETE USING (has_bar_role(bar_id, ARRAY['owner', 'manager']));
+
+DROP POLICY IF EXISTS "Only menu editors change custom products" ON custom_products;
+CREATE POLICY "Only menu editors change custom products" ON custom_products
+  AS RESTRICTIVE FOR UPDATE USING (has_bar_role(bar_id, ARRAY['owner', 'manager']));
+
+DROP POLICY IF EXISTS "Only menu editors add custom products" ON custom_products;
+CREATE POLICY "Only menu editors add custom products" ON custom_products
+  AS RESTRICTIVE FOR INSERT WITH CHECK (has_bar_role(bar_id, ARRAY['owner', 'manager']));
+
+DROP POLICY IF EXISTS "Only menu editors remove custom products" ON custom_products;
+CREATE POLICY "Only menu editors remove custom products" ON custom_products
+  AS RESTRICTIVE FOR DELETE USING (has_bar_role(bar_id, ARRAY['owner', 'manager']));
+
+-- Tabs, orders and payments are written from the staff browser too, so the
+-- same permissions as the staff API hold here for signed-in staff:
+-- tabs.close for tabs, orders.take for orders, payments.take for payments,
+-- and removing any of them is for owners and managers. Customers use the anon
+-- key without signing in (auth.uid() is null) and keep their own policies.
+DROP POLICY IF EXISTS "Only tab closers change tabs" ON tabs;
+CREATE POLICY "Only tab closers change tabs" ON tabs
+  AS RESTRICTIVE FOR UPDATE USING (
+    auth.uid() IS NULL OR has_bar_role(bar_id, ARRAY['owner', 'manager', 'waiter', 'cashier'])
+  );
+
+DROP POLICY IF EXISTS "Only managers remove tabs" ON tabs;
+CREATE POLICY "Only managers remove tabs" ON tabs
+  AS RESTRICTIVE FOR DELETE USING (
+    auth.uid() IS NULL OR has_bar_role(bar_id, ARRAY['owner', 'manager'])
+  );
+
+DROP POLICY IF EXISTS "Only order takers add orders" ON tab_orders;
+CREATE POLICY "Only order takers add orders" ON tab_orders
+  AS RESTRICTIVE FOR INSERT WITH CHECK (
+    auth.uid() IS NULL OR has_bar_role(
+      (SELECT bar_id FROM tabs WHERE tabs.id = tab_id), ARRAY['owner', 'manager', 'waiter', 'bartender']
+    )
+  );
+
+DROP POLICY IF EXISTS "Only order takers change orders" ON tab_orders;
+CREATE POLICY "Only order takers change orders" ON tab_orders
+  AS RESTRICTIVE FOR UPDATE USING (
+    auth.uid() IS NULL OR has_bar_role(
+      (SELECT bar_id FROM tabs WHERE tabs.id = tab_id), ARRAY['owner', 'manager', 'waiter', 'bartender']
+    )
+  );
+
+DROP POLICY IF EXISTS "Only managers remove orders" ON tab_orders;
+CREATE POLICY "Only managers remove orders" ON tab_orders
+  AS RESTRICTIVE FOR DELETE USING (
+    auth.uid() IS NULL OR has_bar_role((SELECT bar_id FROM tabs WHERE tabs.id = tab_id), ARRAY['owner', 'manager'])
+  );
+
+DROP POLICY IF EXISTS "Only payment takers add payments" ON tab_payments;
+CREATE POLICY "Only payment takers add payments" ON tab_payments
+  AS RESTRICTIVE FOR INSERT WITH CHECK (
+    auth.uid() IS NULL OR has_bar_role(
+      (SELECT bar_id FROM tabs WHERE tabs.id = tab_id), ARRAY['owner', 'manager', 'waiter', 'cashier']
+    )
+  );
+
+DROP POLICY IF EXISTS "Only payment takers change payments" ON tab_payments;
+CREATE POLICY "Only payment takers change payments" ON tab_payments
+  AS RESTRICTIVE FOR UPDATE USING (
+    auth.uid() IS NULL OR has_bar_role(
+      (SELECT bar_id FROM tabs WHERE tabs.id = tab_id), ARRAY['owner', 'manager', 'waiter', 'cashier']
+    )
+  );
+
+DROP POLICY IF EXISTS "Only managers remove payments" ON tab_payments;
+CREATE POLICY "Only managers remove payments" ON tab_payments
+  AS RESTRICTIVE FOR DELETE USING (
+    auth.uid() IS NULL OR has_bar_role((SELECT bar_id FROM tabs WHERE tabs.id = tab_id), ARRAY['owner', 'manager'])
+  );
+
+-- Tabs are closed through the staff API, which checks tabs.close and
+-- tabs.write_off; signed-in browsers may no longer call close_tab directly
+REVOKE EXECUTE ON FUNCTION close_tab(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
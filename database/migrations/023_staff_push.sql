@@ -0,0 +1,163 @@
+-- Staff push notifications: each staff device registers a Web Push
+-- subscription for the bar it is signed in to, triggers queue new customer
+-- orders, customer messages and successful payments, and the push worker
+-- (/api/push/send) delivers them to every subscribed staff member whose
+-- role and preferences allow it. Reaches tablets whose screen has gone to
+-- sleep, where the in-page alert never plays.
+
+-- What each staff member wants pushed, per bar
+ALTER TABLE user_bars
+  ADD COLUMN IF NOT EXISTS push_preferences JSONB NOT NULL
+    DEFAULT '{"orders": true, "messages": true, "payments": true}'::jsonb;
+
+-- One row per staff device; the endpoint identifies the device's browser
+CREATE TABLE IF NOT EXISTS staff_push_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  bar_id UUID NOT NULL REFERENCES bars(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT staff_push_subscriptions_endpoint_key UNIQUE (endpoint)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_push_subscriptions_bar ON staff_push_subscriptions(bar_id);
+CREATE INDEX IF NOT EXISTS idx_staff_push_subscriptions_user ON staff_push_subscriptions(user_id);
+
+-- Outbox of events waiting to be pushed
+CREATE TABLE IF NOT EXISTS staff_push_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  bar_id UUID NOT NULL REFERENCES bars(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  dispatched_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT staff_push_events_type_check CHECK (
+    event_type = ANY (ARRAY['order.new', 'message.new', 'payment.received'])
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_push_events_pending ON staff_push_events(created_at) WHERE dispatched_at IS NULL;
+
+DROP TRIGGER IF EXISTS update_staff_push_subscriptions_updated_at ON staff_push_subscriptions;
+CREATE TRIGGER update_staff_push_subscriptions_updated_at
+  BEFORE UPDATE ON staff_push_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Subscriptions hold push keys and the outbox is internal: service role only
+ALTER TABLE staff_push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_push_events ENABLE ROW LEVEL SECURITY;
+
+-- Queue an event only when someone at the bar has a device subscribed
+CREATE OR REPLACE FUNCTION enqueue_staff_push_event(
+  p_bar_id UUID,
+  p_event_type TEXT,
+  p_payload JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM staff_push_subscriptions WHERE bar_id = p_bar_id) THEN
+    INSERT INTO staff_push_events (bar_id, event_type, payload)
+    VALUES (p_bar_id, p_event_type, p_payload);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION enqueue_staff_push_event(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- order.new: a customer placed an order that staff must confirm
+CREATE OR REPLACE FUNCTION queue_order_staff_push()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_tab tabs%ROWTYPE;
+BEGIN
+  IF NEW.initiated_by IS DISTINCT FROM 'customer' OR NEW.status IS DISTINCT FROM 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_tab FROM tabs WHERE id = NEW.tab_id;
+
+  PERFORM enqueue_staff_push_event(v_tab.bar_id, 'order.new', jsonb_build_object(
+    'order_id', NEW.id,
+    'tab_id', NEW.tab_id,
+    'tab_number', v_tab.tab_number,
+    'tab_notes', v_tab.notes,
+    'total', NEW.total,
+    'item_count', COALESCE(jsonb_array_length(CASE WHEN jsonb_typeof(NEW.items) = 'array' THEN NEW.items END), 0)
+  ));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_order_staff_push ON tab_orders;
+CREATE TRIGGER queue_order_staff_push
+  AFTER INSERT ON tab_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_order_staff_push();
+
+-- message.new: a customer sent a message from their tab
+CREATE OR REPLACE FUNCTION queue_message_staff_push()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_tab tabs%ROWTYPE;
+BEGIN
+  IF NEW.initiated_by IS DISTINCT FROM 'customer' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_tab FROM tabs WHERE id = NEW.tab_id;
+
+  PERFORM enqueue_staff_push_event(v_tab.bar_id, 'message.new', jsonb_build_object(
+    'message_id', NEW.id,
+    'tab_id', NEW.tab_id,
+    'tab_number', v_tab.tab_number,
+    'tab_notes', v_tab.notes,
+    'message', LEFT(NEW.message, 200)
+  ));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_message_staff_push ON tab_telegram_messages;
+CREATE TRIGGER queue_message_staff_push
+  AFTER INSERT ON tab_telegram_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_message_staff_push();
+
+-- payment.received: a payment landed, on insert (cash, card) or when an M-Pesa push completes
+CREATE OR REPLACE FUNCTION queue_payment_staff_push()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_tab tabs%ROWTYPE;
+BEGIN
+  IF NEW.status IS DISTINCT FROM 'success'
+     OR (TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_tab FROM tabs WHERE id = NEW.tab_id;
+
+  PERFORM enqueue_staff_push_event(v_tab.bar_id, 'payment.received', jsonb_build_object(
+    'payment_id', NEW.id,
+    'tab_id', NEW.tab_id,
+    'tab_number', v_tab.tab_number,
+    'tab_notes', v_tab.notes,
+    'amount', NEW.amount,
+    'method', NEW.method
+  ));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_payment_staff_push ON tab_payments;
+CREATE TRIGGER queue_payment_staff_push
+  AFTER INSERT OR UPDATE OF status ON tab_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_payment_staff_push();
@@ -0,0 +1,133 @@
+-- Kitchen display: confirmed orders are split into one ticket per station
+-- (drinks, food, shisha) by product category. A station bumps its ticket when
+-- it is ready; once every station on an order has bumped, the order is served.
+-- Recalling a ticket removes its bump and puts a served order back to
+-- confirmed, so the recall is a staff-only move in the order lifecycle:
+--
+--   pending   -> confirmed | cancelled
+--   confirmed -> served | cancelled
+--   served    -> confirmed (recalled from the kitchen display)
+--   cancelled is final
+
+CREATE TABLE IF NOT EXISTS tab_order_station_bumps (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES tab_orders(id) ON DELETE CASCADE,
+  -- Copied from the tab so displays can filter realtime changes by bar
+  bar_id UUID NOT NULL REFERENCES bars(id) ON DELETE CASCADE,
+  station TEXT NOT NULL,
+  -- Staff user ID
+  bumped_by TEXT,
+  bumped_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT tab_order_station_bumps_station_check CHECK (station = ANY (ARRAY['drinks', 'food', 'shisha'])),
+  CONSTRAINT tab_order_station_bumps_order_station_key UNIQUE (order_id, station)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tab_order_station_bumps_bar ON tab_order_station_bumps(bar_id, bumped_at DESC);
+
+ALTER TABLE tab_order_station_bumps ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view bar station bumps" ON tab_order_station_bumps;
+CREATE POLICY "Staff can view bar station bumps" ON tab_order_station_bumps
+  FOR SELECT USING (
+    bar_id IN (SELECT bar_id FROM user_bars WHERE user_id = auth.uid())
+  );
+
+-- Displays on other tablets pick up bumps and recalls as they happen
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE tab_order_station_bumps;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+  WHEN undefined_object THEN NULL;
+END $$;
+
+CREATE OR REPLACE FUNCTION order_status_transition_allowed(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT (p_from, p_to) IN (
+    ('pending', 'confirmed'),
+    ('pending', 'cancelled'),
+    ('confirmed', 'served'),
+    ('confirmed', 'cancelled'),
+    ('served', 'confirmed')
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- A recalled order keeps the time it was first confirmed and loses its served time
+CREATE OR REPLACE FUNCTION transition_order_status(
+  p_order_id UUID,
+  p_to_status TEXT,
+  p_initiated_by TEXT,
+  p_actor_id TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_order tab_orders%ROWTYPE;
+  v_from_status TEXT;
+BEGIN
+  SELECT * INTO v_order FROM tab_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found: %', p_order_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT order_status_transition_allowed(v_order.status, p_to_status) THEN
+    RAISE EXCEPTION 'Illegal order transition: % -> %', v_order.status, p_to_status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_from_status := v_order.status;
+
+  UPDATE tab_orders
+  SET status = p_to_status,
+      confirmed_at = CASE WHEN p_to_status = 'confirmed' AND v_from_status = 'pending' THEN NOW() ELSE confirmed_at END,
+      served_at = CASE
+        WHEN p_to_status = 'served' THEN NOW()
+        WHEN v_from_status = 'served' THEN NULL
+        ELSE served_at
+      END,
+      cancelled_at = CASE WHEN p_to_status = 'cancelled' THEN NOW() ELSE cancelled_at END,
+      cancelled_by = CASE WHEN p_to_status = 'cancelled' THEN p_initiated_by ELSE cancelled_by END,
+      rejection_reason = CASE WHEN p_to_status = 'cancelled' THEN p_reason ELSE rejection_reason END
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  INSERT INTO tab_order_status_events (order_id, tab_id, from_status, to_status, initiated_by, actor_id, reason)
+  VALUES (p_order_id, v_order.tab_id, v_from_status, p_to_status, p_initiated_by, p_actor_id, p_reason);
+
+  RETURN to_jsonb(v_order);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION transition_order_status(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- order.confirmed / order.served; a recall is not a second confirmation
+CREATE OR REPLACE FUNCTION queue_order_webhook_events()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_tab tabs%ROWTYPE;
+BEGIN
+  IF NEW.status NOT IN ('confirmed', 'served')
+     OR (TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status)
+     OR (TG_OP = 'UPDATE' AND OLD.status = 'served') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_tab FROM tabs WHERE id = NEW.tab_id;
+
+  PERFORM enqueue_webhook_event(v_tab.bar_id, 'order.' || NEW.status, jsonb_build_object(
+    'order_id', NEW.id,
+    'order_number', NEW.order_number,
+    'tab_id', NEW.tab_id,
+    'tab_number', v_tab.tab_number,
+    'status', NEW.status,
+    'total', NEW.total,
+    'items', NEW.items,
+    'initiated_by', NEW.initiated_by,
+    'confirmed_at', NEW.confirmed_at
+  ));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
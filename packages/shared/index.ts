@@ -13,15 +13,75 @@ export * from './lib/services/phoneValidation';
 // Export simplified M-Pesa configuration loader
 export * from './lib/services/mpesa-config';
 
+// Export M-Pesa tills (several shortcodes per bar, routed by table/station/time)
+export * from './lib/services/mpesa-tills';
+
 // Export simplified M-Pesa OAuth token service
 export * from './lib/services/mpesa-oauth';
 
 // Export simplified M-Pesa STK Push service
 export * from './lib/services/mpesa-stk-push';
 
+// Export M-Pesa C2B (Paybill/Till) reconciliation
+export * from './lib/services/mpesa-c2b';
+
+// Export M-Pesa payment outcome handling, STK status reconciler and callback inbox
+export * from './lib/services/mpesa-payment-outcome';
+export * from './lib/services/mpesa-reconciliation';
+export * from './lib/services/mpesa-callback-inbox';
+
+// Export M-Pesa refunds (reversal + B2C, manager approval)
+export * from './lib/services/mpesa-refunds';
+
+// Export payment plans for overdue tabs (installments, reminders, scheduler)
+export * from './lib/services/payment-plans';
+export * from './lib/services/push-notifications';
+
 // Export Payment Notification Service
 export * from './lib/services/payment-notification-service';
 
+// Export business hours evaluator (simple / advanced / 24h + holiday exceptions)
+export * from './lib/services/business-hours';
+
+// Export daily Z-report service
+export * from './lib/services/daily-report';
+
+// Export Kenya time formatting (screens, exports, receipts)
+export * from './lib/services/kenya-time';
+
+// Export report export service (CSV / XLSX)
+export * from './lib/services/report-export';
+
+// Export tab details service (snapshot + notes updates)
+export * from './lib/services/tab-details';
+
+// Export tab receipts (itemized receipt, PDF, signed share links)
+export * from './lib/services/tab-receipts';
+
+// Export eTIMS tax invoices (tax classes, sale payload, submission adapters)
+export * from './lib/services/etims';
+
+// Export gratuity service (tips + service charge)
+export * from './lib/services/gratuity';
+
+// Export card payment providers (hosted checkout + mock provider)
+export * from './lib/services/card-payments';
+
+// Export cash drawer shifts (float, denomination count, over/short)
+export * from './lib/services/cash-drawer';
+
+// Export tab credit (deposits, credit limits, deposit settlement)
+export * from './lib/services/tab-credit';
+
+// Export staff roles (role permissions, bar access checks)
+export * from './lib/services/staff-roles';
+
+// Export staff venues (bar switching, cross-venue summaries)
+export * from './lib/services/staff-venues';
+
+// Export kitchen display (station tickets, bump and recall)
+export * from './lib/services/kitchen-display';
+
 // Export diagnostic services
 export * from './lib/diagnostics/environment-validator';
 
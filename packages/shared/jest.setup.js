@@ -4,6 +4,11 @@
 // Increase timeout for property-based tests
 jest.setTimeout(30000);
 
+// jsdom lacks the encoding and web stream globals that Node provides
+const { TextEncoder, TextDecoder } = require('util');
+const { ReadableStream } = require('stream/web');
+Object.assign(global, { TextEncoder, TextDecoder, ReadableStream });
+
 // Mock React and DOM environment for component tests
 global.React = require('react');
 
@@ -27,17 +32,19 @@ jest.mock('next/navigation', () => ({
   },
 }));
 
-// Mock window.matchMedia for component tests
-Object.defineProperty(window, 'matchMedia', {
-  writable: true,
-  value: jest.fn().mockImplementation(query => ({
-    matches: false,
-    media: query,
-    onchange: null,
-    addListener: jest.fn(), // deprecated
-    removeListener: jest.fn(), // deprecated
-    addEventListener: jest.fn(),
-    removeEventListener: jest.fn(),
-    dispatchEvent: jest.fn(),
-  })),
-});
\ No newline at end of file
+// Mock window.matchMedia for component tests (skipped in node environment tests)
+if (typeof window !== 'undefined') {
+  Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: jest.fn().mockImplementation(query => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: jest.fn(), // deprecated
+      removeListener: jest.fn(), // deprecated
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn(),
+      dispatchEvent: jest.fn(),
+    })),
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the business hours evaluator
+ * Tests simple, advanced per-day and 24h modes, overnight spillover,
+ * holiday closures, special hours and overdue detection
+ */
+
+import {
+  getBusinessHoursStatus,
+  getWeeklyHours,
+  isBarOpenAt,
+  kenyaLocalToUtc,
+  shouldTabBeOverdue,
+  validateBusinessHoursExceptions,
+  type BarBusinessHours
+} from '../business-hours';
+
+// Kenya wall-clock time as a Date
+const at = (date: string, time: string) => kenyaLocalToUtc(date, time);
+
+const simpleBar: BarBusinessHours = {
+  business_hours_mode: 'simple',
+  business_hours_simple: { openTime: '18:00', closeTime: '02:00', closeNextDay: true },
+  business_hours_advanced: null,
+  business_24_hours: false
+};
+
+// 2026-10-16 is a Friday
+const advancedBar: BarBusinessHours = {
+  business_hours_mode: 'advanced',
+  business_hours_simple: null,
+  business_hours_advanced: [
+    { day: 'friday', label: 'Friday', open: true, openTime: '18:00', closeTime: '02:00', openNextDay: true },
+    { day: 'saturday', label: 'Saturday', open: true, openTime: '12:00', closeTime: '23:00', openNextDay: false },
+    { day: 'sunday', label: 'Sunday', open: false, openTime: '10:00', closeTime: '22:00', openNextDay: false }
+  ],
+  business_24_hours: false
+};
+
+describe('Business Hours Service', () => {
+  describe('advanced per-day hours', () => {
+    test('should keep the bar open past midnight on the previous day\'s hours', () => {
+      const status = getBusinessHoursStatus(advancedBar, at('2026-10-17', '01:00'));
+      expect(status.isOpen).toBe(true);
+      expect(status.current?.date).toBe('2026-10-16');
+      expect(isBarOpenAt(advancedBar, at('2026-10-17', '02:30'))).toBe(false);
+    });
+
+    test('should point to the next day that opens', () => {
+      expect(getBusinessHoursStatus(advancedBar, at('2026-10-17', '02:30')).next?.start)
+        .toEqual(at('2026-10-17', '12:00'));
+
+      // Closed Sunday and unconfigured weekdays: next opening is the following Friday
+      const status = getBusinessHoursStatus(advancedBar, at('2026-10-18', '13:00'));
+      expect(status.isOpen).toBe(false);
+      expect(status.next?.date).toBe('2026-10-23');
+      expect(status.next?.openTime).toBe('18:00');
+    });
+
+    test('should list the week Monday first with closed days', () => {
+      const week = getWeeklyHours(advancedBar);
+      expect(week.map(day => day.day)[0]).toBe('monday');
+      expect(week[0].open).toBe(false);
+      expect(week[4]).toEqual({
+        day: 'friday', label: 'Friday', open: true, openTime: '18:00', closeTime: '02:00', closesNextDay: true
+      });
+    });
+  });
+
+  describe('simple and 24h modes', () => {
+    test('should evaluate simple overnight hours in Kenya time', () => {
+      expect(isBarOpenAt(simpleBar, at('2026-10-19', '23:30'))).toBe(true);
+      expect(isBarOpenAt(simpleBar, at('2026-10-20', '01:59'))).toBe(true);
+      expect(isBarOpenAt(simpleBar, at('2026-10-20', '02:00'))).toBe(false);
+      expect(isBarOpenAt(simpleBar, at('2026-10-20', '17:59'))).toBe(false);
+    });
+
+    test('should treat 24h and unconfigured bars as always open', () => {
+      const alwaysOpen = { ...simpleBar, business_hours_mode: '24hours' as const, business_24_hours: true };
+      expect(isBarOpenAt(alwaysOpen, at('2026-10-19', '04:00'))).toBe(true);
+      expect(isBarOpenAt({ ...simpleBar, business_hours_mode: null }, at('2026-10-19', '04:00'))).toBe(true);
+    });
+  });
+
+  describe('exceptions', () => {
+    const holidayBar: BarBusinessHours = {
+      ...simpleBar,
+      business_hours_simple: { openTime: '10:00', closeTime: '22:00', closeNextDay: false },
+      business_hours_exceptions: [
+        { date: '2026-12-24', endDate: '2026-12-26', type: 'closed', label: 'Christmas' },
+        { date: '2026-12-31', type: 'special', label: 'New Year\'s Eve', openTime: '18:00', closeTime: '03:00', closeNextDay: true }
+      ]
+    };
+
+    test('should close for a holiday range and reopen after it', () => {
+      const status = getBusinessHoursStatus(holidayBar, at('2026-12-25', '12:00'));
+      expect(status.isOpen).toBe(false);
+      expect(status.closure?.label).toBe('Christmas');
+      expect(status.next?.start).toEqual(at('2026-12-27', '10:00'));
+    });
+
+    test('should replace the day\'s hours with special hours', () => {
+      expect(isBarOpenAt(holidayBar, at('2026-12-31', '12:00'))).toBe(false);
+      expect(isBarOpenAt(holidayBar, at('2027-01-01', '02:30'))).toBe(true);
+      expect(isBarOpenAt(holidayBar, at('2027-01-01', '03:30'))).toBe(false);
+    });
+
+    test('should close a 24h bar on a holiday', () => {
+      const bar: BarBusinessHours = {
+        ...simpleBar,
+        business_hours_mode: '24hours',
+        business_24_hours: true,
+        business_hours_exceptions: [{ date: '2026-12-25', type: 'closed' }]
+      };
+      expect(isBarOpenAt(bar, at('2026-12-25', '12:00'))).toBe(false);
+      expect(isBarOpenAt(bar, at('2026-12-26', '00:00'))).toBe(true);
+    });
+
+    test('should validate exceptions before saving', () => {
+      expect(validateBusinessHoursExceptions(holidayBar.business_hours_exceptions!)).toBeNull();
+      expect(validateBusinessHoursExceptions([{ date: '2026-02-30', type: 'closed' }])).toContain('Invalid date');
+      expect(validateBusinessHoursExceptions([{ date: '2026-12-26', endDate: '2026-12-24', type: 'closed' }]))
+        .toContain('End date');
+      expect(validateBusinessHoursExceptions([{ date: '2026-12-31', type: 'special' }])).toContain('opening and closing');
+    });
+  });
+
+  describe('shouldTabBeOverdue', () => {
+    const tab = { status: 'open', opened_at: at('2026-10-17', '20:00').toISOString() };
+
+    test('should flag tabs with a balance once the bar closes', () => {
+      expect(shouldTabBeOverdue(simpleBar, tab, 500, at('2026-10-18', '03:00'))).toBe(true);
+      expect(shouldTabBeOverdue(simpleBar, tab, 0, at('2026-10-18', '03:00'))).toBe(false);
+      expect(shouldTabBeOverdue(simpleBar, tab, 500, at('2026-10-18', '01:00'))).toBe(false);
+    });
+
+    test('should flag tabs left over from an earlier opening period', () => {
+      expect(shouldTabBeOverdue(simpleBar, tab, 500, at('2026-10-18', '19:00'))).toBe(true);
+      expect(shouldTabBeOverdue({ ...simpleBar, business_hours_mode: '24hours' }, tab, 500, at('2026-10-20', '19:00')))
+        .toBe(false);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for card payment providers
+ * Tests per-bar config loading, the provider registry and the mock
+ * provider's hosted checkout and signed callbacks
+ */
+
+import {
+  CardConfigurationError,
+  CardPaymentError,
+  MOCK_SIGNATURE_HEADER,
+  buildMockCardCallback,
+  getCardProvider,
+  isCardConfiguredForBar,
+  listCardProviders,
+  loadCardConfigFromBar,
+  mockCardProvider,
+  registerCardProvider,
+  signCardCallback,
+  type BarCardData,
+  type CardPaymentProvider
+} from '../card-payments';
+import { encryptToBytea } from '../mpesa-encryption';
+
+const headers = (values: Record<string, string>) => ({
+  get: (name: string) => values[name.toLowerCase()] ?? null
+});
+
+const mockBar: BarCardData = {
+  card_enabled: true,
+  card_provider: 'mock',
+  card_environment: 'sandbox',
+  card_merchant_id: null,
+  card_api_key_encrypted: null,
+  card_webhook_secret_encrypted: null
+};
+
+describe('Card Payments Service', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      MPESA_KMS_KEY: '12345678901234567890123456789012',
+      CARD_CALLBACK_URL: 'http://localhost:3002/api/payments/card/callback',
+      CARD_MOCK_ENABLED: 'true'
+    };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('loadCardConfigFromBar', () => {
+    test('should load the mock provider without credentials in sandbox only', () => {
+      const config = loadCardConfigFromBar(mockBar);
+      expect(config.provider).toBe('mock');
+      expect(config.callbackUrl).toBe('http://localhost:3002/api/payments/card/callback?provider=mock');
+
+      expect(() => loadCardConfigFromBar({ ...mockBar, card_environment: 'production' }))
+        .toThrow('cannot be used in production');
+      expect(isCardConfiguredForBar({ ...mockBar, card_enabled: false })).toBe(false);
+    });
+
+    test('should refuse the mock provider unless the server enables it', () => {
+      delete process.env.CARD_MOCK_ENABLED;
+      expect(() => loadCardConfigFromBar(mockBar)).toThrow('not enabled on this server');
+    });
+
+    test('should decrypt credentials for providers that need them', () => {
+      const provider: CardPaymentProvider = {
+        ...mockCardProvider,
+        name: 'test-gateway',
+        label: 'Test Gateway',
+        requiresCredentials: true
+      };
+      registerCardProvider(provider);
+
+      const bar: BarCardData = {
+        ...mockBar,
+        card_provider: 'test-gateway',
+        card_merchant_id: 'MERCHANT1',
+        card_api_key_encrypted: encryptToBytea('api_key_123'),
+        card_webhook_secret_encrypted: encryptToBytea('whsec_456')
+      };
+
+      const config = loadCardConfigFromBar(bar);
+      expect(config.apiKey).toBe('api_key_123');
+      expect(config.webhookSecret).toBe('whsec_456');
+      expect(listCardProviders().map(p => p.name)).toEqual(expect.arrayContaining(['mock', 'test-gateway']));
+
+      try {
+        loadCardConfigFromBar({ ...bar, card_merchant_id: null, card_webhook_secret_encrypted: null });
+        throw new Error('expected a configuration error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(CardConfigurationError);
+        expect((error as CardConfigurationError).missingFields).toEqual(['card_merchant_id', 'card_webhook_secret_encrypted']);
+      }
+    });
+
+    test('should reject unknown providers and environments', () => {
+      expect(() => getCardProvider('nope')).toThrow(CardConfigurationError);
+      expect(() => loadCardConfigFromBar({ ...mockBar, card_provider: 'nope' })).toThrow('Unknown card provider');
+      expect(() => loadCardConfigFromBar({ ...mockBar, card_environment: 'staging' })).toThrow('Invalid card_environment');
+    });
+  });
+
+  describe('mock provider', () => {
+    test('should point the hosted checkout at the app serving the callback', async () => {
+      const config = loadCardConfigFromBar(mockBar);
+      const session = await mockCardProvider.createCheckoutSession({
+        paymentId: 'payment-1',
+        tabId: 'tab-1',
+        amount: 1150,
+        description: 'Tab Payment',
+        returnUrl: 'http://localhost:3002/payment/card/return'
+      }, config);
+
+      const url = new URL(session.checkoutUrl);
+      expect(url.origin).toBe('http://localhost:3002');
+      expect(url.pathname).toBe('/payment/card/mock-checkout');
+      expect(url.searchParams.get('reference')).toBe(session.reference);
+      expect(url.searchParams.get('amount')).toBe('1150');
+    });
+
+    test('should only accept callbacks signed with the bar secret', () => {
+      const config = loadCardConfigFromBar(mockBar);
+      const body = buildMockCardCallback('mockcard_1', true);
+
+      expect(mockCardProvider.parseCallback(body)).toMatchObject({ reference: 'mockcard_1', status: 'success', cardLast4: '4242' });
+      expect(mockCardProvider.verifyCallback(body, headers({ [MOCK_SIGNATURE_HEADER]: signCardCallback(body, config.webhookSecret) }), config))
+        .toBe(true);
+      expect(mockCardProvider.verifyCallback(body, headers({ [MOCK_SIGNATURE_HEADER]: signCardCallback(body, 'other') }), config))
+        .toBe(false);
+      expect(mockCardProvider.verifyCallback(body, headers({}), config)).toBe(false);
+    });
+
+    test('should reject malformed callbacks', () => {
+      expect(() => mockCardProvider.parseCallback('not json')).toThrow(CardPaymentError);
+      expect(() => mockCardProvider.parseCallback('{"status":"success"}')).toThrow('missing reference');
+      expect(() => mockCardProvider.parseCallback('{"reference":"r","status":"maybe"}')).toThrow('status');
+      expect(mockCardProvider.parseCallback(buildMockCardCallback('r', false)).failureReason).toBe('Card declined');
+    });
+  });
+});
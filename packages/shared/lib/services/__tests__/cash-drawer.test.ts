@@ -0,0 +1,202 @@
+/**
+ * Unit tests for cash drawer shifts
+ * Tests denomination counts, over/short reconciliation, recording cash under
+ * the open shift and closing a shift against an in-memory Supabase stand-in
+ */
+
+import {
+  CashDrawerError,
+  closeCashShift,
+  countDenominations,
+  getCashShiftReport,
+  openCashShift,
+  recordCashPayment,
+  summarizeCashShift
+} from '../cash-drawer';
+
+// Minimal query builder over plain arrays: enough for the shift queries.
+// Dotted columns ("tabs.bar_id") read from the embedded row.
+function createSupabase(tables: Record<string, any[]>) {
+  let nextId = 1;
+
+  function query(table: string) {
+    const filters: Array<(row: any) => boolean> = [];
+    let operation: 'select' | 'insert' | 'update' = 'select';
+    let values: any = null;
+    let single = false;
+
+    const read = (row: any, column: string) =>
+      column.split('.').reduce((value, key) => (value == null ? undefined : value[key]), row);
+
+    const execute = () => {
+      const rows = tables[table] = tables[table] || [];
+      if (operation === 'insert') {
+        if (table === 'cash_drawer_shifts' && rows.some(row => row.bar_id === values.bar_id && row.opened_by === values.opened_by && row.status === 'open')) {
+          return { data: null, error: { code: '23505', message: 'duplicate key value' } };
+        }
+        const inserted = { id: `${table}-${nextId++}`, status: 'open', opened_at: '2026-10-19T15:00:00.000Z', notes: null, ...values };
+        rows.push(inserted);
+        return { data: single ? inserted : [inserted], error: null };
+      }
+      const matched = rows.filter(row => filters.every(filter => filter(row)));
+      if (operation === 'update') {
+        matched.forEach(row => Object.assign(row, values));
+      }
+      const data = matched.map(row => ({ ...row }));
+      return single ? { data: data[0] ?? null, error: null } : { data, error: null };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      insert: (row: any) => { operation = 'insert'; values = row; return builder; },
+      update: (updates: any) => { operation = 'update'; values = updates; return builder; },
+      eq: (column: string, value: any) => { filters.push(row => read(row, column) === value); return builder; },
+      gte: (column: string, value: string) => { filters.push(row => read(row, column) >= value); return builder; },
+      lt: (column: string, value: string) => { filters.push(row => read(row, column) < value); return builder; },
+      order: () => builder,
+      limit: () => builder,
+      single: () => { single = true; return Promise.resolve(execute()); },
+      maybeSingle: () => { single = true; return Promise.resolve(execute()); },
+      then: (resolve: any, reject: any) => Promise.resolve(execute()).then(resolve, reject)
+    };
+    return builder;
+  }
+
+  return { from: query } as any;
+}
+
+const staff = { type: 'staff' as const, userId: 'staff-1' };
+
+function createBar() {
+  const tables: Record<string, any[]> = {
+    tabs: [{ id: 'tab-1', bar_id: 'bar-1', status: 'open', notes: null }],
+    user_bars: [{ user_id: 'staff-1', bar_id: 'bar-1' }],
+    cash_drawer_shifts: [],
+    tab_payments: []
+  };
+  return { tables, supabase: createSupabase(tables) };
+}
+
+describe('Cash Drawer Service', () => {
+  describe('countDenominations', () => {
+    test('should total notes and coins and drop empty counts', () => {
+      expect(countDenominations({ 1000: 2, 500: '1', 50: 3, 5: 0, 1: '' })).toEqual({
+        denominations: { '1000': 2, '500': 1, '50': 3 },
+        total: 2650
+      });
+    });
+
+    test('should reject unknown denominations and bad counts', () => {
+      expect(() => countDenominations(null)).toThrow(CashDrawerError);
+      expect(() => countDenominations({ 2000: 1 })).toThrow('Unknown denomination');
+      expect(() => countDenominations({ 100: -1 })).toThrow('whole number');
+      expect(() => countDenominations({ 100: 1.5 })).toThrow('whole number');
+    });
+  });
+
+  describe('summarizeCashShift', () => {
+    test('should expect the float plus cash taken, tips included', () => {
+      const totals = summarizeCashShift(
+        '2000',
+        [{ amount: '500.50', tip_amount: 50 }, { amount: 300, service_charge_amount: '30' }],
+        [{ amount: 1200 }],
+        2850
+      );
+
+      expect(totals).toEqual({
+        openingFloat: 2000,
+        cashTotal: 880.5,
+        cashCount: 2,
+        mpesaTotal: 1200,
+        mpesaCount: 1,
+        expectedCash: 2880.5,
+        countedCash: 2850,
+        overShort: -30.5
+      });
+    });
+
+    test('should leave over/short empty until the drawer is counted', () => {
+      expect(summarizeCashShift(0, [], []).overShort).toBeNull();
+    });
+  });
+
+  describe('shifts', () => {
+    test('should allow one open shift per staff member', async () => {
+      const { supabase } = createBar();
+
+      const shift = await openCashShift(supabase, 'bar-1', 'staff-1', 1500);
+      expect(shift.opening_float).toBe(1500);
+
+      await expect(openCashShift(supabase, 'bar-1', 'staff-1', 0)).rejects.toMatchObject({ statusCode: 409 });
+      await expect(openCashShift(supabase, 'bar-1', 'staff-2', -1)).rejects.toThrow('Opening float');
+    });
+
+    test('should record cash under the open shift, or without one', async () => {
+      const { tables, supabase } = createBar();
+
+      const before = await recordCashPayment(supabase, 'tab-1', staff, 200);
+      expect(before.shift).toBeNull();
+      expect(before.payment.cash_shift_id).toBeNull();
+
+      const shift = await openCashShift(supabase, 'bar-1', 'staff-1', 1000);
+      const after = await recordCashPayment(supabase, 'tab-1', staff, 350);
+      expect(after.shift?.id).toBe(shift.id);
+      expect(tables.tab_payments[1]).toMatchObject({ method: 'cash', status: 'success', amount: 350, cash_shift_id: shift.id });
+    });
+
+    test('should refuse cash from customers or on closed tabs', async () => {
+      const { tables, supabase } = createBar();
+
+      await expect(recordCashPayment(supabase, 'tab-1', { type: 'customer', deviceId: 'd' } as any, 100)).rejects.toMatchObject({ statusCode: 403 });
+      await expect(recordCashPayment(supabase, 'tab-1', staff, 0)).rejects.toThrow('positive');
+
+      tables.tabs[0].status = 'closed';
+      await expect(recordCashPayment(supabase, 'tab-1', staff, 100)).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    test('should close a shift with its over/short and the M-Pesa taken meanwhile', async () => {
+      const { tables, supabase } = createBar();
+      const shift = await openCashShift(supabase, 'bar-1', 'staff-1', 1000);
+      await recordCashPayment(supabase, 'tab-1', staff, 450);
+      tables.tab_payments.push(
+        { id: 'm1', amount: 800, method: 'mpesa', status: 'success', created_at: '2026-10-19T16:00:00.000Z', tabs: { bar_id: 'bar-1' } },
+        { id: 'm2', amount: 900, method: 'mpesa', status: 'success', created_at: '2026-10-19T12:00:00.000Z', tabs: { bar_id: 'bar-1' } },
+        { id: 'm3', amount: 700, method: 'mpesa', status: 'success', created_at: '2026-10-19T16:00:00.000Z', tabs: { bar_id: 'bar-2' } }
+      );
+
+      const live = await getCashShiftReport(supabase, shift.id, new Date('2026-10-19T18:00:00.000Z'));
+      expect(live.totals.expectedCash).toBe(1450);
+      expect(live.totals.countedCash).toBeNull();
+
+      const closed = await closeCashShift(
+        supabase,
+        'bar-1',
+        shift.id,
+        'staff-1',
+        { denominations: { 1000: 1, 200: 2 } },
+        false,
+        new Date('2026-10-19T18:00:00.000Z')
+      );
+
+      expect(closed.totals).toMatchObject({ expectedCash: 1450, countedCash: 1400, overShort: -50, mpesaTotal: 800, mpesaCount: 1 });
+      expect(tables.cash_drawer_shifts[0]).toMatchObject({ status: 'closed', closed_by: 'staff-1', counted_cash: 1400, over_short: -50 });
+
+      const report = await getCashShiftReport(supabase, shift.id);
+      expect(report.totals.overShort).toBe(-50);
+
+      await expect(closeCashShift(supabase, 'bar-1', shift.id, 'staff-1', { denominations: {} })).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    test('should only let the opener or a manager close a shift', async () => {
+      const { supabase } = createBar();
+      const shift = await openCashShift(supabase, 'bar-1', 'staff-1', 0);
+
+      await expect(closeCashShift(supabase, 'bar-1', shift.id, 'staff-2', { denominations: {} })).rejects.toMatchObject({ statusCode: 403 });
+      await expect(closeCashShift(supabase, 'bar-2', shift.id, 'staff-1', { denominations: {} })).rejects.toMatchObject({ statusCode: 404 });
+
+      const closed = await closeCashShift(supabase, 'bar-1', shift.id, 'staff-2', { denominations: {} }, true);
+      expect(closed.shift.closed_by).toBe('staff-2');
+      expect(closed.totals.overShort).toBe(0);
+    });
+  });
+});
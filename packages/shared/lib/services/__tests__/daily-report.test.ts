@@ -0,0 +1,251 @@
+/**
+ * Unit tests for the daily Z-report service
+ * Tests business-day windows and report aggregation
+ */
+
+import {
+  getBusinessDayWindow,
+  getCurrentBusinessDate,
+  buildDailyReport,
+  getBalancesAtWindowEnd,
+  isValidBusinessDate,
+  DailyReportError,
+  type BarBusinessHours
+} from '../daily-report';
+
+const overnightBar: BarBusinessHours = {
+  business_hours_mode: 'simple',
+  business_hours_simple: { openTime: '18:00', closeTime: '04:00', closeNextDay: true },
+  business_hours_advanced: null,
+  business_24_hours: false
+};
+
+const advancedBar: BarBusinessHours = {
+  business_hours_mode: 'advanced',
+  business_hours_simple: null,
+  business_hours_advanced: [
+    { day: 'friday', open: true, openTime: '16:00', closeTime: '03:00', openNextDay: true },
+    { day: 'saturday', open: true, openTime: '12:00', closeTime: '04:00', openNextDay: true },
+    { day: 'sunday', open: false, openTime: '', closeTime: '', openNextDay: false },
+    { day: 'monday', open: true, openTime: '17:00', closeTime: '23:00', openNextDay: false }
+  ],
+  business_24_hours: false
+};
+
+describe('Daily Report Service', () => {
+  describe('isValidBusinessDate', () => {
+    test('should accept real calendar dates', () => {
+      expect(isValidBusinessDate('2024-02-29')).toBe(true);
+    });
+
+    test('should reject malformed or impossible dates', () => {
+      expect(isValidBusinessDate('2023-02-29')).toBe(false);
+      expect(isValidBusinessDate('29/02/2024')).toBe(false);
+      expect(isValidBusinessDate('')).toBe(false);
+    });
+  });
+
+  describe('getBusinessDayWindow', () => {
+    test('should span from opening time to the next opening time in Kenya time', () => {
+      const window = getBusinessDayWindow(overnightBar, '2024-06-14');
+
+      // 18:00 EAT = 15:00 UTC
+      expect(window.start).toBe('2024-06-14T15:00:00.000Z');
+      expect(window.end).toBe('2024-06-15T15:00:00.000Z');
+    });
+
+    test('should use calendar days for 24 hour bars', () => {
+      const window = getBusinessDayWindow({ ...overnightBar, business_hours_mode: '24hours', business_24_hours: true }, '2024-06-14');
+
+      expect(window.start).toBe('2024-06-13T21:00:00.000Z');
+      expect(window.end).toBe('2024-06-14T21:00:00.000Z');
+    });
+
+    test('should start a closed day when the previous night spills over', () => {
+      // Sunday is closed, Saturday runs until 04:00 Sunday
+      const saturday = getBusinessDayWindow(advancedBar, '2024-06-15');
+      const sunday = getBusinessDayWindow(advancedBar, '2024-06-16');
+
+      expect(saturday.start).toBe('2024-06-15T09:00:00.000Z');
+      expect(saturday.end).toBe('2024-06-16T01:00:00.000Z');
+      expect(sunday.start).toBe(saturday.end);
+      expect(sunday.end).toBe('2024-06-17T14:00:00.000Z');
+    });
+
+    test('should throw a 400 error for invalid dates', () => {
+      expect(() => getBusinessDayWindow(overnightBar, 'yesterday')).toThrow(DailyReportError);
+      try {
+        getBusinessDayWindow(overnightBar, 'yesterday');
+      } catch (error) {
+        expect((error as DailyReportError).statusCode).toBe(400);
+      }
+    });
+  });
+
+  describe('getCurrentBusinessDate', () => {
+    test('should attribute early morning hours to the previous night', () => {
+      // 02:00 EAT on Saturday is still Friday night
+      expect(getCurrentBusinessDate(overnightBar, new Date('2024-06-14T23:00:00.000Z'))).toBe('2024-06-14');
+    });
+
+    test('should roll over once the bar opens', () => {
+      expect(getCurrentBusinessDate(overnightBar, new Date('2024-06-15T15:30:00.000Z'))).toBe('2024-06-15');
+    });
+  });
+
+  describe('buildDailyReport', () => {
+    const window = getBusinessDayWindow(overnightBar, '2024-06-14');
+    const inside = '2024-06-14T20:00:00.000Z';
+    const outside = '2024-06-14T10:00:00.000Z';
+
+    const report = buildDailyReport({
+      barId: 'bar-1',
+      barName: 'Test Bar',
+      window,
+      generatedAt: '2024-06-15T02:00:00.000Z',
+      tabs: [
+        { id: 't1', tab_number: 1, status: 'closed', opened_at: inside, closed_at: inside },
+        { id: 't2', tab_number: 2, status: 'overdue', opened_at: inside, moved_to_overdue_at: inside },
+        { id: 't3', tab_number: 3, status: 'open', opened_at: outside }
+      ],
+      orders: [
+        { id: 'o1', tab_id: 't1', total: '500.00', status: 'confirmed', created_at: inside },
+        { id: 'o2', tab_id: 't1', total: 300, status: 'served', created_at: inside },
+        { id: 'o3', tab_id: 't2', total: 200, status: 'cancelled', created_at: inside },
+        { id: 'o4', tab_id: 't2', total: 150, status: 'pending', created_at: inside },
+        { id: 'o5', tab_id: 't3', total: 999, status: 'confirmed', created_at: outside }
+      ],
+      payments: [
+        { id: 'p1', tab_id: 't1', amount: '600', tip_amount: '60.00', service_charge_amount: '30.00', method: 'mpesa', status: 'success', created_at: inside },
+        { id: 'p2', tab_id: 't1', amount: 200, tip_amount: 0, method: 'cash', status: 'success', created_at: inside },
+        { id: 'p3', tab_id: 't2', amount: 100, method: 'card', status: 'success', created_at: inside },
+        { id: 'p4', tab_id: 't2', amount: 400, tip_amount: 40, method: 'mpesa', status: 'failed', created_at: inside },
+        { id: 'p5', tab_id: 't3', amount: 50, method: 'cash', status: 'success', created_at: outside }
+      ],
+      writeOffs: [
+        { id: 'w1', tab_id: 't2', amount: '250', created_at: inside }
+      ],
+      balances: [
+        { tab_id: 't2', tab_number: 2, status: 'overdue', balance: '250' },
+        { tab_id: 't3', tab_number: 3, status: 'open', balance: 949 },
+        { tab_id: 't1', tab_number: 1, status: 'closed', balance: 0 }
+      ]
+    });
+
+    test('should count tabs opened, closed and moved to overdue within the window', () => {
+      expect(report.tabs).toEqual({ opened: 2, closed: 1, overdue: 1 });
+    });
+
+    test('should total confirmed and served orders only', () => {
+      expect(report.orders).toEqual({ count: 2, cancelled: 1, gross: 800 });
+    });
+
+    test('should group successful payments by method', () => {
+      expect(report.payments.byMethod).toEqual({
+        mpesa: { count: 1, amount: 600 },
+        cash: { count: 1, amount: 200 },
+        cards: { count: 1, amount: 100 }
+      });
+      expect(report.payments.total).toBe(900);
+    });
+
+    test('should report tips and service charge apart from payments', () => {
+      expect(report.payments.tips).toEqual({ count: 1, amount: 60 });
+      expect(report.payments.serviceCharges).toEqual({ count: 1, amount: 30 });
+    });
+
+    test('should break M-Pesa payments down per till', () => {
+      expect(report.payments.byTill).toEqual([
+        { tillId: null, name: 'Main shortcode', count: 1, amount: 600 }
+      ]);
+
+      const tillReport = buildDailyReport({
+        barId: 'bar-1',
+        barName: 'Test Bar',
+        window,
+        tabs: [],
+        orders: [],
+        payments: [
+          { id: 'p1', tab_id: 't1', amount: 300, method: 'mpesa', status: 'success', mpesa_till_id: 'till-roof', created_at: inside },
+          { id: 'p2', tab_id: 't1', amount: 500, method: 'mpesa', status: 'success', mpesa_till_id: 'till-roof', created_at: inside },
+          { id: 'p3', tab_id: 't2', amount: 200, method: 'mpesa', status: 'success', mpesa_till_id: null, created_at: inside },
+          { id: 'p4', tab_id: 't2', amount: 900, method: 'mpesa', status: 'failed', mpesa_till_id: 'till-roof', created_at: inside },
+          { id: 'p5', tab_id: 't2', amount: 100, method: 'cash', status: 'success', created_at: inside }
+        ],
+        writeOffs: [],
+        balances: [],
+        tills: [{ id: 'till-roof', name: 'Rooftop' }]
+      });
+
+      expect(tillReport.payments.byTill).toEqual([
+        { tillId: 'till-roof', name: 'Rooftop', count: 2, amount: 800 },
+        { tillId: null, name: 'Main shortcode', count: 1, amount: 200 }
+      ]);
+    });
+
+    test('should list cash drawer shifts closed within the day', () => {
+      expect(report.cashShifts).toEqual({ count: 0, expected: 0, counted: 0, overShort: 0, shifts: [] });
+
+      const shiftReport = buildDailyReport({
+        barId: 'bar-1',
+        barName: 'Test Bar',
+        window,
+        tabs: [],
+        orders: [],
+        payments: [],
+        writeOffs: [],
+        balances: [],
+        cashShifts: [
+          { id: 's2', opened_by: 'u2', opened_at: inside, closed_at: '2024-06-14T23:00:00.000Z', opening_float: '1000', cash_total: '800', mpesa_total: 0, expected_cash: '1800', counted_cash: '1850', over_short: '50' },
+          { id: 's1', opened_by: 'u1', opened_at: inside, closed_at: '2024-06-14T21:00:00.000Z', opening_float: 500, cash_total: 400, mpesa_total: 1200, expected_cash: 900, counted_cash: 880, over_short: -20 },
+          { id: 's0', opened_by: 'u1', opened_at: outside, closed_at: outside, opening_float: 0, cash_total: 0, mpesa_total: 0, expected_cash: 0, counted_cash: 0, over_short: 0 }
+        ]
+      });
+
+      expect(shiftReport.cashShifts.count).toBe(2);
+      expect(shiftReport.cashShifts.shifts.map(shift => shift.shiftId)).toEqual(['s1', 's2']);
+      expect(shiftReport.cashShifts.shifts[1]).toMatchObject({ openingFloat: 1000, expected: 1800, counted: 1850, overShort: 50 });
+      expect(shiftReport.cashShifts).toMatchObject({ expected: 2700, counted: 2730, overShort: 30 });
+    });
+
+    test('should total write-offs and outstanding balances', () => {
+      expect(report.writeOffs).toEqual({ count: 1, amount: 250 });
+      expect(report.outstanding.tabCount).toBe(2);
+      expect(report.outstanding.amount).toBe(1199);
+      expect(report.outstanding.tabs[0].tabNumber).toBe(3);
+    });
+  });
+
+  describe('getBalancesAtWindowEnd', () => {
+    const window = getBusinessDayWindow(overnightBar, '2024-06-14');
+    const inside = '2024-06-14T20:00:00.000Z';
+    const after = '2024-06-16T12:00:00.000Z';
+
+    test('should count what was owed at closing time, not what is owed now', () => {
+      const balances = getBalancesAtWindowEnd(
+        [
+          { id: 't1', tab_number: 1, status: 'closed', opened_at: inside, closed_at: after, moved_to_overdue_at: inside },
+          { id: 't2', tab_number: 2, status: 'closed', opened_at: inside, closed_at: inside },
+          { id: 't3', tab_number: 3, status: 'open', opened_at: inside }
+        ],
+        [
+          { id: 'o1', tab_id: 't1', total: '800.00', status: 'served', created_at: inside },
+          { id: 'o2', tab_id: 't3', total: 500, status: 'confirmed', created_at: inside },
+          { id: 'o3', tab_id: 't3', total: 300, status: 'served', created_at: after },
+          { id: 'o4', tab_id: 't3', total: 200, status: 'cancelled', created_at: inside }
+        ],
+        [
+          { id: 'p1', tab_id: 't1', amount: 300, method: 'cash', status: 'success', created_at: inside },
+          { id: 'p2', tab_id: 't1', amount: 500, method: 'mpesa', status: 'success', created_at: after },
+          { id: 'p3', tab_id: 't3', amount: 100, method: 'mpesa', status: 'failed', created_at: inside }
+        ],
+        window
+      );
+
+      expect(balances).toEqual([
+        { tab_id: 't1', tab_number: 1, status: 'overdue', balance: 500 },
+        { tab_id: 't3', tab_number: 3, status: 'open', balance: 500 }
+      ]);
+    });
+  });
+});
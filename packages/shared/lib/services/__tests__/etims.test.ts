@@ -0,0 +1,174 @@
+/**
+ * Unit tests for eTIMS tax invoices
+ * Tests tax on inclusive and exclusive prices, matching order items to tax
+ * classes, the sale payload and the local stub adapter
+ */
+
+import {
+  buildEtimsSalePayload,
+  calculateLineTax,
+  EtimsError,
+  getEtimsAdapter,
+  listEtimsAdapters,
+  loadEtimsConfigFromBar,
+  resolveItemTaxClass,
+  stubEtimsAdapter,
+  summarizeTaxes,
+  type EtimsConfig,
+  type TaxableLine
+} from '../etims';
+
+const config: EtimsConfig = {
+  adapter: 'stub',
+  tin: 'P051234567X',
+  branchId: '00',
+  deviceSerial: 'KRACU0100000042',
+  pricesIncludeTax: true
+};
+
+const lines: TaxableLine[] = [
+  { name: 'Tusker', quantity: 2, unitPrice: 300, total: 600, taxClass: 'excise_inclusive' },
+  { name: 'Nyama Choma', quantity: 1, unitPrice: 1200, total: 1200, taxClass: 'vat_16' },
+  { name: 'Maize flour', quantity: 1, unitPrice: 200, total: 200, taxClass: 'exempt' }
+];
+
+describe('eTIMS Service', () => {
+  describe('calculateLineTax', () => {
+    test('should carve VAT out of tax-inclusive prices', () => {
+      expect(calculateLineTax(1160, 'vat_16', true)).toEqual({ net: 1000, tax: 160, gross: 1160 });
+      expect(calculateLineTax(200, 'exempt', true)).toEqual({ net: 200, tax: 0, gross: 200 });
+    });
+
+    test('should add VAT on top of tax-exclusive prices', () => {
+      expect(calculateLineTax(1000, 'excise_inclusive', false)).toEqual({ net: 1000, tax: 160, gross: 1160 });
+    });
+  });
+
+  describe('summarizeTaxes', () => {
+    test('should group lines by eTIMS tax type', () => {
+      expect(summarizeTaxes(lines, true)).toEqual([
+        { taxType: 'A', label: 'Exempt', rate: 0, net: 200, tax: 0, gross: 200 },
+        { taxType: 'B', label: 'VAT 16%', rate: 0.16, net: 1551.72, tax: 248.28, gross: 1800 }
+      ]);
+    });
+  });
+
+  describe('resolveItemTaxClass', () => {
+    const products = [
+      { id: 'bp-1', product_id: 'catalog-1', custom_product_id: null, name: 'Tusker', tax_class: 'excise_inclusive' },
+      { id: 'bp-2', product_id: null, custom_product_id: 'custom-1', name: 'Chapati', tax_class: 'exempt' }
+    ];
+
+    test('should match items by any product id, then by name', () => {
+      expect(resolveItemTaxClass({ product_id: 'catalog-1', name: 'Beer' }, products)).toBe('excise_inclusive');
+      expect(resolveItemTaxClass({ bar_product_id: 'bp-2' }, products)).toBe('exempt');
+      expect(resolveItemTaxClass({ product_id: 'custom-1' }, products)).toBe('exempt');
+      expect(resolveItemTaxClass({ product_id: null, name: ' tusker ' }, products)).toBe('excise_inclusive');
+    });
+
+    test('should prefer a class on the item and default to standard rate', () => {
+      expect(resolveItemTaxClass({ product_id: 'catalog-1', tax_class: 'exempt' }, products)).toBe('exempt');
+      expect(resolveItemTaxClass({ name: 'Mystery' }, products)).toBe('vat_16');
+    });
+  });
+
+  describe('loadEtimsConfigFromBar', () => {
+    const bar = {
+      kra_pin: 'P051234567X',
+      etims_enabled: true,
+      etims_adapter: 'stub',
+      etims_branch_id: null,
+      etims_device_serial: null,
+      prices_include_tax: false
+    };
+
+    test('should build the config for an enabled bar', () => {
+      expect(loadEtimsConfigFromBar(bar)).toEqual({
+        adapter: 'stub',
+        tin: 'P051234567X',
+        branchId: '00',
+        deviceSerial: null,
+        pricesIncludeTax: false
+      });
+      expect(loadEtimsConfigFromBar({ ...bar, etims_enabled: false })).toBeNull();
+    });
+
+    test('should reject a bad KRA PIN or unknown adapter', () => {
+      expect(() => loadEtimsConfigFromBar({ ...bar, kra_pin: '12345' })).toThrow(EtimsError);
+      expect(() => loadEtimsConfigFromBar({ ...bar, etims_adapter: 'nope' })).toThrow('Unknown eTIMS adapter');
+    });
+  });
+
+  describe('buildEtimsSalePayload', () => {
+    const input = {
+      invoiceNumber: 42,
+      tradeInvoiceNumber: '000042',
+      issuedAt: '2026-10-19T17:30:05.000Z',
+      customerName: 'Wanjiru',
+      paymentMethods: ['mpesa'],
+      lines
+    };
+
+    test('should total the sale per tax type', () => {
+      const payload = buildEtimsSalePayload(input, config);
+
+      expect(payload).toMatchObject({
+        tin: 'P051234567X',
+        bhfId: '00',
+        invcNo: 42,
+        trdInvcNo: '000042',
+        pmtTyCd: '06',
+        cfmDt: '20261019203005',
+        salesDt: '20261019',
+        totItemCnt: 3,
+        taxblAmtA: 200,
+        taxblAmtB: 1800,
+        taxRtB: 16,
+        taxAmtB: 248.28,
+        totTaxAmt: 248.28,
+        totAmt: 2000
+      });
+      expect(payload.itemList[0]).toMatchObject({ itemSeq: 1, itemNm: 'Tusker', qty: 2, prc: 300, taxTyCd: 'B', totAmt: 600 });
+      expect(payload.itemList[2]).toMatchObject({ taxTyCd: 'A', taxAmt: 0 });
+    });
+
+    test('should gross up tax-exclusive prices and mark mixed payments', () => {
+      const payload = buildEtimsSalePayload(
+        { ...input, paymentMethods: ['cash', 'mpesa'] },
+        { ...config, pricesIncludeTax: false }
+      );
+
+      expect(payload.itemList[0]).toMatchObject({ prc: 348, taxAmt: 96, totAmt: 696 });
+      expect(payload.totAmt).toBe(2288);
+      expect(payload.pmtTyCd).toBe('07');
+      expect(buildEtimsSalePayload({ ...input, paymentMethods: [] }, config).pmtTyCd).toBe('02');
+    });
+  });
+
+  describe('stub adapter', () => {
+    test('should be registered for settings screens', () => {
+      expect(getEtimsAdapter('stub')).toBe(stubEtimsAdapter);
+      expect(listEtimsAdapters()).toContainEqual({ name: 'stub', label: 'Local stub (testing)', testOnly: true });
+    });
+
+    test('should sign the same invoice the same way', async () => {
+      const payload = buildEtimsSalePayload({
+        invoiceNumber: 42,
+        tradeInvoiceNumber: '000042',
+        issuedAt: '2026-10-19T17:30:05.000Z',
+        paymentMethods: ['cash'],
+        lines
+      }, config);
+
+      const first = await stubEtimsAdapter.submitSale(payload, config);
+      const again = await stubEtimsAdapter.submitSale(payload, config);
+
+      expect(first.controlUnitInvoiceNumber).toBe('KRACU0100000042/42');
+      expect(first.receiptSignature).toMatch(/^[0-9A-F]{16}$/);
+      expect(first.qrUrl).toBe(
+        `https://etims.kra.go.ke/common/link/etims/receipt/indexEtimsReceiptData?Data=P051234567X00${first.receiptSignature}`
+      );
+      expect(again).toEqual(first);
+    });
+  });
+});
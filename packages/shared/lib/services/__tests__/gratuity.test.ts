@@ -0,0 +1,73 @@
+/**
+ * Unit tests for the gratuity service
+ * Tests tip presets, custom tips, service charge and payment breakdowns
+ */
+
+import {
+  GratuityError,
+  buildPaymentCharge,
+  calculateServiceCharge,
+  calculateTipAmount,
+  getGratuitySettings,
+  parseTipSelection,
+  validateServiceChargePercent
+} from '../gratuity';
+
+describe('Gratuity Service', () => {
+  describe('calculateTipAmount', () => {
+    test('should round percentage tips to whole shillings', () => {
+      expect(calculateTipAmount(1250, { type: 'percent', percent: 10 })).toBe(125);
+      expect(calculateTipAmount(1255, { type: 'percent', percent: 5 })).toBe(63);
+      expect(calculateTipAmount(1000, { type: 'custom', amount: 99.6 })).toBe(100);
+      expect(calculateTipAmount(1000, { type: 'none' })).toBe(0);
+    });
+  });
+
+  describe('buildPaymentCharge', () => {
+    const settings = { tipsEnabled: true, serviceChargePercent: 5 };
+
+    test('should keep the balance portion separate from tip and service charge', () => {
+      expect(buildPaymentCharge(2000, { type: 'percent', percent: 10 }, settings)).toEqual({
+        amount: 2000,
+        tipAmount: 200,
+        serviceChargeAmount: 100,
+        total: 2300
+      });
+    });
+
+    test('should reject tips when disabled or larger than the payment', () => {
+      expect(() => buildPaymentCharge(500, { type: 'custom', amount: 50 }, { tipsEnabled: false, serviceChargePercent: 0 }))
+        .toThrow('does not accept tips');
+      expect(() => buildPaymentCharge(500, { type: 'custom', amount: 5000 }, settings))
+        .toThrow(GratuityError);
+    });
+
+    test('should charge no service charge when it is off', () => {
+      expect(calculateServiceCharge(1000, 0)).toBe(0);
+      expect(buildPaymentCharge(1000, { type: 'none' }, { tipsEnabled: true, serviceChargePercent: 0 }).total).toBe(1000);
+    });
+  });
+
+  describe('parseTipSelection', () => {
+    test('should default to no tip and reject malformed input', () => {
+      expect(parseTipSelection(undefined)).toEqual({ type: 'none' });
+      expect(parseTipSelection({ type: 'percent', percent: 15 })).toEqual({ type: 'percent', percent: 15 });
+      expect(() => parseTipSelection({ type: 'percent', percent: -5 })).toThrow(GratuityError);
+      expect(() => parseTipSelection({ type: 'custom', amount: '100' })).toThrow('tip.amount');
+      expect(() => parseTipSelection({ type: 'bonus' })).toThrow('tip.type');
+    });
+  });
+
+  describe('settings', () => {
+    test('should read bar columns with safe defaults', () => {
+      expect(getGratuitySettings({})).toEqual({ tipsEnabled: true, tipPresets: [5, 10, 15], serviceChargePercent: 0 });
+      expect(getGratuitySettings({ tips_enabled: false, service_charge_percent: '7.50' }).serviceChargePercent).toBe(7.5);
+    });
+
+    test('should cap the service charge percentage', () => {
+      expect(validateServiceChargePercent(10)).toBeNull();
+      expect(validateServiceChargePercent(25)).toContain('cannot exceed 20%');
+      expect(validateServiceChargePercent(-1)).not.toBeNull();
+    });
+  });
+});
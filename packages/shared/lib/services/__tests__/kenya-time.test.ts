@@ -0,0 +1,20 @@
+/**
+ * Unit tests for Kenya time formatting
+ */
+
+import { formatKenyaTime } from '../kenya-time';
+
+describe('formatKenyaTime', () => {
+  test('should format timestamps in EAT for screens', () => {
+    expect(formatKenyaTime('2024-06-14T21:30:05.000Z')).toBe('Jun 15, 00:30');
+  });
+
+  test('should format sortable timestamps in EAT for exports', () => {
+    expect(formatKenyaTime('2024-06-14T21:30:05.000Z', 'sortable')).toBe('2024-06-15 00:30:05');
+  });
+
+  test('should return an empty string for missing or invalid values', () => {
+    expect(formatKenyaTime(null)).toBe('');
+    expect(formatKenyaTime('not a date', 'sortable')).toBe('');
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Unit tests for the kitchen display service
+ * Tests station routing, ticket ageing, the board built from orders and
+ * bumps, and how bumping and recalling move the order
+ */
+
+import {
+  buildKdsBoard,
+  bumpKdsTicket,
+  getOrderStations,
+  getTicketUrgency,
+  KdsError,
+  recallKdsTicket,
+  resolveKdsStation
+} from '../kitchen-display';
+
+const NOW = new Date('2024-06-14T20:00:00.000Z');
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000).toISOString();
+
+const products = [
+  { id: 'bp-1', product_id: 'p-tusker', name: 'Tusker', category: 'Beer' },
+  { id: 'bp-2', custom_product_id: 'c-wings', name: 'Wings', category: 'Food' },
+  { id: 'bp-3', product_id: 'p-mint', name: 'Double Apple Mint', category: 'Shisha' }
+];
+
+/**
+ * Query stand-in for bump and recall: one order, the bar's products and the
+ * bump rows, with every rpc recorded
+ */
+function createSupabase(order: any, bumps: Array<{ order_id: string; station: string }> = []) {
+  const rpc = jest.fn(async (_fn: string, params: any) => ({ data: { id: params.p_order_id, status: params.p_to_status }, error: null }));
+  const deleted: any[] = [];
+
+  const supabase = {
+    rpc,
+    from: (table: string) => {
+      const filters: Record<string, any> = {};
+      let op = 'select';
+      let values: any;
+      const resolve = () => {
+        if (table === 'tab_order_station_bumps') {
+          if (op === 'upsert') {
+            if (!bumps.some(bump => bump.order_id === values.order_id && bump.station === values.station)) {
+              bumps.push({ order_id: values.order_id, station: values.station });
+            }
+            return { data: null, error: null };
+          }
+          if (op === 'delete') {
+            deleted.push({ ...filters });
+            return { data: null, error: null };
+          }
+          return { data: bumps.filter(bump => bump.order_id === filters.order_id), error: null };
+        }
+        if (table === 'bar_products') return { data: products, error: null };
+        if (table === 'user_bars') return { data: [{ role: 'bartender' }], error: null };
+        return { data: [order], error: null };
+      };
+
+      const builder: any = {
+        select: () => builder,
+        upsert: (row: any) => { op = 'upsert'; values = row; return builder; },
+        delete: () => { op = 'delete'; return builder; },
+        eq: (column: string, value: any) => { filters[column] = value; return builder; },
+        maybeSingle: async () => ({ data: resolve().data?.[0] ?? null, error: null }),
+        then: (onFulfilled: any, onRejected: any) => Promise.resolve(resolve()).then(onFulfilled, onRejected)
+      };
+      return builder;
+    }
+  } as any;
+
+  return { supabase, rpc, bumps, deleted };
+}
+
+describe('Kitchen Display Service', () => {
+  describe('resolveKdsStation', () => {
+    test('should route by the category the customer menu snapshotted', () => {
+      expect(resolveKdsStation({ name: 'Tusker', category: 'Beer & Cider' })).toBe('drinks');
+      expect(resolveKdsStation({ name: 'Soda', category: 'Non-Alcoholic' })).toBe('drinks');
+      expect(resolveKdsStation({ name: 'Mint', category: 'Shisha' })).toBe('shisha');
+      expect(resolveKdsStation({ name: 'Nyama Choma', category: 'Grills' })).toBe('food');
+    });
+
+    test('should look staff order items up in the menu by id, then by name', () => {
+      expect(resolveKdsStation({ product_id: 'p-tusker', name: 'Tusker Lager' }, products)).toBe('drinks');
+      expect(resolveKdsStation({ product_id: 'c-wings', name: 'Chicken wings' }, products)).toBe('food');
+      expect(resolveKdsStation({ product_id: null, name: ' double apple mint ' }, products)).toBe('shisha');
+      expect(resolveKdsStation({ product_id: null, name: 'Off-menu item' }, products)).toBe('food');
+    });
+
+    test('should list an order\'s stations in display order', () => {
+      expect(getOrderStations(JSON.stringify([
+        { name: 'Wings', category: 'Food' },
+        { name: 'Tusker', category: 'Beer' }
+      ]))).toEqual(['drinks', 'food']);
+    });
+  });
+
+  test('getTicketUrgency should turn tickets amber at 5 minutes and red at 10', () => {
+    expect(getTicketUrgency(299)).toBe('fresh');
+    expect(getTicketUrgency(300)).toBe('warning');
+    expect(getTicketUrgency(600)).toBe('late');
+  });
+
+  describe('buildKdsBoard', () => {
+    test('should split orders into station tickets, oldest first, with bumped ones kept for recall', () => {
+      const board = buildKdsBoard({
+        orders: [
+          {
+            id: 'order-2',
+            tab_id: 'tab-2',
+            order_number: 2,
+            items: [{ name: 'Tusker', quantity: 2, category: 'Beer', not_cold: true }, { name: 'Wings', quantity: 1, category: 'Food' }],
+            status: 'confirmed',
+            created_at: minutesAgo(6),
+            confirmed_at: minutesAgo(4),
+            tab: { tab_number: 7, notes: JSON.stringify({ display_name: 'Otieno' }) }
+          },
+          {
+            id: 'order-1',
+            tab_id: 'tab-1',
+            order_number: 1,
+            items: [{ name: 'Double Apple Mint', quantity: 1, category: 'Shisha' }],
+            status: 'confirmed',
+            created_at: minutesAgo(12),
+            confirmed_at: minutesAgo(11),
+            tab: { tab_number: 3, notes: null }
+          },
+          {
+            id: 'order-0',
+            tab_id: 'tab-1',
+            order_number: 0,
+            items: [{ name: 'Chips', quantity: 1, category: 'Food' }],
+            status: 'served',
+            created_at: minutesAgo(40),
+            served_at: minutesAgo(20),
+            tab: { tab_number: 3, notes: null }
+          },
+          {
+            id: 'order-old',
+            tab_id: 'tab-1',
+            items: [{ name: 'Chips', quantity: 1, category: 'Food' }],
+            status: 'served',
+            created_at: minutesAgo(120),
+            served_at: minutesAgo(90),
+            tab: { tab_number: 3, notes: null }
+          }
+        ],
+        bumps: [{ order_id: 'order-2', station: 'food', bumped_at: minutesAgo(1) }],
+        now: NOW
+      });
+
+      expect(board.active.map(ticket => ticket.id)).toEqual(['order-1:shisha', 'order-2:drinks']);
+      expect(board.active[0].tabLabel).toBe('Tab 3');
+      expect(board.active[1]).toMatchObject({
+        tabLabel: 'Otieno',
+        startedAt: minutesAgo(4),
+        items: [{ name: 'Tusker', quantity: 2, notes: ['Not cold'] }]
+      });
+      expect(board.bumped.map(ticket => ticket.id)).toEqual(['order-2:food', 'order-0:food']);
+    });
+  });
+
+  describe('bumpKdsTicket', () => {
+    const order = {
+      id: 'order-1',
+      status: 'confirmed',
+      initiated_by: 'customer',
+      items: [{ name: 'Tusker', category: 'Beer' }, { name: 'Wings', category: 'Food' }],
+      tab: { bar_id: 'bar-1', owner_identifier: 'device-1_bar-1', device_identifier: null }
+    };
+
+    test('should serve the order only once every station has bumped', async () => {
+      const { supabase, rpc } = createSupabase(order);
+
+      await expect(bumpKdsTicket(supabase, 'bar-1', 'order-1', 'drinks', 'user-1')).resolves.toEqual({ served: false });
+      expect(rpc).not.toHaveBeenCalled();
+
+      await expect(bumpKdsTicket(supabase, 'bar-1', 'order-1', 'food', 'user-1')).resolves.toEqual({ served: true });
+      expect(rpc).toHaveBeenCalledWith('transition_order_status', expect.objectContaining({
+        p_order_id: 'order-1',
+        p_to_status: 'served',
+        p_initiated_by: 'staff',
+        p_actor_id: 'user-1'
+      }));
+    });
+
+    test('should refuse orders from another bar, stations with nothing to make and finished orders', async () => {
+      await expect(bumpKdsTicket(createSupabase(order).supabase, 'bar-2', 'order-1', 'drinks', 'user-1'))
+        .rejects.toMatchObject({ statusCode: 404 });
+      await expect(bumpKdsTicket(createSupabase(order).supabase, 'bar-1', 'order-1', 'shisha', 'user-1'))
+        .rejects.toMatchObject({ statusCode: 400 });
+      await expect(bumpKdsTicket(createSupabase({ ...order, status: 'served' }).supabase, 'bar-1', 'order-1', 'drinks', 'user-1'))
+        .rejects.toThrow(KdsError);
+    });
+  });
+
+  describe('recallKdsTicket', () => {
+    test('should put a served order back to confirmed and remove the station\'s bump', async () => {
+      const { supabase, rpc, deleted } = createSupabase({
+        id: 'order-1',
+        status: 'served',
+        initiated_by: 'staff',
+        items: [{ name: 'Tusker', category: 'Beer' }],
+        tab: { bar_id: 'bar-1', owner_identifier: null, device_identifier: null }
+      });
+
+      await recallKdsTicket(supabase, 'bar-1', 'order-1', 'drinks', 'user-1');
+
+      expect(rpc).toHaveBeenCalledWith('transition_order_status', expect.objectContaining({
+        p_order_id: 'order-1',
+        p_to_status: 'confirmed',
+        p_initiated_by: 'staff'
+      }));
+      expect(deleted).toEqual([{ order_id: 'order-1', station: 'drinks' }]);
+    });
+
+    test('should only remove the bump while the order is still being prepared', async () => {
+      const { supabase, rpc, deleted } = createSupabase({
+        id: 'order-1',
+        status: 'confirmed',
+        items: [{ name: 'Wings', category: 'Food' }],
+        tab: { bar_id: 'bar-1' }
+      });
+
+      await recallKdsTicket(supabase, 'bar-1', 'order-1', 'food', 'user-1');
+
+      expect(rpc).not.toHaveBeenCalled();
+      expect(deleted).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Unit tests for M-Pesa C2B reconciliation
+ * Tests Daraja payload parsing and matching Paybill/Till payments to open tabs
+ * by account reference, phone number and amount
+ */
+
+jest.mock('../mpesa-oauth', () => ({
+  getOAuthToken: jest.fn().mockResolvedValue('test_access_token')
+}));
+
+import {
+  C2BError,
+  matchC2BTransaction,
+  normalizeC2BPhone,
+  parseC2BPayload,
+  parseDarajaTimestamp,
+  parseTabReference,
+  registerC2BUrls,
+  type C2BCandidateTab,
+  type C2BStkAttempt,
+  type C2BTransaction
+} from '../mpesa-c2b';
+import { verifyCallbackUrl } from '../mpesa-callback-inbox';
+import type { MpesaConfig } from '../mpesa-config';
+
+const tabs: C2BCandidateTab[] = [
+  { id: '11111111-aaaa-4bbb-8ccc-0000000abc12', bar_id: 'bar-1', tab_number: 12, status: 'open' },
+  { id: '22222222-aaaa-4bbb-8ccc-0000000def34', bar_id: 'bar-1', tab_number: 34, status: 'overdue' },
+  { id: '33333333-aaaa-4bbb-8ccc-000000000056', bar_id: 'bar-1', tab_number: 56, status: 'closed' }
+];
+
+const transaction = (overrides: Partial<C2BTransaction> = {}): C2BTransaction => ({
+  transId: 'RKTQDM7W6S',
+  transType: 'Pay Bill',
+  amount: 1500,
+  shortcode: '600000',
+  billRefNumber: '',
+  msisdn: '254712345678',
+  payerName: 'Jane Doe',
+  transTime: '2026-10-19T18:00:00.000Z',
+  ...overrides
+});
+
+describe('parseC2BPayload', () => {
+  test('maps a Daraja confirmation body', () => {
+    const parsed = parseC2BPayload({
+      TransactionType: 'Pay Bill',
+      TransID: 'RKTQDM7W6S',
+      TransTime: '20261019210000',
+      TransAmount: '1500.00',
+      BusinessShortCode: '600000',
+      BillRefNumber: ' tab12 ',
+      MSISDN: '254712345678',
+      FirstName: 'Jane',
+      LastName: 'Doe'
+    });
+
+    expect(parsed).toEqual(transaction({ billRefNumber: 'tab12' }));
+  });
+
+  test('rejects missing fields and non-positive amounts', () => {
+    expect(() => parseC2BPayload({ TransID: 'X', BusinessShortCode: '600000' })).toThrow(C2BError);
+    expect(() => parseC2BPayload({ TransID: 'X', TransAmount: '0', BusinessShortCode: '600000', MSISDN: '' }))
+      .toThrow('TransAmount must be a positive number');
+    expect(() => parseC2BPayload(null)).toThrow(C2BError);
+  });
+
+  test('reads Daraja timestamps as Kenya time', () => {
+    expect(parseDarajaTimestamp('20261019210000')).toBe('2026-10-19T18:00:00.000Z');
+    expect(parseDarajaTimestamp('not-a-date')).toBeNull();
+  });
+});
+
+describe('parseTabReference', () => {
+  test('accepts tab numbers with or without a prefix', () => {
+    expect(parseTabReference('12')).toEqual({ tabNumber: 12 });
+    expect(parseTabReference('TAB 012')).toEqual({ tabNumber: 12 });
+    expect(parseTabReference('#34')).toEqual({ tabNumber: 34 });
+  });
+
+  test('accepts the STK account reference', () => {
+    expect(parseTabReference('TAB000abc12')).toEqual({ tabIdSuffix: '000abc12' });
+    expect(parseTabReference('TAB00000056')).toEqual({ tabIdSuffix: '00000056', tabNumber: 56 });
+  });
+
+  test('ignores free text', () => {
+    expect(parseTabReference('drinks')).toEqual({});
+    expect(parseTabReference('')).toEqual({});
+  });
+});
+
+describe('normalizeC2BPhone', () => {
+  test('normalizes Kenyan numbers and drops masked ones', () => {
+    expect(normalizeC2BPhone('0712345678')).toBe('254712345678');
+    expect(normalizeC2BPhone('254712345678')).toBe('254712345678');
+    expect(normalizeC2BPhone('2547 ***** 678')).toBeNull();
+    expect(normalizeC2BPhone(null)).toBeNull();
+  });
+});
+
+describe('matchC2BTransaction', () => {
+  test('matches the account reference to an open tab number', () => {
+    expect(matchC2BTransaction(transaction({ billRefNumber: '34' }), tabs, [])).toEqual({
+      tabId: tabs[1].id,
+      barId: 'bar-1',
+      method: 'account_reference'
+    });
+  });
+
+  test('matches the STK account reference to the tab id suffix', () => {
+    expect(matchC2BTransaction(transaction({ billRefNumber: 'TAB000abc12' }), tabs, [])?.tabId).toBe(tabs[0].id);
+  });
+
+  test('never matches a closed tab', () => {
+    expect(matchC2BTransaction(transaction({ billRefNumber: '56', msisdn: '' }), tabs, [])).toBeNull();
+  });
+
+  test('falls back to recent STK attempts from the same phone', () => {
+    const attempts: C2BStkAttempt[] = [
+      { tab_id: tabs[0].id, amount: 800, phone_number: '254712345678' },
+      { tab_id: tabs[0].id, amount: 800, phone_number: '254712345678' },
+      { tab_id: tabs[1].id, amount: 1500, phone_number: '254799999999' }
+    ];
+
+    expect(matchC2BTransaction(transaction({ billRefNumber: 'drinks' }), tabs, attempts)).toEqual({
+      tabId: tabs[0].id,
+      barId: 'bar-1',
+      method: 'phone'
+    });
+  });
+
+  test('uses the amount, including tip and service charge, when the phone tried several tabs', () => {
+    const attempts: C2BStkAttempt[] = [
+      { tab_id: tabs[0].id, amount: 800, phone_number: '254712345678' },
+      { tab_id: tabs[1].id, amount: 1300, tip_amount: 150, service_charge_amount: 50, phone_number: '0712345678' }
+    ];
+
+    expect(matchC2BTransaction(transaction(), tabs, attempts)).toEqual({
+      tabId: tabs[1].id,
+      barId: 'bar-1',
+      method: 'phone_amount'
+    });
+    expect(matchC2BTransaction(transaction({ amount: 999 }), tabs, attempts)).toBeNull();
+  });
+
+  test('leaves payments it cannot place unmatched', () => {
+    expect(matchC2BTransaction(transaction({ billRefNumber: '99' }), tabs, [])).toBeNull();
+    expect(matchC2BTransaction(transaction(), [], [])).toBeNull();
+  });
+});
+
+describe('registerC2BUrls', () => {
+  const config = {
+    environment: 'sandbox',
+    businessShortcode: '600000',
+    oauthUrl: 'https://sandbox.safaricom.co.ke/oauth/v1/generate'
+  } as MpesaConfig;
+  const originalEnv = process.env;
+  const mockFetch = jest.fn();
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      MPESA_CALLBACK_URL: 'https://customer.example.com/api/mpesa/callback',
+      MPESA_CALLBACK_SECRET: 'test-callback-secret'
+    };
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ ResponseDescription: 'success' }) });
+    global.fetch = mockFetch as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    mockFetch.mockReset();
+  });
+
+  test('registers confirmation and validation URLs that carry the callback token', async () => {
+    await registerC2BUrls(config);
+
+    const [url, init] = mockFetch.mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(url).toBe('https://sandbox.safaricom.co.ke/mpesa/c2b/v1/registerurl');
+    expect(body.ConfirmationURL).toMatch(/^https:\/\/customer\.example\.com\/api\/mpesa\/c2b\/confirmation\?token=/);
+    expect(body.ValidationURL).toMatch(/^https:\/\/customer\.example\.com\/api\/mpesa\/c2b\/validation\?token=/);
+    expect(verifyCallbackUrl(body.ConfirmationURL)).toBe(true);
+    expect(verifyCallbackUrl(body.ValidationURL)).toBe(true);
+    expect(verifyCallbackUrl('https://customer.example.com/api/mpesa/c2b/confirmation')).toBe(false);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Unit tests for the M-Pesa callback inbox
+ * Tests source checks, exactly-once application of STK callbacks (retries and
+ * reconciler races) and replaying stored callbacks against an in-memory Supabase stand-in
+ */
+
+import {
+  getCallbackSourceIp,
+  ingestMpesaCallback,
+  isCallbackIpAllowed,
+  isCallbackIpCheckEnabled,
+  MpesaCallbackError,
+  parseStkCallback,
+  replayMpesaCallbacks,
+  signCallbackUrl,
+  verifyCallbackUrl
+} from '../mpesa-callback-inbox';
+
+const readPath = (row: any, path: string) =>
+  path.split('.').reduce((value, key) => (value == null ? value : value[key]), row);
+
+// Minimal query builder over plain arrays; the inbox enforces its unique key like Postgres
+function createSupabase(tables: Record<string, any[]>) {
+  let nextId = 1;
+  const updates: Array<{ table: string; values: any }> = [];
+
+  function query(table: string) {
+    const filters: Array<(row: any) => boolean> = [];
+    let operation: 'select' | 'insert' | 'update' = 'select';
+    let values: any = null;
+    let single: 'single' | 'maybe' | null = null;
+
+    const execute = () => {
+      const rows = tables[table] = tables[table] || [];
+      if (operation === 'insert') {
+        const duplicate = table === 'mpesa_callback_inbox' && rows.some(row =>
+          row.checkout_request_id === values.checkout_request_id && row.merchant_request_id === values.merchant_request_id);
+        if (duplicate) {
+          return { data: null, error: { code: '23505', message: 'duplicate key value' } };
+        }
+        const inserted = { id: `${table}-${nextId++}`, receive_count: 1, replay_count: 0, created_at: new Date().toISOString(), ...values };
+        rows.push(inserted);
+        return { data: single ? inserted : [inserted], error: null };
+      }
+      const matched = rows.filter(row => filters.every(filter => filter(row)));
+      if (operation === 'update') {
+        updates.push({ table, values });
+        matched.forEach(row => Object.assign(row, values));
+      }
+      const data = matched.map(row => ({ ...row }));
+      if (single === 'maybe') return { data: data[0] ?? null, error: null };
+      if (single === 'single') return { data: data[0] ?? null, error: data[0] ? null : { message: 'not found' } };
+      return { data, error: null };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      insert: (row: any) => { operation = 'insert'; values = row; return builder; },
+      update: (row: any) => { operation = 'update'; values = row; return builder; },
+      eq: (column: string, value: any) => { filters.push(row => readPath(row, column) === value); return builder; },
+      order: () => builder,
+      limit: () => builder,
+      single: () => { single = 'single'; return Promise.resolve(execute()); },
+      maybeSingle: () => { single = 'maybe'; return Promise.resolve(execute()); },
+      then: (resolve: any, reject: any) => Promise.resolve(execute()).then(resolve, reject)
+    };
+    return builder;
+  }
+
+  return { client: { from: query } as any, updates };
+}
+
+const callback = (resultCode = 0, checkoutRequestId = 'ws_CO_1') => ({
+  Body: {
+    stkCallback: {
+      MerchantRequestID: '29115-1',
+      CheckoutRequestID: checkoutRequestId,
+      ResultCode: resultCode,
+      ResultDesc: resultCode === 0 ? 'The service request is processed successfully.' : 'Request cancelled by user',
+      CallbackMetadata: resultCode === 0 ? {
+        Item: [
+          { Name: 'Amount', Value: 1000 },
+          { Name: 'MpesaReceiptNumber', Value: 'RKT1234ABC' },
+          { Name: 'TransactionDate', Value: 20261019210000 },
+          { Name: 'PhoneNumber', Value: 254712345678 }
+        ]
+      } : undefined
+    }
+  }
+});
+
+function createTables(paymentStatus = 'pending') {
+  return {
+    tab_payments: [{
+      id: 'payment-1',
+      tab_id: 'tab-1',
+      amount: 1000,
+      tip_amount: 0,
+      service_charge_amount: 0,
+      method: 'mpesa',
+      status: paymentStatus,
+      reference: 'ws_CO_1',
+      metadata: null as any,
+      tabs: { bar_id: 'bar-1' }
+    }],
+    tabs: [{ id: 'tab-1', bar_id: 'bar-1', tab_number: 7, status: 'overdue' }],
+    tab_balances: [{ tab_id: 'tab-1', balance: 0 }],
+    mpesa_callback_inbox: [] as any[]
+  };
+}
+
+const paymentUpdates = (updates: Array<{ table: string; values: any }>) =>
+  updates.filter(update => update.table === 'tab_payments' && update.values.status);
+
+describe('M-Pesa Callback Inbox', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    for (const name of ['MPESA_CALLBACK_SECRET', 'MPESA_CALLBACK_PROXY_HOPS', 'MPESA_CALLBACK_IP_CHECK', 'MPESA_MOCK_MODE', 'MPESA_SIMULATOR_ENABLED', 'VERCEL', 'VERCEL_ENV']) {
+      delete process.env[name];
+    }
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('source checks', () => {
+    test('should allow Safaricom addresses and configured ranges only', () => {
+      expect(isCallbackIpAllowed('196.201.214.200')).toBe(true);
+      expect(isCallbackIpAllowed('::ffff:196.201.212.69')).toBe(true);
+      expect(isCallbackIpAllowed('41.90.1.1')).toBe(false);
+      expect(isCallbackIpAllowed(null)).toBe(false);
+      expect(isCallbackIpAllowed('10.0.3.7', ['10.0.0.0/16'])).toBe(true);
+      expect(isCallbackIpAllowed('10.1.3.7', ['10.0.0.0/16'])).toBe(false);
+    });
+
+    test('should read the client address our own proxy appended', () => {
+      // A caller can put a Safaricom address at the front of the header themselves
+      expect(getCallbackSourceIp(new Headers({ 'x-forwarded-for': '196.201.214.200, 41.90.1.1' }))).toBe('41.90.1.1');
+      expect(getCallbackSourceIp(new Headers({ 'x-real-ip': '196.201.214.206' }))).toBeNull();
+      expect(getCallbackSourceIp(new Headers())).toBeNull();
+
+      process.env.MPESA_CALLBACK_PROXY_HOPS = '2';
+      expect(getCallbackSourceIp(new Headers({ 'x-forwarded-for': '1.2.3.4, 196.201.214.200, 10.0.0.1' }))).toBe('196.201.214.200');
+    });
+
+    test('should use the address Vercel reports when running there', () => {
+      process.env.VERCEL = '1';
+      expect(getCallbackSourceIp(new Headers({
+        'x-vercel-forwarded-for': '196.201.214.206',
+        'x-forwarded-for': '196.201.214.200'
+      }))).toBe('196.201.214.206');
+    });
+
+    test('should only let the simulator or the off switch skip the check outside production', () => {
+      process.env.MPESA_CALLBACK_IP_CHECK = 'off';
+      expect(isCallbackIpCheckEnabled()).toBe(false);
+
+      process.env.MPESA_CALLBACK_IP_CHECK = 'on';
+      process.env.MPESA_MOCK_MODE = 'true';
+      expect(isCallbackIpCheckEnabled()).toBe(false);
+
+      process.env.VERCEL_ENV = 'production';
+      expect(isCallbackIpCheckEnabled()).toBe(true);
+    });
+
+    test('should sign and verify the callback URL when a secret is set', () => {
+      const url = 'https://app.tabeza.co.ke/api/mpesa/callback';
+      expect(signCallbackUrl(url)).toBe(url);
+      expect(verifyCallbackUrl(url)).toBe(true);
+
+      process.env.MPESA_CALLBACK_SECRET = 'callback-secret';
+      const signed = signCallbackUrl(url);
+      expect(signed).toMatch(/\?token=[0-9a-f]{64}$/);
+      expect(verifyCallbackUrl(signed)).toBe(true);
+      expect(verifyCallbackUrl(url)).toBe(false);
+      expect(verifyCallbackUrl(signed.replace('/callback', '/other'))).toBe(false);
+    });
+  });
+
+  describe('parseStkCallback', () => {
+    test('should read the result and receipt details', () => {
+      expect(parseStkCallback(callback())).toMatchObject({
+        checkoutRequestId: 'ws_CO_1',
+        merchantRequestId: '29115-1',
+        status: 'success',
+        mpesaReceiptNumber: 'RKT1234ABC',
+        phoneNumber: '254712345678'
+      });
+      expect(parseStkCallback(callback(1032)).status).toBe('failed');
+      expect(() => parseStkCallback({ Body: {} })).toThrow(MpesaCallbackError);
+      expect(() => parseStkCallback({ Body: { stkCallback: { CheckoutRequestID: 'x' } } })).toThrow('Missing ResultCode');
+    });
+  });
+
+  describe('ingestMpesaCallback', () => {
+    test('should apply a callback once and acknowledge retries', async () => {
+      const tables = createTables();
+      const { client, updates } = createSupabase(tables);
+
+      const first = await ingestMpesaCallback(client, callback(), { sourceIp: '196.201.214.200' });
+      const retry = await ingestMpesaCallback(client, callback(), { sourceIp: '196.201.214.200' });
+
+      expect(first).toMatchObject({ status: 'processed', duplicate: false, paymentId: 'payment-1', tabId: 'tab-1' });
+      expect(retry).toMatchObject({ status: 'processed', duplicate: true });
+      expect(paymentUpdates(updates)).toHaveLength(1);
+      expect(tables.tab_payments[0].status).toBe('success');
+      expect(tables.tabs[0].status).toBe('closed');
+      expect(tables.mpesa_callback_inbox).toHaveLength(1);
+      expect(tables.mpesa_callback_inbox[0]).toMatchObject({ receive_count: 2, bar_id: 'bar-1', source_ip: '196.201.214.200' });
+    });
+
+    test('should not re-apply a payment the reconciler already resolved, but keep the receipt', async () => {
+      const tables = createTables('success');
+      tables.tab_payments[0].metadata = { reconciliation: { runId: 'run-1' } };
+      const { client, updates } = createSupabase(tables);
+
+      const result = await ingestMpesaCallback(client, callback());
+
+      expect(result.status).toBe('already_resolved');
+      expect(paymentUpdates(updates)).toHaveLength(0);
+      expect(tables.tabs[0].status).toBe('overdue');
+      expect(tables.tab_payments[0].metadata).toMatchObject({
+        reconciliation: { runId: 'run-1' },
+        Body: { stkCallback: { CheckoutRequestID: 'ws_CO_1' } }
+      });
+    });
+
+    test('should record callbacks for unknown payments', async () => {
+      const tables = createTables();
+      const { client } = createSupabase(tables);
+
+      const result = await ingestMpesaCallback(client, callback(0, 'ws_CO_unknown'));
+
+      expect(result).toMatchObject({ status: 'payment_not_found', paymentId: null });
+      expect(tables.mpesa_callback_inbox[0].raw_payload).toEqual(callback(0, 'ws_CO_unknown'));
+    });
+  });
+
+  describe('replayMpesaCallbacks', () => {
+    test('should correct a payment a bug left in the wrong state, once', async () => {
+      const tables = createTables();
+      const { client, updates } = createSupabase(tables);
+      await ingestMpesaCallback(client, callback());
+
+      // Simulate a bug that marked the paid payment failed
+      tables.tab_payments[0].status = 'failed';
+      tables.tabs[0].status = 'overdue';
+
+      const replayed = await replayMpesaCallbacks(client, 'bar-1', { tabId: 'tab-1' }, 'manager-1');
+      expect(replayed).toEqual([expect.objectContaining({ status: 'processed', applied: true })]);
+      expect(tables.tab_payments[0].status).toBe('success');
+      expect(tables.tabs[0].status).toBe('closed');
+
+      const again = await replayMpesaCallbacks(client, 'bar-1', { tabId: 'tab-1' }, 'manager-1');
+      expect(again[0]).toMatchObject({ status: 'already_resolved', applied: false });
+      expect(paymentUpdates(updates)).toHaveLength(2);
+      expect(tables.mpesa_callback_inbox[0]).toMatchObject({ replay_count: 2, last_replayed_by: 'manager-1' });
+    });
+
+    test('should not replay another bar\'s callbacks', async () => {
+      const tables = createTables();
+      const { client } = createSupabase(tables);
+      const { inboxId } = await ingestMpesaCallback(client, callback());
+
+      await expect(replayMpesaCallbacks(client, 'bar-2', { inboxId }, 'manager-1')).rejects.toMatchObject({ statusCode: 404 });
+      await expect(replayMpesaCallbacks(client, 'bar-1', {}, 'manager-1')).rejects.toThrow('A tab or callback to replay is required');
+    });
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for the local Daraja simulator
+ * Tests request validation, the STK / C2B scenarios and their callback
+ * schedules, the scenario control endpoint and a full STK push and query
+ * round trip through the real services
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  createMockDaraja,
+  MOCK_DARAJA_FAILED_RESULT_CODE,
+  startMockDarajaServer,
+  type MockDarajaServer
+} from '../mpesa-mock-daraja';
+import { loadMpesaConfigFromBar, MpesaConfigurationError } from '../mpesa-config';
+import { clearTokenCache } from '../mpesa-oauth';
+import { sendSTKPush } from '../mpesa-stk-push';
+import { querySTKPushStatus } from '../mpesa-stk-query';
+
+const SHORTCODE = '174379';
+const PASSKEY = 'bfb279f9aa9bdbcf158e97dd71a467cd2e0c893059b10f78e6b72ada1ed2c919';
+const TIMESTAMP = '20261019120000';
+
+const stkRequest = (overrides: Record<string, any> = {}) => ({
+  BusinessShortCode: SHORTCODE,
+  Password: Buffer.from(`${SHORTCODE}${PASSKEY}${TIMESTAMP}`).toString('base64'),
+  Timestamp: TIMESTAMP,
+  TransactionType: 'CustomerPayBillOnline',
+  Amount: 250,
+  PartyA: '254708374149',
+  PartyB: SHORTCODE,
+  PhoneNumber: '254708374149',
+  CallBackURL: 'https://bar.example/api/mpesa/callback',
+  AccountReference: 'TAB42',
+  TransactionDesc: 'Tab payment',
+  ...overrides
+});
+
+const queryRequest = (checkoutRequestId: string) => ({
+  BusinessShortCode: SHORTCODE,
+  Password: Buffer.from(`${SHORTCODE}${PASSKEY}${TIMESTAMP}`).toString('base64'),
+  Timestamp: TIMESTAMP,
+  CheckoutRequestID: checkoutRequestId
+});
+
+describe('Daraja simulator', () => {
+  describe('OAuth', () => {
+    it('issues a token for client_credentials only', () => {
+      const simulator = createMockDaraja();
+
+      const ok = simulator.handle('GET', '/oauth/v1/generate?grant_type=client_credentials', null);
+      expect(ok.status).toBe(200);
+      expect(ok.body.access_token).toMatch(/^mock_token_/);
+
+      expect(simulator.handle('GET', '/oauth/v1/generate', null).status).toBe(400);
+    });
+  });
+
+  describe('STK push', () => {
+    it('rejects a bad password, phone number or amount like Daraja', () => {
+      const simulator = createMockDaraja();
+
+      expect(simulator.handle('POST', '/mpesa/stkpush/v1/processrequest', stkRequest({ Password: 'bm9wZQ==' })).body.errorMessage)
+        .toBe('Bad Request - Invalid Password');
+      expect(simulator.handle('POST', '/mpesa/stkpush/v1/processrequest', stkRequest({ PhoneNumber: '0708374149' })).status)
+        .toBe(400);
+      expect(simulator.handle('POST', '/mpesa/stkpush/v1/processrequest', stkRequest({ Amount: 0 })).status)
+        .toBe(400);
+      expect(simulator.getState().transactions).toHaveLength(0);
+    });
+
+    it('sends a successful callback with receipt metadata', () => {
+      const simulator = createMockDaraja();
+
+      const response = simulator.handle('POST', '/mpesa/stkpush/v1/processrequest', stkRequest());
+
+      expect(response.status).toBe(200);
+      expect(response.body.ResponseCode).toBe('0');
+      expect(response.body.CheckoutRequestID).toMatch(/^ws_CO_/);
+      expect(response.callbacks).toHaveLength(1);
+
+      const callback = response.callbacks[0].payload.Body.stkCallback;
+      expect(callback.ResultCode).toBe(0);
+      expect(callback.CheckoutRequestID).toBe(response.body.CheckoutRequestID);
+      const items = Object.fromEntries(callback.CallbackMetadata.Item.map((item: any) => [item.Name, item.Value]));
+      expect(items.Amount).toBe(250);
+      expect(items.MpesaReceiptNumber).toHaveLength(10);
+      expect(response.callbacks[0].url).toBe('https://bar.example/api/mpesa/callback');
+    });
+
+    it.each([
+      ['cancelled', 1032],
+      ['insufficient_funds', 1],
+      ['failed', 2001]
+    ] as const)('answers the %s scenario with result code %s and no receipt', (scenario, code) => {
+      const simulator = createMockDaraja({ scenario });
+
+      const response = simulator.handle('POST', '/mpesa/stkpush/v1/processrequest', stkRequest());
+      const callback = response.callbacks[0].payload.Body.stkCallback;
+
+      expect(response.body.ResponseCode).toBe('0');
+      expect(callback.ResultCode).toBe(code);
+      expect(callback.CallbackMetadata).toBeUndefined();
+    });
+
+    it('sends no callback on timeout but answers the query with 1037', () => {
+      const simulator = createMockDaraja({ scenario: 'timeout' });
+
+      const response = simulator.handle('POST', '/mpesa/stkpush/v1/processrequest', stkRequest());
+      expect(response.callbacks).toHaveLength(0);
+
+      const query = simulator.handle('POST', '/mpesa/stkpushquery/v1/query', queryRequest(response.body.CheckoutRequestID));
+      expect(query.status).toBe(200);
+      expect(query.body.ResultCode).toBe('1037');
+    });
+
+    it('reports a delayed payment as still processing until its callback is due', () => {
+      const simulator = createMockDaraja({ scenario: 'delayed', delayedCallbackMs: 60000 });
+
+      const response = simulator.handle('POST', '/mpesa/stkpush/v1/processrequest', stkRequest());
+      expect(response.callbacks).toEqual([expect.objectContaining({ delayMs: 60000 })]);
+
+      const query = simulator.handle('POST', '/mpesa/stkpushquery/v1/query', queryRequest(response.body.CheckoutRequestID));
+      expect(query.status).toBe(500);
+      expect(query.body.errorCode).toBe('500.001.1001');
+    });
+
+    it('sends the same callback twice for the duplicate scenario', () => {
+      const simulator = createMockDaraja({ scenario: 'duplicate', callbackDelayMs: 100 });
+
+      const response = simulator.handle('POST', '/mpesa/stkpush/v1/processrequest', stkRequest());
+
+      expect(response.callbacks.map(callback => callback.delayMs)).toEqual([100, 600]);
+      expect(response.callbacks[0].payload).toEqual(response.callbacks[1].payload);
+      expect(simulator.getState().transactions[0].callbackCount).toBe(2);
+    });
+
+    it('rejects a query for an unknown checkout request', () => {
+      const simulator = createMockDaraja();
+
+      expect(simulator.handle('POST', '/mpesa/stkpushquery/v1/query', queryRequest('ws_CO_unknown')).status).toBe(400);
+    });
+  });
+
+  describe('scenario control', () => {
+    it('scripts a scenario per shortcode without changing the default', () => {
+      const simulator = createMockDaraja();
+
+      const control = simulator.handle('POST', '/simulator/scenario', { scenario: 'cancelled', shortCode: SHORTCODE });
+      expect(control.status).toBe(200);
+      expect(control.body.scenarios).toEqual({ [SHORTCODE]: 'cancelled' });
+
+      const scripted = simulator.handle('POST', '/mpesa/stkpush/v1/processrequest', stkRequest());
+      const other = simulator.handle('POST', '/mpesa/stkpush/v1/processrequest', stkRequest({
+        BusinessShortCode: '600000',
+        Password: Buffer.from(`600000${PASSKEY}${TIMESTAMP}`).toString('base64')
+      }));
+
+      expect(scripted.callbacks[0].payload.Body.stkCallback.ResultCode).toBe(1032);
+      expect(other.callbacks[0].payload.Body.stkCallback.ResultCode).toBe(0);
+      expect(simulator.handle('GET', `/simulator/state?shortCode=${SHORTCODE}`, null).body.transactions).toHaveLength(1);
+    });
+
+    it('rejects unknown scenarios', () => {
+      const simulator = createMockDaraja();
+
+      expect(simulator.handle('POST', '/simulator/scenario', { scenario: 'explode' }).status).toBe(400);
+      expect(simulator.getState().defaultScenario).toBe('success');
+    });
+  });
+
+  describe('C2B', () => {
+    const simulate = { ShortCode: SHORTCODE, CommandID: 'CustomerPayBillOnline', Amount: 500, Msisdn: '254708374149', BillRefNumber: 'TAB42' };
+
+    it('requires registered URLs before simulating a payment', () => {
+      const simulator = createMockDaraja();
+
+      expect(simulator.handle('POST', '/mpesa/c2b/v1/simulate', simulate).status).toBe(400);
+
+      simulator.handle('POST', '/mpesa/c2b/v1/registerurl', {
+        ShortCode: SHORTCODE,
+        ResponseType: 'Completed',
+        ConfirmationURL: 'https://bar.example/api/mpesa/c2b/confirmation',
+        ValidationURL: 'https://bar.example/api/mpesa/c2b/validation'
+      });
+      const response = simulator.handle('POST', '/mpesa/c2b/v1/simulate', simulate);
+
+      expect(response.status).toBe(200);
+      expect(response.callbacks).toHaveLength(1);
+      expect(response.callbacks[0].url).toBe('https://bar.example/api/mpesa/c2b/confirmation');
+      expect(response.callbacks[0].payload).toMatchObject({
+        TransactionType: 'Pay Bill',
+        TransAmount: '500.00',
+        BusinessShortCode: SHORTCODE,
+        BillRefNumber: 'TAB42',
+        MSISDN: '254708374149'
+      });
+      expect(simulator.getState().registeredShortCodes).toEqual([SHORTCODE]);
+    });
+  });
+
+  describe('reversal', () => {
+    it('fails the reversal with R000002 for failure scenarios', () => {
+      const simulator = createMockDaraja({ scenario: 'insufficient_funds' });
+
+      const response = simulator.handle('POST', '/mpesa/reversal/v1/request', {
+        Initiator: 'testapi',
+        SecurityCredential: 'secret',
+        TransactionID: 'SIM1234567',
+        Amount: 100,
+        ReceiverParty: SHORTCODE,
+        ResultURL: 'https://bar.example/api/mpesa/refunds/result'
+      });
+
+      expect(response.body.ResponseCode).toBe('0');
+      expect(response.callbacks[0].payload.Result.ResultCode).toBe(MOCK_DARAJA_FAILED_RESULT_CODE);
+    });
+  });
+
+  describe('end to end through the payment services', () => {
+    const originalEnv = process.env;
+    let daraja: MockDarajaServer;
+    let receiver: http.Server;
+    const received: any[] = [];
+
+    beforeEach(async () => {
+      received.length = 0;
+      clearTokenCache();
+
+      receiver = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+          received.push(JSON.parse(raw));
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ ResultCode: 0 }));
+        });
+      });
+      await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', () => resolve()));
+      const { port } = receiver.address() as AddressInfo;
+
+      daraja = await startMockDarajaServer({ scenario: 'duplicate' });
+      process.env = {
+        ...originalEnv,
+        MPESA_SIMULATOR_ENABLED: 'true',
+        MPESA_MOCK_MODE: 'false',
+        MPESA_MOCK_DARAJA_URL: daraja.url,
+        MPESA_CALLBACK_URL: `http://127.0.0.1:${port}/api/mpesa/callback`
+      };
+    });
+
+    afterEach(async () => {
+      process.env = originalEnv;
+      await daraja.close();
+      await new Promise<void>(resolve => receiver.close(() => resolve()));
+    });
+
+    it('pushes, delivers the duplicate callbacks and answers the query for a simulator bar', async () => {
+      const config = loadMpesaConfigFromBar({
+        mpesa_enabled: true,
+        mpesa_environment: 'simulator',
+        mpesa_business_shortcode: SHORTCODE,
+        mpesa_consumer_key_encrypted: '',
+        mpesa_consumer_secret_encrypted: '',
+        mpesa_passkey_encrypted: ''
+      });
+      expect(config.environment).toBe('simulator');
+
+      const push = await sendSTKPush({
+        phoneNumber: '254708374149',
+        amount: 120,
+        accountReference: 'TAB42',
+        transactionDesc: 'Tab payment'
+      }, config);
+      await daraja.settled();
+
+      expect(received).toHaveLength(2);
+      expect(received[0].Body.stkCallback.CheckoutRequestID).toBe(push.CheckoutRequestID);
+      expect(received[1]).toEqual(received[0]);
+
+      const query = await querySTKPushStatus({ checkoutRequestId: push.CheckoutRequestID }, config);
+      expect(query.ResultCode).toBe('0');
+      expect(daraja.requests.map(request => request.path.split('?')[0])).toEqual([
+        '/oauth/v1/generate',
+        '/mpesa/stkpush/v1/processrequest',
+        '/mpesa/stkpushquery/v1/query'
+      ]);
+    });
+
+    it('refuses the simulator environment when it is not enabled', () => {
+      process.env.MPESA_SIMULATOR_ENABLED = 'false';
+
+      expect(() => loadMpesaConfigFromBar({
+        mpesa_enabled: true,
+        mpesa_environment: 'simulator',
+        mpesa_business_shortcode: SHORTCODE,
+        mpesa_consumer_key_encrypted: '',
+        mpesa_consumer_secret_encrypted: '',
+        mpesa_passkey_encrypted: ''
+      })).toThrow(MpesaConfigurationError);
+    });
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Unit tests for the M-Pesa STK reconciliation service
+ * Tests mapping STK query results to payment outcomes and a full run over
+ * stuck payments against an in-memory Supabase stand-in
+ */
+
+import {
+  MpesaReconciliationService,
+  STK_QUERY_STILL_PROCESSING,
+  isStillProcessingError,
+  resolveQueryOutcome
+} from '../mpesa-reconciliation';
+import { STKQueryError, type STKQueryResponse } from '../mpesa-stk-query';
+import { encryptToBytea } from '../mpesa-encryption';
+
+const queryResponse = (overrides: Partial<STKQueryResponse> = {}): STKQueryResponse => ({
+  ResponseCode: '0',
+  ResponseDescription: 'The service request has been accepted successsfully',
+  MerchantRequestID: '29115-34620561-1',
+  CheckoutRequestID: 'ws_CO_191220191020363925',
+  ResultCode: '0',
+  ResultDesc: 'The service request is processed successfully.',
+  ...overrides
+});
+
+const readPath = (row: any, path: string) =>
+  path.split('.').reduce((value, key) => (value == null ? value : value[key]), row);
+
+// Minimal query builder over plain arrays: enough for the reconciler's queries
+function createSupabase(tables: Record<string, any[]>) {
+  let nextId = 1;
+
+  function query(table: string) {
+    const filters: Array<(row: any) => boolean> = [];
+    let operation: 'select' | 'insert' | 'update' = 'select';
+    let values: any = null;
+    let limit = Infinity;
+    let single = false;
+
+    const execute = () => {
+      const rows = tables[table] = tables[table] || [];
+      if (operation === 'insert') {
+        const inserted = (Array.isArray(values) ? values : [values])
+          .map((value: any) => ({ id: `${table}-${nextId++}`, ...value }));
+        rows.push(...inserted);
+        return { data: single ? inserted[0] : inserted, error: null };
+      }
+      const matched = rows.filter(row => filters.every(filter => filter(row)));
+      if (operation === 'update') {
+        matched.forEach(row => Object.assign(row, values));
+      }
+      const data = matched.slice(0, limit).map(row => ({ ...row }));
+      return single ? { data: data[0] ?? null, error: data[0] ? null : { message: 'not found' } } : { data, error: null };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      insert: (rows: any) => { operation = 'insert'; values = rows; return builder; },
+      update: (updates: any) => { operation = 'update'; values = updates; return builder; },
+      eq: (column: string, value: any) => { filters.push(row => readPath(row, column) === value); return builder; },
+      not: (column: string, _op: 'is', value: any) => { filters.push(row => (row[column] ?? null) !== value); return builder; },
+      lte: (column: string, value: string) => { filters.push(row => row[column] <= value); return builder; },
+      order: () => builder,
+      limit: (count: number) => { limit = count; return builder; },
+      single: () => { single = true; return Promise.resolve(execute()); },
+      then: (resolve: any, reject: any) => Promise.resolve(execute()).then(resolve, reject)
+    };
+    return builder;
+  }
+
+  return { from: query } as any;
+}
+
+describe('M-Pesa Reconciliation Service', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      MPESA_KMS_KEY: '12345678901234567890123456789012'
+    };
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('resolveQueryOutcome', () => {
+    test('should map result codes to payment outcomes', () => {
+      expect(resolveQueryOutcome(queryResponse()).outcome).toBe('success');
+      expect(resolveQueryOutcome(queryResponse({ ResultCode: '1032' }))).toEqual({
+        outcome: 'failed',
+        message: 'Payment cancelled by user'
+      });
+      expect(resolveQueryOutcome(queryResponse({ ResultCode: '1037' })).outcome).toBe('failed');
+    });
+
+    test('should leave the payment pending when the query itself is rejected', () => {
+      expect(resolveQueryOutcome(queryResponse({ ResponseCode: '1', ResponseDescription: 'Invalid CheckoutRequestID' })))
+        .toEqual({ outcome: 'pending', message: 'Invalid CheckoutRequestID' });
+    });
+  });
+
+  describe('isStillProcessingError', () => {
+    test('should recognise the Daraja "still processing" error', () => {
+      const processing = new STKQueryError('STK Query request failed: 500', undefined, undefined, 500, {
+        errorCode: STK_QUERY_STILL_PROCESSING,
+        errorMessage: 'The transaction is being processed'
+      });
+      expect(isStillProcessingError(processing)).toBe(true);
+      expect(isStillProcessingError(new STKQueryError('Network error'))).toBe(false);
+      expect(isStillProcessingError(new Error('other'))).toBe(false);
+    });
+  });
+
+  describe('run', () => {
+    const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+    function createTables() {
+      const bar = {
+        mpesa_enabled: true,
+        mpesa_environment: 'sandbox',
+        mpesa_business_shortcode: '174379',
+        mpesa_consumer_key_encrypted: encryptToBytea('consumer-key'),
+        mpesa_consumer_secret_encrypted: encryptToBytea('consumer-secret'),
+        mpesa_passkey_encrypted: ''
+      };
+      const tab = { bar_id: 'bar-1', bars: bar };
+      const payment = (id: string, reference: string, createdAt: string): Record<string, any> => ({
+        id,
+        tab_id: 'tab-1',
+        amount: 1000,
+        tip_amount: 0,
+        service_charge_amount: 0,
+        method: 'mpesa',
+        status: 'pending',
+        reference,
+        created_at: createdAt,
+        tabs: tab
+      });
+
+      return {
+        tab_payments: [
+          payment('paid', 'ws_CO_paid', minutesAgo(30)),
+          payment('processing', 'ws_CO_processing', minutesAgo(20)),
+          payment('cancelled', 'ws_CO_cancelled', minutesAgo(15)),
+          payment('mock', 'mock_1718380800_abc', minutesAgo(10)),
+          payment('fresh', 'ws_CO_fresh', minutesAgo(1))
+        ],
+        tabs: [{ id: 'tab-1', bar_id: 'bar-1', tab_number: 7, status: 'overdue' }],
+        tab_balances: [{ tab_id: 'tab-1', balance: 0 }],
+        mpesa_reconciliation_runs: [] as any[],
+        mpesa_reconciliation_items: [] as any[]
+      };
+    }
+
+    test('should apply final results, leave in-flight payments pending and audit the run', async () => {
+      const tables = createTables();
+      const queryStatus = jest.fn(async ({ checkoutRequestId }: { checkoutRequestId: string }) => {
+        if (checkoutRequestId === 'ws_CO_processing') {
+          throw new STKQueryError('STK Query request failed: 500', undefined, undefined, 500, {
+            errorCode: STK_QUERY_STILL_PROCESSING
+          });
+        }
+        return queryResponse({
+          CheckoutRequestID: checkoutRequestId,
+          ResultCode: checkoutRequestId === 'ws_CO_cancelled' ? '1032' : '0'
+        });
+      });
+
+      const service = new MpesaReconciliationService(createSupabase(tables), { minAgeMinutes: 5, queryStatus });
+      const result = await service.run('cron');
+
+      const status = (id: string) => tables.tab_payments.find(p => p.id === id)!.status;
+      expect(status('paid')).toBe('success');
+      expect(status('cancelled')).toBe('failed');
+      expect(status('processing')).toBe('pending');
+      expect(status('mock')).toBe('pending');
+      expect(status('fresh')).toBe('pending');
+      expect(queryStatus).toHaveBeenCalledTimes(3);
+
+      // Same handling as the callback: the settled overdue tab is closed
+      expect(tables.tabs[0].status).toBe('closed');
+      expect(tables.tab_payments.find(p => p.id === 'paid')!.metadata.reconciliation.runId).toBe(result.runId);
+
+      expect(result).toMatchObject({ checked: 4, succeeded: 1, failed: 1, stillPending: 1, errors: 0 });
+      expect(tables.mpesa_reconciliation_runs[0]).toMatchObject({
+        trigger: 'cron',
+        status: 'completed',
+        checked: 4,
+        succeeded: 1,
+        failed: 1,
+        still_pending: 1
+      });
+      expect(tables.mpesa_reconciliation_items.map(item => item.outcome).sort())
+        .toEqual(['failed', 'pending', 'skipped', 'success']);
+    });
+
+    test('should not override a payment the callback resolved during the run', async () => {
+      const tables = createTables();
+      tables.tab_payments = tables.tab_payments.filter(p => p.id === 'paid');
+      const queryStatus = jest.fn(async () => {
+        tables.tab_payments[0].status = 'failed';
+        return queryResponse();
+      });
+
+      const result = await new MpesaReconciliationService(createSupabase(tables), { minAgeMinutes: 5, queryStatus }).run('manual', { barId: 'bar-1' });
+
+      expect(tables.tab_payments[0].status).toBe('failed');
+      expect(result.items[0].outcome).toBe('resolved');
+      expect(tables.tabs[0].status).toBe('overdue');
+    });
+
+    test('should record configuration problems per payment', async () => {
+      const tables = createTables();
+      tables.tab_payments.forEach(p => { p.tabs = { ...p.tabs, bars: { ...p.tabs.bars, mpesa_enabled: false } }; });
+      const queryStatus = jest.fn();
+
+      const result = await new MpesaReconciliationService(createSupabase(tables), { minAgeMinutes: 5, queryStatus }).run();
+
+      expect(queryStatus).not.toHaveBeenCalled();
+      expect(result.errors).toBe(3);
+      expect(result.items.find(item => item.outcome === 'error')!.message).toBe('M-Pesa is not enabled for this bar');
+    });
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for the M-Pesa refund service
+ * Tests receipt lookup, refundable amounts, manager approval and the full
+ * reversal / B2C round trip against the local mock Daraja server
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  applyMpesaRefundResult,
+  applyMpesaRefundTimeout,
+  approveMpesaRefund,
+  chooseRefundMethod,
+  getMpesaReceiptNumber,
+  getRefundableAmount,
+  getRefundCallbackUrls,
+  MpesaRefundError,
+  rejectMpesaRefund,
+  requestMpesaRefund
+} from '../mpesa-refunds';
+import { verifyCallbackUrl } from '../mpesa-callback-inbox';
+import { startMockDarajaServer, type MockDarajaScenario, type MockDarajaServer } from '../mpesa-mock-daraja';
+import { encryptToBytea } from '../mpesa-encryption';
+
+const readPath = (row: any, path: string) =>
+  path.split('.').reduce((value, key) => (value == null ? value : value[key]), row);
+
+// Minimal query builder over plain arrays: enough for the refund service's queries
+function createSupabase(tables: Record<string, any[]>) {
+  let nextId = 1;
+
+  function query(table: string) {
+    const filters: Array<(row: any) => boolean> = [];
+    let operation: 'select' | 'insert' | 'update' = 'select';
+    let values: any = null;
+    let single: 'single' | 'maybe' | null = null;
+
+    const execute = () => {
+      const rows = tables[table] = tables[table] || [];
+      if (operation === 'insert') {
+        const inserted = (Array.isArray(values) ? values : [values])
+          .map((value: any) => ({ id: `${table}-${nextId++}`, created_at: new Date().toISOString(), ...value }));
+        rows.push(...inserted);
+        return { data: single ? inserted[0] : inserted, error: null };
+      }
+      const matched = rows.filter(row => filters.every(filter => filter(row)));
+      if (operation === 'update') {
+        matched.forEach(row => Object.assign(row, values));
+      }
+      const data = matched.map(row => ({ ...row }));
+      if (single === 'maybe') return { data: data[0] ?? null, error: null };
+      if (single === 'single') return { data: data[0] ?? null, error: data[0] ? null : { message: 'not found' } };
+      return { data, error: null };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      insert: (rows: any) => { operation = 'insert'; values = rows; return builder; },
+      update: (updates: any) => { operation = 'update'; values = updates; return builder; },
+      eq: (column: string, value: any) => { filters.push(row => readPath(row, column) === value); return builder; },
+      order: () => builder,
+      limit: () => builder,
+      single: () => { single = 'single'; return Promise.resolve(execute()); },
+      maybeSingle: () => { single = 'maybe'; return Promise.resolve(execute()); },
+      then: (resolve: any, reject: any) => Promise.resolve(execute()).then(resolve, reject)
+    };
+    return builder;
+  }
+
+  return { from: query } as any;
+}
+
+const stkMetadata = (receipt: string) => ({
+  Body: {
+    stkCallback: {
+      ResultCode: 0,
+      CallbackMetadata: {
+        Item: [
+          { Name: 'Amount', Value: 1100 },
+          { Name: 'MpesaReceiptNumber', Value: receipt },
+          { Name: 'PhoneNumber', Value: 254712345678 }
+        ]
+      }
+    }
+  }
+});
+
+function createTables() {
+  return {
+    bars: [{
+      id: 'bar-1',
+      mpesa_enabled: true,
+      mpesa_environment: 'sandbox',
+      mpesa_business_shortcode: '174379',
+      mpesa_consumer_key_encrypted: encryptToBytea('consumer-key'),
+      mpesa_consumer_secret_encrypted: encryptToBytea('consumer-secret'),
+      mpesa_passkey_encrypted: '',
+      mpesa_initiator_name: 'tabeza_api',
+      mpesa_security_credential_encrypted: encryptToBytea('security-credential')
+    }],
+    user_bars: [
+      { user_id: 'manager-1', bar_id: 'bar-1', role: 'manager' },
+      { user_id: 'staff-1', bar_id: 'bar-1', role: 'staff' }
+    ],
+    tabs: [{ id: 'tab-1', bar_id: 'bar-1', tab_number: 7, status: 'closed' }],
+    tab_balances: [{ tab_id: 'tab-1', balance: 0 }],
+    tab_payments: [
+      {
+        id: 'payment-1',
+        tab_id: 'tab-1',
+        amount: 1000,
+        tip_amount: 100,
+        service_charge_amount: 0,
+        method: 'mpesa',
+        status: 'success',
+        reference: 'ws_CO_1',
+        phone_number: '254712345678',
+        refunded_payment_id: null,
+        metadata: stkMetadata('RKT1234ABC'),
+        tabs: { bar_id: 'bar-1' }
+      } as Record<string, any>,
+      {
+        id: 'cash-1',
+        tab_id: 'tab-1',
+        amount: 500,
+        method: 'cash',
+        status: 'success',
+        reference: 'CASH_1',
+        metadata: null,
+        tabs: { bar_id: 'bar-1' }
+      }
+    ],
+    mpesa_refunds: [] as any[]
+  };
+}
+
+/**
+ * Local stand-in for the customer app's refund result/timeout routes
+ */
+async function startResultReceiver(supabase: any) {
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', async () => {
+      const payload = JSON.parse(raw);
+      if (req.url?.endsWith('/timeout')) {
+        await applyMpesaRefundTimeout(supabase, payload);
+      } else {
+        await applyMpesaRefundResult(supabase, payload);
+      }
+      res.end(JSON.stringify({ ResultCode: 0, ResultDesc: 'Success' }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    origin: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
+
+describe('M-Pesa Refund Service', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      MPESA_KMS_KEY: '12345678901234567890123456789012'
+    };
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('getMpesaReceiptNumber', () => {
+    test('should read the receipt from STK callback or C2B metadata', () => {
+      expect(getMpesaReceiptNumber({ metadata: stkMetadata('RKT1234ABC') })).toBe('RKT1234ABC');
+      expect(getMpesaReceiptNumber({ metadata: { c2b: { transId: 'RKTQDM7W6S' } } })).toBe('RKTQDM7W6S');
+      expect(getMpesaReceiptNumber({ metadata: { reconciliation: {} } })).toBeNull();
+      expect(getMpesaReceiptNumber({})).toBeNull();
+    });
+  });
+
+  describe('getRefundableAmount / chooseRefundMethod', () => {
+    const payment = { amount: 1000, tip_amount: 100, service_charge_amount: 0 };
+
+    test('should count live refunds, including timed-out ones that may still complete', () => {
+      expect(getRefundableAmount(payment, [])).toBe(1100);
+      expect(getRefundableAmount(payment, [
+        { amount: 300, status: 'completed', result_code: '0' },
+        { amount: 200, status: 'rejected', result_code: null },
+        { amount: 100, status: 'failed', result_code: 'R000002' },
+        { amount: 50, status: 'failed', result_code: 'TIMEOUT' }
+      ])).toBe(750);
+    });
+
+    test('should reverse only a full, first refund', () => {
+      expect(chooseRefundMethod(payment, 1100, 1100)).toBe('reversal');
+      expect(chooseRefundMethod(payment, 1000, 1100)).toBe('b2c');
+      expect(chooseRefundMethod(payment, 800, 800)).toBe('b2c');
+    });
+  });
+
+  describe('getRefundCallbackUrls', () => {
+    test('should sign the result and timeout URLs when a callback secret is set', () => {
+      process.env.MPESA_CALLBACK_URL = 'https://customer.example.com/api/mpesa/callback';
+      process.env.MPESA_CALLBACK_SECRET = 'test-callback-secret';
+
+      const { resultUrl, timeoutUrl } = getRefundCallbackUrls();
+      expect(resultUrl).toMatch(/^https:\/\/customer\.example\.com\/api\/mpesa\/refunds\/result\?token=/);
+      expect(timeoutUrl).toMatch(/^https:\/\/customer\.example\.com\/api\/mpesa\/refunds\/timeout\?token=/);
+      expect(verifyCallbackUrl(resultUrl)).toBe(true);
+      expect(verifyCallbackUrl(timeoutUrl)).toBe(true);
+      expect(verifyCallbackUrl('https://customer.example.com/api/mpesa/refunds/result')).toBe(false);
+    });
+  });
+
+  describe('requestMpesaRefund', () => {
+    const request = { barId: 'bar-1', paymentId: 'payment-1', amount: 1100, reason: 'Paid to the wrong tab', requestedBy: 'staff-1' };
+
+    test('should record a pending request against the original receipt', async () => {
+      const tables = createTables();
+      const refund = await requestMpesaRefund(createSupabase(tables), request);
+
+      expect(refund).toMatchObject({
+        status: 'pending_approval',
+        method: 'reversal',
+        amount: 1100,
+        mpesa_receipt_number: 'RKT1234ABC',
+        phone_number: '254712345678',
+        requested_by: 'staff-1'
+      });
+    });
+
+    test('should require a reason and stay within the refundable amount', async () => {
+      const supabase = createSupabase(createTables());
+
+      await expect(requestMpesaRefund(supabase, { ...request, reason: '  ' })).rejects.toThrow('A reason is required');
+      await expect(requestMpesaRefund(supabase, { ...request, amount: 1200 })).rejects.toThrow('At most KSh 1100');
+      await expect(requestMpesaRefund(supabase, { ...request, paymentId: 'cash-1' })).rejects.toThrow('Only successful M-Pesa payments');
+      await expect(requestMpesaRefund(supabase, { ...request, barId: 'bar-2' })).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('approval', () => {
+    test('should only let an owner or manager approve or reject', async () => {
+      const tables = createTables();
+      const supabase = createSupabase(tables);
+      const refund = await requestMpesaRefund(supabase, {
+        barId: 'bar-1', paymentId: 'payment-1', amount: 200, reason: 'Overcharged', requestedBy: 'staff-1'
+      });
+
+      await expect(approveMpesaRefund(supabase, 'bar-1', refund.id, 'staff-1')).rejects.toMatchObject({ statusCode: 403 });
+      expect(tables.mpesa_refunds[0].status).toBe('pending_approval');
+
+      const rejected = await rejectMpesaRefund(supabase, 'bar-1', refund.id, 'manager-1', 'Customer was not overcharged');
+      expect(rejected).toMatchObject({ status: 'rejected', approved_by: 'manager-1' });
+      await expect(approveMpesaRefund(supabase, 'bar-1', refund.id, 'manager-1')).rejects.toBeInstanceOf(MpesaRefundError);
+    });
+  });
+
+  describe('against the mock Daraja server', () => {
+    let daraja: MockDarajaServer;
+    let receiver: Awaited<ReturnType<typeof startResultReceiver>>;
+
+    async function setup(scenario: MockDarajaScenario) {
+      const tables = createTables();
+      const supabase = createSupabase(tables);
+      daraja = await startMockDarajaServer({ scenario });
+      receiver = await startResultReceiver(supabase);
+      process.env.MPESA_MOCK_MODE = 'true';
+      process.env.MPESA_MOCK_DARAJA_URL = daraja.url;
+      process.env.MPESA_CALLBACK_URL = `${receiver.origin}/api/mpesa/callback`;
+      return { tables, supabase };
+    }
+
+    afterEach(async () => {
+      await daraja?.close();
+      await receiver?.close();
+    });
+
+    test('should reverse a full refund and reopen the closed tab', async () => {
+      const { tables, supabase } = await setup('success');
+      const refund = await requestMpesaRefund(supabase, {
+        barId: 'bar-1', paymentId: 'payment-1', amount: 1100, reason: 'Paid to the wrong tab', requestedBy: 'staff-1'
+      });
+
+      const processing = await approveMpesaRefund(supabase, 'bar-1', refund.id, 'manager-1');
+      expect(processing.status).toBe('processing');
+      expect(processing.conversation_id).toMatch(/^AG_MOCK_/);
+
+      const sent = daraja.requests.find(r => r.path === '/mpesa/reversal/v1/request')!;
+      expect(sent.body).toMatchObject({
+        Initiator: 'tabeza_api',
+        SecurityCredential: 'security-credential',
+        CommandID: 'TransactionReversal',
+        TransactionID: 'RKT1234ABC',
+        Amount: 1100,
+        ReceiverParty: '174379',
+        ResultURL: `${receiver.origin}/api/mpesa/refunds/result`
+      });
+
+      // The balance the tab_balances view would show once the refund is posted
+      tables.tab_balances[0].balance = 1000;
+      await daraja.settled();
+
+      const completed = tables.mpesa_refunds[0];
+      expect(completed.status).toBe('completed');
+      const ledger = tables.tab_payments.find(p => p.refunded_payment_id === 'payment-1')!;
+      expect(ledger).toMatchObject({ amount: -1000, status: 'success', method: 'mpesa' });
+      expect(ledger.metadata.refund).toMatchObject({ refundId: refund.id, amount: 1100, originalReceipt: 'RKT1234ABC' });
+      expect(completed.refund_payment_id).toBe(ledger.id);
+      expect(tables.tabs[0].status).toBe('overdue');
+    });
+
+    test('should send partial refunds by B2C and ignore a duplicate result', async () => {
+      const { tables, supabase } = await setup('success');
+      tables.tabs[0].status = 'open';
+      const refund = await requestMpesaRefund(supabase, {
+        barId: 'bar-1', paymentId: 'payment-1', amount: 300, reason: 'Charged for a drink we did not serve', requestedBy: 'staff-1'
+      });
+
+      await approveMpesaRefund(supabase, 'bar-1', refund.id, 'manager-1');
+      await daraja.settled();
+
+      const sent = daraja.requests.find(r => r.path === '/mpesa/b2c/v1/paymentrequest')!;
+      expect(sent.body).toMatchObject({ CommandID: 'BusinessPayment', PartyA: '174379', PartyB: '254712345678', Amount: 300 });
+
+      const again = await applyMpesaRefundResult(supabase, tables.mpesa_refunds[0].result);
+      expect(again.applied).toBe(false);
+      expect(tables.tab_payments.filter(p => p.refunded_payment_id === 'payment-1').map(p => p.amount)).toEqual([-300]);
+      expect(tables.tabs[0].status).toBe('open');
+    });
+
+    test('should mark failed and timed-out refunds without touching the tab', async () => {
+      const { tables, supabase } = await setup('failed');
+      const refund = await requestMpesaRefund(supabase, {
+        barId: 'bar-1', paymentId: 'payment-1', amount: 1100, reason: 'Paid to the wrong tab', requestedBy: 'staff-1'
+      });
+      await approveMpesaRefund(supabase, 'bar-1', refund.id, 'manager-1');
+      await daraja.settled();
+
+      expect(tables.mpesa_refunds[0]).toMatchObject({ status: 'failed', result_code: 'R000002' });
+      expect(tables.tab_payments).toHaveLength(2);
+
+      await daraja.close();
+      daraja = await startMockDarajaServer({ scenario: 'timeout' });
+      process.env.MPESA_MOCK_DARAJA_URL = daraja.url;
+
+      const retry = await requestMpesaRefund(supabase, {
+        barId: 'bar-1', paymentId: 'payment-1', amount: 1100, reason: 'Paid to the wrong tab', requestedBy: 'staff-1'
+      });
+      await approveMpesaRefund(supabase, 'bar-1', retry.id, 'manager-1');
+      await daraja.settled();
+
+      expect(tables.mpesa_refunds[1]).toMatchObject({ status: 'failed', result_code: 'TIMEOUT' });
+      expect(tables.tab_payments).toHaveLength(2);
+      expect(tables.tabs[0].status).toBe('closed');
+    });
+  });
+});
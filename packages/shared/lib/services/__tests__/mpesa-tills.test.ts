@@ -0,0 +1,241 @@
+/**
+ * Unit tests for M-Pesa till routing
+ * Tests matching tills by table range, staff station and Kenya time of day,
+ * validating till input, and loading the routed configuration against an
+ * in-memory Supabase stand-in
+ */
+
+import { decryptFromBytea } from '../mpesa-encryption';
+import {
+  applyTillToBarData,
+  MASKED_CREDENTIAL,
+  MpesaTillError,
+  parseMpesaTillInput,
+  routeMpesaPayment,
+  saveMpesaTill,
+  selectMpesaTill,
+  tillMatchesRoute,
+  type MpesaTill
+} from '../mpesa-tills';
+
+// Minimal query builder over plain arrays: enough for the till queries
+function createSupabase(tables: Record<string, any[]>) {
+  let nextId = 1;
+
+  function query(table: string) {
+    const filters: Array<(row: any) => boolean> = [];
+    let operation: 'select' | 'insert' | 'update' = 'select';
+    let values: any = null;
+    let single = false;
+
+    const execute = () => {
+      const rows = tables[table] = tables[table] || [];
+      if (operation === 'insert') {
+        const inserted = { id: `${table}-${nextId++}`, ...values };
+        rows.push(inserted);
+        return { data: single ? inserted : [inserted], error: null };
+      }
+      const matched = rows.filter(row => filters.every(filter => filter(row)));
+      if (operation === 'update') {
+        matched.forEach(row => Object.assign(row, values));
+      }
+      const data = matched.map(row => ({ ...row }));
+      return single ? { data: data[0] ?? null, error: null } : { data, error: null };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      insert: (row: any) => { operation = 'insert'; values = row; return builder; },
+      update: (updates: any) => { operation = 'update'; values = updates; return builder; },
+      eq: (column: string, value: any) => { filters.push(row => row[column] === value); return builder; },
+      order: () => builder,
+      maybeSingle: () => { single = true; return Promise.resolve(execute()); },
+      then: (resolve: any, reject: any) => Promise.resolve(execute()).then(resolve, reject)
+    };
+    return builder;
+  }
+
+  return { from: query } as any;
+}
+
+const till = (overrides: Partial<MpesaTill> = {}): MpesaTill => ({
+  id: 'till-1',
+  bar_id: 'bar-1',
+  name: 'Main counter',
+  environment: 'simulator',
+  business_shortcode: '600100',
+  consumer_key_encrypted: null,
+  consumer_secret_encrypted: null,
+  passkey_encrypted: null,
+  initiator_name: null,
+  security_credential_encrypted: null,
+  is_active: true,
+  priority: 100,
+  table_from: null,
+  table_to: null,
+  stations: [],
+  active_from: null,
+  active_to: null,
+  ...overrides
+});
+
+const bar = {
+  mpesa_enabled: true,
+  mpesa_environment: 'simulator',
+  mpesa_business_shortcode: '174379',
+  mpesa_consumer_key_encrypted: '',
+  mpesa_consumer_secret_encrypted: '',
+  mpesa_passkey_encrypted: ''
+};
+
+// 21:30 and 14:00 in Nairobi
+const evening = new Date('2026-10-19T18:30:00.000Z');
+const afternoon = new Date('2026-10-19T11:00:00.000Z');
+
+describe('M-Pesa Till Routing', () => {
+  describe('tillMatchesRoute', () => {
+    test('should match a table range only for tables inside it', () => {
+      const terrace = till({ table_from: 10, table_to: 20 });
+
+      expect(tillMatchesRoute(terrace, { tableNumber: 10 })).toBe(true);
+      expect(tillMatchesRoute(terrace, { tableNumber: 20 })).toBe(true);
+      expect(tillMatchesRoute(terrace, { tableNumber: 21 })).toBe(false);
+      expect(tillMatchesRoute(terrace, {})).toBe(false);
+    });
+
+    test('should match stations regardless of case and spacing', () => {
+      const rooftop = till({ stations: ['Rooftop', 'Pool Bar'] });
+
+      expect(tillMatchesRoute(rooftop, { station: ' rooftop ' })).toBe(true);
+      expect(tillMatchesRoute(rooftop, { station: 'Main' })).toBe(false);
+      expect(tillMatchesRoute(rooftop, { station: null })).toBe(false);
+    });
+
+    test('should use Kenya time and allow windows past midnight', () => {
+      const lateNight = till({ active_from: '18:00:00', active_to: '02:00:00' });
+      const daytime = till({ active_from: '10:00', active_to: '18:00' });
+
+      expect(tillMatchesRoute(lateNight, { at: evening })).toBe(true);
+      expect(tillMatchesRoute(lateNight, { at: afternoon })).toBe(false);
+      expect(tillMatchesRoute(lateNight, { at: new Date('2026-10-19T22:30:00.000Z') })).toBe(true);
+      expect(tillMatchesRoute(daytime, { at: afternoon })).toBe(true);
+      expect(tillMatchesRoute(daytime, { at: evening })).toBe(false);
+    });
+  });
+
+  describe('selectMpesaTill', () => {
+    const tills = [
+      till({ id: 'catch-all', name: 'Catch-all', priority: 100 }),
+      till({ id: 'terrace', name: 'Terrace', priority: 100, table_from: 10, table_to: 20 }),
+      till({ id: 'rooftop', name: 'Rooftop', priority: 10, stations: ['Rooftop'] }),
+      till({ id: 'closed', name: 'Closed', priority: 1, is_active: false })
+    ];
+
+    test('should prefer the lowest priority, then the more specific till', () => {
+      expect(selectMpesaTill(tills, { tableNumber: 12, station: 'Rooftop' })?.id).toBe('rooftop');
+      expect(selectMpesaTill(tills, { tableNumber: 12 })?.id).toBe('terrace');
+      expect(selectMpesaTill(tills, { tableNumber: 3 })?.id).toBe('catch-all');
+    });
+
+    test('should skip inactive tills and fall back to the bar when none match', () => {
+      expect(selectMpesaTill(tills.filter(t => t.id === 'closed'), {})).toBeNull();
+      expect(selectMpesaTill([], { tableNumber: 3 })).toBeNull();
+    });
+  });
+
+  describe('parseMpesaTillInput', () => {
+    test('should normalize rules from a form', () => {
+      expect(parseMpesaTillInput({
+        name: ' Rooftop ',
+        environment: 'production',
+        businessShortcode: '600100',
+        tableFrom: '10',
+        tableTo: '',
+        stations: 'Rooftop, Pool Bar, Rooftop',
+        activeFrom: '18:00',
+        activeTo: '02:00',
+        priority: '5'
+      })).toMatchObject({
+        name: 'Rooftop',
+        tableFrom: 10,
+        tableTo: null,
+        stations: ['Rooftop', 'Pool Bar'],
+        activeFrom: '18:00',
+        activeTo: '02:00',
+        priority: 5,
+        isActive: true
+      });
+    });
+
+    test('should reject invalid tills', () => {
+      expect(() => parseMpesaTillInput({ environment: 'sandbox' })).toThrow(MpesaTillError);
+      expect(() => parseMpesaTillInput({ name: 'A', environment: 'live' })).toThrow('Environment');
+      expect(() => parseMpesaTillInput({ name: 'A', environment: 'production' })).toThrow('shortcode is required');
+      expect(() => parseMpesaTillInput({ name: 'A', tableFrom: 20, tableTo: 10 })).toThrow('after the last table');
+      expect(() => parseMpesaTillInput({ name: 'A', activeFrom: '18:00' })).toThrow('both a start and an end time');
+      expect(() => parseMpesaTillInput({ name: 'A', activeFrom: '25:00', activeTo: '02:00' })).toThrow('HH:MM');
+    });
+  });
+
+  describe('loading configuration', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      process.env = {
+        ...originalEnv,
+        MPESA_SIMULATOR_ENABLED: 'true',
+        MPESA_KMS_KEY: '12345678901234567890123456789012'
+      };
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    test('should overlay the till shortcode and keep the bar deciding whether M-Pesa is enabled', () => {
+      const overlaid = applyTillToBarData(bar, till({ is_active: false }));
+
+      expect(overlaid.mpesa_business_shortcode).toBe('600100');
+      expect(overlaid.mpesa_enabled).toBe(true);
+      expect(applyTillToBarData({ ...bar, mpesa_enabled: false }, till()).mpesa_enabled).toBe(false);
+      expect(applyTillToBarData(bar, null)).toBe(bar);
+    });
+
+    test('should route a payment to the matching till or the bar', async () => {
+      const supabase = createSupabase({
+        bar_mpesa_tills: [till({ table_from: 10, table_to: 20 })]
+      });
+
+      const routed = await routeMpesaPayment(supabase, 'bar-1', bar, { tableNumber: 12 });
+      expect(routed.till?.id).toBe('till-1');
+      expect(routed.config.businessShortcode).toBe('600100');
+
+      const fallback = await routeMpesaPayment(supabase, 'bar-1', bar, { tableNumber: 2 });
+      expect(fallback.till).toBeNull();
+      expect(fallback.config.businessShortcode).toBe('174379');
+    });
+
+    test('should encrypt new credentials and keep masked ones', async () => {
+      const tables: Record<string, any[]> = { bar_mpesa_tills: [] };
+      const supabase = createSupabase(tables);
+      const input = parseMpesaTillInput({
+        name: 'Rooftop',
+        environment: 'production',
+        businessShortcode: '600100',
+        consumerKey: 'key-1',
+        consumerSecret: 'secret-1',
+        passkey: 'passkey-1'
+      });
+
+      const created = await saveMpesaTill(supabase, 'bar-1', input);
+      expect(created.bar_id).toBe('bar-1');
+      expect(decryptFromBytea(created.consumer_key_encrypted!)).toBe('key-1');
+      expect(decryptFromBytea(created.passkey_encrypted!)).toBe('passkey-1');
+
+      await saveMpesaTill(supabase, 'bar-1', { ...input, consumerKey: MASKED_CREDENTIAL, passkey: 'passkey-2' }, created.id);
+      const saved = tables.bar_mpesa_tills[0];
+      expect(decryptFromBytea(saved.consumer_key_encrypted)).toBe('key-1');
+      expect(decryptFromBytea(saved.passkey_encrypted)).toBe('passkey-2');
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for the order lifecycle service
+ * Tests the transition table, who may make each move and how moves are recorded
+ */
+
+import {
+  ORDER_STATUS_TRANSITIONS,
+  OrderTransitionError,
+  canTransitionOrder,
+  getOrderBarId,
+  transitionOrderStatus,
+  validateOrderTransition
+} from '../order-lifecycle';
+
+function createSupabaseMock(order: any, rpcResult: { data?: any; error?: any } = {}) {
+  const builder: any = {
+    select: () => builder,
+    eq: () => builder,
+    maybeSingle: () => Promise.resolve({ data: order, error: null })
+  };
+  return {
+    from: jest.fn(() => builder),
+    rpc: jest.fn(async () => ({ data: rpcResult.data ?? null, error: rpcResult.error ?? null }))
+  } as any;
+}
+
+describe('Order Lifecycle Service', () => {
+  describe('canTransitionOrder', () => {
+    test('should allow the forward moves in the transition table', () => {
+      expect(canTransitionOrder('pending', 'confirmed')).toBe(true);
+      expect(canTransitionOrder('pending', 'cancelled')).toBe(true);
+      expect(canTransitionOrder('confirmed', 'served')).toBe(true);
+      expect(canTransitionOrder('confirmed', 'cancelled')).toBe(true);
+      expect(canTransitionOrder('served', 'confirmed')).toBe(true);
+    });
+
+    test('should reject illegal moves and unknown statuses', () => {
+      expect(canTransitionOrder('served', 'pending')).toBe(false);
+      expect(canTransitionOrder('cancelled', 'confirmed')).toBe(false);
+      expect(canTransitionOrder('pending', 'served')).toBe(false);
+      expect(canTransitionOrder('completed', 'served')).toBe(false);
+      expect(ORDER_STATUS_TRANSITIONS.served).toEqual(['confirmed']);
+      expect(ORDER_STATUS_TRANSITIONS.cancelled).toEqual([]);
+    });
+  });
+
+  describe('validateOrderTransition', () => {
+    const customerOrder = { status: 'pending', initiated_by: 'customer' };
+    const staffOrder = { status: 'pending', initiated_by: 'staff' };
+
+    test('should require the other party to confirm a pending order', () => {
+      expect(validateOrderTransition({ order: customerOrder, to: 'confirmed', actor: 'staff' })).toBeNull();
+      expect(validateOrderTransition({ order: staffOrder, to: 'confirmed', actor: 'customer' })).toBeNull();
+      expect(() => validateOrderTransition({ order: staffOrder, to: 'confirmed', actor: 'staff' }))
+        .toThrow('Customer must approve staff-initiated orders');
+    });
+
+    test('should require a listed reason when a customer rejects a staff order', () => {
+      expect(() => validateOrderTransition({ order: staffOrder, to: 'cancelled', actor: 'customer' }))
+        .toThrow('Please select a reason for rejection');
+      expect(validateOrderTransition({ order: staffOrder, to: 'cancelled', actor: 'customer', reason: 'wrong_items' }))
+        .toBe('wrong_items');
+    });
+
+    test('should only let staff serve orders or cancel confirmed ones with a reason', () => {
+      const confirmed = { status: 'confirmed', initiated_by: 'customer' };
+      expect(() => validateOrderTransition({ order: confirmed, to: 'served', actor: 'customer' })).toThrow(OrderTransitionError);
+      expect(() => validateOrderTransition({ order: confirmed, to: 'cancelled', actor: 'customer' })).toThrow(OrderTransitionError);
+      expect(() => validateOrderTransition({ order: confirmed, to: 'cancelled', actor: 'staff' }))
+        .toThrow('A reason is required');
+      expect(validateOrderTransition({ order: confirmed, to: 'cancelled', actor: 'staff', reason: ' Out of stock ' }))
+        .toBe('Out of stock');
+    });
+
+    test('should let only staff recall a served order, whoever placed it', () => {
+      const served = { status: 'served', initiated_by: 'staff' };
+      expect(validateOrderTransition({ order: served, to: 'confirmed', actor: 'staff' })).toBeNull();
+      expect(() => validateOrderTransition({ order: served, to: 'confirmed', actor: 'customer' }))
+        .toThrow('Only staff can recall served orders');
+    });
+
+    test('should reject moves out of final states with 409', () => {
+      const attempt = () => validateOrderTransition({
+        order: { status: 'served', initiated_by: 'customer' },
+        to: 'pending' as any,
+        actor: 'staff'
+      });
+      expect(attempt).toThrow(OrderTransitionError);
+      expect(attempt).toThrow(expect.objectContaining({ statusCode: 409 }));
+    });
+  });
+
+  describe('transitionOrderStatus', () => {
+    const order = {
+      id: 'order-1',
+      status: 'pending',
+      initiated_by: 'staff',
+      tab: { bar_id: 'bar-1', owner_identifier: 'device-1_bar-1', device_identifier: null }
+    };
+
+    test('should record the actor, device and reason', async () => {
+      const supabase = createSupabaseMock(order, { data: { id: 'order-1', status: 'cancelled' } });
+
+      const updated = await transitionOrderStatus(
+        supabase, 'order-1', 'cancelled', { type: 'customer', deviceId: 'device-1' }, 'change_mind'
+      );
+
+      expect(updated).toEqual({ id: 'order-1', status: 'cancelled' });
+      expect(supabase.rpc).toHaveBeenCalledWith('transition_order_status', {
+        p_order_id: 'order-1',
+        p_to_status: 'cancelled',
+        p_initiated_by: 'customer',
+        p_actor_id: 'device-1',
+        p_reason: 'change_mind'
+      });
+    });
+
+    test('should surface a database rejection as a conflict', async () => {
+      const supabase = createSupabaseMock(order, {
+        error: { code: '23514', message: 'Illegal order transition: cancelled -> confirmed' }
+      });
+
+      await expect(transitionOrderStatus(supabase, 'order-1', 'confirmed', { type: 'customer', deviceId: 'device-1' }))
+        .rejects.toMatchObject({ statusCode: 409, message: 'Illegal order transition: cancelled -> confirmed' });
+    });
+  });
+
+  describe('getOrderBarId', () => {
+    test('should return the bar the order was placed at', async () => {
+      const supabase = createSupabaseMock({ id: 'order-1', tab: [{ bar_id: 'bar-1' }] });
+      expect(await getOrderBarId(supabase, 'order-1')).toBe('bar-1');
+    });
+
+    test('should report a missing order', async () => {
+      await expect(getOrderBarId(createSupabaseMock(null), 'order-1')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
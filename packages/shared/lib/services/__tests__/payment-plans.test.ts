@@ -0,0 +1,275 @@
+/**
+ * Unit tests for the payment plan service
+ * Tests installment splitting and due dates, and a scheduler run (reminders,
+ * STK pushes, failures and plans whose tab was settled) against an in-memory
+ * Supabase stand-in
+ */
+
+import {
+  addPlanPeriods,
+  installmentChargeTime,
+  MAX_INSTALLMENT_ATTEMPTS,
+  PaymentPlanError,
+  PaymentPlanScheduler,
+  planInstallments,
+  splitInstallments
+} from '../payment-plans';
+
+const readPath = (row: any, path: string) =>
+  path.split('.').reduce((value, key) => (value == null ? value : value[key]), row);
+
+// Minimal query builder over plain arrays: enough for the scheduler's queries
+function createSupabase(tables: Record<string, any[]>) {
+  let nextId = 1;
+
+  function query(table: string) {
+    const filters: Array<(row: any) => boolean> = [];
+    let operation: 'select' | 'insert' | 'update' = 'select';
+    let values: any = null;
+    let single = false;
+
+    const execute = () => {
+      const rows = tables[table] = tables[table] || [];
+      if (operation === 'insert') {
+        const inserted = (Array.isArray(values) ? values : [values])
+          .map((value: any) => ({ id: `${table}-${nextId++}`, ...value }));
+        rows.push(...inserted);
+        return { data: single ? inserted[0] : inserted, error: null };
+      }
+      const matched = rows.filter(row => filters.every(filter => filter(row)));
+      if (operation === 'update') {
+        matched.forEach(row => Object.assign(row, values));
+      }
+      const data = matched.map(row => ({ ...row }));
+      return single ? { data: data[0] ?? null, error: data[0] ? null : { message: 'not found' } } : { data, error: null };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      insert: (rows: any) => { operation = 'insert'; values = rows; return builder; },
+      update: (updates: any) => { operation = 'update'; values = updates; return builder; },
+      eq: (column: string, value: any) => { filters.push(row => readPath(row, column) === value); return builder; },
+      in: (column: string, list: any[]) => { filters.push(row => list.includes(readPath(row, column))); return builder; },
+      is: (column: string, value: any) => { filters.push(row => (row[column] ?? null) === value); return builder; },
+      lt: (column: string, value: any) => { filters.push(row => row[column] < value); return builder; },
+      lte: (column: string, value: any) => { filters.push(row => row[column] <= value); return builder; },
+      order: () => builder,
+      limit: () => builder,
+      single: () => { single = true; return Promise.resolve(execute()); },
+      then: (resolve: any, reject: any) => Promise.resolve(execute()).then(resolve, reject)
+    };
+    return builder;
+  }
+
+  return { from: query } as any;
+}
+
+const bar = {
+  name: 'Kilimani Lounge',
+  mpesa_enabled: true,
+  mpesa_environment: 'simulator',
+  mpesa_business_shortcode: '174379',
+  mpesa_consumer_key_encrypted: '',
+  mpesa_consumer_secret_encrypted: '',
+  mpesa_passkey_encrypted: ''
+};
+
+const installmentRow = (overrides: Record<string, any> = {}) => ({
+  id: 'installment-1',
+  plan_id: 'plan-1',
+  tab_id: 'tab-00000001',
+  bar_id: 'bar-1',
+  position: 1,
+  amount: 500,
+  paid_amount: 0,
+  due_date: '2026-10-20',
+  status: 'scheduled',
+  attempts: 0,
+  next_attempt_at: installmentChargeTime('2026-10-20'),
+  reminder_sent_at: null,
+  plan: { id: 'plan-1', status: 'active', phone_number: '254712345678' },
+  tab: {
+    id: 'tab-00000001',
+    status: 'overdue',
+    bar_id: 'bar-1',
+    tab_number: 42,
+    device_identifier: 'device-1',
+    bars: bar
+  },
+  ...overrides
+});
+
+describe('Payment Plan Service', () => {
+  describe('splitInstallments', () => {
+    test('should keep whole-shilling installments and spread the remainder', () => {
+      expect(splitInstallments(1000, 3)).toEqual([334, 333, 333]);
+      expect(splitInstallments(1500, 2)).toEqual([750, 750]);
+    });
+
+    test('should reject installment counts outside the allowed range', () => {
+      expect(() => splitInstallments(1000, 1)).toThrow(PaymentPlanError);
+      expect(() => splitInstallments(1000, 13)).toThrow(PaymentPlanError);
+      expect(() => splitInstallments(3, 4)).toThrow('too small');
+    });
+  });
+
+  describe('addPlanPeriods', () => {
+    test('should step weekly and fortnightly plans by days', () => {
+      expect(addPlanPeriods('2026-10-28', 'weekly', 1)).toBe('2026-11-04');
+      expect(addPlanPeriods('2026-10-28', 'fortnightly', 2)).toBe('2026-11-25');
+    });
+
+    test('should keep the day of the month, clamped to shorter months', () => {
+      expect(addPlanPeriods('2026-10-15', 'monthly', 2)).toBe('2026-12-15');
+      expect(addPlanPeriods('2027-01-31', 'monthly', 1)).toBe('2027-02-28');
+      expect(addPlanPeriods('2027-01-31', 'monthly', 2)).toBe('2027-03-31');
+    });
+  });
+
+  describe('planInstallments', () => {
+    test('should schedule installments that add up to the balance', () => {
+      const planned = planInstallments(2000, { installmentCount: 3, frequency: 'weekly', firstDueDate: '2026-10-26' }, '2026-10-19');
+
+      expect(planned).toEqual([
+        { position: 1, amount: 667, due_date: '2026-10-26' },
+        { position: 2, amount: 667, due_date: '2026-11-02' },
+        { position: 3, amount: 666, due_date: '2026-11-09' }
+      ]);
+    });
+
+    test('should reject a settled balance, bad frequency or past first due date', () => {
+      const input = { installmentCount: 2, frequency: 'weekly' as const, firstDueDate: '2026-10-26' };
+
+      expect(() => planInstallments(0, input, '2026-10-19')).toThrow('no balance');
+      expect(() => planInstallments(1000, { ...input, frequency: 'daily' as any }, '2026-10-19')).toThrow('Frequency');
+      expect(() => planInstallments(1000, { ...input, firstDueDate: '26/10/2026' }, '2026-10-19')).toThrow('YYYY-MM-DD');
+      expect(() => planInstallments(1000, { ...input, firstDueDate: '2026-10-18' }, '2026-10-19')).toThrow('past');
+    });
+  });
+
+  describe('PaymentPlanScheduler', () => {
+    const originalEnv = process.env;
+    // 10:00 Nairobi time on 20 October
+    const now = () => new Date('2026-10-20T07:00:00.000Z');
+
+    beforeEach(() => {
+      process.env = { ...originalEnv, MPESA_SIMULATOR_ENABLED: 'true' };
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    test('should remind tomorrow\'s installments once and charge those that are due', async () => {
+      const tables: Record<string, any[]> = {
+        tab_payment_plans: [{ id: 'plan-1', status: 'active' }],
+        tab_payment_plan_installments: [
+          installmentRow(),
+          installmentRow({
+            id: 'installment-2',
+            position: 2,
+            due_date: '2026-10-21',
+            next_attempt_at: installmentChargeTime('2026-10-21')
+          })
+        ],
+        tab_payments: []
+      };
+      const sendSTKPush = jest.fn().mockResolvedValue({ CheckoutRequestID: 'ws_CO_1' });
+      const sendPush = jest.fn().mockResolvedValue([]);
+
+      const result = await new PaymentPlanScheduler(createSupabase(tables), { sendSTKPush, sendPush, now }).run();
+
+      expect(result).toEqual({ reminded: 2, charged: 1, failed: 0, ended: 0, errors: 0 });
+      expect(sendPush).toHaveBeenCalledWith(expect.anything(), ['device-1'], expect.objectContaining({
+        title: 'Kilimani Lounge: installment due tomorrow'
+      }));
+      expect(sendSTKPush).toHaveBeenCalledTimes(1);
+      expect(sendSTKPush).toHaveBeenCalledWith(expect.objectContaining({
+        phoneNumber: '254712345678',
+        amount: 500,
+        accountReference: 'TAB00000001'
+      }), expect.objectContaining({ environment: 'simulator' }));
+
+      expect(tables.tab_payments).toEqual([expect.objectContaining({
+        tab_id: 'tab-00000001',
+        amount: 500,
+        status: 'pending',
+        plan_installment_id: 'installment-1',
+        reference: 'ws_CO_1'
+      })]);
+      const charged = tables.tab_payment_plan_installments[0];
+      expect(charged.attempts).toBe(1);
+      expect(charged.next_attempt_at > now().toISOString()).toBe(true);
+
+      // Reminders are only sent once
+      sendPush.mockClear();
+      await new PaymentPlanScheduler(createSupabase(tables), { sendSTKPush, sendPush, now }).run();
+      expect(sendPush).not.toHaveBeenCalled();
+    });
+
+    test('should fail the payment when the STK push is rejected', async () => {
+      const tables: Record<string, any[]> = {
+        tab_payment_plans: [{ id: 'plan-1', status: 'active' }],
+        tab_payment_plan_installments: [installmentRow({ status: 'missed', attempts: 1, reminder_sent_at: '2026-10-19T07:00:00.000Z' })],
+        tab_payments: []
+      };
+      const sendSTKPush = jest.fn().mockRejectedValue(new Error('Invalid phone number'));
+
+      const result = await new PaymentPlanScheduler(createSupabase(tables), {
+        sendSTKPush,
+        sendPush: jest.fn().mockResolvedValue([]),
+        now
+      }).run();
+
+      expect(result.failed).toBe(1);
+      expect(tables.tab_payments[0]).toMatchObject({
+        status: 'failed',
+        metadata: expect.objectContaining({ error: 'Invalid phone number' })
+      });
+      expect(tables.tab_payment_plan_installments[0].attempts).toBe(2);
+    });
+
+    test('should stop retrying after the last attempt', async () => {
+      const tables: Record<string, any[]> = {
+        tab_payment_plans: [{ id: 'plan-1', status: 'active' }],
+        tab_payment_plan_installments: [installmentRow({ status: 'missed', attempts: MAX_INSTALLMENT_ATTEMPTS, reminder_sent_at: '2026-10-19T07:00:00.000Z' })],
+        tab_payments: []
+      };
+      const sendSTKPush = jest.fn();
+
+      const result = await new PaymentPlanScheduler(createSupabase(tables), { sendSTKPush, now }).run();
+
+      expect(result.charged).toBe(0);
+      expect(sendSTKPush).not.toHaveBeenCalled();
+    });
+
+    test('should end the plan when the tab is no longer overdue', async () => {
+      const closedTab = { ...installmentRow().tab, status: 'closed' };
+      const tables: Record<string, any[]> = {
+        tab_payment_plans: [{ id: 'plan-1', status: 'active' }],
+        tab_payment_plan_installments: [
+          installmentRow({ tab: closedTab, reminder_sent_at: '2026-10-19T07:00:00.000Z' }),
+          installmentRow({ id: 'installment-2', position: 2, tab: closedTab, due_date: '2026-10-27', next_attempt_at: installmentChargeTime('2026-10-27') })
+        ],
+        tab_payments: []
+      };
+      const sendSTKPush = jest.fn();
+
+      const result = await new PaymentPlanScheduler(createSupabase(tables), {
+        sendSTKPush,
+        sendPush: jest.fn().mockResolvedValue([]),
+        now
+      }).run();
+
+      expect(result.ended).toBe(1);
+      expect(sendSTKPush).not.toHaveBeenCalled();
+      expect(tables.tab_payment_plans[0]).toMatchObject({ status: 'cancelled', cancel_reason: 'Tab is no longer overdue' });
+      expect(tables.tab_payment_plan_installments.map(row => row.status)).toEqual(['cancelled', 'cancelled']);
+    });
+  });
+});
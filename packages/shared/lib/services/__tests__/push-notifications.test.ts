@@ -0,0 +1,208 @@
+/**
+ * Unit tests for Web Push delivery
+ * Tests payload encryption against the RFC 8291 example, VAPID tokens,
+ * per-topic headers and pruning of expired subscriptions
+ */
+
+import { createECDH, createPublicKey, verify } from 'crypto';
+import {
+  createVapidAuthorization,
+  encryptPushPayload,
+  getVapidConfig,
+  MAX_PUSH_PAYLOAD_BYTES,
+  PushNotificationError,
+  sendPushToDevices
+} from '../push-notifications';
+
+const fromBase64Url = (value: string) => Buffer.from(value, 'base64');
+
+function createVapidKeys() {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: ecdh.getPublicKey().toString('base64url'),
+    privateKey: ecdh.getPrivateKey().toString('base64url'),
+    subject: 'mailto:ops@tabeza.co.ke'
+  };
+}
+
+// A browser-side key pair, as a real subscription would hold
+function createSubscription(endpoint: string) {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    endpoint,
+    p256dh: ecdh.getPublicKey().toString('base64'),
+    auth: Buffer.alloc(16, 7).toString('base64')
+  };
+}
+
+// Just the parts of a fetch Response the service reads
+const pushResponse = (status: number, body = '', location?: string) => ({
+  status,
+  ok: status >= 200 && status < 300,
+  text: async () => body,
+  headers: { get: (name: string) => (name.toLowerCase() === 'location' ? location ?? null : null) }
+});
+
+function createSupabase(subscriptions: Array<{ device_id: string; endpoint: string; p256dh: string; auth: string }>) {
+  const deleted: string[] = [];
+
+  const supabase = {
+    from: () => {
+      let deleting = false;
+      const builder: any = {
+        select: () => builder,
+        delete: () => { deleting = true; return builder; },
+        in: async (column: string, values: string[]) => {
+          if (deleting) {
+            deleted.push(...values);
+            return { error: null };
+          }
+          return { data: subscriptions.filter(row => values.includes((row as any)[column])), error: null };
+        }
+      };
+      return builder;
+    }
+  } as any;
+
+  return { supabase, deleted };
+}
+
+describe('Push Notification Service', () => {
+  describe('encryptPushPayload', () => {
+    test('should match the RFC 8291 worked example', () => {
+      const body = encryptPushPayload(
+        'When I grow up, I want to be a watermelon',
+        {
+          p256dh: 'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+          auth: 'BTBZMqHH6r4Tts7J_aSIgg'
+        },
+        {
+          salt: fromBase64Url('DGv6ra1nlYgDCS1FRnbzlw'),
+          senderPrivateKey: fromBase64Url('yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw')
+        }
+      );
+
+      expect(body.toString('base64url')).toBe(
+        'DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEq' +
+        'KK6PBru3jl7A_yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgSxsj_Qulcy4a-fN'
+      );
+    });
+
+    test('should refuse payloads no push service would accept', () => {
+      const subscription = createSubscription('https://push.example.com/a');
+      expect(() => encryptPushPayload('x'.repeat(MAX_PUSH_PAYLOAD_BYTES + 1), subscription)).toThrow(PushNotificationError);
+    });
+  });
+
+  describe('createVapidAuthorization', () => {
+    test('should sign a token for the push service origin that verifies with the public key', () => {
+      const vapid = createVapidKeys();
+      const now = new Date('2024-06-14T12:00:00.000Z');
+
+      const header = createVapidAuthorization('https://fcm.googleapis.com/fcm/send/abc123', vapid, now);
+      const [, token, key] = header.match(/^vapid t=([^,]+), k=(.+)$/)!;
+      const [encodedHeader, encodedClaims, signature] = token.split('.');
+
+      expect(key).toBe(vapid.publicKey);
+      expect(JSON.parse(fromBase64Url(encodedClaims).toString())).toEqual({
+        aud: 'https://fcm.googleapis.com',
+        exp: now.getTime() / 1000 + 12 * 60 * 60,
+        sub: 'mailto:ops@tabeza.co.ke'
+      });
+
+      const publicKey = fromBase64Url(vapid.publicKey);
+      const verifier = createPublicKey({
+        key: {
+          kty: 'EC',
+          crv: 'P-256',
+          x: publicKey.subarray(1, 33).toString('base64url'),
+          y: publicKey.subarray(33).toString('base64url')
+        },
+        format: 'jwk'
+      });
+      expect(verify(
+        'sha256',
+        Buffer.from(`${encodedHeader}.${encodedClaims}`),
+        { key: verifier, dsaEncoding: 'ieee-p1363' },
+        fromBase64Url(signature)
+      )).toBe(true);
+    });
+
+    test('should report missing VAPID configuration', () => {
+      expect(() => getVapidConfig({ NEXT_PUBLIC_VAPID_PUBLIC_KEY: 'abc' })).toThrow(PushNotificationError);
+    });
+  });
+
+  describe('sendPushToDevices', () => {
+    test('should send encrypted pushes with topic TTL and urgency', async () => {
+      const subscription = createSubscription('https://fcm.googleapis.com/fcm/send/live');
+      const { supabase } = createSupabase([{ device_id: 'device-1', ...subscription }]);
+      const fetchMock = jest.fn().mockResolvedValue(pushResponse(201, '', '/m/1'));
+
+      const results = await sendPushToDevices(
+        supabase,
+        ['device-1'],
+        { title: 'Your order is ready', tag: 'order-42', topic: 'order_ready' },
+        { vapid: createVapidKeys(), fetch: fetchMock }
+      );
+
+      expect(results).toEqual([{ endpoint: subscription.endpoint, success: true, statusCode: 201, messageId: '/m/1' }]);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(subscription.endpoint);
+      expect(init.headers).toMatchObject({
+        'Content-Encoding': 'aes128gcm',
+        TTL: '900',
+        Urgency: 'high',
+        Topic: 'order-42'
+      });
+      expect(init.headers.Authorization).toMatch(/^vapid t=/);
+      // Salt, record size, key length, sender key, then ciphertext: never the plain JSON
+      const body = Buffer.from(init.body);
+      expect(body.readUInt32BE(16)).toBe(4096);
+      expect(body.toString()).not.toContain('Your order is ready');
+    });
+
+    test('should prune subscriptions the push service reports as gone', async () => {
+      const live = createSubscription('https://push.example.com/live');
+      const expired = createSubscription('https://push.example.com/expired');
+      const unsubscribed = createSubscription('https://push.example.com/unsubscribed');
+      const { supabase, deleted } = createSupabase([
+        { device_id: 'device-1', ...live },
+        { device_id: 'device-1', ...expired },
+        { device_id: 'device-2', ...unsubscribed }
+      ]);
+      const statuses: Record<string, number> = { [live.endpoint]: 201, [expired.endpoint]: 410, [unsubscribed.endpoint]: 404 };
+      const fetchMock = jest.fn(async (url: string) => pushResponse(statuses[url]));
+
+      const results = await sendPushToDevices(
+        supabase,
+        ['device-1', 'device-2'],
+        { title: 'Payment received', topic: 'payment' },
+        { vapid: createVapidKeys(), fetch: fetchMock as any }
+      );
+
+      expect(deleted.sort()).toEqual([expired.endpoint, unsubscribed.endpoint].sort());
+      expect(results.filter(result => result.pruned).map(result => result.statusCode).sort()).toEqual([404, 410]);
+      expect(results.find(result => result.endpoint === live.endpoint)?.success).toBe(true);
+    });
+
+    test('should keep subscriptions after other push service errors', async () => {
+      const subscription = createSubscription('https://push.example.com/busy');
+      const { supabase, deleted } = createSupabase([{ device_id: 'device-1', ...subscription }]);
+      const fetchMock = jest.fn().mockResolvedValue(pushResponse(429, 'slow down'));
+
+      const [result] = await sendPushToDevices(
+        supabase,
+        ['device-1'],
+        { title: 'Hello' },
+        { vapid: createVapidKeys(), fetch: fetchMock }
+      );
+
+      expect(result).toMatchObject({ success: false, statusCode: 429, error: 'slow down' });
+      expect(result.pruned).toBeUndefined();
+      expect(deleted).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Unit tests for the report export service
+ * Tests column mapping, CSV escaping, request validation and XLSX packaging
+ */
+
+import {
+  EXPORT_COLUMNS,
+  EXPORT_PAGE_SIZE,
+  createReportExport,
+  escapeCsvValue,
+  extractMpesaReceiptNumber,
+  parseExportRequest,
+  toCsvLine,
+  toExportRows,
+  ReportExportError
+} from '../report-export';
+import { buildXlsxWorkbook, columnName, crc32 } from '../xlsx-writer';
+
+/**
+ * Minimal stand-in for the Supabase query builder: every chained call returns
+ * the builder, `range` resolves with the requested slice of rows.
+ */
+function createMockSupabase(tables: Record<string, any[]>) {
+  return {
+    from(table: string) {
+      const builder: any = {
+        select: () => builder,
+        eq: () => builder,
+        in: () => Promise.resolve({ data: [], error: null }),
+        gte: () => builder,
+        lt: () => builder,
+        order: () => builder,
+        single: () => Promise.resolve({ data: tables[table]?.[0] ?? null, error: null }),
+        range: (from: number, to: number) => Promise.resolve({ data: (tables[table] || []).slice(from, to + 1), error: null })
+      };
+      return builder;
+    }
+  } as any;
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder('utf-8', { ignoreBOM: true });
+  let text = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+  }
+  return text;
+}
+
+const bar = {
+  id: 'bar-1',
+  business_hours_mode: '24hours',
+  business_hours_simple: null,
+  business_hours_advanced: null,
+  business_24_hours: true
+};
+
+describe('Report Export Service', () => {
+  describe('escapeCsvValue', () => {
+    test('should quote values containing commas, quotes or newlines', () => {
+      expect(escapeCsvValue('Tusker, cold')).toBe('"Tusker, cold"');
+      expect(escapeCsvValue('Say "cheers"')).toBe('"Say ""cheers"""');
+      expect(escapeCsvValue('line\nbreak')).toBe('"line\nbreak"');
+    });
+
+    test('should neutralise formula injection', () => {
+      expect(escapeCsvValue('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+    });
+
+    test('should leave numbers and empty values untouched', () => {
+      expect(toCsvLine([1250.5, null, 'ok'])).toBe('1250.5,,ok\r\n');
+    });
+  });
+
+  describe('extractMpesaReceiptNumber', () => {
+    test('should read the receipt from a stored Daraja callback', () => {
+      const metadata = {
+        Body: {
+          stkCallback: {
+            CallbackMetadata: {
+              Item: [
+                { Name: 'Amount', Value: 100 },
+                { Name: 'MpesaReceiptNumber', Value: 'NLJ7RT61SV' }
+              ]
+            }
+          }
+        }
+      };
+      expect(extractMpesaReceiptNumber(metadata)).toBe('NLJ7RT61SV');
+    });
+
+    test('should fall back to the flat field and handle missing metadata', () => {
+      expect(extractMpesaReceiptNumber({ mpesa_receipt_number: 'QKL1234ABC' })).toBe('QKL1234ABC');
+      expect(extractMpesaReceiptNumber(null)).toBe('');
+    });
+  });
+
+  describe('toExportRows', () => {
+    test('should map payment rows to KES amounts, receipts and Kenya time', () => {
+      const [row] = toExportRows('tab_payments', [{
+        id: 'p1',
+        method: 'card',
+        status: 'success',
+        amount: '1500.50',
+        tip_amount: '150.00',
+        reference: 'ws_CO_1',
+        metadata: { mpesa_receipt_number: 'R1' },
+        created_at: '2024-06-14T18:00:00.000Z',
+        updated_at: null,
+        tabs: { tab_number: 7 }
+      }]);
+
+      expect(row).toEqual(['p1', 7, 'Card', 'success', 1500.5, 'R1', 'ws_CO_1', '2024-06-14 21:00:00', '', 150, 0]);
+    });
+
+    test('should keep one value per column for every entity', () => {
+      Object.entries(EXPORT_COLUMNS).forEach(([entity, columns]) => {
+        const [row] = toExportRows(entity as any, [{}]);
+        expect(row).toHaveLength(columns.length);
+      });
+    });
+
+    test('should keep column headers stable', () => {
+      expect(EXPORT_COLUMNS.write_offs.map(column => column.header)).toEqual([
+        'Write-off ID', 'Tab Number', 'Amount (KES)', 'Reason', 'Created At (EAT)'
+      ]);
+    });
+  });
+
+  describe('parseExportRequest', () => {
+    test('should default to CSV and a single day', () => {
+      expect(parseExportRequest({ barId: 'bar-1', entity: 'tabs', from: '2024-06-14' })).toEqual({
+        barId: 'bar-1', entity: 'tabs', from: '2024-06-14', to: '2024-06-14', format: 'csv'
+      });
+    });
+
+    test('should reject unknown entities, formats and reversed ranges', () => {
+      expect(() => parseExportRequest({ barId: 'bar-1', entity: 'bars', from: '2024-06-14' })).toThrow(ReportExportError);
+      expect(() => parseExportRequest({ barId: 'bar-1', entity: 'tabs', from: '2024-06-14', format: 'pdf' })).toThrow(ReportExportError);
+      expect(() => parseExportRequest({ barId: 'bar-1', entity: 'tabs', from: '2024-06-15', to: '2024-06-14' })).toThrow(ReportExportError);
+      expect(() => parseExportRequest({ entity: 'tabs', from: '2024-06-14' })).toThrow('Bar ID is required');
+    });
+  });
+
+  describe('createReportExport', () => {
+    test('should stream CSV across pages with a single header row', async () => {
+      const writeOffs = Array.from({ length: EXPORT_PAGE_SIZE + 2 }, (_, i) => ({
+        id: `w${i}`,
+        amount: 100,
+        reason: 'Written off on close',
+        created_at: '2024-06-14T18:00:00.000Z',
+        tabs: { tab_number: i + 1 }
+      }));
+      const supabase = createMockSupabase({ bars: [bar], tab_write_offs: writeOffs });
+
+      const file = await createReportExport(supabase, {
+        barId: 'bar-1', entity: 'write_offs', from: '2024-06-14', to: '2024-06-14', format: 'csv'
+      });
+      const lines = (await readStream(file.body as ReadableStream<Uint8Array>)).trimEnd().split('\r\n');
+
+      expect(file.filename).toBe('tabeza-write-offs-2024-06-14.csv');
+      expect(lines[0]).toBe('\uFEFFWrite-off ID,Tab Number,Amount (KES),Reason,Created At (EAT)');
+      expect(lines).toHaveLength(writeOffs.length + 1);
+      expect(lines[lines.length - 1]).toBe(`w${EXPORT_PAGE_SIZE + 1},${EXPORT_PAGE_SIZE + 2},100,Written off on close,2024-06-14 21:00:00`);
+    });
+
+    test('should return 404 when the bar does not exist', async () => {
+      await expect(createReportExport(createMockSupabase({}), {
+        barId: 'missing', entity: 'tabs', from: '2024-06-14', to: '2024-06-14', format: 'xlsx'
+      })).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('XLSX writer', () => {
+    test('should compute standard CRC-32 checksums', () => {
+      expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    });
+
+    test('should name columns beyond Z', () => {
+      expect(columnName(0)).toBe('A');
+      expect(columnName(25)).toBe('Z');
+      expect(columnName(27)).toBe('AB');
+    });
+
+    test('should produce a ZIP archive containing the worksheet', () => {
+      const workbook = buildXlsxWorkbook('Payments', ['Amount (KES)', 'Note'], [[1500.5, 'Tusker & <chips>']]);
+      const text = new TextDecoder().decode(workbook);
+
+      expect(Array.from(workbook.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+      expect(text).toContain('xl/worksheets/sheet1.xml');
+      expect(text).toContain('<c r="A2"><v>1500.5</v></c>');
+      expect(text).toContain('Tusker &amp; &lt;chips&gt;');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Unit tests for staff invites
+ * Tests creating and accepting invitation links, expiry and revocation,
+ * role changes and removing staff without leaving a bar ownerless
+ */
+
+import {
+  acceptStaffInvite,
+  createStaffInvite,
+  hashInviteToken,
+  listStaffInvites,
+  removeStaffMember,
+  revokeStaffInvite,
+  updateStaffRole
+} from '../staff-invites';
+
+// Minimal query builder over plain arrays: enough for invites and memberships
+function createSupabase(tables: Record<string, any[]>, users: Record<string, any> = {}) {
+  let nextId = 1;
+
+  function query(table: string) {
+    const filters: Array<(row: any) => boolean> = [];
+    let operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+    let values: any = null;
+
+    const execute = (single: boolean) => {
+      const rows = tables[table] = tables[table] || [];
+      if (operation === 'insert') {
+        if (table === 'staff_invites' && rows.some(row =>
+          row.bar_id === values.bar_id && row.email === values.email && !row.accepted_at && !row.revoked_at)) {
+          return { data: null, error: { code: '23505', message: 'duplicate key value' } };
+        }
+        const inserted = { id: `${table}-${nextId++}`, created_at: '2026-10-19T08:00:00.000Z', accepted_at: null, revoked_at: null, ...values };
+        rows.push(inserted);
+        return { data: inserted, error: null };
+      }
+      const matched = rows.filter(row => filters.every(filter => filter(row)));
+      if (operation === 'update') {
+        matched.forEach(row => Object.assign(row, values));
+      }
+      if (operation === 'delete') {
+        tables[table] = rows.filter(row => !matched.includes(row));
+      }
+      return single ? { data: matched[0] ?? null, error: null } : { data: matched, error: null };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      insert: (row: any) => { operation = 'insert'; values = row; return builder; },
+      update: (row: any) => { operation = 'update'; values = row; return builder; },
+      delete: () => { operation = 'delete'; return builder; },
+      eq: (column: string, value: any) => { filters.push(row => row[column] === value); return builder; },
+      is: (column: string, value: any) => { filters.push(row => (row[column] ?? null) === value); return builder; },
+      lt: (column: string, value: any) => { filters.push(row => row[column] < value); return builder; },
+      order: () => builder,
+      single: () => Promise.resolve(execute(true)),
+      maybeSingle: () => Promise.resolve(execute(true)),
+      then: (resolve: any, reject: any) => Promise.resolve(execute(false)).then(resolve, reject)
+    };
+    return builder;
+  }
+
+  const admin = {
+    getUserById: async (id: string) => ({ data: { user: users[id] ?? null }, error: null }),
+    updateUserById: async (id: string, changes: any) => {
+      users[id] = { ...users[id], ...changes };
+      return { data: { user: users[id] }, error: null };
+    }
+  };
+
+  return { from: query, auth: { admin } } as any;
+}
+
+function createTables() {
+  return {
+    user_bars: [
+      { user_id: 'owner-1', bar_id: 'bar-1', role: 'owner', created_at: '2026-01-01T00:00:00.000Z' }
+    ] as any[],
+    staff_invites: [] as any[]
+  };
+}
+
+const now = new Date('2026-10-19T08:00:00.000Z');
+
+describe('Staff Invites Service', () => {
+  describe('createStaffInvite', () => {
+    test('should store only a hash of the link token', async () => {
+      const tables = createTables();
+      const { invite, token } = await createStaffInvite(createSupabase(tables), {
+        barId: 'bar-1', email: ' Akinyi@Example.com ', role: 'cashier', invitedBy: 'owner-1'
+      }, now);
+
+      expect(invite).toMatchObject({ email: 'akinyi@example.com', role: 'cashier', expires_at: '2026-10-26T08:00:00.000Z' });
+      expect(tables.staff_invites[0].token_hash).toBe(hashInviteToken(token));
+      expect(JSON.stringify(tables.staff_invites)).not.toContain(token);
+    });
+
+    test('should allow one pending invite per email, replacing expired ones', async () => {
+      const tables = createTables();
+      const supabase = createSupabase(tables);
+      const input = { barId: 'bar-1', email: 'akinyi@example.com', role: 'waiter', invitedBy: 'owner-1' };
+
+      await createStaffInvite(supabase, input, now);
+      await expect(createStaffInvite(supabase, input, now)).rejects.toMatchObject({ statusCode: 409 });
+
+      await createStaffInvite(supabase, input, new Date('2026-11-01T00:00:00.000Z'));
+      expect(tables.staff_invites.filter(invite => !invite.revoked_at)).toHaveLength(1);
+    });
+
+    test('should reject bad emails and roles', async () => {
+      const supabase = createSupabase(createTables());
+
+      await expect(createStaffInvite(supabase, { barId: 'bar-1', email: 'nope', role: 'waiter', invitedBy: 'owner-1' }))
+        .rejects.toThrow('Enter a valid email address');
+      await expect(createStaffInvite(supabase, { barId: 'bar-1', email: 'a@b.co', role: 'bouncer', invitedBy: 'owner-1' }))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('acceptStaffInvite', () => {
+    test('should add the membership and point a new login at the bar', async () => {
+      const tables = createTables();
+      const users: Record<string, any> = { 'user-2': { id: 'user-2', email: 'akinyi@example.com', user_metadata: {} } };
+      const supabase = createSupabase(tables, users);
+      const { token } = await createStaffInvite(supabase, {
+        barId: 'bar-1', email: 'akinyi@example.com', role: 'bartender', invitedBy: 'owner-1'
+      });
+
+      await expect(acceptStaffInvite(supabase, token, users['user-2'])).resolves.toEqual({ barId: 'bar-1', role: 'bartender' });
+      expect(tables.user_bars).toContainEqual(expect.objectContaining({ user_id: 'user-2', role: 'bartender', invited_by: 'owner-1' }));
+      expect(users['user-2'].user_metadata.bar_id).toBe('bar-1');
+      await expect(acceptStaffInvite(supabase, token, users['user-2'])).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    test('should require the invited email', async () => {
+      const supabase = createSupabase(createTables());
+      const { token } = await createStaffInvite(supabase, {
+        barId: 'bar-1', email: 'akinyi@example.com', role: 'waiter', invitedBy: 'owner-1'
+      });
+
+      await expect(acceptStaffInvite(supabase, token, { id: 'user-3', email: 'other@example.com' }))
+        .rejects.toThrow('This invitation is for akinyi@example.com');
+    });
+
+    test('should refuse revoked links', async () => {
+      const tables = createTables();
+      const supabase = createSupabase(tables);
+      const { invite, token } = await createStaffInvite(supabase, {
+        barId: 'bar-1', email: 'akinyi@example.com', role: 'waiter', invitedBy: 'owner-1'
+      });
+
+      await revokeStaffInvite(supabase, 'bar-1', invite.id);
+
+      expect(await listStaffInvites(supabase, 'bar-1')).toEqual([]);
+      await expect(acceptStaffInvite(supabase, token, { id: 'user-2', email: 'akinyi@example.com' }))
+        .rejects.toMatchObject({ statusCode: 410 });
+    });
+  });
+
+  describe('members', () => {
+    test('should keep at least one owner', async () => {
+      const supabase = createSupabase(createTables());
+
+      await expect(updateStaffRole(supabase, 'bar-1', 'owner-1', 'manager')).rejects.toThrow('A bar needs at least one owner');
+    });
+
+    test('should revoke access and clear the login bar', async () => {
+      const tables = createTables();
+      tables.user_bars.push({ user_id: 'waiter-1', bar_id: 'bar-1', role: 'waiter' });
+      const users: Record<string, any> = { 'waiter-1': { id: 'waiter-1', user_metadata: { bar_id: 'bar-1' } } };
+      const supabase = createSupabase(tables, users);
+
+      await removeStaffMember(supabase, 'bar-1', 'waiter-1', 'owner-1');
+
+      expect(tables.user_bars.map(row => row.user_id)).toEqual(['owner-1']);
+      expect(users['waiter-1'].user_metadata.bar_id).toBeNull();
+      await expect(removeStaffMember(supabase, 'bar-1', 'owner-1', 'owner-1')).rejects.toThrow('You cannot remove yourself');
+    });
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Unit tests for staff push notifications
+ * Tests who is pushed which event, the notification built from the bar's
+ * alert settings, signed notification actions and the outbox dispatcher
+ */
+
+import { createECDH } from 'crypto';
+import {
+  buildStaffPushNotification,
+  createStaffPushActionToken,
+  normalizeStaffPushPreferences,
+  performStaffPushAction,
+  shouldPushToStaff,
+  StaffPushDispatcher,
+  StaffPushError,
+  verifyStaffPushActionToken
+} from '../staff-push';
+
+const NOW = new Date('2024-06-14T20:00:00.000Z');
+
+function createVapidKeys() {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: ecdh.getPublicKey().toString('base64url'),
+    privateKey: ecdh.getPrivateKey().toString('base64url'),
+    subject: 'mailto:ops@tabeza.co.ke'
+  };
+}
+
+function createSubscription(userId: string, endpoint: string) {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    user_id: userId,
+    endpoint,
+    p256dh: ecdh.getPublicKey().toString('base64'),
+    auth: Buffer.alloc(16, 3).toString('base64')
+  };
+}
+
+const pushResponse = (status: number) => ({
+  status,
+  ok: status >= 200 && status < 300,
+  text: async () => '',
+  headers: { get: () => null }
+});
+
+/**
+ * Table-backed stand-in for the query builder: reads filter rows by `eq`,
+ * writes are recorded per table
+ */
+function createSupabase(tables: Record<string, any[]>) {
+  const writes: Array<{ table: string; op: string; values?: any; filters: Record<string, any> }> = [];
+  const rpc = jest.fn().mockResolvedValue({ data: true, error: null });
+
+  const supabase = {
+    rpc,
+    from: (table: string) => {
+      const state: { op: string; values?: any; filters: Record<string, any> } = { op: 'select', filters: {} };
+      const resolve = () => {
+        if (state.op !== 'select') {
+          writes.push({ table, ...state });
+          return { data: null, error: null };
+        }
+        const rows = (tables[table] || []).filter(row =>
+          Object.entries(state.filters).every(([column, value]) =>
+            Array.isArray(value) ? value.includes(row[column]) : row[column] === value
+          )
+        );
+        return { data: rows, error: null };
+      };
+
+      const builder: any = {
+        select: () => builder,
+        update: (values: any) => { state.op = 'update'; state.values = values; return builder; },
+        delete: () => { state.op = 'delete'; return builder; },
+        eq: (column: string, value: any) => { state.filters[column] = value; return builder; },
+        in: (column: string, values: any[]) => { state.filters[column] = values; return builder; },
+        is: (column: string, value: any) => { state.filters[column] = value ?? undefined; return builder; },
+        order: () => builder,
+        limit: () => builder,
+        maybeSingle: async () => {
+          const { data, error } = resolve();
+          return { data: data ? data[0] ?? null : null, error };
+        },
+        then: (onFulfilled: any, onRejected: any) => Promise.resolve(resolve()).then(onFulfilled, onRejected)
+      };
+      return builder;
+    }
+  } as any;
+
+  return { supabase, writes, rpc };
+}
+
+describe('Staff Push Service', () => {
+  const originalSecret = process.env.STAFF_PUSH_ACTION_SECRET;
+
+  beforeEach(() => {
+    process.env.STAFF_PUSH_ACTION_SECRET = 'test-action-secret';
+  });
+
+  afterAll(() => {
+    process.env.STAFF_PUSH_ACTION_SECRET = originalSecret;
+  });
+
+  describe('shouldPushToStaff', () => {
+    test('should follow both the role and the staff member\'s preferences', () => {
+      const all = normalizeStaffPushPreferences(null);
+      const noPayments = normalizeStaffPushPreferences({ payments: false, orders: 'yes' });
+
+      expect(noPayments).toEqual({ orders: true, messages: true, payments: false });
+      expect(shouldPushToStaff('order.new', 'bartender', all)).toBe(true);
+      expect(shouldPushToStaff('payment.received', 'bartender', all)).toBe(false);
+      expect(shouldPushToStaff('order.new', 'cashier', all)).toBe(false);
+      expect(shouldPushToStaff('payment.received', 'cashier', all)).toBe(true);
+      expect(shouldPushToStaff('payment.received', 'manager', noPayments)).toBe(false);
+    });
+  });
+
+  describe('buildStaffPushNotification', () => {
+    const order = {
+      bar_id: 'bar-1',
+      event_type: 'order.new' as const,
+      payload: {
+        order_id: 'order-1',
+        tab_id: 'tab-1',
+        tab_number: 12,
+        tab_notes: JSON.stringify({ display_name: 'Wanjiku' }),
+        total: 1450,
+        item_count: 3
+      }
+    };
+
+    test('should describe the order and offer to accept it', () => {
+      const notification = buildStaffPushNotification(order, { barName: 'Kilele Lounge', soundEnabled: true }, 'token-1');
+
+      expect(notification).toMatchObject({
+        title: 'New order · Wanjiku',
+        body: 'Kilele Lounge: 3 items · KSh 1,450',
+        tag: 'order-order-1',
+        topic: 'staff_alert'
+      });
+      expect(notification.data).toMatchObject({
+        url: '/tabs/tab-1',
+        requireInteraction: true,
+        silent: false,
+        actions: [{ action: 'confirm', title: 'Accept order' }],
+        actionToken: 'token-1'
+      });
+    });
+
+    test('should stay silent when the bar turned alert sounds off, and drop actions without a token', () => {
+      const notification = buildStaffPushNotification(
+        { ...order, payload: { ...order.payload, tab_notes: 'regular' } },
+        { barName: '', soundEnabled: false }
+      );
+
+      expect(notification.title).toBe('New order · Tab 12');
+      expect(notification.data).toMatchObject({ silent: true, vibrate: [], actions: [] });
+      expect(notification.data.actionToken).toBeUndefined();
+    });
+
+    test('should push payments as payments with no action', () => {
+      const notification = buildStaffPushNotification(
+        { bar_id: 'bar-1', event_type: 'payment.received', payload: { payment_id: 'pay-1', tab_id: 'tab-1', tab_number: 4, amount: 500, method: 'mpesa' } },
+        { barName: '', soundEnabled: true },
+        'token-1'
+      );
+
+      expect(notification).toMatchObject({ title: 'Payment received · Tab 4', body: 'KSh 500 via M-Pesa', topic: 'payment' });
+      expect(notification.data).toMatchObject({ requireInteraction: false, actions: [] });
+    });
+  });
+
+  describe('action tokens', () => {
+    const claims = { userId: 'user-1', barId: 'bar-1', action: 'acknowledge' as const, targetId: 'message-1' };
+
+    test('should round-trip and reject tampering or expiry', () => {
+      const token = createStaffPushActionToken(claims, NOW)!;
+
+      expect(verifyStaffPushActionToken(token, NOW)).toEqual(claims);
+
+      const [payload, signature] = token.split('.');
+      const forged = Buffer.from(JSON.stringify({ ...claims, userId: 'user-2', exp: 9999999999 })).toString('base64url');
+      expect(() => verifyStaffPushActionToken(`${forged}.${signature}`, NOW)).toThrow('Invalid notification action');
+      expect(() => verifyStaffPushActionToken(`${payload}.${signature}`, new Date(NOW.getTime() + 13 * 60 * 60 * 1000)))
+        .toThrow(expect.objectContaining({ statusCode: 410 }));
+    });
+
+    test('should not sign actions without a secret', () => {
+      delete process.env.STAFF_PUSH_ACTION_SECRET;
+
+      expect(createStaffPushActionToken(claims, NOW)).toBeNull();
+      expect(() => verifyStaffPushActionToken('a.b', NOW)).toThrow(StaffPushError);
+    });
+
+    test('should acknowledge only messages at the bar the token was signed for', async () => {
+      const { supabase, rpc } = createSupabase({
+        user_bars: [{ user_id: 'user-1', bar_id: 'bar-1', role: 'waiter' }],
+        tab_telegram_messages: [
+          { id: 'message-1', tab: { bar_id: 'bar-1' } },
+          { id: 'message-2', tab: { bar_id: 'bar-2' } }
+        ]
+      });
+
+      await performStaffPushAction(supabase, createStaffPushActionToken(claims, NOW)!, NOW);
+      expect(rpc).toHaveBeenCalledWith('acknowledge_telegram_message', { p_message_id: 'message-1', p_staff_id: 'user-1' });
+
+      const otherBar = createStaffPushActionToken({ ...claims, targetId: 'message-2' }, NOW)!;
+      await expect(performStaffPushAction(supabase, otherBar, NOW)).rejects.toMatchObject({ statusCode: 404 });
+      expect(rpc).toHaveBeenCalledTimes(1);
+    });
+
+    test('should refuse staff whose role no longer takes orders', async () => {
+      const { supabase, rpc } = createSupabase({
+        user_bars: [{ user_id: 'user-1', bar_id: 'bar-1', role: 'cashier' }]
+      });
+
+      await expect(performStaffPushAction(supabase, createStaffPushActionToken(claims, NOW)!, NOW))
+        .rejects.toMatchObject({ name: 'StaffAccessError', statusCode: 403 });
+      expect(rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('StaffPushDispatcher', () => {
+    test('should push each event to eligible staff and prune gone or removed devices', async () => {
+      const bartender = createSubscription('user-bartender', 'https://push.example.com/bartender');
+      const cashier = createSubscription('user-cashier', 'https://push.example.com/cashier');
+      const expired = createSubscription('user-manager', 'https://push.example.com/expired');
+      const leaver = createSubscription('user-leaver', 'https://push.example.com/leaver');
+
+      const { supabase, writes } = createSupabase({
+        staff_push_events: [
+          {
+            id: 'event-1',
+            bar_id: 'bar-1',
+            event_type: 'order.new',
+            payload: { order_id: 'order-1', tab_id: 'tab-1', tab_number: 3, total: 800, item_count: 2 },
+            created_at: new Date(NOW.getTime() - 30 * 1000).toISOString()
+          },
+          {
+            id: 'event-2',
+            bar_id: 'bar-1',
+            event_type: 'order.new',
+            payload: { order_id: 'order-0', tab_id: 'tab-1', tab_number: 3, total: 300, item_count: 1 },
+            created_at: new Date(NOW.getTime() - 60 * 60 * 1000).toISOString()
+          }
+        ],
+        staff_push_subscriptions: [
+          { bar_id: 'bar-1', ...bartender },
+          { bar_id: 'bar-1', ...cashier },
+          { bar_id: 'bar-1', ...expired },
+          { bar_id: 'bar-1', ...leaver }
+        ],
+        user_bars: [
+          { bar_id: 'bar-1', user_id: 'user-bartender', role: 'bartender', push_preferences: null },
+          { bar_id: 'bar-1', user_id: 'user-cashier', role: 'cashier', push_preferences: null },
+          { bar_id: 'bar-1', user_id: 'user-manager', role: 'manager', push_preferences: { orders: true } }
+        ],
+        bars: [{ id: 'bar-1', name: 'Kilele Lounge', alert_sound_enabled: true }]
+      });
+
+      const fetchMock = jest.fn(async (url: string, _init?: any) => pushResponse(url === expired.endpoint ? 410 : 201));
+      const dispatcher = new StaffPushDispatcher(supabase, {
+        vapid: createVapidKeys(),
+        fetch: fetchMock as any,
+        now: () => NOW
+      });
+
+      const result = await dispatcher.run();
+
+      expect(result).toEqual({ eventsDispatched: 2, sent: 1, failed: 1, pruned: 2, skipped: 1 });
+      expect(fetchMock.mock.calls.map(([url]) => url).sort()).toEqual([bartender.endpoint, expired.endpoint].sort());
+      expect(fetchMock.mock.calls[0][1]?.headers).toMatchObject({ TTL: '600', Urgency: 'high' });
+
+      const dispatched = writes.filter(write => write.table === 'staff_push_events' && write.op === 'update');
+      expect(dispatched.map(write => write.filters.id)).toEqual(['event-1', 'event-2']);
+
+      const pruned = writes.find(write => write.table === 'staff_push_subscriptions' && write.op === 'delete');
+      expect(pruned?.filters.endpoint.sort()).toEqual([expired.endpoint, leaver.endpoint].sort());
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for staff roles
+ * Tests the role permission matrix, legacy roles and checking a signed-in
+ * staff member's access to a bar
+ */
+
+import {
+  hasStaffPermission,
+  normalizeStaffRole,
+  requireStaffPermission,
+  ROLE_PERMISSIONS,
+  StaffAccessError
+} from '../staff-roles';
+
+// Minimal client: bearer tokens map to users, user_bars is a plain array
+function createSupabase(memberships: Array<{ user_id: string; bar_id: string; role: string | null }>) {
+  return {
+    auth: {
+      getUser: async (token: string) => token === 'expired'
+        ? { data: { user: null }, error: { message: 'jwt expired' } }
+        : { data: { user: { id: token } }, error: null }
+    },
+    from: () => {
+      const filters: Record<string, string> = {};
+      const builder: any = {
+        select: () => builder,
+        eq: (column: string, value: string) => { filters[column] = value; return builder; },
+        maybeSingle: async () => ({
+          data: memberships.find(row => row.user_id === filters.user_id && row.bar_id === filters.bar_id) ?? null,
+          error: null
+        })
+      };
+      return builder;
+    }
+  } as any;
+}
+
+const bearer = (token: string) => new Headers({ Authorization: `Bearer ${token}` });
+
+describe('Staff Roles Service', () => {
+  describe('permissions', () => {
+    test('should give owners everything and keep staff management to them', () => {
+      expect(hasStaffPermission('owner', 'staff.manage')).toBe(true);
+      expect(hasStaffPermission('manager', 'staff.manage')).toBe(false);
+      expect(hasStaffPermission('manager', 'tabs.write_off')).toBe(true);
+    });
+
+    test('should keep floor roles away from money settings and write-offs', () => {
+      for (const role of ['waiter', 'bartender', 'cashier'] as const) {
+        expect(ROLE_PERMISSIONS[role]).not.toContain('settings.payments');
+        expect(ROLE_PERMISSIONS[role]).not.toContain('tabs.write_off');
+        expect(ROLE_PERMISSIONS[role]).not.toContain('menu.edit');
+      }
+      expect(hasStaffPermission('bartender', 'tabs.close')).toBe(false);
+      expect(hasStaffPermission('cashier', 'payments.take')).toBe(true);
+      expect(hasStaffPermission('cashier', 'payments.close_drawers')).toBe(false);
+      expect(hasStaffPermission('manager', 'payments.close_drawers')).toBe(true);
+    });
+
+    test('should read memberships from before roles were split', () => {
+      expect(normalizeStaffRole('staff')).toBe('waiter');
+      expect(normalizeStaffRole('cashier')).toBe('cashier');
+    });
+
+    test('should give a missing or unknown role the least privileges', () => {
+      expect(normalizeStaffRole(null)).toBe('bartender');
+      expect(normalizeStaffRole('admin')).toBe('bartender');
+      expect(hasStaffPermission(null, 'staff.manage')).toBe(false);
+      expect(hasStaffPermission(undefined, 'payments.take')).toBe(false);
+    });
+  });
+
+  describe('requireStaffPermission', () => {
+    const supabase = createSupabase([
+      { user_id: 'owner-1', bar_id: 'bar-1', role: 'owner' },
+      { user_id: 'waiter-1', bar_id: 'bar-1', role: 'waiter' },
+      { user_id: 'legacy-1', bar_id: 'bar-1', role: null }
+    ]);
+
+    test('should return the membership when the role allows it', async () => {
+      await expect(requireStaffPermission(supabase, bearer('owner-1'), 'bar-1', 'settings.payments'))
+        .resolves.toEqual({ userId: 'owner-1', barId: 'bar-1', role: 'owner' });
+      await expect(requireStaffPermission(supabase, bearer('waiter-1'), 'bar-1'))
+        .resolves.toMatchObject({ role: 'waiter' });
+    });
+
+    test('should explain what the role cannot do', async () => {
+      await expect(requireStaffPermission(supabase, bearer('waiter-1'), 'bar-1', 'menu.edit'))
+        .rejects.toThrow('Waiters cannot edit the menu and prices');
+      await expect(requireStaffPermission(supabase, bearer('legacy-1'), 'bar-1', 'staff.manage'))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    test('should refuse other bars, customers and expired sessions', async () => {
+      await expect(requireStaffPermission(supabase, bearer('owner-1'), 'bar-2'))
+        .rejects.toMatchObject({ statusCode: 403 });
+      await expect(requireStaffPermission(supabase, new Headers({ 'X-Device-Id': 'device-1' }), 'bar-1'))
+        .rejects.toEqual(expect.any(StaffAccessError));
+      await expect(requireStaffPermission(supabase, bearer('expired'), 'bar-1'))
+        .rejects.toMatchObject({ statusCode: 401 });
+    });
+  });
+});
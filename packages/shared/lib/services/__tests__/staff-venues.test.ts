@@ -0,0 +1,142 @@
+/**
+ * Unit tests for staff venues
+ * Tests switching the session's bar and the per-venue dashboard totals
+ */
+
+import { buildVenueSummary, listStaffVenues, switchStaffVenue } from '../staff-venues';
+import { StaffAccessError } from '../staff-roles';
+import type { BarBusinessHours } from '../daily-report';
+
+const overnightHours: BarBusinessHours = {
+  business_hours_mode: 'simple',
+  business_hours_simple: { openTime: '18:00', closeTime: '04:00', closeNextDay: true },
+  business_hours_advanced: null,
+  business_24_hours: false
+};
+
+// Minimal client: user_bars is a plain array, metadata updates are recorded
+function createSupabase(memberships: Array<{ user_id: string; bar_id: string; role: string | null; bars?: any }>) {
+  const updates: Array<{ id: string; attributes: any }> = [];
+
+  const supabase = {
+    auth: {
+      admin: {
+        updateUserById: async (id: string, attributes: any) => {
+          updates.push({ id, attributes });
+          return { data: { user: { id } }, error: null };
+        }
+      }
+    },
+    from: () => {
+      const filters: Record<string, string> = {};
+      const rows = () => memberships.filter(row =>
+        Object.entries(filters).every(([column, value]) => (row as any)[column] === value)
+      );
+      const builder: any = {
+        select: () => builder,
+        eq: (column: string, value: string) => { filters[column] = value; return builder; },
+        maybeSingle: async () => ({ data: rows()[0] ?? null, error: null }),
+        then: (resolve: any) => resolve({ data: rows(), error: null })
+      };
+      return builder;
+    }
+  } as any;
+
+  return { supabase, updates };
+}
+
+describe('Staff Venues Service', () => {
+  describe('listStaffVenues', () => {
+    test('should list every membership by bar name with normalized roles', async () => {
+      const { supabase } = createSupabase([
+        { user_id: 'u1', bar_id: 'bar-b', role: 'staff', bars: { id: 'bar-b', name: 'Westlands' } },
+        { user_id: 'u1', bar_id: 'bar-a', role: 'owner', bars: { id: 'bar-a', name: 'Karen' } },
+        { user_id: 'u2', bar_id: 'bar-c', role: 'owner', bars: { id: 'bar-c', name: 'Kilimani' } }
+      ]);
+
+      const venues = await listStaffVenues(supabase, 'u1');
+
+      expect(venues).toEqual([
+        { barId: 'bar-a', name: 'Karen', role: 'owner' },
+        { barId: 'bar-b', name: 'Westlands', role: 'waiter' }
+      ]);
+    });
+  });
+
+  describe('switchStaffVenue', () => {
+    test('should move the session to a bar the user belongs to and keep other metadata', async () => {
+      const { supabase, updates } = createSupabase([{ user_id: 'u1', bar_id: 'bar-b', role: 'manager' }]);
+
+      const membership = await switchStaffVenue(
+        supabase,
+        { id: 'u1', user_metadata: { bar_id: 'bar-a', full_name: 'Wanjiru' } },
+        'bar-b'
+      );
+
+      expect(membership).toEqual({ userId: 'u1', barId: 'bar-b', role: 'manager' });
+      expect(updates).toEqual([{ id: 'u1', attributes: { user_metadata: { bar_id: 'bar-b', full_name: 'Wanjiru' } } }]);
+    });
+
+    test('should refuse a bar the user is not staff at', async () => {
+      const { supabase, updates } = createSupabase([{ user_id: 'u1', bar_id: 'bar-a', role: 'owner' }]);
+
+      await expect(switchStaffVenue(supabase, { id: 'u1' }, 'bar-z')).rejects.toThrow(StaffAccessError);
+      expect(updates).toHaveLength(0);
+    });
+  });
+
+  describe('buildVenueSummary', () => {
+    // 22:00 EAT on 14 June: inside the business day that opened at 18:00
+    const at = new Date('2024-06-14T19:00:00.000Z');
+
+    const input = {
+      tabs: [
+        { bar_id: 'bar-a', status: 'open' },
+        { bar_id: 'bar-a', status: 'open' },
+        { bar_id: 'bar-b', status: 'open' }
+      ],
+      balances: [
+        { bar_id: 'bar-a', status: 'overdue', balance: '1500.00' },
+        { bar_id: 'bar-a', status: 'overdue', balance: -200 },
+        { bar_id: 'bar-b', status: 'overdue', balance: 900 }
+      ],
+      payments: [
+        { amount: '1000', created_at: '2024-06-14T16:00:00.000Z', tabs: { bar_id: 'bar-a' } },
+        { amount: 500, created_at: '2024-06-14T18:30:00.000Z', tabs: { bar_id: 'bar-a' } },
+        // Previous business day, before 18:00 EAT
+        { amount: 700, created_at: '2024-06-14T14:00:00.000Z', tabs: { bar_id: 'bar-a' } },
+        { amount: 300, created_at: '2024-06-14T17:00:00.000Z', tabs: { bar_id: 'bar-b' } }
+      ],
+      at
+    };
+
+    test('should count open tabs, overdue totals and revenue for the current business day', () => {
+      const summary = buildVenueSummary({
+        ...input,
+        venue: { barId: 'bar-a', name: 'Karen', role: 'owner', hours: overnightHours }
+      });
+
+      expect(summary).toEqual({
+        barId: 'bar-a',
+        name: 'Karen',
+        role: 'owner',
+        businessDate: '2024-06-14',
+        openTabs: 2,
+        overdueTabs: 2,
+        overdueBalance: 1500,
+        todayRevenue: 1500
+      });
+    });
+
+    test('should hide revenue from roles that cannot view reports', () => {
+      const summary = buildVenueSummary({
+        ...input,
+        venue: { barId: 'bar-b', name: 'Westlands', role: 'bartender', hours: overnightHours }
+      });
+
+      expect(summary.openTabs).toBe(1);
+      expect(summary.overdueBalance).toBe(900);
+      expect(summary.todayRevenue).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Unit tests for tab deposits and credit limits
+ * Tests the credit summary, order checks against the limit, changing a tab's
+ * limit and settling a deposit once the tab closes
+ */
+
+import {
+  checkTabOrder,
+  getUnusedDeposit,
+  prepareDepositPayment,
+  setTabCreditLimit,
+  settleClosedTabDeposit,
+  settleTabDeposit,
+  summarizeTabCredit,
+  TabCreditError,
+  type TabCreditInput
+} from '../tab-credit';
+
+// Minimal query builder over plain arrays: enough for credit loading and settlement
+function createSupabase(tables: Record<string, any[]>) {
+  let nextId = 1;
+
+  function query(table: string) {
+    const filters: Array<(row: any) => boolean> = [];
+    let operation: 'select' | 'insert' | 'update' = 'select';
+    let values: any = null;
+
+    const execute = (single: boolean) => {
+      const rows = tables[table] = tables[table] || [];
+      if (operation === 'insert') {
+        const inserted = { id: `${table}-${nextId++}`, ...values };
+        rows.push(inserted);
+        return { data: inserted, error: null };
+      }
+      const matched = rows.filter(row => filters.every(filter => filter(row)));
+      if (operation === 'update') {
+        matched.forEach(row => Object.assign(row, values));
+      }
+      return single ? { data: matched[0] ?? null, error: null } : { data: matched, error: null };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      insert: (row: any) => { operation = 'insert'; values = row; return builder; },
+      update: (row: any) => { operation = 'update'; values = row; return builder; },
+      eq: (column: string, value: any) => { filters.push(row => row[column] === value); return builder; },
+      is: (column: string, value: any) => { filters.push(row => (row[column] ?? null) === value); return builder; },
+      single: () => Promise.resolve(execute(true)),
+      maybeSingle: () => Promise.resolve(execute(true)),
+      then: (resolve: any, reject: any) => Promise.resolve(execute(false)).then(resolve, reject)
+    };
+    return builder;
+  }
+
+  return { from: query } as any;
+}
+
+const stkMetadata = (receipt: string) => ({
+  Body: {
+    stkCallback: {
+      ResultCode: 0,
+      CallbackMetadata: { Item: [{ Name: 'MpesaReceiptNumber', Value: receipt }] }
+    }
+  }
+});
+
+const input: TabCreditInput = {
+  tab: { id: 'tab-1', status: 'open', credit_limit: '3000.00' },
+  bar: { deposit_required: true, deposit_amount: 1000 },
+  orders: [
+    { total: 800, status: 'served' },
+    { total: '450.50', status: 'pending' },
+    { total: 600, status: 'cancelled' }
+  ],
+  payments: [
+    { amount: 1000, status: 'success', is_deposit: true },
+    { amount: 200, status: 'pending' }
+  ]
+};
+
+function createTables() {
+  return {
+    user_bars: [{ user_id: 'staff-1', bar_id: 'bar-1', role: 'staff' }],
+    tabs: [{
+      id: 'tab-1',
+      bar_id: 'bar-1',
+      status: 'closed',
+      credit_limit: null,
+      deposit_settlement: null as string | null,
+      bar: { deposit_required: true, deposit_amount: 1000 }
+    }],
+    tab_orders: [{ tab_id: 'tab-1', total: 650, status: 'served' }],
+    tab_payments: [{
+      id: 'deposit-1',
+      tab_id: 'tab-1',
+      amount: 1000,
+      tip_amount: 0,
+      service_charge_amount: 0,
+      method: 'mpesa',
+      status: 'success',
+      is_deposit: true,
+      phone_number: '254712345678',
+      refunded_payment_id: null,
+      metadata: stkMetadata('RKT1234ABC'),
+      tabs: { bar_id: 'bar-1' }
+    } as Record<string, any>],
+    mpesa_refunds: [] as any[]
+  };
+}
+
+const staff = { type: 'staff' as const, userId: 'staff-1' };
+
+describe('Tab Credit Service', () => {
+  describe('summarizeTabCredit', () => {
+    test('should count open orders against successful payments', () => {
+      expect(summarizeTabCredit(input)).toEqual({
+        tabId: 'tab-1',
+        status: 'open',
+        creditLimit: 3000,
+        depositRequired: true,
+        depositAmount: 1000,
+        depositPaid: 1000,
+        depositDue: 0,
+        committed: 1250.5,
+        paid: 1000,
+        projectedBalance: 250.5,
+        available: 2749.5,
+        depositSettlement: null
+      });
+    });
+
+    test('should report the deposit still due and no limit', () => {
+      const credit = summarizeTabCredit({ ...input, tab: { id: 'tab-1', status: 'open' }, payments: [] });
+
+      expect(credit.depositDue).toBe(1000);
+      expect(credit.creditLimit).toBeNull();
+      expect(credit.available).toBeNull();
+    });
+  });
+
+  describe('checkTabOrder', () => {
+    const credit = summarizeTabCredit(input);
+
+    test('should let orders through up to the limit', () => {
+      expect(checkTabOrder(credit, 2749.5)).toBeNull();
+      expect(checkTabOrder({ ...credit, creditLimit: null }, 50000)).toBeNull();
+    });
+
+    test('should ask for the smallest top-up that clears the limit', () => {
+      expect(checkTabOrder(credit, 3000)).toEqual({
+        reason: 'limit_exceeded',
+        topUp: 251,
+        message: expect.stringContaining('limit')
+      });
+    });
+
+    test('should ask for the deposit first', () => {
+      expect(checkTabOrder({ ...credit, depositDue: 400 }, 100)).toMatchObject({ reason: 'deposit_required', topUp: 400 });
+    });
+  });
+
+  describe('prepareDepositPayment', () => {
+    function createOpenTables() {
+      const tables = createTables();
+      tables.tabs[0].status = 'open';
+      tables.tab_orders = [];
+      tables.tab_payments = [];
+      return tables;
+    }
+
+    test('should charge what is still due on the deposit', async () => {
+      const tables = createOpenTables();
+      tables.tab_payments.push({ id: 'deposit-1', tab_id: 'tab-1', amount: 400, status: 'success', is_deposit: true });
+
+      expect(await prepareDepositPayment(createSupabase(tables), 'tab-1')).toEqual({ amountDue: 600 });
+    });
+
+    test('should refuse deposits the bar does not ask for or that are already paid', async () => {
+      const noDeposit = createOpenTables();
+      noDeposit.tabs[0].bar = { deposit_required: false, deposit_amount: 0 };
+      await expect(prepareDepositPayment(createSupabase(noDeposit), 'tab-1')).rejects.toThrow('does not take deposits');
+
+      const paid = createOpenTables();
+      paid.tab_payments.push({ id: 'deposit-1', tab_id: 'tab-1', amount: 1000, status: 'success', is_deposit: true });
+      await expect(prepareDepositPayment(createSupabase(paid), 'tab-1')).rejects.toThrow('already paid');
+
+      const inProgress = createOpenTables();
+      inProgress.tab_payments.push({ id: 'deposit-1', tab_id: 'tab-1', amount: 1000, status: 'pending', is_deposit: true });
+      await expect(prepareDepositPayment(createSupabase(inProgress), 'tab-1')).rejects.toThrow('already in progress');
+    });
+  });
+
+  describe('setTabCreditLimit', () => {
+    test('should let staff change the limit', async () => {
+      const tables = createTables();
+      const credit = await setTabCreditLimit(createSupabase(tables), 'tab-1', staff, 2500);
+
+      expect(tables.tabs[0].credit_limit).toBe(2500);
+      expect(credit.creditLimit).toBe(2500);
+    });
+
+    test('should refuse customers and non-positive limits', async () => {
+      const supabase = createSupabase(createTables());
+
+      await expect(setTabCreditLimit(supabase, 'tab-1', { type: 'customer', deviceId: 'device-1' }, 100))
+        .rejects.toMatchObject({ statusCode: 403 });
+      await expect(setTabCreditLimit(supabase, 'tab-1', staff, 0)).rejects.toThrow(TabCreditError);
+    });
+  });
+
+  describe('settleTabDeposit', () => {
+    test('should request a refund of the unused deposit', async () => {
+      const tables = createTables();
+      const result = await settleTabDeposit(createSupabase(tables), 'tab-1', staff);
+
+      expect(result.settlement).toBe('refund_requested');
+      expect(result.refundAmount).toBe(350);
+      expect(tables.mpesa_refunds).toHaveLength(1);
+      expect(tables.mpesa_refunds[0]).toMatchObject({
+        payment_id: 'deposit-1',
+        amount: 350,
+        reason: 'Unused tab deposit',
+        status: 'pending_approval',
+        requested_by: 'staff-1'
+      });
+      expect(tables.tabs[0].deposit_settlement).toBe('refund_requested');
+    });
+
+    test('should mark a used-up deposit as applied, once', async () => {
+      const tables = createTables();
+      tables.tab_orders.push({ tab_id: 'tab-1', total: 500, status: 'confirmed' });
+      tables.tab_payments.push({ id: 'cash-1', tab_id: 'tab-1', amount: 150, method: 'cash', status: 'success' });
+      const supabase = createSupabase(tables);
+
+      expect(await settleTabDeposit(supabase, 'tab-1', staff)).toEqual({ settlement: 'applied', refundAmount: 0, refunds: [] });
+      expect(tables.mpesa_refunds).toHaveLength(0);
+      await expect(settleTabDeposit(supabase, 'tab-1', staff)).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    test('should wait for the tab to close', async () => {
+      const tables = createTables();
+      tables.tabs[0].status = 'open';
+
+      await expect(settleTabDeposit(createSupabase(tables), 'tab-1', staff))
+        .rejects.toThrow('Deposits are settled once the tab is closed');
+    });
+  });
+
+  describe('settleClosedTabDeposit', () => {
+    test('should request the refund once when the close and the button race', async () => {
+      const tables = createTables();
+      const supabase = createSupabase(tables);
+
+      const results = await Promise.allSettled([
+        settleClosedTabDeposit(supabase, 'tab-1', 'staff-1'),
+        settleTabDeposit(supabase, 'tab-1', staff)
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(tables.mpesa_refunds).toHaveLength(1);
+      expect(tables.mpesa_refunds[0]).toMatchObject({ amount: 350, requested_by: 'staff-1' });
+      expect(tables.tabs[0].deposit_settlement).toBe('refund_requested');
+    });
+
+    test('should request the refund with nobody signed in when the system closed the tab', async () => {
+      const tables = createTables();
+
+      const result = await settleClosedTabDeposit(createSupabase(tables), 'tab-1', null);
+
+      expect(result).toMatchObject({ settlement: 'refund_requested', refundAmount: 350 });
+      expect(tables.mpesa_refunds[0]).toMatchObject({ amount: 350, requested_by: null });
+    });
+
+    test('should skip tabs without a deposit to settle', async () => {
+      const tables = createTables();
+      tables.tab_payments[0].is_deposit = false;
+      expect(await settleClosedTabDeposit(createSupabase(tables), 'tab-1', 'staff-1')).toBeNull();
+
+      const settled = createTables();
+      settled.tabs[0].deposit_settlement = 'applied';
+      expect(await settleClosedTabDeposit(createSupabase(settled), 'tab-1', 'staff-1')).toBeNull();
+      expect(settled.mpesa_refunds).toHaveLength(0);
+    });
+
+    test('should leave the deposit unsettled when the refund cannot be requested', async () => {
+      const tables = createTables();
+      tables.tab_payments[0].metadata = null;
+
+      await expect(settleClosedTabDeposit(createSupabase(tables), 'tab-1', 'staff-1')).rejects.toThrow();
+      expect(tables.tabs[0].deposit_settlement).toBeNull();
+    });
+  });
+
+  describe('getUnusedDeposit', () => {
+    test('should never refund more than the deposit', () => {
+      expect(getUnusedDeposit({
+        ...input,
+        orders: [],
+        payments: [
+          { amount: 1000, status: 'success', is_deposit: true },
+          { amount: 700, status: 'success' }
+        ]
+      })).toBe(1000);
+    });
+  });
+});
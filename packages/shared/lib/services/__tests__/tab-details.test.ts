@@ -0,0 +1,107 @@
+/**
+ * Unit tests for the tab details service
+ * Tests requester resolution, tab authorization and notes updates
+ */
+
+import {
+  TabAccessError,
+  applyTabDetailsUpdate,
+  authorizeTabAccess,
+  parseTabDetailsUpdate,
+  parseTabNotes,
+  resolveTabRequester
+} from '../tab-details';
+
+function createSupabaseMock(options: { user?: any; userBar?: any } = {}) {
+  const builder: any = {
+    select: () => builder,
+    eq: () => builder,
+    maybeSingle: () => Promise.resolve({ data: options.userBar ?? null, error: null })
+  };
+  return {
+    auth: {
+      getUser: jest.fn(async () => options.user
+        ? { data: { user: options.user }, error: null }
+        : { data: { user: null }, error: { message: 'invalid JWT' } })
+    },
+    from: jest.fn(() => builder)
+  } as any;
+}
+
+describe('Tab Details Service', () => {
+  describe('resolveTabRequester', () => {
+    test('should treat a bearer token as staff', async () => {
+      const supabase = createSupabaseMock({ user: { id: 'user-1' } });
+      const requester = await resolveTabRequester(supabase, new Headers({ Authorization: 'Bearer token-123' }));
+
+      expect(requester).toEqual({ type: 'staff', userId: 'user-1' });
+      expect(supabase.auth.getUser).toHaveBeenCalledWith('token-123');
+    });
+
+    test('should treat the device header as a customer', async () => {
+      const requester = await resolveTabRequester(createSupabaseMock(), new Headers({ 'X-Device-Id': 'device-1' }));
+      expect(requester).toEqual({ type: 'customer', deviceId: 'device-1' });
+    });
+
+    test('should reject missing or invalid credentials with 401', async () => {
+      await expect(resolveTabRequester(createSupabaseMock(), new Headers())).rejects.toMatchObject({ statusCode: 401 });
+      await expect(resolveTabRequester(createSupabaseMock(), new Headers({ Authorization: 'Bearer bad' })))
+        .rejects.toMatchObject({ statusCode: 401 });
+    });
+  });
+
+  describe('authorizeTabAccess', () => {
+    const tab = { bar_id: 'bar-1', owner_identifier: 'device-1_bar-1', device_identifier: null };
+
+    test('should allow the owning device and reject others', async () => {
+      const supabase = createSupabaseMock();
+      await expect(authorizeTabAccess(supabase, tab, { type: 'customer', deviceId: 'device-1' })).resolves.toBeUndefined();
+      await expect(authorizeTabAccess(supabase, tab, { type: 'customer', deviceId: 'device-2' }))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    test('should require staff to belong to the tab\'s bar', async () => {
+      await expect(authorizeTabAccess(createSupabaseMock({ userBar: { role: 'staff' } }), tab, { type: 'staff', userId: 'user-1' }))
+        .resolves.toBeUndefined();
+      await expect(authorizeTabAccess(createSupabaseMock(), tab, { type: 'staff', userId: 'user-1' }))
+        .rejects.toThrow('You do not have access to this bar');
+    });
+  });
+
+  describe('parseTabNotes', () => {
+    test('should read JSON notes and keep legacy plain text', () => {
+      expect(parseTabNotes('{"display_name":"Wanjiku","table_number":4}')).toEqual({ display_name: 'Wanjiku', table_number: 4 });
+      expect(parseTabNotes('Birthday group')).toEqual({ note: 'Birthday group' });
+      expect(parseTabNotes(null)).toEqual({});
+    });
+  });
+
+  describe('parseTabDetailsUpdate', () => {
+    test('should pick editable fields and reject wrong types', () => {
+      expect(parseTabDetailsUpdate({ tableNumber: 3, status: 'closed' })).toEqual({ tableNumber: 3 });
+      expect(() => parseTabDetailsUpdate({ tableNumber: '3' })).toThrow('tableNumber must be a number');
+      expect(() => parseTabDetailsUpdate({})).toThrow(TabAccessError);
+    });
+  });
+
+  describe('applyTabDetailsUpdate', () => {
+    test('should merge fields and leave others untouched', () => {
+      const notes = applyTabDetailsUpdate(
+        { display_name: 'Tab 12', has_nickname: false },
+        { displayName: '  Otieno  ', tableNumber: 5 },
+        10
+      );
+      expect(notes).toEqual({ display_name: 'Otieno', has_nickname: false, table_number: 5 });
+    });
+
+    test('should clear fields when given null', () => {
+      expect(applyTabDetailsUpdate({ table_number: 3, note: 'VIP' }, { tableNumber: null, notes: null }))
+        .toEqual({ table_number: null });
+    });
+
+    test('should reject table numbers outside the bar\'s tables', () => {
+      expect(() => applyTabDetailsUpdate({}, { tableNumber: 11 }, 10)).toThrow('between 1 and 10');
+      expect(() => applyTabDetailsUpdate({}, { tableNumber: 2.5 })).toThrow('positive whole number');
+    });
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * Unit tests for tab receipts
+ * Tests itemizing orders and payments, VAT, receipt numbering, signed share
+ * links, eTIMS submission and the PDF layout
+ */
+
+import {
+  buildReceiptPdf,
+  buildTabReceipt,
+  createReceiptShareToken,
+  fileClosedTabReceipt,
+  formatReceiptLines,
+  issueTabReceipt,
+  loadTabReceipt,
+  submitEtimsInvoice,
+  TabReceiptError,
+  verifyReceiptShareToken,
+  type TabReceiptInput
+} from '../tab-receipts';
+import { getEtimsAdapter, registerEtimsAdapter, type EtimsConfig } from '../etims';
+
+// Minimal query builder over plain arrays: enough for loading receipts, numbering and eTIMS results
+function createSupabase(tables: Record<string, any[]>) {
+  function query(table: string) {
+    const filters: Array<(row: any) => boolean> = [];
+    let values: any = null;
+    let changes: any = null;
+    let descending: string | null = null;
+
+    const execute = (single: boolean) => {
+      const rows = tables[table] = tables[table] || [];
+      if (values) {
+        if (rows.some(row => row.tab_id === values.tab_id || (row.bar_id === values.bar_id && row.receipt_number === values.receipt_number))) {
+          return { data: null, error: { code: '23505', message: 'duplicate key value' } };
+        }
+        const inserted = { issued_at: '2026-10-19T20:00:00.000Z', ...values };
+        rows.push(inserted);
+        return { data: inserted, error: null };
+      }
+      let matched = rows.filter(row => filters.every(filter => filter(row)));
+      if (changes) {
+        matched.forEach(row => Object.assign(row, changes));
+      }
+      if (descending) {
+        const column = descending;
+        matched = [...matched].sort((a, b) => b[column] - a[column]);
+      }
+      return single ? { data: matched[0] ?? null, error: null } : { data: matched, error: null };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      insert: (row: any) => { values = row; return builder; },
+      update: (row: any) => { changes = row; return builder; },
+      eq: (column: string, value: any) => { filters.push(row => row[column] === value); return builder; },
+      is: (column: string, value: any) => { filters.push(row => (row[column] ?? null) === value); return builder; },
+      in: (column: string, list: any[]) => { filters.push(row => list.includes(row[column])); return builder; },
+      order: (column: string) => { descending = column; return builder; },
+      limit: () => builder,
+      single: () => Promise.resolve(execute(true)),
+      maybeSingle: () => Promise.resolve(execute(true)),
+      then: (resolve: any, reject: any) => Promise.resolve(execute(false)).then(resolve, reject)
+    };
+    return builder;
+  }
+
+  return { from: query } as any;
+}
+
+const input: TabReceiptInput = {
+  tab: {
+    id: 'tab-1',
+    tab_number: 12,
+    status: 'closed',
+    notes: JSON.stringify({ display_name: 'Wanjiru' }),
+    opened_at: '2026-10-19T16:00:00.000Z',
+    closed_at: '2026-10-19T20:00:00.000Z'
+  },
+  bar: { name: 'Sunset Lounge', location: 'Westlands, Nairobi', phone: '0712345678' },
+  orders: [
+    { items: JSON.stringify([{ name: 'Tusker', quantity: 2, price: 300, total: 600 }]), status: 'confirmed', created_at: '2026-10-19T17:00:00.000Z' },
+    { items: [{ name: 'Nyama Choma', quantity: 1, price: 1200 }], status: 'served', created_at: '2026-10-19T16:30:00.000Z' },
+    { items: [{ name: 'Whisky', quantity: 1, price: 900, total: 900 }], status: 'cancelled', created_at: '2026-10-19T18:00:00.000Z' }
+  ],
+  payments: [
+    {
+      id: 'p1',
+      method: 'mpesa',
+      amount: '1500.00',
+      tip_amount: '100',
+      status: 'success',
+      metadata: { Body: { stkCallback: { CallbackMetadata: { Item: [{ Name: 'MpesaReceiptNumber', Value: 'QJK1ABC2DE' }] } } } },
+      created_at: '2026-10-19T19:00:00.000Z'
+    },
+    { id: 'p2', method: 'cash', amount: 200, status: 'success', created_at: '2026-10-19T19:30:00.000Z' },
+    { id: 'p3', method: 'mpesa', amount: 800, status: 'failed', created_at: '2026-10-19T18:30:00.000Z' }
+  ],
+  writeOffs: [{ amount: '100', reason: 'Written off on close', created_at: '2026-10-19T20:00:00.000Z' }],
+  issued: { receipt_number: 42, issued_at: '2026-10-19T20:00:00.000Z' }
+};
+
+describe('Tab Receipt Service', () => {
+  describe('buildTabReceipt', () => {
+    const receipt = buildTabReceipt(input);
+
+    test('should itemize confirmed and served orders in order placed', () => {
+      expect(receipt.items.map(item => item.name)).toEqual(['Nyama Choma', 'Tusker']);
+      expect(receipt.items[0]).toMatchObject({ quantity: 1, unitPrice: 1200, total: 1200 });
+      expect(receipt.subtotal).toBe(1800);
+    });
+
+    test('should show the VAT included in the total', () => {
+      expect(receipt.vat).toEqual({ rate: 0.16, amount: 248.28 });
+    });
+
+    test('should list successful payments with M-Pesa receipt numbers and tips', () => {
+      expect(receipt.payments.map(payment => payment.id)).toEqual(['p1', 'p2']);
+      expect(receipt.payments[0].mpesaReceiptNumber).toBe('QJK1ABC2DE');
+      expect(receipt.paid).toBe(1700);
+      expect(receipt.tips).toBe(100);
+      expect(receipt.writtenOff).toBe(100);
+      expect(receipt.balance).toBe(0);
+    });
+
+    test('should number closed tabs and leave open tabs as provisional bills', () => {
+      expect(receipt.receiptNumber).toBe('000042');
+      expect(receipt.displayName).toBe('Wanjiru');
+      expect(buildTabReceipt({ ...input, issued: null }).receiptNumber).toBeNull();
+    });
+  });
+
+  describe('issueTabReceipt', () => {
+    test('should number receipts per bar and keep a tab on its first number', async () => {
+      const tables: Record<string, any[]> = {
+        tab_receipts: [{ tab_id: 'other', bar_id: 'bar-1', receipt_number: 7, issued_at: '2026-10-18T20:00:00.000Z' }]
+      };
+      const supabase = createSupabase(tables);
+
+      const first = await issueTabReceipt(supabase, 'tab-1', 'bar-1');
+      expect(first.receipt_number).toBe(8);
+
+      const again = await issueTabReceipt(supabase, 'tab-1', 'bar-1');
+      expect(again.receipt_number).toBe(8);
+      expect(tables.tab_receipts).toHaveLength(2);
+
+      expect((await issueTabReceipt(supabase, 'tab-2', 'bar-2')).receipt_number).toBe(1);
+    });
+  });
+
+  describe('tax', () => {
+    test('should break tax down by item class and add it to tax-exclusive prices', () => {
+      const receipt = buildTabReceipt({
+        ...input,
+        bar: { ...input.bar, prices_include_tax: false },
+        products: [{ id: 'bp-1', name: 'Nyama Choma', tax_class: 'exempt' }]
+      });
+
+      expect(receipt.items.map(item => item.taxClass)).toEqual(['exempt', 'vat_16']);
+      expect(receipt.taxes.map(tax => [tax.taxType, tax.tax])).toEqual([['A', 0], ['B', 96]]);
+      expect(receipt.vat.amount).toBe(96);
+      expect(receipt.subtotal).toBe(1800);
+      expect(receipt.total).toBe(1896);
+
+      const lines = formatReceiptLines(receipt, 32).map(line => line.text);
+      expect(lines.find(line => line.startsWith('Subtotal'))).toMatch(/1,800\.00$/);
+      expect(lines.find(line => line.startsWith('TOTAL'))).toMatch(/1,896\.00$/);
+    });
+  });
+
+  describe('submitEtimsInvoice', () => {
+    const config: EtimsConfig = {
+      adapter: 'stub',
+      tin: 'P051234567X',
+      branchId: '00',
+      deviceSerial: null,
+      pricesIncludeTax: true
+    };
+
+    const issuedTables = () => ({
+      tab_receipts: [{ tab_id: 'tab-1', bar_id: 'bar-1', receipt_number: 42, issued_at: '2026-10-19T20:00:00.000Z' }] as any[]
+    });
+
+    test('should store the control unit data on the receipt row', async () => {
+      const tables = issuedTables();
+      const etims = await submitEtimsInvoice(createSupabase(tables), buildTabReceipt(input), config);
+
+      expect(etims).toMatchObject({
+        status: 'submitted',
+        adapter: 'stub',
+        test: true,
+        controlUnitInvoiceNumber: 'KRACU0000000001/42',
+        error: null
+      });
+      expect(etims!.qrUrl).toContain(`Data=P051234567X00${etims!.receiptSignature}`);
+      expect(tables.tab_receipts[0].etims_invoice).toMatchObject({ invcNo: 42, totAmt: 1800, pmtTyCd: '07' });
+
+      const lines = formatReceiptLines({ ...buildTabReceipt(input), etims }, 32).map(line => line.text);
+      expect(lines).toContain('CU INV: KRACU0000000001/42');
+      expect(lines.some(line => line.includes('eTIMS TEST INVOICE'))).toBe(true);
+    });
+
+    test('should record a failed submission for a retry', async () => {
+      registerEtimsAdapter({
+        name: 'offline',
+        label: 'Offline',
+        testOnly: false,
+        submitSale: () => Promise.reject(new Error('Control unit unreachable'))
+      });
+      const tables = issuedTables();
+      const etims = await submitEtimsInvoice(createSupabase(tables), buildTabReceipt(input), { ...config, adapter: 'offline' });
+
+      expect(etims).toMatchObject({ status: 'failed', adapter: 'offline', error: 'Control unit unreachable' });
+      expect(tables.tab_receipts[0].etims_invoice.invcNo).toBe(42);
+    });
+
+    test('should refuse a provisional bill', async () => {
+      await expect(submitEtimsInvoice(createSupabase({}), buildTabReceipt({ ...input, issued: null }), config))
+        .rejects.toThrow('numbered receipt');
+    });
+  });
+
+  describe('fileClosedTabReceipt', () => {
+    const stub = getEtimsAdapter('stub');
+    const submitSale = jest.fn((payload: any, config: EtimsConfig) => stub.submitSale(payload, config));
+    registerEtimsAdapter({ name: 'counting', label: 'Counting', testOnly: true, submitSale });
+
+    const tabTables = (status = 'closed', etimsEnabled = true) => ({
+      tabs: [{
+        ...input.tab,
+        status,
+        bar_id: 'bar-1',
+        bar: { name: 'Sunset Lounge', kra_pin: 'P051234567X', etims_enabled: etimsEnabled, etims_adapter: 'counting' }
+      }],
+      tab_orders: input.orders,
+      tab_payments: input.payments,
+      tab_write_offs: [],
+      bar_products: [],
+      tab_receipts: [] as any[]
+    });
+
+    beforeEach(() => {
+      submitSale.mockClear();
+    });
+
+    test('should file a closed tab once when two close paths race', async () => {
+      const tables = tabTables();
+      const supabase = createSupabase(tables);
+
+      const [first, second] = await Promise.all([
+        fileClosedTabReceipt(supabase, 'tab-1'),
+        fileClosedTabReceipt(supabase, 'tab-1')
+      ]);
+
+      expect(submitSale).toHaveBeenCalledTimes(1);
+      expect(tables.tab_receipts).toHaveLength(1);
+      expect(tables.tab_receipts[0].etims_status).toBe('submitted');
+      expect([first.etims?.status, second.etims?.status]).toContain('submitted');
+
+      const again = await fileClosedTabReceipt(supabase, 'tab-1');
+      expect(submitSale).toHaveBeenCalledTimes(1);
+      expect(again.etims).toMatchObject({ status: 'submitted', controlUnitInvoiceNumber: 'KRACU0000000001/1' });
+    });
+
+    test('should retry a failed submission', async () => {
+      const tables = tabTables();
+      submitSale.mockRejectedValueOnce(new Error('Control unit unreachable'));
+
+      const failed = await fileClosedTabReceipt(createSupabase(tables), 'tab-1');
+      expect(failed.etims).toMatchObject({ status: 'failed', error: 'Control unit unreachable' });
+
+      const retried = await fileClosedTabReceipt(createSupabase(tables), 'tab-1');
+      expect(retried.etims).toMatchObject({ status: 'submitted', error: null });
+      expect(submitSale).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not file open tabs, bars without eTIMS or receipts that are only loaded', async () => {
+      const open = await fileClosedTabReceipt(createSupabase(tabTables('open')), 'tab-1');
+      expect(open.receiptNumber).toBeNull();
+
+      const offTables = tabTables('closed', false);
+      const off = await fileClosedTabReceipt(createSupabase(offTables), 'tab-1');
+      expect(off).toMatchObject({ receiptNumber: '000001', etims: null });
+      expect(offTables.tab_receipts[0].etims_status).toBeUndefined();
+
+      const loadedTables = tabTables();
+      const loaded = await loadTabReceipt(createSupabase(loadedTables), 'tab-1');
+      expect(loaded).toMatchObject({ receiptNumber: '000001', etims: null });
+
+      expect(submitSale).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('share links', () => {
+    const originalEnv = process.env;
+    const now = new Date('2026-10-19T20:00:00.000Z');
+
+    beforeEach(() => {
+      process.env = { ...originalEnv, RECEIPT_SHARE_SECRET: 'test-receipt-secret' };
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    test('should resolve a signed token to its tab until it expires', () => {
+      const { token, expiresAt } = createReceiptShareToken('tab-1', 7, now);
+
+      expect(expiresAt).toBe('2026-10-26T20:00:00.000Z');
+      expect(verifyReceiptShareToken(token, now)).toBe('tab-1');
+      expect(() => verifyReceiptShareToken(token, new Date('2026-10-27T00:00:00.000Z'))).toThrow('expired');
+    });
+
+    test('should reject tampered tokens and bad lifetimes', () => {
+      const { token } = createReceiptShareToken('tab-1', 1, now);
+
+      expect(() => verifyReceiptShareToken(token.replace('tab-1', 'tab-2'), now)).toThrow(TabReceiptError);
+      expect(() => verifyReceiptShareToken('nonsense', now)).toThrow('Invalid receipt link');
+      expect(() => createReceiptShareToken('tab-1', 31, now)).toThrow('1 to 30 days');
+    });
+
+    test('should refuse to sign links without a secret', () => {
+      delete process.env.RECEIPT_SHARE_SECRET;
+      expect(() => createReceiptShareToken('tab-1', 7, now)).toThrow('not configured');
+    });
+  });
+
+  describe('PDF', () => {
+    const receipt = buildTabReceipt(input);
+
+    test('should lay out fixed-width lines with the totals right-aligned', () => {
+      const lines = formatReceiptLines(receipt, 32).map(line => line.text);
+
+      expect(lines.every(line => line.length <= 32)).toBe(true);
+      expect(lines).toContain(`${' '.repeat(8)}RECEIPT #000042`);
+      expect(lines).toContain(`${'2 x Tusker'.padEnd(26)}600.00`);
+      expect(lines).toContain('  Ref QJK1ABC2DE');
+      expect(lines.find(line => line.startsWith('Incl. VAT 16%'))).toMatch(/248\.28$/);
+    });
+
+    test('should produce a well-formed PDF', () => {
+      const pdf = Buffer.from(buildReceiptPdf(receipt)).toString('latin1');
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('(Receipt 000042)');
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+
+      // The xref table must point at each object
+      const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)![1]);
+      const offsets = pdf.slice(xrefOffset).match(/^\d{10} 00000 n $/gm)!.map(entry => Number(entry.slice(0, 10)));
+      offsets.forEach((offset, index) => {
+        expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Unit tests for the tab split service
+ * Tests equal, by-item and custom share planning and share payment lookup
+ */
+
+import {
+  TabSplitError,
+  planSplitShares,
+  prepareSplitSharePayment,
+  splitByItems,
+  splitEqually
+} from '../tab-split';
+
+const orders = [
+  {
+    id: 'order-1',
+    items: [
+      { name: 'Tusker', quantity: 2, price: 300, total: 600 },
+      { name: 'Nyama Choma', quantity: 1, price: 900, total: 900 }
+    ]
+  },
+  {
+    id: 'order-2',
+    items: JSON.stringify([{ name: 'Soda', quantity: 1, price: 150 }])
+  }
+];
+
+describe('Tab Split Service', () => {
+  describe('splitEqually', () => {
+    test('should keep whole-shilling shares and spread the remainder', () => {
+      expect(splitEqually(1000, 3)).toEqual([334, 333, 333]);
+      expect(splitEqually(1650, 2)).toEqual([825, 825]);
+    });
+
+    test('should split fractional balances to the cent', () => {
+      expect(splitEqually(100.5, 2)).toEqual([50.25, 50.25]);
+      expect(splitEqually(10.01, 2)).toEqual([5.01, 5]);
+    });
+
+    test('should reject share counts outside the allowed range', () => {
+      expect(() => splitEqually(1000, 1)).toThrow(TabSplitError);
+      expect(() => splitEqually(1000, 21)).toThrow(TabSplitError);
+      expect(() => splitEqually(3, 4)).toThrow('too small');
+    });
+  });
+
+  describe('splitByItems', () => {
+    test('should total each person\'s assigned lines', () => {
+      const amounts = splitByItems(orders, [
+        { items: [{ orderId: 'order-1', itemIndex: 0 }, { orderId: 'order-2', itemIndex: 0 }] },
+        { items: [{ orderId: 'order-1', itemIndex: 1 }] }
+      ]);
+      expect(amounts).toEqual([750, 900]);
+    });
+
+    test('should reject unassigned, doubly assigned and unknown lines', () => {
+      expect(() => splitByItems(orders, [
+        { items: [{ orderId: 'order-1', itemIndex: 0 }] },
+        { items: [{ orderId: 'order-1', itemIndex: 1 }] }
+      ])).toThrow('Assign every item before splitting (1 left)');
+
+      expect(() => splitByItems(orders, [
+        { items: [{ orderId: 'order-1', itemIndex: 0 }, { orderId: 'order-1', itemIndex: 1 }, { orderId: 'order-2', itemIndex: 0 }] },
+        { items: [{ orderId: 'order-1', itemIndex: 0 }] }
+      ])).toThrow('only be assigned to one person');
+
+      expect(() => splitByItems(orders, [
+        { items: [{ orderId: 'order-9', itemIndex: 0 }] },
+        { items: [] }
+      ])).toThrow('does not belong');
+    });
+  });
+
+  describe('planSplitShares', () => {
+    test('should label equal shares and require them to cover the balance', () => {
+      const shares = planSplitShares({ mode: 'equal', count: 2, labels: ['Akinyi'] }, 1650);
+      expect(shares).toEqual([
+        { label: 'Akinyi', amount: 825, items: [] },
+        { label: 'Person 2', amount: 825, items: [] }
+      ]);
+    });
+
+    test('should require custom amounts to add up to the balance', () => {
+      expect(() => planSplitShares({ mode: 'custom', shares: [{ amount: 1000 }, { amount: 500 }] }, 1650))
+        .toThrow('Shares add up to 1500 but the balance is 1650.');
+      expect(planSplitShares({ mode: 'custom', shares: [{ amount: 1150 }, { amount: 500 }] }, 1650)
+        .map(share => share.amount)).toEqual([1150, 500]);
+    });
+
+    test('should point to other modes when items no longer match the balance', () => {
+      const input = {
+        mode: 'items' as const,
+        shares: [
+          { items: [{ orderId: 'order-1', itemIndex: 0 }, { orderId: 'order-2', itemIndex: 0 }] },
+          { items: [{ orderId: 'order-1', itemIndex: 1 }] }
+        ]
+      };
+      expect(planSplitShares(input, 1650, orders)[1]).toEqual({
+        label: 'Person 2',
+        amount: 900,
+        items: [{ order_id: 'order-1', item_index: 1 }]
+      });
+      expect(() => planSplitShares(input, 1150, orders)).toThrow('split equally or by custom amounts instead');
+    });
+
+    test('should reject a tab with nothing to pay', () => {
+      expect(() => planSplitShares({ mode: 'equal', count: 2 }, 0)).toThrow('There is no balance to split');
+    });
+  });
+
+  describe('prepareSplitSharePayment', () => {
+    function createSupabaseMock(share: any, claimedRows = [{ id: share.id }]) {
+      const claim: any = {
+        eq: () => claim,
+        select: jest.fn(async () => ({ data: claimedRows, error: null }))
+      };
+      const update = jest.fn(() => claim);
+      const builder: any = {
+        select: () => builder,
+        eq: () => builder,
+        maybeSingle: () => Promise.resolve({ data: share, error: null }),
+        update
+      };
+      return { client: { from: jest.fn(() => builder) } as any, update };
+    }
+
+    test('should charge what is still owed and claim the share for this phone', async () => {
+      const { client, update } = createSupabaseMock({
+        id: 'share-1', label: 'Person 1', amount: '825.00', paid_amount: '300.00',
+        status: 'unpaid', phone_number: null, split: { status: 'active' }
+      });
+
+      const { amountDue } = await prepareSplitSharePayment(client, 'tab-1', 'share-1', '254712345678');
+
+      expect(amountDue).toBe(525);
+      expect(update).toHaveBeenCalledWith({ status: 'pending', phone_number: '254712345678' });
+    });
+
+    test('should refuse a share another phone claimed first', async () => {
+      const { client } = createSupabaseMock({
+        id: 'share-1', label: 'Person 1', amount: 825, paid_amount: 0,
+        status: 'unpaid', phone_number: null, split: { status: 'active' }
+      }, []);
+
+      await expect(prepareSplitSharePayment(client, 'tab-1', 'share-1', '254712345678'))
+        .rejects.toMatchObject({ statusCode: 409, message: 'Person 1 already has an M-Pesa payment in progress' });
+    });
+
+    test('should refuse a share whose M-Pesa prompt is still outstanding', async () => {
+      const { client, update } = createSupabaseMock({
+        id: 'share-1', label: 'Person 1', amount: 825, paid_amount: 0,
+        status: 'pending', phone_number: '254712345678', split: { status: 'active' }
+      });
+
+      await expect(prepareSplitSharePayment(client, 'tab-1', 'share-1', '254712345678'))
+        .rejects.toMatchObject({ statusCode: 409, message: 'Person 1 already has an M-Pesa payment in progress' });
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    test('should refuse paid shares and inactive splits', async () => {
+      const paid = createSupabaseMock({
+        id: 'share-1', label: 'Person 1', amount: 825, paid_amount: 825,
+        status: 'paid', phone_number: '254712345678', split: { status: 'active' }
+      });
+      await expect(prepareSplitSharePayment(paid.client, 'tab-1', 'share-1', '254712345678'))
+        .rejects.toThrow('Person 1 has already paid');
+
+      const cancelled = createSupabaseMock({
+        id: 'share-1', label: 'Person 1', amount: 825, paid_amount: 0,
+        status: 'unpaid', phone_number: null, split: { status: 'cancelled' }
+      });
+      await expect(prepareSplitSharePayment(cancelled.client, 'tab-1', 'share-1', '254712345678'))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for the webhook delivery service
+ * Tests signing, endpoint validation and end-to-end delivery against a
+ * local HTTP stand-in for a bar's POS
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  WebhookDeliveryService,
+  WebhookError,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  assertPublicWebhookUrl,
+  getRetryDelayMs,
+  signWebhookPayload,
+  validateWebhookEndpointInput,
+  verifyWebhookSignature
+} from '../webhook-service';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local HTTP stand-in: records every request and answers with the next
+ * queued status code (200 once the queue is empty)
+ */
+async function startStandIn(statusCodes: number[] = []) {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statusCodes.shift() ?? 200;
+      res.end(res.statusCode < 300 ? 'ok' : 'error');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/webhook`,
+    received,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
+
+/**
+ * In-memory stand-in for the Supabase tables the service touches
+ */
+function createFakeSupabase(tables: Record<string, any[]>) {
+  let nextId = 1;
+
+  function query(table: string) {
+    const filters: Array<(row: any) => boolean> = [];
+    let operation: 'select' | 'update' | 'upsert' = 'select';
+    let values: any = null;
+    let withRelations = false;
+    let limit = Infinity;
+
+    const execute = () => {
+      const rows = tables[table] = tables[table] || [];
+      if (operation === 'upsert') {
+        for (const value of values) {
+          const exists = rows.some(row => row.event_id === value.event_id && row.endpoint_id === value.endpoint_id);
+          if (!exists) {
+            rows.push({ id: `delivery-${nextId++}`, attempts: 0, next_attempt_at: new Date(0).toISOString(), ...value });
+          }
+        }
+        return { data: null, error: null };
+      }
+      const matched = rows.filter(row => filters.every(filter => filter(row)));
+      if (operation === 'update') {
+        matched.forEach(row => Object.assign(row, values));
+        return { data: matched.map(row => ({ id: row.id })), error: null };
+      }
+      const data = matched.slice(0, limit).map(row => withRelations
+        ? {
+            ...row,
+            endpoint: tables.webhook_endpoints.find(endpoint => endpoint.id === row.endpoint_id) || null,
+            event: tables.webhook_events.find(event => event.id === row.event_id) || null
+          }
+        : { ...row });
+      return { data, error: null };
+    };
+
+    const builder: any = {
+      select: (columns = '*') => {
+        withRelations = columns.includes('endpoint:');
+        return builder;
+      },
+      update: (updates: any) => { operation = 'update'; values = updates; return builder; },
+      upsert: (rows: any[]) => { operation = 'upsert'; values = rows; return Promise.resolve(execute()); },
+      eq: (column: string, value: any) => { filters.push(row => row[column] === value); return builder; },
+      is: (column: string, value: any) => { filters.push(row => (row[column] ?? null) === value); return builder; },
+      in: (column: string, list: any[]) => { filters.push(row => list.includes(row[column])); return builder; },
+      lte: (column: string, value: string) => { filters.push(row => row[column] <= value); return builder; },
+      contains: (column: string, list: any[]) => { filters.push(row => list.every(item => row[column].includes(item))); return builder; },
+      order: () => builder,
+      limit: (count: number) => { limit = count; return builder; },
+      then: (resolve: any, reject: any) => Promise.resolve(execute()).then(resolve, reject)
+    };
+    return builder;
+  }
+
+  return { from: query } as any;
+}
+
+describe('Webhook Delivery Service', () => {
+  describe('signWebhookPayload / verifyWebhookSignature', () => {
+    const secret = 'whsec_test';
+    const body = JSON.stringify({ type: 'payment.success' });
+
+    test('should verify a signature made with the same secret', () => {
+      const header = signWebhookPayload(secret, body, 1718380800);
+      expect(header).toMatch(/^t=1718380800,v1=[0-9a-f]{64}$/);
+      expect(verifyWebhookSignature(secret, body, header, 300, 1718380860)).toBe(true);
+    });
+
+    test('should reject tampered bodies, wrong secrets and stale timestamps', () => {
+      const header = signWebhookPayload(secret, body, 1718380800);
+      expect(verifyWebhookSignature(secret, body + ' ', header, 300, 1718380800)).toBe(false);
+      expect(verifyWebhookSignature('whsec_other', body, header, 300, 1718380800)).toBe(false);
+      expect(verifyWebhookSignature(secret, body, header, 300, 1718381200)).toBe(false);
+      expect(verifyWebhookSignature(secret, body, undefined)).toBe(false);
+    });
+  });
+
+  describe('validateWebhookEndpointInput', () => {
+    test('should require HTTPS', () => {
+      expect(() => validateWebhookEndpointInput({ url: 'http://pos.example.com/hook', events: ['tab.opened'] })).toThrow(WebhookError);
+      expect(validateWebhookEndpointInput({ url: 'https://pos.example.com/hook', events: ['tab.opened'] }).url).toBe('https://pos.example.com/hook');
+    });
+
+    test('should reject loopback, private and link-local hosts', () => {
+      for (const url of [
+        'https://localhost:4000/hook',
+        'https://127.0.0.1/hook',
+        'https://10.0.0.5/hook',
+        'https://172.20.1.1/hook',
+        'https://192.168.1.10/hook',
+        'https://169.254.169.254/latest/meta-data',
+        'https://[::1]/hook',
+        'https://[fd00::1]/hook'
+      ]) {
+        expect(() => validateWebhookEndpointInput({ url, events: ['tab.opened'] })).toThrow('public internet');
+      }
+    });
+
+    test('should reject empty or unknown event filters', () => {
+      expect(() => validateWebhookEndpointInput({ url: 'https://pos.example.com', events: [] })).toThrow('Select at least one event');
+      expect(() => validateWebhookEndpointInput({ url: 'https://pos.example.com', events: ['tab.deleted'] })).toThrow('Unknown webhook events');
+    });
+  });
+
+  describe('assertPublicWebhookUrl', () => {
+    test('should reject hosts that resolve to a private address', async () => {
+      const lookup = async (hostname: string) => hostname === 'pos.example.com' ? ['203.0.113.10'] : ['10.0.0.7'];
+
+      await expect(assertPublicWebhookUrl('https://pos.example.com/hook', lookup)).resolves.toBeUndefined();
+      await expect(assertPublicWebhookUrl('https://internal.example.com/hook', lookup)).rejects.toThrow('public internet');
+    });
+
+    test('should reject hosts that do not resolve', async () => {
+      const lookup = async () => { throw new Error('ENOTFOUND'); };
+
+      await expect(assertPublicWebhookUrl('https://gone.example.com/hook', lookup)).rejects.toThrow('Could not resolve');
+    });
+  });
+
+  describe('getRetryDelayMs', () => {
+    test('should back off per attempt and repeat the last delay', () => {
+      const delays = [1000, 3000, 10000];
+      expect(getRetryDelayMs(1, delays)).toBe(1000);
+      expect(getRetryDelayMs(2, delays)).toBe(3000);
+      expect(getRetryDelayMs(7, delays)).toBe(10000);
+    });
+  });
+
+  describe('end-to-end delivery', () => {
+    let standIn: Awaited<ReturnType<typeof startStandIn>>;
+
+    afterEach(async () => {
+      await standIn?.close();
+    });
+
+    function createTables(url: string) {
+      return {
+        webhook_endpoints: [
+          { id: 'endpoint-pos', bar_id: 'bar-1', url, secret: 'whsec_pos', events: ['payment.success', 'tab.closed'], enabled: true },
+          { id: 'endpoint-books', bar_id: 'bar-1', url, secret: 'whsec_books', events: ['tab.opened'], enabled: true }
+        ],
+        webhook_events: [
+          {
+            id: 'event-1',
+            bar_id: 'bar-1',
+            event_type: 'payment.success',
+            payload: { payment_id: 'p1', amount: 1500, mpesa_receipt_number: 'NLJ7RT61SV' },
+            created_at: '2024-06-14T18:00:00.000Z',
+            dispatched_at: null
+          }
+        ],
+        webhook_deliveries: [] as any[]
+      };
+    }
+
+    test('should deliver signed events to subscribed endpoints and retry failures', async () => {
+      standIn = await startStandIn([500]);
+      const tables = createTables(standIn.url);
+      const service = new WebhookDeliveryService(createFakeSupabase(tables), { retryDelayMs: [0], allowPrivateHosts: true });
+
+      const first = await service.run();
+      expect(first).toEqual({ eventsDispatched: 1, deliveriesAttempted: 1, delivered: 0, retrying: 1, failed: 0 });
+      expect(tables.webhook_deliveries).toHaveLength(1);
+      expect(tables.webhook_deliveries[0]).toMatchObject({ endpoint_id: 'endpoint-pos', status: 'retrying', attempts: 1, response_status: 500 });
+
+      const second = await service.run();
+      expect(second).toMatchObject({ eventsDispatched: 0, delivered: 1 });
+      expect(tables.webhook_deliveries[0]).toMatchObject({ status: 'delivered', attempts: 2, response_status: 200, error: null });
+
+      expect(standIn.received).toHaveLength(2);
+      const request = standIn.received[1];
+      expect(request.headers[WEBHOOK_EVENT_HEADER.toLowerCase()]).toBe('payment.success');
+      expect(request.headers[WEBHOOK_DELIVERY_HEADER.toLowerCase()]).toBe(tables.webhook_deliveries[0].id);
+      expect(verifyWebhookSignature('whsec_pos', request.body, request.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()] as string)).toBe(true);
+      expect(JSON.parse(request.body)).toEqual({
+        id: 'event-1',
+        type: 'payment.success',
+        bar_id: 'bar-1',
+        created_at: '2024-06-14T18:00:00.000Z',
+        data: { payment_id: 'p1', amount: 1500, mpesa_receipt_number: 'NLJ7RT61SV' }
+      });
+    });
+
+    test('should mark a delivery failed once attempts run out', async () => {
+      standIn = await startStandIn([500, 503]);
+      const tables = createTables(standIn.url);
+      const service = new WebhookDeliveryService(createFakeSupabase(tables), { maxAttempts: 2, retryDelayMs: [0], allowPrivateHosts: true });
+
+      await service.run();
+      const result = await service.run();
+
+      expect(result.failed).toBe(1);
+      expect(tables.webhook_deliveries[0]).toMatchObject({ status: 'failed', attempts: 2, response_status: 503, next_attempt_at: null });
+
+      // Nothing left to attempt
+      expect((await service.run()).deliveriesAttempted).toBe(0);
+    });
+
+    test('should skip deliveries whose endpoint was disabled', async () => {
+      standIn = await startStandIn();
+      const tables = createTables(standIn.url);
+      const service = new WebhookDeliveryService(createFakeSupabase(tables), { allowPrivateHosts: true });
+
+      await service.dispatchPendingEvents();
+      tables.webhook_endpoints[0].enabled = false;
+      const result = await service.processDueDeliveries();
+
+      expect(result.failed).toBe(1);
+      expect(standIn.received).toHaveLength(0);
+      expect(tables.webhook_deliveries[0].error).toBe('Endpoint disabled or removed');
+    });
+
+    test('should send a delivery once when runs overlap', async () => {
+      standIn = await startStandIn();
+      const tables = createTables(standIn.url);
+      const supabase = createFakeSupabase(tables);
+      const first = new WebhookDeliveryService(supabase, { allowPrivateHosts: true });
+      const second = new WebhookDeliveryService(supabase, { allowPrivateHosts: true });
+
+      await first.dispatchPendingEvents();
+      const results = await Promise.all([first.processDueDeliveries(), second.processDueDeliveries()]);
+
+      expect(results.map(result => result.deliveriesAttempted).sort()).toEqual([0, 1]);
+      expect(standIn.received).toHaveLength(1);
+      expect(tables.webhook_deliveries[0]).toMatchObject({ status: 'delivered', attempts: 1 });
+    });
+
+    test('should refuse to send to a private host', async () => {
+      standIn = await startStandIn();
+      const tables = createTables(standIn.url);
+      const service = new WebhookDeliveryService(createFakeSupabase(tables));
+
+      const result = await service.run();
+
+      expect(result.failed).toBe(1);
+      expect(standIn.received).toHaveLength(0);
+      expect(tables.webhook_deliveries[0]).toMatchObject({ status: 'failed', next_attempt_at: null });
+      expect(tables.webhook_deliveries[0].error).toContain('public internet');
+    });
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Business Hours Service
+ * The single evaluator for a bar's opening hours, shared by the customer and
+ * staff apps and by the daily Z-report.
+ *
+ * Supports the three modes saved from staff settings (simple, advanced
+ * per-day, 24hours) plus dated exceptions: holiday closures and special
+ * opening hours. Times are Kenya wall-clock times; an opening period that
+ * closes after midnight spills over into the next calendar day.
+ */
+
+// Kenya does not observe daylight saving, so a fixed offset is safe (UTC+3)
+export const KENYA_UTC_OFFSET_MINUTES = 180;
+
+export const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/** Columns of `bars` needed to evaluate business hours */
+export const BUSINESS_HOURS_COLUMNS =
+  'business_hours_mode, business_hours_simple, business_hours_advanced, business_24_hours, business_hours_exceptions';
+
+// How far ahead to look for the next opening (covers long holiday closures)
+const NEXT_OPENING_SEARCH_DAYS = 31;
+
+export interface SimpleBusinessHours {
+  openTime: string;
+  closeTime: string;
+  closeNextDay: boolean;
+}
+
+export interface AdvancedDayHours {
+  day: string;
+  label?: string;
+  open: boolean;
+  openTime: string;
+  closeTime: string;
+  /** Closes after midnight (the settings page stores this as openNextDay) */
+  openNextDay: boolean;
+}
+
+/**
+ * A dated override of the regular hours
+ * `closed` shuts the bar for the date range; `special` replaces that day's hours.
+ */
+export interface BusinessHoursException {
+  date: string;
+  endDate?: string | null;
+  type: 'closed' | 'special';
+  label?: string | null;
+  openTime?: string | null;
+  closeTime?: string | null;
+  closeNextDay?: boolean | null;
+}
+
+export interface BarBusinessHours {
+  business_hours_mode: 'simple' | 'advanced' | '24hours' | null;
+  business_hours_simple: SimpleBusinessHours | null;
+  business_hours_advanced: AdvancedDayHours[] | null;
+  business_24_hours: boolean | null;
+  business_hours_exceptions?: BusinessHoursException[] | null;
+}
+
+/** One continuous opening, identified by the calendar date it opens on */
+export interface OpeningPeriod {
+  date: string;
+  openTime: string;
+  closeTime: string;
+  start: Date;
+  end: Date;
+  exception: BusinessHoursException | null;
+}
+
+export interface BusinessHoursStatus {
+  isOpen: boolean;
+  /** The period the bar is currently in, when open */
+  current: OpeningPeriod | null;
+  /** The next period to start, when closed */
+  next: OpeningPeriod | null;
+  /** Holiday closure in effect today, if any */
+  closure: BusinessHoursException | null;
+}
+
+export interface WeeklyHoursEntry {
+  day: string;
+  label: string;
+  open: boolean;
+  openTime: string;
+  closeTime: string;
+  closesNextDay: boolean;
+}
+
+/**
+ * Validate a date in YYYY-MM-DD format
+ */
+export function isValidBusinessDate(businessDate: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(businessDate)) {
+    return false;
+  }
+  const [year, month, day] = businessDate.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+export function isValidTime(time: string | null | undefined): time is string {
+  return typeof time === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+}
+
+/**
+ * Convert a Kenya wall-clock date and time into a UTC Date
+ */
+export function kenyaLocalToUtc(businessDate: string, time: string): Date {
+  const [year, month, day] = businessDate.split('-').map(Number);
+  const [hours, minutes] = (time || '00:00').split(':').map(Number);
+  const utcMs = Date.UTC(year, month - 1, day, hours || 0, minutes || 0) - KENYA_UTC_OFFSET_MINUTES * 60 * 1000;
+  return new Date(utcMs);
+}
+
+/**
+ * The Kenya calendar date (YYYY-MM-DD) of a moment
+ */
+export function toKenyaDate(at: Date): string {
+  return new Date(at.getTime() + KENYA_UTC_OFFSET_MINUTES * 60 * 1000).toISOString().slice(0, 10);
+}
+
+export function addDays(businessDate: string, days: number): string {
+  const [year, month, day] = businessDate.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return date.toISOString().slice(0, 10);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function isOvernight(openTime: string, closeTime: string, closeNextDay?: boolean | null): boolean {
+  return !!closeNextDay || toMinutes(closeTime) <= toMinutes(openTime);
+}
+
+function getDayName(businessDate: string): string {
+  const [year, month, day] = businessDate.split('-').map(Number);
+  return DAY_NAMES[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+}
+
+export function isAlwaysOpen(bar: BarBusinessHours): boolean {
+  return bar.business_24_hours === true || bar.business_hours_mode === '24hours' || !bar.business_hours_mode;
+}
+
+/**
+ * The exception covering a date, if any (the latest-starting one wins)
+ */
+export function getExceptionForDate(bar: BarBusinessHours, businessDate: string): BusinessHoursException | null {
+  const matches = (bar.business_hours_exceptions || []).filter(exception =>
+    exception?.date && exception.date <= businessDate && businessDate <= (exception.endDate || exception.date)
+  );
+  if (matches.length === 0) {
+    return null;
+  }
+  return matches.sort((a, b) => b.date.localeCompare(a.date))[0];
+}
+
+/**
+ * Regular (non-exception) hours for a date: null when closed
+ */
+function getRegularHours(
+  bar: BarBusinessHours,
+  businessDate: string
+): { openTime: string; closeTime: string; closeNextDay: boolean } | null {
+  if (isAlwaysOpen(bar)) {
+    return { openTime: '00:00', closeTime: '00:00', closeNextDay: true };
+  }
+
+  if (bar.business_hours_mode === 'simple') {
+    const simple = bar.business_hours_simple;
+    if (!simple || !isValidTime(simple.openTime) || !isValidTime(simple.closeTime)) {
+      // Misconfigured hours never lock customers out
+      return { openTime: '00:00', closeTime: '00:00', closeNextDay: true };
+    }
+    return { openTime: simple.openTime, closeTime: simple.closeTime, closeNextDay: !!simple.closeNextDay };
+  }
+
+  if (bar.business_hours_mode === 'advanced') {
+    const dayName = getDayName(businessDate);
+    const day = (bar.business_hours_advanced || []).find(entry => entry.day === dayName);
+    if (!day?.open || !isValidTime(day.openTime) || !isValidTime(day.closeTime)) {
+      return null;
+    }
+    return { openTime: day.openTime, closeTime: day.closeTime, closeNextDay: !!day.openNextDay };
+  }
+
+  return null;
+}
+
+/**
+ * The opening period that starts on a calendar date, after applying exceptions
+ * Returns null when the bar does not open that day.
+ */
+export function getOpeningPeriod(bar: BarBusinessHours, businessDate: string): OpeningPeriod | null {
+  const exception = getExceptionForDate(bar, businessDate);
+
+  let hours: { openTime: string; closeTime: string; closeNextDay: boolean } | null;
+  if (exception?.type === 'closed') {
+    hours = null;
+  } else if (exception?.type === 'special' && isValidTime(exception.openTime) && isValidTime(exception.closeTime)) {
+    hours = { openTime: exception.openTime, closeTime: exception.closeTime, closeNextDay: !!exception.closeNextDay };
+  } else {
+    hours = getRegularHours(bar, businessDate);
+  }
+
+  if (!hours) {
+    return null;
+  }
+
+  const overnight = isOvernight(hours.openTime, hours.closeTime, hours.closeNextDay);
+  return {
+    date: businessDate,
+    openTime: hours.openTime,
+    closeTime: hours.closeTime,
+    start: kenyaLocalToUtc(businessDate, hours.openTime),
+    end: kenyaLocalToUtc(overnight ? addDays(businessDate, 1) : businessDate, hours.closeTime),
+    exception
+  };
+}
+
+/**
+ * The opening period a moment falls in, checking the previous day's
+ * overnight spillover first
+ */
+export function getOpeningPeriodAt(bar: BarBusinessHours, at: Date = new Date()): OpeningPeriod | null {
+  const today = toKenyaDate(at);
+  const time = at.getTime();
+
+  for (const date of [addDays(today, -1), today]) {
+    const period = getOpeningPeriod(bar, date);
+    if (period && period.start.getTime() <= time && time < period.end.getTime()) {
+      return period;
+    }
+  }
+  return null;
+}
+
+export function isBarOpenAt(bar: BarBusinessHours, at: Date = new Date()): boolean {
+  try {
+    return getOpeningPeriodAt(bar, at) !== null;
+  } catch (error) {
+    console.error('Error checking business hours:', error);
+    return true; // Default to open on error
+  }
+}
+
+/**
+ * The next opening period to start after a moment
+ */
+export function getNextOpening(bar: BarBusinessHours, at: Date = new Date()): OpeningPeriod | null {
+  const today = toKenyaDate(at);
+
+  for (let offset = 0; offset <= NEXT_OPENING_SEARCH_DAYS; offset++) {
+    const period = getOpeningPeriod(bar, addDays(today, offset));
+    if (period && period.start.getTime() > at.getTime()) {
+      return period;
+    }
+  }
+  return null;
+}
+
+export function getBusinessHoursStatus(bar: BarBusinessHours, at: Date = new Date()): BusinessHoursStatus {
+  const current = getOpeningPeriodAt(bar, at);
+  const exception = getExceptionForDate(bar, toKenyaDate(at));
+
+  return {
+    isOpen: current !== null,
+    current,
+    next: current ? null : getNextOpening(bar, at),
+    closure: exception?.type === 'closed' ? exception : null
+  };
+}
+
+/**
+ * Whether an open tab with a balance should move to overdue
+ * A tab is overdue once the bar has closed, or once the opening period it was
+ * opened in has ended (e.g. a tab left open from last night).
+ */
+export function shouldTabBeOverdue(
+  bar: BarBusinessHours,
+  tab: { status: string; opened_at?: string | null },
+  balance: number,
+  at: Date = new Date()
+): boolean {
+  if (tab.status !== 'open' || !(balance > 0)) {
+    return false;
+  }
+
+  const current = getOpeningPeriodAt(bar, at);
+  if (!current) {
+    return true;
+  }
+  if (isAlwaysOpen(bar) && !current.exception) {
+    return false;
+  }
+
+  return !!tab.opened_at && new Date(tab.opened_at).getTime() < current.start.getTime();
+}
+
+/**
+ * The regular weekly schedule, Monday first, for display
+ */
+export function getWeeklyHours(bar: BarBusinessHours): WeeklyHoursEntry[] {
+  const order = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+  // Any date will do: pick the matching weekday in a fixed week (2024-01-01 was a Monday)
+  return order.map((day, index) => {
+    const hours = getRegularHours(bar, addDays('2024-01-01', index));
+    return {
+      day,
+      label: day.charAt(0).toUpperCase() + day.slice(1),
+      open: hours !== null,
+      openTime: hours?.openTime || '',
+      closeTime: hours?.closeTime || '',
+      closesNextDay: hours ? isOvernight(hours.openTime, hours.closeTime, hours.closeNextDay) : false
+    };
+  });
+}
+
+/**
+ * Check a list of exceptions before saving
+ * Returns the first problem found, or null when valid.
+ */
+export function validateBusinessHoursExceptions(exceptions: BusinessHoursException[]): string | null {
+  for (const exception of exceptions) {
+    if (!isValidBusinessDate(exception.date)) {
+      return `Invalid date: "${exception.date}"`;
+    }
+    if (exception.endDate && (!isValidBusinessDate(exception.endDate) || exception.endDate < exception.date)) {
+      return `End date must be on or after ${exception.date}`;
+    }
+    if (exception.type === 'special' && (!isValidTime(exception.openTime) || !isValidTime(exception.closeTime))) {
+      return `Special hours on ${exception.date} need an opening and closing time`;
+    }
+    if (exception.type !== 'closed' && exception.type !== 'special') {
+      return `Unknown exception type on ${exception.date}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,325 @@
+/**
+ * Card Payment Providers
+ * Pluggable hosted-checkout card processing, configured per bar (multi-tenant)
+ *
+ * Mirrors the M-Pesa model: each bar picks a provider and a sandbox or
+ * production environment, and its credentials are stored encrypted on the bars
+ * row as PostgreSQL bytea hex (see mpesa-encryption). The customer is sent to
+ * the provider's hosted checkout page; the provider then calls back with the
+ * result, which is written to tab_payments.
+ *
+ * Providers register themselves by name. The built-in 'mock' provider needs no
+ * credentials, only runs in sandbox and is meant for local testing.
+ */
+
+import crypto from 'crypto';
+import { decryptFromBytea } from './mpesa-encryption';
+
+export type CardEnvironment = 'sandbox' | 'production';
+
+export interface CardConfig {
+  provider: string;
+  environment: CardEnvironment;
+  merchantId: string;
+  apiKey: string;
+  webhookSecret: string;
+  callbackUrl: string;
+}
+
+export interface BarCardData {
+  card_enabled: boolean;
+  card_provider: string | null;
+  card_environment: string | null;
+  card_merchant_id: string | null;
+  card_api_key_encrypted: string | null;
+  card_webhook_secret_encrypted: string | null;
+}
+
+/** bars columns needed by loadCardConfigFromBar */
+export const BAR_CARD_COLUMNS =
+  'card_enabled, card_provider, card_environment, card_merchant_id, card_api_key_encrypted, card_webhook_secret_encrypted';
+
+export interface CardCheckoutRequest {
+  paymentId: string;
+  tabId: string;
+  /** Total charged to the card in KES, gratuity included */
+  amount: number;
+  description: string;
+  /** Where the hosted page sends the customer when they are done */
+  returnUrl: string;
+}
+
+export interface CardCheckoutSession {
+  /** Provider session id, stored as tab_payments.reference */
+  reference: string;
+  checkoutUrl: string;
+}
+
+export interface CardCallbackResult {
+  reference: string;
+  status: 'success' | 'failed';
+  transactionId?: string;
+  cardLast4?: string;
+  failureReason?: string;
+}
+
+/** Just enough of the Fetch Headers interface to read a signature */
+export interface CardCallbackHeaders {
+  get(name: string): string | null;
+}
+
+export interface CardPaymentProvider {
+  name: string;
+  label: string;
+  /** Whether bars must supply a merchant id, API key and webhook secret */
+  requiresCredentials: boolean;
+  createCheckoutSession(request: CardCheckoutRequest, config: CardConfig): Promise<CardCheckoutSession>;
+  /** Read a callback body; called before the bar (and so its secret) is known */
+  parseCallback(rawBody: string): CardCallbackResult;
+  /** Check the callback really came from the provider for this bar */
+  verifyCallback(rawBody: string, headers: CardCallbackHeaders, config: CardConfig): boolean;
+}
+
+export class CardConfigurationError extends Error {
+  constructor(message: string, public missingFields?: string[]) {
+    super(message);
+    this.name = 'CardConfigurationError';
+  }
+}
+
+export class CardPaymentError extends Error {
+  constructor(message: string, public statusCode: number = 400, public originalError?: any) {
+    super(message);
+    this.name = 'CardPaymentError';
+  }
+}
+
+const providers = new Map<string, CardPaymentProvider>();
+
+/**
+ * Make a provider available to bars (replaces any provider with the same name)
+ */
+export function registerCardProvider(provider: CardPaymentProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getCardProvider(name: string | null | undefined): CardPaymentProvider {
+  const provider = name ? providers.get(name) : undefined;
+  if (!provider) {
+    throw new CardConfigurationError(`Unknown card provider: "${name ?? ''}"`);
+  }
+  return provider;
+}
+
+/**
+ * Registered providers for settings screens
+ */
+export function listCardProviders(): Array<Pick<CardPaymentProvider, 'name' | 'label' | 'requiresCredentials'>> {
+  return Array.from(providers.values()).map(({ name, label, requiresCredentials }) => ({
+    name,
+    label,
+    requiresCredentials
+  }));
+}
+
+/**
+ * Global card callback URL (same for all tenants)
+ * The provider name is passed along so the callback route knows how to parse the body.
+ */
+export function getCardCallbackUrl(provider: string): string {
+  const baseUrl = process.env.CARD_CALLBACK_URL || 'https://app.tabeza.co.ke/api/payments/card/callback';
+  const url = new URL(baseUrl);
+  url.searchParams.set('provider', provider);
+  return url.toString();
+}
+
+/**
+ * HMAC-SHA256 signature of a raw callback body (hex)
+ */
+export function signCardCallback(rawBody: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest('hex');
+}
+
+function signaturesMatch(expected: string, received: string | null): boolean {
+  if (!received) return false;
+  const a = Buffer.from(expected, 'utf8');
+  const b = Buffer.from(received, 'utf8');
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Load and validate a bar's card configuration
+ * Throws CardConfigurationError with the missing fields when setup is incomplete.
+ */
+export function loadCardConfigFromBar(barData: BarCardData): CardConfig {
+  if (!barData.card_enabled) {
+    throw new CardConfigurationError('Card payments are not enabled for this bar');
+  }
+
+  if (!barData.card_provider) {
+    throw new CardConfigurationError('Missing required card configuration: card_provider', ['card_provider']);
+  }
+
+  const provider = getCardProvider(barData.card_provider);
+  const environment = validateEnvironment(barData.card_environment);
+  const callbackUrl = getCardCallbackUrl(provider.name);
+
+  if (!provider.requiresCredentials) {
+    if (environment === 'production') {
+      throw new CardConfigurationError(`The ${provider.label} provider cannot be used in production`);
+    }
+    if (!isMockCardProviderEnabled()) {
+      throw new CardConfigurationError(`The ${provider.label} provider is not enabled on this server`);
+    }
+    return {
+      provider: provider.name,
+      environment,
+      merchantId: barData.card_merchant_id || `${provider.name}_merchant`,
+      apiKey: '',
+      webhookSecret: MOCK_WEBHOOK_SECRET,
+      callbackUrl
+    };
+  }
+
+  const missingFields: string[] = [];
+  if (!barData.card_merchant_id) missingFields.push('card_merchant_id');
+  if (!barData.card_api_key_encrypted) missingFields.push('card_api_key_encrypted');
+  if (!barData.card_webhook_secret_encrypted) missingFields.push('card_webhook_secret_encrypted');
+
+  if (missingFields.length > 0) {
+    throw new CardConfigurationError(
+      `Missing required card configuration: ${missingFields.join(', ')}`,
+      missingFields
+    );
+  }
+
+  // Card credentials share the M-Pesa master key
+  if (!process.env.MPESA_KMS_KEY) {
+    throw new CardConfigurationError('MPESA_KMS_KEY environment variable is required for decryption');
+  }
+
+  let apiKey: string;
+  let webhookSecret: string;
+
+  try {
+    apiKey = decryptFromBytea(barData.card_api_key_encrypted!);
+    webhookSecret = decryptFromBytea(barData.card_webhook_secret_encrypted!);
+  } catch (error) {
+    throw new CardConfigurationError(
+      `Failed to decrypt card credentials: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  if (environment === 'production' && !callbackUrl.startsWith('https:')) {
+    throw new CardConfigurationError('CARD_CALLBACK_URL must use HTTPS in production environment');
+  }
+
+  return {
+    provider: provider.name,
+    environment,
+    merchantId: barData.card_merchant_id!,
+    apiKey,
+    webhookSecret,
+    callbackUrl
+  };
+}
+
+function validateEnvironment(env: string | null): CardEnvironment {
+  if (!env) {
+    throw new CardConfigurationError('Missing card_environment in bar configuration', ['card_environment']);
+  }
+
+  const normalizedEnv = env.toLowerCase();
+  if (normalizedEnv !== 'sandbox' && normalizedEnv !== 'production') {
+    throw new CardConfigurationError(
+      `Invalid card_environment: "${env}". Must be "sandbox" or "production"`
+    );
+  }
+
+  return normalizedEnv;
+}
+
+/**
+ * Check if card payments are usable for a specific bar
+ */
+export function isCardConfiguredForBar(barData: BarCardData): boolean {
+  try {
+    loadCardConfigFromBar(barData);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Mock provider
+
+/**
+ * Whether bars may take card payments through the mock provider on this server
+ * Never enable in production: mock checkouts mark real tabs paid.
+ */
+export function isMockCardProviderEnabled(): boolean {
+  return process.env.CARD_MOCK_ENABLED === 'true';
+}
+
+/** Well-known secret: mock callbacks are only trusted in sandbox */
+export const MOCK_WEBHOOK_SECRET = 'mock_card_webhook_secret';
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+/**
+ * Body the mock hosted checkout posts back to the callback route
+ */
+export function buildMockCardCallback(reference: string, approved: boolean): string {
+  const result: CardCallbackResult = approved
+    ? { reference, status: 'success', transactionId: `MOCKCARD${Date.now()}`, cardLast4: '4242' }
+    : { reference, status: 'failed', failureReason: 'Card declined' };
+  return JSON.stringify(result);
+}
+
+export const mockCardProvider: CardPaymentProvider = {
+  name: 'mock',
+  label: 'Mock (testing)',
+  requiresCredentials: false,
+
+  async createCheckoutSession(request, config) {
+    const reference = `mockcard_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+
+    // The mock checkout page is served by the same app as the callback route
+    const checkoutUrl = new URL('/payment/card/mock-checkout', config.callbackUrl);
+    checkoutUrl.searchParams.set('reference', reference);
+    checkoutUrl.searchParams.set('amount', request.amount.toString());
+    checkoutUrl.searchParams.set('returnUrl', request.returnUrl);
+
+    return { reference, checkoutUrl: checkoutUrl.toString() };
+  },
+
+  parseCallback(rawBody) {
+    let body: any;
+    try {
+      body = JSON.parse(rawBody);
+    } catch (error) {
+      throw new CardPaymentError('Invalid JSON in card callback', 400, error);
+    }
+
+    if (!body || typeof body.reference !== 'string' || !body.reference) {
+      throw new CardPaymentError('Card callback is missing reference');
+    }
+    if (body.status !== 'success' && body.status !== 'failed') {
+      throw new CardPaymentError('Card callback status must be success or failed');
+    }
+
+    return {
+      reference: body.reference,
+      status: body.status,
+      transactionId: body.transactionId,
+      cardLast4: body.cardLast4,
+      failureReason: body.failureReason
+    };
+  },
+
+  verifyCallback(rawBody, headers, config) {
+    return signaturesMatch(signCardCallback(rawBody, config.webhookSecret), headers.get(MOCK_SIGNATURE_HEADER));
+  }
+};
+
+registerCardProvider(mockCardProvider);
@@ -0,0 +1,415 @@
+/**
+ * Cash Drawer Service
+ * Staff open a shift with a float; cash they take on tabs is recorded under
+ * it (`tab_payments.cash_shift_id`). At close they count the drawer by
+ * denomination and the shift is reconciled: expected cash is the float plus
+ * recorded cash, and the count is over or short against it. M-Pesa taken at
+ * the bar during the shift is reported alongside for the handover.
+ *
+ * Requires a service-role client: callers are authorized here, not by RLS.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { loadAuthorizedTab, type TabRequester } from './tab-details';
+
+export type CashShiftStatus = 'open' | 'closed';
+
+/** Count of each note or coin, keyed by its face value in KES */
+export type CashDenominationCounts = Record<string, number>;
+
+export interface CashShift {
+  id: string;
+  bar_id: string;
+  opened_by: string;
+  opening_float: number;
+  status: CashShiftStatus;
+  opened_at: string;
+  closed_by: string | null;
+  closed_at: string | null;
+  counted_denominations: CashDenominationCounts | null;
+  counted_cash: number | null;
+  cash_total: number | null;
+  cash_count: number | null;
+  mpesa_total: number | null;
+  mpesa_count: number | null;
+  expected_cash: number | null;
+  over_short: number | null;
+  notes: string | null;
+}
+
+export interface CashShiftTotals {
+  openingFloat: number;
+  cashTotal: number;
+  cashCount: number;
+  mpesaTotal: number;
+  mpesaCount: number;
+  expectedCash: number;
+  /** Null until the drawer has been counted */
+  countedCash: number | null;
+  /** countedCash - expectedCash: positive is over, negative is short */
+  overShort: number | null;
+}
+
+/** A shift with its totals: fixed at close, or live while it is open */
+export interface CashShiftReport {
+  shift: CashShift;
+  totals: CashShiftTotals;
+}
+
+export interface ShiftPayment {
+  amount: number | string;
+  tip_amount?: number | string | null;
+  service_charge_amount?: number | string | null;
+}
+
+export interface CloseCashShiftInput {
+  denominations: CashDenominationCounts;
+  notes?: string | null;
+}
+
+export class CashDrawerError extends Error {
+  constructor(message: string, public statusCode: number = 400, public originalError?: any) {
+    super(message);
+    this.name = 'CashDrawerError';
+  }
+}
+
+/** Kenyan notes and coins, largest first */
+export const KES_DENOMINATIONS = [1000, 500, 200, 100, 50, 20, 10, 5, 1];
+
+const MAX_CASH_PAYMENT = 999999;
+const MAX_NOTES_LENGTH = 500;
+
+const SHIFT_COLUMNS = `
+  id, bar_id, opened_by, opening_float, status, opened_at, closed_by, closed_at,
+  counted_denominations, counted_cash, cash_total, cash_count, mpesa_total, mpesa_count,
+  expected_cash, over_short, notes
+`;
+
+function toCents(amount: number | string | null | undefined): number {
+  const value = typeof amount === 'string' ? parseFloat(amount) : amount ?? 0;
+  return isNaN(value) ? 0 : Math.round(value * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+function cleanNotes(notes: string | null | undefined): string | null {
+  const trimmed = (notes || '').trim();
+  if (trimmed.length > MAX_NOTES_LENGTH) {
+    throw new CashDrawerError(`Notes cannot exceed ${MAX_NOTES_LENGTH} characters`);
+  }
+  return trimmed || null;
+}
+
+/**
+ * Validate a denomination count and total it
+ * Unknown denominations and negative or fractional counts are rejected; zero counts are dropped.
+ */
+export function countDenominations(counts: any): { denominations: CashDenominationCounts; total: number } {
+  if (!counts || typeof counts !== 'object' || Array.isArray(counts)) {
+    throw new CashDrawerError('Denomination counts are required');
+  }
+
+  const denominations: CashDenominationCounts = {};
+  let total = 0;
+
+  Object.entries(counts).forEach(([denomination, rawCount]) => {
+    const value = Number(denomination);
+    if (!KES_DENOMINATIONS.includes(value)) {
+      throw new CashDrawerError(`Unknown denomination: ${denomination}`);
+    }
+    const count = rawCount === '' || rawCount === null || rawCount === undefined ? 0 : Number(rawCount);
+    if (!Number.isInteger(count) || count < 0) {
+      throw new CashDrawerError(`Count for KES ${value} must be a whole number of 0 or more`);
+    }
+    if (count > 0) {
+      denominations[String(value)] = count;
+      total += value * count;
+    }
+  });
+
+  return { denominations, total };
+}
+
+/**
+ * Reconcile a shift: expected cash is the float plus everything taken in cash
+ * (tips and service charge included, since they sit in the same drawer)
+ */
+export function summarizeCashShift(
+  openingFloat: number | string,
+  cashPayments: ShiftPayment[],
+  mpesaPayments: ShiftPayment[],
+  countedCash: number | null = null
+): CashShiftTotals {
+  const charged = (payment: ShiftPayment) =>
+    toCents(payment.amount) + toCents(payment.tip_amount) + toCents(payment.service_charge_amount);
+
+  const floatCents = toCents(openingFloat);
+  const cashCents = cashPayments.reduce((sum, payment) => sum + charged(payment), 0);
+  const mpesaCents = mpesaPayments.reduce((sum, payment) => sum + charged(payment), 0);
+  const expectedCents = floatCents + cashCents;
+
+  return {
+    openingFloat: fromCents(floatCents),
+    cashTotal: fromCents(cashCents),
+    cashCount: cashPayments.length,
+    mpesaTotal: fromCents(mpesaCents),
+    mpesaCount: mpesaPayments.length,
+    expectedCash: fromCents(expectedCents),
+    countedCash,
+    overShort: countedCash === null ? null : fromCents(toCents(countedCash) - expectedCents)
+  };
+}
+
+function storedTotals(shift: CashShift): CashShiftTotals {
+  return {
+    openingFloat: Number(shift.opening_float),
+    cashTotal: Number(shift.cash_total) || 0,
+    cashCount: shift.cash_count || 0,
+    mpesaTotal: Number(shift.mpesa_total) || 0,
+    mpesaCount: shift.mpesa_count || 0,
+    expectedCash: Number(shift.expected_cash) || 0,
+    countedCash: shift.counted_cash === null ? null : Number(shift.counted_cash),
+    overShort: shift.over_short === null ? null : Number(shift.over_short)
+  };
+}
+
+async function loadShift(supabase: SupabaseClient, shiftId: string): Promise<CashShift> {
+  const { data, error } = await supabase
+    .from('cash_drawer_shifts')
+    .select(SHIFT_COLUMNS)
+    .eq('id', shiftId)
+    .maybeSingle();
+
+  if (error) {
+    throw new CashDrawerError(`Failed to load shift: ${error.message}`, 500, error);
+  }
+  if (!data) {
+    throw new CashDrawerError('Shift not found', 404);
+  }
+  return data as CashShift;
+}
+
+/**
+ * Recorded cash under the shift and the bar's M-Pesa payments while it was open
+ */
+async function loadShiftTotals(supabase: SupabaseClient, shift: CashShift, until: string, countedCash: number | null = null): Promise<CashShiftTotals> {
+  const [cashResult, mpesaResult] = await Promise.all([
+    supabase
+      .from('tab_payments')
+      .select('amount, tip_amount, service_charge_amount')
+      .eq('cash_shift_id', shift.id)
+      .eq('method', 'cash')
+      .eq('status', 'success'),
+    supabase
+      .from('tab_payments')
+      .select('amount, tip_amount, service_charge_amount, tabs!inner(bar_id)')
+      .eq('tabs.bar_id', shift.bar_id)
+      .eq('method', 'mpesa')
+      .eq('status', 'success')
+      .gte('created_at', shift.opened_at)
+      .lt('created_at', until)
+  ]);
+
+  const failed = [cashResult, mpesaResult].find(result => result.error);
+  if (failed?.error) {
+    throw new CashDrawerError(`Failed to load shift payments: ${failed.error.message}`, 500, failed.error);
+  }
+
+  return summarizeCashShift(
+    shift.opening_float,
+    (cashResult.data || []) as ShiftPayment[],
+    (mpesaResult.data || []) as ShiftPayment[],
+    countedCash
+  );
+}
+
+/**
+ * The staff member's open shift at a bar, if any
+ */
+export async function getOpenCashShift(supabase: SupabaseClient, barId: string, userId: string): Promise<CashShift | null> {
+  const { data, error } = await supabase
+    .from('cash_drawer_shifts')
+    .select(SHIFT_COLUMNS)
+    .eq('bar_id', barId)
+    .eq('opened_by', userId)
+    .eq('status', 'open')
+    .maybeSingle();
+
+  if (error) {
+    throw new CashDrawerError(`Failed to load open shift: ${error.message}`, 500, error);
+  }
+  return (data as CashShift | null) || null;
+}
+
+/**
+ * A shift with its totals; an open shift's totals are worked out up to now
+ */
+export async function getCashShiftReport(supabase: SupabaseClient, shiftId: string, now: Date = new Date()): Promise<CashShiftReport> {
+  const shift = await loadShift(supabase, shiftId);
+  const totals = shift.status === 'closed' ? storedTotals(shift) : await loadShiftTotals(supabase, shift, now.toISOString());
+  return { shift, totals };
+}
+
+/**
+ * A bar's most recent shifts, newest first
+ */
+export async function listCashShifts(supabase: SupabaseClient, barId: string, limit: number = 30): Promise<CashShiftReport[]> {
+  const { data, error } = await supabase
+    .from('cash_drawer_shifts')
+    .select(SHIFT_COLUMNS)
+    .eq('bar_id', barId)
+    .order('opened_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new CashDrawerError(`Failed to load shifts: ${error.message}`, 500, error);
+  }
+
+  const now = new Date().toISOString();
+  return Promise.all(((data || []) as CashShift[]).map(async shift => ({
+    shift,
+    totals: shift.status === 'closed' ? storedTotals(shift) : await loadShiftTotals(supabase, shift, now)
+  })));
+}
+
+/**
+ * Open a drawer for a staff member with the float they start with
+ */
+export async function openCashShift(
+  supabase: SupabaseClient,
+  barId: string,
+  userId: string,
+  openingFloat: number,
+  notes?: string | null
+): Promise<CashShift> {
+  if (typeof openingFloat !== 'number' || isNaN(openingFloat) || openingFloat < 0) {
+    throw new CashDrawerError('Opening float must be 0 or more');
+  }
+
+  const { data, error } = await supabase
+    .from('cash_drawer_shifts')
+    .insert({
+      bar_id: barId,
+      opened_by: userId,
+      opening_float: fromCents(toCents(openingFloat)),
+      notes: cleanNotes(notes)
+    })
+    .select(SHIFT_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new CashDrawerError('You already have an open shift; close it before opening another', 409, error);
+    }
+    throw new CashDrawerError(`Failed to open shift: ${error.message}`, 500, error);
+  }
+
+  return data as CashShift;
+}
+
+/**
+ * Record cash taken on a tab, under the staff member's open shift when they have one
+ */
+export async function recordCashPayment(
+  supabase: SupabaseClient,
+  tabId: string,
+  requester: TabRequester,
+  amount: number
+): Promise<{ payment: Record<string, any>; shift: CashShift | null }> {
+  if (requester.type !== 'staff') {
+    throw new CashDrawerError('Only staff can record cash payments', 403);
+  }
+  if (typeof amount !== 'number' || isNaN(amount) || amount <= 0) {
+    throw new CashDrawerError('Amount must be a positive number');
+  }
+  if (amount > MAX_CASH_PAYMENT) {
+    throw new CashDrawerError('Amount cannot exceed 999,999 KES');
+  }
+
+  const tab = await loadAuthorizedTab(supabase, tabId, requester);
+  if (tab.status !== 'open' && tab.status !== 'overdue') {
+    throw new CashDrawerError('Payments can only be recorded on open or overdue tabs', 409);
+  }
+
+  const shift = await getOpenCashShift(supabase, tab.bar_id, requester.userId);
+
+  const { data: payment, error } = await supabase
+    .from('tab_payments')
+    .insert({
+      tab_id: tabId,
+      amount: fromCents(toCents(amount)),
+      method: 'cash',
+      status: 'success',
+      reference: `CASH_${Date.now()}`,
+      cash_shift_id: shift?.id ?? null
+    })
+    .select()
+    .single();
+
+  if (error || !payment) {
+    throw new CashDrawerError(`Failed to record cash payment: ${error?.message}`, 500, error);
+  }
+
+  return { payment, shift };
+}
+
+/**
+ * Close a drawer with its counted denominations and fix its totals
+ * Only the staff member who opened it may close it, unless allowed to close others'.
+ */
+export async function closeCashShift(
+  supabase: SupabaseClient,
+  barId: string,
+  shiftId: string,
+  closedBy: string,
+  input: CloseCashShiftInput,
+  canCloseOthers: boolean = false,
+  now: Date = new Date()
+): Promise<CashShiftReport> {
+  const shift = await loadShift(supabase, shiftId);
+  if (shift.bar_id !== barId) {
+    throw new CashDrawerError('Shift not found', 404);
+  }
+  if (shift.status !== 'open') {
+    throw new CashDrawerError('This shift is already closed', 409);
+  }
+  if (shift.opened_by !== closedBy && !canCloseOthers) {
+    throw new CashDrawerError('Only the staff member who opened this shift or a manager can close it', 403);
+  }
+
+  const { denominations, total } = countDenominations(input.denominations);
+  const closedAt = now.toISOString();
+  const totals = await loadShiftTotals(supabase, shift, closedAt, total);
+
+  const { data: closed, error } = await supabase
+    .from('cash_drawer_shifts')
+    .update({
+      status: 'closed',
+      closed_by: closedBy,
+      closed_at: closedAt,
+      counted_denominations: denominations,
+      counted_cash: total,
+      cash_total: totals.cashTotal,
+      cash_count: totals.cashCount,
+      mpesa_total: totals.mpesaTotal,
+      mpesa_count: totals.mpesaCount,
+      expected_cash: totals.expectedCash,
+      over_short: totals.overShort,
+      notes: input.notes === undefined ? shift.notes : cleanNotes(input.notes)
+    })
+    .eq('id', shift.id)
+    .eq('status', 'open')
+    .select(SHIFT_COLUMNS);
+
+  if (error) {
+    throw new CashDrawerError(`Failed to close shift: ${error.message}`, 500, error);
+  }
+  if (!closed || closed.length === 0) {
+    throw new CashDrawerError('This shift is already closed', 409);
+  }
+
+  return { shift: closed[0] as CashShift, totals };
+}
@@ -0,0 +1,523 @@
+/**
+ * Daily Z-Report Service
+ * Builds the end-of-night report for a bar from the database, using the bar's
+ * business-hours window (not calendar midnight) to decide which business day
+ * a tab, order or payment belongs to.
+ *
+ * This is the single source of truth for the staff reports page and any
+ * printer integration - both consume the JSON produced here.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  BUSINESS_HOURS_COLUMNS,
+  addDays,
+  getOpeningPeriod,
+  isValidBusinessDate,
+  kenyaLocalToUtc,
+  toKenyaDate,
+  type BarBusinessHours
+} from './business-hours';
+import { MAIN_TILL_NAME } from './mpesa-tills';
+
+// Hours types and helpers moved to the business-hours service; re-exported for existing callers
+export {
+  KENYA_UTC_OFFSET_MINUTES,
+  isValidBusinessDate,
+  type AdvancedDayHours,
+  type BarBusinessHours,
+  type SimpleBusinessHours
+} from './business-hours';
+
+export interface BusinessDayWindow {
+  businessDate: string;
+  start: string;
+  end: string;
+}
+
+export type ReportPaymentMethod = 'mpesa' | 'cash' | 'cards';
+
+export interface DailyReportTab {
+  id: string;
+  tab_number: number;
+  status: string;
+  notes?: string | null;
+  opened_at: string;
+  closed_at?: string | null;
+  moved_to_overdue_at?: string | null;
+}
+
+export interface DailyReportOrder {
+  id: string;
+  tab_id: string;
+  total: number | string;
+  status: string;
+  created_at: string;
+}
+
+export interface DailyReportPayment {
+  id: string;
+  tab_id: string;
+  amount: number | string;
+  tip_amount?: number | string | null;
+  service_charge_amount?: number | string | null;
+  method: string;
+  status: string;
+  /** The M-Pesa till the payment went through; null for the bar's own shortcode */
+  mpesa_till_id?: string | null;
+  created_at: string;
+}
+
+export interface DailyReportTill {
+  id: string;
+  name: string;
+}
+
+export interface DailyReportCashShift {
+  id: string;
+  opened_by: string;
+  opened_at: string;
+  closed_at: string | null;
+  opening_float: number | string;
+  cash_total: number | string | null;
+  mpesa_total: number | string | null;
+  expected_cash: number | string | null;
+  counted_cash: number | string | null;
+  over_short: number | string | null;
+}
+
+export interface DailyReportWriteOff {
+  id: string;
+  tab_id: string;
+  amount: number | string;
+  reason?: string | null;
+  created_at: string;
+}
+
+export interface DailyReportBalance {
+  tab_id: string;
+  tab_number: number;
+  status: string;
+  balance: number | string;
+}
+
+export interface DailyReportInput {
+  barId: string;
+  barName: string;
+  window: BusinessDayWindow;
+  tabs: DailyReportTab[];
+  orders: DailyReportOrder[];
+  payments: DailyReportPayment[];
+  writeOffs: DailyReportWriteOff[];
+  balances: DailyReportBalance[];
+  tills?: DailyReportTill[];
+  cashShifts?: DailyReportCashShift[];
+  generatedAt?: string;
+}
+
+export interface DailyReport {
+  barId: string;
+  barName: string;
+  businessDate: string;
+  window: { start: string; end: string };
+  generatedAt: string;
+  tabs: {
+    opened: number;
+    closed: number;
+    overdue: number;
+  };
+  orders: {
+    count: number;
+    cancelled: number;
+    gross: number;
+  };
+  payments: {
+    byMethod: Record<ReportPaymentMethod, { count: number; amount: number }>;
+    total: number;
+    /** Gratuity collected on top of `total`; not applied to tab balances */
+    tips: { count: number; amount: number };
+    serviceCharges: { count: number; amount: number };
+    /** M-Pesa payments per till, largest first */
+    byTill: Array<{ tillId: string | null; name: string; count: number; amount: number }>;
+  };
+  /** Cash drawer shifts closed within the day, oldest first */
+  cashShifts: {
+    count: number;
+    expected: number;
+    counted: number;
+    overShort: number;
+    shifts: Array<{
+      shiftId: string;
+      openedBy: string;
+      openedAt: string;
+      closedAt: string;
+      openingFloat: number;
+      cashTotal: number;
+      mpesaTotal: number;
+      expected: number;
+      counted: number;
+      overShort: number;
+    }>;
+  };
+  writeOffs: {
+    count: number;
+    amount: number;
+  };
+  outstanding: {
+    tabCount: number;
+    amount: number;
+    tabs: Array<{ tabId: string; tabNumber: number; status: string; balance: number }>;
+  };
+}
+
+export class DailyReportError extends Error {
+  constructor(message: string, public statusCode: number = 500, public originalError?: any) {
+    super(message);
+    this.name = 'DailyReportError';
+  }
+}
+
+/**
+ * Get the Kenya wall-clock time at which a business day starts
+ * - the opening time of the period that starts that day (after exceptions)
+ * - on a closed day, the previous night's closing time if it spilled over
+ * - otherwise midnight (24hours / unconfigured bars open at midnight)
+ */
+function getBusinessDayStartTime(bar: BarBusinessHours, businessDate: string): string {
+  const today = getOpeningPeriod(bar, businessDate);
+  if (today) {
+    return today.openTime;
+  }
+
+  const yesterday = getOpeningPeriod(bar, addDays(businessDate, -1));
+  if (yesterday && yesterday.end.getTime() > kenyaLocalToUtc(businessDate, '00:00').getTime()) {
+    return yesterday.closeTime;
+  }
+
+  return '00:00';
+}
+
+/**
+ * Get the UTC window covered by a business day
+ * A business day runs from its own start until the next business day's start,
+ * so an overnight shift (e.g. 18:00 - 04:00) lands entirely on the day it opened
+ * and consecutive windows never overlap or leave gaps.
+ */
+export function getBusinessDayWindow(bar: BarBusinessHours, businessDate: string): BusinessDayWindow {
+  if (!isValidBusinessDate(businessDate)) {
+    throw new DailyReportError(`Invalid business date: "${businessDate}". Expected YYYY-MM-DD`, 400);
+  }
+
+  const nextDate = addDays(businessDate, 1);
+  const start = kenyaLocalToUtc(businessDate, getBusinessDayStartTime(bar, businessDate));
+  const end = kenyaLocalToUtc(nextDate, getBusinessDayStartTime(bar, nextDate));
+
+  return {
+    businessDate,
+    start: start.toISOString(),
+    end: end.toISOString()
+  };
+}
+
+/**
+ * Get the business date a moment belongs to (defaults to now)
+ */
+export function getCurrentBusinessDate(bar: BarBusinessHours, at: Date = new Date()): string {
+  const kenyaDate = toKenyaDate(at);
+  const window = getBusinessDayWindow(bar, kenyaDate);
+
+  return at.getTime() < new Date(window.start).getTime() ? addDays(kenyaDate, -1) : kenyaDate;
+}
+
+function isWithinWindow(timestamp: string | null | undefined, window: BusinessDayWindow): boolean {
+  if (!timestamp) return false;
+  const time = new Date(timestamp).getTime();
+  return time >= new Date(window.start).getTime() && time < new Date(window.end).getTime();
+}
+
+function toAmount(value: number | string | null | undefined): number {
+  const amount = typeof value === 'string' ? parseFloat(value) : value ?? 0;
+  return isNaN(amount) ? 0 : amount;
+}
+
+function toReportMethod(method: string): ReportPaymentMethod | null {
+  if (method === 'mpesa' || method === 'cash') return method;
+  // tab_payments stores 'card' while the app-level PaymentMethod uses 'cards'
+  if (method === 'card' || method === 'cards') return 'cards';
+  return null;
+}
+
+/**
+ * What each tab still owed when the business day ended
+ * Tabs opened before the end and not closed by then count, with orders and
+ * successful payments made up to the end, so a report run days later shows
+ * the same outstanding figure as one run at closing time. Order statuses are
+ * taken as they are now: a later cancellation still drops the order.
+ */
+export function getBalancesAtWindowEnd(
+  tabs: DailyReportTab[],
+  orders: DailyReportOrder[],
+  payments: DailyReportPayment[],
+  window: BusinessDayWindow
+): DailyReportBalance[] {
+  const end = new Date(window.end).getTime();
+  const before = (timestamp: string | null | undefined) => !!timestamp && new Date(timestamp).getTime() < end;
+  const balances = new Map<string, number>();
+
+  orders
+    .filter(order => (order.status === 'confirmed' || order.status === 'served') && before(order.created_at))
+    .forEach(order => balances.set(order.tab_id, (balances.get(order.tab_id) || 0) + toAmount(order.total)));
+  payments
+    .filter(payment => payment.status === 'success' && before(payment.created_at))
+    .forEach(payment => balances.set(payment.tab_id, (balances.get(payment.tab_id) || 0) - toAmount(payment.amount)));
+
+  return tabs
+    .filter(tab => before(tab.opened_at) && !before(tab.closed_at))
+    .map(tab => ({
+      tab_id: tab.id,
+      tab_number: tab.tab_number,
+      status: before(tab.moved_to_overdue_at) ? 'overdue' : 'open',
+      balance: Math.round((balances.get(tab.id) || 0) * 100) / 100
+    }));
+}
+
+/**
+ * Aggregate loaded rows into a daily report
+ * Rows outside the business-day window are ignored, so callers may over-fetch.
+ */
+export function buildDailyReport(input: DailyReportInput): DailyReport {
+  const { window } = input;
+
+  const opened = input.tabs.filter(tab => isWithinWindow(tab.opened_at, window)).length;
+  const closed = input.tabs.filter(tab => tab.status === 'closed' && isWithinWindow(tab.closed_at, window)).length;
+  const overdue = input.tabs.filter(tab => isWithinWindow(tab.moved_to_overdue_at, window)).length;
+
+  const dayOrders = input.orders.filter(order => isWithinWindow(order.created_at, window));
+  const billableOrders = dayOrders.filter(order => order.status === 'confirmed' || order.status === 'served');
+
+  const byMethod: DailyReport['payments']['byMethod'] = {
+    mpesa: { count: 0, amount: 0 },
+    cash: { count: 0, amount: 0 },
+    cards: { count: 0, amount: 0 }
+  };
+
+  const tips = { count: 0, amount: 0 };
+  const serviceCharges = { count: 0, amount: 0 };
+  const tillNames = new Map((input.tills || []).map(till => [till.id, till.name]));
+  const byTill = new Map<string, DailyReport['payments']['byTill'][number]>();
+
+  input.payments
+    .filter(payment => payment.status === 'success' && isWithinWindow(payment.created_at, window))
+    .forEach(payment => {
+      const method = toReportMethod(payment.method);
+      if (!method) return;
+      byMethod[method].count += 1;
+      byMethod[method].amount += toAmount(payment.amount);
+
+      if (method === 'mpesa') {
+        const tillId = payment.mpesa_till_id || null;
+        const key = tillId || 'main';
+        const till = byTill.get(key) || {
+          tillId,
+          name: tillId ? tillNames.get(tillId) || 'Removed till' : MAIN_TILL_NAME,
+          count: 0,
+          amount: 0
+        };
+        till.count += 1;
+        till.amount += toAmount(payment.amount);
+        byTill.set(key, till);
+      }
+
+      const tip = toAmount(payment.tip_amount);
+      if (tip > 0) {
+        tips.count += 1;
+        tips.amount += tip;
+      }
+      const serviceCharge = toAmount(payment.service_charge_amount);
+      if (serviceCharge > 0) {
+        serviceCharges.count += 1;
+        serviceCharges.amount += serviceCharge;
+      }
+    });
+
+  const cashShifts = (input.cashShifts || [])
+    .filter(shift => isWithinWindow(shift.closed_at, window))
+    .map(shift => ({
+      shiftId: shift.id,
+      openedBy: shift.opened_by,
+      openedAt: shift.opened_at,
+      closedAt: shift.closed_at as string,
+      openingFloat: toAmount(shift.opening_float),
+      cashTotal: toAmount(shift.cash_total),
+      mpesaTotal: toAmount(shift.mpesa_total),
+      expected: toAmount(shift.expected_cash),
+      counted: toAmount(shift.counted_cash),
+      overShort: toAmount(shift.over_short)
+    }))
+    .sort((a, b) => a.closedAt.localeCompare(b.closedAt));
+
+  const dayWriteOffs = input.writeOffs.filter(writeOff => isWithinWindow(writeOff.created_at, window));
+
+  const outstandingTabs = input.balances
+    .filter(row => (row.status === 'open' || row.status === 'overdue') && toAmount(row.balance) > 0)
+    .map(row => ({
+      tabId: row.tab_id,
+      tabNumber: row.tab_number,
+      status: row.status,
+      balance: toAmount(row.balance)
+    }))
+    .sort((a, b) => b.balance - a.balance);
+
+  return {
+    barId: input.barId,
+    barName: input.barName,
+    businessDate: window.businessDate,
+    window: { start: window.start, end: window.end },
+    generatedAt: input.generatedAt || new Date().toISOString(),
+    tabs: { opened, closed, overdue },
+    orders: {
+      count: billableOrders.length,
+      cancelled: dayOrders.filter(order => order.status === 'cancelled').length,
+      gross: billableOrders.reduce((sum, order) => sum + toAmount(order.total), 0)
+    },
+    payments: {
+      byMethod,
+      total: byMethod.mpesa.amount + byMethod.cash.amount + byMethod.cards.amount,
+      tips,
+      serviceCharges,
+      byTill: Array.from(byTill.values()).sort((a, b) => b.amount - a.amount)
+    },
+    cashShifts: {
+      count: cashShifts.length,
+      expected: cashShifts.reduce((sum, shift) => sum + shift.expected, 0),
+      counted: cashShifts.reduce((sum, shift) => sum + shift.counted, 0),
+      overShort: cashShifts.reduce((sum, shift) => sum + shift.overShort, 0),
+      shifts: cashShifts
+    },
+    writeOffs: {
+      count: dayWriteOffs.length,
+      amount: dayWriteOffs.reduce((sum, writeOff) => sum + toAmount(writeOff.amount), 0)
+    },
+    outstanding: {
+      tabCount: outstandingTabs.length,
+      amount: outstandingTabs.reduce((sum, tab) => sum + tab.balance, 0),
+      tabs: outstandingTabs
+    }
+  };
+}
+
+/**
+ * Load everything needed for a bar's business day and build the report
+ * Requires a service-role client: reads span tabs, orders, payments and write-offs.
+ */
+export async function generateDailyReport(
+  supabase: SupabaseClient,
+  barId: string,
+  businessDate?: string
+): Promise<DailyReport> {
+  if (!barId) {
+    throw new DailyReportError('Bar ID is required', 400);
+  }
+
+  const { data: bar, error: barError } = await supabase
+    .from('bars')
+    .select(`id, name, ${BUSINESS_HOURS_COLUMNS}`)
+    .eq('id', barId)
+    .single();
+
+  if (barError || !bar) {
+    throw new DailyReportError(`Bar not found: ${barId}`, 404, barError);
+  }
+
+  const window = getBusinessDayWindow(bar as BarBusinessHours, businessDate || getCurrentBusinessDate(bar as BarBusinessHours));
+  const inWindow = (column: string) => `and(${column}.gte.${window.start},${column}.lt.${window.end})`;
+
+  const [tabsResult, ordersResult, paymentsResult, writeOffsResult, unclosedTabsResult, tillsResult, cashShiftsResult] = await Promise.all([
+    supabase
+      .from('tabs')
+      .select('id, tab_number, status, notes, opened_at, closed_at, moved_to_overdue_at')
+      .eq('bar_id', barId)
+      .or(['opened_at', 'closed_at', 'moved_to_overdue_at'].map(inWindow).join(',')),
+    supabase
+      .from('tab_orders')
+      .select('id, tab_id, total, status, created_at, tabs!inner(bar_id)')
+      .eq('tabs.bar_id', barId)
+      .gte('created_at', window.start)
+      .lt('created_at', window.end),
+    supabase
+      .from('tab_payments')
+      .select('id, tab_id, amount, tip_amount, service_charge_amount, method, status, mpesa_till_id, created_at, tabs!inner(bar_id)')
+      .eq('tabs.bar_id', barId)
+      .gte('created_at', window.start)
+      .lt('created_at', window.end),
+    supabase
+      .from('tab_write_offs')
+      .select('id, tab_id, amount, reason, created_at')
+      .eq('bar_id', barId)
+      .gte('created_at', window.start)
+      .lt('created_at', window.end),
+    // Tabs still unpaid when the day ended, whatever has happened to them since
+    supabase
+      .from('tabs')
+      .select('id, tab_number, status, opened_at, closed_at, moved_to_overdue_at')
+      .eq('bar_id', barId)
+      .lt('opened_at', window.end)
+      .or(`closed_at.is.null,closed_at.gte.${window.end}`),
+    supabase
+      .from('bar_mpesa_tills')
+      .select('id, name')
+      .eq('bar_id', barId),
+    supabase
+      .from('cash_drawer_shifts')
+      .select('id, opened_by, opened_at, closed_at, opening_float, cash_total, mpesa_total, expected_cash, counted_cash, over_short')
+      .eq('bar_id', barId)
+      .eq('status', 'closed')
+      .gte('closed_at', window.start)
+      .lt('closed_at', window.end)
+  ]);
+
+  const failed = [tabsResult, ordersResult, paymentsResult, writeOffsResult, unclosedTabsResult, tillsResult, cashShiftsResult].find(result => result.error);
+  if (failed?.error) {
+    throw new DailyReportError(`Failed to load daily report data: ${failed.error.message}`, 500, failed.error);
+  }
+
+  const unclosedTabs = (unclosedTabsResult.data || []) as DailyReportTab[];
+  const unclosedTabIds = unclosedTabs.map(tab => tab.id);
+  const [balanceOrdersResult, balancePaymentsResult] = unclosedTabIds.length === 0
+    ? [{ data: [], error: null }, { data: [], error: null }]
+    : await Promise.all([
+        supabase
+          .from('tab_orders')
+          .select('id, tab_id, total, status, created_at')
+          .in('tab_id', unclosedTabIds)
+          .lt('created_at', window.end),
+        supabase
+          .from('tab_payments')
+          .select('id, tab_id, amount, method, status, created_at')
+          .in('tab_id', unclosedTabIds)
+          .lt('created_at', window.end)
+      ]);
+
+  const balanceFailed = [balanceOrdersResult, balancePaymentsResult].find(result => result.error);
+  if (balanceFailed?.error) {
+    throw new DailyReportError(`Failed to load outstanding balances: ${balanceFailed.error.message}`, 500, balanceFailed.error);
+  }
+
+  return buildDailyReport({
+    barId,
+    barName: bar.name,
+    window,
+    tabs: (tabsResult.data || []) as DailyReportTab[],
+    orders: (ordersResult.data || []) as DailyReportOrder[],
+    payments: (paymentsResult.data || []) as DailyReportPayment[],
+    writeOffs: (writeOffsResult.data || []) as DailyReportWriteOff[],
+    balances: getBalancesAtWindowEnd(
+      unclosedTabs,
+      (balanceOrdersResult.data || []) as DailyReportOrder[],
+      (balancePaymentsResult.data || []) as DailyReportPayment[],
+      window
+    ),
+    tills: (tillsResult.data || []) as DailyReportTill[],
+    cashShifts: (cashShiftsResult.data || []) as DailyReportCashShift[]
+  });
+}
@@ -0,0 +1,476 @@
+/**
+ * KRA eTIMS Tax Invoices
+ * Tax classes for menu items, VAT for tax-inclusive or tax-exclusive pricing,
+ * and the eTIMS sale payload a closed tab's receipt is filed with.
+ *
+ * Submission goes through a pluggable adapter chosen per bar, the same way
+ * card providers are. The built-in 'stub' adapter stands in for a KRA control
+ * unit: it signs the invoice locally so receipts carry realistic control and
+ * QR data, but nothing is filed with KRA.
+ */
+
+import { createHash } from 'crypto';
+import { formatKenyaTime } from './kenya-time';
+
+export type TaxClass = 'vat_16' | 'exempt' | 'excise_inclusive';
+
+/** eTIMS tax types: A exempt, B 16%, C zero rated, D non-VAT, E 8% */
+export type EtimsTaxType = 'A' | 'B' | 'C' | 'D' | 'E';
+
+export const TAX_CLASSES: Record<TaxClass, { label: string; rate: number; etimsTaxType: EtimsTaxType }> = {
+  vat_16: { label: 'VAT 16%', rate: 0.16, etimsTaxType: 'B' },
+  exempt: { label: 'VAT exempt', rate: 0, etimsTaxType: 'A' },
+  // Excise is already in the price; VAT is charged on the excise-inclusive amount
+  excise_inclusive: { label: 'VAT 16% (excise incl.)', rate: 0.16, etimsTaxType: 'B' }
+};
+
+export const DEFAULT_TAX_CLASS: TaxClass = 'vat_16';
+
+export const ETIMS_TAX_TYPES: Record<EtimsTaxType, { label: string; rate: number }> = {
+  A: { label: 'Exempt', rate: 0 },
+  B: { label: 'VAT 16%', rate: 0.16 },
+  C: { label: 'Zero rated', rate: 0 },
+  D: { label: 'Non-VAT', rate: 0 },
+  E: { label: 'VAT 8%', rate: 0.08 }
+};
+
+/** KRA PINs: A (individual) or P (company), nine digits, a check letter */
+export const KRA_PIN_PATTERN = /^[AP]\d{9}[A-Z]$/;
+
+/** bars columns needed by loadEtimsConfigFromBar */
+export const BAR_ETIMS_COLUMNS =
+  'kra_pin, etims_enabled, etims_adapter, etims_branch_id, etims_device_serial, prices_include_tax';
+
+export interface BarEtimsData {
+  kra_pin: string | null;
+  etims_enabled: boolean;
+  etims_adapter: string | null;
+  etims_branch_id: string | null;
+  etims_device_serial: string | null;
+  prices_include_tax: boolean | null;
+}
+
+export interface EtimsConfig {
+  adapter: string;
+  /** The bar's KRA PIN */
+  tin: string;
+  /** eTIMS branch (bhfId), '00' for the head office */
+  branchId: string;
+  deviceSerial: string | null;
+  pricesIncludeTax: boolean;
+}
+
+/** One invoice line as charged on the tab */
+export interface TaxableLine {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  taxClass: TaxClass;
+}
+
+export interface LineTax {
+  /** Amount before tax */
+  net: number;
+  tax: number;
+  /** Amount including tax */
+  gross: number;
+}
+
+export interface TaxSummary {
+  taxType: EtimsTaxType;
+  label: string;
+  rate: number;
+  net: number;
+  tax: number;
+  gross: number;
+}
+
+export interface EtimsSaleItem {
+  itemSeq: number;
+  itemCd: string;
+  itemClsCd: string;
+  itemNm: string;
+  pkgUnitCd: string;
+  pkg: number;
+  qtyUnitCd: string;
+  qty: number;
+  prc: number;
+  splyAmt: number;
+  dcRt: number;
+  dcAmt: number;
+  taxTyCd: EtimsTaxType;
+  taxblAmt: number;
+  taxAmt: number;
+  totAmt: number;
+}
+
+/** A sale in the eTIMS trnsSales format; amounts are tax-inclusive */
+export interface EtimsSalePayload {
+  tin: string;
+  bhfId: string;
+  trdInvcNo: string;
+  invcNo: number;
+  orgInvcNo: number;
+  custTin: string | null;
+  custNm: string | null;
+  salesTyCd: 'N';
+  rcptTyCd: 'S';
+  pmtTyCd: string;
+  salesSttsCd: '02';
+  cfmDt: string;
+  salesDt: string;
+  totItemCnt: number;
+  taxblAmtA: number;
+  taxblAmtB: number;
+  taxblAmtC: number;
+  taxblAmtD: number;
+  taxblAmtE: number;
+  taxRtA: number;
+  taxRtB: number;
+  taxRtC: number;
+  taxRtD: number;
+  taxRtE: number;
+  taxAmtA: number;
+  taxAmtB: number;
+  taxAmtC: number;
+  taxAmtD: number;
+  taxAmtE: number;
+  totTaxblAmt: number;
+  totTaxAmt: number;
+  totAmt: number;
+  prchrAcptcYn: 'N';
+  remark: string | null;
+  regrId: string;
+  regrNm: string;
+  modrId: string;
+  modrNm: string;
+  receipt: {
+    custTin: string | null;
+    rcptPbctDt: string;
+    prchrAcptcYn: 'N';
+  };
+  itemList: EtimsSaleItem[];
+}
+
+export interface EtimsSaleInput {
+  invoiceNumber: number;
+  /** Receipt number as printed */
+  tradeInvoiceNumber: string;
+  issuedAt: string;
+  customerName?: string | null;
+  /** Methods of the payments made against the tab */
+  paymentMethods: string[];
+  lines: TaxableLine[];
+}
+
+/** Control unit data printed on the receipt */
+export interface EtimsSaleResult {
+  controlUnitInvoiceNumber: string;
+  receiptSignature: string;
+  internalData: string;
+  controlUnitDateTime: string;
+  qrUrl: string;
+  /** The adapter's raw reply, stored for audit */
+  response: any;
+}
+
+export interface EtimsAdapter {
+  name: string;
+  label: string;
+  /** Signs locally only; invoices are not filed with KRA */
+  testOnly: boolean;
+  submitSale(payload: EtimsSalePayload, config: EtimsConfig): Promise<EtimsSaleResult>;
+}
+
+export class EtimsError extends Error {
+  constructor(message: string, public statusCode: number = 400, public originalError?: any) {
+    super(message);
+    this.name = 'EtimsError';
+  }
+}
+
+export function isTaxClass(value: unknown): value is TaxClass {
+  return typeof value === 'string' && value in TAX_CLASSES;
+}
+
+function toCents(value: number): number {
+  return Math.round((Number(value) || 0) * 100);
+}
+
+/**
+ * Split a line's charged amount into net and tax
+ * With tax-inclusive pricing the tax is carved out of the amount; otherwise it
+ * is added on top.
+ */
+export function calculateLineTax(amount: number, taxClass: TaxClass, pricesIncludeTax: boolean): LineTax {
+  const { rate } = TAX_CLASSES[taxClass];
+  const amountCents = toCents(amount);
+
+  if (pricesIncludeTax) {
+    const taxCents = Math.round(amountCents * rate / (1 + rate));
+    return { net: (amountCents - taxCents) / 100, tax: taxCents / 100, gross: amountCents / 100 };
+  }
+
+  const taxCents = Math.round(amountCents * rate);
+  return { net: amountCents / 100, tax: taxCents / 100, gross: (amountCents + taxCents) / 100 };
+}
+
+/**
+ * Totals per eTIMS tax type, in A-E order
+ */
+export function summarizeTaxes(lines: TaxableLine[], pricesIncludeTax: boolean): TaxSummary[] {
+  const totals = new Map<EtimsTaxType, { net: number; tax: number; gross: number }>();
+
+  lines.forEach(line => {
+    const taxType = TAX_CLASSES[line.taxClass].etimsTaxType;
+    const lineTax = calculateLineTax(line.total, line.taxClass, pricesIncludeTax);
+    const total = totals.get(taxType) || { net: 0, tax: 0, gross: 0 };
+    total.net += toCents(lineTax.net);
+    total.tax += toCents(lineTax.tax);
+    total.gross += toCents(lineTax.gross);
+    totals.set(taxType, total);
+  });
+
+  return (Object.keys(ETIMS_TAX_TYPES) as EtimsTaxType[])
+    .filter(taxType => totals.has(taxType))
+    .map(taxType => {
+      const total = totals.get(taxType)!;
+      return {
+        taxType,
+        label: ETIMS_TAX_TYPES[taxType].label,
+        rate: ETIMS_TAX_TYPES[taxType].rate,
+        net: total.net / 100,
+        tax: total.tax / 100,
+        gross: total.gross / 100
+      };
+    });
+}
+
+/** A bar_products row, as far as tax is concerned */
+export interface TaxableProduct {
+  id: string;
+  product_id?: string | null;
+  custom_product_id?: string | null;
+  name?: string | null;
+  tax_class?: string | null;
+}
+
+/**
+ * Find the tax class of an ordered item
+ * Order items only snapshot a name and whichever product id the ordering
+ * screen had, so they are matched to the bar's menu by any of its ids and
+ * then by name. Anything unmatched is standard rated.
+ */
+export function resolveItemTaxClass(item: any, products: TaxableProduct[]): TaxClass {
+  if (isTaxClass(item?.tax_class)) return item.tax_class;
+
+  const ids = [item?.bar_product_id, item?.product_id, item?.id].filter(Boolean);
+  const byId = products.find(product =>
+    ids.some(id => id === product.id || id === product.product_id || id === product.custom_product_id)
+  );
+  const name = String(item?.name || '').trim().toLowerCase();
+  const match = byId || (name ? products.find(product => (product.name || '').trim().toLowerCase() === name) : undefined);
+
+  return isTaxClass(match?.tax_class) ? match!.tax_class as TaxClass : DEFAULT_TAX_CLASS;
+}
+
+/**
+ * Build the eTIMS config from a bars row
+ * Returns null when the bar does not file eTIMS invoices.
+ */
+export function loadEtimsConfigFromBar(barData: BarEtimsData): EtimsConfig | null {
+  if (!barData.etims_enabled) return null;
+
+  if (!barData.kra_pin || !KRA_PIN_PATTERN.test(barData.kra_pin)) {
+    throw new EtimsError('A valid KRA PIN is required for eTIMS invoices');
+  }
+
+  return {
+    adapter: getEtimsAdapter(barData.etims_adapter || 'stub').name,
+    tin: barData.kra_pin,
+    branchId: barData.etims_branch_id || '00',
+    deviceSerial: barData.etims_device_serial || null,
+    pricesIncludeTax: barData.prices_include_tax ?? true
+  };
+}
+
+// eTIMS payment types: 01 cash, 02 credit, 05 card, 06 mobile money, 07 other
+const PAYMENT_TYPE_CODES: Record<string, string> = {
+  cash: '01',
+  card: '05',
+  cards: '05',
+  mpesa: '06'
+};
+
+function paymentTypeCode(methods: string[]): string {
+  const codes = Array.from(new Set(methods.map(method => PAYMENT_TYPE_CODES[method] || '07')));
+  if (codes.length === 0) return '02';
+  return codes.length === 1 ? codes[0] : '07';
+}
+
+// Generic codes until items are registered with KRA: UNSPSC food, beverage
+// and tobacco products, net packaging, counted in units
+const ITEM_CLASS_CODE = '50000000';
+const PACKAGING_UNIT_CODE = 'NT';
+const QUANTITY_UNIT_CODE = 'U';
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Put a sale into the eTIMS format
+ * eTIMS amounts are tax-inclusive, so tax-exclusive prices are grossed up.
+ */
+export function buildEtimsSalePayload(input: EtimsSaleInput, config: EtimsConfig): EtimsSalePayload {
+  const itemList: EtimsSaleItem[] = input.lines.map((line, index) => {
+    const lineTax = calculateLineTax(line.total, line.taxClass, config.pricesIncludeTax);
+    const quantity = line.quantity || 1;
+    return {
+      itemSeq: index + 1,
+      itemCd: `KE2${PACKAGING_UNIT_CODE}${QUANTITY_UNIT_CODE}${String(index + 1).padStart(7, '0')}`,
+      itemClsCd: ITEM_CLASS_CODE,
+      itemNm: line.name,
+      pkgUnitCd: PACKAGING_UNIT_CODE,
+      pkg: quantity,
+      qtyUnitCd: QUANTITY_UNIT_CODE,
+      qty: quantity,
+      prc: round2(lineTax.gross / quantity),
+      splyAmt: lineTax.gross,
+      dcRt: 0,
+      dcAmt: 0,
+      taxTyCd: TAX_CLASSES[line.taxClass].etimsTaxType,
+      taxblAmt: lineTax.gross,
+      taxAmt: lineTax.tax,
+      totAmt: lineTax.gross
+    };
+  });
+
+  const summaries = summarizeTaxes(input.lines, config.pricesIncludeTax);
+  const byType = (taxType: EtimsTaxType) => summaries.find(summary => summary.taxType === taxType);
+  const taxable = (taxType: EtimsTaxType) => byType(taxType)?.gross ?? 0;
+  const tax = (taxType: EtimsTaxType) => byType(taxType)?.tax ?? 0;
+  const rate = (taxType: EtimsTaxType) => Math.round(ETIMS_TAX_TYPES[taxType].rate * 100);
+
+  const confirmedAt = formatKenyaTime(input.issuedAt, 'sortable').replace(/\D/g, '');
+  const totalCents = summaries.reduce((sum, summary) => sum + toCents(summary.gross), 0);
+  const taxCents = summaries.reduce((sum, summary) => sum + toCents(summary.tax), 0);
+
+  return {
+    tin: config.tin,
+    bhfId: config.branchId,
+    trdInvcNo: input.tradeInvoiceNumber,
+    invcNo: input.invoiceNumber,
+    orgInvcNo: 0,
+    custTin: null,
+    custNm: input.customerName || null,
+    salesTyCd: 'N',
+    rcptTyCd: 'S',
+    pmtTyCd: paymentTypeCode(input.paymentMethods),
+    salesSttsCd: '02',
+    cfmDt: confirmedAt,
+    salesDt: confirmedAt.slice(0, 8),
+    totItemCnt: itemList.length,
+    taxblAmtA: taxable('A'),
+    taxblAmtB: taxable('B'),
+    taxblAmtC: taxable('C'),
+    taxblAmtD: taxable('D'),
+    taxblAmtE: taxable('E'),
+    taxRtA: rate('A'),
+    taxRtB: rate('B'),
+    taxRtC: rate('C'),
+    taxRtD: rate('D'),
+    taxRtE: rate('E'),
+    taxAmtA: tax('A'),
+    taxAmtB: tax('B'),
+    taxAmtC: tax('C'),
+    taxAmtD: tax('D'),
+    taxAmtE: tax('E'),
+    totTaxblAmt: totalCents / 100,
+    totTaxAmt: taxCents / 100,
+    totAmt: totalCents / 100,
+    prchrAcptcYn: 'N',
+    remark: null,
+    regrId: 'tabeza',
+    regrNm: 'Tabeza',
+    modrId: 'tabeza',
+    modrNm: 'Tabeza',
+    receipt: {
+      custTin: null,
+      rcptPbctDt: confirmedAt,
+      prchrAcptcYn: 'N'
+    },
+    itemList
+  };
+}
+
+/**
+ * KRA's receipt verification link, encoded in the receipt QR code
+ */
+export function buildEtimsQrUrl(tin: string, branchId: string, receiptSignature: string): string {
+  return `https://etims.kra.go.ke/common/link/etims/receipt/indexEtimsReceiptData?Data=${tin}${branchId}${receiptSignature}`;
+}
+
+const adapters = new Map<string, EtimsAdapter>();
+
+/**
+ * Make an adapter available to bars (replaces any adapter with the same name)
+ */
+export function registerEtimsAdapter(adapter: EtimsAdapter): void {
+  adapters.set(adapter.name, adapter);
+}
+
+export function getEtimsAdapter(name: string | null | undefined): EtimsAdapter {
+  const adapter = name ? adapters.get(name) : undefined;
+  if (!adapter) {
+    throw new EtimsError(`Unknown eTIMS adapter: "${name ?? ''}"`);
+  }
+  return adapter;
+}
+
+/**
+ * Registered adapters for settings screens
+ */
+export function listEtimsAdapters(): Array<Pick<EtimsAdapter, 'name' | 'label' | 'testOnly'>> {
+  return Array.from(adapters.values()).map(({ name, label, testOnly }) => ({ name, label, testOnly }));
+}
+
+/**
+ * Local stand-in for a control unit
+ * The signature and internal data are derived from the payload, so the same
+ * invoice always gets the same control data.
+ */
+export const stubEtimsAdapter: EtimsAdapter = {
+  name: 'stub',
+  label: 'Local stub (testing)',
+  testOnly: true,
+
+  async submitSale(payload, config) {
+    const digest = createHash('sha256').update(JSON.stringify(payload)).digest('hex').toUpperCase();
+    const receiptSignature = digest.slice(0, 16);
+    const internalData = digest.slice(16, 42);
+    const controlUnitId = config.deviceSerial || `KRACU0${config.branchId}0000001`;
+
+    return {
+      controlUnitInvoiceNumber: `${controlUnitId}/${payload.invcNo}`,
+      receiptSignature,
+      internalData,
+      controlUnitDateTime: payload.cfmDt,
+      qrUrl: buildEtimsQrUrl(payload.tin, payload.bhfId, receiptSignature),
+      response: {
+        resultCd: '000',
+        resultMsg: 'It is succeeded',
+        resultDt: payload.cfmDt,
+        data: {
+          rcptNo: payload.invcNo,
+          intrlData: internalData,
+          rcptSign: receiptSignature,
+          sdcDateTime: payload.cfmDt
+        }
+      }
+    };
+  }
+};
+
+registerEtimsAdapter(stubEtimsAdapter);
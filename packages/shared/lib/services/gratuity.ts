@@ -0,0 +1,138 @@
+/**
+ * Gratuity Service
+ * Tips chosen by the customer and the bar's automatic service charge.
+ *
+ * Gratuity is charged on top of the amount applied to the tab balance and is
+ * stored separately on tab_payments (tip_amount, service_charge_amount), so it
+ * never counts as an overpayment. Amounts are whole shillings because M-Pesa
+ * STK pushes only accept integer amounts.
+ */
+
+export const TIP_PERCENT_PRESETS = [5, 10, 15];
+
+export const MAX_SERVICE_CHARGE_PERCENT = 20;
+
+export type TipSelection =
+  | { type: 'none' }
+  | { type: 'percent'; percent: number }
+  | { type: 'custom'; amount: number };
+
+export interface GratuitySettings {
+  tipsEnabled: boolean;
+  tipPresets: number[];
+  serviceChargePercent: number;
+}
+
+export interface PaymentCharge {
+  /** Applied to the tab balance */
+  amount: number;
+  tipAmount: number;
+  serviceChargeAmount: number;
+  /** What the customer is actually charged */
+  total: number;
+}
+
+export class GratuityError extends Error {
+  constructor(message: string, public statusCode: number = 400, public originalError?: any) {
+    super(message);
+    this.name = 'GratuityError';
+  }
+}
+
+/**
+ * Gratuity settings from a bars row (missing columns fall back to tips on, no service charge)
+ */
+export function getGratuitySettings(bar: {
+  tips_enabled?: boolean | null;
+  service_charge_percent?: number | string | null;
+}): GratuitySettings {
+  const percent = Number(bar.service_charge_percent ?? 0);
+  return {
+    tipsEnabled: bar.tips_enabled !== false,
+    tipPresets: TIP_PERCENT_PRESETS,
+    serviceChargePercent: isNaN(percent) ? 0 : percent
+  };
+}
+
+/**
+ * Check a service charge percentage before saving
+ * Returns the problem found, or null when valid.
+ */
+export function validateServiceChargePercent(percent: number): string | null {
+  if (typeof percent !== 'number' || isNaN(percent) || percent < 0) {
+    return 'Service charge must be zero or a positive percentage';
+  }
+  if (percent > MAX_SERVICE_CHARGE_PERCENT) {
+    return `Service charge cannot exceed ${MAX_SERVICE_CHARGE_PERCENT}%`;
+  }
+  return null;
+}
+
+/**
+ * Validate a tip selection received from a client
+ */
+export function parseTipSelection(value: unknown): TipSelection {
+  if (value === undefined || value === null) {
+    return { type: 'none' };
+  }
+
+  const tip = value as Partial<{ type: string; percent: unknown; amount: unknown }>;
+  switch (tip.type) {
+    case 'none':
+      return { type: 'none' };
+    case 'percent':
+      if (typeof tip.percent !== 'number' || !(tip.percent > 0) || tip.percent > 100) {
+        throw new GratuityError('tip.percent must be a number between 0 and 100');
+      }
+      return { type: 'percent', percent: tip.percent };
+    case 'custom':
+      if (typeof tip.amount !== 'number' || isNaN(tip.amount) || tip.amount < 0) {
+        throw new GratuityError('tip.amount must be zero or a positive number');
+      }
+      return { type: 'custom', amount: tip.amount };
+    default:
+      throw new GratuityError('tip.type must be one of: none, percent, custom');
+  }
+}
+
+export function calculateTipAmount(amount: number, tip: TipSelection): number {
+  if (tip.type === 'percent') {
+    return Math.round((amount * tip.percent) / 100);
+  }
+  if (tip.type === 'custom') {
+    return Math.round(tip.amount);
+  }
+  return 0;
+}
+
+export function calculateServiceCharge(amount: number, percent: number): number {
+  return percent > 0 ? Math.round((amount * percent) / 100) : 0;
+}
+
+/**
+ * Split a payment into the balance portion, tip and service charge
+ * A tip larger than the amount being paid is treated as a typo and rejected.
+ */
+export function buildPaymentCharge(
+  amount: number,
+  tip: TipSelection,
+  settings: Pick<GratuitySettings, 'tipsEnabled' | 'serviceChargePercent'>
+): PaymentCharge {
+  if (tip.type !== 'none' && !settings.tipsEnabled) {
+    throw new GratuityError('This venue does not accept tips');
+  }
+
+  const tipAmount = calculateTipAmount(amount, tip);
+  if (tipAmount > amount) {
+    throw new GratuityError('Tip cannot be more than the amount being paid');
+  }
+
+  const serviceChargeAmount = calculateServiceCharge(amount, settings.serviceChargePercent);
+
+  return {
+    amount,
+    tipAmount,
+    serviceChargeAmount,
+    total: amount + tipAmount + serviceChargeAmount
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Kenya Time Formatting
+ * Displays timestamps in Kenya local time (EAT) for the customer and staff
+ * apps, the report exports and the receipts and tax invoices built from them.
+ */
+
+import { KENYA_UTC_OFFSET_MINUTES } from './business-hours';
+
+/**
+ * - short: "Jun 15, 00:30" for screens
+ * - sortable: "2024-06-15 00:30:05" for spreadsheets and machine-read fields
+ */
+export type KenyaTimeFormat = 'short' | 'sortable';
+
+/**
+ * Format a timestamp as Kenya local time; empty for missing or invalid values
+ */
+export const formatKenyaTime = (
+  dateStr: string | null | undefined,
+  format: KenyaTimeFormat = 'short'
+): string => {
+  if (!dateStr) return '';
+
+  const date = new Date(dateStr);
+  if (isNaN(date.getTime())) return '';
+
+  if (format === 'sortable') {
+    const kenyaTime = new Date(date.getTime() + KENYA_UTC_OFFSET_MINUTES * 60 * 1000);
+    return kenyaTime.toISOString().slice(0, 19).replace('T', ' ');
+  }
+
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    // hour12: false renders midnight as 24:00 in some runtimes
+    hourCycle: 'h23',
+    timeZone: 'Africa/Nairobi'
+  });
+};
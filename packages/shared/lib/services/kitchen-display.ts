@@ -0,0 +1,382 @@
+/**
+ * Kitchen Display Service
+ * Turns confirmed orders into station tickets for the kitchen display (KDS):
+ * each order's items are routed to drinks, food or shisha by product
+ * category, one ticket per station. A station bumps its ticket when it is
+ * ready and the order is served once every station on it has bumped.
+ * Recalling a ticket puts it back on the screen, and a served order back to
+ * confirmed.
+ *
+ * Bumps live in `tab_order_station_bumps`, one row per order and station, so
+ * two stations bumping the same order at once never overwrite each other.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { OrderTransitionError, transitionOrderStatus } from './order-lifecycle';
+
+export type KdsStation = 'drinks' | 'food' | 'shisha';
+
+export const KDS_STATIONS: KdsStation[] = ['drinks', 'food', 'shisha'];
+
+export const KDS_STATION_LABELS: Record<KdsStation, string> = {
+  drinks: 'Bar',
+  food: 'Kitchen',
+  shisha: 'Shisha'
+};
+
+export type KdsTicketUrgency = 'fresh' | 'warning' | 'late';
+
+/** Ticket age (seconds) at which a ticket turns amber, then red */
+export const KDS_AGE_THRESHOLDS = {
+  warning: 5 * 60,
+  late: 10 * 60
+};
+
+/** Bumped tickets stay recallable this long */
+export const KDS_RECALL_WINDOW_MINUTES = 30;
+
+/** Confirmed orders older than this were handled before the display was in use */
+const KDS_TICKET_WINDOW_HOURS = 12;
+
+export interface KdsTicketItem {
+  name: string;
+  quantity: number;
+  notes: string[];
+}
+
+export interface KdsTicket {
+  /** `${orderId}:${station}` */
+  id: string;
+  orderId: string;
+  orderNumber: number | null;
+  tabId: string;
+  tabLabel: string;
+  station: KdsStation;
+  items: KdsTicketItem[];
+  /** When the order was confirmed; the ticket's age counts from here */
+  startedAt: string;
+  bumpedAt: string | null;
+}
+
+export interface KdsProduct {
+  id: string;
+  product_id?: string | null;
+  custom_product_id?: string | null;
+  name?: string | null;
+  category?: string | null;
+}
+
+export interface KdsOrderRow {
+  id: string;
+  tab_id: string;
+  order_number?: number | null;
+  items: any;
+  status: string;
+  created_at: string;
+  confirmed_at?: string | null;
+  served_at?: string | null;
+  tab?: { tab_number?: number | null; notes?: string | null } | null;
+}
+
+export interface KdsBumpRow {
+  order_id: string;
+  station: string;
+  bumped_at: string;
+}
+
+export interface KdsBoard {
+  /** Waiting to be bumped, oldest first */
+  active: KdsTicket[];
+  /** Bumped within the recall window, most recent first */
+  bumped: KdsTicket[];
+}
+
+export class KdsError extends Error {
+  constructor(message: string, public statusCode: number = 500, public originalError?: any) {
+    super(message);
+    this.name = 'KdsError';
+  }
+}
+
+// Category names differ between the customer menu and the staff product screens
+const SHISHA_CATEGORY = /shisha|hookah/i;
+const DRINK_CATEGORY = /beer|cider|wine|champagne|spirit|liqueur|cocktail|drink|non-alcoholic|juice|soda|water|coffee|tea\b/i;
+
+export function isKdsStation(value: unknown): value is KdsStation {
+  return typeof value === 'string' && (KDS_STATIONS as string[]).includes(value);
+}
+
+function parseItems(items: any): any[] {
+  if (typeof items === 'string') {
+    try {
+      return JSON.parse(items);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(items) ? items : [];
+}
+
+/**
+ * The station that prepares an ordered item
+ * Customer orders snapshot the category; staff orders only carry a product
+ * id and name, so those are matched to the bar's menu. Anything that is not
+ * a drink or shisha goes to the kitchen, as the customer menu treats it.
+ */
+export function resolveKdsStation(item: any, products: KdsProduct[] = []): KdsStation {
+  let category: string | null | undefined = item?.category;
+
+  if (!category) {
+    const ids = [item?.bar_product_id, item?.product_id, item?.id].filter(Boolean);
+    const byId = products.find(product =>
+      ids.some(id => id === product.id || id === product.product_id || id === product.custom_product_id)
+    );
+    const name = String(item?.name || '').trim().toLowerCase();
+    const match = byId || (name ? products.find(product => (product.name || '').trim().toLowerCase() === name) : undefined);
+    category = match?.category;
+  }
+
+  if (category && SHISHA_CATEGORY.test(category)) return 'shisha';
+  if (category && DRINK_CATEGORY.test(category)) return 'drinks';
+  return 'food';
+}
+
+/**
+ * The stations an order's items are routed to, in display order
+ */
+export function getOrderStations(items: any, products: KdsProduct[] = []): KdsStation[] {
+  const stations = new Set(parseItems(items).map(item => resolveKdsStation(item, products)));
+  return KDS_STATIONS.filter(station => stations.has(station));
+}
+
+// Tab notes hold the customer's chosen display name, when they gave one
+function tabLabel(tab: KdsOrderRow['tab']): string {
+  try {
+    const notes = tab?.notes ? JSON.parse(tab.notes) : null;
+    if (notes?.display_name) return notes.display_name;
+  } catch {
+    // Plain-text notes
+  }
+  return `Tab ${tab?.tab_number ?? ''}`.trim();
+}
+
+export function getTicketAgeSeconds(ticket: Pick<KdsTicket, 'startedAt'>, now: Date = new Date()): number {
+  return Math.max(0, Math.floor((now.getTime() - new Date(ticket.startedAt).getTime()) / 1000));
+}
+
+export function getTicketUrgency(ageSeconds: number): KdsTicketUrgency {
+  if (ageSeconds >= KDS_AGE_THRESHOLDS.late) return 'late';
+  if (ageSeconds >= KDS_AGE_THRESHOLDS.warning) return 'warning';
+  return 'fresh';
+}
+
+/**
+ * Split orders into station tickets and sort them onto the board
+ * A served order with no bump for a station (served from the tab screen)
+ * counts as bumped when it was served.
+ */
+export function buildKdsBoard(input: {
+  orders: KdsOrderRow[];
+  bumps: KdsBumpRow[];
+  products?: KdsProduct[];
+  now?: Date;
+}): KdsBoard {
+  const now = input.now || new Date();
+  const recallFrom = now.getTime() - KDS_RECALL_WINDOW_MINUTES * 60 * 1000;
+  const bumpTimes = new Map(input.bumps.map(bump => [`${bump.order_id}:${bump.station}`, bump.bumped_at]));
+  const board: KdsBoard = { active: [], bumped: [] };
+
+  for (const order of input.orders) {
+    if (order.status !== 'confirmed' && order.status !== 'served') continue;
+
+    const byStation = new Map<KdsStation, KdsTicketItem[]>();
+    for (const item of parseItems(order.items)) {
+      const station = resolveKdsStation(item, input.products);
+      const items = byStation.get(station) || [];
+      items.push({
+        name: String(item.name || 'Item'),
+        quantity: Number(item.quantity) || 1,
+        notes: item.not_cold ? ['Not cold'] : []
+      });
+      byStation.set(station, items);
+    }
+
+    for (const station of KDS_STATIONS) {
+      const items = byStation.get(station);
+      if (!items) continue;
+
+      const id = `${order.id}:${station}`;
+      const bumpedAt = bumpTimes.get(id) || (order.status === 'served' ? order.served_at || null : null);
+      const ticket: KdsTicket = {
+        id,
+        orderId: order.id,
+        orderNumber: order.order_number ?? null,
+        tabId: order.tab_id,
+        tabLabel: tabLabel(order.tab),
+        station,
+        items,
+        startedAt: order.confirmed_at || order.created_at,
+        bumpedAt
+      };
+
+      if (!bumpedAt) {
+        board.active.push(ticket);
+      } else if (new Date(bumpedAt).getTime() >= recallFrom) {
+        board.bumped.push(ticket);
+      }
+    }
+  }
+
+  board.active.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  board.bumped.sort((a, b) => (b.bumpedAt || '').localeCompare(a.bumpedAt || ''));
+  return board;
+}
+
+async function loadBarProducts(supabase: SupabaseClient, barId: string): Promise<KdsProduct[]> {
+  const { data, error } = await supabase
+    .from('bar_products')
+    .select('id, product_id, custom_product_id, name, category')
+    .eq('bar_id', barId);
+
+  if (error) {
+    throw new KdsError(`Failed to load products: ${error.message}`, 500, error);
+  }
+  return (data || []) as KdsProduct[];
+}
+
+/**
+ * Everything on a bar's display: tickets to prepare and recent bumps to recall
+ */
+export async function loadKdsBoard(supabase: SupabaseClient, barId: string, now: Date = new Date()): Promise<KdsBoard> {
+  const since = new Date(now.getTime() - KDS_TICKET_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+  const recallFrom = new Date(now.getTime() - KDS_RECALL_WINDOW_MINUTES * 60 * 1000).toISOString();
+
+  const [ordersResult, bumpsResult, products] = await Promise.all([
+    supabase
+      .from('tab_orders')
+      .select('id, tab_id, order_number, items, status, created_at, confirmed_at, served_at, tab:tabs!inner(bar_id, tab_number, notes)')
+      .eq('tab.bar_id', barId)
+      .gte('created_at', since)
+      .or(`status.eq.confirmed,and(status.eq.served,served_at.gte.${recallFrom})`),
+    supabase
+      .from('tab_order_station_bumps')
+      .select('order_id, station, bumped_at')
+      .eq('bar_id', barId)
+      .gte('bumped_at', since),
+    loadBarProducts(supabase, barId)
+  ]);
+
+  const failed = ordersResult.error || bumpsResult.error;
+  if (failed) {
+    throw new KdsError(`Failed to load kitchen display: ${failed.message}`, 500, failed);
+  }
+
+  return buildKdsBoard({
+    orders: (ordersResult.data || []).map((order: any) => ({
+      ...order,
+      tab: Array.isArray(order.tab) ? order.tab[0] : order.tab
+    })),
+    bumps: (bumpsResult.data || []) as KdsBumpRow[],
+    products,
+    now
+  });
+}
+
+async function loadBarOrder(supabase: SupabaseClient, barId: string, orderId: string) {
+  const { data: order, error } = await supabase
+    .from('tab_orders')
+    .select('id, status, items, tab:tabs!inner(bar_id)')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    throw new KdsError(`Failed to load order: ${error.message}`, 500, error);
+  }
+  const tab = Array.isArray(order?.tab) ? order?.tab[0] : order?.tab;
+  if (!order || tab?.bar_id !== barId) {
+    throw new KdsError('Order not found', 404);
+  }
+  return order;
+}
+
+/**
+ * Mark a station's ticket ready; serves the order once every station has bumped
+ */
+export async function bumpKdsTicket(
+  supabase: SupabaseClient,
+  barId: string,
+  orderId: string,
+  station: KdsStation,
+  staffUserId: string
+): Promise<{ served: boolean }> {
+  const order = await loadBarOrder(supabase, barId, orderId);
+  if (order.status !== 'confirmed') {
+    throw new KdsError(`This order is already ${order.status}`, 409);
+  }
+
+  const stations = getOrderStations(order.items, await loadBarProducts(supabase, barId));
+  if (!stations.includes(station)) {
+    throw new KdsError(`This order has nothing for the ${KDS_STATION_LABELS[station].toLowerCase()}`, 400);
+  }
+
+  const { error: bumpError } = await supabase
+    .from('tab_order_station_bumps')
+    .upsert(
+      { order_id: orderId, bar_id: barId, station, bumped_by: staffUserId },
+      { onConflict: 'order_id,station', ignoreDuplicates: true }
+    );
+  if (bumpError) {
+    throw new KdsError(`Failed to bump ticket: ${bumpError.message}`, 500, bumpError);
+  }
+
+  const { data: bumps, error: bumpsError } = await supabase
+    .from('tab_order_station_bumps')
+    .select('station')
+    .eq('order_id', orderId);
+  if (bumpsError) {
+    throw new KdsError(`Failed to load bumps: ${bumpsError.message}`, 500, bumpsError);
+  }
+
+  const bumped = new Set((bumps || []).map((bump: { station: string }) => bump.station));
+  if (!stations.every(orderStation => bumped.has(orderStation))) {
+    return { served: false };
+  }
+
+  try {
+    await transitionOrderStatus(supabase, orderId, 'served', { type: 'staff', userId: staffUserId });
+  } catch (error) {
+    // The last two stations bumped together and the other one served it
+    if (!(error instanceof OrderTransitionError && error.statusCode === 409)) throw error;
+  }
+  return { served: true };
+}
+
+/**
+ * Put a bumped ticket back on the display
+ */
+export async function recallKdsTicket(
+  supabase: SupabaseClient,
+  barId: string,
+  orderId: string,
+  station: KdsStation,
+  staffUserId: string
+): Promise<void> {
+  const order = await loadBarOrder(supabase, barId, orderId);
+  if (order.status !== 'confirmed' && order.status !== 'served') {
+    throw new KdsError(`This order is ${order.status} and cannot be recalled`, 409);
+  }
+
+  if (order.status === 'served') {
+    await transitionOrderStatus(supabase, orderId, 'confirmed', { type: 'staff', userId: staffUserId });
+  }
+
+  const { error } = await supabase
+    .from('tab_order_station_bumps')
+    .delete()
+    .eq('order_id', orderId)
+    .eq('station', station);
+
+  if (error) {
+    throw new KdsError(`Failed to recall ticket: ${error.message}`, 500, error);
+  }
+}
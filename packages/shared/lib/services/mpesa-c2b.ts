@@ -0,0 +1,574 @@
+/**
+ * M-Pesa C2B Reconciliation Service
+ * Handles payments made straight to a bar's Paybill/Till from the phone menu
+ * (outside an STK push) and matches them to open tabs.
+ *
+ * Matching order:
+ * 1. Account reference - the tab number ("12", "TAB12", "#12") or the STK
+ *    account reference ("TAB" + last 8 characters of the tab id)
+ * 2. Phone number - recent STK attempts on a still-open tab from the same number
+ * 3. Amount - when several tabs match by phone, the attempt for the same amount
+ *
+ * Anything left unmatched stays in mpesa_c2b_transactions for staff to assign.
+ * Requires a service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getOAuthToken } from './mpesa-oauth';
+import { getDarajaBaseUrl, type MpesaConfig } from './mpesa-config';
+import { signCallbackUrl } from './mpesa-callback-inbox';
+
+/** Confirmation body sent by Daraja (validation uses the same shape) */
+export interface C2BPayload {
+  TransactionType: string;
+  TransID: string;
+  TransTime: string;
+  TransAmount: string | number;
+  BusinessShortCode: string;
+  BillRefNumber?: string;
+  InvoiceNumber?: string;
+  OrgAccountBalance?: string;
+  ThirdPartyTransID?: string;
+  MSISDN: string;
+  FirstName?: string;
+  MiddleName?: string;
+  LastName?: string;
+}
+
+export interface C2BTransaction {
+  transId: string;
+  transType: string;
+  amount: number;
+  shortcode: string;
+  billRefNumber: string;
+  msisdn: string;
+  payerName: string;
+  /** ISO timestamp */
+  transTime: string;
+}
+
+export type C2BMatchMethod = 'account_reference' | 'phone' | 'phone_amount' | 'manual';
+
+export type C2BStatus = 'matched' | 'unmatched' | 'assigned' | 'ignored';
+
+export interface C2BMatch {
+  tabId: string;
+  barId: string;
+  method: C2BMatchMethod;
+}
+
+export interface C2BCandidateTab {
+  id: string;
+  bar_id: string;
+  tab_number: number | null;
+  status: string;
+}
+
+export interface C2BStkAttempt {
+  tab_id: string;
+  amount: number;
+  tip_amount?: number | null;
+  service_charge_amount?: number | null;
+  phone_number: string | null;
+}
+
+export interface C2BTransactionRow {
+  id: string;
+  bar_id: string | null;
+  trans_id: string;
+  amount: number;
+  msisdn: string | null;
+  payer_name: string | null;
+  bill_ref_number: string | null;
+  business_shortcode: string;
+  trans_time: string | null;
+  status: C2BStatus;
+  tab_id: string | null;
+  tab_payment_id: string | null;
+  matched_by: C2BMatchMethod | null;
+}
+
+export class C2BError extends Error {
+  constructor(message: string, public statusCode: number = 400, public originalError?: any) {
+    super(message);
+    this.name = 'C2BError';
+  }
+}
+
+/** How far back STK attempts count when matching by phone number */
+export const C2B_STK_LOOKBACK_HOURS = 24;
+
+/** Daraja validation responses */
+export const C2B_ACCEPT = { ResultCode: '0', ResultDesc: 'Accepted' } as const;
+export const C2B_REJECT_INVALID_AMOUNT = { ResultCode: 'C2B00013', ResultDesc: 'Rejected' } as const;
+
+/**
+ * Convert a Daraja timestamp (YYYYMMDDHHmmss, Kenya time) to ISO
+ */
+export function parseDarajaTimestamp(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(value?.trim() ?? '');
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match;
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}+03:00`);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Validate a Daraja C2B body
+ */
+export function parseC2BPayload(body: unknown): C2BTransaction {
+  const payload = body as Partial<C2BPayload> | null;
+  if (!payload || typeof payload !== 'object') {
+    throw new C2BError('C2B payload must be a JSON object');
+  }
+
+  const missingFields = (['TransID', 'TransAmount', 'BusinessShortCode'] as const)
+    .filter(field => payload[field] === undefined || payload[field] === null || payload[field] === '');
+  if (missingFields.length > 0) {
+    throw new C2BError(`Missing required C2B fields: ${missingFields.join(', ')}`);
+  }
+
+  const amount = Number(payload.TransAmount);
+  if (isNaN(amount) || amount <= 0) {
+    throw new C2BError('TransAmount must be a positive number');
+  }
+
+  const payerName = [payload.FirstName, payload.MiddleName, payload.LastName]
+    .filter(part => part && part.trim())
+    .join(' ');
+
+  return {
+    transId: String(payload.TransID).trim(),
+    transType: payload.TransactionType || 'Pay Bill',
+    amount,
+    shortcode: String(payload.BusinessShortCode).trim(),
+    billRefNumber: (payload.BillRefNumber || '').trim(),
+    msisdn: String(payload.MSISDN || '').trim(),
+    payerName,
+    transTime: parseDarajaTimestamp(payload.TransTime || '') || new Date().toISOString()
+  };
+}
+
+/**
+ * Read a tab reference out of a Paybill account number
+ * "TAB" followed by 8 hex characters is the STK account reference (tab id suffix);
+ * digits, optionally prefixed with TAB / T / #, are the tab number. An all-digit
+ * STK reference could be either, so both are returned.
+ */
+export function parseTabReference(billRefNumber: string): { tabNumber?: number; tabIdSuffix?: string } {
+  const reference = billRefNumber.replace(/\s+/g, '').toUpperCase();
+  const suffix = /^TAB([0-9A-F]{8})$/.exec(reference)?.[1];
+  const number = /^(?:TAB|T|#)?0*(\d{1,7})$/.exec(reference)?.[1];
+
+  return {
+    ...(suffix ? { tabIdSuffix: suffix.toLowerCase() } : {}),
+    ...(number ? { tabNumber: parseInt(number, 10) } : {})
+  };
+}
+
+/**
+ * Phone number in 2547XXXXXXXX form, or null when Daraja masked or hashed it
+ */
+export function normalizeC2BPhone(msisdn: string | null | undefined): string | null {
+  const digits = (msisdn || '').replace(/\D/g, '');
+  if (/^254[17]\d{8}$/.test(digits)) return digits;
+  if (/^0[17]\d{8}$/.test(digits)) return `254${digits.slice(1)}`;
+  return null;
+}
+
+function uniqueTabIds(items: { tab_id: string }[]): string[] {
+  return Array.from(new Set(items.map(item => item.tab_id)));
+}
+
+/**
+ * Match a C2B payment against the open tabs and recent STK attempts of the candidate bars
+ */
+export function matchC2BTransaction(
+  transaction: C2BTransaction,
+  tabs: C2BCandidateTab[],
+  attempts: C2BStkAttempt[]
+): C2BMatch | null {
+  const openTabs = tabs.filter(tab => tab.status === 'open' || tab.status === 'overdue');
+  const tabsById = new Map(openTabs.map(tab => [tab.id, tab]));
+  const toMatch = (tabId: string, method: C2BMatchMethod): C2BMatch =>
+    ({ tabId, barId: tabsById.get(tabId)!.bar_id, method });
+
+  // 1. Account reference
+  const reference = parseTabReference(transaction.billRefNumber);
+  const referenced = openTabs.filter(tab =>
+    (reference.tabIdSuffix && tab.id.replace(/-/g, '').toLowerCase().endsWith(reference.tabIdSuffix)) ||
+    (reference.tabNumber !== undefined && tab.tab_number === reference.tabNumber)
+  );
+  if (referenced.length === 1) {
+    return toMatch(referenced[0].id, 'account_reference');
+  }
+
+  // 2. Phone number against recent STK attempts on open tabs
+  const phone = normalizeC2BPhone(transaction.msisdn);
+  if (!phone) return null;
+
+  const phoneAttempts = attempts.filter(attempt =>
+    tabsById.has(attempt.tab_id) && normalizeC2BPhone(attempt.phone_number) === phone
+  );
+  const phoneTabs = uniqueTabIds(phoneAttempts);
+  if (phoneTabs.length === 1) {
+    return toMatch(phoneTabs[0], 'phone');
+  }
+
+  // 3. Amount breaks a tie between tabs the same phone tried to pay
+  if (phoneTabs.length > 1) {
+    const sameAmount = phoneAttempts.filter(attempt => {
+      const total = Number(attempt.amount) + (Number(attempt.tip_amount) || 0) + (Number(attempt.service_charge_amount) || 0);
+      return Math.round(total) === Math.round(transaction.amount);
+    });
+    const amountTabs = uniqueTabIds(sameAmount);
+    if (amountTabs.length === 1) {
+      return toMatch(amountTabs[0], 'phone_amount');
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Load candidates for a payment and match it
+ */
+export async function findC2BMatch(
+  supabase: SupabaseClient,
+  barIds: string[],
+  transaction: C2BTransaction,
+  now: Date = new Date()
+): Promise<C2BMatch | null> {
+  if (barIds.length === 0) return null;
+
+  const { data: tabs, error: tabsError } = await supabase
+    .from('tabs')
+    .select('id, bar_id, tab_number, status')
+    .in('bar_id', barIds)
+    .in('status', ['open', 'overdue']);
+
+  if (tabsError) {
+    throw new C2BError(`Failed to load open tabs: ${tabsError.message}`, 500, tabsError);
+  }
+  if (!tabs || tabs.length === 0) return null;
+
+  const since = new Date(now.getTime() - C2B_STK_LOOKBACK_HOURS * 60 * 60 * 1000).toISOString();
+  const { data: attempts, error: attemptsError } = await supabase
+    .from('tab_payments')
+    .select('tab_id, amount, tip_amount, service_charge_amount, phone_number')
+    .in('tab_id', tabs.map(tab => tab.id))
+    .eq('method', 'mpesa')
+    .not('phone_number', 'is', null)
+    .gte('created_at', since);
+
+  if (attemptsError) {
+    throw new C2BError(`Failed to load STK attempts: ${attemptsError.message}`, 500, attemptsError);
+  }
+
+  return matchC2BTransaction(transaction, tabs, attempts || []);
+}
+
+/**
+ * Post a C2B payment to a tab as a successful M-Pesa payment
+ * The C2B row is claimed first so two staff assigning at once cannot post it twice.
+ */
+async function applyC2BToTab(
+  supabase: SupabaseClient,
+  row: C2BTransactionRow,
+  tabId: string,
+  barId: string,
+  method: C2BMatchMethod,
+  assignedBy?: string
+): Promise<C2BTransactionRow> {
+  const { data: claimed, error: claimError } = await supabase
+    .from('mpesa_c2b_transactions')
+    .update({
+      status: method === 'manual' ? 'assigned' : 'matched',
+      bar_id: barId,
+      tab_id: tabId,
+      matched_by: method,
+      assigned_by: assignedBy || null,
+      assigned_at: assignedBy ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', row.id)
+    .eq('status', 'unmatched')
+    .select('id');
+
+  if (claimError) {
+    throw new C2BError(`Failed to update C2B transaction: ${claimError.message}`, 500, claimError);
+  }
+  if (!claimed || claimed.length === 0) {
+    throw new C2BError('Transaction has already been assigned', 409);
+  }
+
+  const { data: payment, error: paymentError } = await supabase
+    .from('tab_payments')
+    .insert({
+      tab_id: tabId,
+      amount: row.amount,
+      method: 'mpesa',
+      status: 'success',
+      reference: row.trans_id,
+      phone_number: normalizeC2BPhone(row.msisdn),
+      metadata: {
+        c2b: {
+          transId: row.trans_id,
+          billRefNumber: row.bill_ref_number,
+          payerName: row.payer_name,
+          matchedBy: method
+        }
+      }
+    })
+    .select('id')
+    .single();
+
+  if (paymentError || !payment) {
+    // Put it back in the queue
+    await supabase
+      .from('mpesa_c2b_transactions')
+      .update({ status: 'unmatched', tab_id: null, matched_by: null, assigned_by: null, assigned_at: null })
+      .eq('id', row.id);
+    throw new C2BError(`Failed to record payment on tab: ${paymentError?.message}`, 500, paymentError);
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('mpesa_c2b_transactions')
+    .update({ tab_payment_id: payment.id, updated_at: new Date().toISOString() })
+    .eq('id', row.id)
+    .select('*')
+    .single();
+
+  if (updateError || !updated) {
+    throw new C2BError(`Failed to update C2B transaction: ${updateError?.message}`, 500, updateError);
+  }
+
+  return updated as C2BTransactionRow;
+}
+
+/**
+ * Store a confirmed C2B payment and post it to a tab when it can be matched
+ * Safaricom may confirm the same TransID more than once; repeats return the stored row.
+ */
+export async function recordC2BTransaction(
+  supabase: SupabaseClient,
+  transaction: C2BTransaction,
+  rawPayload: unknown
+): Promise<{ row: C2BTransactionRow; duplicate: boolean }> {
+  const { data: existing } = await supabase
+    .from('mpesa_c2b_transactions')
+    .select('*')
+    .eq('trans_id', transaction.transId)
+    .maybeSingle();
+
+  if (existing) {
+    return { row: existing as C2BTransactionRow, duplicate: true };
+  }
+
+  // Several bars can share a shortcode (e.g. the sandbox one); the match decides which.
+  // The shortcode may be the bar's own or one of its tills.
+  const [barsResult, tillsResult] = await Promise.all([
+    supabase.from('bars').select('id').eq('mpesa_business_shortcode', transaction.shortcode),
+    supabase.from('bar_mpesa_tills').select('bar_id').eq('business_shortcode', transaction.shortcode)
+  ]);
+
+  const barsError = barsResult.error || tillsResult.error;
+  if (barsError) {
+    throw new C2BError(`Failed to resolve bar for shortcode: ${barsError.message}`, 500, barsError);
+  }
+
+  const barIds = Array.from(new Set([
+    ...(barsResult.data || []).map((bar: { id: string }) => bar.id),
+    ...(tillsResult.data || []).map((till: { bar_id: string }) => till.bar_id)
+  ]));
+  const match = await findC2BMatch(supabase, barIds, transaction);
+
+  const { data: inserted, error: insertError } = await supabase
+    .from('mpesa_c2b_transactions')
+    .insert({
+      bar_id: match?.barId ?? (barIds.length === 1 ? barIds[0] : null),
+      trans_id: transaction.transId,
+      trans_type: transaction.transType,
+      trans_time: transaction.transTime,
+      amount: transaction.amount,
+      business_shortcode: transaction.shortcode,
+      bill_ref_number: transaction.billRefNumber || null,
+      msisdn: transaction.msisdn || null,
+      payer_name: transaction.payerName || null,
+      status: 'unmatched',
+      raw_payload: rawPayload
+    })
+    .select('*')
+    .single();
+
+  if (insertError) {
+    // Lost a race with a retry of the same confirmation
+    if (insertError.code === '23505') {
+      const { data: raced } = await supabase
+        .from('mpesa_c2b_transactions')
+        .select('*')
+        .eq('trans_id', transaction.transId)
+        .single();
+      if (raced) return { row: raced as C2BTransactionRow, duplicate: true };
+    }
+    throw new C2BError(`Failed to store C2B transaction: ${insertError.message}`, 500, insertError);
+  }
+
+  if (!match) {
+    return { row: inserted as C2BTransactionRow, duplicate: false };
+  }
+
+  return {
+    row: await applyC2BToTab(supabase, inserted as C2BTransactionRow, match.tabId, match.barId, match.method),
+    duplicate: false
+  };
+}
+
+/**
+ * Staff assign an unmatched payment to one of their bar's open tabs
+ */
+export async function assignC2BTransaction(
+  supabase: SupabaseClient,
+  barId: string,
+  transactionId: string,
+  tabId: string,
+  staffUserId: string
+): Promise<C2BTransactionRow> {
+  const { data: row, error } = await supabase
+    .from('mpesa_c2b_transactions')
+    .select('*')
+    .eq('id', transactionId)
+    .single();
+
+  if (error || !row) {
+    throw new C2BError('C2B transaction not found', 404, error);
+  }
+  if (row.status !== 'unmatched') {
+    throw new C2BError(`Transaction is already ${row.status}`, 409);
+  }
+
+  const { data: tab, error: tabError } = await supabase
+    .from('tabs')
+    .select('id, bar_id, status')
+    .eq('id', tabId)
+    .single();
+
+  if (tabError || !tab) {
+    throw new C2BError('Tab not found', 404, tabError);
+  }
+  if (tab.bar_id !== barId || (row.bar_id && row.bar_id !== barId)) {
+    throw new C2BError('Tab belongs to another bar', 403);
+  }
+  if (!row.bar_id) {
+    // Shared shortcode: the tab's bar must be one of the bars using it
+    const shortcodes = await getBarShortcodes(supabase, barId);
+    if (!shortcodes.includes(row.business_shortcode)) {
+      throw new C2BError('Payment was made to another shortcode', 403);
+    }
+  }
+  if (tab.status !== 'open' && tab.status !== 'overdue') {
+    throw new C2BError('Payments can only be assigned to open or overdue tabs', 409);
+  }
+
+  return applyC2BToTab(supabase, row as C2BTransactionRow, tabId, barId, 'manual', staffUserId);
+}
+
+/**
+ * URLs Safaricom calls for a shortcode's C2B payments (same for all tenants)
+ */
+export function getC2BUrls(): { confirmationUrl: string; validationUrl: string } {
+  const callbackUrl = process.env.MPESA_CALLBACK_URL || 'https://app.tabeza.co.ke/api/payments/mpesa/callback';
+  const origin = new URL(callbackUrl).origin;
+  return {
+    confirmationUrl: `${origin}/api/mpesa/c2b/confirmation`,
+    validationUrl: `${origin}/api/mpesa/c2b/validation`
+  };
+}
+
+/**
+ * Register the C2B confirmation/validation URLs for a bar's shortcode
+ * Payments are completed if the validation URL cannot be reached. The URLs
+ * carry the callback token, like the STK CallBackURL.
+ */
+export async function registerC2BUrls(config: MpesaConfig): Promise<{ ResponseDescription?: string }> {
+  const { confirmationUrl, validationUrl } = getC2BUrls();
+
+  const accessToken = await getOAuthToken(config);
+  const response = await fetch(`${getDarajaBaseUrl(config)}/mpesa/c2b/v1/registerurl`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      ShortCode: config.businessShortcode,
+      ResponseType: 'Completed',
+      ConfirmationURL: signCallbackUrl(confirmationUrl),
+      ValidationURL: signCallbackUrl(validationUrl)
+    })
+  });
+
+  const result: any = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new C2BError(
+      `C2B URL registration failed: ${result.errorMessage || result.ResponseDescription || response.statusText}`,
+      502,
+      result
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Every shortcode a bar takes payments on: its own and its tills'
+ */
+async function getBarShortcodes(supabase: SupabaseClient, barId: string): Promise<string[]> {
+  const [barResult, tillsResult] = await Promise.all([
+    supabase.from('bars').select('mpesa_business_shortcode').eq('id', barId).single(),
+    supabase.from('bar_mpesa_tills').select('business_shortcode').eq('bar_id', barId)
+  ]);
+
+  if (barResult.error || !barResult.data) {
+    throw new C2BError('Bar not found', 404, barResult.error);
+  }
+  if (tillsResult.error) {
+    throw new C2BError(`Failed to load bar tills: ${tillsResult.error.message}`, 500, tillsResult.error);
+  }
+
+  const shortcodes = [
+    barResult.data.mpesa_business_shortcode,
+    ...(tillsResult.data || []).map((till: { business_shortcode: string }) => till.business_shortcode)
+  ];
+  return Array.from(new Set(shortcodes.filter((shortcode): shortcode is string => !!shortcode)));
+}
+
+/**
+ * Unmatched payments a bar's staff can assign
+ * Includes payments to the bar's shortcode that could not be tied to a single bar.
+ */
+export async function listUnmatchedC2BTransactions(
+  supabase: SupabaseClient,
+  barId: string,
+  limit: number = 50
+): Promise<C2BTransactionRow[]> {
+  const shortcodes = await getBarShortcodes(supabase, barId);
+
+  let query = supabase
+    .from('mpesa_c2b_transactions')
+    .select('*')
+    .eq('status', 'unmatched')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  query = shortcodes.length > 0
+    ? query.or(`bar_id.eq.${barId},and(bar_id.is.null,business_shortcode.in.(${shortcodes.join(',')}))`)
+    : query.eq('bar_id', barId);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new C2BError(`Failed to load unmatched payments: ${error.message}`, 500, error);
+  }
+
+  return (data || []) as C2BTransactionRow[];
+}
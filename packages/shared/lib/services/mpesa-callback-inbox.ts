@@ -0,0 +1,528 @@
+/**
+ * M-Pesa Callback Inbox
+ *
+ * Every STK callback that passes the source checks is stored in
+ * `mpesa_callback_inbox`, keyed on CheckoutRequestID + MerchantRequestID,
+ * before anything is done with it:
+ * - Safaricom retries of a callback that was already handled are counted and
+ *   acknowledged without touching the payment again
+ * - the payment's pending -> success/failed transition is guarded, so balance
+ *   updates, notifications and auto-close run exactly once even when the STK
+ *   reconciler got there first
+ * - the raw payload is kept so callbacks can be replayed against a tab after
+ *   a bug fix (replayMpesaCallbacks)
+ *
+ * Source checks: Safaricom does not sign callbacks, so requests must come from
+ * an allow-listed IP and, when MPESA_CALLBACK_SECRET is set, carry the token
+ * that signCallbackUrl adds to the CallBackURL. The C2B confirmation and
+ * validation routes and the refund result and timeout routes apply the same
+ * checks.
+ *
+ * Server-side only: requires a service-role client.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isDarajaSimulatorEnabled } from './mpesa-config';
+import { applyMpesaPaymentOutcome, type MpesaPaymentStatus } from './mpesa-payment-outcome';
+
+/**
+ * - received: stored, being processed
+ * - processed: the outcome was applied to the payment
+ * - already_resolved: the payment already had a final status (e.g. from the reconciler)
+ * - payment_not_found: no M-Pesa payment has this CheckoutRequestID
+ * - failed: processing threw; a Safaricom retry or a replay tries again
+ */
+export type MpesaCallbackInboxStatus = 'received' | 'processed' | 'already_resolved' | 'payment_not_found' | 'failed';
+
+export interface ParsedStkCallback {
+  checkoutRequestId: string;
+  merchantRequestId: string;
+  resultCode: number;
+  resultDesc: string;
+  status: MpesaPaymentStatus;
+  mpesaReceiptNumber?: string;
+  transactionDate?: string;
+  phoneNumber?: string;
+}
+
+export interface MpesaCallbackInboxRow {
+  id: string;
+  checkout_request_id: string;
+  merchant_request_id: string;
+  result_code: number;
+  source_ip: string | null;
+  raw_payload: any;
+  status: MpesaCallbackInboxStatus;
+  payment_id: string | null;
+  tab_id: string | null;
+  bar_id: string | null;
+  receive_count: number;
+  replay_count: number;
+  error: string | null;
+  processed_at: string | null;
+  created_at: string;
+}
+
+export interface MpesaCallbackIngestResult {
+  inboxId: string;
+  status: MpesaCallbackInboxStatus;
+  /** The callback had been received before and was not processed again */
+  duplicate: boolean;
+  paymentId: string | null;
+  tabId: string | null;
+}
+
+export interface MpesaCallbackReplayItem {
+  inboxId: string;
+  checkoutRequestId: string;
+  status: MpesaCallbackInboxStatus;
+  /** The replay changed the payment */
+  applied: boolean;
+  message: string;
+}
+
+interface CallbackPayment {
+  id: string;
+  tab_id: string;
+  amount: number;
+  tip_amount: number | null;
+  service_charge_amount: number | null;
+  status: string;
+  metadata: any;
+  tabs: { bar_id: string } | { bar_id: string }[];
+}
+
+/** Safaricom's published callback source addresses */
+export const SAFARICOM_CALLBACK_IPS = [
+  '196.201.214.200',
+  '196.201.214.206',
+  '196.201.213.114',
+  '196.201.214.207',
+  '196.201.214.208',
+  '196.201.213.44',
+  '196.201.212.127',
+  '196.201.212.138',
+  '196.201.212.129',
+  '196.201.212.136',
+  '196.201.212.74',
+  '196.201.212.69'
+];
+
+export const CALLBACK_TOKEN_PARAM = 'token';
+
+const INBOX_COLUMNS = `
+  id, checkout_request_id, merchant_request_id, result_code, source_ip, raw_payload, status,
+  payment_id, tab_id, bar_id, receive_count, replay_count, error, processed_at, created_at
+`;
+
+export class MpesaCallbackError extends Error {
+  constructor(message: string, public statusCode: number = 400, public originalError?: any) {
+    super(message);
+    this.name = 'MpesaCallbackError';
+  }
+}
+
+const pickOne = <T>(value: T | T[]): T => (Array.isArray(value) ? value[0] : value);
+
+/**
+ * Client address as reported by the platform's proxy
+ * On Vercel that is the address Vercel itself saw. Elsewhere the caller can
+ * write anything into X-Forwarded-For, so only the entries appended by our own
+ * proxies count: the right-most hop, or MPESA_CALLBACK_PROXY_HOPS from the
+ * right when several proxies sit in front of the app.
+ */
+export function getCallbackSourceIp(headers: Headers): string | null {
+  if (process.env.VERCEL) {
+    return (headers.get('x-vercel-forwarded-for') || headers.get('x-real-ip'))?.split(',')[0].trim() || null;
+  }
+
+  const hops = (headers.get('x-forwarded-for') || '').split(',').map(hop => hop.trim()).filter(Boolean);
+  const trustedHops = Math.max(1, parseInt(process.env.MPESA_CALLBACK_PROXY_HOPS || '1', 10) || 1);
+  return hops[hops.length - trustedHops] || null;
+}
+
+/**
+ * Allowed callback sources: MPESA_CALLBACK_ALLOWED_IPS (comma-separated IPs or
+ * IPv4 CIDR ranges) replaces Safaricom's list when set
+ */
+export function getAllowedCallbackIps(): string[] {
+  const configured = process.env.MPESA_CALLBACK_ALLOWED_IPS;
+  if (!configured) return SAFARICOM_CALLBACK_IPS;
+  return configured.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+/**
+ * The IP check is off while the Daraja simulator is enabled (its callbacks
+ * come from the app itself) or when MPESA_CALLBACK_IP_CHECK=off, but never in
+ * a production deployment, whatever those flags say
+ */
+export function isCallbackIpCheckEnabled(): boolean {
+  const production = process.env.NODE_ENV === 'production' || process.env.VERCEL_ENV === 'production';
+  if (production) return true;
+  return !isDarajaSimulatorEnabled() && process.env.MPESA_CALLBACK_IP_CHECK !== 'off';
+}
+
+const ipv4ToNumber = (ip: string): number | null => {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    const octet = Number(part);
+    if (!/^\d{1,3}$/.test(part) || octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+};
+
+/**
+ * Whether an address matches one of the allow-list entries
+ */
+export function isCallbackIpAllowed(ip: string | null, allowed: string[] = getAllowedCallbackIps()): boolean {
+  if (!ip) return false;
+  // IPv4-mapped IPv6, as some proxies report it
+  const address = ip.startsWith('::ffff:') ? ip.slice('::ffff:'.length) : ip;
+
+  return allowed.some(entry => {
+    if (!entry.includes('/')) return entry === address;
+
+    const [range, bitsText] = entry.split('/');
+    const bits = Number(bitsText);
+    const rangeValue = ipv4ToNumber(range);
+    const addressValue = ipv4ToNumber(address);
+    if (rangeValue === null || addressValue === null || !(bits >= 0 && bits <= 32)) return false;
+
+    const size = 2 ** (32 - bits);
+    return Math.floor(rangeValue / size) === Math.floor(addressValue / size);
+  });
+}
+
+function callbackToken(secret: string, pathname: string): string {
+  return createHmac('sha256', secret).update(pathname).digest('hex');
+}
+
+/**
+ * Add the callback token to a CallBackURL when MPESA_CALLBACK_SECRET is set
+ */
+export function signCallbackUrl(url: string): string {
+  const secret = process.env.MPESA_CALLBACK_SECRET;
+  if (!secret) return url;
+
+  const signed = new URL(url);
+  signed.searchParams.set(CALLBACK_TOKEN_PARAM, callbackToken(secret, signed.pathname));
+  return signed.toString();
+}
+
+/**
+ * Check the token on an incoming callback URL; always true without MPESA_CALLBACK_SECRET
+ */
+export function verifyCallbackUrl(url: string): boolean {
+  const secret = process.env.MPESA_CALLBACK_SECRET;
+  if (!secret) return true;
+
+  const parsed = new URL(url);
+  const token = parsed.searchParams.get(CALLBACK_TOKEN_PARAM) || '';
+  const expected = callbackToken(secret, parsed.pathname);
+
+  return token.length === expected.length &&
+    timingSafeEqual(Buffer.from(token), Buffer.from(expected));
+}
+
+/**
+ * Validate an STK callback body and pull out what the payment needs
+ */
+export function parseStkCallback(payload: any): ParsedStkCallback {
+  const stkCallback = payload?.Body?.stkCallback;
+  if (!stkCallback) {
+    throw new MpesaCallbackError('Invalid callback structure');
+  }
+  if (!stkCallback.CheckoutRequestID) {
+    throw new MpesaCallbackError('Missing CheckoutRequestID');
+  }
+  if (stkCallback.ResultCode === undefined || stkCallback.ResultCode === null) {
+    throw new MpesaCallbackError('Missing ResultCode');
+  }
+
+  const resultCode = Number(stkCallback.ResultCode);
+  const parsed: ParsedStkCallback = {
+    checkoutRequestId: String(stkCallback.CheckoutRequestID),
+    merchantRequestId: String(stkCallback.MerchantRequestID || ''),
+    resultCode,
+    resultDesc: stkCallback.ResultDesc || '',
+    // Requirement 3.2 & 3.3: Determine payment status based on ResultCode
+    status: resultCode === 0 ? 'success' : 'failed'
+  };
+
+  const items = stkCallback.CallbackMetadata?.Item;
+  if (parsed.status === 'success' && Array.isArray(items)) {
+    const read = (name: string) => items.find((item: any) => item?.Name === name)?.Value?.toString();
+    parsed.mpesaReceiptNumber = read('MpesaReceiptNumber');
+    parsed.transactionDate = read('TransactionDate');
+    parsed.phoneNumber = read('PhoneNumber');
+  }
+
+  return parsed;
+}
+
+async function updateInbox(supabase: SupabaseClient, id: string, values: Record<string, any>): Promise<void> {
+  const { error } = await supabase
+    .from('mpesa_callback_inbox')
+    .update(values)
+    .eq('id', id);
+
+  if (error) {
+    console.error('Failed to update callback inbox entry:', { inboxId: id, error });
+  }
+}
+
+async function findPayment(supabase: SupabaseClient, checkoutRequestId: string): Promise<CallbackPayment | null> {
+  const { data, error } = await supabase
+    .from('tab_payments')
+    .select('id, tab_id, amount, tip_amount, service_charge_amount, status, metadata, tabs!inner(bar_id)')
+    .eq('reference', checkoutRequestId)
+    .eq('method', 'mpesa')
+    .maybeSingle();
+
+  if (error) {
+    throw new MpesaCallbackError(`Failed to look up payment: ${error.message}`, 500, error);
+  }
+  return data as unknown as CallbackPayment | null;
+}
+
+/**
+ * Apply one stored callback to its payment
+ * The status change is guarded on the payment's current status, so running a
+ * callback twice never repeats the balance update or the auto-close.
+ */
+async function processInboxEntry(
+  supabase: SupabaseClient,
+  entry: Pick<MpesaCallbackInboxRow, 'id' | 'raw_payload'>,
+  options: { barId?: string; replay?: boolean } = {}
+): Promise<{ status: MpesaCallbackInboxStatus; applied: boolean; payment: CallbackPayment | null; message: string }> {
+  const callback = parseStkCallback(entry.raw_payload);
+
+  try {
+    const payment = await findPayment(supabase, callback.checkoutRequestId);
+    if (!payment || (options.barId && pickOne(payment.tabs).bar_id !== options.barId)) {
+      await updateInbox(supabase, entry.id, { status: 'payment_not_found', error: null, processed_at: new Date().toISOString() });
+      return { status: 'payment_not_found', applied: false, payment: null, message: 'No M-Pesa payment for this CheckoutRequestID' };
+    }
+
+    const link = { payment_id: payment.id, tab_id: payment.tab_id, bar_id: pickOne(payment.tabs).bar_id };
+
+    // A replay may correct a final status a bug got wrong; live callbacks only resolve pending payments
+    const expectedStatus = payment.status === 'pending' || !options.replay ? 'pending' : payment.status;
+    const { updated } = payment.status === callback.status
+      ? { updated: false }
+      : await applyMpesaPaymentOutcome(supabase, payment, {
+        status: callback.status,
+        // Requirement 3.5: Store complete callback data in metadata field
+        metadata: entry.raw_payload,
+        mpesaReceiptNumber: callback.mpesaReceiptNumber,
+        transactionDate: callback.transactionDate,
+        phoneNumber: callback.phoneNumber,
+        failureReason: callback.resultDesc
+      }, { expectedStatus });
+
+    if (updated) {
+      await updateInbox(supabase, entry.id, { ...link, status: 'processed', error: null, processed_at: new Date().toISOString() });
+      return { status: 'processed', applied: true, payment, message: `Payment marked ${callback.status}` };
+    }
+
+    // Resolved elsewhere with the same outcome: keep the callback's receipt details on the payment
+    if (payment.status === callback.status && !payment.metadata?.Body?.stkCallback) {
+      await supabase
+        .from('tab_payments')
+        .update({ metadata: { ...(payment.metadata || {}), ...entry.raw_payload } })
+        .eq('id', payment.id);
+    }
+
+    await updateInbox(supabase, entry.id, { ...link, status: 'already_resolved', error: null, processed_at: new Date().toISOString() });
+    return {
+      status: 'already_resolved',
+      applied: false,
+      payment,
+      message: payment.status === callback.status
+        ? `Payment was already ${payment.status}`
+        : `Payment is ${payment.status}; callback says ${callback.status}`
+    };
+  } catch (error) {
+    await updateInbox(supabase, entry.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    throw error;
+  }
+}
+
+/**
+ * Store an incoming STK callback and apply it unless it was seen before
+ */
+export async function ingestMpesaCallback(
+  supabase: SupabaseClient,
+  payload: any,
+  options: { sourceIp?: string | null } = {}
+): Promise<MpesaCallbackIngestResult> {
+  const callback = parseStkCallback(payload);
+  const now = new Date().toISOString();
+
+  const { data: inserted, error: insertError } = await supabase
+    .from('mpesa_callback_inbox')
+    .insert({
+      checkout_request_id: callback.checkoutRequestId,
+      merchant_request_id: callback.merchantRequestId,
+      result_code: callback.resultCode,
+      source_ip: options.sourceIp || null,
+      raw_payload: payload,
+      status: 'received',
+      last_received_at: now
+    })
+    .select(INBOX_COLUMNS)
+    .single();
+
+  let entry = inserted as MpesaCallbackInboxRow | null;
+
+  if (insertError) {
+    if (insertError.code !== '23505') {
+      throw new MpesaCallbackError(`Failed to store callback: ${insertError.message}`, 500, insertError);
+    }
+
+    // Seen before: count the retry, and only process again if the last attempt failed
+    const { data: existing, error: existingError } = await supabase
+      .from('mpesa_callback_inbox')
+      .select(INBOX_COLUMNS)
+      .eq('checkout_request_id', callback.checkoutRequestId)
+      .eq('merchant_request_id', callback.merchantRequestId)
+      .single();
+
+    if (existingError || !existing) {
+      throw new MpesaCallbackError('Failed to load stored callback', 500, existingError);
+    }
+
+    const row = existing as MpesaCallbackInboxRow;
+    await updateInbox(supabase, row.id, { receive_count: (row.receive_count || 1) + 1, last_received_at: now });
+
+    const { data: reclaimed } = row.status === 'failed'
+      ? await supabase
+        .from('mpesa_callback_inbox')
+        .update({ status: 'received' })
+        .eq('id', row.id)
+        .eq('status', 'failed')
+        .select(INBOX_COLUMNS)
+      : { data: null };
+
+    if (!reclaimed || reclaimed.length === 0) {
+      return {
+        inboxId: row.id,
+        status: row.status,
+        duplicate: true,
+        paymentId: row.payment_id,
+        tabId: row.tab_id
+      };
+    }
+    entry = reclaimed[0] as MpesaCallbackInboxRow;
+  }
+
+  if (!entry) {
+    throw new MpesaCallbackError('Failed to store callback', 500);
+  }
+
+  const result = await processInboxEntry(supabase, entry);
+  return {
+    inboxId: entry.id,
+    status: result.status,
+    duplicate: false,
+    paymentId: result.payment?.id ?? null,
+    tabId: result.payment?.tab_id ?? null
+  };
+}
+
+/**
+ * Re-run stored callbacks, one entry or every callback for a tab
+ * Used after a bug fix; callbacks whose outcome the payment already has are left alone.
+ */
+export async function replayMpesaCallbacks(
+  supabase: SupabaseClient,
+  barId: string,
+  target: { tabId?: string; inboxId?: string },
+  replayedBy: string
+): Promise<MpesaCallbackReplayItem[]> {
+  if (!target.tabId && !target.inboxId) {
+    throw new MpesaCallbackError('A tab or callback to replay is required');
+  }
+
+  let query = supabase
+    .from('mpesa_callback_inbox')
+    .select(INBOX_COLUMNS)
+    .order('created_at', { ascending: true });
+
+  query = target.inboxId
+    ? query.eq('id', target.inboxId)
+    : query.eq('tab_id', target.tabId!).eq('bar_id', barId);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new MpesaCallbackError(`Failed to load stored callbacks: ${error.message}`, 500, error);
+  }
+
+  // Entries without a bar never matched a payment; processInboxEntry checks the bar once one is found
+  const entries = ((data || []) as MpesaCallbackInboxRow[])
+    .filter(entry => !entry.bar_id || entry.bar_id === barId);
+  if (target.inboxId && entries.length === 0) {
+    throw new MpesaCallbackError('Callback not found', 404);
+  }
+
+  const items: MpesaCallbackReplayItem[] = [];
+  for (const entry of entries) {
+    await updateInbox(supabase, entry.id, {
+      replay_count: (entry.replay_count || 0) + 1,
+      last_replayed_at: new Date().toISOString(),
+      last_replayed_by: replayedBy
+    });
+
+    try {
+      const result = await processInboxEntry(supabase, entry, { barId, replay: true });
+      items.push({
+        inboxId: entry.id,
+        checkoutRequestId: entry.checkout_request_id,
+        status: result.status,
+        applied: result.applied,
+        message: result.message
+      });
+    } catch (err) {
+      items.push({
+        inboxId: entry.id,
+        checkoutRequestId: entry.checkout_request_id,
+        status: 'failed',
+        applied: false,
+        message: err instanceof Error ? err.message : 'Replay failed'
+      });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Stored callbacks for a bar, newest first
+ */
+export async function listMpesaCallbackInbox(
+  supabase: SupabaseClient,
+  barId: string,
+  options: { tabId?: string; limit?: number } = {}
+): Promise<MpesaCallbackInboxRow[]> {
+  let query = supabase
+    .from('mpesa_callback_inbox')
+    .select(INBOX_COLUMNS)
+    .eq('bar_id', barId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 50);
+
+  if (options.tabId) query = query.eq('tab_id', options.tabId);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new MpesaCallbackError(`Failed to load stored callbacks: ${error.message}`, 500, error);
+  }
+  return (data || []) as MpesaCallbackInboxRow[];
+}
@@ -8,7 +8,7 @@
 
 import { decryptFromBytea } from './mpesa-encryption';
 
-export type MpesaEnvironment = 'sandbox' | 'production';
+export type MpesaEnvironment = 'sandbox' | 'production' | 'simulator';
 
 export interface MpesaConfig {
   environment: MpesaEnvironment;
@@ -56,12 +56,21 @@ export function loadMpesaConfigFromBar(barData: BarMpesaData): MpesaConfig {
   // Check for missing required fields
   if (!barData.mpesa_environment) missingFields.push('mpesa_environment');
 
+  // MPESA_MOCK_MODE sends every bar to the Daraja simulator
+  if (process.env.MPESA_MOCK_MODE === 'true') {
+    return loadSimulatorConfig(barData, getGlobalCallbackUrl());
+  }
+
   // Validate environment
   const environment = validateEnvironment(barData.mpesa_environment);
 
   // Get global callback URL (same for all tenants)
   const callbackUrl = getGlobalCallbackUrl();
 
+  if (environment === 'simulator') {
+    return loadSimulatorConfig(barData, callbackUrl);
+  }
+
   // For sandbox environment, use standard Safaricom test credentials if not provided
   if (environment === 'sandbox') {
     return loadSandboxConfig(barData, missingFields, callbackUrl);
@@ -209,9 +218,67 @@ function loadSandboxConfig(barData: BarMpesaData, missingFields: string[], callb
   return config;
 }
 
+/**
+ * Load configuration for the local Daraja simulator (see mpesa-mock-daraja)
+ * No Safaricom credentials are needed; the bar's shortcode is kept if it has one.
+ */
+function loadSimulatorConfig(barData: BarMpesaData, callbackUrl: string): MpesaConfig {
+  if (!isDarajaSimulatorEnabled()) {
+    throw new MpesaConfigurationError(
+      'The M-Pesa simulator is not enabled on this server (set MPESA_SIMULATOR_ENABLED=true)'
+    );
+  }
+
+  const sandboxInfo = getSandboxConfigInfo();
+  const urls = getEnvironmentUrls('simulator');
+
+  const config: MpesaConfig = {
+    environment: 'simulator',
+    consumerKey: 'simulator_consumer_key',
+    consumerSecret: 'simulator_consumer_secret',
+    businessShortcode: barData.mpesa_business_shortcode || sandboxInfo.businessShortcode,
+    passkey: sandboxInfo.passkey,
+    callbackUrl,
+    oauthUrl: urls.oauth,
+    stkPushUrl: urls.stkPush,
+    stkQueryUrl: urls.stkQuery,
+  };
+
+  validateConfig(config);
+
+  return config;
+}
+
+/**
+ * Whether bars may use the 'simulator' environment on this server
+ * Never enable in production: simulated payments close real tabs.
+ */
+export function isDarajaSimulatorEnabled(): boolean {
+  return process.env.MPESA_SIMULATOR_ENABLED === 'true' || process.env.MPESA_MOCK_MODE === 'true';
+}
+
+/**
+ * Base URL of the Daraja simulator
+ * Defaults to the customer app's /api/mpesa/mock-daraja route, next to the callback URL.
+ */
+export function getSimulatorBaseUrl(): string {
+  if (process.env.MPESA_MOCK_DARAJA_URL) {
+    return process.env.MPESA_MOCK_DARAJA_URL.replace(/\/+$/, '');
+  }
+  const callbackUrl = process.env.MPESA_CALLBACK_URL || 'http://localhost:3002/api/mpesa/callback';
+  return `${new URL(callbackUrl).origin}/api/mpesa/mock-daraja`;
+}
+
+/**
+ * Daraja base URL for a configuration (the simulator's includes a path)
+ */
+export function getDarajaBaseUrl(config: MpesaConfig): string {
+  return config.oauthUrl.replace(/\/oauth\/v1\/generate$/, '');
+}
+
 /**
  * Get and validate M-Pesa environment from bar data
- * Requirement 4.2: Support both sandbox and production environments
+ * Requirement 4.2: Support sandbox and production environments, plus the local simulator
  */
 function validateEnvironment(env: string): MpesaEnvironment {
   if (!env) {
@@ -221,9 +288,9 @@ function validateEnvironment(env: string): MpesaEnvironment {
   }
 
   const normalizedEnv = env.toLowerCase();
-  if (normalizedEnv !== 'sandbox' && normalizedEnv !== 'production') {
+  if (normalizedEnv !== 'sandbox' && normalizedEnv !== 'production' && normalizedEnv !== 'simulator') {
     throw new MpesaConfigurationError(
-      `Invalid mpesa_environment: "${env}". Must be "sandbox" or "production"`
+      `Invalid mpesa_environment: "${env}". Must be "sandbox", "production" or "simulator"`
     );
   }
 
@@ -234,9 +301,11 @@ function validateEnvironment(env: string): MpesaEnvironment {
  * Get environment-specific API URLs
  */
 function getEnvironmentUrls(environment: MpesaEnvironment) {
-  const baseUrl = environment === 'sandbox' 
-    ? 'https://sandbox.safaricom.co.ke'
-    : 'https://api.safaricom.co.ke';
+  const baseUrl = environment === 'simulator'
+    ? getSimulatorBaseUrl()
+    : environment === 'sandbox'
+      ? 'https://sandbox.safaricom.co.ke'
+      : 'https://api.safaricom.co.ke';
 
   return {
     oauth: `${baseUrl}/oauth/v1/generate`,
@@ -296,7 +365,7 @@ function validateConfig(config: MpesaConfig): void {
     if (config.oauthUrl.includes('sandbox')) {
       errors.push('Production environment cannot use sandbox URLs');
     }
-  } else {
+  } else if (config.environment === 'sandbox') {
     if (!config.oauthUrl.includes('sandbox')) {
       errors.push('Sandbox environment must use sandbox URLs');
     }
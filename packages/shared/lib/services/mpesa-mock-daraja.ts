@@ -0,0 +1,747 @@
+/**
+ * Daraja Simulator
+ * A local stand-in for the Safaricom Daraja endpoints Tabeza calls: OAuth,
+ * STK push, STK query, C2B URL registration and simulation, Transaction
+ * Reversal and B2C. Requests are validated and acknowledged the way Daraja
+ * does, and the asynchronous callback or Result is then POSTed to the URL
+ * given in the request.
+ *
+ * Each request plays a scenario (user cancels, insufficient funds, timeout,
+ * delayed or duplicate callback, ...). The default comes from the simulator's
+ * options; POST /simulator/scenario scripts one per shortcode so the staff
+ * SandboxTestingPanel can drive it. GET /simulator/state lists what it saw.
+ *
+ * Bars on the 'simulator' M-Pesa environment (or every bar in MPESA_MOCK_MODE)
+ * are pointed at it by mpesa-config. It is served by the customer app's
+ * /api/mpesa/mock-daraja route and, in tests, by startMockDarajaServer().
+ * Server-side only; not exported from the package index.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { getDarajaBaseUrl, type MpesaConfig } from './mpesa-config';
+import { getOAuthToken } from './mpesa-oauth';
+
+/** How the simulator answers a request */
+export type MockDarajaScenario =
+  | 'success'
+  | 'cancelled'
+  | 'insufficient_funds'
+  | 'timeout'
+  | 'delayed'
+  | 'duplicate'
+  | 'failed';
+
+export const MOCK_DARAJA_SCENARIOS: MockDarajaScenario[] = [
+  'success',
+  'cancelled',
+  'insufficient_funds',
+  'timeout',
+  'delayed',
+  'duplicate',
+  'failed'
+];
+
+export type MockDarajaTransactionType = 'stk' | 'c2b' | 'reversal' | 'b2c';
+
+export interface MockDarajaCallback {
+  url: string;
+  payload: any;
+  /** How long after the response to deliver it */
+  delayMs: number;
+}
+
+export interface MockDarajaResponse {
+  status: number;
+  body: any;
+  /** Callbacks to deliver after the response has been sent */
+  callbacks: MockDarajaCallback[];
+}
+
+export interface MockDarajaTransaction {
+  id: string;
+  type: MockDarajaTransactionType;
+  shortCode: string;
+  amount: number;
+  phoneNumber: string | null;
+  reference: string | null;
+  scenario: MockDarajaScenario;
+  resultCode: number | string | null;
+  resultDesc: string | null;
+  createdAt: string;
+  /** When the result is final (STK query stops answering "being processed") */
+  resolvesAt: string;
+  callbackCount: number;
+}
+
+export interface MockDarajaState {
+  defaultScenario: MockDarajaScenario;
+  scenarios: Record<string, MockDarajaScenario>;
+  registeredShortCodes: string[];
+  transactions: MockDarajaTransaction[];
+}
+
+export interface MockDarajaOptions {
+  scenario?: MockDarajaScenario;
+  /** Delay before a normal callback */
+  callbackDelayMs?: number;
+  /** Delay before the callback of the 'delayed' scenario */
+  delayedCallbackMs?: number;
+}
+
+export interface MockDaraja {
+  handle(method: string, path: string, body: any): MockDarajaResponse;
+  setScenario(scenario: MockDarajaScenario, shortCode?: string): void;
+  getState(shortCode?: string): MockDarajaState;
+}
+
+export interface MockDarajaRequestLog {
+  method: string;
+  path: string;
+  body: any;
+}
+
+export interface MockDarajaServer {
+  url: string;
+  simulator: MockDaraja;
+  requests: MockDarajaRequestLog[];
+  /** Resolves once every callback sent so far has been delivered */
+  settled(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface MockDarajaServerOptions extends MockDarajaOptions {
+  port?: number;
+}
+
+export class MockDarajaError extends Error {
+  constructor(message: string, public statusCode: number = 400, public originalError?: any) {
+    super(message);
+    this.name = 'MockDarajaError';
+  }
+}
+
+export const MOCK_DARAJA_FAILED_RESULT_CODE = 'R000002';
+
+/** STK results per scenario; 'timeout' never sends a callback */
+export const MOCK_STK_RESULTS: Record<MockDarajaScenario, { code: number; desc: string }> = {
+  success: { code: 0, desc: 'The service request is processed successfully.' },
+  delayed: { code: 0, desc: 'The service request is processed successfully.' },
+  duplicate: { code: 0, desc: 'The service request is processed successfully.' },
+  cancelled: { code: 1032, desc: 'Request cancelled by user' },
+  insufficient_funds: { code: 1, desc: 'The balance is insufficient for the transaction' },
+  timeout: { code: 1037, desc: 'DS timeout user cannot be reached' },
+  failed: { code: 2001, desc: 'The initiator information is invalid.' }
+};
+
+const STILL_PROCESSING = { errorCode: '500.001.1001', errorMessage: 'The transaction is being processed' };
+const MAX_TRANSACTIONS = 100;
+const DEFAULT_DELAYED_CALLBACK_MS = 20000;
+
+let sequence = 0;
+const nextId = (prefix: string) => `${prefix}${Date.now().toString(36).toUpperCase()}${(++sequence).toString().padStart(4, '0')}`;
+
+// Ten characters like a real M-Pesa receipt
+const nextReceipt = () => `SIM${(Date.now() % 1e7).toString(36).toUpperCase()}${(++sequence % 1296).toString(36).toUpperCase()}`
+  .padEnd(10, '0')
+  .slice(0, 10);
+
+export function isMockDarajaScenario(value: unknown): value is MockDarajaScenario {
+  return typeof value === 'string' && (MOCK_DARAJA_SCENARIOS as string[]).includes(value);
+}
+
+function darajaTimestamp(date: Date = new Date()): string {
+  // Daraja timestamps are East Africa Time
+  const eat = new Date(date.getTime() + 3 * 60 * 60 * 1000);
+  return eat.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+function resultParameters(values: Record<string, string | number>) {
+  return {
+    ResultParameter: Object.entries(values).map(([Key, Value]) => ({ Key, Value }))
+  };
+}
+
+function badRequest(field: string): MockDarajaResponse {
+  return {
+    status: 400,
+    body: {
+      requestId: nextId('mock_req_'),
+      errorCode: '400.002.02',
+      errorMessage: `Bad Request - Invalid ${field}`
+    },
+    callbacks: []
+  };
+}
+
+function notFound(method: string, pathname: string): MockDarajaResponse {
+  return {
+    status: 404,
+    body: { errorCode: '404.001.01', errorMessage: `Resource not found: ${method} ${pathname}` },
+    callbacks: []
+  };
+}
+
+const missingField = (body: any, fields: string[]) =>
+  fields.find(field => body?.[field] === undefined || body?.[field] === null || body?.[field] === '');
+
+/**
+ * The callback schedule for a scenario: once, once late, twice or never
+ */
+function schedule(url: string, payload: any, scenario: MockDarajaScenario, delays: Required<Omit<MockDarajaOptions, 'scenario'>>): MockDarajaCallback[] {
+  switch (scenario) {
+    case 'delayed':
+      return [{ url, payload, delayMs: delays.delayedCallbackMs }];
+    case 'duplicate':
+      return [
+        { url, payload, delayMs: delays.callbackDelayMs },
+        { url, payload, delayMs: delays.callbackDelayMs + 500 }
+      ];
+    default:
+      return [{ url, payload, delayMs: delays.callbackDelayMs }];
+  }
+}
+
+function buildRefundResult(
+  kind: 'reversal' | 'b2c',
+  request: any,
+  ids: { ConversationID: string; OriginatorConversationID: string },
+  scenario: MockDarajaScenario
+): { url: string; payload: any; resultCode: number | string; resultDesc: string } | null {
+  if (scenario === 'timeout') {
+    const resultDesc = 'The request timed out in the queue';
+    return request.QueueTimeOutURL
+      ? {
+        url: request.QueueTimeOutURL,
+        resultCode: 1,
+        resultDesc,
+        payload: {
+          Result: {
+            ResultType: 1,
+            ResultCode: 1,
+            ResultDesc: resultDesc,
+            ...ids
+          }
+        }
+      }
+      : null;
+  }
+
+  if (scenario === 'failed' || scenario === 'cancelled' || scenario === 'insufficient_funds') {
+    const resultDesc = kind === 'reversal'
+      ? 'The transaction has already been reversed'
+      : 'Insufficient balance in the utility account';
+    return {
+      url: request.ResultURL,
+      resultCode: MOCK_DARAJA_FAILED_RESULT_CODE,
+      resultDesc,
+      payload: {
+        Result: {
+          ResultType: 0,
+          ResultCode: MOCK_DARAJA_FAILED_RESULT_CODE,
+          ResultDesc: resultDesc,
+          ...ids,
+          TransactionID: nextReceipt()
+        }
+      }
+    };
+  }
+
+  const transactionId = nextReceipt();
+  const completedAt = new Date().toISOString();
+  const resultDesc = 'The service request is processed successfully.';
+  return {
+    url: request.ResultURL,
+    resultCode: 0,
+    resultDesc,
+    payload: {
+      Result: {
+        ResultType: 0,
+        ResultCode: 0,
+        ResultDesc: resultDesc,
+        ...ids,
+        TransactionID: transactionId,
+        ResultParameters: kind === 'reversal'
+          ? resultParameters({
+            Amount: Number(request.Amount),
+            OriginalTransactionID: request.TransactionID,
+            TransCompletedTime: completedAt,
+            CreditPartyPublicName: 'Mock Customer',
+            DebitPartyPublicName: `${request.ReceiverParty} - Mock Bar`
+          })
+          : resultParameters({
+            TransactionAmount: Number(request.Amount),
+            TransactionReceipt: transactionId,
+            ReceiverPartyPublicName: `${request.PartyB} - Mock Customer`,
+            TransactionCompletedDateTime: completedAt
+          })
+      }
+    }
+  };
+}
+
+/**
+ * Create a simulator; state (transactions, scripted scenarios, C2B URLs) lives in the instance
+ */
+export function createMockDaraja(options: MockDarajaOptions = {}): MockDaraja {
+  let defaultScenario: MockDarajaScenario = options.scenario ?? 'success';
+  const delays = {
+    callbackDelayMs: options.callbackDelayMs ?? 0,
+    delayedCallbackMs: options.delayedCallbackMs ?? DEFAULT_DELAYED_CALLBACK_MS
+  };
+  const scenarios = new Map<string, MockDarajaScenario>();
+  const c2bUrls = new Map<string, { confirmationUrl: string; validationUrl: string }>();
+  const transactions: MockDarajaTransaction[] = [];
+  const stkResults = new Map<string, { merchantRequestId: string; resultCode: number; resultDesc: string; resolvesAt: number }>();
+
+  const scenarioFor = (shortCode: string) => scenarios.get(String(shortCode)) ?? defaultScenario;
+
+  const record = (transaction: Omit<MockDarajaTransaction, 'createdAt'>) => {
+    transactions.unshift({ ...transaction, createdAt: new Date().toISOString() });
+    transactions.splice(MAX_TRANSACTIONS);
+  };
+
+  const resolvesAt = (scenario: MockDarajaScenario) =>
+    Date.now() + (scenario === 'delayed' ? delays.delayedCallbackMs : delays.callbackDelayMs);
+
+  function oauth(query: URLSearchParams): MockDarajaResponse {
+    if (query.get('grant_type') !== 'client_credentials') {
+      return {
+        status: 400,
+        body: { errorCode: '400.008.02', errorMessage: 'Invalid grant type passed' },
+        callbacks: []
+      };
+    }
+    return {
+      status: 200,
+      body: { access_token: nextId('mock_token_'), expires_in: '3599' },
+      callbacks: []
+    };
+  }
+
+  function stkPush(body: any): MockDarajaResponse {
+    const missing = missingField(body, [
+      'BusinessShortCode', 'Password', 'Timestamp', 'Amount', 'PartyA', 'PhoneNumber', 'CallBackURL', 'AccountReference'
+    ]);
+    if (missing) return badRequest(missing);
+
+    const password = Buffer.from(String(body.Password), 'base64').toString();
+    if (!password.startsWith(String(body.BusinessShortCode)) || !password.endsWith(String(body.Timestamp))) {
+      return badRequest('Password');
+    }
+    if (!/^254[17]\d{8}$/.test(String(body.PhoneNumber))) return badRequest('PhoneNumber');
+    if (!(Number(body.Amount) >= 1)) return badRequest('Amount');
+
+    const shortCode = String(body.BusinessShortCode);
+    const scenario = scenarioFor(shortCode);
+    const { code, desc } = MOCK_STK_RESULTS[scenario];
+    const merchantRequestId = `${(++sequence).toString().padStart(5, '0')}-${Date.now() % 1e8}-1`;
+    const checkoutRequestId = `ws_CO_${darajaTimestamp()}${(++sequence).toString().padStart(6, '0')}`;
+
+    const payload = {
+      Body: {
+        stkCallback: {
+          MerchantRequestID: merchantRequestId,
+          CheckoutRequestID: checkoutRequestId,
+          ResultCode: code,
+          ResultDesc: desc,
+          ...(code === 0 && {
+            CallbackMetadata: {
+              Item: [
+                { Name: 'Amount', Value: Number(body.Amount) },
+                { Name: 'MpesaReceiptNumber', Value: nextReceipt() },
+                { Name: 'TransactionDate', Value: Number(darajaTimestamp()) },
+                { Name: 'PhoneNumber', Value: Number(body.PhoneNumber) }
+              ]
+            }
+          })
+        }
+      }
+    };
+
+    const callbacks = scenario === 'timeout' ? [] : schedule(String(body.CallBackURL), payload, scenario, delays);
+    stkResults.set(checkoutRequestId, { merchantRequestId, resultCode: code, resultDesc: desc, resolvesAt: resolvesAt(scenario) });
+    record({
+      id: checkoutRequestId,
+      type: 'stk',
+      shortCode,
+      amount: Number(body.Amount),
+      phoneNumber: String(body.PhoneNumber),
+      reference: String(body.AccountReference),
+      scenario,
+      resultCode: code,
+      resultDesc: desc,
+      resolvesAt: new Date(resolvesAt(scenario)).toISOString(),
+      callbackCount: callbacks.length
+    });
+
+    return {
+      status: 200,
+      body: {
+        MerchantRequestID: merchantRequestId,
+        CheckoutRequestID: checkoutRequestId,
+        ResponseCode: '0',
+        ResponseDescription: 'Success. Request accepted for processing',
+        CustomerMessage: 'Success. Request accepted for processing'
+      },
+      callbacks
+    };
+  }
+
+  function stkQuery(body: any): MockDarajaResponse {
+    const missing = missingField(body, ['BusinessShortCode', 'Password', 'Timestamp', 'CheckoutRequestID']);
+    if (missing) return badRequest(missing);
+
+    const result = stkResults.get(String(body.CheckoutRequestID));
+    if (!result) return badRequest('CheckoutRequestID');
+
+    if (Date.now() < result.resolvesAt) {
+      return {
+        status: 500,
+        body: { requestId: nextId('mock_req_'), ...STILL_PROCESSING },
+        callbacks: []
+      };
+    }
+
+    return {
+      status: 200,
+      body: {
+        ResponseCode: '0',
+        ResponseDescription: 'The service request has been accepted successsfully',
+        MerchantRequestID: result.merchantRequestId,
+        CheckoutRequestID: body.CheckoutRequestID,
+        ResultCode: String(result.resultCode),
+        ResultDesc: result.resultDesc
+      },
+      callbacks: []
+    };
+  }
+
+  function registerUrls(body: any): MockDarajaResponse {
+    const missing = missingField(body, ['ShortCode', 'ResponseType', 'ConfirmationURL', 'ValidationURL']);
+    if (missing) return badRequest(missing);
+
+    c2bUrls.set(String(body.ShortCode), {
+      confirmationUrl: String(body.ConfirmationURL),
+      validationUrl: String(body.ValidationURL)
+    });
+
+    return {
+      status: 200,
+      body: {
+        OriginatorCoversationID: nextId('mock-'),
+        ResponseCode: '0',
+        ResponseDescription: 'Success'
+      },
+      callbacks: []
+    };
+  }
+
+  function simulateC2B(body: any): MockDarajaResponse {
+    const missing = missingField(body, ['ShortCode', 'CommandID', 'Amount', 'Msisdn']);
+    if (missing) return badRequest(missing);
+
+    const shortCode = String(body.ShortCode);
+    const urls = c2bUrls.get(shortCode);
+    if (!urls) {
+      return {
+        status: 400,
+        body: {
+          requestId: nextId('mock_req_'),
+          errorCode: '400.002.02',
+          errorMessage: `Bad Request - No C2B URLs registered for ShortCode ${shortCode}`
+        },
+        callbacks: []
+      };
+    }
+
+    // The customer has already paid; only delivery can go wrong
+    const scenario = scenarioFor(shortCode);
+    const transId = nextReceipt();
+    const payload = {
+      TransactionType: body.CommandID === 'CustomerBuyGoodsOnline' ? 'Buy Goods' : 'Pay Bill',
+      TransID: transId,
+      TransTime: darajaTimestamp(),
+      TransAmount: Number(body.Amount).toFixed(2),
+      BusinessShortCode: shortCode,
+      BillRefNumber: body.BillRefNumber || '',
+      InvoiceNumber: '',
+      OrgAccountBalance: '',
+      ThirdPartyTransID: '',
+      MSISDN: String(body.Msisdn),
+      FirstName: 'Simulated',
+      MiddleName: '',
+      LastName: 'Customer'
+    };
+
+    const callbacks = scenario === 'timeout' ? [] : schedule(urls.confirmationUrl, payload, scenario, delays);
+    record({
+      id: transId,
+      type: 'c2b',
+      shortCode,
+      amount: Number(body.Amount),
+      phoneNumber: String(body.Msisdn),
+      reference: body.BillRefNumber || null,
+      scenario,
+      resultCode: null,
+      resultDesc: null,
+      resolvesAt: new Date(resolvesAt(scenario)).toISOString(),
+      callbackCount: callbacks.length
+    });
+
+    return {
+      status: 200,
+      body: {
+        OriginatorCoversationID: nextId('mock-'),
+        ResponseCode: '0',
+        ResponseDescription: 'Accept the service request successfully.'
+      },
+      callbacks
+    };
+  }
+
+  function refund(kind: 'reversal' | 'b2c', body: any): MockDarajaResponse {
+    const missing = missingField(body, kind === 'reversal'
+      ? ['Initiator', 'SecurityCredential', 'TransactionID', 'Amount', 'ResultURL']
+      : ['InitiatorName', 'SecurityCredential', 'PartyB', 'Amount', 'ResultURL']);
+    if (missing) return badRequest(missing);
+
+    const shortCode = String(kind === 'reversal' ? body.ReceiverParty ?? '' : body.PartyA ?? '');
+    const scenario = scenarioFor(shortCode);
+    const ids = {
+      ConversationID: nextId('AG_MOCK_'),
+      OriginatorConversationID: nextId('mock-')
+    };
+
+    const result = buildRefundResult(kind, body, ids, scenario);
+    const callbacks = result ? schedule(result.url, result.payload, scenario, delays) : [];
+    record({
+      id: ids.ConversationID,
+      type: kind,
+      shortCode,
+      amount: Number(body.Amount),
+      phoneNumber: kind === 'b2c' ? String(body.PartyB) : null,
+      reference: kind === 'reversal' ? String(body.TransactionID) : null,
+      scenario,
+      resultCode: result?.resultCode ?? null,
+      resultDesc: result?.resultDesc ?? null,
+      resolvesAt: new Date(resolvesAt(scenario)).toISOString(),
+      callbackCount: callbacks.length
+    });
+
+    return {
+      status: 200,
+      body: {
+        ...ids,
+        ResponseCode: '0',
+        ResponseDescription: 'Accept the service request successfully.'
+      },
+      callbacks
+    };
+  }
+
+  function getState(shortCode?: string): MockDarajaState {
+    const matches = (code: string) => !shortCode || code === shortCode;
+    return {
+      defaultScenario,
+      scenarios: Object.fromEntries(Array.from(scenarios.entries()).filter(([code]) => matches(code))),
+      registeredShortCodes: Array.from(c2bUrls.keys()).filter(matches),
+      transactions: transactions.filter(transaction => matches(transaction.shortCode))
+    };
+  }
+
+  function setScenario(scenario: MockDarajaScenario, shortCode?: string) {
+    if (shortCode) {
+      scenarios.set(shortCode, scenario);
+    } else {
+      defaultScenario = scenario;
+    }
+  }
+
+  function handle(method: string, path: string, body: any): MockDarajaResponse {
+    const [rawPathname, rawQuery = ''] = path.split('?');
+    const pathname = rawPathname.replace(/\/+$/, '');
+    const query = new URLSearchParams(rawQuery);
+
+    if (method === 'GET') {
+      if (pathname === '/oauth/v1/generate') return oauth(query);
+      if (pathname === '/simulator/state') {
+        return { status: 200, body: getState(query.get('shortCode') || undefined), callbacks: [] };
+      }
+      return notFound(method, pathname);
+    }
+
+    if (method !== 'POST') return notFound(method, pathname);
+
+    switch (pathname) {
+      case '/mpesa/stkpush/v1/processrequest':
+        return stkPush(body);
+      case '/mpesa/stkpushquery/v1/query':
+        return stkQuery(body);
+      case '/mpesa/c2b/v1/registerurl':
+      case '/mpesa/c2b/v2/registerurl':
+        return registerUrls(body);
+      case '/mpesa/c2b/v1/simulate':
+      case '/mpesa/c2b/v2/simulate':
+        return simulateC2B(body);
+      case '/mpesa/reversal/v1/request':
+        return refund('reversal', body);
+      case '/mpesa/b2c/v1/paymentrequest':
+        return refund('b2c', body);
+      case '/simulator/scenario':
+        if (!isMockDarajaScenario(body?.scenario)) return badRequest('scenario');
+        setScenario(body.scenario, body.shortCode ? String(body.shortCode) : undefined);
+        return { status: 200, body: getState(body.shortCode ? String(body.shortCode) : undefined), callbacks: [] };
+      default:
+        return notFound(method, pathname);
+    }
+  }
+
+  return { handle, setScenario, getState };
+}
+
+/**
+ * POST a callback or Result to the caller's URL
+ * Delivery failures are logged; Daraja does not retry either.
+ */
+export async function deliverMockDarajaCallback(callback: MockDarajaCallback): Promise<void> {
+  try {
+    const response = await fetch(callback.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(callback.payload)
+    });
+    if (!response.ok) {
+      console.error('🧪 Mock Daraja: callback rejected', { url: callback.url, status: response.status });
+    }
+  } catch (error) {
+    console.error('🧪 Mock Daraja: callback delivery failed', {
+      url: callback.url,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Deliver a response's callbacks on their schedule
+ */
+export function scheduleMockDarajaCallbacks(callbacks: MockDarajaCallback[]): Promise<void>[] {
+  return callbacks.map(callback => new Promise<void>(resolve => {
+    setTimeout(() => deliverMockDarajaCallback(callback).then(resolve), callback.delayMs);
+  }));
+}
+
+/**
+ * Start the simulator on a local port (a random free one by default)
+ */
+export function startMockDarajaServer(options: MockDarajaServerOptions = {}): Promise<MockDarajaServer> {
+  const simulator = createMockDaraja(options);
+  const requests: MockDarajaRequestLog[] = [];
+  const deliveries: Promise<void>[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      let body: any = null;
+      try {
+        body = raw ? JSON.parse(raw) : null;
+      } catch {
+        body = raw;
+      }
+
+      const method = req.method || 'GET';
+      const path = req.url || '/';
+      requests.push({ method, path, body });
+
+      const response = simulator.handle(method, path, body);
+      res.writeHead(response.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response.body));
+
+      deliveries.push(...scheduleMockDarajaCallbacks(response.callbacks));
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        simulator,
+        requests,
+        settled: async () => {
+          await Promise.all(deliveries);
+        },
+        close: () => new Promise<void>(done => server.close(() => done()))
+      });
+    });
+  });
+}
+
+/**
+ * Call a running simulator on behalf of a bar on the 'simulator' environment
+ */
+async function callSimulator(config: MpesaConfig, method: 'GET' | 'POST', path: string, body?: any): Promise<any> {
+  if (config.environment !== 'simulator') {
+    throw new MockDarajaError('This bar is not using the M-Pesa simulator', 409);
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (path.startsWith('/mpesa/')) {
+    headers.Authorization = `Bearer ${await getOAuthToken(config)}`;
+  }
+
+  const response = await fetch(`${getDarajaBaseUrl(config)}${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+
+  const result: any = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new MockDarajaError(
+      `Simulator request failed: ${result.errorMessage || result.error || response.statusText}`,
+      502,
+      result
+    );
+  }
+  return result;
+}
+
+/**
+ * Scenario, C2B registration and recent transactions for the bar's shortcode
+ */
+export async function getMockDarajaState(config: MpesaConfig): Promise<MockDarajaState> {
+  return callSimulator(config, 'GET', `/simulator/state?shortCode=${encodeURIComponent(config.businessShortcode)}`);
+}
+
+/**
+ * Script how the simulator answers the bar's next requests
+ */
+export async function setMockDarajaScenario(config: MpesaConfig, scenario: MockDarajaScenario): Promise<MockDarajaState> {
+  if (!isMockDarajaScenario(scenario)) {
+    throw new MockDarajaError(`Unknown scenario: ${scenario}`);
+  }
+  return callSimulator(config, 'POST', '/simulator/scenario', { shortCode: config.businessShortcode, scenario });
+}
+
+/**
+ * Have the simulator pay the bar's shortcode directly, as a Paybill customer would
+ * The shortcode's C2B URLs must be registered first (see registerC2BUrls).
+ */
+export async function simulateMockC2BPayment(
+  config: MpesaConfig,
+  payment: { amount: number; phoneNumber: string; accountReference?: string }
+): Promise<{ ResponseDescription?: string }> {
+  if (!(payment.amount >= 1)) {
+    throw new MockDarajaError('Amount must be at least KES 1');
+  }
+  return callSimulator(config, 'POST', '/mpesa/c2b/v1/simulate', {
+    ShortCode: config.businessShortcode,
+    CommandID: 'CustomerPayBillOnline',
+    Amount: Math.round(payment.amount),
+    Msisdn: payment.phoneNumber,
+    BillRefNumber: payment.accountReference || ''
+  });
+}
@@ -0,0 +1,375 @@
+/**
+ * M-Pesa Payment Outcome Service
+ * Applies the final result of an STK push to its tab_payments row: status and
+ * metadata update, real-time notifications, balance update and auto-closing
+ * overdue tabs that are now settled, filing their receipts.
+ *
+ * Shared by the Safaricom callback and the STK status reconciler so a payment
+ * is handled the same way whichever of them learns the result first.
+ * Requires a service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fileClosedTabReceipt } from './tab-receipts';
+import { settleClosedTabDeposit } from './tab-credit';
+
+export type MpesaPaymentStatus = 'success' | 'failed';
+
+export interface MpesaPaymentRecord {
+  id: string;
+  tab_id: string;
+  amount: number;
+  tip_amount?: number | null;
+  service_charge_amount?: number | null;
+}
+
+export interface MpesaPaymentOutcome {
+  status: MpesaPaymentStatus;
+  /** Stored in tab_payments.metadata */
+  metadata: any;
+  mpesaReceiptNumber?: string;
+  transactionDate?: string;
+  phoneNumber?: string;
+  failureReason?: string;
+}
+
+export interface MpesaPaymentOutcomeOptions {
+  /** Only apply the outcome while the payment is still pending */
+  requirePending?: boolean;
+  /** Only apply the outcome while the payment still has this status (used when replaying callbacks) */
+  expectedStatus?: string;
+}
+
+export interface MpesaPaymentOutcomeResult {
+  /** False when the payment no longer had the required status */
+  updated: boolean;
+  autoClosed: boolean;
+}
+
+interface PaymentNotificationPayload {
+  paymentId: string;
+  tabId: string;
+  barId: string;
+  amount: number;
+  tipAmount?: number;
+  serviceChargeAmount?: number;
+  status: MpesaPaymentStatus;
+  method: 'mpesa';
+  timestamp: string;
+  mpesaReceiptNumber?: string;
+  transactionDate?: string;
+  phoneNumber?: string;
+  failureReason?: string;
+}
+
+interface TabAutoCloseNotificationPayload {
+  tabId: string;
+  barId: string;
+  paymentId: string;
+  previousStatus: 'overdue';
+  newStatus: 'closed';
+  finalBalance: number;
+  closedBy: 'system';
+  timestamp: string;
+}
+
+export class MpesaPaymentOutcomeError extends Error {
+  constructor(message: string, public statusCode: number = 500, public originalError?: any) {
+    super(message);
+    this.name = 'MpesaPaymentOutcomeError';
+  }
+}
+
+/**
+ * Process payment and trigger balance updates with notifications
+ * Requirements: 4.1, 4.2 - Real-time balance updates and auto-close detection
+ */
+async function processPaymentBalanceUpdate(
+  paymentId: string,
+  tabId: string,
+  paymentAmount: number,
+  paymentStatus: MpesaPaymentStatus
+): Promise<void> {
+  try {
+    // Only process successful payments for balance updates
+    if (paymentStatus !== 'success') {
+      console.log('Skipping balance update for failed payment:', paymentId);
+      return;
+    }
+
+    // Log balance update for real-time subscriptions to pick up
+    console.log('Balance update triggered:', {
+      paymentId,
+      tabId,
+      amount: paymentAmount,
+      method: 'mpesa',
+      status: paymentStatus,
+      timestamp: new Date().toISOString()
+    });
+
+    // The existing tab_balances view and real-time subscriptions will handle
+    // the actual balance calculations and UI updates automatically
+
+  } catch (error) {
+    console.error('Error processing payment balance update:', {
+      paymentId,
+      tabId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+async function triggerPaymentNotifications(
+  supabase: SupabaseClient,
+  payload: PaymentNotificationPayload
+): Promise<void> {
+  try {
+    // Get tab and bar information for multi-tenant filtering
+    const { data: tabData, error: tabError } = await supabase
+      .from('tabs')
+      .select('bar_id, tab_number')
+      .eq('id', payload.tabId)
+      .single();
+
+    if (tabError || !tabData) {
+      console.error('Failed to get tab data for notifications:', {
+        tabId: payload.tabId,
+        error: tabError
+      });
+      return;
+    }
+
+    // Requirement 6.2: Trigger real-time notifications via Supabase channels
+    // The real-time subscriptions in staff and customer apps will automatically
+    // receive these updates through their existing tab_payments subscriptions
+
+    console.log('Payment notification triggered:', {
+      paymentId: payload.paymentId,
+      tabId: payload.tabId,
+      barId: tabData.bar_id,
+      status: payload.status,
+      amount: payload.amount,
+      tipAmount: payload.tipAmount,
+      serviceChargeAmount: payload.serviceChargeAmount,
+      method: payload.method
+    });
+
+    // Additional logging for successful payments with M-Pesa details
+    if (payload.status === 'success' && payload.mpesaReceiptNumber) {
+      console.log('M-Pesa payment details:', {
+        mpesaReceiptNumber: payload.mpesaReceiptNumber,
+        transactionDate: payload.transactionDate,
+        phoneNumber: payload.phoneNumber,
+        paymentId: payload.paymentId
+      });
+    }
+
+  } catch (error) {
+    console.error('Error triggering payment notifications:', {
+      paymentId: payload.paymentId,
+      tabId: payload.tabId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Trigger real-time notifications for tab auto-closure events
+ * Requirements: 6.1, 6.2 - Auto-close notifications for overdue tabs
+ */
+async function triggerTabAutoCloseNotifications(
+  supabase: SupabaseClient,
+  payload: TabAutoCloseNotificationPayload
+): Promise<void> {
+  try {
+    // Get tab information for notifications
+    const { data: tabData, error: tabError } = await supabase
+      .from('tabs')
+      .select('tab_number')
+      .eq('id', payload.tabId)
+      .single();
+
+    if (tabError || !tabData) {
+      console.error('Failed to get tab data for auto-close notifications:', {
+        tabId: payload.tabId,
+        error: tabError
+      });
+      return;
+    }
+
+    console.log('Tab auto-close notification triggered:', {
+      tabId: payload.tabId,
+      barId: payload.barId,
+      tabNumber: tabData.tab_number,
+      paymentId: payload.paymentId,
+      finalBalance: payload.finalBalance,
+      timestamp: payload.timestamp
+    });
+
+  } catch (error) {
+    console.error('Error triggering tab auto-close notifications:', {
+      tabId: payload.tabId,
+      paymentId: payload.paymentId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Requirement 3.4: Auto-close an overdue tab whose balance is now zero or negative
+ * Errors are logged, never thrown: the payment itself has already been recorded.
+ */
+async function autoCloseSettledOverdueTab(
+  supabase: SupabaseClient,
+  payment: MpesaPaymentRecord
+): Promise<boolean> {
+  try {
+    // Check if tab is overdue and calculate balance
+    const { data: tabData, error: tabError } = await supabase
+      .from('tabs')
+      .select('id, status, bar_id')
+      .eq('id', payment.tab_id)
+      .single();
+
+    if (tabError || tabData?.status !== 'overdue') return false;
+
+    const { data: balanceData, error: balanceError } = await supabase
+      .from('tab_balances')
+      .select('balance')
+      .eq('tab_id', payment.tab_id)
+      .single();
+
+    if (balanceError || !balanceData || balanceData.balance > 0) return false;
+
+    const { error: closeError } = await supabase
+      .from('tabs')
+      .update({
+        status: 'closed',
+        closed_at: new Date().toISOString(),
+        closed_by: 'system'
+      })
+      .eq('id', payment.tab_id);
+
+    if (closeError) {
+      console.error('Failed to auto-close overdue tab:', {
+        tabId: payment.tab_id,
+        paymentId: payment.id,
+        error: closeError
+      });
+      return false;
+    }
+
+    console.log('Auto-closed overdue tab after successful payment:', {
+      tabId: payment.tab_id,
+      paymentId: payment.id,
+      balance: balanceData.balance
+    });
+
+    // Apply the deposit, or put what is left of it in for a refund, as the close route does
+    await settleClosedTabDeposit(supabase, payment.tab_id, null).catch(error => {
+      console.error('Failed to settle deposit for auto-closed tab:', {
+        tabId: payment.tab_id,
+        paymentId: payment.id,
+        error
+      });
+    });
+
+    // Number the receipt and file it with eTIMS when the bar has it on
+    await fileClosedTabReceipt(supabase, payment.tab_id).catch(error => {
+      console.error('Failed to file receipt for auto-closed tab:', {
+        tabId: payment.tab_id,
+        paymentId: payment.id,
+        error
+      });
+    });
+
+    // Requirement 6.1 & 6.2: Trigger auto-close notifications (non-blocking)
+    triggerTabAutoCloseNotifications(supabase, {
+      tabId: payment.tab_id,
+      barId: tabData.bar_id,
+      paymentId: payment.id,
+      previousStatus: 'overdue',
+      newStatus: 'closed',
+      finalBalance: balanceData.balance,
+      closedBy: 'system',
+      timestamp: new Date().toISOString()
+    }).catch(error => {
+      console.error('Auto-close notification failed (non-blocking):', error);
+    });
+
+    return true;
+  } catch (autoCloseError) {
+    // Log error but don't fail the payment processing
+    console.error('Error during auto-close logic:', {
+      tabId: payment.tab_id,
+      paymentId: payment.id,
+      error: autoCloseError
+    });
+    return false;
+  }
+}
+
+/**
+ * Record the final result of an STK push and run everything that follows from it
+ */
+export async function applyMpesaPaymentOutcome(
+  supabase: SupabaseClient,
+  payment: MpesaPaymentRecord,
+  outcome: MpesaPaymentOutcome,
+  options: MpesaPaymentOutcomeOptions = {}
+): Promise<MpesaPaymentOutcomeResult> {
+  // Requirement 3.5: Store complete result data in metadata field
+  let update = supabase
+    .from('tab_payments')
+    .update({
+      status: outcome.status,
+      metadata: outcome.metadata,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', payment.id);
+
+  // Guarding the status change makes the transition, and everything after it, happen once
+  const expectedStatus = options.expectedStatus ?? (options.requirePending ? 'pending' : undefined);
+  if (expectedStatus) {
+    update = update.eq('status', expectedStatus);
+  }
+
+  const { data: updatedRows, error: updateError } = await update.select('id');
+
+  if (updateError) {
+    throw new MpesaPaymentOutcomeError(`Failed to update payment record: ${updateError.message}`, 500, updateError);
+  }
+  if (expectedStatus && (!updatedRows || updatedRows.length === 0)) {
+    return { updated: false, autoClosed: false };
+  }
+
+  // Requirement 6.1 & 6.2: Trigger real-time payment notifications (non-blocking)
+  triggerPaymentNotifications(supabase, {
+    paymentId: payment.id,
+    tabId: payment.tab_id,
+    barId: '', // Resolved from the tab in triggerPaymentNotifications
+    amount: payment.amount,
+    tipAmount: Number(payment.tip_amount) || 0,
+    serviceChargeAmount: Number(payment.service_charge_amount) || 0,
+    status: outcome.status,
+    method: 'mpesa',
+    timestamp: new Date().toISOString(),
+    mpesaReceiptNumber: outcome.mpesaReceiptNumber,
+    transactionDate: outcome.transactionDate,
+    phoneNumber: outcome.phoneNumber,
+    failureReason: outcome.status === 'failed' ? outcome.failureReason : undefined
+  }).catch(error => {
+    console.error('Payment notification failed (non-blocking):', error);
+  });
+
+  // Requirement 4.1 & 4.2: Process balance updates with real-time notifications
+  processPaymentBalanceUpdate(payment.id, payment.tab_id, payment.amount, outcome.status).catch(error => {
+    console.error('Balance update failed (non-blocking):', error);
+  });
+
+  const autoClosed = outcome.status === 'success'
+    ? await autoCloseSettledOverdueTab(supabase, payment)
+    : false;
+
+  return { updated: true, autoClosed };
+}
@@ -0,0 +1,360 @@
+/**
+ * M-Pesa STK Reconciliation Service
+ *
+ * Recovers STK push payments whose Safaricom callback never arrived. Pending
+ * M-Pesa payments older than a configurable age are looked up with the STK
+ * Push Query API; a final result is applied exactly as the callback would
+ * apply it (see mpesa-payment-outcome). Every run and every payment it checks
+ * is recorded in `mpesa_reconciliation_runs` / `mpesa_reconciliation_items`.
+ *
+ * Server-side only: requires a service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { loadMpesaConfigFromBar, type BarMpesaData, type MpesaConfig } from './mpesa-config';
+import { applyTillToBarData, MPESA_TILL_COLUMNS, type MpesaTill } from './mpesa-tills';
+import {
+  parsePaymentStatus,
+  querySTKPushStatus,
+  STKQueryError,
+  type STKQueryResponse
+} from './mpesa-stk-query';
+import { applyMpesaPaymentOutcome } from './mpesa-payment-outcome';
+
+export type MpesaReconciliationTrigger = 'cron' | 'manual';
+
+/**
+ * - success / failed: a final result was applied to the payment
+ * - pending: Safaricom is still processing the payment
+ * - resolved: the callback got there first
+ * - skipped: mock payment, nothing to query
+ * - error: the query could not be made or answered
+ */
+export type MpesaReconciliationOutcome = 'success' | 'failed' | 'pending' | 'resolved' | 'skipped' | 'error';
+
+export interface MpesaReconciliationConfig {
+  /** Only payments pending for at least this long are queried */
+  minAgeMinutes?: number;
+  batchSize?: number;
+  queryStatus?: typeof querySTKPushStatus;
+}
+
+export interface MpesaReconciliationItem {
+  paymentId: string;
+  barId: string;
+  checkoutRequestId: string;
+  outcome: MpesaReconciliationOutcome;
+  resultCode?: string;
+  message: string;
+}
+
+export interface MpesaReconciliationRunResult {
+  runId: string | null;
+  checked: number;
+  succeeded: number;
+  failed: number;
+  stillPending: number;
+  errors: number;
+  items: MpesaReconciliationItem[];
+}
+
+interface PendingMpesaPayment {
+  id: string;
+  tab_id: string;
+  amount: number;
+  tip_amount: number | null;
+  service_charge_amount: number | null;
+  reference: string;
+  created_at: string;
+  /** The till the STK push went through; queries must use the same shortcode */
+  mpesa_till?: MpesaTill | MpesaTill[] | null;
+  tabs: { bar_id: string; bars: BarMpesaData | BarMpesaData[] } | { bar_id: string; bars: BarMpesaData | BarMpesaData[] }[];
+}
+
+/** Daraja answers an STK query with this error code while the customer has not responded yet */
+export const STK_QUERY_STILL_PROCESSING = '500.001.1001';
+
+export const DEFAULT_RECONCILE_MIN_AGE_MINUTES = 5;
+
+export class MpesaReconciliationError extends Error {
+  constructor(message: string, public statusCode: number = 500, public originalError?: any) {
+    super(message);
+    this.name = 'MpesaReconciliationError';
+  }
+}
+
+/**
+ * Minimum payment age from MPESA_RECONCILE_MIN_AGE_MINUTES
+ */
+export function getReconcileMinAgeMinutes(): number {
+  const value = parseInt(process.env.MPESA_RECONCILE_MIN_AGE_MINUTES || '', 10);
+  return isNaN(value) || value < 1 ? DEFAULT_RECONCILE_MIN_AGE_MINUTES : value;
+}
+
+/**
+ * Turn an STK query response into a reconciliation outcome
+ */
+export function resolveQueryOutcome(response: STKQueryResponse): {
+  outcome: 'success' | 'failed' | 'pending';
+  message: string;
+} {
+  // The query itself was not accepted; that says nothing about the payment
+  if (response.ResponseCode !== '0') {
+    return { outcome: 'pending', message: response.ResponseDescription || 'Query not accepted' };
+  }
+
+  const { status, message } = parsePaymentStatus(response);
+  switch (status) {
+    case 'completed':
+      return { outcome: 'success', message };
+    case 'pending':
+      return { outcome: 'pending', message };
+    default:
+      return { outcome: 'failed', message };
+  }
+}
+
+/**
+ * Whether an STK query error means the payment is still in progress
+ */
+export function isStillProcessingError(error: unknown): boolean {
+  return error instanceof STKQueryError &&
+    (error.originalError?.errorCode === STK_QUERY_STILL_PROCESSING ||
+      error.responseCode === STK_QUERY_STILL_PROCESSING);
+}
+
+const pickOne = <T>(value: T | T[]): T => (Array.isArray(value) ? value[0] : value);
+
+export class MpesaReconciliationService {
+  private config: Required<MpesaReconciliationConfig>;
+
+  constructor(private supabase: SupabaseClient, config: MpesaReconciliationConfig = {}) {
+    this.config = {
+      minAgeMinutes: getReconcileMinAgeMinutes(),
+      batchSize: 50,
+      queryStatus: querySTKPushStatus,
+      ...config
+    };
+  }
+
+  /**
+   * Query every stuck payment (optionally for one bar) and record the run
+   */
+  async run(
+    trigger: MpesaReconciliationTrigger = 'cron',
+    options: { barId?: string; triggeredBy?: string } = {}
+  ): Promise<MpesaReconciliationRunResult> {
+    const runId = await this.startRun(trigger, options);
+    const result: MpesaReconciliationRunResult = {
+      runId,
+      checked: 0,
+      succeeded: 0,
+      failed: 0,
+      stillPending: 0,
+      errors: 0,
+      items: []
+    };
+
+    try {
+      const payments = await this.loadPendingPayments(options.barId);
+      const configs = new Map<string, MpesaConfig | Error>();
+
+      for (const payment of payments) {
+        const item = await this.reconcilePayment(payment, configs, runId);
+        result.items.push(item);
+        result.checked++;
+        if (item.outcome === 'success') result.succeeded++;
+        if (item.outcome === 'failed') result.failed++;
+        if (item.outcome === 'pending') result.stillPending++;
+        if (item.outcome === 'error') result.errors++;
+      }
+
+      await this.recordItems(runId, result.items);
+      await this.finishRun(runId, 'completed', result);
+      return result;
+    } catch (error) {
+      await this.finishRun(runId, 'failed', result, error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+  }
+
+  private async loadPendingPayments(barId?: string): Promise<PendingMpesaPayment[]> {
+    const cutoff = new Date(Date.now() - this.config.minAgeMinutes * 60 * 1000).toISOString();
+
+    let query = this.supabase
+      .from('tab_payments')
+      .select(`
+        id, tab_id, amount, tip_amount, service_charge_amount, reference, created_at,
+        mpesa_till:bar_mpesa_tills(${MPESA_TILL_COLUMNS}),
+        tabs!inner(
+          bar_id,
+          bars!inner(
+            mpesa_enabled,
+            mpesa_environment,
+            mpesa_business_shortcode,
+            mpesa_consumer_key_encrypted,
+            mpesa_consumer_secret_encrypted,
+            mpesa_passkey_encrypted
+          )
+        )
+      `)
+      .eq('method', 'mpesa')
+      .eq('status', 'pending')
+      .not('reference', 'is', null)
+      .lte('created_at', cutoff)
+      .order('created_at', { ascending: true })
+      .limit(this.config.batchSize);
+
+    if (barId) {
+      query = query.eq('tabs.bar_id', barId);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new MpesaReconciliationError(`Failed to load pending payments: ${error.message}`, 500, error);
+    }
+
+    return (data || []) as unknown as PendingMpesaPayment[];
+  }
+
+  private async reconcilePayment(
+    payment: PendingMpesaPayment,
+    configs: Map<string, MpesaConfig | Error>,
+    runId: string | null
+  ): Promise<MpesaReconciliationItem> {
+    const tab = pickOne(payment.tabs);
+    const item = (outcome: MpesaReconciliationOutcome, message: string, resultCode?: string): MpesaReconciliationItem => ({
+      paymentId: payment.id,
+      barId: tab.bar_id,
+      checkoutRequestId: payment.reference,
+      outcome,
+      resultCode,
+      message
+    });
+
+    // Payments from the retired mock mode never reached Daraja; simulator payments can be queried
+    if (payment.reference.startsWith('mock_')) {
+      return item('skipped', 'Mock payment');
+    }
+
+    const till = payment.mpesa_till ? pickOne(payment.mpesa_till) || null : null;
+    const configKey = till ? `till:${till.id}` : tab.bar_id;
+    if (!configs.has(configKey)) {
+      try {
+        configs.set(configKey, loadMpesaConfigFromBar(applyTillToBarData(pickOne(tab.bars), till)));
+      } catch (error) {
+        configs.set(configKey, error instanceof Error ? error : new Error('Invalid M-Pesa configuration'));
+      }
+    }
+    const config = configs.get(configKey)!;
+    if (config instanceof Error) {
+      return item('error', config.message);
+    }
+
+    let response: STKQueryResponse;
+    try {
+      response = await this.config.queryStatus({ checkoutRequestId: payment.reference }, config);
+    } catch (error) {
+      if (isStillProcessingError(error)) {
+        return item('pending', 'The transaction is being processed');
+      }
+      return item('error', error instanceof Error ? error.message : 'STK query failed');
+    }
+
+    const { outcome, message } = resolveQueryOutcome(response);
+    if (outcome === 'pending') {
+      return item('pending', message, response.ResultCode);
+    }
+
+    try {
+      const { updated } = await applyMpesaPaymentOutcome(this.supabase, payment, {
+        status: outcome,
+        metadata: {
+          reconciliation: {
+            runId,
+            queriedAt: new Date().toISOString(),
+            response
+          }
+        },
+        failureReason: message
+      }, { requirePending: true });
+
+      return updated
+        ? item(outcome, message, response.ResultCode)
+        : item('resolved', 'Already resolved by callback', response.ResultCode);
+    } catch (error) {
+      return item('error', error instanceof Error ? error.message : 'Failed to apply result');
+    }
+  }
+
+  private async startRun(
+    trigger: MpesaReconciliationTrigger,
+    options: { barId?: string; triggeredBy?: string }
+  ): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('mpesa_reconciliation_runs')
+      .insert({
+        trigger,
+        bar_id: options.barId || null,
+        triggered_by: options.triggeredBy || null,
+        min_age_minutes: this.config.minAgeMinutes,
+        status: 'running'
+      })
+      .select('id')
+      .single();
+
+    // Auditing must not stop payments from being recovered
+    if (error || !data) {
+      console.error('Failed to record reconciliation run:', error);
+      return null;
+    }
+    return data.id;
+  }
+
+  private async recordItems(runId: string | null, items: MpesaReconciliationItem[]): Promise<void> {
+    if (!runId || items.length === 0) return;
+
+    const { error } = await this.supabase
+      .from('mpesa_reconciliation_items')
+      .insert(items.map(item => ({
+        run_id: runId,
+        bar_id: item.barId,
+        payment_id: item.paymentId,
+        checkout_request_id: item.checkoutRequestId,
+        outcome: item.outcome,
+        result_code: item.resultCode || null,
+        message: item.message
+      })));
+
+    if (error) {
+      console.error('Failed to record reconciliation items:', error);
+    }
+  }
+
+  private async finishRun(
+    runId: string | null,
+    status: 'completed' | 'failed',
+    result: MpesaReconciliationRunResult,
+    errorMessage?: string
+  ): Promise<void> {
+    if (!runId) return;
+
+    const { error } = await this.supabase
+      .from('mpesa_reconciliation_runs')
+      .update({
+        status,
+        checked: result.checked,
+        succeeded: result.succeeded,
+        failed: result.failed,
+        still_pending: result.stillPending,
+        errors: result.errors,
+        error: errorMessage || null,
+        finished_at: new Date().toISOString()
+      })
+      .eq('id', runId);
+
+    if (error) {
+      console.error('Failed to finish reconciliation run:', error);
+    }
+  }
+}
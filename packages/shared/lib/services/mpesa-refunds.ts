@@ -0,0 +1,798 @@
+/**
+ * M-Pesa Refund Service
+ *
+ * Undoes M-Pesa payments taken against the wrong tab or for too much. Staff
+ * request a refund with a reason against the original M-Pesa receipt; an owner
+ * or manager approves it, which sends it to Daraja on the bar's own shortcode:
+ * - the full remaining amount is returned with the Transaction Reversal API
+ * - anything less is paid back to the customer's phone with the B2C API
+ *
+ * Daraja answers asynchronously. A successful Result adds a negative
+ * tab_payments entry linked to the original payment, so the tab balance grows
+ * back by the refunded amount; a closed tab that now owes money is moved to
+ * overdue. Bars on the simulator environment are refunded by the local Daraja
+ * simulator (see mpesa-mock-daraja).
+ *
+ * Server-side only: requires a service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  getDarajaBaseUrl,
+  loadMpesaConfigFromBar,
+  MpesaConfigurationError,
+  type BarMpesaData,
+  type MpesaConfig
+} from './mpesa-config';
+import { signCallbackUrl } from './mpesa-callback-inbox';
+import { decryptFromBytea } from './mpesa-encryption';
+import { getOAuthToken } from './mpesa-oauth';
+import { applyTillToBarData, loadPaymentMpesaTill } from './mpesa-tills';
+import { getStaffMembership, hasStaffPermission } from './staff-roles';
+
+export type MpesaRefundStatus = 'pending_approval' | 'rejected' | 'processing' | 'completed' | 'failed';
+
+export type MpesaRefundMethod = 'reversal' | 'b2c';
+
+export interface MpesaRefundRow {
+  id: string;
+  bar_id: string;
+  tab_id: string;
+  payment_id: string;
+  refund_payment_id: string | null;
+  amount: number;
+  reason: string;
+  mpesa_receipt_number: string;
+  phone_number: string | null;
+  method: MpesaRefundMethod;
+  status: MpesaRefundStatus;
+  /** Null when the system asked for it, e.g. the deposit of an auto-closed tab */
+  requested_by: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  rejection_reason: string | null;
+  conversation_id: string | null;
+  originator_conversation_id: string | null;
+  result_code: string | null;
+  result_desc: string | null;
+  transaction_id: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface MpesaRefundRequest {
+  barId: string;
+  paymentId: string;
+  amount: number;
+  reason: string;
+  requestedBy: string | null;
+}
+
+export interface MpesaInitiatorCredentials {
+  initiatorName: string;
+  securityCredential: string;
+}
+
+/** The Result body Daraja POSTs to the ResultURL and QueueTimeOutURL */
+export interface DarajaResultPayload {
+  Result: {
+    ResultType?: number;
+    ResultCode: number | string;
+    ResultDesc: string;
+    OriginatorConversationID?: string;
+    ConversationID?: string;
+    TransactionID?: string;
+    ResultParameters?: { ResultParameter?: Array<{ Key: string; Value: any }> | { Key: string; Value: any } };
+  };
+}
+
+export interface MpesaRefundResultOutcome {
+  refund: MpesaRefundRow | null;
+  /** False when the refund was unknown or had already been settled */
+  applied: boolean;
+  /** The tab was closed and owes money again after the refund */
+  reopened: boolean;
+}
+
+interface RefundablePayment {
+  id: string;
+  tab_id: string;
+  amount: number;
+  tip_amount: number | null;
+  service_charge_amount: number | null;
+  method: string;
+  status: string;
+  reference: string | null;
+  phone_number: string | null;
+  refunded_payment_id: string | null;
+  metadata: any;
+  tabs: { bar_id: string } | { bar_id: string }[];
+}
+
+interface BarRefundData extends BarMpesaData {
+  mpesa_initiator_name: string | null;
+  mpesa_security_credential_encrypted: string | null;
+}
+
+/** result_code recorded when Daraja reports a queue timeout; a late Result may still settle it */
+export const REFUND_TIMEOUT_CODE = 'TIMEOUT';
+
+/** Safaricom's sandbox initiator, used when a sandbox bar has none configured */
+const SANDBOX_INITIATOR_NAME = 'testapi';
+
+const REFUND_COLUMNS = `
+  id, bar_id, tab_id, payment_id, refund_payment_id, amount, reason, mpesa_receipt_number,
+  phone_number, method, status, requested_by, approved_by, approved_at, rejection_reason,
+  conversation_id, originator_conversation_id, result_code, result_desc, transaction_id,
+  created_at, completed_at
+`;
+
+export class MpesaRefundError extends Error {
+  constructor(message: string, public statusCode: number = 400, public originalError?: any) {
+    super(message);
+    this.name = 'MpesaRefundError';
+  }
+}
+
+const pickOne = <T>(value: T | T[]): T => (Array.isArray(value) ? value[0] : value);
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The M-Pesa receipt a payment was made with: from the STK callback metadata,
+ * or the C2B transaction id
+ */
+export function getMpesaReceiptNumber(payment: { metadata?: any }): string | null {
+  const metadata = payment.metadata || {};
+
+  const items = metadata.Body?.stkCallback?.CallbackMetadata?.Item;
+  if (Array.isArray(items)) {
+    const receipt = items.find((item: any) => item?.Name === 'MpesaReceiptNumber')?.Value;
+    if (receipt) return String(receipt);
+  }
+
+  if (metadata.c2b?.transId) return String(metadata.c2b.transId);
+
+  return null;
+}
+
+/**
+ * The full amount the customer was charged: balance portion plus tip and service charge
+ */
+export function getChargedAmount(payment: Pick<RefundablePayment, 'amount' | 'tip_amount' | 'service_charge_amount'>): number {
+  return roundAmount(Number(payment.amount) + (Number(payment.tip_amount) || 0) + (Number(payment.service_charge_amount) || 0));
+}
+
+/**
+ * What is left to refund once earlier refunds that are still live are counted
+ */
+export function getRefundableAmount(
+  payment: Pick<RefundablePayment, 'amount' | 'tip_amount' | 'service_charge_amount'>,
+  refunds: Array<Pick<MpesaRefundRow, 'amount' | 'status' | 'result_code'>>
+): number {
+  // Rejected and failed refunds release their amount; timed-out ones may still complete
+  const held = refunds
+    .filter(refund => refund.status !== 'rejected' &&
+      !(refund.status === 'failed' && refund.result_code !== REFUND_TIMEOUT_CODE))
+    .reduce((sum, refund) => sum + Number(refund.amount), 0);
+  return Math.max(0, roundAmount(getChargedAmount(payment) - held));
+}
+
+/**
+ * Reversal returns the whole transaction, so it is only used when nothing has
+ * been refunded yet and the refund covers everything that was charged
+ */
+export function chooseRefundMethod(
+  payment: Pick<RefundablePayment, 'amount' | 'tip_amount' | 'service_charge_amount'>,
+  amount: number,
+  refundable: number
+): MpesaRefundMethod {
+  const charged = getChargedAmount(payment);
+  return roundAmount(amount) === charged && refundable === charged ? 'reversal' : 'b2c';
+}
+
+/**
+ * ResultURL and QueueTimeOutURL on the customer app, next to the STK callback,
+ * carrying the same callback token
+ */
+export function getRefundCallbackUrls(): { resultUrl: string; timeoutUrl: string } {
+  const callbackUrl = process.env.MPESA_CALLBACK_URL || 'https://app.tabeza.co.ke/api/payments/mpesa/callback';
+  const origin = new URL(callbackUrl).origin;
+  return {
+    resultUrl: signCallbackUrl(`${origin}/api/mpesa/refunds/result`),
+    timeoutUrl: signCallbackUrl(`${origin}/api/mpesa/refunds/timeout`)
+  };
+}
+
+/**
+ * Initiator name and security credential for the bar's reversal/B2C requests
+ */
+export function loadInitiatorCredentials(bar: BarRefundData, config: MpesaConfig): MpesaInitiatorCredentials {
+  if (config.environment === 'simulator') {
+    return {
+      initiatorName: bar.mpesa_initiator_name || SANDBOX_INITIATOR_NAME,
+      securityCredential: bar.mpesa_security_credential_encrypted
+        ? decryptFromBytea(bar.mpesa_security_credential_encrypted)
+        : 'simulator_security_credential'
+    };
+  }
+
+  if (!bar.mpesa_security_credential_encrypted || (!bar.mpesa_initiator_name && config.environment === 'production')) {
+    throw new MpesaRefundError(
+      'M-Pesa refunds need an initiator name and security credential in M-Pesa settings',
+      422
+    );
+  }
+
+  return {
+    initiatorName: bar.mpesa_initiator_name || SANDBOX_INITIATOR_NAME,
+    securityCredential: decryptFromBytea(bar.mpesa_security_credential_encrypted)
+  };
+}
+
+/**
+ * Throw unless the user's role at the bar holds refunds.approve
+ */
+export async function assertRefundApprover(supabase: SupabaseClient, barId: string, userId: string): Promise<void> {
+  const membership = await getStaffMembership(supabase, barId, userId);
+  if (!membership || !hasStaffPermission(membership.role, 'refunds.approve')) {
+    throw new MpesaRefundError('Only an owner or manager can approve refunds', 403);
+  }
+}
+
+async function loadPayment(supabase: SupabaseClient, paymentId: string): Promise<RefundablePayment> {
+  const { data, error } = await supabase
+    .from('tab_payments')
+    .select(`
+      id, tab_id, amount, tip_amount, service_charge_amount, method, status, reference,
+      phone_number, refunded_payment_id, metadata,
+      tabs!inner(bar_id)
+    `)
+    .eq('id', paymentId)
+    .single();
+
+  if (error || !data) {
+    throw new MpesaRefundError('Payment not found', 404, error);
+  }
+  return data as unknown as RefundablePayment;
+}
+
+async function loadRefund(supabase: SupabaseClient, barId: string, refundId: string): Promise<MpesaRefundRow> {
+  const { data, error } = await supabase
+    .from('mpesa_refunds')
+    .select(REFUND_COLUMNS)
+    .eq('id', refundId)
+    .eq('bar_id', barId)
+    .single();
+
+  if (error || !data) {
+    throw new MpesaRefundError('Refund not found', 404, error);
+  }
+  return data as MpesaRefundRow;
+}
+
+async function loadPaymentRefunds(supabase: SupabaseClient, paymentId: string): Promise<MpesaRefundRow[]> {
+  const { data, error } = await supabase
+    .from('mpesa_refunds')
+    .select(REFUND_COLUMNS)
+    .eq('payment_id', paymentId);
+
+  if (error) {
+    throw new MpesaRefundError(`Failed to load refunds: ${error.message}`, 500, error);
+  }
+  return (data || []) as MpesaRefundRow[];
+}
+
+/**
+ * Record a refund request; nothing is sent to M-Pesa until it is approved
+ */
+export async function requestMpesaRefund(
+  supabase: SupabaseClient,
+  request: MpesaRefundRequest
+): Promise<MpesaRefundRow> {
+  const reason = request.reason?.trim();
+  if (!reason) {
+    throw new MpesaRefundError('A reason is required for every refund');
+  }
+
+  const amount = roundAmount(Number(request.amount));
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new MpesaRefundError('Refund amount must be a positive number');
+  }
+
+  const payment = await loadPayment(supabase, request.paymentId);
+  if (pickOne(payment.tabs).bar_id !== request.barId) {
+    throw new MpesaRefundError('Payment not found', 404);
+  }
+  if (payment.method !== 'mpesa' || payment.status !== 'success' || payment.refunded_payment_id) {
+    throw new MpesaRefundError('Only successful M-Pesa payments can be refunded', 409);
+  }
+
+  const receipt = getMpesaReceiptNumber(payment);
+  if (!receipt) {
+    throw new MpesaRefundError('This payment has no M-Pesa receipt number to refund against', 409);
+  }
+
+  const refundable = getRefundableAmount(payment, await loadPaymentRefunds(supabase, payment.id));
+  if (amount > refundable) {
+    throw new MpesaRefundError(
+      refundable > 0
+        ? `At most KSh ${refundable} of this payment can still be refunded`
+        : 'This payment has already been refunded in full',
+      409
+    );
+  }
+
+  const { data, error } = await supabase
+    .from('mpesa_refunds')
+    .insert({
+      bar_id: request.barId,
+      tab_id: payment.tab_id,
+      payment_id: payment.id,
+      amount,
+      reason,
+      mpesa_receipt_number: receipt,
+      phone_number: payment.phone_number,
+      method: chooseRefundMethod(payment, amount, refundable),
+      status: 'pending_approval',
+      requested_by: request.requestedBy
+    })
+    .select(REFUND_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new MpesaRefundError(`Failed to record refund request: ${error?.message}`, 500, error);
+  }
+
+  return data as MpesaRefundRow;
+}
+
+/**
+ * Decline a pending refund request
+ */
+export async function rejectMpesaRefund(
+  supabase: SupabaseClient,
+  barId: string,
+  refundId: string,
+  approverId: string,
+  rejectionReason?: string
+): Promise<MpesaRefundRow> {
+  await assertRefundApprover(supabase, barId, approverId);
+
+  const { data, error } = await supabase
+    .from('mpesa_refunds')
+    .update({
+      status: 'rejected',
+      approved_by: approverId,
+      approved_at: new Date().toISOString(),
+      rejection_reason: rejectionReason?.trim() || null
+    })
+    .eq('id', refundId)
+    .eq('bar_id', barId)
+    .eq('status', 'pending_approval')
+    .select(REFUND_COLUMNS);
+
+  if (error) {
+    throw new MpesaRefundError(`Failed to reject refund: ${error.message}`, 500, error);
+  }
+  if (!data || data.length === 0) {
+    throw new MpesaRefundError('Refund is no longer waiting for approval', 409);
+  }
+
+  return data[0] as MpesaRefundRow;
+}
+
+/**
+ * Build the Daraja request for a refund
+ */
+export function buildRefundRequest(
+  refund: Pick<MpesaRefundRow, 'id' | 'amount' | 'method' | 'mpesa_receipt_number' | 'phone_number' | 'reason'>,
+  config: MpesaConfig,
+  credentials: MpesaInitiatorCredentials
+): { path: string; body: Record<string, any> } {
+  const { resultUrl, timeoutUrl } = getRefundCallbackUrls();
+  // Daraja caps Remarks/Occasion at 100 characters
+  const remarks = `Refund: ${refund.reason}`.slice(0, 100);
+
+  if (refund.method === 'reversal') {
+    return {
+      path: '/mpesa/reversal/v1/request',
+      body: {
+        Initiator: credentials.initiatorName,
+        SecurityCredential: credentials.securityCredential,
+        CommandID: 'TransactionReversal',
+        TransactionID: refund.mpesa_receipt_number,
+        Amount: Math.round(Number(refund.amount)),
+        ReceiverParty: config.businessShortcode,
+        RecieverIdentifierType: '11',
+        ResultURL: resultUrl,
+        QueueTimeOutURL: timeoutUrl,
+        Remarks: remarks,
+        Occasion: refund.id
+      }
+    };
+  }
+
+  if (!refund.phone_number) {
+    throw new MpesaRefundError('Partial refunds need the phone number the payment came from', 409);
+  }
+
+  return {
+    path: '/mpesa/b2c/v1/paymentrequest',
+    body: {
+      OriginatorConversationID: refund.id,
+      InitiatorName: credentials.initiatorName,
+      SecurityCredential: credentials.securityCredential,
+      CommandID: 'BusinessPayment',
+      Amount: Math.round(Number(refund.amount)),
+      PartyA: config.businessShortcode,
+      PartyB: refund.phone_number,
+      Remarks: remarks,
+      QueueTimeOutURL: timeoutUrl,
+      ResultURL: resultUrl,
+      Occasion: refund.mpesa_receipt_number
+    }
+  };
+}
+
+/**
+ * Approve a pending refund and submit it to M-Pesa
+ * The refund stays 'processing' until Daraja POSTs its Result.
+ */
+export async function approveMpesaRefund(
+  supabase: SupabaseClient,
+  barId: string,
+  refundId: string,
+  approverId: string
+): Promise<MpesaRefundRow> {
+  await assertRefundApprover(supabase, barId, approverId);
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('mpesa_refunds')
+    .update({
+      status: 'processing',
+      approved_by: approverId,
+      approved_at: new Date().toISOString()
+    })
+    .eq('id', refundId)
+    .eq('bar_id', barId)
+    .eq('status', 'pending_approval')
+    .select(REFUND_COLUMNS);
+
+  if (claimError) {
+    throw new MpesaRefundError(`Failed to approve refund: ${claimError.message}`, 500, claimError);
+  }
+  if (!claimed || claimed.length === 0) {
+    throw new MpesaRefundError('Refund is no longer waiting for approval', 409);
+  }
+  const refund = claimed[0] as MpesaRefundRow;
+
+  const fail = async (message: string) => {
+    await supabase
+      .from('mpesa_refunds')
+      .update({ status: 'failed', result_desc: message, completed_at: new Date().toISOString() })
+      .eq('id', refund.id);
+  };
+
+  try {
+    const { data: bar, error: barError } = await supabase
+      .from('bars')
+      .select(`
+        mpesa_enabled,
+        mpesa_environment,
+        mpesa_business_shortcode,
+        mpesa_consumer_key_encrypted,
+        mpesa_consumer_secret_encrypted,
+        mpesa_passkey_encrypted,
+        mpesa_initiator_name,
+        mpesa_security_credential_encrypted
+      `)
+      .eq('id', barId)
+      .single();
+
+    if (barError || !bar) {
+      throw new MpesaRefundError('Bar not found', 404, barError);
+    }
+
+    // Reverse through the shortcode that took the payment
+    const barData = applyTillToBarData(bar as BarRefundData, await loadPaymentMpesaTill(supabase, refund.payment_id));
+    const config = loadMpesaConfigFromBar(barData);
+    const credentials = loadInitiatorCredentials(barData, config);
+    const { path, body } = buildRefundRequest(refund, config, credentials);
+    const accessToken = await getOAuthToken(config);
+
+    const response = await fetch(`${getDarajaBaseUrl(config)}${path}`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+
+    const result: any = await response.json().catch(() => ({}));
+    if (!response.ok || result.ResponseCode !== '0') {
+      throw new MpesaRefundError(
+        `M-Pesa did not accept the refund: ${result.errorMessage || result.ResponseDescription || response.statusText}`,
+        502,
+        result
+      );
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('mpesa_refunds')
+      .update({
+        conversation_id: result.ConversationID,
+        originator_conversation_id: result.OriginatorConversationID
+      })
+      .eq('id', refund.id)
+      .select(REFUND_COLUMNS)
+      .single();
+
+    if (updateError || !updated) {
+      // Daraja has the request; the Result can still be matched by OriginatorConversationID
+      console.error('Failed to store refund conversation ids:', { refundId: refund.id, error: updateError });
+      return { ...refund, conversation_id: result.ConversationID, originator_conversation_id: result.OriginatorConversationID };
+    }
+
+    return updated as MpesaRefundRow;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to submit refund';
+    await fail(message);
+    if (error instanceof MpesaRefundError) throw error;
+    throw new MpesaRefundError(message, error instanceof MpesaConfigurationError ? 422 : 502, error);
+  }
+}
+
+function readResultParameter(result: DarajaResultPayload['Result'], key: string): any {
+  const parameters = result.ResultParameters?.ResultParameter;
+  const list = Array.isArray(parameters) ? parameters : parameters ? [parameters] : [];
+  return list.find(parameter => parameter.Key === key)?.Value;
+}
+
+async function findRefundForResult(
+  supabase: SupabaseClient,
+  result: DarajaResultPayload['Result']
+): Promise<MpesaRefundRow | null> {
+  const lookups: Array<[string, string | undefined]> = [
+    ['conversation_id', result.ConversationID],
+    ['originator_conversation_id', result.OriginatorConversationID]
+  ];
+
+  for (const [column, value] of lookups) {
+    if (!value) continue;
+    const { data, error } = await supabase
+      .from('mpesa_refunds')
+      .select(REFUND_COLUMNS)
+      .eq(column, value)
+      .maybeSingle();
+
+    if (error) {
+      throw new MpesaRefundError(`Failed to look up refund: ${error.message}`, 500, error);
+    }
+    if (data) return data as MpesaRefundRow;
+  }
+
+  return null;
+}
+
+const isSettleable = (refund: MpesaRefundRow) =>
+  refund.status === 'processing' || (refund.status === 'failed' && refund.result_code === REFUND_TIMEOUT_CODE);
+
+/**
+ * Add the negative ledger entry and move a closed tab that owes money again to overdue
+ */
+async function postRefundToTab(
+  supabase: SupabaseClient,
+  refund: MpesaRefundRow,
+  result: DarajaResultPayload['Result']
+): Promise<{ refundPaymentId: string; reopened: boolean }> {
+  const payment = await loadPayment(supabase, refund.payment_id);
+
+  // Refunds come out of the tab balance first; any remainder was tip or service charge
+  const { data: earlier, error: earlierError } = await supabase
+    .from('tab_payments')
+    .select('amount')
+    .eq('refunded_payment_id', payment.id)
+    .eq('status', 'success');
+
+  if (earlierError) {
+    throw new MpesaRefundError(`Failed to load earlier refunds: ${earlierError.message}`, 500, earlierError);
+  }
+
+  const alreadyRefunded = (earlier || []).reduce((sum, row) => sum - Number(row.amount), 0);
+  const balancePortion = roundAmount(Math.max(0, Math.min(Number(refund.amount), Number(payment.amount) - alreadyRefunded)));
+
+  const { data: ledger, error: ledgerError } = await supabase
+    .from('tab_payments')
+    .insert({
+      tab_id: refund.tab_id,
+      amount: -balancePortion,
+      method: 'mpesa',
+      status: 'success',
+      reference: result.TransactionID || null,
+      phone_number: refund.phone_number,
+      refunded_payment_id: payment.id,
+      metadata: {
+        refund: {
+          refundId: refund.id,
+          method: refund.method,
+          amount: Number(refund.amount),
+          reason: refund.reason,
+          originalReceipt: refund.mpesa_receipt_number,
+          result
+        }
+      }
+    })
+    .select('id')
+    .single();
+
+  if (ledgerError || !ledger) {
+    throw new MpesaRefundError(`Failed to record refund on the tab: ${ledgerError?.message}`, 500, ledgerError);
+  }
+
+  let reopened = false;
+  const { data: tab } = await supabase
+    .from('tabs')
+    .select('id, status')
+    .eq('id', refund.tab_id)
+    .single();
+
+  if (tab?.status === 'closed' && balancePortion > 0) {
+    const { data: balance } = await supabase
+      .from('tab_balances')
+      .select('balance')
+      .eq('tab_id', refund.tab_id)
+      .single();
+
+    if (balance && Number(balance.balance) > 0) {
+      const { error: reopenError } = await supabase
+        .from('tabs')
+        .update({
+          status: 'overdue',
+          moved_to_overdue_at: new Date().toISOString(),
+          overdue_reason: `Refund of KSh ${refund.amount} (${refund.mpesa_receipt_number})`
+        })
+        .eq('id', refund.tab_id);
+
+      if (reopenError) {
+        console.error('Failed to reopen tab after refund:', { tabId: refund.tab_id, refundId: refund.id, error: reopenError });
+      } else {
+        reopened = true;
+      }
+    }
+  }
+
+  return { refundPaymentId: ledger.id, reopened };
+}
+
+/**
+ * Apply a Result Daraja POSTed to the ResultURL
+ * Idempotent: Results for refunds that are already settled are ignored.
+ */
+export async function applyMpesaRefundResult(
+  supabase: SupabaseClient,
+  payload: DarajaResultPayload
+): Promise<MpesaRefundResultOutcome> {
+  const result = payload?.Result;
+  if (!result || result.ResultCode === undefined) {
+    throw new MpesaRefundError('Invalid result payload: missing Result');
+  }
+
+  const refund = await findRefundForResult(supabase, result);
+  if (!refund) {
+    return { refund: null, applied: false, reopened: false };
+  }
+  if (!isSettleable(refund)) {
+    return { refund, applied: false, reopened: false };
+  }
+
+  const succeeded = String(result.ResultCode) === '0';
+  const previousStatus = refund.status;
+
+  // Claim the refund so a duplicate Result cannot post a second ledger entry
+  const { data: claimed, error: claimError } = await supabase
+    .from('mpesa_refunds')
+    .update({
+      status: succeeded ? 'completed' : 'failed',
+      result_code: String(result.ResultCode),
+      result_desc: result.ResultDesc,
+      transaction_id: result.TransactionID || readResultParameter(result, 'TransactionReceipt') || null,
+      result: payload,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', refund.id)
+    .eq('status', previousStatus)
+    .select(REFUND_COLUMNS);
+
+  if (claimError) {
+    throw new MpesaRefundError(`Failed to update refund: ${claimError.message}`, 500, claimError);
+  }
+  if (!claimed || claimed.length === 0) {
+    return { refund, applied: false, reopened: false };
+  }
+
+  const settled = claimed[0] as MpesaRefundRow;
+  if (!succeeded) {
+    return { refund: settled, applied: true, reopened: false };
+  }
+
+  try {
+    const { refundPaymentId, reopened } = await postRefundToTab(supabase, settled, result);
+    await supabase
+      .from('mpesa_refunds')
+      .update({ refund_payment_id: refundPaymentId })
+      .eq('id', settled.id);
+
+    return { refund: { ...settled, refund_payment_id: refundPaymentId }, applied: true, reopened };
+  } catch (error) {
+    // The money has left the bar's account; keep the refund visible as needing attention
+    await supabase
+      .from('mpesa_refunds')
+      .update({ result_desc: `${result.ResultDesc} (ledger entry failed: ${error instanceof Error ? error.message : 'unknown error'})` })
+      .eq('id', settled.id);
+    throw error;
+  }
+}
+
+/**
+ * Record a QueueTimeOutURL notification
+ * The refund is shown as failed, but a Result arriving later still settles it.
+ */
+export async function applyMpesaRefundTimeout(
+  supabase: SupabaseClient,
+  payload: DarajaResultPayload
+): Promise<MpesaRefundRow | null> {
+  const result = payload?.Result;
+  if (!result) {
+    throw new MpesaRefundError('Invalid timeout payload: missing Result');
+  }
+
+  const refund = await findRefundForResult(supabase, result);
+  if (!refund || refund.status !== 'processing') {
+    return refund;
+  }
+
+  const { data, error } = await supabase
+    .from('mpesa_refunds')
+    .update({
+      status: 'failed',
+      result_code: REFUND_TIMEOUT_CODE,
+      result_desc: result.ResultDesc || 'The request timed out in the M-Pesa queue',
+      result: payload
+    })
+    .eq('id', refund.id)
+    .eq('status', 'processing')
+    .select(REFUND_COLUMNS);
+
+  if (error) {
+    throw new MpesaRefundError(`Failed to record refund timeout: ${error.message}`, 500, error);
+  }
+
+  return (data?.[0] as MpesaRefundRow) || refund;
+}
+
+/**
+ * Refunds for a bar, newest first
+ */
+export async function listMpesaRefunds(
+  supabase: SupabaseClient,
+  barId: string,
+  options: { status?: MpesaRefundStatus; tabId?: string; limit?: number } = {}
+): Promise<MpesaRefundRow[]> {
+  let query = supabase
+    .from('mpesa_refunds')
+    .select(REFUND_COLUMNS)
+    .eq('bar_id', barId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 100);
+
+  if (options.status) query = query.eq('status', options.status);
+  if (options.tabId) query = query.eq('tab_id', options.tabId);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new MpesaRefundError(`Failed to load refunds: ${error.message}`, 500, error);
+  }
+  return (data || []) as MpesaRefundRow[];
+}
@@ -4,7 +4,7 @@
  */
 
 import { getOAuthToken, MpesaOAuthError } from './mpesa-oauth';
-import { type MpesaConfig } from './mpesa-config';
+import { getSimulatorBaseUrl, type MpesaConfig, type MpesaEnvironment } from './mpesa-config';
 
 export interface STKQueryRequest {
   checkoutRequestId: string;
@@ -159,10 +159,12 @@ function generatePassword(businessShortcode: string, passkey: string, timestamp:
 /**
  * Get environment-specific query URL
  */
-function getQueryUrl(environment: 'sandbox' | 'production'): string {
-  const baseUrl = environment === 'sandbox' 
-    ? 'https://sandbox.safaricom.co.ke'
-    : 'https://api.safaricom.co.ke';
+function getQueryUrl(environment: MpesaEnvironment): string {
+  const baseUrl = environment === 'simulator'
+    ? getSimulatorBaseUrl()
+    : environment === 'sandbox'
+      ? 'https://sandbox.safaricom.co.ke'
+      : 'https://api.safaricom.co.ke';
 
   return `${baseUrl}/mpesa/stkpushquery/v1/query`;
 }
@@ -170,7 +172,7 @@ function getQueryUrl(environment: 'sandbox' | 'production'): string {
 /**
  * Add query URL to config for easy access
  */
-export function getSTKQueryUrl(environment: 'sandbox' | 'production'): string {
+export function getSTKQueryUrl(environment: MpesaEnvironment): string {
   return getQueryUrl(environment);
 }
 
@@ -0,0 +1,494 @@
+/**
+ * M-Pesa Till Routing Service
+ * A bar can hold several named M-Pesa configurations ("tills"), each with its
+ * own shortcode and encrypted credentials. Routing rules on a till (table
+ * range, staff stations, Kenya time of day) choose which one an STK push goes
+ * through; when no till matches, the bar's own configuration is used.
+ *
+ * A till is applied by overlaying it on the bar's M-Pesa columns, so
+ * `loadMpesaConfigFromBar` stays the single place credentials are validated
+ * and decrypted.
+ *
+ * Requires a service-role client: tills hold credentials and have no RLS policies.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isValidTime, KENYA_UTC_OFFSET_MINUTES } from './business-hours';
+import {
+  getSandboxConfigInfo,
+  isDarajaSimulatorEnabled,
+  loadMpesaConfigFromBar,
+  type BarMpesaData,
+  type MpesaConfig,
+  type MpesaEnvironment
+} from './mpesa-config';
+import { encryptToBytea } from './mpesa-encryption';
+
+export interface MpesaTill {
+  id: string;
+  bar_id: string;
+  name: string;
+  environment: MpesaEnvironment;
+  business_shortcode: string;
+  consumer_key_encrypted: string | null;
+  consumer_secret_encrypted: string | null;
+  passkey_encrypted: string | null;
+  initiator_name: string | null;
+  security_credential_encrypted: string | null;
+  is_active: boolean;
+  priority: number;
+  table_from: number | null;
+  table_to: number | null;
+  stations: string[] | null;
+  /** Kenya wall-clock "HH:MM" (Postgres may add seconds) */
+  active_from: string | null;
+  active_to: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/** What is known about a payment when choosing its till */
+export interface MpesaTillRoute {
+  tableNumber?: number | null;
+  /** Staff station the payment was started from, e.g. "Rooftop" */
+  station?: string | null;
+  at?: Date;
+}
+
+export interface MpesaTillInput {
+  name: string;
+  environment: MpesaEnvironment;
+  businessShortcode: string;
+  /** Omitted or masked credentials keep the saved value */
+  consumerKey?: string;
+  consumerSecret?: string;
+  passkey?: string;
+  initiatorName?: string | null;
+  securityCredential?: string;
+  isActive: boolean;
+  priority: number;
+  tableFrom: number | null;
+  tableTo: number | null;
+  stations: string[];
+  activeFrom: string | null;
+  activeTo: string | null;
+}
+
+/** A till as shown to staff: credentials are reported as set or not, never returned */
+export interface MpesaTillSummary {
+  id: string;
+  name: string;
+  environment: MpesaEnvironment;
+  business_shortcode: string;
+  is_active: boolean;
+  priority: number;
+  table_from: number | null;
+  table_to: number | null;
+  stations: string[];
+  active_from: string | null;
+  active_to: string | null;
+  initiator_name: string | null;
+  has_consumer_key: boolean;
+  has_consumer_secret: boolean;
+  has_passkey: boolean;
+  has_security_credential: boolean;
+}
+
+export interface RoutedMpesaConfig {
+  config: MpesaConfig;
+  /** Null when the bar's own configuration was used */
+  till: MpesaTill | null;
+}
+
+export class MpesaTillError extends Error {
+  constructor(message: string, public statusCode: number = 400, public originalError?: any) {
+    super(message);
+    this.name = 'MpesaTillError';
+  }
+}
+
+/** Label for payments that went through the bar's own shortcode rather than a till */
+export const MAIN_TILL_NAME = 'Main shortcode';
+
+/** Shown to staff in place of a saved credential; sending it back keeps the credential */
+export const MASKED_CREDENTIAL = '••••••••••••••••';
+
+export const MPESA_TILL_COLUMNS = `
+  id, bar_id, name, environment, business_shortcode,
+  consumer_key_encrypted, consumer_secret_encrypted, passkey_encrypted,
+  initiator_name, security_credential_encrypted,
+  is_active, priority, table_from, table_to, stations, active_from, active_to,
+  created_at, updated_at
+`;
+
+const MPESA_ENVIRONMENTS: MpesaEnvironment[] = ['sandbox', 'production', 'simulator'];
+const MAX_TILL_NAME_LENGTH = 50;
+const MAX_STATIONS = 20;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function kenyaMinutesOfDay(at: Date): number {
+  const kenya = new Date(at.getTime() + KENYA_UTC_OFFSET_MINUTES * 60 * 1000);
+  return kenya.getUTCHours() * 60 + kenya.getUTCMinutes();
+}
+
+const normalizeStation = (station: string) => station.trim().toLowerCase();
+
+/**
+ * Whether a payment satisfies every rule set on a till
+ * Rules left empty match anything; a table or station rule needs the payment
+ * to carry that detail.
+ */
+export function tillMatchesRoute(till: MpesaTill, route: MpesaTillRoute): boolean {
+  if (till.table_from != null || till.table_to != null) {
+    const table = route.tableNumber;
+    if (table == null) return false;
+    if (till.table_from != null && table < till.table_from) return false;
+    if (till.table_to != null && table > till.table_to) return false;
+  }
+
+  const stations = till.stations || [];
+  if (stations.length > 0) {
+    if (!route.station) return false;
+    const station = normalizeStation(route.station);
+    if (!stations.some(candidate => normalizeStation(candidate) === station)) return false;
+  }
+
+  if (till.active_from && till.active_to) {
+    const from = toMinutes(till.active_from);
+    const to = toMinutes(till.active_to);
+    const now = kenyaMinutesOfDay(route.at || new Date());
+    if (from < to && (now < from || now >= to)) return false;
+    // Overnight window, e.g. 18:00 - 02:00
+    if (from > to && now < from && now >= to) return false;
+  }
+
+  return true;
+}
+
+function ruleCount(till: MpesaTill): number {
+  return (till.table_from != null || till.table_to != null ? 1 : 0)
+    + ((till.stations || []).length > 0 ? 1 : 0)
+    + (till.active_from && till.active_to ? 1 : 0);
+}
+
+/**
+ * Pick the till for a payment: the active matching till with the lowest
+ * priority number, preferring the more specific one on a tie
+ */
+export function selectMpesaTill(tills: MpesaTill[], route: MpesaTillRoute): MpesaTill | null {
+  const matching = tills
+    .filter(till => till.is_active && tillMatchesRoute(till, route))
+    .sort((a, b) => a.priority - b.priority || ruleCount(b) - ruleCount(a) || a.name.localeCompare(b.name));
+
+  return matching[0] || null;
+}
+
+/**
+ * Overlay a till on a bar's M-Pesa columns
+ * Whether M-Pesa is enabled stays the bar's decision; a deactivated till is
+ * still applied so payments already made through it can be queried and refunded.
+ */
+export function applyTillToBarData<T extends BarMpesaData>(bar: T, till: MpesaTill | null): T {
+  if (!till) return bar;
+
+  const refundCredentials = till.initiator_name && till.security_credential_encrypted
+    ? {
+      mpesa_initiator_name: till.initiator_name,
+      mpesa_security_credential_encrypted: till.security_credential_encrypted
+    }
+    : {};
+
+  return {
+    ...bar,
+    mpesa_environment: till.environment,
+    mpesa_business_shortcode: till.business_shortcode,
+    mpesa_consumer_key_encrypted: till.consumer_key_encrypted || '',
+    mpesa_consumer_secret_encrypted: till.consumer_secret_encrypted || '',
+    mpesa_passkey_encrypted: till.passkey_encrypted || '',
+    ...refundCredentials
+  };
+}
+
+export function toMpesaTillSummary(till: MpesaTill): MpesaTillSummary {
+  return {
+    id: till.id,
+    name: till.name,
+    environment: till.environment,
+    business_shortcode: till.business_shortcode,
+    is_active: till.is_active,
+    priority: till.priority,
+    table_from: till.table_from,
+    table_to: till.table_to,
+    stations: till.stations || [],
+    active_from: till.active_from ? till.active_from.slice(0, 5) : null,
+    active_to: till.active_to ? till.active_to.slice(0, 5) : null,
+    initiator_name: till.initiator_name,
+    has_consumer_key: !!till.consumer_key_encrypted,
+    has_consumer_secret: !!till.consumer_secret_encrypted,
+    has_passkey: !!till.passkey_encrypted,
+    has_security_credential: !!till.security_credential_encrypted
+  };
+}
+
+export async function listMpesaTills(supabase: SupabaseClient, barId: string): Promise<MpesaTill[]> {
+  const { data, error } = await supabase
+    .from('bar_mpesa_tills')
+    .select(MPESA_TILL_COLUMNS)
+    .eq('bar_id', barId)
+    .order('priority', { ascending: true });
+
+  if (error) {
+    throw new MpesaTillError(`Failed to load M-Pesa tills: ${error.message}`, 500, error);
+  }
+
+  return (data || []) as MpesaTill[];
+}
+
+export async function loadMpesaTill(supabase: SupabaseClient, tillId: string): Promise<MpesaTill | null> {
+  const { data, error } = await supabase
+    .from('bar_mpesa_tills')
+    .select(MPESA_TILL_COLUMNS)
+    .eq('id', tillId)
+    .maybeSingle();
+
+  if (error) {
+    throw new MpesaTillError(`Failed to load M-Pesa till: ${error.message}`, 500, error);
+  }
+
+  return (data as MpesaTill | null) || null;
+}
+
+/**
+ * Choose the till for a new payment and load its M-Pesa configuration
+ * Throws MpesaConfigurationError like loadMpesaConfigFromBar.
+ */
+export async function routeMpesaPayment(
+  supabase: SupabaseClient,
+  barId: string,
+  bar: BarMpesaData,
+  route: MpesaTillRoute = {}
+): Promise<RoutedMpesaConfig> {
+  const till = selectMpesaTill(await listMpesaTills(supabase, barId), route);
+  return { config: loadMpesaConfigFromBar(applyTillToBarData(bar, till)), till };
+}
+
+/**
+ * The till a payment went through, or null for payments on the bar's own
+ * shortcode (or whose till was deleted)
+ */
+export async function loadPaymentMpesaTill(supabase: SupabaseClient, paymentId: string): Promise<MpesaTill | null> {
+  const { data, error } = await supabase
+    .from('tab_payments')
+    .select('mpesa_till_id')
+    .eq('id', paymentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new MpesaTillError(`Failed to load payment till: ${error.message}`, 500, error);
+  }
+
+  return data?.mpesa_till_id ? loadMpesaTill(supabase, data.mpesa_till_id) : null;
+}
+
+function optionalInteger(value: any, field: string): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new MpesaTillError(`${field} must be a positive whole number`);
+  }
+  return number;
+}
+
+function optionalTime(value: any, field: string): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  const time = typeof value === 'string' ? value.slice(0, 5) : value;
+  if (!isValidTime(time)) {
+    throw new MpesaTillError(`${field} must be a time in HH:MM format`);
+  }
+  return time;
+}
+
+const optionalString = (value: any) => (typeof value === 'string' ? value.trim() : undefined);
+
+/**
+ * Validate a till from a staff request body
+ */
+export function parseMpesaTillInput(body: any): MpesaTillInput {
+  if (!body || typeof body !== 'object') {
+    throw new MpesaTillError('Till details are required');
+  }
+
+  const name = optionalString(body.name) || '';
+  if (!name) {
+    throw new MpesaTillError('Till name is required');
+  }
+  if (name.length > MAX_TILL_NAME_LENGTH) {
+    throw new MpesaTillError(`Till name cannot exceed ${MAX_TILL_NAME_LENGTH} characters`);
+  }
+
+  const environment = body.environment || 'sandbox';
+  if (!MPESA_ENVIRONMENTS.includes(environment)) {
+    throw new MpesaTillError(`Environment must be one of: ${MPESA_ENVIRONMENTS.join(', ')}`);
+  }
+
+  const businessShortcode = optionalString(body.businessShortcode) || '';
+  if (businessShortcode && !/^\d{5,7}$/.test(businessShortcode)) {
+    throw new MpesaTillError('Business shortcode must be 5 to 7 digits');
+  }
+  if (environment === 'production' && !businessShortcode) {
+    throw new MpesaTillError('Business shortcode is required for production tills');
+  }
+
+  const tableFrom = optionalInteger(body.tableFrom, 'First table');
+  const tableTo = optionalInteger(body.tableTo, 'Last table');
+  if (tableFrom !== null && tableTo !== null && tableFrom > tableTo) {
+    throw new MpesaTillError('First table cannot be after the last table');
+  }
+
+  const activeFrom = optionalTime(body.activeFrom, 'Start time');
+  const activeTo = optionalTime(body.activeTo, 'End time');
+  if ((activeFrom === null) !== (activeTo === null)) {
+    throw new MpesaTillError('Set both a start and an end time, or neither');
+  }
+
+  const rawStations: any[] = Array.isArray(body.stations)
+    ? body.stations
+    : typeof body.stations === 'string' ? body.stations.split(',') : [];
+  const stations = Array.from(new Set(
+    rawStations.filter(station => typeof station === 'string').map(station => station.trim()).filter(Boolean)
+  ));
+  if (stations.length > MAX_STATIONS) {
+    throw new MpesaTillError(`A till can have at most ${MAX_STATIONS} stations`);
+  }
+
+  const priority = body.priority === undefined || body.priority === '' ? 100 : Number(body.priority);
+  if (!Number.isInteger(priority) || priority < 0) {
+    throw new MpesaTillError('Priority must be a whole number of 0 or more');
+  }
+
+  return {
+    name,
+    environment,
+    businessShortcode,
+    consumerKey: optionalString(body.consumerKey),
+    consumerSecret: optionalString(body.consumerSecret),
+    passkey: optionalString(body.passkey),
+    initiatorName: body.initiatorName === undefined ? undefined : optionalString(body.initiatorName) || null,
+    securityCredential: optionalString(body.securityCredential),
+    isActive: body.isActive !== false,
+    priority,
+    tableFrom,
+    tableTo,
+    stations,
+    activeFrom,
+    activeTo
+  };
+}
+
+// Only credentials that were typed in are re-encrypted; blank or masked keeps the saved one
+function encryptedCredential(value: string | undefined): string | undefined {
+  return value && value !== MASKED_CREDENTIAL ? encryptToBytea(value) : undefined;
+}
+
+/**
+ * Create a till, or update one of the bar's tills when tillId is given
+ */
+export async function saveMpesaTill(
+  supabase: SupabaseClient,
+  barId: string,
+  input: MpesaTillInput,
+  tillId?: string
+): Promise<MpesaTill> {
+  if (input.environment === 'simulator' && !isDarajaSimulatorEnabled()) {
+    throw new MpesaTillError('The M-Pesa simulator is not enabled on this server');
+  }
+
+  // Sandbox tills use Safaricom's shared test shortcode and passkey, like the bar settings
+  const sandbox = getSandboxConfigInfo();
+  const businessShortcode = input.environment === 'production'
+    ? input.businessShortcode
+    : input.businessShortcode || sandbox.businessShortcode;
+  const passkey = input.environment === 'sandbox' ? sandbox.passkey : input.passkey;
+
+  const record: Record<string, any> = {
+    name: input.name,
+    environment: input.environment,
+    business_shortcode: businessShortcode,
+    is_active: input.isActive,
+    priority: input.priority,
+    table_from: input.tableFrom,
+    table_to: input.tableTo,
+    stations: input.stations,
+    active_from: input.activeFrom,
+    active_to: input.activeTo
+  };
+
+  const credentials: Record<string, string | undefined> = {
+    consumer_key_encrypted: encryptedCredential(input.consumerKey),
+    consumer_secret_encrypted: encryptedCredential(input.consumerSecret),
+    passkey_encrypted: encryptedCredential(passkey),
+    security_credential_encrypted: encryptedCredential(input.securityCredential)
+  };
+  Object.entries(credentials).forEach(([column, value]) => {
+    if (value !== undefined) record[column] = value;
+  });
+  if (input.initiatorName !== undefined) {
+    record.initiator_name = input.initiatorName;
+  }
+
+  const query = tillId
+    ? supabase.from('bar_mpesa_tills').update(record).eq('id', tillId).eq('bar_id', barId)
+    : supabase.from('bar_mpesa_tills').insert({ ...record, bar_id: barId });
+
+  const { data, error } = await query.select(MPESA_TILL_COLUMNS).maybeSingle();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new MpesaTillError(`A till named "${input.name}" already exists`, 409, error);
+    }
+    throw new MpesaTillError(`Failed to save M-Pesa till: ${error.message}`, 500, error);
+  }
+  if (!data) {
+    throw new MpesaTillError('Till not found', 404);
+  }
+
+  return data as MpesaTill;
+}
+
+/**
+ * Delete a till that has never taken a payment
+ * Tills with payments are deactivated instead, so their payments can still be
+ * queried and refunded through the right shortcode.
+ */
+export async function deleteMpesaTill(supabase: SupabaseClient, barId: string, tillId: string): Promise<void> {
+  const { data: payments, error: paymentsError } = await supabase
+    .from('tab_payments')
+    .select('id')
+    .eq('mpesa_till_id', tillId)
+    .limit(1);
+
+  if (paymentsError) {
+    throw new MpesaTillError(`Failed to check till payments: ${paymentsError.message}`, 500, paymentsError);
+  }
+  if (payments && payments.length > 0) {
+    throw new MpesaTillError('This till has taken payments; deactivate it instead', 409);
+  }
+
+  const { data, error } = await supabase
+    .from('bar_mpesa_tills')
+    .delete()
+    .eq('id', tillId)
+    .eq('bar_id', barId)
+    .select('id');
+
+  if (error) {
+    throw new MpesaTillError(`Failed to delete M-Pesa till: ${error.message}`, 500, error);
+  }
+  if (!data || data.length === 0) {
+    throw new MpesaTillError('Till not found', 404);
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Order Lifecycle Service
+ * Server-enforced status transitions for tab orders.
+ *
+ * The transition table mirrors `order_status_transition_allowed` in
+ * migration 007; the database remains the final authority. Each move is
+ * recorded in `tab_order_status_events`, which is published to realtime.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { authorizeTabAccess, type TabRequester } from './tab-details';
+
+// Mirrors OrderStatus / InitiatedBy in packages/shared/types.ts
+export type OrderStatus = 'pending' | 'confirmed' | 'cancelled' | 'served';
+export type OrderActor = 'customer' | 'staff';
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['served', 'cancelled'],
+  // Recalled from the kitchen display
+  served: ['confirmed'],
+  cancelled: []
+};
+
+/** Reasons a customer can give when rejecting a staff order */
+export const ORDER_REJECTION_REASONS = [
+  { value: 'wrong_items', label: 'Wrong items ordered' },
+  { value: 'already_ordered', label: 'Already ordered this' },
+  { value: 'change_mind', label: 'Changed my mind' }
+] as const;
+
+export type OrderRejectionReason = typeof ORDER_REJECTION_REASONS[number]['value'];
+
+const MAX_STAFF_REASON_LENGTH = 200;
+
+export interface OrderTransitionRequest {
+  /** Current status and who created the order */
+  order: { status: string; initiated_by: string };
+  to: OrderStatus;
+  actor: OrderActor;
+  reason?: string | null;
+}
+
+export class OrderTransitionError extends Error {
+  constructor(message: string, public statusCode: number = 409, public originalError?: any) {
+    super(message);
+    this.name = 'OrderTransitionError';
+  }
+}
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && value in ORDER_STATUS_TRANSITIONS;
+}
+
+export function canTransitionOrder(from: string, to: string): boolean {
+  return isOrderStatus(from) && isOrderStatus(to) && ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check a transition against the state table and who may make it
+ * Returns the reason to record (trimmed, or null).
+ *
+ * - Pending orders are confirmed by the other party: staff confirm customer
+ *   orders, customers approve staff orders.
+ * - Customers may cancel any pending order; rejecting a staff order needs one
+ *   of ORDER_REJECTION_REASONS. Staff may only cancel customer orders while pending.
+ * - Only staff serve orders or cancel confirmed ones, and cancelling a
+ *   confirmed order needs a reason.
+ * - Only staff recall a served order back to confirmed.
+ */
+export function validateOrderTransition({ order, to, actor, reason }: OrderTransitionRequest): string | null {
+  if (!canTransitionOrder(order.status, to)) {
+    throw new OrderTransitionError(`Cannot move an order from ${order.status} to ${to}`);
+  }
+
+  const trimmedReason = reason?.trim() || null;
+  const ownOrder = order.initiated_by === actor;
+
+  if (order.status === 'served') {
+    if (actor !== 'staff') {
+      throw new OrderTransitionError('Only staff can recall served orders', 403);
+    }
+    return null;
+  }
+
+  if (to === 'confirmed' && ownOrder) {
+    throw new OrderTransitionError(
+      actor === 'staff' ? 'Customer must approve staff-initiated orders' : 'Staff must confirm customer orders',
+      403
+    );
+  }
+
+  if (to === 'served' && actor !== 'staff') {
+    throw new OrderTransitionError('Only staff can mark orders as served', 403);
+  }
+
+  if (to === 'cancelled') {
+    if (actor === 'customer') {
+      if (order.status !== 'pending') {
+        throw new OrderTransitionError('Confirmed orders can only be cancelled by staff', 403);
+      }
+      if (!ownOrder && !ORDER_REJECTION_REASONS.some(option => option.value === trimmedReason)) {
+        throw new OrderTransitionError('Please select a reason for rejection', 400);
+      }
+    } else {
+      if (order.status === 'pending' && ownOrder) {
+        throw new OrderTransitionError('Staff orders cannot be cancelled after submission', 403);
+      }
+      if (order.status === 'confirmed' && !trimmedReason) {
+        throw new OrderTransitionError('A reason is required to cancel a confirmed order', 400);
+      }
+      if (trimmedReason && trimmedReason.length > MAX_STAFF_REASON_LENGTH) {
+        throw new OrderTransitionError(`Reason cannot exceed ${MAX_STAFF_REASON_LENGTH} characters`, 400);
+      }
+    }
+  }
+
+  return to === 'cancelled' ? trimmedReason : null;
+}
+
+/**
+ * The bar an order was placed at, for checking a staff member's role there
+ */
+export async function getOrderBarId(supabase: SupabaseClient, orderId: string): Promise<string> {
+  const { data: order, error } = await supabase
+    .from('tab_orders')
+    .select('id, tab:tabs!inner(bar_id)')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    throw new OrderTransitionError(`Failed to load order: ${error.message}`, 500, error);
+  }
+  if (!order) {
+    throw new OrderTransitionError('Order not found', 404);
+  }
+
+  const tab: any = Array.isArray(order.tab) ? order.tab[0] : order.tab;
+  return tab.bar_id;
+}
+
+/**
+ * Move an order to a new status on behalf of a staff member or customer device
+ * Returns the updated order row.
+ */
+export async function transitionOrderStatus(
+  supabase: SupabaseClient,
+  orderId: string,
+  to: OrderStatus,
+  requester: TabRequester,
+  reason?: string | null
+): Promise<Record<string, any>> {
+  const { data: order, error: orderError } = await supabase
+    .from('tab_orders')
+    .select('id, status, initiated_by, tab:tabs!inner(bar_id, owner_identifier, device_identifier)')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (orderError) {
+    throw new OrderTransitionError(`Failed to load order: ${orderError.message}`, 500, orderError);
+  }
+  if (!order) {
+    throw new OrderTransitionError('Order not found', 404);
+  }
+
+  const tab = Array.isArray(order.tab) ? order.tab[0] : order.tab;
+  await authorizeTabAccess(supabase, tab, requester);
+
+  const actor: OrderActor = requester.type;
+  const recordedReason = validateOrderTransition({ order, to, actor, reason });
+
+  const { data, error } = await supabase.rpc('transition_order_status', {
+    p_order_id: orderId,
+    p_to_status: to,
+    p_initiated_by: actor,
+    p_actor_id: requester.type === 'staff' ? requester.userId : requester.deviceId,
+    p_reason: recordedReason
+  });
+
+  if (error) {
+    // Raced with another transition; the database rejected the move
+    if (error.code === '23514') {
+      throw new OrderTransitionError(error.message, 409, error);
+    }
+    throw new OrderTransitionError(`Failed to update order: ${error.message}`, 500, error);
+  }
+
+  return data as Record<string, any>;
+}
@@ -15,6 +15,9 @@ export interface PaymentNotificationPayload {
   tabId: string;
   barId: string;
   amount: number;
+  /** Gratuity paid on top of `amount`; not applied to the tab balance */
+  tipAmount?: number;
+  serviceChargeAmount?: number;
   status: 'success' | 'failed' | 'pending';
   method: 'mpesa' | 'cash' | 'card';
   timestamp: string;
@@ -149,6 +152,8 @@ export class PaymentNotificationService {
       tabId: paymentData.tabId,
       barId: tabData.bar_id,
       amount: paymentData.amount,
+      tipAmount: paymentData.tipAmount,
+      serviceChargeAmount: paymentData.serviceChargeAmount,
       status: paymentData.status || 'pending',
       method: paymentData.method || 'mpesa',
       timestamp: paymentData.timestamp || new Date().toISOString(),
@@ -0,0 +1,709 @@
+/**
+ * Payment Plan Service
+ * Lets staff agree an installment schedule for an overdue tab's balance.
+ *
+ * The scheduler (PaymentPlanScheduler, run by /api/payments/mpesa/installments)
+ * sends the customer a push reminder the day before each due date and an
+ * M-Pesa STK push on it. A declined or failed push marks the installment
+ * missed, which escalates it on the overdue page; missed installments are
+ * retried daily up to MAX_INSTALLMENT_ATTEMPTS times. Installment progress is
+ * kept current by the `sync_plan_installment_progress` trigger from migration
+ * 016, and the M-Pesa payment outcome closes the tab once the final
+ * installment clears its balance.
+ *
+ * Server-side only: requires a service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { loadAuthorizedTab, parseTabNotes, type TabRequester } from './tab-details';
+import { type BarMpesaData } from './mpesa-config';
+import { routeMpesaPayment } from './mpesa-tills';
+import { sendSTKPush } from './mpesa-stk-push';
+import { validateMpesaPhoneNumber } from './phoneValidation';
+import { sendPushToDevices } from './push-notifications';
+
+export type PaymentPlanFrequency = 'weekly' | 'fortnightly' | 'monthly';
+export type PaymentPlanStatus = 'active' | 'completed' | 'cancelled';
+export type PlanInstallmentStatus = 'scheduled' | 'pending' | 'paid' | 'missed' | 'cancelled';
+
+export interface CreatePaymentPlanInput {
+  installmentCount: number;
+  frequency: PaymentPlanFrequency;
+  /** YYYY-MM-DD, Nairobi time */
+  firstDueDate: string;
+  phoneNumber: string;
+  notes?: string;
+}
+
+export interface PlannedInstallment {
+  position: number;
+  amount: number;
+  due_date: string;
+}
+
+export interface PlanInstallment {
+  id: string;
+  plan_id: string;
+  tab_id: string;
+  bar_id: string;
+  position: number;
+  amount: number;
+  paid_amount: number;
+  due_date: string;
+  status: PlanInstallmentStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  reminder_sent_at: string | null;
+  failure_reason: string | null;
+  paid_at: string | null;
+}
+
+export interface PaymentPlan {
+  id: string;
+  tab_id: string;
+  bar_id: string;
+  total_amount: number;
+  frequency: PaymentPlanFrequency;
+  phone_number: string;
+  notes: string | null;
+  status: PaymentPlanStatus;
+  created_by: string | null;
+  cancelled_at: string | null;
+  cancel_reason: string | null;
+  created_at: string;
+  installments: PlanInstallment[];
+  paid_amount: number;
+  remaining_amount: number;
+  /** Installments whose push failed and are not yet paid */
+  missed_count: number;
+  next_installment: PlanInstallment | null;
+}
+
+export interface InstallmentChargeResult {
+  installmentId: string;
+  paymentId: string;
+  checkoutRequestId: string;
+}
+
+export interface PaymentPlanSchedulerConfig {
+  batchSize?: number;
+  sendSTKPush?: typeof sendSTKPush;
+  sendPush?: typeof sendPushToDevices;
+  now?: () => Date;
+}
+
+export interface PaymentPlanRunResult {
+  reminded: number;
+  charged: number;
+  failed: number;
+  /** Plans stopped because their tab was settled or closed some other way */
+  ended: number;
+  errors: number;
+}
+
+export class PaymentPlanError extends Error {
+  constructor(message: string, public statusCode: number = 400, public originalError?: any) {
+    super(message);
+    this.name = 'PaymentPlanError';
+  }
+}
+
+export const MIN_PLAN_INSTALLMENTS = 2;
+export const MAX_PLAN_INSTALLMENTS = 12;
+export const PAYMENT_PLAN_FREQUENCIES: PaymentPlanFrequency[] = ['weekly', 'fortnightly', 'monthly'];
+
+/** Charge attempts per installment (the first push plus daily retries) */
+export const MAX_INSTALLMENT_ATTEMPTS = 3;
+const RETRY_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Installments are charged at 09:00 Nairobi time (UTC+3) on their due date
+const CHARGE_TIME_UTC = 'T06:00:00.000Z';
+const NAIROBI_OFFSET_MS = 3 * 60 * 60 * 1000;
+const MAX_NOTES_LENGTH = 500;
+
+const PLAN_INSTALLMENT_SELECT = `
+  *,
+  plan:tab_payment_plans!inner(id, status, phone_number),
+  tab:tabs!inner(
+    id, status, bar_id, tab_number, device_identifier, notes,
+    bars!inner(
+      name,
+      mpesa_enabled,
+      mpesa_environment,
+      mpesa_business_shortcode,
+      mpesa_consumer_key_encrypted,
+      mpesa_consumer_secret_encrypted,
+      mpesa_passkey_encrypted
+    )
+  )
+`;
+
+interface InstallmentWithContext extends PlanInstallment {
+  plan: { id: string; status: PaymentPlanStatus; phone_number: string };
+  tab: {
+    id: string;
+    status: string;
+    bar_id: string;
+    tab_number: number;
+    device_identifier: string | null;
+    notes?: string | null;
+    bars: (BarMpesaData & { name: string }) | (BarMpesaData & { name: string })[];
+  };
+}
+
+const pickOne = <T>(value: T | T[]): T => (Array.isArray(value) ? value[0] : value);
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Today's date in Nairobi as YYYY-MM-DD
+ */
+export function nairobiDate(now: Date = new Date()): string {
+  return new Date(now.getTime() + NAIROBI_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Move a YYYY-MM-DD date on by a number of plan periods
+ * Monthly dates keep their day of the month, clamped to shorter months.
+ */
+export function addPlanPeriods(date: string, frequency: PaymentPlanFrequency, periods: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+
+  if (frequency === 'monthly') {
+    const lastDay = new Date(Date.UTC(year, month - 1 + periods + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(year, month - 1 + periods, Math.min(day, lastDay))).toISOString().slice(0, 10);
+  }
+
+  return addDays(date, (frequency === 'weekly' ? 7 : 14) * periods);
+}
+
+/**
+ * Divide a balance into installments
+ * Whole-shilling balances split into whole shillings (M-Pesa only takes whole
+ * amounts); the remainder goes one unit at a time to the first installments.
+ */
+export function splitInstallments(total: number, count: number): number[] {
+  if (!Number.isInteger(count) || count < MIN_PLAN_INSTALLMENTS || count > MAX_PLAN_INSTALLMENTS) {
+    throw new PaymentPlanError(`A payment plan needs between ${MIN_PLAN_INSTALLMENTS} and ${MAX_PLAN_INSTALLMENTS} installments`);
+  }
+
+  const unitCents = Number.isInteger(total) ? 100 : 1;
+  const units = Math.round(toCents(total) / unitCents);
+  const base = Math.floor(units / count);
+  const remainder = units - base * count;
+
+  if (base === 0) {
+    throw new PaymentPlanError('The balance is too small for that many installments');
+  }
+
+  return Array.from({ length: count }, (_, index) =>
+    fromCents((base + (index < remainder ? 1 : 0)) * unitCents)
+  );
+}
+
+/**
+ * Turn a plan request into a validated installment schedule for the balance
+ */
+export function planInstallments(
+  balance: number,
+  input: Pick<CreatePaymentPlanInput, 'installmentCount' | 'frequency' | 'firstDueDate'>,
+  today: string = nairobiDate()
+): PlannedInstallment[] {
+  if (!(balance > 0)) {
+    throw new PaymentPlanError('There is no balance to put on a payment plan');
+  }
+  if (!PAYMENT_PLAN_FREQUENCIES.includes(input.frequency)) {
+    throw new PaymentPlanError('Frequency must be weekly, fortnightly or monthly');
+  }
+  if (typeof input.firstDueDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(input.firstDueDate) ||
+      isNaN(Date.parse(input.firstDueDate))) {
+    throw new PaymentPlanError('First due date must be a date (YYYY-MM-DD)');
+  }
+  if (input.firstDueDate < today) {
+    throw new PaymentPlanError('First due date cannot be in the past');
+  }
+
+  return splitInstallments(balance, input.installmentCount).map((amount, index) => ({
+    position: index + 1,
+    amount,
+    due_date: addPlanPeriods(input.firstDueDate, input.frequency, index)
+  }));
+}
+
+/**
+ * When the scheduler first charges an installment due on a date
+ */
+export function installmentChargeTime(dueDate: string): string {
+  return `${dueDate}${CHARGE_TIME_UTC}`;
+}
+
+function toPlanView(plan: any, installments: any[]): PaymentPlan {
+  const normalized = installments
+    .map(installment => ({
+      ...installment,
+      amount: Number(installment.amount),
+      paid_amount: Number(installment.paid_amount) || 0
+    }))
+    .sort((a, b) => a.position - b.position) as PlanInstallment[];
+
+  const totalAmount = Number(plan.total_amount);
+  const paidCents = normalized.reduce((sum, installment) => sum + toCents(Math.min(installment.paid_amount, installment.amount)), 0);
+
+  return {
+    ...plan,
+    total_amount: totalAmount,
+    installments: normalized,
+    paid_amount: fromCents(paidCents),
+    remaining_amount: fromCents(Math.max(toCents(totalAmount) - paidCents, 0)),
+    missed_count: normalized.filter(installment => installment.status === 'missed').length,
+    next_installment: normalized.find(installment => installment.status !== 'paid' && installment.status !== 'cancelled') ?? null
+  };
+}
+
+async function loadLatestPlan(supabase: SupabaseClient, tabId: string): Promise<PaymentPlan | null> {
+  const { data, error } = await supabase
+    .from('tab_payment_plans')
+    .select('*, installments:tab_payment_plan_installments(*)')
+    .eq('tab_id', tabId)
+    .neq('status', 'cancelled')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new PaymentPlanError(`Failed to load payment plan: ${error.message}`, 500, error);
+  }
+  if (!data) {
+    return null;
+  }
+
+  const { installments, ...plan } = data as any;
+  return toPlanView(plan, installments || []);
+}
+
+function assertStaff(requester: TabRequester): asserts requester is Extract<TabRequester, { type: 'staff' }> {
+  if (requester.type !== 'staff') {
+    throw new PaymentPlanError('Only staff can manage payment plans', 403);
+  }
+}
+
+/**
+ * The tab's current payment plan (active, or completed once it has been paid off)
+ */
+export async function getTabPaymentPlan(
+  supabase: SupabaseClient,
+  tabId: string,
+  requester: TabRequester
+): Promise<PaymentPlan | null> {
+  await loadAuthorizedTab(supabase, tabId, requester);
+  return loadLatestPlan(supabase, tabId);
+}
+
+/**
+ * Put an overdue tab's balance on an installment schedule
+ */
+export async function createPaymentPlan(
+  supabase: SupabaseClient,
+  tabId: string,
+  requester: TabRequester,
+  input: CreatePaymentPlanInput
+): Promise<PaymentPlan> {
+  assertStaff(requester);
+  const tab = await loadAuthorizedTab(supabase, tabId, requester);
+
+  if (tab.status !== 'overdue') {
+    throw new PaymentPlanError('Only overdue tabs can be put on a payment plan', 409);
+  }
+
+  const phone = validateMpesaPhoneNumber(String(input.phoneNumber || ''));
+  if (!phone.isValid || !phone.normalized) {
+    throw new PaymentPlanError(phone.error || 'Enter the customer\'s M-Pesa number');
+  }
+
+  const { data: existing } = await supabase
+    .from('tab_payment_plans')
+    .select('id')
+    .eq('tab_id', tabId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (existing) {
+    throw new PaymentPlanError('This tab already has a payment plan. Cancel it first to agree a new one.', 409);
+  }
+
+  const { data: balanceData, error: balanceError } = await supabase.rpc('get_tab_balance', { p_tab_id: tabId });
+  if (balanceError) {
+    throw new PaymentPlanError(`Failed to load balance: ${balanceError.message}`, 500, balanceError);
+  }
+  const balance = Number(balanceData) || 0;
+
+  const planned = planInstallments(balance, input);
+
+  const { data: plan, error: planError } = await supabase
+    .from('tab_payment_plans')
+    .insert({
+      tab_id: tabId,
+      bar_id: tab.bar_id,
+      total_amount: balance,
+      frequency: input.frequency,
+      phone_number: phone.normalized,
+      notes: input.notes?.trim().slice(0, MAX_NOTES_LENGTH) || null,
+      created_by: requester.userId
+    })
+    .select()
+    .single();
+
+  if (planError || !plan) {
+    // The partial unique index catches a plan created concurrently
+    if (planError?.code === '23505') {
+      throw new PaymentPlanError('This tab already has a payment plan', 409, planError);
+    }
+    throw new PaymentPlanError(`Failed to create payment plan: ${planError?.message}`, 500, planError);
+  }
+
+  const { data: installments, error: installmentsError } = await supabase
+    .from('tab_payment_plan_installments')
+    .insert(planned.map(installment => ({
+      plan_id: plan.id,
+      tab_id: tabId,
+      bar_id: tab.bar_id,
+      position: installment.position,
+      amount: installment.amount,
+      due_date: installment.due_date,
+      next_attempt_at: installmentChargeTime(installment.due_date)
+    })))
+    .select();
+
+  if (installmentsError || !installments) {
+    await supabase.from('tab_payment_plans').delete().eq('id', plan.id);
+    throw new PaymentPlanError(`Failed to create installments: ${installmentsError?.message}`, 500, installmentsError);
+  }
+
+  return toPlanView(plan, installments);
+}
+
+async function endPlan(supabase: SupabaseClient, planId: string, reason: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('tab_payment_plans')
+    .update({
+      status: 'cancelled',
+      cancelled_at: new Date().toISOString(),
+      cancel_reason: reason
+    })
+    .eq('id', planId)
+    .eq('status', 'active')
+    .select('id');
+
+  if (error) {
+    throw new PaymentPlanError(`Failed to cancel payment plan: ${error.message}`, 500, error);
+  }
+  if (!data || data.length === 0) {
+    return false;
+  }
+
+  await supabase
+    .from('tab_payment_plan_installments')
+    .update({ status: 'cancelled' })
+    .eq('plan_id', planId)
+    .in('status', ['scheduled', 'missed']);
+
+  return true;
+}
+
+/**
+ * Stop a plan. Installments already paid stay on the tab as ordinary payments.
+ */
+export async function cancelPaymentPlan(
+  supabase: SupabaseClient,
+  tabId: string,
+  requester: TabRequester,
+  reason?: string
+): Promise<void> {
+  assertStaff(requester);
+  await loadAuthorizedTab(supabase, tabId, requester);
+
+  const plan = await loadLatestPlan(supabase, tabId);
+  if (!plan || plan.status !== 'active') {
+    throw new PaymentPlanError('This tab has no active payment plan', 404);
+  }
+  if (plan.installments.some(installment => installment.status === 'pending')) {
+    throw new PaymentPlanError('Wait for the pending M-Pesa prompt to finish before cancelling the plan', 409);
+  }
+
+  await endPlan(supabase, plan.id, reason?.trim() || 'Cancelled by staff');
+}
+
+async function loadInstallment(supabase: SupabaseClient, installmentId: string): Promise<InstallmentWithContext> {
+  const { data, error } = await supabase
+    .from('tab_payment_plan_installments')
+    .select(PLAN_INSTALLMENT_SELECT)
+    .eq('id', installmentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new PaymentPlanError(`Failed to load installment: ${error.message}`, 500, error);
+  }
+  if (!data) {
+    throw new PaymentPlanError('Installment not found', 404);
+  }
+  return data as unknown as InstallmentWithContext;
+}
+
+async function chargeInstallment(
+  supabase: SupabaseClient,
+  installment: InstallmentWithContext,
+  stkPush: typeof sendSTKPush,
+  now: Date = new Date(),
+  station: string | null = null
+): Promise<InstallmentChargeResult> {
+  const plan = pickOne(installment.plan);
+  const tab = pickOne(installment.tab);
+
+  if (plan.status !== 'active') {
+    throw new PaymentPlanError('This payment plan is no longer active', 409);
+  }
+  if (installment.status !== 'scheduled' && installment.status !== 'missed') {
+    throw new PaymentPlanError(`Installment ${installment.position} is ${installment.status}`, 409);
+  }
+  if (tab.status !== 'overdue') {
+    throw new PaymentPlanError('This tab is no longer overdue', 409);
+  }
+
+  const amountDue = fromCents(toCents(Number(installment.amount)) - toCents(Number(installment.paid_amount) || 0));
+  const { config, till } = await routeMpesaPayment(supabase, tab.bar_id, pickOne(tab.bars), {
+    tableNumber: parseTabNotes(tab.notes).table_number,
+    station,
+    at: now
+  });
+
+  // Claiming the attempt guards against a second charge of the same installment
+  const { data: claimed, error: claimError } = await supabase
+    .from('tab_payment_plan_installments')
+    .update({
+      attempts: installment.attempts + 1,
+      last_attempt_at: now.toISOString(),
+      next_attempt_at: new Date(now.getTime() + RETRY_INTERVAL_MS).toISOString(),
+      failure_reason: null
+    })
+    .eq('id', installment.id)
+    .eq('status', installment.status)
+    .eq('attempts', installment.attempts)
+    .select('id');
+
+  if (claimError) {
+    throw new PaymentPlanError(`Failed to update installment: ${claimError.message}`, 500, claimError);
+  }
+  if (!claimed || claimed.length === 0) {
+    throw new PaymentPlanError('This installment is already being charged', 409);
+  }
+
+  const { data: payment, error: paymentError } = await supabase
+    .from('tab_payments')
+    .insert({
+      tab_id: tab.id,
+      amount: amountDue,
+      method: 'mpesa',
+      status: 'pending',
+      phone_number: plan.phone_number,
+      plan_installment_id: installment.id,
+      mpesa_till_id: till?.id ?? null
+    })
+    .select()
+    .single();
+
+  if (paymentError || !payment) {
+    throw new PaymentPlanError(`Failed to create payment record: ${paymentError?.message}`, 500, paymentError);
+  }
+
+  try {
+    const stkResponse = await stkPush({
+      phoneNumber: plan.phone_number,
+      amount: Math.round(amountDue),
+      accountReference: `TAB${tab.id.slice(-8)}`,
+      transactionDesc: 'Tab Installment'
+    }, config);
+
+    await supabase
+      .from('tab_payments')
+      .update({
+        reference: stkResponse.CheckoutRequestID,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', payment.id);
+
+    return { installmentId: installment.id, paymentId: payment.id, checkoutRequestId: stkResponse.CheckoutRequestID };
+  } catch (stkError) {
+    const message = stkError instanceof Error ? stkError.message : 'STK Push failed';
+
+    // The sync trigger marks the installment missed
+    await supabase
+      .from('tab_payments')
+      .update({
+        status: 'failed',
+        metadata: { error: message, timestamp: new Date().toISOString() },
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', payment.id);
+
+    throw new PaymentPlanError(`M-Pesa prompt for installment ${installment.position} failed: ${message}`, 502, stkError);
+  }
+}
+
+/**
+ * Charge an installment now instead of waiting for the scheduler
+ * Used by staff to retry a missed installment or take one early; the staff
+ * member's station can route the prompt to that station's till.
+ */
+export async function chargePlanInstallment(
+  supabase: SupabaseClient,
+  tabId: string,
+  installmentId: string,
+  requester: TabRequester,
+  station: string | null = null,
+  stkPush: typeof sendSTKPush = sendSTKPush
+): Promise<InstallmentChargeResult> {
+  assertStaff(requester);
+  await loadAuthorizedTab(supabase, tabId, requester);
+
+  const installment = await loadInstallment(supabase, installmentId);
+  if (installment.tab_id !== tabId) {
+    throw new PaymentPlanError('Installment not found on this tab', 404);
+  }
+  return chargeInstallment(supabase, installment, stkPush, new Date(), station);
+}
+
+export class PaymentPlanScheduler {
+  private config: Required<PaymentPlanSchedulerConfig>;
+
+  constructor(private supabase: SupabaseClient, config: PaymentPlanSchedulerConfig = {}) {
+    this.config = {
+      batchSize: 50,
+      sendSTKPush,
+      sendPush: sendPushToDevices,
+      now: () => new Date(),
+      ...config
+    };
+  }
+
+  /**
+   * Send reminders for tomorrow's installments, then charge those that are due
+   */
+  async run(): Promise<PaymentPlanRunResult> {
+    const result: PaymentPlanRunResult = { reminded: 0, charged: 0, failed: 0, ended: 0, errors: 0 };
+
+    await this.sendReminders(result);
+    await this.chargeDueInstallments(result);
+
+    return result;
+  }
+
+  private async sendReminders(result: PaymentPlanRunResult): Promise<void> {
+    const tomorrow = addDays(nairobiDate(this.config.now()), 1);
+
+    const { data, error } = await this.supabase
+      .from('tab_payment_plan_installments')
+      .select(PLAN_INSTALLMENT_SELECT)
+      .eq('status', 'scheduled')
+      .eq('plan.status', 'active')
+      .is('reminder_sent_at', null)
+      .lte('due_date', tomorrow)
+      .order('due_date', { ascending: true })
+      .limit(this.config.batchSize);
+
+    if (error) {
+      throw new PaymentPlanError(`Failed to load upcoming installments: ${error.message}`, 500, error);
+    }
+
+    for (const installment of (data || []) as unknown as InstallmentWithContext[]) {
+      const tab = pickOne(installment.tab);
+      const bar = pickOne(tab.bars);
+      const dueToday = installment.due_date <= nairobiDate(this.config.now());
+
+      try {
+        if (tab.device_identifier) {
+          await this.config.sendPush(this.supabase, [tab.device_identifier], {
+            title: `${bar.name}: installment due ${dueToday ? 'today' : 'tomorrow'}`,
+            body: `KSh ${Number(installment.amount).toLocaleString()} for Tab #${tab.tab_number}. ` +
+              'Watch for the M-Pesa prompt on your phone.',
+            tag: `payment-plan-${installment.id}`,
+            topic: 'payment',
+            data: { type: 'payment_plan_reminder', tabId: tab.id, installmentId: installment.id }
+          });
+        }
+
+        // Marked even without a device so the reminder is not retried every run
+        await this.supabase
+          .from('tab_payment_plan_installments')
+          .update({ reminder_sent_at: this.config.now().toISOString() })
+          .eq('id', installment.id);
+        result.reminded++;
+      } catch (error) {
+        console.error('Failed to send installment reminder:', {
+          installmentId: installment.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        result.errors++;
+      }
+    }
+  }
+
+  private async chargeDueInstallments(result: PaymentPlanRunResult): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('tab_payment_plan_installments')
+      .select(PLAN_INSTALLMENT_SELECT)
+      .in('status', ['scheduled', 'missed'])
+      .eq('plan.status', 'active')
+      .lt('attempts', MAX_INSTALLMENT_ATTEMPTS)
+      .lte('next_attempt_at', this.config.now().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(this.config.batchSize);
+
+    if (error) {
+      throw new PaymentPlanError(`Failed to load due installments: ${error.message}`, 500, error);
+    }
+
+    const endedPlans = new Set<string>();
+
+    for (const installment of (data || []) as unknown as InstallmentWithContext[]) {
+      const tab = pickOne(installment.tab);
+      if (endedPlans.has(installment.plan_id)) continue;
+
+      try {
+        // Settled at the bar, written off or otherwise closed since the plan was agreed
+        if (tab.status !== 'overdue') {
+          if (await endPlan(this.supabase, installment.plan_id, 'Tab is no longer overdue')) {
+            result.ended++;
+          }
+          endedPlans.add(installment.plan_id);
+          continue;
+        }
+
+        await chargeInstallment(this.supabase, installment, this.config.sendSTKPush, this.config.now());
+        result.charged++;
+      } catch (error) {
+        console.error('Failed to charge installment:', {
+          installmentId: installment.id,
+          planId: installment.plan_id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        if (error instanceof PaymentPlanError && error.statusCode === 502) {
+          result.failed++;
+        } else {
+          result.errors++;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Minimal PDF Writer
+ * Produces a single-page PDF of monospaced text lines without third-party
+ * dependencies, sized to its content. Uses the built-in Courier fonts, so
+ * nothing is embedded and columns line up by character count.
+ */
+
+export interface PdfTextLine {
+  text: string;
+  bold?: boolean;
+}
+
+export interface PdfTextOptions {
+  /** Page width in points; defaults to 80mm thermal paper */
+  width?: number;
+  fontSize?: number;
+  margin?: number;
+  title?: string;
+}
+
+/** 80mm receipt roll in points */
+export const RECEIPT_PAGE_WIDTH = 227;
+
+const LINE_HEIGHT_RATIO = 1.25;
+
+/** Courier glyphs are 0.6em wide */
+const COURIER_CHAR_WIDTH = 0.6;
+
+/**
+ * Characters that fit on one line at the given width and font size
+ */
+export function pdfLineCapacity(options: PdfTextOptions = {}): number {
+  const width = options.width ?? RECEIPT_PAGE_WIDTH;
+  const fontSize = options.fontSize ?? 8;
+  const margin = options.margin ?? 12;
+  return Math.floor((width - margin * 2) / (fontSize * COURIER_CHAR_WIDTH));
+}
+
+/**
+ * Escape a string for a PDF literal, keeping to Latin-1 (WinAnsi) characters
+ */
+export function escapePdfText(value: string): string {
+  return value
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/→/g, '->')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+function toLatin1Bytes(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+/**
+ * Build a PDF with one page holding the given lines, top to bottom
+ */
+export function buildTextPdf(lines: Array<string | PdfTextLine>, options: PdfTextOptions = {}): Uint8Array {
+  const width = options.width ?? RECEIPT_PAGE_WIDTH;
+  const fontSize = options.fontSize ?? 8;
+  const margin = options.margin ?? 12;
+  const lineHeight = fontSize * LINE_HEIGHT_RATIO;
+  const height = Math.ceil(margin * 2 + Math.max(lines.length, 1) * lineHeight);
+
+  const content = ['BT', `${lineHeight.toFixed(2)} TL`, `${margin} ${(height - margin - fontSize).toFixed(2)} Td`];
+  let currentFont = '';
+  lines.forEach((line, index) => {
+    const { text, bold } = typeof line === 'string' ? { text: line, bold: false } : line;
+    const font = bold ? 'F2' : 'F1';
+    if (font !== currentFont) {
+      content.push(`/${font} ${fontSize} Tf`);
+      currentFont = font;
+    }
+    if (index > 0) content.push('T*');
+    content.push(`(${escapePdfText(text)}) Tj`);
+  });
+  content.push('ET');
+  const stream = content.join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    `<< /Title (${escapePdfText(options.title || 'Document')}) /Producer (Tabeza) >>`
+  ];
+
+  // Latin-1 keeps one byte per character, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach(offset => {
+    pdf += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  });
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return toLatin1Bytes(pdf);
+}
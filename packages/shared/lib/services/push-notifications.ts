@@ -0,0 +1,304 @@
+/**
+ * Push Notification Service
+ * Sends a notification to customer devices that subscribed through the
+ * customer app (`push_subscriptions`, keyed by device ID).
+ *
+ * Delivery is standard Web Push: the payload is encrypted for the browser's
+ * subscription keys (RFC 8291, aes128gcm) and each request carries a VAPID
+ * token signed with our application server key (RFC 8292), so any push
+ * service - FCM, Mozilla, Apple - accepts it.
+ *
+ * Server-side only: requires a service-role client, NEXT_PUBLIC_VAPID_PUBLIC_KEY,
+ * VAPID_PRIVATE_KEY and VAPID_SUBJECT.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createCipheriv, createECDH, createPrivateKey, hkdfSync, randomBytes, sign } from 'crypto';
+
+/**
+ * What a push is about; decides how long the push service keeps it for an
+ * offline device and how eagerly a sleeping phone is woken for it
+ */
+export type PushTopic = 'order_ready' | 'payment' | 'message' | 'staff_alert' | 'general';
+
+export type PushUrgency = 'very-low' | 'low' | 'normal' | 'high';
+
+export interface PushNotificationPayload {
+  title: string;
+  body?: string;
+  icon?: string;
+  badge?: string;
+  tag?: string;
+  data?: any;
+  topic?: PushTopic;
+}
+
+export interface PushDeliveryResult {
+  endpoint: string;
+  success: boolean;
+  statusCode?: number;
+  messageId?: string;
+  /** The push service no longer knows the subscription; it has been deleted */
+  pruned?: boolean;
+  error?: string;
+}
+
+export interface VapidConfig {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+}
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushDeliveryOptions {
+  ttl?: number;
+  urgency?: PushUrgency;
+  vapid?: VapidConfig;
+  fetch?: typeof fetch;
+  now?: () => Date;
+}
+
+export class PushNotificationError extends Error {
+  constructor(message: string, public statusCode: number = 500, public originalError?: any) {
+    super(message);
+    this.name = 'PushNotificationError';
+  }
+}
+
+/**
+ * TTL (seconds) and urgency per topic. An order-ready push is useless once
+ * the drink has gone cold, so it is short-lived but wakes the phone; payment
+ * confirmations matter for longer. Android and iOS both hold back pushes
+ * below "normal" while the device is dozing.
+ */
+export const PUSH_TOPIC_DELIVERY: Record<PushTopic, { ttl: number; urgency: PushUrgency }> = {
+  order_ready: { ttl: 15 * 60, urgency: 'high' },
+  payment: { ttl: 4 * 60 * 60, urgency: 'high' },
+  message: { ttl: 60 * 60, urgency: 'normal' },
+  // New orders and messages for staff: stale within minutes, and the tablet must wake
+  staff_alert: { ttl: 10 * 60, urgency: 'high' },
+  general: { ttl: 24 * 60 * 60, urgency: 'normal' }
+};
+
+/** aes128gcm record size; one record covers any payload a push service accepts */
+const RECORD_SIZE = 4096;
+
+/** Push services reject bodies over 4096 bytes: header (86) + tag (16) + delimiter (1) */
+export const MAX_PUSH_PAYLOAD_BYTES = RECORD_SIZE - 86 - 16 - 1;
+
+/** VAPID tokens may live up to 24 hours; stay well inside that */
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+const toBase64Url = (value: Buffer | string) =>
+  Buffer.from(value).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// Node's base64 decoder reads both alphabets; browsers hand out either depending on how keys were exported
+const fromBase64 = (value: string) => Buffer.from(value, 'base64');
+
+export function getVapidConfig(env: Record<string, string | undefined> = process.env): VapidConfig {
+  const publicKey = env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = env.VAPID_PRIVATE_KEY;
+  const subject = env.VAPID_SUBJECT;
+
+  if (!publicKey || !privateKey || !subject) {
+    throw new PushNotificationError(
+      'Web Push is not configured: set NEXT_PUBLIC_VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT',
+      500
+    );
+  }
+  return { publicKey, privateKey, subject };
+}
+
+/**
+ * The Authorization header value for one push service (RFC 8292)
+ * The token's audience is the origin of the subscription endpoint.
+ */
+export function createVapidAuthorization(endpoint: string, vapid: VapidConfig, now: Date = new Date()): string {
+  const publicKey = fromBase64(vapid.publicKey);
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+    throw new PushNotificationError('VAPID public key must be an uncompressed P-256 point', 500);
+  }
+
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: toBase64Url(fromBase64(vapid.privateKey)),
+      x: toBase64Url(publicKey.subarray(1, 33)),
+      y: toBase64Url(publicKey.subarray(33, 65))
+    },
+    format: 'jwk'
+  });
+
+  const header = toBase64Url(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+  const claims = toBase64Url(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+    sub: vapid.subject
+  }));
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' });
+
+  return `vapid t=${header}.${claims}.${toBase64Url(signature)}, k=${toBase64Url(publicKey)}`;
+}
+
+/**
+ * Encrypt a payload for one subscription (RFC 8291, aes128gcm)
+ * A fresh sender key and salt are generated per message; tests pin them.
+ */
+export function encryptPushPayload(
+  payload: Buffer | string,
+  subscription: Pick<PushSubscriptionKeys, 'p256dh' | 'auth'>,
+  fixed: { salt?: Buffer; senderPrivateKey?: Buffer } = {}
+): Buffer {
+  const plaintext = Buffer.from(payload);
+  if (plaintext.length > MAX_PUSH_PAYLOAD_BYTES) {
+    throw new PushNotificationError(`Push payload is ${plaintext.length} bytes; the limit is ${MAX_PUSH_PAYLOAD_BYTES}`, 400);
+  }
+
+  const receiverPublicKey = fromBase64(subscription.p256dh);
+  const authSecret = fromBase64(subscription.auth);
+
+  const sender = createECDH('prime256v1');
+  if (fixed.senderPrivateKey) {
+    sender.setPrivateKey(fixed.senderPrivateKey);
+  } else {
+    sender.generateKeys();
+  }
+  const senderPublicKey = sender.getPublicKey();
+  const salt = fixed.salt || randomBytes(16);
+
+  let sharedSecret: Buffer;
+  try {
+    sharedSecret = sender.computeSecret(receiverPublicKey);
+  } catch (error) {
+    throw new PushNotificationError('Subscription p256dh key is not a valid P-256 public key', 400, error);
+  }
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), receiverPublicKey, senderPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (and only) record
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([plaintext, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(senderPublicKey.length, 20);
+
+  return Buffer.concat([header, senderPublicKey, ciphertext]);
+}
+
+/**
+ * Deliver one push; never throws for delivery failures
+ * 404 and 410 mean the browser dropped the subscription, reported as `gone`.
+ */
+export async function sendWebPush(
+  subscription: PushSubscriptionKeys,
+  notification: PushNotificationPayload,
+  options: PushDeliveryOptions & { vapid: VapidConfig }
+): Promise<PushDeliveryResult & { gone: boolean }> {
+  const delivery = PUSH_TOPIC_DELIVERY[notification.topic || 'general'];
+  const { topic: _topic, ...message } = notification;
+
+  try {
+    const headers: Record<string, string> = {
+      Authorization: createVapidAuthorization(subscription.endpoint, options.vapid, options.now?.()),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: String(options.ttl ?? delivery.ttl),
+      Urgency: options.urgency || delivery.urgency
+    };
+    // A newer push with the same Topic replaces one still queued for an offline device
+    if (notification.tag && /^[A-Za-z0-9_-]{1,32}$/.test(notification.tag)) {
+      headers.Topic = notification.tag;
+    }
+
+    const response = await (options.fetch || fetch)(subscription.endpoint, {
+      method: 'POST',
+      headers,
+      body: new Uint8Array(encryptPushPayload(JSON.stringify(message), subscription))
+    });
+
+    if (response.status === 404 || response.status === 410) {
+      return { endpoint: subscription.endpoint, success: false, statusCode: response.status, gone: true, error: 'Subscription expired' };
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      console.error('❌ Push service rejected notification:', response.status, subscription.endpoint);
+      return {
+        endpoint: subscription.endpoint,
+        success: false,
+        statusCode: response.status,
+        gone: false,
+        error: detail || `Push service returned ${response.status}`
+      };
+    }
+
+    return {
+      endpoint: subscription.endpoint,
+      success: true,
+      statusCode: response.status,
+      messageId: response.headers.get('location') || undefined,
+      gone: false
+    };
+  } catch (error) {
+    console.error('❌ Error sending push notification to:', subscription.endpoint);
+    return { endpoint: subscription.endpoint, success: false, gone: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Send a notification to every subscription registered for the given devices
+ * Each delivery is attempted separately; failures are reported, not thrown.
+ * Subscriptions the push service reports as gone are deleted.
+ */
+export async function sendPushToDevices(
+  supabase: SupabaseClient,
+  deviceIds: string[],
+  notification: PushNotificationPayload,
+  options: PushDeliveryOptions = {}
+): Promise<PushDeliveryResult[]> {
+  if (deviceIds.length === 0) return [];
+
+  const { data: subscriptions, error } = await supabase
+    .from('push_subscriptions')
+    .select('endpoint, p256dh, auth')
+    .in('device_id', deviceIds);
+
+  if (error) {
+    throw new PushNotificationError(`Failed to fetch subscriptions: ${error.message}`, 500, error);
+  }
+  if (!subscriptions || subscriptions.length === 0) return [];
+
+  const vapid = options.vapid || getVapidConfig();
+  const deliveries = await Promise.all(
+    (subscriptions as PushSubscriptionKeys[]).map(subscription => sendWebPush(subscription, notification, { ...options, vapid }))
+  );
+
+  const goneEndpoints = deliveries.filter(delivery => delivery.gone).map(delivery => delivery.endpoint);
+  let pruned = false;
+  if (goneEndpoints.length > 0) {
+    const { error: pruneError } = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .in('endpoint', goneEndpoints);
+
+    if (pruneError) {
+      console.error('❌ Failed to prune expired push subscriptions:', pruneError);
+    } else {
+      pruned = true;
+      console.log(`🧹 Pruned ${goneEndpoints.length} expired push subscription(s)`);
+    }
+  }
+
+  return deliveries.map(({ gone, ...result }) => (gone && pruned ? { ...result, pruned: true } : result));
+}
@@ -0,0 +1,440 @@
+/**
+ * Report Export Service
+ * Exports tabs, orders, payments and write-offs for a range of business days
+ * as CSV (streamed page by page) or XLSX, with stable column headers.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  getBusinessDayWindow,
+  isValidBusinessDate,
+  type BarBusinessHours,
+  type BusinessDayWindow
+} from './daily-report';
+import { BUSINESS_HOURS_COLUMNS } from './business-hours';
+import { buildXlsxWorkbook, type XlsxCellValue } from './xlsx-writer';
+import { formatKenyaTime } from './kenya-time';
+
+export type ExportEntity = 'tabs' | 'tab_orders' | 'tab_payments' | 'write_offs';
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const EXPORT_ENTITIES: ExportEntity[] = ['tabs', 'tab_orders', 'tab_payments', 'write_offs'];
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx'];
+
+/** Rows fetched per page while streaming */
+export const EXPORT_PAGE_SIZE = 1000;
+
+/** Longest range a single export may cover */
+export const MAX_EXPORT_DAYS = 366;
+
+export interface ExportRequest {
+  barId: string;
+  entity: ExportEntity;
+  from: string;
+  to: string;
+  format: ExportFormat;
+}
+
+export interface ExportColumn {
+  header: string;
+  value: (row: any) => XlsxCellValue;
+}
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: ReadableStream<Uint8Array> | Uint8Array;
+}
+
+export class ReportExportError extends Error {
+  constructor(message: string, public statusCode: number = 500, public originalError?: any) {
+    super(message);
+    this.name = 'ReportExportError';
+  }
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+const SHEET_NAMES: Record<ExportEntity, string> = {
+  tabs: 'Tabs',
+  tab_orders: 'Orders',
+  tab_payments: 'Payments',
+  write_offs: 'Write-offs'
+};
+
+/**
+ * Convert a numeric(10,2) value to a KES amount rounded to cents
+ */
+export function toKesAmount(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const amount = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(amount) ? null : Math.round(amount * 100) / 100;
+}
+
+/**
+ * Extract the M-Pesa receipt number from a tab_payments metadata payload
+ * The callback stores the raw Daraja body; older rows carry a flat field.
+ */
+export function extractMpesaReceiptNumber(metadata: any): string {
+  if (!metadata || typeof metadata !== 'object') {
+    return '';
+  }
+  if (metadata.mpesa_receipt_number) {
+    return String(metadata.mpesa_receipt_number);
+  }
+  const items = metadata.Body?.stkCallback?.CallbackMetadata?.Item;
+  if (Array.isArray(items)) {
+    const receipt = items.find((item: any) => item?.Name === 'MpesaReceiptNumber');
+    if (receipt?.Value !== undefined && receipt?.Value !== null) {
+      return String(receipt.Value);
+    }
+  }
+  return '';
+}
+
+function getDisplayName(tab: any): string {
+  if (!tab?.notes) {
+    return '';
+  }
+  try {
+    const notes = typeof tab.notes === 'string' ? JSON.parse(tab.notes) : tab.notes;
+    return notes?.display_name || '';
+  } catch {
+    return '';
+  }
+}
+
+function summarizeItems(items: any): string {
+  if (!Array.isArray(items)) {
+    return '';
+  }
+  return items
+    .map((item: any) => `${item?.quantity ?? 1}x ${item?.name ?? 'Item'}`)
+    .join('; ');
+}
+
+function paymentMethodLabel(method: string): string {
+  switch (method) {
+    case 'mpesa':
+      return 'M-Pesa';
+    case 'cash':
+      return 'Cash';
+    case 'card':
+    case 'cards':
+      return 'Card';
+    default:
+      return method || '';
+  }
+}
+
+/**
+ * Column definitions per entity
+ * Headers are part of the export contract: append new columns, never rename or reorder.
+ */
+export const EXPORT_COLUMNS: Record<ExportEntity, ExportColumn[]> = {
+  tabs: [
+    { header: 'Tab ID', value: row => row.id },
+    { header: 'Tab Number', value: row => row.tab_number },
+    { header: 'Display Name', value: row => getDisplayName(row) },
+    { header: 'Status', value: row => row.status },
+    { header: 'Opened At (EAT)', value: row => formatKenyaTime(row.opened_at, 'sortable') },
+    { header: 'Closed At (EAT)', value: row => formatKenyaTime(row.closed_at, 'sortable') },
+    { header: 'Closed By', value: row => row.closed_by || '' },
+    { header: 'Moved To Overdue At (EAT)', value: row => formatKenyaTime(row.moved_to_overdue_at, 'sortable') },
+    { header: 'Overdue Reason', value: row => row.overdue_reason || '' },
+    { header: 'Total Orders (KES)', value: row => toKesAmount(row.balance?.total_orders ?? 0) },
+    { header: 'Total Payments (KES)', value: row => toKesAmount(row.balance?.total_payments ?? 0) },
+    { header: 'Balance (KES)', value: row => toKesAmount(row.balance?.balance ?? 0) }
+  ],
+  tab_orders: [
+    { header: 'Order ID', value: row => row.id },
+    { header: 'Order Number', value: row => row.order_number ?? '' },
+    { header: 'Tab Number', value: row => row.tabs?.tab_number ?? '' },
+    { header: 'Status', value: row => row.status },
+    { header: 'Initiated By', value: row => row.initiated_by || '' },
+    { header: 'Items', value: row => summarizeItems(row.items) },
+    { header: 'Total (KES)', value: row => toKesAmount(row.total) },
+    { header: 'Created At (EAT)', value: row => formatKenyaTime(row.created_at, 'sortable') },
+    { header: 'Confirmed At (EAT)', value: row => formatKenyaTime(row.confirmed_at, 'sortable') },
+    { header: 'Cancelled At (EAT)', value: row => formatKenyaTime(row.cancelled_at, 'sortable') },
+    { header: 'Cancelled By', value: row => row.cancelled_by || '' },
+    { header: 'Rejection Reason', value: row => row.rejection_reason || '' }
+  ],
+  tab_payments: [
+    { header: 'Payment ID', value: row => row.id },
+    { header: 'Tab Number', value: row => row.tabs?.tab_number ?? '' },
+    { header: 'Method', value: row => paymentMethodLabel(row.method) },
+    { header: 'Status', value: row => row.status },
+    { header: 'Amount (KES)', value: row => toKesAmount(row.amount) },
+    { header: 'M-Pesa Receipt Number', value: row => extractMpesaReceiptNumber(row.metadata) },
+    { header: 'Reference', value: row => row.reference || '' },
+    { header: 'Created At (EAT)', value: row => formatKenyaTime(row.created_at, 'sortable') },
+    { header: 'Updated At (EAT)', value: row => formatKenyaTime(row.updated_at, 'sortable') },
+    { header: 'Tip (KES)', value: row => toKesAmount(row.tip_amount ?? 0) },
+    { header: 'Service Charge (KES)', value: row => toKesAmount(row.service_charge_amount ?? 0) }
+  ],
+  write_offs: [
+    { header: 'Write-off ID', value: row => row.id },
+    { header: 'Tab Number', value: row => row.tabs?.tab_number ?? '' },
+    { header: 'Amount (KES)', value: row => toKesAmount(row.amount) },
+    { header: 'Reason', value: row => row.reason || '' },
+    { header: 'Created At (EAT)', value: row => formatKenyaTime(row.created_at, 'sortable') }
+  ]
+};
+
+/**
+ * Escape a single CSV field (RFC 4180)
+ * Text starting with a formula character is prefixed so spreadsheets don't evaluate it.
+ */
+export function escapeCsvValue(value: XlsxCellValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  let text = String(value);
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+export function toCsvLine(values: XlsxCellValue[]): string {
+  return values.map(escapeCsvValue).join(',') + '\r\n';
+}
+
+/**
+ * Map raw rows to cell values using the entity's column definitions
+ */
+export function toExportRows(entity: ExportEntity, rows: any[]): XlsxCellValue[][] {
+  const columns = EXPORT_COLUMNS[entity];
+  return rows.map(row => columns.map(column => column.value(row)));
+}
+
+export function getExportFilename(entity: ExportEntity, from: string, to: string, format: ExportFormat): string {
+  const range = from === to ? from : `${from}_to_${to}`;
+  return `tabeza-${entity.replace('_', '-')}-${range}.${format}`;
+}
+
+/**
+ * Validate query parameters for an export request
+ */
+export function parseExportRequest(params: {
+  barId?: string | null;
+  entity?: string | null;
+  from?: string | null;
+  to?: string | null;
+  format?: string | null;
+}): ExportRequest {
+  if (!params.barId) {
+    throw new ReportExportError('Bar ID is required', 400);
+  }
+  const entity = (params.entity || '') as ExportEntity;
+  if (!EXPORT_ENTITIES.includes(entity)) {
+    throw new ReportExportError(`Invalid entity. Expected one of: ${EXPORT_ENTITIES.join(', ')}`, 400);
+  }
+  const format = (params.format || 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new ReportExportError(`Invalid format. Expected one of: ${EXPORT_FORMATS.join(', ')}`, 400);
+  }
+  const from = params.from || '';
+  const to = params.to || from;
+  if (!isValidBusinessDate(from) || !isValidBusinessDate(to)) {
+    throw new ReportExportError('Invalid date range. Expected YYYY-MM-DD', 400);
+  }
+  if (from > to) {
+    throw new ReportExportError('Start date must be on or before end date', 400);
+  }
+  const days = (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000 + 1;
+  if (days > MAX_EXPORT_DAYS) {
+    throw new ReportExportError(`Date range cannot exceed ${MAX_EXPORT_DAYS} days`, 400);
+  }
+
+  return { barId: params.barId, entity, from, to, format };
+}
+
+/**
+ * Span covering every business day from `from` to `to` inclusive
+ */
+export function getExportWindow(bar: BarBusinessHours, from: string, to: string): BusinessDayWindow {
+  return {
+    businessDate: from,
+    start: getBusinessDayWindow(bar, from).start,
+    end: getBusinessDayWindow(bar, to).end
+  };
+}
+
+async function fetchPage(
+  supabase: SupabaseClient,
+  barId: string,
+  entity: ExportEntity,
+  window: BusinessDayWindow,
+  page: number
+): Promise<any[]> {
+  const fromRow = page * EXPORT_PAGE_SIZE;
+  const toRow = fromRow + EXPORT_PAGE_SIZE - 1;
+
+  let query;
+  switch (entity) {
+    case 'tabs':
+      query = supabase
+        .from('tabs')
+        .select('id, tab_number, status, notes, opened_at, closed_at, closed_by, moved_to_overdue_at, overdue_reason')
+        .eq('bar_id', barId)
+        .gte('opened_at', window.start)
+        .lt('opened_at', window.end)
+        .order('opened_at', { ascending: true });
+      break;
+    case 'tab_orders':
+      query = supabase
+        .from('tab_orders')
+        .select('id, order_number, status, initiated_by, items, total, created_at, confirmed_at, cancelled_at, cancelled_by, rejection_reason, tabs!inner(bar_id, tab_number)')
+        .eq('tabs.bar_id', barId)
+        .gte('created_at', window.start)
+        .lt('created_at', window.end)
+        .order('created_at', { ascending: true });
+      break;
+    case 'tab_payments':
+      query = supabase
+        .from('tab_payments')
+        .select('id, method, status, amount, tip_amount, service_charge_amount, reference, metadata, created_at, updated_at, tabs!inner(bar_id, tab_number)')
+        .eq('tabs.bar_id', barId)
+        .gte('created_at', window.start)
+        .lt('created_at', window.end)
+        .order('created_at', { ascending: true });
+      break;
+    case 'write_offs':
+      query = supabase
+        .from('tab_write_offs')
+        .select('id, amount, reason, created_at, tabs!inner(tab_number)')
+        .eq('bar_id', barId)
+        .gte('created_at', window.start)
+        .lt('created_at', window.end)
+        .order('created_at', { ascending: true });
+      break;
+  }
+
+  const { data, error } = await query.order('id', { ascending: true }).range(fromRow, toRow);
+  if (error) {
+    throw new ReportExportError(`Failed to load ${entity}: ${error.message}`, 500, error);
+  }
+  const rows = (data || []) as any[];
+
+  if (entity === 'tabs' && rows.length > 0) {
+    const { data: balances, error: balanceError } = await supabase
+      .from('tab_balances')
+      .select('tab_id, total_orders, total_payments, balance')
+      .in('tab_id', rows.map(row => row.id));
+
+    if (balanceError) {
+      throw new ReportExportError(`Failed to load tab balances: ${balanceError.message}`, 500, balanceError);
+    }
+    const byTab = new Map((balances || []).map((balance: any) => [balance.tab_id, balance]));
+    rows.forEach(row => {
+      row.balance = byTab.get(row.id) || null;
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Iterate over every matching row, one page at a time
+ */
+async function* fetchExportPages(
+  supabase: SupabaseClient,
+  barId: string,
+  entity: ExportEntity,
+  window: BusinessDayWindow
+): AsyncGenerator<any[]> {
+  for (let page = 0; ; page++) {
+    const rows = await fetchPage(supabase, barId, entity, window, page);
+    if (rows.length > 0) {
+      yield rows;
+    }
+    if (rows.length < EXPORT_PAGE_SIZE) {
+      return;
+    }
+  }
+}
+
+/**
+ * Stream CSV lines as pages arrive, starting with a UTF-8 BOM so Excel
+ * picks up the encoding
+ */
+function createCsvStream(pages: AsyncGenerator<any[]>, entity: ExportEntity): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let headerSent = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (!headerSent) {
+          headerSent = true;
+          controller.enqueue(encoder.encode('\uFEFF' + toCsvLine(EXPORT_COLUMNS[entity].map(column => column.header))));
+          return;
+        }
+        const { value, done } = await pages.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(toExportRows(entity, value).map(toCsvLine).join('')));
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await pages.return(undefined);
+    }
+  });
+}
+
+/**
+ * Build an export file for a bar
+ * CSV is streamed page by page; XLSX has to be assembled in memory before it can be zipped.
+ * Requires a service-role client.
+ */
+export async function createReportExport(supabase: SupabaseClient, request: ExportRequest): Promise<ExportFile> {
+  const { data: bar, error: barError } = await supabase
+    .from('bars')
+    .select(`id, ${BUSINESS_HOURS_COLUMNS}`)
+    .eq('id', request.barId)
+    .single();
+
+  if (barError || !bar) {
+    throw new ReportExportError(`Bar not found: ${request.barId}`, 404, barError);
+  }
+
+  const window = getExportWindow(bar as BarBusinessHours, request.from, request.to);
+  const pages = fetchExportPages(supabase, request.barId, request.entity, window);
+  const filename = getExportFilename(request.entity, request.from, request.to, request.format);
+
+  if (request.format === 'csv') {
+    return { filename, contentType: CONTENT_TYPES.csv, body: createCsvStream(pages, request.entity) };
+  }
+
+  const rows: XlsxCellValue[][] = [];
+  for await (const page of pages) {
+    rows.push(...toExportRows(request.entity, page));
+  }
+
+  return {
+    filename,
+    contentType: CONTENT_TYPES.xlsx,
+    body: buildXlsxWorkbook(
+      SHEET_NAMES[request.entity],
+      EXPORT_COLUMNS[request.entity].map(column => column.header),
+      rows
+    )
+  };
+}
@@ -0,0 +1,348 @@
+/**
+ * Staff Invites Service
+ * Owners add staff to a bar by invitation and remove them again.
+ *
+ * An invite is a link carrying a random token; only its SHA-256 hash is stored
+ * (`staff_invites.token_hash`). The invited person signs in or creates an
+ * account with the invited email and accepting the link adds their `user_bars`
+ * membership with the invited role. Removing someone deletes the membership,
+ * and their login stops pointing at the bar.
+ *
+ * Requires a service-role client: callers are authorized here, not by RLS.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createHash, randomBytes } from 'crypto';
+import { getStaffMembership, isStaffRole, normalizeStaffRole, StaffAccessError, type StaffRole } from './staff-roles';
+
+export interface StaffInvite {
+  id: string;
+  bar_id: string;
+  email: string;
+  role: StaffRole;
+  invited_by: string;
+  expires_at: string;
+  accepted_by: string | null;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface StaffMember {
+  userId: string;
+  email: string | null;
+  role: StaffRole;
+  joinedAt: string | null;
+}
+
+export interface CreateStaffInviteInput {
+  barId: string;
+  email: string;
+  role: string;
+  invitedBy: string;
+}
+
+/** Days an invite link stays valid */
+export const STAFF_INVITE_TTL_DAYS = 7;
+
+const INVITE_COLUMNS = 'id, bar_id, email, role, invited_by, expires_at, accepted_by, accepted_at, revoked_at, created_at';
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function normalizeEmail(email: unknown): string {
+  const value = typeof email === 'string' ? email.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(value)) {
+    throw new StaffAccessError('Enter a valid email address', 400);
+  }
+  return value;
+}
+
+export function isInviteOpen(invite: Pick<StaffInvite, 'accepted_at' | 'revoked_at' | 'expires_at'>, now: Date = new Date()): boolean {
+  return !invite.accepted_at && !invite.revoked_at && new Date(invite.expires_at).getTime() > now.getTime();
+}
+
+/**
+ * Record an invitation and return the token for the link; the token is not stored
+ */
+export async function createStaffInvite(
+  supabase: SupabaseClient,
+  input: CreateStaffInviteInput,
+  now: Date = new Date()
+): Promise<{ invite: StaffInvite; token: string }> {
+  const email = normalizeEmail(input.email);
+  if (!isStaffRole(input.role)) {
+    throw new StaffAccessError('Choose a role for the invitation', 400);
+  }
+
+  // An expired invite still holds the pending slot for its email
+  await supabase
+    .from('staff_invites')
+    .update({ revoked_at: now.toISOString() })
+    .eq('bar_id', input.barId)
+    .eq('email', email)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .lt('expires_at', now.toISOString());
+
+  const token = randomBytes(24).toString('base64url');
+  const { data, error } = await supabase
+    .from('staff_invites')
+    .insert({
+      bar_id: input.barId,
+      email,
+      role: input.role,
+      token_hash: hashInviteToken(token),
+      invited_by: input.invitedBy,
+      expires_at: new Date(now.getTime() + STAFF_INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    })
+    .select(INVITE_COLUMNS)
+    .single();
+
+  if (error?.code === '23505') {
+    throw new StaffAccessError(`${email} already has a pending invitation`, 409, error);
+  }
+  if (error || !data) {
+    throw new StaffAccessError(`Failed to create invitation: ${error?.message}`, 500, error);
+  }
+
+  return { invite: data as StaffInvite, token };
+}
+
+/**
+ * Invitations that can still be accepted, newest first
+ */
+export async function listStaffInvites(supabase: SupabaseClient, barId: string, now: Date = new Date()): Promise<StaffInvite[]> {
+  const { data, error } = await supabase
+    .from('staff_invites')
+    .select(INVITE_COLUMNS)
+    .eq('bar_id', barId)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new StaffAccessError(`Failed to load invitations: ${error.message}`, 500, error);
+  }
+  return ((data || []) as StaffInvite[]).filter(invite => isInviteOpen(invite, now));
+}
+
+export async function revokeStaffInvite(supabase: SupabaseClient, barId: string, inviteId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('staff_invites')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', inviteId)
+    .eq('bar_id', barId)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw new StaffAccessError(`Failed to revoke invitation: ${error.message}`, 500, error);
+  }
+  if (!data) {
+    throw new StaffAccessError('Invitation not found or already used', 404);
+  }
+}
+
+/**
+ * Look up an invite from its link token without using it
+ */
+export async function getStaffInviteByToken(supabase: SupabaseClient, token: string): Promise<StaffInvite & { bar_name: string | null }> {
+  const { data, error } = await supabase
+    .from('staff_invites')
+    .select(`${INVITE_COLUMNS}, bar:bars(name)`)
+    .eq('token_hash', hashInviteToken(token))
+    .maybeSingle();
+
+  if (error) {
+    throw new StaffAccessError(`Failed to load invitation: ${error.message}`, 500, error);
+  }
+  if (!data) {
+    throw new StaffAccessError('This invitation link is not valid', 404);
+  }
+
+  const { bar, ...invite } = data as any;
+  const barRow = Array.isArray(bar) ? bar[0] : bar;
+  return { ...(invite as StaffInvite), bar_name: barRow?.name ?? null };
+}
+
+/**
+ * Accept an invite for the signed-in user, whose email must match it
+ */
+export async function acceptStaffInvite(
+  supabase: SupabaseClient,
+  token: string,
+  user: { id: string; email?: string | null; user_metadata?: Record<string, any> | null }
+): Promise<{ barId: string; role: StaffRole }> {
+  const invite = await getStaffInviteByToken(supabase, token);
+
+  if (invite.accepted_at) {
+    throw new StaffAccessError('This invitation has already been used', 409);
+  }
+  if (!isInviteOpen(invite)) {
+    throw new StaffAccessError('This invitation has expired or was withdrawn. Ask the owner for a new one.', 410);
+  }
+  if ((user.email || '').trim().toLowerCase() !== invite.email) {
+    throw new StaffAccessError(`This invitation is for ${invite.email}. Sign in with that email to accept it.`);
+  }
+  if (await getStaffMembership(supabase, invite.bar_id, user.id)) {
+    throw new StaffAccessError('You already have access to this bar. Ask the owner to change your role instead.', 409);
+  }
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('staff_invites')
+    .update({ accepted_by: user.id, accepted_at: new Date().toISOString() })
+    .eq('id', invite.id)
+    .is('accepted_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) {
+    throw new StaffAccessError(`Failed to accept invitation: ${claimError.message}`, 500, claimError);
+  }
+  if (!claimed) {
+    throw new StaffAccessError('This invitation has already been used', 409);
+  }
+
+  const { error: memberError } = await supabase
+    .from('user_bars')
+    .insert({ user_id: user.id, bar_id: invite.bar_id, role: invite.role, invited_by: invite.invited_by });
+
+  if (memberError) {
+    throw new StaffAccessError(`Failed to add you to the bar: ${memberError.message}`, 500, memberError);
+  }
+
+  // Logins open on the bar in their metadata; first-time staff land on this one
+  if (!user.user_metadata?.bar_id) {
+    await supabase.auth.admin.updateUserById(user.id, {
+      user_metadata: { ...(user.user_metadata || {}), bar_id: invite.bar_id }
+    });
+  }
+
+  return { barId: invite.bar_id, role: invite.role };
+}
+
+/**
+ * Everyone with access to the bar, with their login email
+ */
+export async function listStaffMembers(supabase: SupabaseClient, barId: string): Promise<StaffMember[]> {
+  const { data, error } = await supabase
+    .from('user_bars')
+    .select('user_id, role, created_at')
+    .eq('bar_id', barId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new StaffAccessError(`Failed to load staff: ${error.message}`, 500, error);
+  }
+
+  return Promise.all((data || []).map(async (row: any) => {
+    const { data: userData } = await supabase.auth.admin.getUserById(row.user_id);
+    return {
+      userId: row.user_id,
+      email: userData?.user?.email ?? null,
+      role: normalizeStaffRole(row.role),
+      joinedAt: row.created_at ?? null
+    };
+  }));
+}
+
+async function countOwners(supabase: SupabaseClient, barId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('user_bars')
+    .select('user_id')
+    .eq('bar_id', barId)
+    .eq('role', 'owner');
+
+  if (error) {
+    throw new StaffAccessError(`Failed to check owners: ${error.message}`, 500, error);
+  }
+  return (data || []).length;
+}
+
+async function loadMemberRole(supabase: SupabaseClient, barId: string, userId: string): Promise<StaffRole> {
+  const { data, error } = await supabase
+    .from('user_bars')
+    .select('role')
+    .eq('bar_id', barId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new StaffAccessError(`Failed to load staff member: ${error.message}`, 500, error);
+  }
+  if (!data) {
+    throw new StaffAccessError('Staff member not found', 404);
+  }
+  return normalizeStaffRole(data.role);
+}
+
+/**
+ * Change a member's role; a bar always keeps at least one owner
+ */
+export async function updateStaffRole(
+  supabase: SupabaseClient,
+  barId: string,
+  userId: string,
+  role: string
+): Promise<StaffRole> {
+  if (!isStaffRole(role)) {
+    throw new StaffAccessError('Choose a valid role', 400);
+  }
+
+  const current = await loadMemberRole(supabase, barId, userId);
+  if (current === 'owner' && role !== 'owner' && await countOwners(supabase, barId) <= 1) {
+    throw new StaffAccessError('A bar needs at least one owner', 409);
+  }
+
+  const { error } = await supabase
+    .from('user_bars')
+    .update({ role })
+    .eq('bar_id', barId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new StaffAccessError(`Failed to change role: ${error.message}`, 500, error);
+  }
+  return role;
+}
+
+/**
+ * Revoke a member's access to the bar
+ */
+export async function removeStaffMember(
+  supabase: SupabaseClient,
+  barId: string,
+  userId: string,
+  removedBy: string
+): Promise<void> {
+  if (userId === removedBy) {
+    throw new StaffAccessError('You cannot remove yourself', 409);
+  }
+
+  const role = await loadMemberRole(supabase, barId, userId);
+  if (role === 'owner' && await countOwners(supabase, barId) <= 1) {
+    throw new StaffAccessError('A bar needs at least one owner', 409);
+  }
+
+  const { error } = await supabase
+    .from('user_bars')
+    .delete()
+    .eq('bar_id', barId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new StaffAccessError(`Failed to remove staff member: ${error.message}`, 500, error);
+  }
+
+  // Stop the login opening on a bar it no longer has access to
+  const { data: userData } = await supabase.auth.admin.getUserById(userId);
+  const metadata = userData?.user?.user_metadata || {};
+  if (metadata.bar_id === barId) {
+    await supabase.auth.admin.updateUserById(userId, { user_metadata: { ...metadata, bar_id: null } });
+  }
+}
@@ -0,0 +1,544 @@
+/**
+ * Staff Push Service
+ * Pushes new customer orders, customer messages and received payments to the
+ * staff PWA so a tablet with its screen asleep still alerts the bar.
+ *
+ * Triggers queue events in `staff_push_events`; StaffPushDispatcher delivers
+ * each one to the devices in `staff_push_subscriptions` whose owner's role
+ * and push preferences allow it. Order and message notifications carry a
+ * signed action token so "Accept" or "Acknowledge" on the notification can
+ * act without opening the app.
+ *
+ * Server-side only: requires a service-role client, the VAPID keys used by
+ * the push notification service and STAFF_PUSH_ACTION_SECRET for actions.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { transitionOrderStatus } from './order-lifecycle';
+import {
+  getVapidConfig,
+  sendWebPush,
+  type PushNotificationPayload,
+  type PushSubscriptionKeys,
+  type PushTopic,
+  type VapidConfig
+} from './push-notifications';
+import { getStaffMembership, hasStaffPermission, StaffAccessError, type StaffPermission } from './staff-roles';
+
+export type StaffPushEventType = 'order.new' | 'message.new' | 'payment.received';
+
+export type StaffPushAction = 'confirm' | 'acknowledge';
+
+export interface StaffPushPreferences {
+  orders: boolean;
+  messages: boolean;
+  payments: boolean;
+}
+
+export const DEFAULT_STAFF_PUSH_PREFERENCES: StaffPushPreferences = {
+  orders: true,
+  messages: true,
+  payments: true
+};
+
+export interface StaffPushEventRecord {
+  id: string;
+  bar_id: string;
+  event_type: StaffPushEventType;
+  payload: Record<string, any>;
+  created_at: string;
+  dispatched_at?: string | null;
+}
+
+/** The bar's in-page alert settings, applied to the notifications too */
+export interface StaffAlertSettings {
+  barName: string;
+  soundEnabled: boolean;
+}
+
+export interface StaffPushActionClaims {
+  userId: string;
+  barId: string;
+  action: StaffPushAction;
+  targetId: string;
+}
+
+export interface StaffPushDispatcherConfig {
+  batchSize?: number;
+  /** Events older than this are marked dispatched without pushing */
+  maxEventAgeMs?: number;
+  vapid?: VapidConfig;
+  fetch?: typeof fetch;
+  now?: () => Date;
+}
+
+export interface StaffPushRunResult {
+  eventsDispatched: number;
+  sent: number;
+  failed: number;
+  pruned: number;
+  skipped: number;
+}
+
+export class StaffPushError extends Error {
+  constructor(message: string, public statusCode: number = 500, public originalError?: any) {
+    super(message);
+    this.name = 'StaffPushError';
+  }
+}
+
+/**
+ * Which preference switches an event off, which permission a staff member
+ * needs to receive it, and the action offered on the notification
+ */
+const EVENT_RULES: Record<StaffPushEventType, {
+  preference: keyof StaffPushPreferences;
+  permission: StaffPermission;
+  topic: PushTopic;
+  action?: { action: StaffPushAction; title: string };
+}> = {
+  'order.new': {
+    preference: 'orders',
+    permission: 'orders.take',
+    topic: 'staff_alert',
+    action: { action: 'confirm', title: 'Accept order' }
+  },
+  'message.new': {
+    preference: 'messages',
+    permission: 'orders.take',
+    topic: 'staff_alert',
+    action: { action: 'acknowledge', title: 'Acknowledge' }
+  },
+  'payment.received': {
+    preference: 'payments',
+    permission: 'payments.take',
+    topic: 'payment'
+  }
+};
+
+/** Long enough to answer a notification picked up at the end of a shift */
+const ACTION_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+const ALERT_VIBRATION = [300, 100, 300, 100, 300];
+
+export function normalizeStaffPushPreferences(value: unknown): StaffPushPreferences {
+  const stored = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  return {
+    orders: typeof stored.orders === 'boolean' ? stored.orders : DEFAULT_STAFF_PUSH_PREFERENCES.orders,
+    messages: typeof stored.messages === 'boolean' ? stored.messages : DEFAULT_STAFF_PUSH_PREFERENCES.messages,
+    payments: typeof stored.payments === 'boolean' ? stored.payments : DEFAULT_STAFF_PUSH_PREFERENCES.payments
+  };
+}
+
+/**
+ * Whether a staff member at the bar should be pushed this event
+ */
+export function shouldPushToStaff(
+  eventType: StaffPushEventType,
+  role: string | null | undefined,
+  preferences: StaffPushPreferences
+): boolean {
+  const rule = EVENT_RULES[eventType];
+  return Boolean(rule) && preferences[rule.preference] && hasStaffPermission(role, rule.permission);
+}
+
+// Tab notes hold the customer's chosen display name, when they gave one
+function tabLabel(payload: Record<string, any>): string {
+  try {
+    const notes = typeof payload.tab_notes === 'string' ? JSON.parse(payload.tab_notes) : payload.tab_notes;
+    if (notes?.display_name) return notes.display_name;
+  } catch {
+    // Plain-text notes; fall back to the tab number
+  }
+  return `Tab ${payload.tab_number ?? ''}`.trim();
+}
+
+function formatAmount(value: unknown): string {
+  const amount = Number(value) || 0;
+  return `KSh ${amount.toLocaleString('en-KE', { maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * The notification staff see for an event
+ * An action token is attached only when the event offers an action and one was signed.
+ */
+export function buildStaffPushNotification(
+  event: Pick<StaffPushEventRecord, 'bar_id' | 'event_type' | 'payload'>,
+  alert: StaffAlertSettings,
+  actionToken?: string
+): PushNotificationPayload {
+  const payload = event.payload || {};
+  const rule = EVENT_RULES[event.event_type];
+  const label = tabLabel(payload);
+
+  let title: string;
+  let body: string;
+  let tag: string;
+  switch (event.event_type) {
+    case 'order.new': {
+      const items = Number(payload.item_count) || 0;
+      title = `New order · ${label}`;
+      body = `${items} item${items === 1 ? '' : 's'} · ${formatAmount(payload.total)}`;
+      tag = `order-${payload.order_id}`;
+      break;
+    }
+    case 'message.new':
+      title = `Message · ${label}`;
+      body = payload.message || 'New message from a customer';
+      tag = `message-${payload.message_id}`;
+      break;
+    default: {
+      const method = payload.method === 'mpesa' ? 'M-Pesa' : String(payload.method || 'payment');
+      title = `Payment received · ${label}`;
+      body = `${formatAmount(payload.amount)} via ${method.charAt(0).toUpperCase()}${method.slice(1)}`;
+      tag = `payment-${payload.payment_id}`;
+    }
+  }
+
+  return {
+    title,
+    body: alert.barName ? `${alert.barName}: ${body}` : body,
+    tag,
+    topic: rule.topic,
+    data: {
+      type: event.event_type,
+      barId: event.bar_id,
+      tabId: payload.tab_id,
+      url: payload.tab_id ? `/tabs/${payload.tab_id}` : '/',
+      // Orders and messages wait on staff, as the in-page overlay does
+      requireInteraction: rule.topic === 'staff_alert',
+      silent: !alert.soundEnabled,
+      vibrate: alert.soundEnabled ? ALERT_VIBRATION : [],
+      actions: rule.action && actionToken ? [rule.action] : [],
+      actionToken: rule.action && actionToken ? actionToken : undefined
+    }
+  };
+}
+
+function getActionSecret(): string | null {
+  return process.env.STAFF_PUSH_ACTION_SECRET || null;
+}
+
+function actionSignature(secret: string, payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Sign an action for one staff member, or null when actions are not configured
+ */
+export function createStaffPushActionToken(claims: StaffPushActionClaims, now: Date = new Date()): string | null {
+  const secret = getActionSecret();
+  if (!secret) return null;
+
+  const expires = Math.floor(now.getTime() / 1000) + ACTION_TOKEN_TTL_SECONDS;
+  const payload = Buffer.from(JSON.stringify({ ...claims, exp: expires })).toString('base64url');
+  return `${payload}.${actionSignature(secret, payload)}`;
+}
+
+/**
+ * Check an action token and return what it allows
+ */
+export function verifyStaffPushActionToken(token: string, now: Date = new Date()): StaffPushActionClaims {
+  const secret = getActionSecret();
+  if (!secret) {
+    throw new StaffPushError('Notification actions are not configured', 503);
+  }
+
+  const [payload, signature] = (token || '').split('.');
+  if (!payload || !signature) {
+    throw new StaffPushError('Invalid notification action', 400);
+  }
+
+  const expected = actionSignature(secret, payload);
+  const valid = signature.length === expected.length &&
+    timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  if (!valid) {
+    throw new StaffPushError('Invalid notification action', 400);
+  }
+
+  const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  if (Number(claims.exp) * 1000 <= now.getTime()) {
+    throw new StaffPushError('This notification has expired; open the app instead', 410);
+  }
+
+  return { userId: claims.userId, barId: claims.barId, action: claims.action, targetId: claims.targetId };
+}
+
+/**
+ * Carry out a notification action for the staff member it was signed for
+ * Membership and permission are checked again: the role may have changed
+ * since the push went out.
+ */
+export async function performStaffPushAction(
+  supabase: SupabaseClient,
+  token: string,
+  now: Date = new Date()
+): Promise<StaffPushActionClaims> {
+  const claims = verifyStaffPushActionToken(token, now);
+
+  const membership = await getStaffMembership(supabase, claims.barId, claims.userId);
+  if (!membership || !hasStaffPermission(membership.role, 'orders.take')) {
+    throw new StaffAccessError('You can no longer take orders at this bar');
+  }
+
+  if (claims.action === 'confirm') {
+    await transitionOrderStatus(supabase, claims.targetId, 'confirmed', { type: 'staff', userId: claims.userId });
+    return claims;
+  }
+
+  if (claims.action === 'acknowledge') {
+    const { data: message, error } = await supabase
+      .from('tab_telegram_messages')
+      .select('id, tab:tabs!inner(bar_id)')
+      .eq('id', claims.targetId)
+      .maybeSingle();
+
+    if (error) {
+      throw new StaffPushError(`Failed to load message: ${error.message}`, 500, error);
+    }
+    const tab = Array.isArray(message?.tab) ? message?.tab[0] : message?.tab;
+    if (!message || tab?.bar_id !== claims.barId) {
+      throw new StaffPushError('Message not found', 404);
+    }
+
+    const { error: ackError } = await supabase.rpc('acknowledge_telegram_message', {
+      p_message_id: claims.targetId,
+      p_staff_id: claims.userId
+    });
+    if (ackError) {
+      throw new StaffPushError(`Failed to acknowledge message: ${ackError.message}`, 500, ackError);
+    }
+    return claims;
+  }
+
+  throw new StaffPushError('Unknown notification action', 400);
+}
+
+/**
+ * Register (or move) a device's subscription to the staff member's current bar
+ */
+export async function saveStaffPushSubscription(
+  supabase: SupabaseClient,
+  membership: { userId: string; barId: string },
+  subscription: PushSubscriptionKeys,
+  userAgent?: string | null
+): Promise<void> {
+  if (!subscription.endpoint || !subscription.p256dh || !subscription.auth) {
+    throw new StaffPushError('Subscription endpoint and keys are required', 400);
+  }
+
+  // A shared tablet keeps one subscription; whoever signed in last owns it
+  const { error } = await supabase
+    .from('staff_push_subscriptions')
+    .upsert({
+      user_id: membership.userId,
+      bar_id: membership.barId,
+      endpoint: subscription.endpoint,
+      p256dh: subscription.p256dh,
+      auth: subscription.auth,
+      user_agent: userAgent || null
+    }, { onConflict: 'endpoint' });
+
+  if (error) {
+    throw new StaffPushError(`Failed to save push subscription: ${error.message}`, 500, error);
+  }
+}
+
+export async function removeStaffPushSubscription(
+  supabase: SupabaseClient,
+  userId: string,
+  endpoint: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('staff_push_subscriptions')
+    .delete()
+    .eq('user_id', userId)
+    .eq('endpoint', endpoint);
+
+  if (error) {
+    throw new StaffPushError(`Failed to remove push subscription: ${error.message}`, 500, error);
+  }
+}
+
+export async function getStaffPushPreferences(
+  supabase: SupabaseClient,
+  userId: string,
+  barId: string
+): Promise<StaffPushPreferences> {
+  const { data, error } = await supabase
+    .from('user_bars')
+    .select('push_preferences')
+    .eq('user_id', userId)
+    .eq('bar_id', barId)
+    .maybeSingle();
+
+  if (error) {
+    throw new StaffPushError(`Failed to load push preferences: ${error.message}`, 500, error);
+  }
+  return normalizeStaffPushPreferences(data?.push_preferences);
+}
+
+export async function updateStaffPushPreferences(
+  supabase: SupabaseClient,
+  userId: string,
+  barId: string,
+  preferences: Partial<StaffPushPreferences>
+): Promise<StaffPushPreferences> {
+  const current = await getStaffPushPreferences(supabase, userId, barId);
+  const next = normalizeStaffPushPreferences({ ...current, ...preferences });
+
+  const { error } = await supabase
+    .from('user_bars')
+    .update({ push_preferences: next })
+    .eq('user_id', userId)
+    .eq('bar_id', barId);
+
+  if (error) {
+    throw new StaffPushError(`Failed to save push preferences: ${error.message}`, 500, error);
+  }
+  return next;
+}
+
+interface BarAudience {
+  alert: StaffAlertSettings;
+  members: Map<string, { role: string | null; preferences: StaffPushPreferences }>;
+  subscriptions: Array<PushSubscriptionKeys & { user_id: string }>;
+}
+
+/**
+ * Staff Push Dispatcher
+ *
+ * Run by the staff push worker route every minute; each run pushes the queued
+ * events and prunes subscriptions the push service or the bar no longer knows.
+ */
+export class StaffPushDispatcher {
+  private config: Required<Pick<StaffPushDispatcherConfig, 'batchSize' | 'maxEventAgeMs' | 'now'>> & StaffPushDispatcherConfig;
+
+  constructor(private supabase: SupabaseClient, config: StaffPushDispatcherConfig = {}) {
+    this.config = {
+      batchSize: 50,
+      maxEventAgeMs: 10 * 60 * 1000,
+      now: () => new Date(),
+      ...config
+    };
+  }
+
+  async run(): Promise<StaffPushRunResult> {
+    const { data: events, error } = await this.supabase
+      .from('staff_push_events')
+      .select('*')
+      .is('dispatched_at', null)
+      .order('created_at', { ascending: true })
+      .limit(this.config.batchSize);
+
+    if (error) {
+      throw new StaffPushError(`Failed to load staff push events: ${error.message}`, 500, error);
+    }
+
+    const result: StaffPushRunResult = { eventsDispatched: 0, sent: 0, failed: 0, pruned: 0, skipped: 0 };
+    if (!events || events.length === 0) return result;
+
+    const vapid = this.config.vapid || getVapidConfig();
+    const audiences = new Map<string, BarAudience>();
+    const staleEndpoints = new Set<string>();
+    const now = this.config.now();
+
+    for (const event of events as StaffPushEventRecord[]) {
+      // A worker outage should not bury the bar in alerts for orders long since handled
+      if (now.getTime() - new Date(event.created_at).getTime() > this.config.maxEventAgeMs) {
+        result.skipped++;
+      } else {
+        if (!audiences.has(event.bar_id)) {
+          audiences.set(event.bar_id, await this.loadAudience(event.bar_id));
+        }
+        const audience = audiences.get(event.bar_id)!;
+        const rule = EVENT_RULES[event.event_type];
+
+        for (const subscription of audience.subscriptions) {
+          const member = audience.members.get(subscription.user_id);
+          if (!member) {
+            // Removed from the bar; their device must stop getting its alerts
+            staleEndpoints.add(subscription.endpoint);
+            continue;
+          }
+          if (!shouldPushToStaff(event.event_type, member.role, member.preferences)) continue;
+
+          const targetId = event.event_type === 'order.new' ? event.payload?.order_id : event.payload?.message_id;
+          const token = rule.action && targetId
+            ? createStaffPushActionToken({ userId: subscription.user_id, barId: event.bar_id, action: rule.action.action, targetId }, now)
+            : null;
+
+          const delivery = await sendWebPush(
+            subscription,
+            buildStaffPushNotification(event, audience.alert, token || undefined),
+            { vapid, fetch: this.config.fetch, now: this.config.now }
+          );
+
+          if (delivery.success) {
+            result.sent++;
+          } else {
+            result.failed++;
+            if (delivery.gone) staleEndpoints.add(subscription.endpoint);
+          }
+        }
+      }
+
+      await this.supabase
+        .from('staff_push_events')
+        .update({ dispatched_at: now.toISOString() })
+        .eq('id', event.id);
+      result.eventsDispatched++;
+    }
+
+    if (staleEndpoints.size > 0) {
+      const { error: pruneError } = await this.supabase
+        .from('staff_push_subscriptions')
+        .delete()
+        .in('endpoint', Array.from(staleEndpoints));
+
+      if (pruneError) {
+        console.error('❌ Failed to prune staff push subscriptions:', pruneError);
+      } else {
+        result.pruned = staleEndpoints.size;
+      }
+    }
+
+    return result;
+  }
+
+  private async loadAudience(barId: string): Promise<BarAudience> {
+    const [subscriptions, members, bar] = await Promise.all([
+      this.supabase
+        .from('staff_push_subscriptions')
+        .select('user_id, endpoint, p256dh, auth')
+        .eq('bar_id', barId),
+      this.supabase
+        .from('user_bars')
+        .select('user_id, role, push_preferences')
+        .eq('bar_id', barId),
+      this.supabase
+        .from('bars')
+        .select('name, alert_sound_enabled')
+        .eq('id', barId)
+        .maybeSingle()
+    ]);
+
+    const failed = subscriptions.error || members.error || bar.error;
+    if (failed) {
+      throw new StaffPushError(`Failed to load staff push audience: ${failed.message}`, 500, failed);
+    }
+
+    return {
+      alert: {
+        barName: bar.data?.name || '',
+        soundEnabled: bar.data?.alert_sound_enabled ?? true
+      },
+      members: new Map((members.data || []).map((member: any) => [
+        member.user_id,
+        { role: member.role, preferences: normalizeStaffPushPreferences(member.push_preferences) }
+      ])),
+      subscriptions: (subscriptions.data || []) as BarAudience['subscriptions']
+    };
+  }
+}
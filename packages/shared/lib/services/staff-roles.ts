@@ -0,0 +1,147 @@
+/**
+ * Staff Roles Service
+ * What each staff role may do at a bar.
+ *
+ * A person's role is stored on their `user_bars` membership, so the same login
+ * can be an owner at one bar and a waiter at another. Permissions are fixed per
+ * role; API routes check them with requireStaffPermission and screens use
+ * hasStaffPermission to hide what the role cannot do.
+ *
+ * Requires a service-role client: callers are authorized here, not by RLS.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { resolveTabRequester } from './tab-details';
+
+export type StaffRole = 'owner' | 'manager' | 'waiter' | 'bartender' | 'cashier';
+
+export type StaffPermission =
+  | 'orders.take'
+  | 'payments.take'
+  | 'payments.close_drawers'
+  | 'tabs.close'
+  | 'tabs.write_off'
+  | 'refunds.approve'
+  | 'menu.edit'
+  | 'settings.bar'
+  | 'settings.payments'
+  | 'reports.view'
+  | 'staff.manage';
+
+export interface StaffMembership {
+  userId: string;
+  barId: string;
+  role: StaffRole;
+}
+
+export const STAFF_ROLES: StaffRole[] = ['owner', 'manager', 'waiter', 'bartender', 'cashier'];
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  waiter: 'Waiter',
+  bartender: 'Bartender',
+  cashier: 'Cashier'
+};
+
+export const STAFF_PERMISSION_LABELS: Record<StaffPermission, string> = {
+  'orders.take': 'Take and serve orders',
+  'payments.take': 'Take cash and run a cash drawer',
+  'payments.close_drawers': "Close other staff's cash drawers",
+  'tabs.close': 'Close tabs',
+  'tabs.write_off': 'Write off overdue debts',
+  'refunds.approve': 'Approve refunds',
+  'menu.edit': 'Edit the menu and prices',
+  'settings.bar': 'Change bar details and hours',
+  'settings.payments': 'Change M-Pesa, card and tax settings',
+  'reports.view': 'View reports',
+  'staff.manage': 'Invite and remove staff'
+};
+
+// Migration 022 repeats the menu, tab, order and payment rows of this table in
+// restrictive RLS policies for writes made from the browser; keep them in step
+export const ROLE_PERMISSIONS: Record<StaffRole, StaffPermission[]> = {
+  owner: Object.keys(STAFF_PERMISSION_LABELS) as StaffPermission[],
+  manager: [
+    'orders.take', 'payments.take', 'payments.close_drawers', 'tabs.close', 'tabs.write_off', 'refunds.approve',
+    'menu.edit', 'settings.bar', 'settings.payments', 'reports.view'
+  ],
+  waiter: ['orders.take', 'payments.take', 'tabs.close'],
+  bartender: ['orders.take'],
+  cashier: ['payments.take', 'tabs.close', 'reports.view']
+};
+
+export class StaffAccessError extends Error {
+  constructor(message: string, public statusCode: number = 403, public originalError?: any) {
+    super(message);
+    this.name = 'StaffAccessError';
+  }
+}
+
+export function isStaffRole(value: unknown): value is StaffRole {
+  return typeof value === 'string' && (STAFF_ROLES as string[]).includes(value);
+}
+
+/** What a membership without a recognisable role is treated as: it can only take orders */
+export const LEAST_PRIVILEGED_STAFF_ROLE: StaffRole = 'bartender';
+
+/**
+ * Read a stored role. The old catch-all 'staff' role became 'waiter'; a missing
+ * or unknown role never grants more than the least-privileged role.
+ */
+export function normalizeStaffRole(role: string | null | undefined): StaffRole {
+  if (role === 'staff') return 'waiter';
+  return isStaffRole(role) ? role : LEAST_PRIVILEGED_STAFF_ROLE;
+}
+
+export function hasStaffPermission(role: string | null | undefined, permission: StaffPermission): boolean {
+  return ROLE_PERMISSIONS[normalizeStaffRole(role)].includes(permission);
+}
+
+/**
+ * The caller's membership of a bar, or null if they have none
+ */
+export async function getStaffMembership(
+  supabase: SupabaseClient,
+  barId: string,
+  userId: string
+): Promise<StaffMembership | null> {
+  const { data, error } = await supabase
+    .from('user_bars')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('bar_id', barId)
+    .maybeSingle();
+
+  if (error) {
+    throw new StaffAccessError(`Failed to check bar access: ${error.message}`, 500, error);
+  }
+  return data ? { userId, barId, role: normalizeStaffRole(data.role) } : null;
+}
+
+/**
+ * Check the signed-in staff member belongs to the bar and, if given, holds the permission
+ */
+export async function requireStaffPermission(
+  supabase: SupabaseClient,
+  headers: Headers,
+  barId: string,
+  permission?: StaffPermission
+): Promise<StaffMembership> {
+  const requester = await resolveTabRequester(supabase, headers);
+  if (requester.type !== 'staff') {
+    throw new StaffAccessError('Staff sign-in required', 401);
+  }
+
+  const membership = await getStaffMembership(supabase, barId, requester.userId);
+  if (!membership) {
+    throw new StaffAccessError('You do not have access to this bar');
+  }
+  if (permission && !hasStaffPermission(membership.role, permission)) {
+    throw new StaffAccessError(
+      `${STAFF_ROLE_LABELS[membership.role]}s cannot ${STAFF_PERMISSION_LABELS[permission].toLowerCase()}`
+    );
+  }
+
+  return membership;
+}
@@ -0,0 +1,199 @@
+/**
+ * Staff Venues Service
+ * Lists the bars a staff member belongs to, switches the bar their session is
+ * scoped to, and summarises every venue side by side for owners running more
+ * than one.
+ *
+ * The selected bar lives in the login's user_metadata.bar_id, which every
+ * staff page already reads, so switching only has to move that one value.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { BUSINESS_HOURS_COLUMNS, type BarBusinessHours } from './business-hours';
+import { getBusinessDayWindow, getCurrentBusinessDate } from './daily-report';
+import {
+  getStaffMembership,
+  hasStaffPermission,
+  normalizeStaffRole,
+  StaffAccessError,
+  type StaffMembership,
+  type StaffRole
+} from './staff-roles';
+
+export interface StaffVenue {
+  barId: string;
+  name: string;
+  role: StaffRole;
+}
+
+export interface VenueSummary extends StaffVenue {
+  businessDate: string;
+  openTabs: number;
+  overdueTabs: number;
+  overdueBalance: number;
+  // Null when the role cannot view reports at that venue
+  todayRevenue: number | null;
+}
+
+export interface VenueSummaryInput {
+  venue: StaffVenue & { hours: BarBusinessHours };
+  tabs: Array<{ bar_id: string; status: string }>;
+  balances: Array<{ bar_id: string; status: string; balance: number | string | null }>;
+  payments: Array<{ amount: number | string | null; created_at: string; tabs: { bar_id: string } }>;
+  at: Date;
+}
+
+export class StaffVenueError extends Error {
+  constructor(message: string, public statusCode: number = 500, public originalError?: any) {
+    super(message);
+    this.name = 'StaffVenueError';
+  }
+}
+
+function toAmount(value: number | string | null | undefined): number {
+  const amount = typeof value === 'string' ? parseFloat(value) : value ?? 0;
+  return isNaN(amount) ? 0 : amount;
+}
+
+async function loadMemberships(supabase: SupabaseClient, userId: string, barColumns: string) {
+  const { data, error } = await supabase
+    .from('user_bars')
+    .select(`bar_id, role, bars!inner(${barColumns})`)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new StaffVenueError(`Failed to load venues: ${error.message}`, 500, error);
+  }
+
+  return ((data || []) as any[]).sort((a, b) => (a.bars?.name || '').localeCompare(b.bars?.name || ''));
+}
+
+/**
+ * Every bar the user is staff at, by name
+ */
+export async function listStaffVenues(supabase: SupabaseClient, userId: string): Promise<StaffVenue[]> {
+  const rows = await loadMemberships(supabase, userId, 'id, name');
+
+  return rows.map(row => ({
+    barId: row.bar_id,
+    name: row.bars?.name || 'Unnamed bar',
+    role: normalizeStaffRole(row.role)
+  }));
+}
+
+/**
+ * Point the user's session at another of their bars
+ * The client refreshes its session afterwards to pick up the new metadata.
+ */
+export async function switchStaffVenue(
+  supabase: SupabaseClient,
+  user: { id: string; user_metadata?: Record<string, any> | null },
+  barId: string
+): Promise<StaffMembership> {
+  const membership = await getStaffMembership(supabase, barId, user.id);
+  if (!membership) {
+    throw new StaffAccessError('You do not have access to this bar');
+  }
+
+  const { error } = await supabase.auth.admin.updateUserById(user.id, {
+    user_metadata: { ...(user.user_metadata || {}), bar_id: barId }
+  });
+
+  if (error) {
+    throw new StaffVenueError(`Failed to switch bar: ${error.message}`, 500, error);
+  }
+
+  return membership;
+}
+
+/**
+ * Summarise one venue from rows loaded for all of them
+ * Revenue counts successful payments inside the venue's own business day.
+ */
+export function buildVenueSummary(input: VenueSummaryInput): VenueSummary {
+  const { venue } = input;
+  const businessDate = getCurrentBusinessDate(venue.hours, input.at);
+  const window = getBusinessDayWindow(venue.hours, businessDate);
+  const start = new Date(window.start).getTime();
+  const end = new Date(window.end).getTime();
+
+  const overdue = input.balances.filter(row => row.bar_id === venue.barId && row.status === 'overdue');
+
+  const todayRevenue = hasStaffPermission(venue.role, 'reports.view')
+    ? input.payments
+        .filter(payment => {
+          const time = new Date(payment.created_at).getTime();
+          return payment.tabs?.bar_id === venue.barId && time >= start && time < end;
+        })
+        .reduce((sum, payment) => sum + toAmount(payment.amount), 0)
+    : null;
+
+  return {
+    barId: venue.barId,
+    name: venue.name,
+    role: venue.role,
+    businessDate,
+    openTabs: input.tabs.filter(tab => tab.bar_id === venue.barId && tab.status === 'open').length,
+    overdueTabs: overdue.length,
+    overdueBalance: overdue.reduce((sum, row) => sum + Math.max(toAmount(row.balance), 0), 0),
+    todayRevenue
+  };
+}
+
+/**
+ * Open tabs, today's revenue and overdue totals for every bar the user belongs to
+ * Requires a service-role client: the user's row-level access only covers the current bar.
+ */
+export async function getVenueSummaries(
+  supabase: SupabaseClient,
+  userId: string,
+  at: Date = new Date()
+): Promise<VenueSummary[]> {
+  const rows = await loadMemberships(supabase, userId, `id, name, ${BUSINESS_HOURS_COLUMNS}`);
+  if (rows.length === 0) return [];
+
+  const venues = rows.map(row => ({
+    barId: row.bar_id as string,
+    name: (row.bars?.name as string) || 'Unnamed bar',
+    role: normalizeStaffRole(row.role),
+    hours: row.bars as BarBusinessHours
+  }));
+  const barIds = venues.map(venue => venue.barId);
+
+  // One payment query covers every venue: start from the earliest business day
+  const earliestStart = venues
+    .map(venue => getBusinessDayWindow(venue.hours, getCurrentBusinessDate(venue.hours, at)).start)
+    .sort()[0];
+
+  const [tabsResult, balancesResult, paymentsResult] = await Promise.all([
+    supabase
+      .from('tabs')
+      .select('bar_id, status')
+      .in('bar_id', barIds)
+      .eq('status', 'open'),
+    supabase
+      .from('tab_balances')
+      .select('bar_id, status, balance')
+      .in('bar_id', barIds)
+      .eq('status', 'overdue'),
+    supabase
+      .from('tab_payments')
+      .select('amount, created_at, tabs!inner(bar_id)')
+      .in('tabs.bar_id', barIds)
+      .eq('status', 'success')
+      .gte('created_at', earliestStart)
+  ]);
+
+  const failed = [tabsResult, balancesResult, paymentsResult].find(result => result.error);
+  if (failed?.error) {
+    throw new StaffVenueError(`Failed to load venue totals: ${failed.error.message}`, 500, failed.error);
+  }
+
+  return venues.map(venue => buildVenueSummary({
+    venue,
+    tabs: (tabsResult.data || []) as any[],
+    balances: (balancesResult.data || []) as any[],
+    payments: (paymentsResult.data || []) as any[],
+    at
+  }));
+}
@@ -0,0 +1,384 @@
+/**
+ * Tab Credit Service
+ * Deposits and credit limits on tabs.
+ *
+ * A bar can require an M-Pesa deposit before a new tab orders, and can cap the
+ * balance any tab may run up (bars.default_tab_limit, copied onto each new tab
+ * and adjustable per tab by staff). Deposits are successful tab_payments rows
+ * flagged is_deposit, so they sit on the tab as a prepayment. When the tab
+ * closes the deposit has either been used up by orders ('applied') or the
+ * unused part is put in for an M-Pesa refund ('refund_requested'); the staff
+ * close route settles it in the same request that closes the tab.
+ *
+ * The enforce_tab_credit trigger (migration 021) is the final authority on
+ * customer orders; checkTabOrder mirrors it so screens can prompt a top-up
+ * before an order is refused, or explain why one was.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { loadAuthorizedTab, type TabRequester } from './tab-details';
+import { requestMpesaRefund, type MpesaRefundRow } from './mpesa-refunds';
+
+export type DepositSettlement = 'applied' | 'refund_requested';
+
+export type TabOrderBlockReason = 'deposit_required' | 'limit_exceeded';
+
+export const DEPOSIT_REFUND_REASON = 'Unused tab deposit';
+
+export interface TabCredit {
+  tabId: string;
+  status: string;
+  /** Null when the tab has no limit */
+  creditLimit: number | null;
+  depositRequired: boolean;
+  depositAmount: number;
+  depositPaid: number;
+  /** Still to pay before the tab can order */
+  depositDue: number;
+  /** Pending, confirmed and served orders */
+  committed: number;
+  /** Successful payments, deposits included and refunds netted off */
+  paid: number;
+  /** What the tab would owe if every open order goes through; negative is credit */
+  projectedBalance: number;
+  /** How much more can be ordered; null without a limit */
+  available: number | null;
+  depositSettlement: DepositSettlement | null;
+}
+
+export interface TabOrderBlock {
+  reason: TabOrderBlockReason;
+  /** Smallest payment that would let the order through */
+  topUp: number;
+  message: string;
+}
+
+export interface TabCreditInput {
+  tab: {
+    id: string;
+    status: string;
+    credit_limit?: number | string | null;
+    deposit_settlement?: string | null;
+  };
+  bar: {
+    deposit_required?: boolean | null;
+    deposit_amount?: number | string | null;
+  };
+  orders: Array<{ total: number | string; status: string }>;
+  payments: Array<{ amount: number | string; status: string; is_deposit?: boolean | null }>;
+}
+
+export interface DepositSettlementResult {
+  settlement: DepositSettlement;
+  refundAmount: number;
+  refunds: MpesaRefundRow[];
+}
+
+export class TabCreditError extends Error {
+  constructor(message: string, public statusCode: number = 400, public originalError?: any) {
+    super(message);
+    this.name = 'TabCreditError';
+  }
+}
+
+const COMMITTED_ORDER_STATUSES = ['pending', 'confirmed', 'served'];
+const BILLABLE_ORDER_STATUSES = ['confirmed', 'served'];
+
+function toCents(value: number | string | null | undefined): number {
+  const amount = typeof value === 'string' ? parseFloat(value) : value ?? 0;
+  return isNaN(amount) ? 0 : Math.round(amount * 100);
+}
+
+const formatKes = (amount: number) => `KSh ${amount.toLocaleString('en-KE')}`;
+
+/**
+ * Work out a tab's deposit and credit position from its rows
+ */
+export function summarizeTabCredit(input: TabCreditInput): TabCredit {
+  const successful = input.payments.filter(payment => payment.status === 'success');
+  const committedCents = input.orders
+    .filter(order => COMMITTED_ORDER_STATUSES.includes(order.status))
+    .reduce((sum, order) => sum + toCents(order.total), 0);
+  const paidCents = successful.reduce((sum, payment) => sum + toCents(payment.amount), 0);
+  const depositPaidCents = successful
+    .filter(payment => payment.is_deposit)
+    .reduce((sum, payment) => sum + toCents(payment.amount), 0);
+
+  const depositRequired = !!input.bar.deposit_required;
+  const depositAmountCents = depositRequired ? toCents(input.bar.deposit_amount) : 0;
+  const limitCents = input.tab.credit_limit !== null && input.tab.credit_limit !== undefined
+    ? toCents(input.tab.credit_limit)
+    : null;
+  const projectedCents = committedCents - paidCents;
+
+  return {
+    tabId: input.tab.id,
+    status: input.tab.status,
+    creditLimit: limitCents === null ? null : limitCents / 100,
+    depositRequired,
+    depositAmount: depositAmountCents / 100,
+    depositPaid: depositPaidCents / 100,
+    depositDue: Math.max(0, depositAmountCents - depositPaidCents) / 100,
+    committed: committedCents / 100,
+    paid: paidCents / 100,
+    projectedBalance: projectedCents / 100,
+    available: limitCents === null ? null : Math.max(0, limitCents - projectedCents) / 100,
+    depositSettlement: (input.tab.deposit_settlement as DepositSettlement) || null
+  };
+}
+
+/**
+ * Whether a customer order of `orderTotal` would go through
+ * Mirrors enforce_tab_credit; returns null when it would.
+ */
+export function checkTabOrder(credit: TabCredit, orderTotal: number): TabOrderBlock | null {
+  if (credit.depositDue > 0) {
+    return {
+      reason: 'deposit_required',
+      topUp: credit.depositDue,
+      message: `Pay your ${formatKes(credit.depositAmount)} deposit to start ordering`
+    };
+  }
+
+  if (credit.creditLimit === null) return null;
+
+  const overCents = toCents(credit.projectedBalance) + toCents(orderTotal) - toCents(credit.creditLimit);
+  if (overCents <= 0) return null;
+
+  return {
+    reason: 'limit_exceeded',
+    topUp: Math.ceil(overCents / 100),
+    message: `This order would take your tab past its ${formatKes(credit.creditLimit)} limit`
+  };
+}
+
+async function loadTabCreditRows(supabase: SupabaseClient, tabId: string): Promise<TabCreditInput & { barId: string }> {
+  const { data: tab, error: tabError } = await supabase
+    .from('tabs')
+    .select('id, bar_id, status, credit_limit, deposit_settlement, bar:bars(deposit_required, deposit_amount)')
+    .eq('id', tabId)
+    .maybeSingle();
+
+  if (tabError) {
+    throw new TabCreditError(`Failed to load tab: ${tabError.message}`, 500, tabError);
+  }
+  if (!tab) {
+    throw new TabCreditError('Tab not found', 404);
+  }
+
+  const [ordersResult, paymentsResult] = await Promise.all([
+    supabase
+      .from('tab_orders')
+      .select('total, status')
+      .eq('tab_id', tabId),
+    supabase
+      .from('tab_payments')
+      .select('id, amount, status, is_deposit')
+      .eq('tab_id', tabId)
+  ]);
+
+  const failed = [ordersResult, paymentsResult].find(result => result.error);
+  if (failed?.error) {
+    throw new TabCreditError(`Failed to load tab credit: ${failed.error.message}`, 500, failed.error);
+  }
+
+  const bar: any = Array.isArray(tab.bar) ? tab.bar[0] : tab.bar;
+  return {
+    barId: tab.bar_id,
+    tab,
+    bar: bar || {},
+    orders: ordersResult.data || [],
+    payments: paymentsResult.data || []
+  };
+}
+
+/**
+ * A tab's deposit and limit for its owner's device or the bar's staff
+ */
+export async function getTabCredit(supabase: SupabaseClient, tabId: string, requester: TabRequester): Promise<TabCredit> {
+  await loadAuthorizedTab(supabase, tabId, requester);
+  return summarizeTabCredit(await loadTabCreditRows(supabase, tabId));
+}
+
+/**
+ * How much an opening deposit payment should charge
+ * The customer only says a payment is the deposit; whether the bar takes one
+ * and how much is still owed come from the bar and the tab.
+ */
+export async function prepareDepositPayment(supabase: SupabaseClient, tabId: string): Promise<{ amountDue: number }> {
+  const rows = await loadTabCreditRows(supabase, tabId);
+  const credit = summarizeTabCredit(rows);
+
+  if (!credit.depositRequired) {
+    throw new TabCreditError('This bar does not take deposits');
+  }
+  if (credit.status !== 'open') {
+    throw new TabCreditError('Deposits are paid when the tab opens', 409);
+  }
+  if (credit.depositDue <= 0) {
+    throw new TabCreditError('The deposit on this tab is already paid', 409);
+  }
+  if (rows.payments.some(payment => payment.is_deposit && payment.status === 'pending')) {
+    throw new TabCreditError('A deposit payment is already in progress', 409);
+  }
+
+  return { amountDue: credit.depositDue };
+}
+
+/**
+ * Change one tab's limit; null lifts it
+ */
+export async function setTabCreditLimit(
+  supabase: SupabaseClient,
+  tabId: string,
+  requester: TabRequester,
+  limit: number | null
+): Promise<TabCredit> {
+  if (requester.type !== 'staff') {
+    throw new TabCreditError('Only staff can change a tab limit', 403);
+  }
+  if (limit !== null && (!Number.isFinite(limit) || limit <= 0)) {
+    throw new TabCreditError('Tab limit must be a positive amount');
+  }
+
+  await loadAuthorizedTab(supabase, tabId, requester);
+
+  const { error } = await supabase
+    .from('tabs')
+    .update({ credit_limit: limit === null ? null : Math.round(limit * 100) / 100, updated_at: new Date().toISOString() })
+    .eq('id', tabId);
+
+  if (error) {
+    throw new TabCreditError(`Failed to update tab limit: ${error.message}`, 500, error);
+  }
+
+  return summarizeTabCredit(await loadTabCreditRows(supabase, tabId));
+}
+
+/**
+ * How much of the deposit is left over once the tab's orders are paid for
+ */
+export function getUnusedDeposit(input: TabCreditInput): number {
+  const billableCents = input.orders
+    .filter(order => BILLABLE_ORDER_STATUSES.includes(order.status))
+    .reduce((sum, order) => sum + toCents(order.total), 0);
+  const credit = summarizeTabCredit(input);
+  const creditCents = toCents(credit.paid) - billableCents;
+
+  return Math.max(0, Math.min(creditCents, toCents(credit.depositPaid))) / 100;
+}
+
+type DepositPayment = { id: string; amount: number | string; status: string; is_deposit?: boolean | null };
+
+const getDepositPayments = (rows: TabCreditInput) =>
+  (rows.payments as DepositPayment[]).filter(payment => payment.is_deposit && payment.status === 'success');
+
+/**
+ * Record the settlement first, guarded on deposit_settlement still being
+ * null, so only one caller goes on to request the refund
+ */
+async function applyDepositSettlement(
+  supabase: SupabaseClient,
+  tabId: string,
+  rows: TabCreditInput & { barId: string },
+  deposits: DepositPayment[],
+  requestedBy: string | null
+): Promise<DepositSettlementResult> {
+  const refundAmount = getUnusedDeposit(rows);
+  const settlement: DepositSettlement = refundAmount > 0 ? 'refund_requested' : 'applied';
+
+  const { data: claimed, error } = await supabase
+    .from('tabs')
+    .update({ deposit_settlement: settlement, deposit_settled_at: new Date().toISOString() })
+    .eq('id', tabId)
+    .is('deposit_settlement', null)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw new TabCreditError(`Failed to record deposit settlement: ${error.message}`, 500, error);
+  }
+  if (!claimed) {
+    throw new TabCreditError('This deposit has already been settled', 409);
+  }
+
+  const refunds: MpesaRefundRow[] = [];
+  let remainingCents = toCents(refundAmount);
+
+  try {
+    for (const deposit of deposits) {
+      if (remainingCents <= 0) break;
+      const amountCents = Math.min(remainingCents, toCents(deposit.amount));
+      refunds.push(await requestMpesaRefund(supabase, {
+        barId: rows.barId,
+        paymentId: deposit.id,
+        amount: amountCents / 100,
+        reason: DEPOSIT_REFUND_REASON,
+        requestedBy
+      }));
+      remainingCents -= amountCents;
+    }
+  } catch (err) {
+    // Leave the deposit unsettled so staff can settle it again
+    await supabase
+      .from('tabs')
+      .update({ deposit_settlement: null, deposit_settled_at: null })
+      .eq('id', tabId)
+      .eq('deposit_settlement', settlement);
+    throw err;
+  }
+
+  return { settlement, refundAmount, refunds };
+}
+
+/**
+ * Settle a closed tab's deposit: mark it applied, or put the unused part in
+ * for a refund against the deposit payment(s) for a manager to approve
+ */
+export async function settleTabDeposit(
+  supabase: SupabaseClient,
+  tabId: string,
+  requester: TabRequester
+): Promise<DepositSettlementResult> {
+  if (requester.type !== 'staff') {
+    throw new TabCreditError('Only staff can settle a deposit', 403);
+  }
+
+  await loadAuthorizedTab(supabase, tabId, requester);
+  const rows = await loadTabCreditRows(supabase, tabId);
+
+  if (rows.tab.status !== 'closed') {
+    throw new TabCreditError('Deposits are settled once the tab is closed', 409);
+  }
+  if (rows.tab.deposit_settlement) {
+    throw new TabCreditError('This deposit has already been settled', 409);
+  }
+
+  const deposits = getDepositPayments(rows);
+  if (deposits.length === 0) {
+    throw new TabCreditError('This tab has no deposit', 404);
+  }
+
+  return applyDepositSettlement(supabase, tabId, rows, deposits, requester.userId);
+}
+
+/**
+ * Settle the deposit as part of closing a tab; null when the tab is not
+ * closed, took no deposit or has already been settled.
+ * The caller must have checked the staff member may close the tab; pass a
+ * null staffUserId when the system closed it.
+ */
+export async function settleClosedTabDeposit(
+  supabase: SupabaseClient,
+  tabId: string,
+  staffUserId: string | null
+): Promise<DepositSettlementResult | null> {
+  const rows = await loadTabCreditRows(supabase, tabId);
+  const deposits = getDepositPayments(rows);
+
+  if (rows.tab.status !== 'closed' || rows.tab.deposit_settlement || deposits.length === 0) {
+    return null;
+  }
+
+  return applyDepositSettlement(supabase, tabId, rows, deposits, staffUserId);
+}
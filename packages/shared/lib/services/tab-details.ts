@@ -0,0 +1,304 @@
+/**
+ * Tab Details Service
+ * Loads a tab with its orders, payments, messages and balance as one snapshot,
+ * and updates the customer-facing details kept in the tab's notes
+ * (display name, table number and a free-text note).
+ *
+ * Staff are authorized through `user_bars`; customers through the device that owns the tab.
+ * Requires a service-role client: callers are authorized here, not by RLS.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type TabRequester =
+  | { type: 'staff'; userId: string }
+  | { type: 'customer'; deviceId: string };
+
+export interface TabSnapshot {
+  tab: Record<string, any>;
+  bar: { id: string; name: string; location: string | null };
+  orders: Record<string, any>[];
+  payments: Record<string, any>[];
+  messages: Record<string, any>[];
+  balance: number;
+  snapshot_at: string;
+}
+
+export interface TabDetailsUpdate {
+  notes?: string | null;
+  tableNumber?: number | null;
+  displayName?: string | null;
+}
+
+/** Shape of the JSON stored in `tabs.notes` */
+export interface TabNotes {
+  display_name?: string;
+  table_number?: number | null;
+  note?: string;
+  [key: string]: any;
+}
+
+export interface TabOwnership {
+  id: string;
+  bar_id: string;
+  status: string;
+  notes: string | null;
+  owner_identifier: string | null;
+  device_identifier: string | null;
+}
+
+export class TabAccessError extends Error {
+  constructor(message: string, public statusCode: number = 403, public originalError?: any) {
+    super(message);
+    this.name = 'TabAccessError';
+  }
+}
+
+/** Header carrying the customer device ID */
+export const DEVICE_ID_HEADER = 'x-device-id';
+
+const MAX_DISPLAY_NAME_LENGTH = 50;
+const MAX_NOTE_LENGTH = 500;
+
+/**
+ * Work out who is calling from the request headers
+ * Staff send their Supabase access token as a bearer token; customers send their device ID.
+ */
+export async function resolveTabRequester(supabase: SupabaseClient, headers: Headers): Promise<TabRequester> {
+  const authorization = headers.get('authorization');
+
+  if (authorization?.startsWith('Bearer ')) {
+    const { data, error } = await supabase.auth.getUser(authorization.slice('Bearer '.length));
+    if (error || !data?.user) {
+      throw new TabAccessError('Invalid or expired session', 401, error);
+    }
+    return { type: 'staff', userId: data.user.id };
+  }
+
+  const deviceId = headers.get(DEVICE_ID_HEADER);
+  if (deviceId) {
+    return { type: 'customer', deviceId };
+  }
+
+  throw new TabAccessError('Authentication required', 401);
+}
+
+/**
+ * Check that a requester may read or change a tab
+ */
+export async function authorizeTabAccess(
+  supabase: SupabaseClient,
+  tab: Pick<TabOwnership, 'bar_id' | 'owner_identifier' | 'device_identifier'>,
+  requester: TabRequester
+): Promise<void> {
+  if (requester.type === 'customer') {
+    const ownsTab = tab.device_identifier === requester.deviceId ||
+      tab.owner_identifier === `${requester.deviceId}_${tab.bar_id}`;
+    if (!ownsTab) {
+      throw new TabAccessError('This tab belongs to another device');
+    }
+    return;
+  }
+
+  const { data, error } = await supabase
+    .from('user_bars')
+    .select('role')
+    .eq('user_id', requester.userId)
+    .eq('bar_id', tab.bar_id)
+    .maybeSingle();
+
+  if (error) {
+    throw new TabAccessError(`Failed to check bar access: ${error.message}`, 500, error);
+  }
+  if (!data) {
+    throw new TabAccessError('You do not have access to this bar');
+  }
+}
+
+export function parseTabNotes(notes: string | null | undefined): TabNotes {
+  if (!notes) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(notes);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    // Legacy tabs stored plain text
+    return { note: notes };
+  }
+}
+
+/**
+ * Pick the editable fields out of a PATCH body, rejecting wrong types
+ */
+export function parseTabDetailsUpdate(body: any): TabDetailsUpdate {
+  if (!body || typeof body !== 'object') {
+    throw new TabAccessError('Request body must be a JSON object', 400);
+  }
+
+  const update: TabDetailsUpdate = {};
+  const isOptionalString = (value: unknown) => value === null || typeof value === 'string';
+
+  if (body.displayName !== undefined) {
+    if (!isOptionalString(body.displayName)) throw new TabAccessError('displayName must be a string', 400);
+    update.displayName = body.displayName;
+  }
+  if (body.notes !== undefined) {
+    if (!isOptionalString(body.notes)) throw new TabAccessError('notes must be a string', 400);
+    update.notes = body.notes;
+  }
+  if (body.tableNumber !== undefined) {
+    if (body.tableNumber !== null && typeof body.tableNumber !== 'number') {
+      throw new TabAccessError('tableNumber must be a number', 400);
+    }
+    update.tableNumber = body.tableNumber;
+  }
+
+  if (Object.keys(update).length === 0) {
+    throw new TabAccessError('Nothing to update. Send displayName, tableNumber or notes', 400);
+  }
+  return update;
+}
+
+/**
+ * Validate an update and merge it into the existing notes
+ * Passing null clears a field; omitted fields are left unchanged.
+ */
+export function applyTabDetailsUpdate(
+  notes: TabNotes,
+  update: TabDetailsUpdate,
+  tableCount?: number | null
+): TabNotes {
+  const next: TabNotes = { ...notes };
+
+  if (update.displayName !== undefined) {
+    const displayName = (update.displayName || '').trim();
+    if (displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+      throw new TabAccessError(`Display name cannot exceed ${MAX_DISPLAY_NAME_LENGTH} characters`, 400);
+    }
+    if (displayName) {
+      next.display_name = displayName;
+    } else {
+      delete next.display_name;
+    }
+  }
+
+  if (update.tableNumber !== undefined) {
+    const tableNumber = update.tableNumber;
+    if (tableNumber !== null) {
+      if (!Number.isInteger(tableNumber) || tableNumber < 1) {
+        throw new TabAccessError('Table number must be a positive whole number', 400);
+      }
+      if (tableCount && tableNumber > tableCount) {
+        throw new TabAccessError(`Table number must be between 1 and ${tableCount}`, 400);
+      }
+    }
+    next.table_number = tableNumber;
+  }
+
+  if (update.notes !== undefined) {
+    const note = (update.notes || '').trim();
+    if (note.length > MAX_NOTE_LENGTH) {
+      throw new TabAccessError(`Notes cannot exceed ${MAX_NOTE_LENGTH} characters`, 400);
+    }
+    if (note) {
+      next.note = note;
+    } else {
+      delete next.note;
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Load the fields needed to authorize a tab and check the requester may use it
+ */
+export async function loadAuthorizedTab(
+  supabase: SupabaseClient,
+  tabId: string,
+  requester: TabRequester
+): Promise<TabOwnership> {
+  const tab = await loadTabOwnership(supabase, tabId);
+  await authorizeTabAccess(supabase, tab, requester);
+  return tab;
+}
+
+async function loadTabOwnership(supabase: SupabaseClient, tabId: string): Promise<TabOwnership> {
+  const { data, error } = await supabase
+    .from('tabs')
+    .select('id, bar_id, status, notes, owner_identifier, device_identifier')
+    .eq('id', tabId)
+    .maybeSingle();
+
+  if (error) {
+    throw new TabAccessError(`Failed to load tab: ${error.message}`, 500, error);
+  }
+  if (!data) {
+    throw new TabAccessError('Tab not found', 404);
+  }
+  return data as TabOwnership;
+}
+
+/**
+ * Load a tab with its bar, orders, payments, messages and balance
+ * Everything comes from one `get_tab_snapshot` call so the parts are consistent.
+ */
+export async function getTabSnapshot(
+  supabase: SupabaseClient,
+  tabId: string,
+  requester: TabRequester
+): Promise<TabSnapshot> {
+  await loadAuthorizedTab(supabase, tabId, requester);
+
+  const { data, error } = await supabase.rpc('get_tab_snapshot', { p_tab_id: tabId });
+
+  if (error) {
+    throw new TabAccessError(`Failed to load tab snapshot: ${error.message}`, 500, error);
+  }
+  if (!data) {
+    throw new TabAccessError('Tab not found', 404);
+  }
+
+  const snapshot = data as TabSnapshot;
+  return { ...snapshot, balance: Number(snapshot.balance) || 0 };
+}
+
+/**
+ * Update display name, table number and notes, then return a fresh snapshot
+ */
+export async function updateTabDetails(
+  supabase: SupabaseClient,
+  tabId: string,
+  requester: TabRequester,
+  update: TabDetailsUpdate
+): Promise<TabSnapshot> {
+  const tab = await loadAuthorizedTab(supabase, tabId, requester);
+
+  if (tab.status === 'closed') {
+    throw new TabAccessError('Closed tabs cannot be edited', 409);
+  }
+
+  let tableCount: number | null = null;
+  if (update.tableNumber !== undefined && update.tableNumber !== null) {
+    const { data: bar } = await supabase
+      .from('bars')
+      .select('table_setup_enabled, table_count')
+      .eq('id', tab.bar_id)
+      .single();
+    tableCount = bar?.table_setup_enabled ? bar.table_count : null;
+  }
+
+  const notes = applyTabDetailsUpdate(parseTabNotes(tab.notes), update, tableCount);
+
+  const { error } = await supabase
+    .from('tabs')
+    .update({ notes: JSON.stringify(notes), updated_at: new Date().toISOString() })
+    .eq('id', tabId);
+
+  if (error) {
+    throw new TabAccessError(`Failed to update tab: ${error.message}`, 500, error);
+  }
+
+  return getTabSnapshot(supabase, tabId, requester);
+}
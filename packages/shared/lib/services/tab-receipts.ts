@@ -0,0 +1,739 @@
+/**
+ * Tab Receipt Service
+ * Builds an itemized receipt for a tab from its orders, payments and
+ * write-offs, renders it as a PDF, and signs expiring share links so a
+ * customer can send it on without the tab's device ID.
+ *
+ * A closed tab is issued a receipt number (tab_receipts) the first time its
+ * receipt is loaded; an open tab gets a provisional bill without one. When
+ * the bar files eTIMS invoices, the server-side close paths file the numbered
+ * receipt (fileClosedTabReceipt) and the control unit data is kept on the
+ * tab_receipts row. Loading a receipt never files it.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { loadAuthorizedTab, parseTabNotes, type TabRequester } from './tab-details';
+import { extractMpesaReceiptNumber } from './report-export';
+import { formatKenyaTime } from './kenya-time';
+import { buildTextPdf, pdfLineCapacity, type PdfTextLine } from './pdf-writer';
+import {
+  BAR_ETIMS_COLUMNS,
+  buildEtimsSalePayload,
+  getEtimsAdapter,
+  listEtimsAdapters,
+  loadEtimsConfigFromBar,
+  resolveItemTaxClass,
+  summarizeTaxes,
+  type EtimsConfig,
+  type TaxableProduct,
+  type TaxClass,
+  type TaxSummary
+} from './etims';
+
+/** Standard VAT rate */
+export const KENYA_VAT_RATE = 0.16;
+
+/** How long a share link stays valid unless asked otherwise */
+export const DEFAULT_RECEIPT_SHARE_DAYS = 7;
+export const MAX_RECEIPT_SHARE_DAYS = 30;
+
+export interface TabReceiptItem {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  taxClass: TaxClass;
+  orderedAt: string;
+}
+
+export interface TabReceiptPayment {
+  id: string;
+  method: string;
+  /** Negative for an M-Pesa refund */
+  amount: number;
+  tip: number;
+  serviceCharge: number;
+  mpesaReceiptNumber: string | null;
+  paidAt: string;
+}
+
+export interface TabReceiptEtims {
+  /** pending: queued or being filed */
+  status: 'pending' | 'submitted' | 'failed';
+  adapter: string | null;
+  /** Signed by a test adapter, not filed with KRA */
+  test: boolean;
+  controlUnitInvoiceNumber: string | null;
+  receiptSignature: string | null;
+  internalData: string | null;
+  qrUrl: string | null;
+  submittedAt: string | null;
+  error: string | null;
+}
+
+export interface TabReceipt {
+  tabId: string;
+  tabNumber: number;
+  displayName: string | null;
+  status: string;
+  /** Null while the tab is open: the receipt is a provisional bill */
+  receiptNumber: string | null;
+  issuedAt: string | null;
+  openedAt: string;
+  closedAt: string | null;
+  bar: {
+    name: string;
+    location: string | null;
+    phone: string | null;
+    email: string | null;
+    kraPin: string | null;
+  };
+  items: TabReceiptItem[];
+  /** What the tab was charged for its items */
+  subtotal: number;
+  /** Whether item prices include tax; if not, tax is added to the subtotal */
+  pricesIncludeTax: boolean;
+  taxes: TaxSummary[];
+  /** 16% VAT on the receipt */
+  vat: { rate: number; amount: number };
+  /** Invoice total including tax */
+  total: number;
+  payments: TabReceiptPayment[];
+  /** Payments towards the tab, refunds netted off; tips and service charge excluded */
+  paid: number;
+  tips: number;
+  serviceCharges: number;
+  writeOffs: Array<{ amount: number; reason: string | null; createdAt: string }>;
+  writtenOff: number;
+  /** Left to pay against the subtotal */
+  balance: number;
+  etims: TabReceiptEtims | null;
+}
+
+/**
+ * eTIMS filing state of a tab_receipts row; null when the bar does not file
+ * - pending: waiting to be filed
+ * - submitting: claimed by one close path, being sent to the control unit
+ * - submitted / failed: the control unit's answer; failed rows can be claimed again
+ */
+export type TabReceiptEtimsStatus = 'pending' | 'submitting' | 'submitted' | 'failed';
+
+/** A tab_receipts row */
+export interface IssuedTabReceipt {
+  receipt_number: number;
+  issued_at: string;
+  etims_status?: TabReceiptEtimsStatus | null;
+  etims_adapter?: string | null;
+  etims_cu_invoice_number?: string | null;
+  etims_receipt_signature?: string | null;
+  etims_internal_data?: string | null;
+  etims_qr_url?: string | null;
+  etims_submitted_at?: string | null;
+  etims_error?: string | null;
+}
+
+const TAB_RECEIPT_COLUMNS =
+  'receipt_number, issued_at, etims_status, etims_adapter, etims_cu_invoice_number, etims_receipt_signature, etims_internal_data, etims_qr_url, etims_submitted_at, etims_error';
+
+export interface TabReceiptInput {
+  tab: {
+    id: string;
+    tab_number: number;
+    status: string;
+    notes?: string | null;
+    opened_at: string;
+    closed_at?: string | null;
+  };
+  bar: {
+    name: string;
+    location?: string | null;
+    phone?: string | null;
+    email?: string | null;
+    kra_pin?: string | null;
+    prices_include_tax?: boolean | null;
+  };
+  /** The bar's menu, for item tax classes; items not found are standard rated */
+  products?: TaxableProduct[];
+  orders: Array<{ items: any; status: string; created_at: string }>;
+  payments: Array<{
+    id: string;
+    method: string;
+    amount: number | string;
+    tip_amount?: number | string | null;
+    service_charge_amount?: number | string | null;
+    status: string;
+    metadata?: any;
+    created_at: string;
+  }>;
+  writeOffs: Array<{ amount: number | string; reason?: string | null; created_at: string }>;
+  issued?: IssuedTabReceipt | null;
+}
+
+export class TabReceiptError extends Error {
+  constructor(message: string, public statusCode: number = 400, public originalError?: any) {
+    super(message);
+    this.name = 'TabReceiptError';
+  }
+}
+
+const BILLABLE_ORDER_STATUSES = ['confirmed', 'served'];
+
+function toCents(value: number | string | null | undefined): number {
+  const amount = typeof value === 'string' ? parseFloat(value) : value ?? 0;
+  return isNaN(amount) ? 0 : Math.round(amount * 100);
+}
+
+function parseItems(items: any): any[] {
+  if (typeof items === 'string') {
+    try {
+      return JSON.parse(items);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(items) ? items : [];
+}
+
+/**
+ * Receipt numbers are shown zero-padded, e.g. 000042
+ */
+export function formatReceiptNumber(receiptNumber: number): string {
+  return String(receiptNumber).padStart(6, '0');
+}
+
+function toReceiptEtims(issued: IssuedTabReceipt | null | undefined): TabReceiptEtims | null {
+  if (!issued?.etims_status) return null;
+
+  return {
+    status: issued.etims_status === 'submitting' ? 'pending' : issued.etims_status,
+    adapter: issued.etims_adapter || null,
+    test: listEtimsAdapters().some(adapter => adapter.name === issued.etims_adapter && adapter.testOnly),
+    controlUnitInvoiceNumber: issued.etims_cu_invoice_number || null,
+    receiptSignature: issued.etims_receipt_signature || null,
+    internalData: issued.etims_internal_data || null,
+    qrUrl: issued.etims_qr_url || null,
+    submittedAt: issued.etims_submitted_at || null,
+    error: issued.etims_error || null
+  };
+}
+
+/**
+ * Put the receipt together from the tab's rows
+ * Only confirmed or served orders and successful payments are counted.
+ */
+export function buildTabReceipt(input: TabReceiptInput): TabReceipt {
+  const products = input.products || [];
+  const pricesIncludeTax = input.bar.prices_include_tax ?? true;
+  const items: TabReceiptItem[] = input.orders
+    .filter(order => BILLABLE_ORDER_STATUSES.includes(order.status))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .flatMap(order => parseItems(order.items).map(item => {
+      const quantity = Number(item.quantity) || 1;
+      const unitCents = toCents(item.price);
+      const totalCents = item.total !== undefined && item.total !== null ? toCents(item.total) : unitCents * quantity;
+      return {
+        name: String(item.name || 'Item'),
+        quantity,
+        unitPrice: unitCents / 100,
+        total: totalCents / 100,
+        taxClass: resolveItemTaxClass(item, products),
+        orderedAt: order.created_at
+      };
+    }));
+
+  const payments: TabReceiptPayment[] = input.payments
+    .filter(payment => payment.status === 'success')
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(payment => ({
+      id: payment.id,
+      method: payment.method,
+      amount: toCents(payment.amount) / 100,
+      tip: toCents(payment.tip_amount) / 100,
+      serviceCharge: toCents(payment.service_charge_amount) / 100,
+      mpesaReceiptNumber: payment.method === 'mpesa' ? extractMpesaReceiptNumber(payment.metadata) || null : null,
+      paidAt: payment.created_at
+    }));
+
+  const writeOffs = input.writeOffs.map(writeOff => ({
+    amount: toCents(writeOff.amount) / 100,
+    reason: writeOff.reason || null,
+    createdAt: writeOff.created_at
+  }));
+
+  const subtotalCents = items.reduce((sum, item) => sum + toCents(item.total), 0);
+  const paidCents = payments.reduce((sum, payment) => sum + toCents(payment.amount), 0);
+  const writtenOffCents = writeOffs.reduce((sum, writeOff) => sum + toCents(writeOff.amount), 0);
+  const taxes = summarizeTaxes(items, pricesIncludeTax);
+  const vatCents = taxes
+    .filter(tax => tax.rate === KENYA_VAT_RATE)
+    .reduce((sum, tax) => sum + toCents(tax.tax), 0);
+  const totalCents = taxes.reduce((sum, tax) => sum + toCents(tax.gross), 0);
+
+  return {
+    tabId: input.tab.id,
+    tabNumber: input.tab.tab_number,
+    displayName: parseTabNotes(input.tab.notes).display_name || null,
+    status: input.tab.status,
+    receiptNumber: input.issued ? formatReceiptNumber(input.issued.receipt_number) : null,
+    issuedAt: input.issued?.issued_at || null,
+    openedAt: input.tab.opened_at,
+    closedAt: input.tab.closed_at || null,
+    bar: {
+      name: input.bar.name,
+      location: input.bar.location || null,
+      phone: input.bar.phone || null,
+      email: input.bar.email || null,
+      kraPin: input.bar.kra_pin || null
+    },
+    items,
+    subtotal: subtotalCents / 100,
+    pricesIncludeTax,
+    taxes,
+    vat: { rate: KENYA_VAT_RATE, amount: vatCents / 100 },
+    total: totalCents / 100,
+    payments,
+    paid: paidCents / 100,
+    tips: payments.reduce((sum, payment) => sum + toCents(payment.tip), 0) / 100,
+    serviceCharges: payments.reduce((sum, payment) => sum + toCents(payment.serviceCharge), 0) / 100,
+    writeOffs,
+    writtenOff: writtenOffCents / 100,
+    balance: Math.max(0, subtotalCents - paidCents - writtenOffCents) / 100,
+    etims: toReceiptEtims(input.issued)
+  };
+}
+
+/**
+ * Give a closed tab its receipt number, or return the one it already has
+ * Numbers run per bar; a clash with a concurrent issue is retried.
+ */
+export async function issueTabReceipt(
+  supabase: SupabaseClient,
+  tabId: string,
+  barId: string
+): Promise<IssuedTabReceipt> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: existing, error: existingError } = await supabase
+      .from('tab_receipts')
+      .select(TAB_RECEIPT_COLUMNS)
+      .eq('tab_id', tabId)
+      .maybeSingle();
+
+    if (existingError) {
+      throw new TabReceiptError(`Failed to load receipt: ${existingError.message}`, 500, existingError);
+    }
+    if (existing) return existing;
+
+    const { data: last, error: lastError } = await supabase
+      .from('tab_receipts')
+      .select('receipt_number')
+      .eq('bar_id', barId)
+      .order('receipt_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (lastError) {
+      throw new TabReceiptError(`Failed to number receipt: ${lastError.message}`, 500, lastError);
+    }
+
+    const { data: issued, error } = await supabase
+      .from('tab_receipts')
+      .insert({ tab_id: tabId, bar_id: barId, receipt_number: (last?.receipt_number || 0) + 1 })
+      .select(TAB_RECEIPT_COLUMNS)
+      .single();
+
+    if (!error && issued) return issued;
+    if (error?.code !== '23505') {
+      throw new TabReceiptError(`Failed to issue receipt: ${error?.message}`, 500, error);
+    }
+  }
+
+  throw new TabReceiptError('Could not issue a receipt number, please try again', 409);
+}
+
+/**
+ * Build a tab's receipt along with the bar row it was built from
+ */
+async function loadReceiptWithBar(
+  supabase: SupabaseClient,
+  tabId: string
+): Promise<{ receipt: TabReceipt; bar: any }> {
+  const { data: tab, error: tabError } = await supabase
+    .from('tabs')
+    .select(`id, bar_id, tab_number, status, notes, opened_at, closed_at, bar:bars(name, location, phone, email, ${BAR_ETIMS_COLUMNS})`)
+    .eq('id', tabId)
+    .maybeSingle();
+
+  if (tabError) {
+    throw new TabReceiptError(`Failed to load tab: ${tabError.message}`, 500, tabError);
+  }
+  if (!tab) {
+    throw new TabReceiptError('Tab not found', 404);
+  }
+
+  const [ordersResult, paymentsResult, writeOffsResult, productsResult] = await Promise.all([
+    supabase
+      .from('tab_orders')
+      .select('items, status, created_at')
+      .eq('tab_id', tabId),
+    supabase
+      .from('tab_payments')
+      .select('id, method, amount, tip_amount, service_charge_amount, status, metadata, created_at')
+      .eq('tab_id', tabId),
+    supabase
+      .from('tab_write_offs')
+      .select('amount, reason, created_at')
+      .eq('tab_id', tabId),
+    supabase
+      .from('bar_products')
+      .select('id, product_id, custom_product_id, name, tax_class')
+      .eq('bar_id', tab.bar_id)
+  ]);
+
+  const failed = [ordersResult, paymentsResult, writeOffsResult, productsResult].find(result => result.error);
+  if (failed?.error) {
+    throw new TabReceiptError(`Failed to load receipt data: ${failed.error.message}`, 500, failed.error);
+  }
+
+  const issued = tab.status === 'closed' ? await issueTabReceipt(supabase, tab.id, tab.bar_id) : null;
+  const bar: any = Array.isArray(tab.bar) ? tab.bar[0] : tab.bar;
+
+  const receipt = buildTabReceipt({
+    tab,
+    bar: bar || { name: 'Tabeza' },
+    products: productsResult.data || [],
+    orders: ordersResult.data || [],
+    payments: paymentsResult.data || [],
+    writeOffs: writeOffsResult.data || [],
+    issued
+  });
+
+  return { receipt, bar };
+}
+
+/**
+ * Load everything on a tab's receipt; the caller must already be allowed to see the tab
+ */
+export async function loadTabReceipt(supabase: SupabaseClient, tabId: string): Promise<TabReceipt> {
+  const { receipt } = await loadReceiptWithBar(supabase, tabId);
+  return receipt;
+}
+
+/**
+ * Take the right to file a receipt with eTIMS
+ * Only one caller moves the row from pending or failed to submitting; the
+ * others get false and leave it alone.
+ */
+async function claimEtimsSubmission(supabase: SupabaseClient, tabId: string): Promise<boolean> {
+  const { error: queueError } = await supabase
+    .from('tab_receipts')
+    .update({ etims_status: 'pending' })
+    .eq('tab_id', tabId)
+    .is('etims_status', null);
+
+  if (queueError) {
+    throw new TabReceiptError(`Failed to queue eTIMS submission: ${queueError.message}`, 500, queueError);
+  }
+
+  const { data: claimed, error } = await supabase
+    .from('tab_receipts')
+    .update({ etims_status: 'submitting' })
+    .eq('tab_id', tabId)
+    .in('etims_status', ['pending', 'failed'])
+    .select('tab_id');
+
+  if (error) {
+    throw new TabReceiptError(`Failed to claim eTIMS submission: ${error.message}`, 500, error);
+  }
+  return !!claimed && claimed.length > 0;
+}
+
+/**
+ * Number a closed tab's receipt and file it with eTIMS when the bar has it on
+ * For the server-side close paths and an explicit retry; a receipt that is
+ * already filed, or being filed by another request, is returned as it is.
+ */
+export async function fileClosedTabReceipt(supabase: SupabaseClient, tabId: string): Promise<TabReceipt> {
+  const { receipt, bar } = await loadReceiptWithBar(supabase, tabId);
+  if (!receipt.receiptNumber || !bar) return receipt;
+
+  let config: EtimsConfig | null = null;
+  let configError: unknown = null;
+  try {
+    config = loadEtimsConfigFromBar(bar);
+  } catch (err) {
+    configError = err;
+  }
+  if (!config && !configError) return receipt;
+
+  if (!(await claimEtimsSubmission(supabase, tabId))) {
+    return receipt;
+  }
+
+  receipt.etims = config
+    ? await submitEtimsInvoice(supabase, receipt, config)
+    : await recordEtimsFailure(supabase, tabId, null, null, configError);
+  return receipt;
+}
+
+async function saveEtimsResult(
+  supabase: SupabaseClient,
+  tabId: string,
+  update: Partial<IssuedTabReceipt> & { etims_invoice?: unknown; etims_response?: unknown }
+): Promise<TabReceiptEtims | null> {
+  const { data, error } = await supabase
+    .from('tab_receipts')
+    .update(update)
+    .eq('tab_id', tabId)
+    .select(TAB_RECEIPT_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new TabReceiptError(`Failed to save eTIMS result: ${error.message}`, 500, error);
+  }
+  return toReceiptEtims(data);
+}
+
+async function recordEtimsFailure(
+  supabase: SupabaseClient,
+  tabId: string,
+  adapter: string | null,
+  payload: unknown,
+  err: unknown
+): Promise<TabReceiptEtims | null> {
+  console.error('eTIMS submission failed for tab', tabId, err);
+  return saveEtimsResult(supabase, tabId, {
+    etims_status: 'failed',
+    etims_adapter: adapter,
+    etims_invoice: payload,
+    etims_error: err instanceof Error ? err.message : 'eTIMS submission failed'
+  });
+}
+
+/**
+ * File a numbered receipt as an eTIMS sale and keep the control unit data
+ * A failure is recorded rather than thrown so the receipt still shows; the
+ * failed row can be claimed and filed again (fileClosedTabReceipt).
+ */
+export async function submitEtimsInvoice(
+  supabase: SupabaseClient,
+  receipt: TabReceipt,
+  config: EtimsConfig
+): Promise<TabReceiptEtims | null> {
+  if (!receipt.receiptNumber || !receipt.issuedAt) {
+    throw new TabReceiptError('Only a numbered receipt can be filed with eTIMS', 409);
+  }
+
+  const payload = buildEtimsSalePayload({
+    invoiceNumber: Number(receipt.receiptNumber),
+    tradeInvoiceNumber: receipt.receiptNumber,
+    issuedAt: receipt.issuedAt,
+    customerName: receipt.displayName,
+    paymentMethods: receipt.payments.filter(payment => payment.amount > 0).map(payment => payment.method),
+    lines: receipt.items
+  }, config);
+
+  let result;
+  try {
+    result = await getEtimsAdapter(config.adapter).submitSale(payload, config);
+  } catch (err) {
+    return recordEtimsFailure(supabase, receipt.tabId, config.adapter, payload, err);
+  }
+
+  return saveEtimsResult(supabase, receipt.tabId, {
+    etims_status: 'submitted',
+    etims_adapter: config.adapter,
+    etims_invoice: payload,
+    etims_response: result.response,
+    etims_cu_invoice_number: result.controlUnitInvoiceNumber,
+    etims_receipt_signature: result.receiptSignature,
+    etims_internal_data: result.internalData,
+    etims_qr_url: result.qrUrl,
+    etims_submitted_at: new Date().toISOString(),
+    etims_error: null
+  });
+}
+
+/**
+ * A tab's receipt for its owner's device or the bar's staff
+ */
+export async function getTabReceipt(supabase: SupabaseClient, tabId: string, requester: TabRequester): Promise<TabReceipt> {
+  await loadAuthorizedTab(supabase, tabId, requester);
+  return loadTabReceipt(supabase, tabId);
+}
+
+function getShareSecret(): string {
+  const secret = process.env.RECEIPT_SHARE_SECRET;
+  if (!secret) {
+    throw new TabReceiptError('Receipt sharing is not configured', 503);
+  }
+  return secret;
+}
+
+function shareSignature(secret: string, payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Sign a link token for a tab's receipt that stops working after `days`
+ */
+export function createReceiptShareToken(
+  tabId: string,
+  days: number = DEFAULT_RECEIPT_SHARE_DAYS,
+  now: Date = new Date()
+): { token: string; expiresAt: string } {
+  if (!Number.isInteger(days) || days < 1 || days > MAX_RECEIPT_SHARE_DAYS) {
+    throw new TabReceiptError(`Share links can last 1 to ${MAX_RECEIPT_SHARE_DAYS} days`);
+  }
+
+  const expires = Math.floor(now.getTime() / 1000) + days * 24 * 60 * 60;
+  const payload = `${tabId}.${expires}`;
+
+  return {
+    token: `${payload}.${shareSignature(getShareSecret(), payload)}`,
+    expiresAt: new Date(expires * 1000).toISOString()
+  };
+}
+
+/**
+ * Check a share token and return the tab it is for
+ */
+export function verifyReceiptShareToken(token: string, now: Date = new Date()): string {
+  const [tabId, expiresText, signature] = (token || '').split('.');
+  if (!tabId || !expiresText || !signature) {
+    throw new TabReceiptError('Invalid receipt link', 404);
+  }
+
+  const expected = shareSignature(getShareSecret(), `${tabId}.${expiresText}`);
+  const valid = signature.length === expected.length &&
+    timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  if (!valid) {
+    throw new TabReceiptError('Invalid receipt link', 404);
+  }
+
+  if (Number(expiresText) * 1000 <= now.getTime()) {
+    throw new TabReceiptError('This receipt link has expired', 410);
+  }
+
+  return tabId;
+}
+
+function formatAmount(amount: number): string {
+  return new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount);
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  mpesa: 'M-Pesa',
+  cash: 'Cash',
+  card: 'Card',
+  cards: 'Card'
+};
+
+/**
+ * Lay the receipt out as fixed-width text lines, `width` characters wide
+ */
+export function formatReceiptLines(receipt: TabReceipt, width: number = pdfLineCapacity()): PdfTextLine[] {
+  const lines: PdfTextLine[] = [];
+  const center = (text: string, bold = false) => {
+    const trimmed = text.slice(0, width);
+    lines.push({ text: ' '.repeat(Math.floor((width - trimmed.length) / 2)) + trimmed, bold });
+  };
+  const row = (left: string, right: string, bold = false) => {
+    const room = Math.max(width - right.length - 1, 1);
+    const label = left.length > room ? left.slice(0, room) : left;
+    lines.push({ text: label + ' '.repeat(width - label.length - right.length) + right, bold });
+  };
+  const divider = () => lines.push({ text: '-'.repeat(width) });
+  const wrap = (text: string) => {
+    for (let start = 0; start < text.length; start += width) {
+      lines.push({ text: text.slice(start, start + width) });
+    }
+  };
+
+  center(receipt.bar.name, true);
+  if (receipt.bar.location) center(receipt.bar.location);
+  if (receipt.bar.phone) center(`Tel: ${receipt.bar.phone}`);
+  if (receipt.bar.kraPin) center(`PIN: ${receipt.bar.kraPin}`);
+  lines.push({ text: '' });
+  center(receipt.receiptNumber ? `RECEIPT #${receipt.receiptNumber}` : 'PROVISIONAL BILL', true);
+  row(`Tab #${receipt.tabNumber}`, receipt.displayName || '');
+  row('Date', formatKenyaTime(receipt.closedAt || receipt.issuedAt || new Date().toISOString(), 'sortable').slice(0, 16));
+  divider();
+
+  receipt.items.forEach(item => {
+    row(`${item.quantity} x ${item.name}`, formatAmount(item.total));
+    if (item.quantity > 1) {
+      lines.push({ text: `    @ ${formatAmount(item.unitPrice)}` });
+    }
+  });
+  if (receipt.items.length === 0) {
+    lines.push({ text: 'No items' });
+  }
+  divider();
+
+  if (receipt.pricesIncludeTax) {
+    row('TOTAL (KES)', formatAmount(receipt.total), true);
+    receipt.taxes.forEach(tax => {
+      if (tax.rate > 0) row(`Incl. ${tax.label}`, formatAmount(tax.tax));
+      else row(`${tax.label} sales`, formatAmount(tax.gross));
+    });
+  } else {
+    row('Subtotal', formatAmount(receipt.subtotal));
+    receipt.taxes.forEach(tax => {
+      if (tax.rate > 0) row(tax.label, formatAmount(tax.tax));
+    });
+    row('TOTAL (KES)', formatAmount(receipt.total), true);
+  }
+  divider();
+
+  receipt.payments.forEach(payment => {
+    const label = payment.amount < 0 ? 'Refund' : METHOD_LABELS[payment.method] || payment.method;
+    row(label, formatAmount(payment.amount));
+    if (payment.mpesaReceiptNumber) {
+      lines.push({ text: `  Ref ${payment.mpesaReceiptNumber}` });
+    }
+  });
+  if (receipt.tips > 0) row('Tips', formatAmount(receipt.tips));
+  if (receipt.serviceCharges > 0) row('Service charge', formatAmount(receipt.serviceCharges));
+  receipt.writeOffs.forEach(writeOff => row(writeOff.reason || 'Written off', formatAmount(writeOff.amount)));
+  row('Paid', formatAmount(receipt.paid));
+  row('BALANCE', formatAmount(receipt.balance), true);
+  divider();
+
+  if (receipt.etims?.status === 'submitted') {
+    center(receipt.etims.test ? 'eTIMS TEST INVOICE' : 'KRA eTIMS', true);
+    wrap(`CU INV: ${receipt.etims.controlUnitInvoiceNumber}`);
+    wrap(`Internal: ${receipt.etims.internalData}`);
+    wrap(`Signature: ${receipt.etims.receiptSignature}`);
+    if (receipt.etims.qrUrl) {
+      lines.push({ text: 'Verify:' });
+      wrap(receipt.etims.qrUrl);
+    }
+    divider();
+  } else if (receipt.etims) {
+    center('eTIMS invoice pending');
+    divider();
+  }
+
+  center('Thank you!');
+  center('Powered by Tabeza');
+  return lines;
+}
+
+/**
+ * Render the receipt as an 80mm-wide PDF
+ */
+export function buildReceiptPdf(receipt: TabReceipt): Uint8Array {
+  return buildTextPdf(formatReceiptLines(receipt), {
+    title: receipt.receiptNumber ? `Receipt ${receipt.receiptNumber}` : `Tab ${receipt.tabNumber} bill`
+  });
+}
+
+/**
+ * Download filename for a receipt PDF
+ */
+export function getReceiptFilename(receipt: TabReceipt): string {
+  return receipt.receiptNumber
+    ? `receipt-${receipt.receiptNumber}.pdf`
+    : `tab-${receipt.tabNumber}-bill.pdf`;
+}
@@ -0,0 +1,485 @@
+/**
+ * Tab Split Service
+ * Divides a tab's balance into shares so a group can pay separately:
+ * equal shares, by-item assignment of order lines, or custom amounts.
+ *
+ * Each share is paid with its own M-Pesa STK push (see /api/payments/mpesa
+ * with `splitShareId`). Share progress is kept current by the
+ * `sync_split_share_progress` trigger from migration 008.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { loadAuthorizedTab, type TabRequester } from './tab-details';
+
+export type SplitMode = 'equal' | 'items' | 'custom';
+export type SplitStatus = 'active' | 'completed' | 'cancelled';
+export type SplitShareStatus = 'unpaid' | 'pending' | 'paid';
+
+/** One line of an order, identified by its position in `tab_orders.items` */
+export interface SplitItemRef {
+  orderId: string;
+  itemIndex: number;
+}
+
+export type CreateSplitInput =
+  | { mode: 'equal'; count: number; labels?: string[] }
+  | { mode: 'items'; shares: Array<{ label?: string; items: SplitItemRef[] }> }
+  | { mode: 'custom'; shares: Array<{ label?: string; amount: number }> };
+
+export interface PlannedShare {
+  label: string;
+  amount: number;
+  items: Array<{ order_id: string; item_index: number }>;
+}
+
+/** Billable order as needed for by-item splits */
+export interface SplitOrder {
+  id: string;
+  items: any;
+}
+
+export interface TabSplitShare {
+  id: string;
+  split_id: string;
+  tab_id: string;
+  position: number;
+  label: string;
+  amount: number;
+  paid_amount: number;
+  phone_number: string | null;
+  items: Array<{ order_id: string; item_index: number }>;
+  status: SplitShareStatus;
+}
+
+export interface TabSplit {
+  id: string;
+  tab_id: string;
+  mode: SplitMode;
+  total_amount: number;
+  status: SplitStatus;
+  created_by: 'customer' | 'staff';
+  created_at: string;
+  shares: TabSplitShare[];
+  paid_amount: number;
+  remaining_amount: number;
+}
+
+export class TabSplitError extends Error {
+  constructor(message: string, public statusCode: number = 400, public originalError?: any) {
+    super(message);
+    this.name = 'TabSplitError';
+  }
+}
+
+export const MIN_SPLIT_SHARES = 2;
+export const MAX_SPLIT_SHARES = 20;
+const MAX_LABEL_LENGTH = 30;
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+function shareLabel(label: string | undefined, index: number): string {
+  const trimmed = label?.trim().slice(0, MAX_LABEL_LENGTH);
+  return trimmed || `Person ${index + 1}`;
+}
+
+function assertShareCount(count: number) {
+  if (!Number.isInteger(count) || count < MIN_SPLIT_SHARES || count > MAX_SPLIT_SHARES) {
+    throw new TabSplitError(`A split needs between ${MIN_SPLIT_SHARES} and ${MAX_SPLIT_SHARES} shares`);
+  }
+}
+
+function parseOrderItems(items: any): any[] {
+  if (typeof items === 'string') {
+    try {
+      return JSON.parse(items);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(items) ? items : [];
+}
+
+function itemLineTotal(item: any): number {
+  const total = Number(item?.total);
+  if (Number.isFinite(total)) {
+    return total;
+  }
+  return (Number(item?.price) || 0) * (Number(item?.quantity) || 1);
+}
+
+/**
+ * Divide an amount into equal shares
+ * Whole-shilling totals split into whole shillings (M-Pesa only takes whole
+ * amounts); the remainder goes one unit at a time to the first shares.
+ */
+export function splitEqually(total: number, count: number): number[] {
+  assertShareCount(count);
+
+  const unitCents = Number.isInteger(total) ? 100 : 1;
+  const units = Math.round(toCents(total) / unitCents);
+  const base = Math.floor(units / count);
+  const remainder = units - base * count;
+
+  if (base === 0) {
+    throw new TabSplitError('The balance is too small to split that many ways');
+  }
+
+  return Array.from({ length: count }, (_, index) =>
+    fromCents((base + (index < remainder ? 1 : 0)) * unitCents)
+  );
+}
+
+/**
+ * Total each share's assigned order lines
+ * Every line of every billable order must be assigned to exactly one share.
+ */
+export function splitByItems(
+  orders: SplitOrder[],
+  shares: Array<{ items: SplitItemRef[] }>
+): number[] {
+  const lines = new Map<string, number>();
+  for (const order of orders) {
+    parseOrderItems(order.items).forEach((item, index) => {
+      lines.set(`${order.id}:${index}`, itemLineTotal(item));
+    });
+  }
+
+  const assigned = new Set<string>();
+  const amounts = shares.map(share => {
+    if (!Array.isArray(share?.items)) {
+      throw new TabSplitError('Each person needs a list of items');
+    }
+    let cents = 0;
+    for (const ref of share.items) {
+      const key = `${ref.orderId}:${ref.itemIndex}`;
+      if (!lines.has(key)) {
+        throw new TabSplitError('Assigned item does not belong to an order on this tab');
+      }
+      if (assigned.has(key)) {
+        throw new TabSplitError('Each item can only be assigned to one person');
+      }
+      assigned.add(key);
+      cents += toCents(lines.get(key)!);
+    }
+    return fromCents(cents);
+  });
+
+  if (assigned.size !== lines.size) {
+    throw new TabSplitError(`Assign every item before splitting (${lines.size - assigned.size} left)`);
+  }
+  if (amounts.some(amount => amount <= 0)) {
+    throw new TabSplitError('Every person needs at least one item');
+  }
+  return amounts;
+}
+
+/**
+ * Turn a split request into validated shares that add up to the balance
+ */
+export function planSplitShares(input: CreateSplitInput, balance: number, orders: SplitOrder[] = []): PlannedShare[] {
+  if (!(balance > 0)) {
+    throw new TabSplitError('There is no balance to split');
+  }
+  if (input.mode !== 'equal' && !Array.isArray((input as any).shares)) {
+    throw new TabSplitError('shares must be a list');
+  }
+
+  let planned: PlannedShare[];
+
+  switch (input.mode) {
+    case 'equal':
+      planned = splitEqually(balance, input.count).map((amount, index) => ({
+        label: shareLabel(input.labels?.[index], index),
+        amount,
+        items: []
+      }));
+      break;
+
+    case 'items': {
+      assertShareCount(input.shares?.length ?? 0);
+      const amounts = splitByItems(orders, input.shares);
+      planned = input.shares.map((share, index) => ({
+        label: shareLabel(share.label, index),
+        amount: amounts[index],
+        items: share.items.map(ref => ({ order_id: ref.orderId, item_index: ref.itemIndex }))
+      }));
+      break;
+    }
+
+    case 'custom':
+      assertShareCount(input.shares?.length ?? 0);
+      planned = input.shares.map((share, index) => {
+        if (typeof share.amount !== 'number' || !(share.amount > 0)) {
+          throw new TabSplitError('Every share needs an amount greater than zero');
+        }
+        return { label: shareLabel(share.label, index), amount: fromCents(toCents(share.amount)), items: [] };
+      });
+      break;
+
+    default:
+      throw new TabSplitError('Split mode must be equal, items or custom');
+  }
+
+  const plannedCents = planned.reduce((sum, share) => sum + toCents(share.amount), 0);
+  if (plannedCents !== toCents(balance)) {
+    const hint = input.mode === 'items'
+      ? ' Items no longer match the balance after earlier payments; split equally or by custom amounts instead.'
+      : '';
+    throw new TabSplitError(
+      `Shares add up to ${fromCents(plannedCents)} but the balance is ${balance}.${hint}`
+    );
+  }
+
+  return planned;
+}
+
+function toSplitView(split: any, shares: any[]): TabSplit {
+  const normalizedShares = shares
+    .map(share => ({
+      ...share,
+      amount: Number(share.amount),
+      paid_amount: Number(share.paid_amount) || 0
+    }))
+    .sort((a, b) => a.position - b.position) as TabSplitShare[];
+
+  const paidCents = normalizedShares.reduce((sum, share) => sum + toCents(Math.min(share.paid_amount, share.amount)), 0);
+  const totalAmount = Number(split.total_amount);
+
+  return {
+    ...split,
+    total_amount: totalAmount,
+    shares: normalizedShares,
+    paid_amount: fromCents(paidCents),
+    remaining_amount: fromCents(Math.max(toCents(totalAmount) - paidCents, 0))
+  };
+}
+
+async function loadLatestSplit(supabase: SupabaseClient, tabId: string): Promise<TabSplit | null> {
+  const { data, error } = await supabase
+    .from('tab_splits')
+    .select('*, shares:tab_split_shares(*)')
+    .eq('tab_id', tabId)
+    .neq('status', 'cancelled')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new TabSplitError(`Failed to load split: ${error.message}`, 500, error);
+  }
+  if (!data) {
+    return null;
+  }
+
+  const { shares, ...split } = data as any;
+  return toSplitView(split, shares || []);
+}
+
+/**
+ * The tab's current split (active, or completed if it has been paid off)
+ */
+export async function getTabSplit(
+  supabase: SupabaseClient,
+  tabId: string,
+  requester: TabRequester
+): Promise<TabSplit | null> {
+  await loadAuthorizedTab(supabase, tabId, requester);
+  return loadLatestSplit(supabase, tabId);
+}
+
+/**
+ * Start split mode on a tab
+ */
+export async function createTabSplit(
+  supabase: SupabaseClient,
+  tabId: string,
+  requester: TabRequester,
+  input: CreateSplitInput
+): Promise<TabSplit> {
+  const tab = await loadAuthorizedTab(supabase, tabId, requester);
+
+  if (tab.status !== 'open' && tab.status !== 'overdue') {
+    throw new TabSplitError('Only open tabs can be split', 409);
+  }
+
+  const { data: existing } = await supabase
+    .from('tab_splits')
+    .select('id')
+    .eq('tab_id', tabId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (existing) {
+    throw new TabSplitError('This tab is already being split. Cancel it first to start again.', 409);
+  }
+
+  const { data: balanceData, error: balanceError } = await supabase.rpc('get_tab_balance', { p_tab_id: tabId });
+  if (balanceError) {
+    throw new TabSplitError(`Failed to load balance: ${balanceError.message}`, 500, balanceError);
+  }
+  const balance = Number(balanceData) || 0;
+
+  let orders: SplitOrder[] = [];
+  if (input.mode === 'items') {
+    const { data, error } = await supabase
+      .from('tab_orders')
+      .select('id, items')
+      .eq('tab_id', tabId)
+      .in('status', ['confirmed', 'served']);
+
+    if (error) {
+      throw new TabSplitError(`Failed to load orders: ${error.message}`, 500, error);
+    }
+    orders = data || [];
+  }
+
+  const planned = planSplitShares(input, balance, orders);
+
+  const { data: split, error: splitError } = await supabase
+    .from('tab_splits')
+    .insert({
+      tab_id: tabId,
+      mode: input.mode,
+      total_amount: balance,
+      created_by: requester.type
+    })
+    .select()
+    .single();
+
+  if (splitError || !split) {
+    // The partial unique index catches a split created concurrently
+    if (splitError?.code === '23505') {
+      throw new TabSplitError('This tab is already being split', 409, splitError);
+    }
+    throw new TabSplitError(`Failed to create split: ${splitError?.message}`, 500, splitError);
+  }
+
+  const { data: shares, error: sharesError } = await supabase
+    .from('tab_split_shares')
+    .insert(planned.map((share, index) => ({
+      split_id: split.id,
+      tab_id: tabId,
+      position: index + 1,
+      label: share.label,
+      amount: share.amount,
+      items: share.items
+    })))
+    .select();
+
+  if (sharesError || !shares) {
+    await supabase.from('tab_splits').delete().eq('id', split.id);
+    throw new TabSplitError(`Failed to create split shares: ${sharesError?.message}`, 500, sharesError);
+  }
+
+  return toSplitView(split, shares);
+}
+
+/**
+ * Leave split mode. Shares already paid stay on the tab as ordinary payments.
+ */
+export async function cancelTabSplit(
+  supabase: SupabaseClient,
+  tabId: string,
+  requester: TabRequester
+): Promise<void> {
+  await loadAuthorizedTab(supabase, tabId, requester);
+
+  const split = await loadLatestSplit(supabase, tabId);
+  if (!split || split.status !== 'active') {
+    throw new TabSplitError('This tab is not being split', 404);
+  }
+  if (split.shares.some(share => share.status === 'pending')) {
+    throw new TabSplitError('Wait for pending M-Pesa prompts to finish before cancelling the split', 409);
+  }
+
+  const { error } = await supabase
+    .from('tab_splits')
+    .update({ status: 'cancelled' })
+    .eq('id', split.id)
+    .eq('status', 'active');
+
+  if (error) {
+    throw new TabSplitError(`Failed to cancel split: ${error.message}`, 500, error);
+  }
+}
+
+/**
+ * Look up a share about to be paid and work out what is still owed on it
+ * Used by the M-Pesa initiation route; records the payer's phone on the share.
+ */
+export async function prepareSplitSharePayment(
+  supabase: SupabaseClient,
+  tabId: string,
+  shareId: string,
+  phoneNumber: string
+): Promise<{ share: TabSplitShare; amountDue: number }> {
+  const { data, error } = await supabase
+    .from('tab_split_shares')
+    .select('*, split:tab_splits!inner(status)')
+    .eq('id', shareId)
+    .eq('tab_id', tabId)
+    .maybeSingle();
+
+  if (error) {
+    throw new TabSplitError(`Failed to load share: ${error.message}`, 500, error);
+  }
+  if (!data) {
+    throw new TabSplitError('Share not found on this tab', 404);
+  }
+
+  const { split, ...row } = data as any;
+  const splitStatus = Array.isArray(split) ? split[0]?.status : split?.status;
+  if (splitStatus !== 'active') {
+    throw new TabSplitError('This split is no longer active', 409);
+  }
+
+  const share = { ...row, amount: Number(row.amount), paid_amount: Number(row.paid_amount) || 0 } as TabSplitShare;
+  const amountDue = fromCents(toCents(share.amount) - toCents(share.paid_amount));
+  if (share.status === 'paid' || amountDue <= 0) {
+    throw new TabSplitError(`${share.label} has already paid`, 409);
+  }
+  // A second prompt while one is still open could be paid twice
+  if (share.status === 'pending') {
+    throw new TabSplitError(`${share.label} already has an M-Pesa payment in progress`, 409);
+  }
+
+  // Claim the share so two phones paying it at once cannot both be prompted;
+  // the payment row's trigger takes the status over from here
+  const { data: claimed, error: claimError } = await supabase
+    .from('tab_split_shares')
+    .update({ status: 'pending', phone_number: phoneNumber })
+    .eq('id', share.id)
+    .eq('status', 'unpaid')
+    .select('id');
+
+  if (claimError) {
+    throw new TabSplitError(`Failed to claim share: ${claimError.message}`, 500, claimError);
+  }
+  if (!claimed || claimed.length === 0) {
+    throw new TabSplitError(`${share.label} already has an M-Pesa payment in progress`, 409);
+  }
+
+  return { share: { ...share, status: 'pending', phone_number: phoneNumber }, amountDue };
+}
+
+/**
+ * Hand back a share claimed by prepareSplitSharePayment when no payment was
+ * started for it after all
+ */
+export async function releaseSplitShare(supabase: SupabaseClient, shareId: string): Promise<void> {
+  const { error } = await supabase
+    .from('tab_split_shares')
+    .update({ status: 'unpaid' })
+    .eq('id', shareId)
+    .eq('status', 'pending');
+
+  if (error) {
+    console.error('Failed to release split share:', { shareId, error: error.message });
+  }
+}
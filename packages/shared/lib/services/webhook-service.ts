@@ -0,0 +1,615 @@
+/**
+ * Webhook Delivery Service
+ *
+ * Delivers tab, order and payment events to endpoints registered by a bar.
+ * Database triggers queue events in `webhook_events`; this service fans them
+ * out to subscribed endpoints, signs each request with the endpoint secret and
+ * records every attempt in `webhook_deliveries`. Failed deliveries are retried
+ * with backoff until the retry budget is spent.
+ *
+ * Server-side only: requires a service-role client and Node's crypto module.
+ */
+
+import crypto from 'crypto';
+import { lookup as dnsLookup } from 'dns/promises';
+import net from 'net';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type WebhookEventType =
+  | 'tab.opened'
+  | 'order.confirmed'
+  | 'order.served'
+  | 'payment.success'
+  | 'payment.failed'
+  | 'tab.closed';
+
+export const WEBHOOK_EVENTS: WebhookEventType[] = [
+  'tab.opened',
+  'order.confirmed',
+  'order.served',
+  'payment.success',
+  'payment.failed',
+  'tab.closed'
+];
+
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'sending' | 'delivered' | 'failed';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Tabeza-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-Tabeza-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Tabeza-Delivery';
+
+/** Signatures older than this are rejected by verifyWebhookSignature */
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface WebhookEndpoint {
+  id: string;
+  bar_id: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  description?: string | null;
+  enabled: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface WebhookEventRecord {
+  id: string;
+  bar_id: string;
+  event_type: WebhookEventType;
+  payload: Record<string, any>;
+  created_at: string;
+  dispatched_at?: string | null;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  event_id: string;
+  endpoint_id: string;
+  bar_id: string;
+  event_type: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+/** JSON body sent to endpoints */
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType;
+  bar_id: string;
+  created_at: string;
+  data: Record<string, any>;
+}
+
+export interface WebhookAttemptResult {
+  success: boolean;
+  statusCode?: number;
+  responseBody?: string;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDeliveryServiceConfig {
+  maxAttempts?: number;
+  retryDelayMs?: number[];
+  timeoutMs?: number;
+  batchSize?: number;
+  fetch?: typeof fetch;
+  /** Skip the public-host check before sending; only for tests against a local receiver */
+  allowPrivateHosts?: boolean;
+}
+
+export interface WebhookRunResult {
+  eventsDispatched: number;
+  deliveriesAttempted: number;
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+export class WebhookError extends Error {
+  constructor(message: string, public statusCode: number = 500, public originalError?: any) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+/** Longest response body kept in the delivery log */
+const MAX_LOGGED_RESPONSE_LENGTH = 500;
+
+/** How long past the send timeout a claimed delivery stays with the run that claimed it */
+const SENDING_CLAIM_MARGIN_MS = 60000;
+
+export function isWebhookEventType(value: string): value is WebhookEventType {
+  return (WEBHOOK_EVENTS as string[]).includes(value);
+}
+
+/**
+ * Generate a signing secret for a new endpoint
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Sign a request body: HMAC-SHA256 over `${timestamp}.${body}`
+ * Returns the header value `t=<unix seconds>,v1=<hex digest>`.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Verify a signature header produced by signWebhookPayload
+ * Receivers should use this (or an equivalent) before trusting a delivery.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  signatureHeader: string | null | undefined,
+  toleranceSeconds: number = WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  if (!signatureHeader) {
+    return false;
+  }
+
+  const parts = Object.fromEntries(
+    signatureHeader.split(',').map(part => {
+      const [key, ...rest] = part.trim().split('=');
+      return [key, rest.join('=')];
+    })
+  );
+  const timestamp = parseInt(parts.t, 10);
+  if (!parts.v1 || isNaN(timestamp) || Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = signWebhookPayload(secret, body, timestamp).split('v1=')[1];
+  const received = Buffer.from(parts.v1, 'hex');
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  return received.length === expectedBuffer.length && crypto.timingSafeEqual(received, expectedBuffer);
+}
+
+/**
+ * Validate endpoint settings submitted from the settings page
+ * Plain HTTP is only allowed for local receivers.
+ */
+export function validateWebhookEndpointInput(input: { url?: string; events?: string[] }): {
+  url: string;
+  events: WebhookEventType[];
+} {
+  let url: URL;
+  try {
+    url = new URL((input.url || '').trim());
+  } catch {
+    throw new WebhookError('A valid endpoint URL is required', 400);
+  }
+
+  if (url.protocol !== 'https:') {
+    throw new WebhookError('Webhook endpoints must use HTTPS', 400);
+  }
+  if (isPrivateWebhookHostname(url.hostname)) {
+    throw new WebhookError(PRIVATE_HOST_MESSAGE, 400);
+  }
+
+  const events = Array.from(new Set(input.events || []));
+  if (events.length === 0) {
+    throw new WebhookError('Select at least one event', 400);
+  }
+  const invalid = events.filter(event => !isWebhookEventType(event));
+  if (invalid.length > 0) {
+    throw new WebhookError(`Unknown webhook events: ${invalid.join(', ')}`, 400);
+  }
+
+  return { url: url.toString(), events: events as WebhookEventType[] };
+}
+
+const PRIVATE_HOST_MESSAGE = 'Webhook endpoints must be on the public internet';
+
+/**
+ * Whether an IP address is loopback, private, link-local (which includes the
+ * cloud metadata address), carrier-grade NAT or otherwise not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase();
+  if (net.isIPv4(ip)) {
+    const [a, b] = ip.split('.').map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+  if (net.isIPv6(ip)) {
+    const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    return (
+      ip === '::' ||
+      ip === '::1' ||
+      /^f[cd]/.test(ip) ||
+      /^fe[89ab]/.test(ip) ||
+      /^ff/.test(ip)
+    );
+  }
+  return true;
+}
+
+function isPrivateWebhookHostname(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) return true;
+  return net.isIP(host) !== 0 && isPrivateAddress(host);
+}
+
+/**
+ * Resolve an endpoint's host and refuse it when any address it points at is
+ * not public, so a bar cannot aim deliveries at our own network.
+ * Run when an endpoint is saved and again before every send, since DNS can
+ * change after the URL was accepted.
+ */
+export async function assertPublicWebhookUrl(
+  endpointUrl: string,
+  lookup: (hostname: string) => Promise<string[]> = resolveHostAddresses
+): Promise<void> {
+  let hostname: string;
+  try {
+    hostname = new URL(endpointUrl).hostname;
+  } catch {
+    throw new WebhookError('A valid endpoint URL is required', 400);
+  }
+  if (isPrivateWebhookHostname(hostname)) {
+    throw new WebhookError(PRIVATE_HOST_MESSAGE, 400);
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) !== 0) return;
+
+  let addresses: string[];
+  try {
+    addresses = await lookup(host);
+  } catch {
+    throw new WebhookError(`Could not resolve endpoint host ${host}`, 400);
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new WebhookError(PRIVATE_HOST_MESSAGE, 400);
+  }
+}
+
+async function resolveHostAddresses(hostname: string): Promise<string[]> {
+  const results = await dnsLookup(hostname, { all: true });
+  return results.map(result => result.address);
+}
+
+export function buildWebhookPayload(event: WebhookEventRecord): WebhookPayload {
+  return {
+    id: event.id,
+    type: event.event_type,
+    bar_id: event.bar_id,
+    created_at: event.created_at,
+    data: event.payload || {}
+  };
+}
+
+/**
+ * Delay before the next attempt, indexed by attempts already made
+ * Mirrors PaymentNotificationService: the last delay repeats once the list runs out.
+ */
+export function getRetryDelayMs(attempts: number, retryDelayMs: number[]): number {
+  const delayIndex = Math.min(Math.max(attempts - 1, 0), retryDelayMs.length - 1);
+  return retryDelayMs[delayIndex];
+}
+
+/**
+ * POST a signed payload to an endpoint once
+ * Any 2xx response counts as delivered.
+ */
+export async function sendWebhookRequest(
+  endpoint: Pick<WebhookEndpoint, 'url' | 'secret'>,
+  payload: WebhookPayload,
+  deliveryId: string,
+  options: { timeoutMs?: number; fetch?: typeof fetch } = {}
+): Promise<WebhookAttemptResult> {
+  const body = JSON.stringify(payload);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), options.timeoutMs ?? 5000);
+  const startTime = Date.now();
+  const fetchImpl = options.fetch ?? fetch;
+
+  try {
+    const response = await fetchImpl(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Tabeza-Webhooks/1.0',
+        [WEBHOOK_EVENT_HEADER]: payload.type,
+        [WEBHOOK_DELIVERY_HEADER]: deliveryId,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, body)
+      },
+      body,
+      // A redirect could point a public host at a private one after the host check
+      redirect: 'manual',
+      signal: controller.signal
+    });
+
+    const responseBody = (await response.text().catch(() => '')).slice(0, MAX_LOGGED_RESPONSE_LENGTH);
+
+    return {
+      success: response.ok,
+      statusCode: response.status,
+      responseBody,
+      error: response.ok ? undefined : `Endpoint responded with HTTP ${response.status}`,
+      durationMs: Date.now() - startTime
+    };
+  } catch (error) {
+    const aborted = error instanceof Error && error.name === 'AbortError';
+    return {
+      success: false,
+      error: aborted ? 'Request timed out' : (error instanceof Error ? error.message : 'Unknown error'),
+      durationMs: Date.now() - startTime
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Webhook Delivery Service Class
+ *
+ * Run by the webhook worker route on a schedule; each run fans out queued
+ * events and attempts every delivery that is due.
+ */
+export class WebhookDeliveryService {
+  private config: Required<Omit<WebhookDeliveryServiceConfig, 'fetch'>> & { fetch?: typeof fetch };
+
+  constructor(private supabase: SupabaseClient, config: WebhookDeliveryServiceConfig = {}) {
+    this.config = {
+      maxAttempts: 4,
+      retryDelayMs: [60000, 300000, 1800000],
+      timeoutMs: 5000,
+      batchSize: 50,
+      allowPrivateHosts: false,
+      ...config
+    };
+  }
+
+  /**
+   * Fan out queued events and attempt all due deliveries
+   */
+  async run(): Promise<WebhookRunResult> {
+    const eventsDispatched = await this.dispatchPendingEvents();
+    const deliveries = await this.processDueDeliveries();
+    return { eventsDispatched, ...deliveries };
+  }
+
+  /**
+   * Create a delivery row for every enabled endpoint subscribed to each queued event
+   */
+  async dispatchPendingEvents(): Promise<number> {
+    const { data: events, error } = await this.supabase
+      .from('webhook_events')
+      .select('*')
+      .is('dispatched_at', null)
+      .order('created_at', { ascending: true })
+      .limit(this.config.batchSize);
+
+    if (error) {
+      throw new WebhookError(`Failed to load webhook events: ${error.message}`, 500, error);
+    }
+
+    for (const event of (events || []) as WebhookEventRecord[]) {
+      const { data: endpoints, error: endpointError } = await this.supabase
+        .from('webhook_endpoints')
+        .select('id')
+        .eq('bar_id', event.bar_id)
+        .eq('enabled', true)
+        .contains('events', [event.event_type]);
+
+      if (endpointError) {
+        throw new WebhookError(`Failed to load webhook endpoints: ${endpointError.message}`, 500, endpointError);
+      }
+
+      if (endpoints && endpoints.length > 0) {
+        const { error: insertError } = await this.supabase
+          .from('webhook_deliveries')
+          .upsert(
+            endpoints.map((endpoint: { id: string }) => ({
+              event_id: event.id,
+              endpoint_id: endpoint.id,
+              bar_id: event.bar_id,
+              event_type: event.event_type,
+              status: 'pending'
+            })),
+            { onConflict: 'event_id,endpoint_id', ignoreDuplicates: true }
+          );
+
+        if (insertError) {
+          throw new WebhookError(`Failed to create webhook deliveries: ${insertError.message}`, 500, insertError);
+        }
+      }
+
+      await this.supabase
+        .from('webhook_events')
+        .update({ dispatched_at: new Date().toISOString() })
+        .eq('id', event.id);
+    }
+
+    return events?.length || 0;
+  }
+
+  /**
+   * Attempt every pending or retrying delivery whose next attempt is due
+   */
+  async processDueDeliveries(): Promise<Omit<WebhookRunResult, 'eventsDispatched'>> {
+    const { data: deliveries, error } = await this.supabase
+      .from('webhook_deliveries')
+      .select('*, endpoint:webhook_endpoints(id, url, secret, enabled), event:webhook_events(*)')
+      // 'sending' rows are only due again once their claim has lapsed (the worker died mid-send)
+      .in('status', ['pending', 'retrying', 'sending'])
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(this.config.batchSize);
+
+    if (error) {
+      throw new WebhookError(`Failed to load webhook deliveries: ${error.message}`, 500, error);
+    }
+
+    const result = { deliveriesAttempted: 0, delivered: 0, retrying: 0, failed: 0 };
+
+    for (const delivery of (deliveries || []) as any[]) {
+      const status = await this.attemptDelivery(delivery);
+      if (!status) continue;
+      result.deliveriesAttempted++;
+      result[status === 'delivered' ? 'delivered' : status === 'retrying' ? 'retrying' : 'failed']++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Queue a failed delivery for another round of attempts
+   */
+  async redeliver(deliveryId: string, barId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('webhook_deliveries')
+      .update({ status: 'pending', attempts: 0, next_attempt_at: new Date().toISOString() })
+      .eq('id', deliveryId)
+      .eq('bar_id', barId)
+      .select('id');
+
+    if (error) {
+      throw new WebhookError(`Failed to queue redelivery: ${error.message}`, 500, error);
+    }
+    if (!data || data.length === 0) {
+      throw new WebhookError('Delivery not found', 404);
+    }
+  }
+
+  private async attemptDelivery(delivery: WebhookDelivery & {
+    endpoint: Pick<WebhookEndpoint, 'id' | 'url' | 'secret' | 'enabled'> | null;
+    event: WebhookEventRecord | null;
+  }): Promise<WebhookDeliveryStatus | null> {
+    const attempts = delivery.attempts + 1;
+
+    if (!(await this.claimDelivery(delivery, attempts))) {
+      return null;
+    }
+
+    if (!delivery.endpoint || !delivery.endpoint.enabled || !delivery.event) {
+      await this.updateDelivery(delivery.id, {
+        status: 'failed',
+        attempts,
+        error: 'Endpoint disabled or removed',
+        next_attempt_at: null
+      });
+      return 'failed';
+    }
+
+    if (!this.config.allowPrivateHosts) {
+      try {
+        await assertPublicWebhookUrl(delivery.endpoint.url);
+      } catch (error) {
+        await this.updateDelivery(delivery.id, {
+          status: 'failed',
+          attempts,
+          error: error instanceof Error ? error.message : 'Endpoint host rejected',
+          next_attempt_at: null
+        });
+        return 'failed';
+      }
+    }
+
+    const result = await sendWebhookRequest(
+      delivery.endpoint,
+      buildWebhookPayload(delivery.event),
+      delivery.id,
+      { timeoutMs: this.config.timeoutMs, fetch: this.config.fetch }
+    );
+
+    let status: WebhookDeliveryStatus;
+    let nextAttemptAt: string | null = null;
+
+    if (result.success) {
+      status = 'delivered';
+    } else if (attempts >= this.config.maxAttempts) {
+      status = 'failed';
+    } else {
+      status = 'retrying';
+      nextAttemptAt = new Date(Date.now() + getRetryDelayMs(attempts, this.config.retryDelayMs)).toISOString();
+    }
+
+    await this.updateDelivery(delivery.id, {
+      status,
+      attempts,
+      next_attempt_at: nextAttemptAt,
+      response_status: result.statusCode ?? null,
+      response_body: result.responseBody ?? null,
+      error: result.error ?? null,
+      duration_ms: result.durationMs,
+      delivered_at: result.success ? new Date().toISOString() : null
+    });
+
+    if (!result.success) {
+      console.warn('Webhook delivery failed:', {
+        deliveryId: delivery.id,
+        eventType: delivery.event_type,
+        attempts,
+        status,
+        error: result.error
+      });
+    }
+
+    return status;
+  }
+
+  /**
+   * Mark a delivery as being sent, unless another run got to it first
+   * The row must still hold the status and attempt count we loaded, so of two
+   * overlapping runs only one sends. The claim lapses after the send timeout
+   * plus a margin, letting a later run pick up a delivery whose worker died.
+   */
+  private async claimDelivery(delivery: WebhookDelivery, attempts: number): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('webhook_deliveries')
+      .update({
+        status: 'sending',
+        attempts,
+        next_attempt_at: new Date(Date.now() + this.config.timeoutMs + SENDING_CLAIM_MARGIN_MS).toISOString()
+      })
+      .eq('id', delivery.id)
+      .eq('status', delivery.status)
+      .eq('attempts', delivery.attempts)
+      .select('id');
+
+    if (error) {
+      console.error('Failed to claim webhook delivery:', { deliveryId: delivery.id, error: error.message });
+      return false;
+    }
+    return Boolean(data && data.length > 0);
+  }
+
+  private async updateDelivery(deliveryId: string, updates: Partial<WebhookDelivery>): Promise<void> {
+    const { error } = await this.supabase
+      .from('webhook_deliveries')
+      .update(updates)
+      .eq('id', deliveryId);
+
+    if (error) {
+      console.error('Failed to update webhook delivery log:', { deliveryId, error: error.message });
+    }
+  }
+}